@@ -1,3 +1,10 @@
+const path = require('path');
+
+// Tests that start scan worker threads run the TypeScript sources through
+// ts-node's ESM loader, which needs Node-style resolution of extensionless
+// imports; the options live in a test-only tsconfig
+process.env.TS_NODE_PROJECT = path.join(__dirname, 'tests/tsconfig.worker.json');
+
 /** @type {import('jest').Config} */
 module.exports = {
   preset: 'ts-jest/presets/default-esm',
@@ -1,7 +1,7 @@
 "use client";
 export const dynamic = 'force-dynamic';
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -28,13 +28,19 @@ interface ScannedTransaction {
   netValue: number;
 }
 
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
 export default function ZcashExplorerPage() {
   const { module, account, isRPCConnected } = useZcash();
   const [viewingKey, setViewingKey] = useState<string>("");
+  const [outgoingViewingKey, setOutgoingViewingKey] = useState<string>("");
   const [scanRange, setScanRange] = useState<'recent' | 'custom' | 'full'>('recent');
   const [customStartHeight, setCustomStartHeight] = useState<string>("");
   const [customEndHeight, setCustomEndHeight] = useState<string>("");
   const [scanning, setScanning] = useState(false);
+  const scannerRef = useRef<{ abort(): void } | null>(null);
+  const cancelledRef = useRef(false);
   const [transactions, setTransactions] = useState<ScannedTransaction[]>([]);
   const [balance, setBalance] = useState<number>(0);
   const [spendableBalance, setSpendableBalance] = useState<number>(0);
@@ -67,10 +73,10 @@ export default function ZcashExplorerPage() {
 
   useEffect(() => {
     if (account?.viewingKey) {
-      const viewingKeyHex = Array.from(account.viewingKey)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-      setViewingKey(viewingKeyHex);
+      setViewingKey(toHex(account.viewingKey));
+    }
+    if (account?.outgoingViewingKey) {
+      setOutgoingViewingKey(toHex(account.outgoingViewingKey));
     }
   }, [account]);
 
@@ -86,11 +92,13 @@ export default function ZcashExplorerPage() {
     }
 
     setScanning(true);
+    cancelledRef.current = false;
     setError(null);
     setTransactions([]);
     setBalance(0);
     setSpendableBalance(0);
 
+    let workerPool: { terminate(): Promise<void> } | null = null;
     try {
       const provider = module.getProvider();
       const rpcClient = (provider as any).rpcClient;
@@ -130,8 +138,18 @@ export default function ZcashExplorerPage() {
         throw new Error('Invalid viewing key format');
       }
 
-      const { NoteScanner, NoteCache, ShieldedStateSynchronizer } = await import('@miden/zcash-integration/shielded');
+      // The outgoing viewing key is optional; with it, notes we sent are recovered too
+      const ovkHex = outgoingViewingKey.trim().replace(/^0x/, '');
+      if (ovkHex && !/^[0-9a-fA-F]{64}$/.test(ovkHex)) {
+        throw new Error('Invalid outgoing viewing key. Expected 64 hex characters (32 bytes).');
+      }
+
+      const { NoteScanner, NoteCache, ShieldedStateSynchronizer, ScanWorkerPool, decodeMemo, MEMO_SIZE } = await import('@miden/zcash-integration/shielded');
       const { hexToBytes, bytesToHex } = await import('@miden/zcash-integration/utils');
+      const ovkBytes = ovkHex ? hexToBytes(ovkHex) : undefined;
+
+      // Full-chain scans trial-decrypt in background workers to keep the page responsive
+      workerPool = scanRange === 'full' ? new ScanWorkerPool() : null;
 
       const cache = new NoteCache();
       const scanner = new NoteScanner(
@@ -139,7 +157,9 @@ export default function ZcashExplorerPage() {
         cache,
         {
           batchSize: 100,
-          scanOutgoing: false,
+          scanOutgoing: !!ovkBytes,
+          ovk: ovkBytes,
+          workerPool: workerPool ?? undefined,
           onProgress: (prog) => {
             setProgress({ 
               current: prog.currentHeight || 0, 
@@ -150,6 +170,8 @@ export default function ZcashExplorerPage() {
         }
       );
 
+      scannerRef.current = scanner;
+
       const synchronizer = new ShieldedStateSynchronizer(scanner, cache);
       synchronizer.setRpcClient(rpcClient);
 
@@ -166,6 +188,9 @@ export default function ZcashExplorerPage() {
       const merkleTree = new IncrementalMerkleTree(32);
 
       for (let height = startHeight; height <= endHeight; height += 100) {
+        if (cancelledRef.current) {
+          break;
+        }
         const batchEnd = Math.min(height + 99, endHeight);
         setProgress({ 
           current: height - startHeight, 
@@ -279,9 +304,14 @@ export default function ZcashExplorerPage() {
             const nullifierHex = bytesToHex(scannedNote.note.nullifier);
             const isSpent = spentNullifiers.has(nullifierHex) || scannedNote.note.spent;
 
+            // ZIP-302: show text memos, and note binary ones without decoding them
+            const memo = scannedNote.note.memo?.length === MEMO_SIZE ? decodeMemo(scannedNote.note.memo) : null;
+
             tx.notes.push({
               value: scannedNote.note.value,
-              memo: scannedNote.note.memo,
+              memo: memo?.type === 'text'
+                ? memo.text
+                : memo?.type === 'binary' ? `[binary, ${memo.data.length} bytes]` : undefined,
               address: scannedNote.note.address || '',
               isOutgoing: scannedNote.isOutgoing || false,
               spent: isSpent,
@@ -370,24 +400,33 @@ export default function ZcashExplorerPage() {
         }
       }
 
-      toast.success(`Found ${txs.length} transactions with ${notesFound} notes`);
+      if (cancelledRef.current) {
+        toast.info(`Scan cancelled. Found ${txs.length} transactions with ${notesFound} notes so far`);
+      } else {
+        toast.success(`Found ${txs.length} transactions with ${notesFound} notes`);
+      }
     } catch (err: any) {
       const errorMsg = err?.message || 'Failed to scan transactions';
       setError(errorMsg);
       toast.error(errorMsg);
       console.error('Scan error:', err);
     } finally {
+      scannerRef.current = null;
+      await workerPool?.terminate();
       setScanning(false);
       setProgress(null);
     }
   };
 
+  const handleCancelScan = () => {
+    cancelledRef.current = true;
+    scannerRef.current?.abort();
+  };
+
   const handleUseWalletKey = () => {
     if (account?.viewingKey) {
-      const viewingKeyHex = Array.from(account.viewingKey)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-      setViewingKey(viewingKeyHex);
+      setViewingKey(toHex(account.viewingKey));
+      setOutgoingViewingKey(account.outgoingViewingKey ? toHex(account.outgoingViewingKey) : '');
       toast.success('Viewing key loaded from wallet');
     } else {
       toast.error('No viewing key available in wallet');
@@ -449,6 +488,25 @@ export default function ZcashExplorerPage() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="outgoing-viewing-key">Outgoing Viewing Key (OVK, optional)</Label>
+              <Input
+                id="outgoing-viewing-key"
+                type="text"
+                placeholder="Enter 64-character hex outgoing viewing key"
+                value={outgoingViewingKey}
+                onChange={(e) => {
+                  const val = e.target.value.trim().replace(/^0x/, '');
+                  setOutgoingViewingKey(val);
+                }}
+                disabled={scanning}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                With the outgoing viewing key, notes you sent are also shown, with the recipient and the memo you attached.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Scan Range</Label>
               <select
@@ -517,6 +575,12 @@ export default function ZcashExplorerPage() {
               )}
             </Button>
 
+            {scanning && (
+              <Button variant="outline" onClick={handleCancelScan} className="w-full">
+                Cancel Scan
+              </Button>
+            )}
+
             {progress && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
@@ -678,6 +742,11 @@ export default function ZcashExplorerPage() {
                           <span className={note.isOutgoing ? 'text-red-600' : 'text-green-600'}>
                             {note.isOutgoing ? '-' : '+'}{(note.value / 100000000).toFixed(8)} ZEC
                           </span>
+                          {note.isOutgoing && note.address && (
+                            <span className="font-mono text-xs text-muted-foreground" title={note.address}>
+                              to {note.address.slice(0, 20)}...
+                            </span>
+                          )}
                           {note.spent && (
                             <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
                               Spent
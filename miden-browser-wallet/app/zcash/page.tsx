@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { Eye, Send, Key } from "lucide-react";
+import { Eye, Send, Key, QrCode } from "lucide-react";
 import { SendZcashDialog } from "@/components/zcash/SendZcashDialog";
 import { KeyRecoveryTool } from "@/components/zcash/KeyRecoveryTool";
 import { useZcash } from "@/providers/zcash-provider";
@@ -216,6 +216,13 @@ export default function ZcashPage() {
             </p>
           </div>
           <div className="flex gap-2">
+            <Button 
+              variant="outline" 
+              onClick={() => window.location.href = '/zcash/receive'}
+            >
+              <QrCode className="w-4 h-4 mr-2" />
+              Request Payment
+            </Button>
             <Button 
               variant="outline" 
               onClick={() => window.location.href = '/zcash/explorer'}
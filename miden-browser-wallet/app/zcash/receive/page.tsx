@@ -0,0 +1,268 @@
+"use client";
+export const dynamic = 'force-dynamic';
+
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { QRCodeSVG } from "qrcode.react";
+import { ArrowLeft, Check, Copy, Plus, Trash2 } from "lucide-react";
+import { useZcash } from "@/providers/zcash-provider";
+
+interface PaymentRow {
+  address: string;
+  amount: string;
+  memo: string;
+  label: string;
+  message: string;
+}
+
+// Payment request helpers from the SDK (loaded on mount)
+let createPaymentRequestSDK: any = null;
+let parseZecAmountSDK: any = null;
+let validateAddressSDK: any = null;
+
+const emptyRow = (address: string): PaymentRow => ({
+  address,
+  amount: '',
+  memo: '',
+  label: '',
+  message: ''
+});
+
+export default function ZcashReceivePage() {
+  const { addresses } = useZcash();
+  const [sdkLoaded, setSdkLoaded] = useState(false);
+  const [rows, setRows] = useState<PaymentRow[]>([emptyRow('')]);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadSdk = async () => {
+      try {
+        const sdk = await import('@miden/zcash-integration');
+        createPaymentRequestSDK = sdk.createPaymentRequest;
+        parseZecAmountSDK = sdk.parseZecAmount;
+        validateAddressSDK = sdk.validateAddress;
+        setSdkLoaded(true);
+      } catch (err) {
+        console.error('Failed to load SDK payment request functions:', err);
+        toast.error('Failed to load payment request support');
+      }
+    };
+    loadSdk();
+  }, []);
+
+  // Default the first payment to our shielded address once it is known
+  useEffect(() => {
+    const ownAddress = addresses.zAddress || addresses.tAddress || '';
+    setRows((current) => current.map((row, index) => (
+      index === 0 && !row.address ? { ...row, address: ownAddress } : row
+    )));
+  }, [addresses.zAddress, addresses.tAddress]);
+
+  const isTransparent = (address: string): boolean => {
+    if (!validateAddressSDK || !address) return false;
+    return validateAddressSDK(address.trim()).type === 'transparent';
+  };
+
+  // Build the ZIP-321 URI from the form
+  const request = useMemo((): { uri: string | null; error: string | null } => {
+    if (!sdkLoaded) {
+      return { uri: null, error: null };
+    }
+    try {
+      const payments = rows.map((row) => ({
+        address: row.address.trim(),
+        amount: row.amount.trim() ? parseZecAmountSDK(row.amount.trim()) : undefined,
+        memo: row.memo ? new TextEncoder().encode(row.memo) : undefined,
+        label: row.label || undefined,
+        message: row.message || undefined
+      }));
+      return { uri: createPaymentRequestSDK({ payments }), error: null };
+    } catch (err: any) {
+      return { uri: null, error: err?.message || 'Invalid payment request' };
+    }
+  }, [rows, sdkLoaded]);
+
+  const updateRow = (index: number, field: keyof PaymentRow, value: string) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleCopy = async () => {
+    if (!request.uri) return;
+    try {
+      await navigator.clipboard.writeText(request.uri);
+      setCopied(true);
+      toast.success('Payment request copied!');
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      toast.error('Failed to copy payment request');
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Request Zcash</h1>
+            <p className="text-muted-foreground">
+              Create a ZIP-321 payment request to share as a link or QR code
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => window.location.href = '/zcash'}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {rows.map((row, index) => (
+          <Card key={index}>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>{rows.length > 1 ? `Payment ${index + 1}` : 'Payment'}</CardTitle>
+              {rows.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                  title="Remove payment"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Recipient Address</Label>
+                <Input
+                  type="text"
+                  value={row.address}
+                  onChange={(e) => updateRow(index, 'address', e.target.value.trim())}
+                  placeholder="ztestsapling... / utest... / tm..."
+                  className="font-mono text-sm"
+                />
+                <div className="flex gap-2">
+                  {addresses.zAddress && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateRow(index, 'address', addresses.zAddress || '')}
+                    >
+                      My shielded address
+                    </Button>
+                  )}
+                  {addresses.tAddress && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        updateRow(index, 'address', addresses.tAddress || '');
+                        updateRow(index, 'memo', '');
+                      }}
+                    >
+                      My transparent address
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Amount (ZEC, optional)</Label>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.amount}
+                  onChange={(e) => updateRow(index, 'amount', e.target.value)}
+                  placeholder="0.00000000"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Memo (optional)</Label>
+                <Textarea
+                  value={row.memo}
+                  onChange={(e) => updateRow(index, 'memo', e.target.value)}
+                  placeholder="Memo for the payer to include (shielded addresses only)"
+                  maxLength={512}
+                  rows={2}
+                  disabled={isTransparent(row.address)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Label (optional)</Label>
+                  <Input
+                    type="text"
+                    value={row.label}
+                    onChange={(e) => updateRow(index, 'label', e.target.value)}
+                    placeholder="Shop name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Message (optional)</Label>
+                  <Input
+                    type="text"
+                    value={row.message}
+                    onChange={(e) => updateRow(index, 'message', e.target.value)}
+                    placeholder="Invoice #123"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        <Button variant="outline" onClick={() => setRows((current) => [...current, emptyRow('')])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Payment
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payment Request</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {request.error && (
+              <p className="text-sm text-red-500">{request.error}</p>
+            )}
+            {request.uri && (
+              <>
+                <div className="flex justify-center">
+                  <div className="p-4 bg-white border border-gray-200">
+                    <QRCodeSVG
+                      value={request.uri}
+                      size={240}
+                      bgColor="#ffffff"
+                      fgColor="#000000"
+                      level="M"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <code className="flex-1 block p-2 bg-muted rounded break-all text-sm">
+                    {request.uri}
+                  </code>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={handleCopy}
+                    className="shrink-0"
+                    title="Copy payment request"
+                  >
+                    {copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,48 +1,30 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Key, Shield, AlertTriangle, Lock } from 'lucide-react';
+import type { VaultPasswordRequest } from '@/lib/zcash/midenWalletAdapter';
 
 interface KeyExportDialogProps {
   open: boolean;
+  request?: VaultPasswordRequest;
   onConfirm: (password: string) => void;
   onCancel: () => void;
   requirePassword?: boolean;
 }
 
-export function KeyExportDialog({ open, onConfirm, onCancel, requirePassword = true }: KeyExportDialogProps) {
+export function KeyExportDialog({ open, request = 'setup', onConfirm, onCancel, requirePassword = true }: KeyExportDialogProps) {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
   
-  // Check if account is already set up (skip password on subsequent uses)
-  const [isFirstTime, setIsFirstTime] = useState(true);
-  
-  useEffect(() => {
-    if (open && typeof window !== 'undefined') {
-      // Check if any account has been set up
-      const keys = Object.keys(localStorage);
-      const hasSetup = keys.some(key => key.startsWith('zcash_account_setup_'));
-      setIsFirstTime(!hasSetup);
-      
-      // If account already set up, auto-confirm without password
-      if (hasSetup) {
-        // Account already set up, skip password dialog
-        // Use a ref to avoid dependency issues
-        const timeoutId = setTimeout(() => {
-          onConfirm('');
-        }, 50);
-        
-        return () => clearTimeout(timeoutId);
-      }
-    }
-  }, [open]); // Removed onConfirm from deps to prevent loops
+  // Setting up chooses the vault password, unlocking enters it
+  const isSetup = request === 'setup';
 
   const handleOpenChange = (isOpen: boolean) => {
     if (!isOpen) {
@@ -56,24 +38,13 @@ export function KeyExportDialog({ open, onConfirm, onCancel, requirePassword = t
   const handleConfirm = () => {
     setError(null);
 
-    // If account is already set up, skip password requirement
-    if (!isFirstTime && requirePassword) {
-      // Account already set up, confirm without password
-      onConfirm('');
-      setPassword('');
-      setConfirmPassword('');
-      return;
-    }
-
     if (requirePassword) {
       if (!password || password.length < 8) {
         setError('Password must be at least 8 characters long');
         return;
       }
 
-      // For first-time setup, require password confirmation
-      // For subsequent exports, just require password
-      if (confirmPassword && password !== confirmPassword) {
+      if (isSetup && password !== confirmPassword) {
         setError('Passwords do not match');
         return;
       }
@@ -92,10 +63,12 @@ export function KeyExportDialog({ open, onConfirm, onCancel, requirePassword = t
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Key className="w-5 h-5" />
-            Set Up Zcash Keys
+            {isSetup ? 'Set Up Zcash Keys' : 'Unlock Zcash Keys'}
           </DialogTitle>
           <DialogDescription>
-            Derive Zcash keys from your Miden account
+            {isSetup
+              ? 'Derive Zcash keys from your Miden account'
+              : 'Unlock your Zcash keys for this session'}
           </DialogDescription>
         </DialogHeader>
 
@@ -145,11 +118,13 @@ export function KeyExportDialog({ open, onConfirm, onCancel, requirePassword = t
                   }}
                 />
                 <p className="text-xs text-muted-foreground">
-                  This password protects your key export operation. It is not stored and must be entered each time.
+                  {isSetup
+                    ? 'Your Zcash keys are stored encrypted with this password. It is not stored and cannot be recovered.'
+                    : 'Your keys lock again after a few minutes without use.'}
                 </p>
               </div>
 
-              {confirmPassword !== undefined && (
+              {isSetup && (
                 <div className="space-y-2">
                   <Label htmlFor="confirmPassword">Confirm Password</Label>
                   <Input
@@ -208,11 +183,11 @@ export function KeyExportDialog({ open, onConfirm, onCancel, requirePassword = t
             </Button>
             <Button
               onClick={handleConfirm}
-              disabled={requirePassword && (!password || password.length < 8 || (confirmPassword && password !== confirmPassword))}
+              disabled={requirePassword && (!password || password.length < 8 || (isSetup && password !== confirmPassword))}
               className="bg-[#FF6B35] hover:bg-[#FF8555] text-white"
             >
               <Key className="w-4 h-4 mr-2" />
-              Set Up Keys
+              {isSetup ? 'Set Up Keys' : 'Unlock'}
             </Button>
           </div>
         </div>
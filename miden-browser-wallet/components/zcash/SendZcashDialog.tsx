@@ -16,6 +16,19 @@ import { Send, Loader2 } from 'lucide-react';
 let validateAddressSDK: any = null;
 let isAddressForNetworkSDK: any = null;
 
+// Import ZIP-321 payment request helpers from SDK
+let isPaymentRequestUriSDK: any = null;
+let parsePaymentRequestSDK: any = null;
+let formatZecAmountSDK: any = null;
+
+interface RequestedPayment {
+  address: string;
+  amount?: number;
+  memo?: Uint8Array;
+  label?: string;
+  message?: string;
+}
+
 interface SendZcashDialogProps {
   open: boolean;
   onClose: () => void;
@@ -52,6 +65,7 @@ export function SendZcashDialog({
   const [error, setError] = useState<string | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [validating, setValidating] = useState(false);
+  const [paymentRequest, setPaymentRequest] = useState<{ payments: RequestedPayment[] } | null>(null);
 
   useEffect(() => {
     const loadModule = async () => {
@@ -65,6 +79,9 @@ export function SendZcashDialog({
           const sdk = await import('@miden/zcash-integration');
           validateAddressSDK = sdk.validateAddress;
           isAddressForNetworkSDK = sdk.isAddressForNetwork;
+          isPaymentRequestUriSDK = sdk.isPaymentRequestUri;
+          parsePaymentRequestSDK = sdk.parsePaymentRequest;
+          formatZecAmountSDK = sdk.formatZecAmount;
         } catch (sdkErr) {
           console.warn('Failed to load SDK validation functions:', sdkErr);
         }
@@ -78,6 +95,7 @@ export function SendZcashDialog({
       setToAddress('');
       setAmount('');
       setMemo('');
+      setPaymentRequest(null);
       setError(null);
       setTxHash(null);
       setFromType(fromAddressType || (fromAddress?.startsWith('t') || fromAddress?.startsWith('tm') ? 'transparent' : 'shielded') || 'transparent');
@@ -141,11 +159,133 @@ export function SendZcashDialog({
     return { valid: true };
   };
 
+  /**
+   * Apply a pasted zcash: payment request (ZIP-321)
+   *
+   * A single payment fills in the form; several payments are sent together
+   * as one multi-output transaction.
+   */
+  const applyPaymentRequest = (uri: string): boolean => {
+    if (!isPaymentRequestUriSDK || !parsePaymentRequestSDK || !isPaymentRequestUriSDK(uri)) {
+      return false;
+    }
+
+    try {
+      const request = parsePaymentRequestSDK(uri);
+      if (request.payments.length > 1) {
+        if (request.payments.some((payment: RequestedPayment) => !payment.amount)) {
+          throw new Error('Every payment in a multi-payment request needs an amount');
+        }
+        setPaymentRequest(request);
+        setToAddress(uri.trim());
+        setError(null);
+        return true;
+      }
+
+      const [payment] = request.payments;
+      const type = validateAddressSDK?.(payment.address)?.type;
+      setPaymentRequest(null);
+      setToAddress(payment.address);
+      setToType(type === 'transparent' ? 'transparent' : 'shielded');
+      if (payment.amount !== undefined && formatZecAmountSDK) {
+        setAmount(formatZecAmountSDK(payment.amount));
+      }
+      if (payment.memo) {
+        setMemo(new TextDecoder().decode(payment.memo).replace(/\0+$/, ''));
+      }
+      if (payment.message) {
+        toast.info(payment.message);
+      }
+      setError(null);
+    } catch (err: any) {
+      setPaymentRequest(null);
+      setToAddress(uri.trim());
+      setError(`Invalid payment request: ${err?.message || 'could not parse URI'}`);
+    }
+    return true;
+  };
+
+  const parseFeeZatoshi = (): number => {
+    const feeStr = fee.trim();
+    if (!feeStr || !/^\d+(\.\d{1,8})?$/.test(feeStr)) {
+      return 10000;
+    }
+    const [feeInteger, feeFractional = ''] = feeStr.split('.');
+    return Number(BigInt((feeInteger || '0') + feeFractional.padEnd(8, '0')));
+  };
+
+  const handlePaymentRequestSubmit = async () => {
+    if (!paymentRequest || !midenAccountId || !zcashModule) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    const actualFromAddress = fromType === 'transparent'
+      ? (tAddress || fromAddress || '')
+      : (zAddress || fromAddress || '');
+    if (!actualFromAddress) {
+      toast.error(`No ${fromType} address available`);
+      return;
+    }
+
+    const availableBalance = fromType === 'transparent' ? transparentBalance : shieldedBalance;
+    const feeZatoshi = parseFeeZatoshi();
+    const totalAmount = paymentRequest.payments.reduce((sum, payment) => sum + (payment.amount || 0), 0);
+    if (totalAmount + feeZatoshi > availableBalance) {
+      toast.error(`Insufficient balance. Required: ${((totalAmount + feeZatoshi) / 100000000).toFixed(8)} ZEC (amount + fee), Available: ${(availableBalance / 100000000).toFixed(8)} ZEC`);
+      return;
+    }
+
+    try {
+      setSending(true);
+
+      console.log('[SendZcashDialog] Sending payment request:', {
+        from: actualFromAddress,
+        payments: paymentRequest.payments.length,
+        amount: totalAmount,
+        fee: feeZatoshi,
+        fromType
+      });
+
+      const signedTx = await zcashModule.buildAndSignPaymentRequest(
+        midenAccountId,
+        { address: actualFromAddress.trim(), type: fromType },
+        paymentRequest,
+        { fee: feeZatoshi }
+      );
+
+      const result = await zcashModule.broadcastTransaction(signedTx);
+
+      setTxHash(result.hash);
+      toast.success(`Transaction sent. Hash: ${result.hash}`);
+
+      setTimeout(() => {
+        setToAddress('');
+        setPaymentRequest(null);
+        onClose();
+      }, 2000);
+    } catch (err: any) {
+      console.error('[SendZcashDialog] Payment request failed:', err);
+      const errorMsg = err?.message || 'Failed to send transaction';
+      setError(errorMsg);
+      toast.error(errorMsg, {
+        duration: 10000,
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setTxHash(null);
 
+    if (paymentRequest) {
+      await handlePaymentRequestSubmit();
+      return;
+    }
+
     if (!toAddress || !amount || !midenAccountId || !zcashModule) {
       toast.error('Please fill in all required fields');
       return;
@@ -221,20 +361,7 @@ export function SendZcashDialog({
       
       const amountZatoshiNumber = Number(amountZatoshi);
 
-      const feeStr = fee.trim();
-      let feeZatoshi = 10000;
-      if (feeStr && /^\d+(\.\d{1,8})?$/.test(feeStr)) {
-        const feeParts = feeStr.split('.');
-        const feeInteger = feeParts[0] || '0';
-        let feeFractional = feeParts[1] || '';
-        while (feeFractional.length < 8) {
-          feeFractional += '0';
-        }
-        if (feeFractional.length > 8) {
-          feeFractional = feeFractional.substring(0, 8);
-        }
-        feeZatoshi = Number(BigInt(feeInteger + feeFractional));
-      }
+      const feeZatoshi = parseFeeZatoshi();
 
       const totalRequired = amountZatoshiNumber + feeZatoshi;
       console.log(`[SendZcashDialog] Transaction requirements: ${amountZatoshiNumber} zatoshi (amount) + ${feeZatoshi} zatoshi (fee) = ${totalRequired} zatoshi total`);
@@ -434,12 +561,16 @@ export function SendZcashDialog({
           </div>
 
           <div className="space-y-2">
-            <Label>To Address</Label>
+            <Label>To Address or Payment Request</Label>
             <Input
               type="text"
               value={toAddress}
               onChange={(e) => {
                 const trimmed = e.target.value.trim();
+                if (applyPaymentRequest(trimmed)) {
+                  return;
+                }
+                setPaymentRequest(null);
                 setToAddress(trimmed || e.target.value);
               }}
               onBlur={(e) => {
@@ -448,11 +579,31 @@ export function SendZcashDialog({
                   setToAddress(trimmed);
                 }
               }}
-              placeholder={toType === 'transparent' ? 'tm...' : 'ztestsapling...'}
+              placeholder={toType === 'transparent' ? 'tm... or zcash:...' : 'ztestsapling... or zcash:...'}
               className="font-mono text-sm"
               required
             />
-            {toAddress && (() => {
+            {paymentRequest && (
+              <div className="space-y-1 p-3 bg-muted rounded-md">
+                <p className="text-sm font-medium">
+                  Payment request with {paymentRequest.payments.length} payments
+                </p>
+                {paymentRequest.payments.map((payment, index) => (
+                  <div key={index} className="text-xs">
+                    <code className="break-all">{payment.address}</code>
+                    <span className="ml-2 font-semibold">
+                      {((payment.amount || 0) / 100000000).toFixed(8)} ZEC
+                    </span>
+                    {(payment.label || payment.message) && (
+                      <span className="ml-2 text-muted-foreground">
+                        {[payment.label, payment.message].filter(Boolean).join(' - ')}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {toAddress && !paymentRequest && (() => {
               const validation = validateAddress(toAddress);
               return !validation.valid && (
                 <p className="text-xs text-red-500">{validation.error || `Invalid ${toType} address format`}</p>
@@ -460,6 +611,7 @@ export function SendZcashDialog({
             })()}
           </div>
 
+          {!paymentRequest && (
           <div className="space-y-2">
             <Label>Amount (ZEC)</Label>
             <Input
@@ -494,6 +646,7 @@ export function SendZcashDialog({
               </p>
             )}
           </div>
+          )}
 
           <div className="space-y-2">
             <Label>Fee (ZEC)</Label>
@@ -523,6 +676,7 @@ export function SendZcashDialog({
             </p>
           </div>
 
+          {!paymentRequest && (
           <div className="space-y-2">
             <Label>Memo (optional)</Label>
             <Textarea
@@ -537,6 +691,7 @@ export function SendZcashDialog({
               {memo.length}/512 characters {toType === 'transparent' && '(memos only work for shielded transactions)'}
             </p>
           </div>
+          )}
 
           {error && (
             <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-md border border-red-200 dark:border-red-800">
@@ -579,8 +734,8 @@ export function SendZcashDialog({
               disabled={
                 sending || 
                 !toAddress || 
-                !amount || 
-                !validateAddress(toAddress).valid || 
+                (!paymentRequest && !amount) || 
+                (!paymentRequest && !validateAddress(toAddress).valid) || 
                 !midenAccountId ||
                 (fromType === 'transparent' && !tAddress) ||
                 (fromType === 'shielded' && !zAddress)
@@ -7,6 +7,8 @@
  */
 
 import React from 'react';
+import { memoToText } from '@miden/zcash-integration';
+import type { IssuedShieldedAddress, PendingAutoShield } from '@miden/zcash-integration/wallet';
 import { useZcashAccount, useZcashBalance } from '../hooks';
 import { getZcashModule } from '../services/zcashService';
 import { SendZcashDialog } from './SendZcashDialog';
@@ -21,6 +23,36 @@ export function ZcashAccountView() {
   );
 
   const [showSendDialog, setShowSendDialog] = React.useState(false);
+  const [issuedAddresses, setIssuedAddresses] = React.useState<IssuedShieldedAddress[]>([]);
+  const [pendingShields, setPendingShields] = React.useState<PendingAutoShield[]>([]);
+
+  React.useEffect(() => {
+    if (account) {
+      setIssuedAddresses(zcashModule.getIssuedShieldedAddresses(account.midenAccountId));
+    }
+  }, [zcashModule, account]);
+
+  // Auto-shields of this account waiting to be built; the user may cancel them
+  React.useEffect(() => {
+    if (!account) {
+      return;
+    }
+    const update = () => setPendingShields(
+      zcashModule.getPendingAutoShields().filter((shield) => shield.accountId === account.midenAccountId)
+    );
+    update();
+    return zcashModule.onAutoShieldEvent(update);
+  }, [zcashModule, account]);
+
+  // Text memos on received shielded notes, newest first (refreshed with the balance)
+  const receivedMemos = React.useMemo(() => {
+    if (!addresses.zAddress) {
+      return [];
+    }
+    return zcashModule.getProvider().getReceivedNotes(addresses.zAddress)
+      .map((note) => ({ note, text: memoToText(note.memo) }))
+      .filter((entry): entry is { note: typeof entry.note; text: string } => !!entry.text);
+  }, [zcashModule, addresses.zAddress, shielded]);
 
   if (loading) {
     return (
@@ -55,6 +87,13 @@ export function ZcashAccountView() {
     return (zatoshi / 100000000).toFixed(8);
   };
 
+  // A fresh diversified address per counterparty; funds still land in this account
+  const handleNewAddress = async () => {
+    const label = window.prompt('Who is this address for? (optional)') || undefined;
+    await zcashModule.getNextShieldedAddress(account.midenAccountId, label);
+    setIssuedAddresses(zcashModule.getIssuedShieldedAddresses(account.midenAccountId));
+  };
+
   return (
     <div className="zcash-account-view">
       <div className="account-header">
@@ -112,9 +151,65 @@ export function ZcashAccountView() {
               </span>
             )}
           </div>
+          <button onClick={handleNewAddress}>New Receive Address</button>
+          {issuedAddresses.length > 0 && (
+            <ul className="issued-addresses">
+              {issuedAddresses.map((issued) => (
+                <li key={issued.index.toString()}>
+                  {issued.label && <span className="label">{issued.label}</span>}
+                  <code>{issued.address}</code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(issued.address)}
+                    title="Copy address"
+                  >
+                    Copy
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
+      {receivedMemos.length > 0 && (
+        <div className="received-memos">
+          <h3>Received Memos</h3>
+          <ul>
+            {receivedMemos.map(({ note, text }) => (
+              <li key={Array.from(note.cmu, (b) => b.toString(16).padStart(2, '0')).join('')}>
+                <span className="value">+{formatZatoshi(note.value)} ZEC</span>
+                {note.blockHeight !== undefined && (
+                  <span className="height">Block {note.blockHeight}</span>
+                )}
+                <p className="memo">{text}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {pendingShields.length > 0 && (
+        <div className="pending-auto-shields">
+          <h3>Pending Auto-Shield</h3>
+          <ul>
+            {pendingShields.map((shield) => (
+              <li key={shield.id}>
+                <span className="value">
+                  {formatZatoshi(shield.amount - shield.fee)} ZEC
+                </span>
+                <span className="fee">(fee {formatZatoshi(shield.fee)} ZEC)</span>
+                <span className="time">
+                  at {new Date(shield.executeAt).toLocaleTimeString()}
+                </span>
+                <button onClick={() => zcashModule.cancelAutoShield(shield.id)}>
+                  Cancel
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="total-balance">
         <h3>Total Balance</h3>
         <div className="balance-large">
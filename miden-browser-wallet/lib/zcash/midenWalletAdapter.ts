@@ -34,52 +34,42 @@ let lastWebClientUse = 0;
 const MIN_TIME_BETWEEN_USES = 3000; // 3 seconds minimum between WebClient uses
 
 /**
- * Rate limiting for private key export
- * Prevents malicious scripts from repeatedly requesting key export
+ * Key vault of the Zcash module, as used by the adapter
+ *
+ * ZcashModule implements this; the adapter only sees the vault through it.
  */
-let keyExportAttempts: number[] = [];
-// Check if in development mode (works in both browser and Node.js)
-const isDevelopment = typeof window !== 'undefined' 
-  ? (window.location?.hostname === 'localhost' || window.location?.hostname === '127.0.0.1')
-  : (process.env.NODE_ENV === 'development');
-const MAX_KEY_EXPORT_ATTEMPTS = isDevelopment ? 10 : 3; // Maximum attempts per hour
-const KEY_EXPORT_RATE_LIMIT_WINDOW = 3600000; // 1 hour in milliseconds
-let lastKeyExportTime = 0;
-const MIN_TIME_BETWEEN_KEY_EXPORTS = isDevelopment ? 5000 : 60000; // Reduced to 5s in dev, 1 minute in production
+export interface AdapterKeyVault {
+  hasKeyVault(accountId: string): Promise<boolean>;
+  setupKeyVault(accountId: string, password: string): Promise<void>;
+  unlockKeyVault(accountId: string, password: string): Promise<number>;
+  isKeyVaultUnlocked(accountId: string): boolean;
+}
 
 /**
- * Reset key export rate limit (development helper)
- * Exposed on window for console access: window.__resetKeyExportLimit()
+ * Why the adapter asks for the vault password
  */
-if (typeof window !== 'undefined') {
-  (window as any).__resetKeyExportLimit = () => {
-    keyExportAttempts = [];
-    lastKeyExportTime = 0;
-    console.log('✅ Key export rate limit reset');
-    return { success: true, message: 'Rate limit cleared' };
-  };
-  
-  (window as any).__getKeyExportLimitStatus = () => {
-    const now = Date.now();
-    const recentAttempts = keyExportAttempts.filter(
-      timestamp => now - timestamp < KEY_EXPORT_RATE_LIMIT_WINDOW
-    );
-    const timeUntilReset = recentAttempts.length > 0 
-      ? Math.ceil((KEY_EXPORT_RATE_LIMIT_WINDOW - (now - recentAttempts[0])) / 1000)
-      : 0;
-    const timeUntilNextExport = lastKeyExportTime > 0 && now - lastKeyExportTime < MIN_TIME_BETWEEN_KEY_EXPORTS
-      ? Math.ceil((MIN_TIME_BETWEEN_KEY_EXPORTS - (now - lastKeyExportTime)) / 1000)
-      : 0;
-    
-    return {
-      attempts: recentAttempts.length,
-      maxAttempts: MAX_KEY_EXPORT_ATTEMPTS,
-      timeUntilReset: timeUntilReset > 0 ? `${timeUntilReset}s` : '0s',
-      timeUntilNextExport: timeUntilNextExport > 0 ? `${timeUntilNextExport}s` : '0s',
-      canExport: recentAttempts.length < MAX_KEY_EXPORT_ATTEMPTS && timeUntilNextExport === 0,
-      isDevelopment
-    };
-  };
+export type VaultPasswordRequest = 'setup' | 'unlock';
+
+/**
+ * Adapter options
+ */
+export interface MidenWalletAdapterOptions {
+  /** Key vault guarding key export; null until the Zcash module exists */
+  keyVault: () => AdapterKeyVault | null;
+
+  /** Ask the user for the vault password (default: the key export dialog) */
+  requestPassword?: (request: VaultPasswordRequest) => Promise<string | null>;
+}
+
+/**
+ * Ask for the vault password through the key export dialog
+ */
+async function requestPasswordFromDialog(request: VaultPasswordRequest): Promise<string | null> {
+  const keyExportModule = typeof window !== 'undefined' ? (window as any).__KEY_EXPORT_MODULE__ : null;
+  if (!keyExportModule || typeof keyExportModule.requestKeyExport !== 'function') {
+    throw new Error('Key vault password prompt is not available. Open the Zcash page to continue.');
+  }
+  return keyExportModule.requestKeyExport(request);
 }
 
 /**
@@ -143,10 +133,95 @@ async function waitForWalletReady(maxWaitMs: number = 15000): Promise<void> {
   }
 }
 
+/**
+ * Export the key of an account: a hash of its Miden account file
+ */
+async function exportAccountKey(accountId: string): Promise<Uint8Array> {
+  try {
+    await waitForWalletReady(15000);
+    
+    const store = getSDKStore();
+    if (store) {
+      const state = store.getState();
+      if (state.isLoading) {
+        await new Promise(resolve => setTimeout(resolve, 3000));
+      }
+    }
+    
+    const release = await acquireWebClientMutex();
+    
+    try {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      const { WebClient, Address, AccountFile } = await import("@demox-labs/miden-sdk");
+      const { RPC_ENDPOINT } = await import("@/lib/constants");
+      
+      const client = await WebClient.createClient(RPC_ENDPOINT);
+      
+      try {
+        const accountAddress = Address.fromBech32(accountId);
+        const accountFile = await client.exportAccountFile(accountAddress.accountId());
+        const serialized = accountFile.serialize();
+        
+        const accountFileArray = Array.from(serialized);
+        const accountFileBuffer = new Uint8Array(accountFileArray);
+        const hashBuffer = await crypto.subtle.digest('SHA-256', accountFileBuffer);
+        const privateKeyBytes = new Uint8Array(hashBuffer);
+        
+        return privateKeyBytes;
+      } finally {
+        client.terminate();
+      }
+    } finally {
+      release();
+    }
+  } catch (error: any) {
+    const errorMsg = error?.message || error?.toString() || 'Unknown error';
+    
+    if (errorMsg.includes('recursive use') || errorMsg.includes('unsafe aliasing') || errorMsg.includes('borrow')) {
+      throw new Error('WebClient is currently in use. Please wait 10-15 seconds and try again.');
+    }
+    
+    throw new Error(`Failed to export private key: ${errorMsg}`);
+  }
+}
+
 /**
  * Create MidenWalletAPI adapter for this wallet
  */
-export function createMidenWalletAdapter(): MidenWalletAPI {
+export function createMidenWalletAdapter(options: MidenWalletAdapterOptions): MidenWalletAPI {
+  const requestPassword = options.requestPassword ?? requestPasswordFromDialog;
+  const settingUp = new Set<string>();
+
+  /**
+   * Unlock the key vault of an account, setting it up on first use
+   */
+  async function unlockKeyVault(accountId: string): Promise<void> {
+    const vault = options.keyVault();
+    if (!vault) {
+      throw new Error('Zcash module not initialized. Call initializeZcash() first.');
+    }
+    if (vault.isKeyVaultUnlocked(accountId)) {
+      return;
+    }
+
+    const hasKeys = await vault.hasKeyVault(accountId);
+    const password = await requestPassword(hasKeys ? 'unlock' : 'setup');
+    if (!password) {
+      throw new Error('User denied access to private key');
+    }
+
+    if (!hasKeys) {
+      settingUp.add(accountId);
+      try {
+        await vault.setupKeyVault(accountId, password);
+      } finally {
+        settingUp.delete(accountId);
+      }
+    }
+    await vault.unlockKeyVault(accountId, password);
+  }
+
   return {
     /**
      * Get the currently active Miden account
@@ -177,108 +252,20 @@ export function createMidenWalletAdapter(): MidenWalletAPI {
     },
 
     /**
-     * Request private key for an account
+     * Export the key of an account, once its key vault is unlocked
+     *
+     * The first export sets up the vault: the Zcash keys derived from this
+     * export are stored encrypted under a new password. Later sessions
+     * unlock the vault with that password, and sign with the vault keys
+     * rather than exporting again.
      */
     async exportPrivateKey(accountId: string): Promise<Uint8Array> {
-      const now = Date.now();
-      keyExportAttempts = keyExportAttempts.filter(
-        timestamp => now - timestamp < KEY_EXPORT_RATE_LIMIT_WINDOW
-      );
-      
-      if (keyExportAttempts.length >= MAX_KEY_EXPORT_ATTEMPTS) {
-        throw new Error(`Too many key export attempts. Maximum ${MAX_KEY_EXPORT_ATTEMPTS} attempts per hour.`);
-      }
-      
-      if (lastKeyExportTime > 0 && now - lastKeyExportTime < MIN_TIME_BETWEEN_KEY_EXPORTS) {
-        const waitTime = Math.ceil((MIN_TIME_BETWEEN_KEY_EXPORTS - (now - lastKeyExportTime)) / 1000);
-        throw new Error(`Key export rate limited. Please wait ${waitTime} seconds.`);
-      }
-      
-      keyExportAttempts.push(now);
-      lastKeyExportTime = now;
-      
-      let password: string | null = null;
-      const accountSetupKey = `zcash_account_setup_${accountId}`;
-      const isAccountSetup = typeof window !== 'undefined' && 
-                            localStorage.getItem(accountSetupKey) === 'true';
-      
-      if (typeof window !== 'undefined') {
-        const keyExportModule = (window as any).__KEY_EXPORT_MODULE__;
-        if (keyExportModule && typeof keyExportModule.requestKeyExport === 'function') {
-          if (isAccountSetup) {
-            password = '';
-          } else {
-            password = await keyExportModule.requestKeyExport();
-            if (!password) {
-              throw new Error('User denied access to private key');
-            }
-            if (typeof window !== 'undefined') {
-              try {
-                localStorage.setItem(accountSetupKey, 'true');
-              } catch (e) {
-                console.warn('Failed to save account setup flag:', e);
-              }
-            }
-          }
-        } else {
-          const confirmed = window.confirm(
-            'This will export your private key for Zcash integration.\n\n' +
-            'Keys derived this way cannot be recovered in standard Zcash wallets.\n\n' +
-            'Continue?'
-          );
-          if (!confirmed) {
-            throw new Error('User denied access to private key');
-          }
-        }
-      }
-
-      try {
-        await waitForWalletReady(15000);
-        
-        const store = getSDKStore();
-        if (store) {
-          const state = store.getState();
-          if (state.isLoading) {
-            await new Promise(resolve => setTimeout(resolve, 3000));
-          }
-        }
-        
-        const release = await acquireWebClientMutex();
-        
-        try {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          
-          const { WebClient, Address, AccountFile } = await import("@demox-labs/miden-sdk");
-          const { RPC_ENDPOINT } = await import("@/lib/constants");
-          
-          const client = await WebClient.createClient(RPC_ENDPOINT);
-          
-          try {
-            const accountAddress = Address.fromBech32(accountId);
-            const accountFile = await client.exportAccountFile(accountAddress.accountId());
-            const serialized = accountFile.serialize();
-            
-            const accountFileArray = Array.from(serialized);
-            const accountFileBuffer = new Uint8Array(accountFileArray);
-            const hashBuffer = await crypto.subtle.digest('SHA-256', accountFileBuffer);
-            const privateKeyBytes = new Uint8Array(hashBuffer);
-            
-            return privateKeyBytes;
-          } finally {
-            client.terminate();
-          }
-        } finally {
-          release();
-        }
-      } catch (error: any) {
-        const errorMsg = error?.message || error?.toString() || 'Unknown error';
-        
-        if (errorMsg.includes('recursive use') || errorMsg.includes('unsafe aliasing') || errorMsg.includes('borrow')) {
-          throw new Error('WebClient is currently in use. Please wait 10-15 seconds and try again.');
-        }
-        
-        throw new Error(`Failed to export private key: ${errorMsg}`);
+      // The vault setup derives its keys through this export
+      if (settingUp.has(accountId)) {
+        return exportAccountKey(accountId);
       }
+      await unlockKeyVault(accountId);
+      return exportAccountKey(accountId);
     },
 
     /**
@@ -39,7 +39,8 @@ export async function initializeZcash(): Promise<ZcashModule> {
     console.warn('[ZcashService] Miden wallet is still initializing');
   }
 
-  const midenWalletAdapter = createMidenWalletAdapter();
+  // Key export is gated on the module's key vault, created below
+  const midenWalletAdapter = createMidenWalletAdapter({ keyVault: () => zcashModule });
   const useBackendProxy = process.env.NEXT_PUBLIC_USE_BACKEND_RPC_PROXY === 'true' || 
                           !process.env.NEXT_PUBLIC_ZCASH_RPC_ENDPOINT; // Use proxy if no direct endpoint configured
   
@@ -110,7 +110,12 @@ export function ZcashProvider({ children }: { children: React.ReactNode }) {
         try {
           const provider = moduleToUse.getProvider();
           // Use the public method to cache the viewing key
-          provider.cacheViewingKey(zcashAccount.zAddress, zcashAccount.viewingKey, zcashAccount.midenAccountId);
+          provider.cacheViewingKey(
+            zcashAccount.zAddress,
+            zcashAccount.viewingKey,
+            zcashAccount.midenAccountId,
+            zcashAccount.outgoingViewingKey
+          );
           // Also cache the transparent address mapping
           (provider as any).addressToAccountId?.set(zcashAccount.tAddress, zcashAccount.midenAccountId);
           console.log('[ZcashProvider] refreshAccount: Viewing key cached successfully');
@@ -4,4 +4,6 @@
 
 export * from './validation';
 export * from './script';
+export * from './unified';
 
+export * from './zip321';
@@ -3,9 +3,11 @@
  * Generates Bitcoin/Zcash script pubkeys for transaction outputs
  */
 
-import { bytesToHex, concatBytes } from '../utils/bytes';
+import { bytesToHex, hexToBytes, concatBytes } from '../utils/bytes';
 import { hash160 } from '../utils/hash';
 import { validateTransparentAddress, extractPubKeyHash } from './validation';
+import { encodeReceiverAddress } from './unified';
+import type { Network } from '../types/index';
 
 /**
  * Script opcodes
@@ -78,7 +80,33 @@ export const OP = {
 /**
  * Script types
  */
-export type ScriptType = 'p2pkh' | 'p2sh' | 'p2pk' | 'nulldata' | 'unknown';
+export type ScriptType = 'p2pkh' | 'p2sh' | 'p2pk' | 'multisig' | 'nulldata' | 'unknown';
+
+/**
+ * Most keys in a standard multisig redeem script
+ */
+export const MAX_MULTISIG_KEYS = 15;
+
+/**
+ * Decoded m-of-n multisig redeem script
+ */
+export interface MultisigRedeemScript {
+  /** Signatures needed (m) */
+  required: number;
+
+  /** Public keys, in script order (n) */
+  publicKeys: Uint8Array[];
+}
+
+/**
+ * Signature of one multisig key
+ */
+export interface MultisigSignature {
+  publicKey: Uint8Array;
+
+  /** DER signature followed by its hash type byte */
+  signature: Uint8Array;
+}
 
 /**
  * Decoded script information
@@ -226,6 +254,123 @@ export function createP2PKHScriptSig(
   );
 }
 
+/**
+ * Generate an m-of-n multisig redeem script
+ *
+ * Format: OP_m <pubkey 1> ... <pubkey n> OP_n OP_CHECKMULTISIG
+ *
+ * @param sortKeys - Sort the keys lexicographically (BIP-67), so every
+ *   cosigner derives the same script whatever order they list the keys in
+ */
+export function createMultisigRedeemScript(
+  required: number,
+  publicKeys: Uint8Array[],
+  sortKeys: boolean = true
+): Uint8Array {
+  if (publicKeys.length === 0 || publicKeys.length > MAX_MULTISIG_KEYS) {
+    throw new Error(`Multisig needs 1 to ${MAX_MULTISIG_KEYS} public keys, got ${publicKeys.length}`);
+  }
+  if (!Number.isInteger(required) || required < 1 || required > publicKeys.length) {
+    throw new Error(`Required signatures must be between 1 and ${publicKeys.length}, got ${required}`);
+  }
+  for (const publicKey of publicKeys) {
+    if (!isPublicKey(publicKey)) {
+      throw new Error('Invalid public key length');
+    }
+  }
+
+  const keys = sortKeys
+    ? [...publicKeys].sort((a, b) => bytesToHex(a).localeCompare(bytesToHex(b)))
+    : publicKeys;
+  if (new Set(keys.map(key => bytesToHex(key))).size !== keys.length) {
+    throw new Error('Multisig public keys must be distinct');
+  }
+
+  return concatBytes(
+    new Uint8Array([OP.OP_1 + required - 1]),
+    ...keys.map(key => pushData(key)),
+    new Uint8Array([OP.OP_1 + keys.length - 1, OP.OP_CHECKMULTISIG])
+  );
+}
+
+/**
+ * Decode an m-of-n multisig redeem script
+ */
+export function decodeMultisigRedeemScript(script: Uint8Array): MultisigRedeemScript {
+  const invalid = () => new Error('Not a multisig redeem script');
+
+  if (script.length < 3 || script[script.length - 1] !== OP.OP_CHECKMULTISIG) {
+    throw invalid();
+  }
+  const required = smallInteger(script[0]);
+  const total = smallInteger(script[script.length - 2]);
+  if (required === null || total === null || required > total) {
+    throw invalid();
+  }
+
+  const publicKeys: Uint8Array[] = [];
+  let offset = 1;
+  while (offset < script.length - 2) {
+    const length = script[offset];
+    const publicKey = script.slice(offset + 1, offset + 1 + length);
+    if (publicKey.length !== length || !isPublicKey(publicKey)) {
+      throw invalid();
+    }
+    publicKeys.push(publicKey);
+    offset += 1 + length;
+  }
+  if (offset !== script.length - 2 || publicKeys.length !== total) {
+    throw invalid();
+  }
+
+  return { required, publicKeys };
+}
+
+/**
+ * Encode the P2SH address (t3 on mainnet, t2 on testnet) of a redeem script
+ */
+export function createP2SHAddress(redeemScript: Uint8Array, network: Network): string {
+  return encodeReceiverAddress(network, { type: 'p2sh', data: hash160(redeemScript) });
+}
+
+/**
+ * Create scriptSig for spending a P2SH multisig output
+ *
+ * Format: OP_0 <signature 1> ... <signature m> <redeemScript>
+ *
+ * Signatures may be given in any order and may include more than needed;
+ * they are put in the order of their keys in the redeem script, as
+ * OP_CHECKMULTISIG requires.
+ */
+export function createMultisigScriptSig(
+  redeemScript: Uint8Array,
+  signatures: MultisigSignature[]
+): Uint8Array {
+  const { required, publicKeys } = decodeMultisigRedeemScript(redeemScript);
+  const byKey = new Map(signatures.map(entry => [bytesToHex(entry.publicKey), entry.signature]));
+
+  for (const key of byKey.keys()) {
+    if (!publicKeys.some(publicKey => bytesToHex(publicKey) === key)) {
+      throw new Error(`Public key ${key} is not part of the redeem script`);
+    }
+  }
+
+  const ordered = publicKeys
+    .map(publicKey => byKey.get(bytesToHex(publicKey)))
+    .filter((signature): signature is Uint8Array => signature !== undefined)
+    .slice(0, required);
+  if (ordered.length < required) {
+    throw new Error(`Multisig input needs ${required} signatures, got ${ordered.length}`);
+  }
+
+  // OP_0 works around the extra stack item popped by OP_CHECKMULTISIG
+  return concatBytes(
+    new Uint8Array([OP.OP_0]),
+    ...ordered.map(signature => pushData(signature)),
+    pushData(redeemScript)
+  );
+}
+
 /**
  * Decode script to human-readable form
  */
@@ -265,6 +410,12 @@ export function decodeScript(script: Uint8Array): DecodedScript {
       asm = 'OP_RETURN';
     }
   }
+  // Check for bare multisig
+  else if (script.length > 0 && script[script.length - 1] === OP.OP_CHECKMULTISIG && isMultisigScript(script)) {
+    type = 'multisig';
+    const { required, publicKeys } = decodeMultisigRedeemScript(script);
+    asm = `${required} ${publicKeys.map(key => bytesToHex(key)).join(' ')} ${publicKeys.length} OP_CHECKMULTISIG`;
+  }
   // Check for P2PK
   else if ((script.length === 35 || script.length === 67) &&
            script[script.length - 1] === OP.OP_CHECKSIG) {
@@ -297,17 +448,24 @@ export function isValidScriptPubKey(script: Uint8Array): boolean {
 
 /**
  * Get required signatures for script
+ *
+ * @param redeemScript - Redeem script of a P2SH scriptPubKey, hex or bytes
  */
-export function getRequiredSignatures(script: Uint8Array): number {
+export function getRequiredSignatures(script: Uint8Array, redeemScript?: Uint8Array | string): number {
   const type = identifyScriptType(script);
 
   switch (type) {
     case 'p2pkh':
     case 'p2pk':
       return 1;
+    case 'multisig':
+      return decodeMultisigRedeemScript(script).required;
     case 'p2sh':
-      // Would need to decode redeem script for actual count
-      return 1;
+      // Without the redeem script the count is unknown
+      if (!redeemScript) {
+        return 1;
+      }
+      return getRequiredSignatures(typeof redeemScript === 'string' ? hexToBytes(redeemScript) : redeemScript);
     case 'nulldata':
       return 0;
     default:
@@ -315,3 +473,45 @@ export function getRequiredSignatures(script: Uint8Array): number {
   }
 }
 
+/**
+ * Whether a script is a well-formed multisig script
+ */
+function isMultisigScript(script: Uint8Array): boolean {
+  try {
+    decodeMultisigRedeemScript(script);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether bytes have the length and prefix of a SEC1 public key
+ */
+function isPublicKey(publicKey: Uint8Array): boolean {
+  return (publicKey.length === 33 && (publicKey[0] === 0x02 || publicKey[0] === 0x03)) ||
+    (publicKey.length === 65 && publicKey[0] === 0x04);
+}
+
+/**
+ * Value of OP_1 ... OP_16, or null for any other opcode
+ */
+function smallInteger(opcode: number): number | null {
+  return opcode >= OP.OP_1 && opcode <= OP.OP_16 ? opcode - OP.OP_1 + 1 : null;
+}
+
+/**
+ * Push data onto the script stack with the smallest push opcode
+ */
+function pushData(data: Uint8Array): Uint8Array {
+  if (data.length <= 75) {
+    return concatBytes(new Uint8Array([data.length]), data);
+  }
+  if (data.length <= 0xff) {
+    return concatBytes(new Uint8Array([OP.OP_PUSHDATA1, data.length]), data);
+  }
+  if (data.length <= 520) {
+    return concatBytes(new Uint8Array([OP.OP_PUSHDATA2, data.length & 0xff, data.length >> 8]), data);
+  }
+  throw new Error('Script data cannot exceed 520 bytes');
+}
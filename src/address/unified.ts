@@ -0,0 +1,460 @@
+/**
+ * Unified Addresses and Viewing Keys (ZIP-316)
+ * F4Jumble, Bech32m encoding and receiver selection
+ *
+ * Encoding:
+ *
+ * items (typecode || length || data, ascending typecode)
+ *     ↓ append 16-byte padding (HRP, zero-filled)
+ *     ↓ F4Jumble
+ *     ↓ Bech32m (no length limit)
+ * u1... / utest1... / uview1... / uivk1...
+ *
+ * Reference: https://zips.z.cash/zip-0316
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import type { Network } from '../types/index';
+import { concatBytes, compactSizeLength, writeCompactSize, readCompactSize } from '../utils/bytes';
+import { base58Encode, bech32Encode, bech32mEncode, bech32mDecode } from '../utils/encoding';
+import { computeChecksum } from '../utils/hash';
+
+/**
+ * Receiver and viewing key typecodes
+ */
+export const UNIFIED_TYPECODES = {
+  p2pkh: 0x00,
+  p2sh: 0x01,
+  sapling: 0x02,
+  orchard: 0x03
+} as const;
+
+/**
+ * Receiver kinds understood by this codec
+ */
+export type UnifiedReceiverType = keyof typeof UNIFIED_TYPECODES;
+
+/**
+ * Default receiver preference, most private first
+ */
+export const RECEIVER_PREFERENCE: readonly UnifiedReceiverType[] = ['orchard', 'sapling', 'p2pkh', 'p2sh'];
+
+/**
+ * Bech32m HRPs for unified encodings
+ */
+export const UNIFIED_HRPS = {
+  mainnet: { address: 'u', fullViewingKey: 'uview', incomingViewingKey: 'uivk' },
+  testnet: { address: 'utest', fullViewingKey: 'uviewtest', incomingViewingKey: 'uivktest' }
+} as const;
+
+/**
+ * Raw item with a typecode we do not interpret (kept for re-encoding)
+ */
+export interface UnifiedItem {
+  typecode: number;
+  data: Uint8Array;
+}
+
+/**
+ * Decoded Unified Address
+ */
+export interface UnifiedAddress {
+  network: Network;
+  p2pkh?: Uint8Array;    // 20-byte public key hash
+  p2sh?: Uint8Array;     // 20-byte script hash
+  sapling?: Uint8Array;  // 43 bytes: diversifier || pk_d
+  orchard?: Uint8Array;  // 43 bytes: diversifier || pk_d
+  unknown?: UnifiedItem[];
+}
+
+/**
+ * Decoded Unified Full or Incoming Viewing Key
+ */
+export interface UnifiedViewingKey {
+  network: Network;
+  kind: 'full' | 'incoming';
+  p2pkh?: Uint8Array;    // 65 bytes: chain code || compressed public key
+  sapling?: Uint8Array;  // full: ak || nk || ovk || dk (128), incoming: dk || ivk (64)
+  orchard?: Uint8Array;  // full: ak || nk || rivk (96), incoming: dk || ivk (64)
+  unknown?: UnifiedItem[];
+}
+
+/**
+ * Receiver chosen from a Unified Address
+ */
+export interface SelectedReceiver {
+  type: UnifiedReceiverType;
+  data: Uint8Array;
+}
+
+/**
+ * Expected item lengths per encoding
+ */
+const ADDRESS_ITEM_LENGTHS: Record<UnifiedReceiverType, number> = {
+  p2pkh: 20,
+  p2sh: 20,
+  sapling: 43,
+  orchard: 43
+};
+
+const VIEWING_KEY_ITEM_LENGTHS = {
+  full: { p2pkh: 65, sapling: 128, orchard: 96 },
+  incoming: { p2pkh: 65, sapling: 64, orchard: 64 }
+} as const;
+
+/**
+ * Standalone encodings used when a receiver is paid directly
+ */
+const TRANSPARENT_PREFIXES = {
+  mainnet: { p2pkh: [0x1c, 0xb8], p2sh: [0x1c, 0xbd] },
+  testnet: { p2pkh: [0x1d, 0x25], p2sh: [0x1c, 0xba] }
+} as const;
+
+const SAPLING_HRPS = {
+  mainnet: 'zs',
+  testnet: 'ztestsapling'
+} as const;
+
+const PADDING_LENGTH = 16;
+const F4JUMBLE_MIN_LENGTH = 48;
+const F4JUMBLE_MAX_LENGTH = 4194368;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Reverse lookup from typecode to receiver kind
+ */
+function receiverTypeForTypecode(typecode: number): UnifiedReceiverType | null {
+  for (const [type, code] of Object.entries(UNIFIED_TYPECODES)) {
+    if (code === typecode) {
+      return type as UnifiedReceiverType;
+    }
+  }
+  return null;
+}
+
+/**
+ * H_i: BLAKE2b with output length ℓ_L
+ */
+function f4Hash(round: number, input: Uint8Array, outputLength: number): Uint8Array {
+  const personalization = concatBytes(textEncoder.encode('UA_F4Jumble_H'), new Uint8Array([round, 0, 0]));
+  return blake2b(input, { dkLen: outputLength, personalization });
+}
+
+/**
+ * G_i: BLAKE2b-512 in counter mode, truncated to ℓ_R
+ */
+function f4Expand(round: number, input: Uint8Array, outputLength: number): Uint8Array {
+  const output = new Uint8Array(outputLength);
+  for (let j = 0; j * 64 < outputLength; j++) {
+    const personalization = concatBytes(
+      textEncoder.encode('UA_F4Jumble_G'),
+      new Uint8Array([round, j & 0xff, (j >> 8) & 0xff])
+    );
+    const block = blake2b(input, { dkLen: 64, personalization });
+    output.set(block.subarray(0, Math.min(64, outputLength - j * 64)), j * 64);
+  }
+  return output;
+}
+
+/**
+ * XOR two equal-length byte arrays
+ */
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] ^ b[i];
+  }
+  return result;
+}
+
+/**
+ * Split a message into the F4Jumble halves
+ */
+function f4Split(message: Uint8Array): [Uint8Array, Uint8Array] {
+  if (message.length < F4JUMBLE_MIN_LENGTH || message.length > F4JUMBLE_MAX_LENGTH) {
+    throw new Error(
+      `Invalid F4Jumble input length: ${message.length} (must be ${F4JUMBLE_MIN_LENGTH}-${F4JUMBLE_MAX_LENGTH} bytes)`
+    );
+  }
+  const leftLength = Math.min(64, Math.floor(message.length / 2));
+  return [message.slice(0, leftLength), message.slice(leftLength)];
+}
+
+/**
+ * F4Jumble: 4-round unkeyed Feistel permutation over the whole encoding
+ */
+export function f4Jumble(message: Uint8Array): Uint8Array {
+  const [a, b] = f4Split(message);
+  const x = xor(b, f4Expand(0, a, b.length));
+  const y = xor(a, f4Hash(0, x, a.length));
+  const d = xor(x, f4Expand(1, y, x.length));
+  const c = xor(y, f4Hash(1, d, y.length));
+  return concatBytes(c, d);
+}
+
+/**
+ * Inverse of F4Jumble
+ */
+export function f4JumbleInv(message: Uint8Array): Uint8Array {
+  const [c, d] = f4Split(message);
+  const y = xor(c, f4Hash(1, d, c.length));
+  const x = xor(d, f4Expand(1, y, d.length));
+  const a = xor(y, f4Hash(0, x, y.length));
+  const b = xor(x, f4Expand(0, a, x.length));
+  return concatBytes(a, b);
+}
+
+/**
+ * Serialize items, pad with the HRP, jumble and Bech32m-encode
+ */
+function encodeItems(hrp: string, items: UnifiedItem[]): string {
+  const sorted = [...items].sort((a, b) => a.typecode - b.typecode);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].typecode === sorted[i - 1].typecode) {
+      throw new Error(`Duplicate unified item typecode: ${sorted[i].typecode}`);
+    }
+  }
+
+  const parts: Uint8Array[] = [];
+  for (const item of sorted) {
+    const header = new Uint8Array(compactSizeLength(item.typecode) + compactSizeLength(item.data.length));
+    const view = new DataView(header.buffer);
+    const offset = writeCompactSize(view, 0, item.typecode);
+    writeCompactSize(view, offset, item.data.length);
+    parts.push(header, item.data);
+  }
+
+  const padding = new Uint8Array(PADDING_LENGTH);
+  padding.set(textEncoder.encode(hrp));
+  parts.push(padding);
+
+  return bech32mEncode(hrp, f4Jumble(concatBytes(...parts)));
+}
+
+/**
+ * Bech32m-decode, un-jumble, check padding and parse items
+ */
+function decodeItems(encoded: string): { hrp: string; items: UnifiedItem[] } {
+  const { hrp, data } = bech32mDecode(encoded);
+  const raw = f4JumbleInv(data);
+
+  const padding = raw.subarray(raw.length - PADDING_LENGTH);
+  const expectedPadding = new Uint8Array(PADDING_LENGTH);
+  expectedPadding.set(textEncoder.encode(hrp));
+  if (!padding.every((byte, i) => byte === expectedPadding[i])) {
+    throw new Error('Invalid unified encoding padding');
+  }
+
+  const body = raw.subarray(0, raw.length - PADDING_LENGTH);
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const items: UnifiedItem[] = [];
+  let offset = 0;
+
+  while (offset < body.length) {
+    if (offset + 2 > body.length) {
+      throw new Error('Truncated unified encoding');
+    }
+    const typecode = readCompactSize(view, offset);
+    const length = readCompactSize(view, typecode.newOffset);
+    offset = length.newOffset;
+    if (offset + length.value > body.length) {
+      throw new Error('Truncated unified encoding');
+    }
+
+    if (items.length > 0 && typecode.value <= items[items.length - 1].typecode) {
+      throw new Error('Unified items must be in strictly ascending typecode order');
+    }
+    items.push({ typecode: typecode.value, data: body.slice(offset, offset + length.value) });
+    offset += length.value;
+  }
+
+  if (items.length === 0) {
+    throw new Error('Unified encoding contains no items');
+  }
+
+  return { hrp, items };
+}
+
+/**
+ * Check a known item's length
+ */
+function checkItemLength(type: string, data: Uint8Array, expected: number): void {
+  if (data.length !== expected) {
+    throw new Error(`Invalid ${type} item length: expected ${expected} bytes, got ${data.length}`);
+  }
+}
+
+/**
+ * Encode a Unified Address
+ */
+export function encodeUnifiedAddress(address: UnifiedAddress): string {
+  if (!address.sapling && !address.orchard) {
+    throw new Error('A Unified Address must contain at least one shielded receiver');
+  }
+  if (address.p2pkh && address.p2sh) {
+    throw new Error('A Unified Address cannot contain both P2PKH and P2SH receivers');
+  }
+
+  const items: UnifiedItem[] = [...(address.unknown ?? [])];
+  for (const type of Object.keys(UNIFIED_TYPECODES) as UnifiedReceiverType[]) {
+    const data = address[type];
+    if (data) {
+      checkItemLength(type, data, ADDRESS_ITEM_LENGTHS[type]);
+      items.push({ typecode: UNIFIED_TYPECODES[type], data });
+    }
+  }
+
+  return encodeItems(UNIFIED_HRPS[address.network].address, items);
+}
+
+/**
+ * Decode a Unified Address (u1... or utest1...)
+ */
+export function decodeUnifiedAddress(encoded: string): UnifiedAddress {
+  const { hrp, items } = decodeItems(encoded);
+
+  let network: Network;
+  if (hrp === UNIFIED_HRPS.mainnet.address) {
+    network = 'mainnet';
+  } else if (hrp === UNIFIED_HRPS.testnet.address) {
+    network = 'testnet';
+  } else {
+    throw new Error(`Unrecognized Unified Address HRP: ${hrp}`);
+  }
+
+  const address: UnifiedAddress = { network };
+  for (const item of items) {
+    const type = receiverTypeForTypecode(item.typecode);
+    if (type) {
+      checkItemLength(type, item.data, ADDRESS_ITEM_LENGTHS[type]);
+      address[type] = item.data;
+    } else {
+      address.unknown = [...(address.unknown ?? []), item];
+    }
+  }
+
+  if (!address.sapling && !address.orchard) {
+    throw new Error('A Unified Address must contain at least one shielded receiver');
+  }
+  if (address.p2pkh && address.p2sh) {
+    throw new Error('A Unified Address cannot contain both P2PKH and P2SH receivers');
+  }
+
+  return address;
+}
+
+/**
+ * Encode a Unified Full or Incoming Viewing Key
+ */
+export function encodeUnifiedViewingKey(key: UnifiedViewingKey): string {
+  if (!key.sapling && !key.orchard) {
+    throw new Error('A Unified Viewing Key must contain at least one shielded item');
+  }
+
+  const lengths = VIEWING_KEY_ITEM_LENGTHS[key.kind];
+  const items: UnifiedItem[] = [...(key.unknown ?? [])];
+  for (const type of ['p2pkh', 'sapling', 'orchard'] as const) {
+    const data = key[type];
+    if (data) {
+      checkItemLength(type, data, lengths[type]);
+      items.push({ typecode: UNIFIED_TYPECODES[type], data });
+    }
+  }
+
+  const hrps = UNIFIED_HRPS[key.network];
+  return encodeItems(key.kind === 'full' ? hrps.fullViewingKey : hrps.incomingViewingKey, items);
+}
+
+/**
+ * Decode a Unified Full (uview...) or Incoming (uivk...) Viewing Key
+ */
+export function decodeUnifiedViewingKey(encoded: string): UnifiedViewingKey {
+  const { hrp, items } = decodeItems(encoded);
+
+  let network: Network | null = null;
+  let kind: UnifiedViewingKey['kind'] | null = null;
+  for (const candidate of ['mainnet', 'testnet'] as const) {
+    if (hrp === UNIFIED_HRPS[candidate].fullViewingKey) {
+      network = candidate;
+      kind = 'full';
+    } else if (hrp === UNIFIED_HRPS[candidate].incomingViewingKey) {
+      network = candidate;
+      kind = 'incoming';
+    }
+  }
+  if (!network || !kind) {
+    throw new Error(`Unrecognized Unified Viewing Key HRP: ${hrp}`);
+  }
+
+  const key: UnifiedViewingKey = { network, kind };
+  for (const item of items) {
+    const type = receiverTypeForTypecode(item.typecode);
+    if (type === 'p2sh') {
+      throw new Error('Unified Viewing Keys cannot contain a P2SH item');
+    }
+    if (type) {
+      checkItemLength(type, item.data, VIEWING_KEY_ITEM_LENGTHS[kind][type]);
+      key[type] = item.data;
+    } else {
+      key.unknown = [...(key.unknown ?? []), item];
+    }
+  }
+
+  if (!key.sapling && !key.orchard) {
+    throw new Error('A Unified Viewing Key must contain at least one shielded item');
+  }
+
+  return key;
+}
+
+/**
+ * Check whether a string carries a Unified Address HRP
+ */
+export function isUnifiedAddress(address: string): boolean {
+  const lower = address.toLowerCase();
+  return lower.startsWith(`${UNIFIED_HRPS.mainnet.address}1`) ||
+         lower.startsWith(`${UNIFIED_HRPS.testnet.address}1`);
+}
+
+/**
+ * Pick the most preferred receiver that the caller can pay
+ *
+ * @param address - Decoded Unified Address
+ * @param supported - Receiver types the caller can build outputs for
+ * @param preference - Ordering to apply (defaults to most private first)
+ */
+export function selectReceiver(
+  address: UnifiedAddress,
+  supported: readonly UnifiedReceiverType[],
+  preference: readonly UnifiedReceiverType[] = RECEIVER_PREFERENCE
+): SelectedReceiver {
+  for (const type of preference) {
+    const data = address[type];
+    if (data && supported.includes(type)) {
+      return { type, data };
+    }
+  }
+
+  const available = (Object.keys(UNIFIED_TYPECODES) as UnifiedReceiverType[]).filter(type => address[type]);
+  throw new Error(
+    `No supported receiver in Unified Address: has ${available.join(', ')}, supports ${supported.join(', ')}`
+  );
+}
+
+/**
+ * Encode a receiver as a standalone transparent or Sapling address
+ */
+export function encodeReceiverAddress(network: Network, receiver: SelectedReceiver): string {
+  switch (receiver.type) {
+    case 'p2pkh':
+    case 'p2sh': {
+      const payload = concatBytes(new Uint8Array(TRANSPARENT_PREFIXES[network][receiver.type]), receiver.data);
+      return base58Encode(concatBytes(payload, computeChecksum(payload)));
+    }
+    case 'sapling':
+      return bech32Encode(SAPLING_HRPS[network], receiver.data);
+    case 'orchard':
+      throw new Error('Orchard receivers have no standalone address encoding');
+  }
+}
@@ -5,6 +5,7 @@
 
 import { base58Decode, bech32Decode } from '../utils/encoding';
 import { doubleSha256 } from '../utils/hash';
+import { decodeUnifiedAddress, isUnifiedAddress } from './unified';
 import type { Network, AddressType } from '../types/index';
 
 /**
@@ -36,12 +37,10 @@ const T_ADDRESS_PREFIXES = {
  */
 const Z_ADDRESS_HRPS = {
   mainnet: {
-    sapling: 'zs',
-    orchard: 'u' // Unified addresses
+    sapling: 'zs'
   },
   testnet: {
-    sapling: 'ztestsapling',
-    orchard: 'utest'
+    sapling: 'ztestsapling'
   }
 } as const;
 
@@ -159,25 +158,24 @@ export function validateTransparentAddress(address: string): AddressValidationRe
 }
 
 /**
- * Validate shielded address (z-address)
+ * Validate shielded address (z-address or Unified Address)
  */
 export function validateShieldedAddress(address: string): AddressValidationResult {
+  if (isUnifiedAddress(address)) {
+    return validateUnifiedAddress(address);
+  }
+
   try {
     // Decode Bech32
     const { hrp, data } = bech32Decode(address);
 
     // Determine network
     let network: Network | null = null;
-    let type: AddressType = 'shielded';
 
     if (hrp === Z_ADDRESS_HRPS.mainnet.sapling) {
       network = 'mainnet';
     } else if (hrp === Z_ADDRESS_HRPS.testnet.sapling) {
       network = 'testnet';
-    } else if (hrp === Z_ADDRESS_HRPS.mainnet.orchard ||
-               hrp === Z_ADDRESS_HRPS.testnet.orchard) {
-      type = 'orchard';
-      network = hrp === Z_ADDRESS_HRPS.mainnet.orchard ? 'mainnet' : 'testnet';
     } else {
       return {
         valid: false,
@@ -189,7 +187,7 @@ export function validateShieldedAddress(address: string): AddressValidationResul
 
     // Validate data length for Sapling
     // Sapling address: 11 (diversifier) + 32 (pkd) = 43 bytes
-    if (type === 'shielded' && data.length !== 43) {
+    if (data.length !== 43) {
       return {
         valid: false,
         type: 'shielded',
@@ -200,7 +198,7 @@ export function validateShieldedAddress(address: string): AddressValidationResul
 
     return {
       valid: true,
-      type,
+      type: 'shielded',
       network
     };
   } catch (error) {
@@ -213,6 +211,27 @@ export function validateShieldedAddress(address: string): AddressValidationResul
   }
 }
 
+/**
+ * Validate Unified Address (ZIP-316)
+ */
+export function validateUnifiedAddress(address: string): AddressValidationResult {
+  try {
+    const { network } = decodeUnifiedAddress(address);
+    return {
+      valid: true,
+      type: 'unified',
+      network
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      type: 'unified',
+      network: null,
+      error: error instanceof Error ? error.message : 'Failed to decode address'
+    };
+  }
+}
+
 /**
  * Check if address belongs to specified network
  */
@@ -0,0 +1,285 @@
+/**
+ * Payment Request URIs (ZIP-321)
+ * Parses and emits zcash: URIs carrying one or more payments
+ *
+ * zcash:<address>?amount=1.5&memo=<base64url>&label=...&message=...
+ * zcash:?address=<a>&amount=1&address.1=<b>&amount.1=0.25
+ *
+ * Parameters without an index belong to payment 0; a ".N" suffix
+ * (1-9999, no leading zeros) belongs to payment N. Memos are raw memo
+ * bytes in unpadded base64url, and are only allowed for shielded recipients.
+ *
+ * Reference: https://zips.z.cash/zip-0321
+ */
+
+import { base64UrlEncode, base64UrlDecode } from '../utils/encoding';
+import { validateAddress } from './validation';
+
+/**
+ * URI scheme
+ */
+export const ZIP321_SCHEME = 'zcash:';
+
+const ZATOSHI_PER_ZEC = 100000000n;
+const MAX_MONEY = 21000000n * ZATOSHI_PER_ZEC;
+const MAX_MEMO_BYTES = 512;
+const MAX_PAYMENT_INDEX = 9999;
+
+/**
+ * A single requested payment
+ */
+export interface Payment {
+  /** Recipient address (transparent, Sapling or Unified) */
+  address: string;
+
+  /** Amount in zatoshi */
+  amount?: number;
+
+  /** Raw memo bytes (up to 512, shielded recipients only) */
+  memo?: Uint8Array;
+
+  /** Label for the recipient */
+  label?: string;
+
+  /** Message for the payer */
+  message?: string;
+
+  /** Unrecognized optional parameters, kept so the request can be re-emitted */
+  otherParams?: Record<string, string>;
+}
+
+/**
+ * A payment request: one or more payments paid by a single transaction
+ */
+export interface PaymentRequest {
+  payments: Payment[];
+}
+
+/**
+ * Check whether a string is a zcash: payment request URI
+ */
+export function isPaymentRequestUri(value: string): boolean {
+  return value.trim().slice(0, ZIP321_SCHEME.length).toLowerCase() === ZIP321_SCHEME;
+}
+
+/**
+ * Parse a ZIP-321 payment request URI
+ */
+export function parsePaymentRequest(uri: string): PaymentRequest {
+  const trimmed = uri.trim();
+  if (!isPaymentRequestUri(trimmed)) {
+    throw new Error(`Payment request must start with "${ZIP321_SCHEME}"`);
+  }
+
+  const rest = trimmed.slice(ZIP321_SCHEME.length);
+  const queryStart = rest.indexOf('?');
+  const pathAddress = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+
+  // Group raw parameters by payment index
+  const fields = new Map<number, Map<string, string>>();
+  const paramsFor = (index: number): Map<string, string> => {
+    let params = fields.get(index);
+    if (!params) {
+      params = new Map();
+      fields.set(index, params);
+    }
+    return params;
+  };
+
+  if (pathAddress) {
+    paramsFor(0).set('address', pathAddress);
+  }
+
+  for (const pair of query ? query.split('&') : []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid payment request parameter "${pair}"`);
+    }
+    const key = pair.slice(0, separator);
+    const match = /^([A-Za-z][A-Za-z0-9+-]*)(?:\.([1-9][0-9]{0,3}))?$/.exec(key);
+    if (!match) {
+      throw new Error(`Invalid payment request parameter name "${key}"`);
+    }
+
+    const params = paramsFor(match[2] ? Number(match[2]) : 0);
+    if (params.has(match[1])) {
+      throw new Error(`Duplicate parameter "${key}" in payment request`);
+    }
+    params.set(match[1], pair.slice(separator + 1));
+  }
+
+  if (fields.size === 0) {
+    throw new Error('Payment request contains no payments');
+  }
+
+  const payments = [...fields.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, params]) => parsePayment(index, params));
+
+  return { payments };
+}
+
+/**
+ * Emit a ZIP-321 payment request URI
+ *
+ * A single payment puts its address in the URI path; several payments are
+ * emitted as indexed parameters.
+ */
+export function createPaymentRequest(request: PaymentRequest): string {
+  const { payments } = request;
+  if (payments.length === 0) {
+    throw new Error('Payment request contains no payments');
+  }
+  if (payments.length > MAX_PAYMENT_INDEX + 1) {
+    throw new Error(`Payment request can contain at most ${MAX_PAYMENT_INDEX + 1} payments`);
+  }
+  payments.forEach((payment, index) => validatePayment(index, payment));
+
+  if (payments.length === 1) {
+    const params = paymentParams(payments[0], '');
+    return `${ZIP321_SCHEME}${payments[0].address}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  }
+
+  const params = payments.flatMap((payment, index) => [
+    `address${index === 0 ? '' : `.${index}`}=${payment.address}`,
+    ...paymentParams(payment, index === 0 ? '' : `.${index}`)
+  ]);
+  return `${ZIP321_SCHEME}?${params.join('&')}`;
+}
+
+/**
+ * Sum the requested amounts in zatoshi
+ */
+export function getPaymentRequestTotal(request: PaymentRequest): number {
+  return request.payments.reduce((sum, payment) => sum + (payment.amount ?? 0), 0);
+}
+
+/**
+ * Parse a decimal ZEC amount (up to 8 decimal places) to zatoshi
+ */
+export function parseZecAmount(value: string): number {
+  const match = /^([0-9]+)(?:\.([0-9]{1,8}))?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid ZEC amount "${value}"`);
+  }
+  const zatoshi = BigInt(match[1]) * ZATOSHI_PER_ZEC + BigInt((match[2] ?? '').padEnd(8, '0'));
+  if (zatoshi > MAX_MONEY) {
+    throw new Error(`ZEC amount ${value} exceeds the maximum supply`);
+  }
+  return Number(zatoshi);
+}
+
+/**
+ * Format zatoshi as a decimal ZEC amount without trailing zeros
+ */
+export function formatZecAmount(zatoshi: number): string {
+  if (!Number.isSafeInteger(zatoshi) || zatoshi < 0) {
+    throw new Error(`Invalid zatoshi amount ${zatoshi}`);
+  }
+  const value = BigInt(zatoshi);
+  const whole = value / ZATOSHI_PER_ZEC;
+  const fraction = (value % ZATOSHI_PER_ZEC).toString().padStart(8, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Build a payment from its raw parameters
+ */
+function parsePayment(index: number, params: Map<string, string>): Payment {
+  const address = params.get('address');
+  if (!address) {
+    throw new Error(`Payment ${index} has no address`);
+  }
+
+  const payment: Payment = { address };
+  for (const [name, value] of params) {
+    switch (name) {
+      case 'address':
+        break;
+      case 'amount':
+        payment.amount = parseZecAmount(value);
+        break;
+      case 'memo':
+        try {
+          payment.memo = base64UrlDecode(value);
+        } catch (error) {
+          throw new Error(`Invalid memo in payment ${index}: not base64url`);
+        }
+        break;
+      case 'label':
+        payment.label = decodeParam(name, value);
+        break;
+      case 'message':
+        payment.message = decodeParam(name, value);
+        break;
+      default:
+        if (name.startsWith('req-')) {
+          throw new Error(`Unsupported required parameter "${name}" in payment request`);
+        }
+        payment.otherParams = { ...payment.otherParams, [name]: decodeParam(name, value) };
+    }
+  }
+
+  validatePayment(index, payment);
+  return payment;
+}
+
+/**
+ * Check a payment's address, amount and memo
+ */
+function validatePayment(index: number, payment: Payment): void {
+  const validation = validateAddress(payment.address);
+  if (!validation.valid) {
+    throw new Error(`Invalid address in payment ${index}: ${validation.error || 'format not recognized'}`);
+  }
+
+  if (payment.amount !== undefined) {
+    if (!Number.isSafeInteger(payment.amount) || payment.amount < 0 || BigInt(payment.amount) > MAX_MONEY) {
+      throw new Error(`Invalid amount in payment ${index}: ${payment.amount}`);
+    }
+  }
+
+  if (payment.memo !== undefined) {
+    if (validation.type === 'transparent') {
+      throw new Error(`Payment ${index} has a memo but pays a transparent address`);
+    }
+    if (payment.memo.length > MAX_MEMO_BYTES) {
+      throw new Error(`Memo in payment ${index} is ${payment.memo.length} bytes (max ${MAX_MEMO_BYTES})`);
+    }
+  }
+}
+
+/**
+ * Serialize a payment's parameters other than the address
+ */
+function paymentParams(payment: Payment, suffix: string): string[] {
+  const params: string[] = [];
+  if (payment.amount !== undefined) {
+    params.push(`amount${suffix}=${formatZecAmount(payment.amount)}`);
+  }
+  if (payment.memo !== undefined) {
+    params.push(`memo${suffix}=${base64UrlEncode(payment.memo)}`);
+  }
+  if (payment.label !== undefined) {
+    params.push(`label${suffix}=${encodeURIComponent(payment.label)}`);
+  }
+  if (payment.message !== undefined) {
+    params.push(`message${suffix}=${encodeURIComponent(payment.message)}`);
+  }
+  for (const [name, value] of Object.entries(payment.otherParams ?? {})) {
+    params.push(`${name}${suffix}=${encodeURIComponent(value)}`);
+  }
+  return params;
+}
+
+/**
+ * Percent-decode a parameter value
+ */
+function decodeParam(name: string, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    throw new Error(`Invalid percent-encoding in payment request parameter "${name}"`);
+  }
+}
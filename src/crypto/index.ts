@@ -4,4 +4,5 @@
 
 export * from './keyDerivation.js';
 export * from './keyStorage.js';
-
+export * from './keyVault.js';
+export * from './viewingKeys.js';
@@ -7,20 +7,26 @@
  * Miden Account Private Key
  *     ↓ HKDF-SHA256
  * Master Seed (64 bytes)
- *     ↓ BIP32
- * m/44'/133'/account'/change/index
  *     ↓
- * ├─→ Transparent Private Key (secp256k1)
+ * ├─→ BIP32 m/44'/133'/account'/change/index
+ * │       ↓
+ * │   Transparent Private Key (secp256k1)
  * │       ↓
  * │   Transparent Address (t1...)
  * │
- * └─→ Spending Key (Ed25519 derived)
+ * └─→ ZIP-32 m/32'/coin_type'/account'
+ *         ↓
+ *     Extended Spending Key (ask, nsk, ovk, dk)
  *         ↓
- *     ├─→ Viewing Key
- *     │       ↓
- *     │   Shielded Address (zs1...)
+ *     Extended Full Viewing Key (ak, nk, ovk, dk)
+ *         ↓
+ *     ├─→ Incoming Viewing Key (ivk)
+ *     │
+ *     ├─→ Default Shielded Address (zs1..., first valid diversifier index)
  *     │
- *     └─→ Nullifier Key
+ *     └─→ Diversified Shielded Addresses (later valid diversifier indices)
+ *
+ * Transparent + Sapling receivers → Unified Address (u1..., ZIP-316)
  */
 
 import { hkdf } from '@noble/hashes/hkdf';
@@ -31,11 +37,17 @@ import { secp256k1 } from '@noble/curves/secp256k1';
 import type { ZcashKeys, Network } from '../types/index';
 import {
   concatBytes,
-  numberToLEBytes
+  numberToLEBytes,
+  leBytesToNumber,
+  bytesEqual,
+  bytesToHex
 } from '../utils/bytes';
 import { base58Encode, bech32Encode, base58Decode, bech32Decode } from '../utils/encoding';
 import { hash160, doubleSha256 } from '../utils/hash';
 import { derivePkd } from '../shielded/jubjubHelper';
+import { ExtendedSpendingKey, ExtendedFullViewingKey, saplingPaymentKey } from '../shielded/zip32';
+import { OrchardExtendedSpendingKey } from '../shielded/orchardKeys';
+import { encodeUnifiedAddress } from '../address/unified';
 
 /**
  * Zcash BIP44 coin type
@@ -73,8 +85,41 @@ const NETWORK_VERSIONS: Record<Network, NetworkVersion> = {
 const HARDENED_OFFSET = 0x80000000;
 
 /**
- * Key derivation result with full key material
+ * BIP32 extended public key version bytes (xpub / tpub)
  */
+const EXTENDED_PUBLIC_KEY_VERSIONS: Record<Network, Uint8Array> = {
+  mainnet: new Uint8Array([0x04, 0x88, 0xb2, 0x1e]),
+  testnet: new Uint8Array([0x04, 0x35, 0x87, 0xcf])
+};
+
+/**
+ * BIP32 extended private key version bytes (xprv / tprv)
+ */
+const EXTENDED_PRIVATE_KEY_VERSIONS: Record<Network, Uint8Array> = {
+  mainnet: new Uint8Array([0x04, 0x88, 0xad, 0xe4]),
+  testnet: new Uint8Array([0x04, 0x35, 0x83, 0x94])
+};
+
+/**
+ * Length of a serialized BIP32 extended key, without the checksum
+ */
+const EXTENDED_KEY_LENGTH = 78;
+
+/**
+ * Depth of a BIP44 account key (m/44'/133'/account')
+ */
+const BIP44_ACCOUNT_DEPTH = 3;
+
+/**
+ * BIP44 transparent chains: external (receiving) and internal (change)
+ */
+export type TransparentChain = 'external' | 'internal';
+
+const TRANSPARENT_CHAIN_INDEX: Record<TransparentChain, number> = {
+  external: 0,
+  internal: 1
+};
+
 /**
  * Key derivation result with full key material
  */
@@ -91,12 +136,35 @@ export interface DerivedKeyMaterial {
   zAddress: string;
 }
 
+/**
+ * Diversified Sapling payment address of an account
+ */
+export interface DiversifiedShieldedAddress {
+  /** ZIP-32 diversifier index */
+  index: bigint;
+  /** Diversifier (11 bytes) */
+  diversifier: Uint8Array;
+  address: string;
+}
+
+/**
+ * Transparent key at m/44'/133'/account'/change/index
+ */
+export interface TransparentAddressKey {
+  chain: TransparentChain;
+  index: number;
+  /** Absent for keys derived from an extended public key (watch-only) */
+  privateKey?: Uint8Array;
+  publicKey: Uint8Array;
+  address: string;
+}
+
 /**
  * ZcashKeyDerivation
  * 
  * Handles all key derivation operations for Zcash from Miden account keys.
- * Implements BIP32/BIP44 for transparent addresses and custom derivation
- * for shielded addresses (Sapling).
+ * Implements BIP32/BIP44 for transparent addresses and ZIP-32 for shielded
+ * addresses (Sapling).
  */
 export class ZcashKeyDerivation {
   private readonly networkVersions: NetworkVersion;
@@ -139,9 +207,7 @@ export class ZcashKeyDerivation {
 
     // Step 3: Derive account-level key following BIP44 path
     // m/44'/133'/account'
-    const purposeKey = this.deriveBIP32Child(masterKey, 44 + HARDENED_OFFSET);
-    const coinTypeKey = this.deriveBIP32Child(purposeKey, ZCASH_COIN_TYPE + HARDENED_OFFSET);
-    const accountKey = this.deriveBIP32Child(coinTypeKey, accountIndex + HARDENED_OFFSET);
+    const accountKey = this.deriveBIP44AccountKey(masterKey, accountIndex);
 
     // Step 4: Derive transparent key (m/44'/133'/account'/0/0)
     const changeKey = this.deriveBIP32Child(accountKey, 0);
@@ -150,21 +216,351 @@ export class ZcashKeyDerivation {
     const transparentPublicKey = secp256k1.getPublicKey(transparentPrivateKey);
     const tAddress = this.generateTransparentAddress(transparentPublicKey);
 
-    // Step 5: Derive shielded spending key
-    const spendingKey = this.deriveSpendingKey(accountKey.privateKey, 0);
-    // The viewing key is actually the incoming viewing key (ivk) - a scalar
-    const ivk = this.deriveViewingKey(spendingKey);
-    const zAddress = this.generateShieldedAddress(ivk);
+    // Step 5: Derive ZIP-32 Sapling keys (m/32'/coin_type'/account')
+    const extendedSpendingKey = ExtendedSpendingKey.deriveAccount(masterSeed, this.network, accountIndex);
+    const extendedFullViewingKey = extendedSpendingKey.toExtendedFullViewingKey();
+    const { diversifier, pkd } = extendedFullViewingKey.defaultAddress();
+    const zAddress = bech32Encode(this.networkVersions.saplingHRP, concatBytes(diversifier, pkd));
+
+    // Step 6: Combine transparent and Sapling receivers into a ZIP-316 Unified Address
+    const unifiedAddress = encodeUnifiedAddress({
+      network: this.network,
+      p2pkh: hash160(transparentPublicKey),
+      sapling: concatBytes(diversifier, pkd)
+    });
+
+    // Step 7: Derive the ZIP-32 Orchard spending key (same path, Orchard hierarchy)
+    const orchardSpendingKey = OrchardExtendedSpendingKey.deriveAccount(masterSeed, this.network, accountIndex).sk;
+
+    // Step 8: Keep the BIP44 account key, so further t-addresses can be
+    // derived without the Miden private key
+    const transparentAccountKey = this.serializeAccountKey(accountKey);
 
     return {
-      spendingKey,
-      viewingKey: ivk,
+      // Expanded spending key halves: ask || nsk
+      spendingKey: concatBytes(extendedSpendingKey.ask, extendedSpendingKey.nsk),
+      viewingKey: extendedFullViewingKey.incomingViewingKey(),
+      outgoingViewingKey: extendedSpendingKey.ovk,
+      extendedSpendingKey: extendedSpendingKey.encode(this.network),
+      extendedFullViewingKey: extendedFullViewingKey.encode(this.network),
       transparentPrivateKey,
+      transparentAccountKey,
       tAddress,
-      zAddress
+      zAddress,
+      unifiedAddress,
+      orchardSpendingKey
     };
   }
 
+  /**
+   * Derive a run of transparent keys on one BIP44 chain
+   *
+   * Keys are at m/44'/133'/account'/change/index, with change 0 for the
+   * external (receiving) chain and 1 for the internal (change) chain.
+   * External index 0 is the account's default t-address.
+   *
+   * @param midenAccountId - Unique identifier for the Miden account
+   * @param midenPrivateKey - Miden account's private key material
+   * @param accountIndex - BIP44 account index
+   * @param chain - External or internal chain
+   * @param startIndex - First address index
+   * @param count - Number of consecutive keys to derive
+   * @returns Keys and addresses for startIndex .. startIndex + count - 1
+   */
+  deriveTransparentKeys(
+    midenAccountId: string,
+    midenPrivateKey: Uint8Array,
+    accountIndex: number,
+    chain: TransparentChain,
+    startIndex: number,
+    count: number
+  ): TransparentAddressKey[] {
+    const accountKey = this.deriveTransparentAccountKey(midenAccountId, midenPrivateKey, accountIndex);
+    try {
+      return this.deriveTransparentKeysFromAccountKey(accountKey, chain, startIndex, count);
+    } finally {
+      accountKey.fill(0);
+    }
+  }
+
+  /**
+   * Derive the BIP44 account key m/44'/133'/account' as a BIP32-serialized
+   * extended private key (78 bytes, xprv / tprv version)
+   *
+   * @param midenAccountId - Unique identifier for the Miden account
+   * @param midenPrivateKey - Miden account's private key material
+   * @param accountIndex - BIP44 account index (default: 0)
+   */
+  deriveTransparentAccountKey(
+    midenAccountId: string,
+    midenPrivateKey: Uint8Array,
+    accountIndex: number = 0
+  ): Uint8Array {
+    if (!midenAccountId || midenAccountId.length === 0) {
+      throw new Error('Invalid Miden account ID');
+    }
+    if (!midenPrivateKey || midenPrivateKey.length < 32) {
+      throw new Error('Invalid Miden private key');
+    }
+    if (accountIndex < 0 || accountIndex >= HARDENED_OFFSET) {
+      throw new Error('Invalid account index');
+    }
+
+    const accountKey = this.deriveBIP44AccountKey(
+      this.deriveBIP32MasterKey(this.deriveMasterSeed(midenAccountId, midenPrivateKey, this.network)),
+      accountIndex
+    );
+    return this.serializeAccountKey(accountKey);
+  }
+
+  /**
+   * Derive a run of transparent keys on one BIP44 chain from an account key
+   *
+   * @param accountKey - Account key from deriveTransparentAccountKey
+   * @param chain - External or internal chain
+   * @param startIndex - First address index
+   * @param count - Number of consecutive keys to derive
+   * @returns Keys and addresses for startIndex .. startIndex + count - 1
+   */
+  deriveTransparentKeysFromAccountKey(
+    accountKey: Uint8Array,
+    chain: TransparentChain,
+    startIndex: number,
+    count: number
+  ): TransparentAddressKey[] {
+    if (!Number.isInteger(startIndex) || startIndex < 0 || count < 0 || startIndex + count > HARDENED_OFFSET) {
+      throw new Error('Invalid address index');
+    }
+
+    const chainKey = this.deriveBIP32Child(this.decodeAccountKey(accountKey), TRANSPARENT_CHAIN_INDEX[chain]);
+
+    const keys: TransparentAddressKey[] = [];
+    for (let index = startIndex; index < startIndex + count; index++) {
+      const privateKey = this.deriveBIP32Child(chainKey, index).privateKey;
+      const publicKey = secp256k1.getPublicKey(privateKey);
+      keys.push({
+        chain,
+        index,
+        privateKey,
+        publicKey,
+        address: this.generateTransparentAddress(publicKey)
+      });
+    }
+    return keys;
+  }
+
+  /**
+   * Extended public key (xpub / tpub) of an account key from
+   * deriveTransparentAccountKey
+   */
+  transparentAccountXpub(accountKey: Uint8Array): string {
+    const key = this.decodeAccountKey(accountKey);
+    const payload = concatBytes(
+      EXTENDED_PUBLIC_KEY_VERSIONS[this.network],
+      accountKey.slice(4, 45),
+      secp256k1.getPublicKey(key.privateKey)
+    );
+    return base58Encode(concatBytes(payload, doubleSha256(payload).slice(0, 4)));
+  }
+
+  /**
+   * Export the BIP44 account key m/44'/133'/account' as an extended public key
+   *
+   * The xpub (tpub on testnet) lets a watch-only wallet derive every
+   * transparent address of the account without being able to spend.
+   *
+   * @param midenAccountId - Unique identifier for the Miden account
+   * @param midenPrivateKey - Miden account's private key material
+   * @param accountIndex - BIP44 account index (default: 0)
+   * @returns Base58Check extended public key
+   */
+  deriveTransparentAccountXpub(
+    midenAccountId: string,
+    midenPrivateKey: Uint8Array,
+    accountIndex: number = 0
+  ): string {
+    const accountKey = this.deriveTransparentAccountKey(midenAccountId, midenPrivateKey, accountIndex);
+    try {
+      return this.transparentAccountXpub(accountKey);
+    } finally {
+      accountKey.fill(0);
+    }
+  }
+
+  /**
+   * Derive a run of transparent keys on one BIP44 chain from an account xpub
+   *
+   * Uses BIP32 public derivation, so the keys carry no private key.
+   *
+   * @param xpub - Account-level extended public key (m/44'/133'/account')
+   * @param chain - External or internal chain
+   * @param startIndex - First address index
+   * @param count - Number of consecutive keys to derive
+   * @returns Public keys and addresses for startIndex .. startIndex + count - 1
+   */
+  deriveTransparentKeysFromXpub(
+    xpub: string,
+    chain: TransparentChain,
+    startIndex: number,
+    count: number
+  ): TransparentAddressKey[] {
+    if (!Number.isInteger(startIndex) || startIndex < 0 || count < 0 || startIndex + count > HARDENED_OFFSET) {
+      throw new Error('Invalid address index');
+    }
+
+    const accountKey = this.decodeExtendedPublicKey(xpub);
+    const chainKey = this.deriveBIP32PublicChild(accountKey, TRANSPARENT_CHAIN_INDEX[chain]);
+
+    const keys: TransparentAddressKey[] = [];
+    for (let index = startIndex; index < startIndex + count; index++) {
+      const { publicKey } = this.deriveBIP32PublicChild(chainKey, index);
+      keys.push({
+        chain,
+        index,
+        publicKey,
+        address: this.generateTransparentAddress(publicKey)
+      });
+    }
+    return keys;
+  }
+
+  /**
+   * Decode and check an account-level extended public key for this network
+   */
+  decodeExtendedPublicKey(xpub: string): { publicKey: Uint8Array; chainCode: Uint8Array } {
+    const decoded = base58Decode(xpub.trim());
+    if (decoded.length !== 82) {
+      throw new Error('Invalid extended public key: wrong length');
+    }
+
+    const payload = decoded.slice(0, 78);
+    if (!bytesEqual(doubleSha256(payload).slice(0, 4), decoded.slice(78))) {
+      throw new Error('Invalid extended public key: checksum mismatch');
+    }
+    if (!bytesEqual(payload.slice(0, 4), EXTENDED_PUBLIC_KEY_VERSIONS[this.network])) {
+      throw new Error(`Invalid extended public key: not a ${this.network === 'mainnet' ? 'xpub' : 'tpub'} for ${this.network}`);
+    }
+    if (payload[4] !== BIP44_ACCOUNT_DEPTH) {
+      throw new Error("Invalid extended public key: expected an account key (m/44'/133'/account')");
+    }
+
+    const publicKey = payload.slice(45, 78);
+    try {
+      secp256k1.ProjectivePoint.fromHex(publicKey);
+    } catch {
+      throw new Error('Invalid extended public key: not a secp256k1 point');
+    }
+    return { publicKey, chainCode: payload.slice(13, 45) };
+  }
+
+  /**
+   * BIP32 serialization of an account key as an extended private key
+   */
+  private serializeAccountKey(accountKey: BIP32Key): Uint8Array {
+    return concatBytes(
+      EXTENDED_PRIVATE_KEY_VERSIONS[this.network],
+      new Uint8Array([accountKey.depth]),
+      accountKey.parentFingerprint,
+      numberToLEBytes(accountKey.childIndex, 4).reverse(),
+      accountKey.chainCode,
+      new Uint8Array([0]),
+      accountKey.privateKey
+    );
+  }
+
+  /**
+   * Decode and check an account key from deriveTransparentAccountKey
+   */
+  private decodeAccountKey(accountKey: Uint8Array): BIP32Key {
+    if (accountKey.length !== EXTENDED_KEY_LENGTH ||
+        !bytesEqual(accountKey.slice(0, 4), EXTENDED_PRIVATE_KEY_VERSIONS[this.network]) ||
+        accountKey[45] !== 0) {
+      throw new Error(`Invalid transparent account key: not a ${this.network === 'mainnet' ? 'xprv' : 'tprv'} for ${this.network}`);
+    }
+    if (accountKey[4] !== BIP44_ACCOUNT_DEPTH) {
+      throw new Error("Invalid transparent account key: expected an account key (m/44'/133'/account')");
+    }
+    return {
+      privateKey: accountKey.slice(46, 78),
+      chainCode: accountKey.slice(13, 45),
+      depth: accountKey[4],
+      parentFingerprint: accountKey.slice(5, 9),
+      childIndex: leBytesToNumber(accountKey.slice(9, 13).reverse())
+    };
+  }
+
+  /**
+   * Derive the ZIP-32 Sapling extended spending key for an account
+   *
+   * The ZIP-32 seed is the HKDF master seed, so the key can be exported
+   * (Bech32 `secret-extended-key-main`) and restored in standard wallets.
+   *
+   * @param midenAccountId - Unique identifier for the Miden account
+   * @param midenPrivateKey - Miden account's private key material
+   * @param accountIndex - ZIP-32 account index (default: 0)
+   * @returns Extended spending key at m/32'/coin_type'/account'
+   */
+  deriveExtendedSpendingKey(
+    midenAccountId: string,
+    midenPrivateKey: Uint8Array,
+    accountIndex: number = 0
+  ): ExtendedSpendingKey {
+    if (!midenAccountId || midenAccountId.length === 0) {
+      throw new Error('Invalid Miden account ID');
+    }
+    if (!midenPrivateKey || midenPrivateKey.length < 32) {
+      throw new Error('Invalid Miden private key');
+    }
+
+    const masterSeed = this.deriveMasterSeed(midenAccountId, midenPrivateKey, this.network);
+    return ExtendedSpendingKey.deriveAccount(masterSeed, this.network, accountIndex);
+  }
+
+  /**
+   * Find the first valid diversified Sapling address at or after an index
+   *
+   * Only about half of all diversifier indices yield a valid diversifier,
+   * so the ZIP-32 index search may skip some. Needs only the viewing key.
+   *
+   * @param extendedFullViewingKey - Bech32 ZIP-32 extended full viewing key
+   * @param startIndex - First diversifier index to try
+   * @returns The address and the diversifier index it was found at
+   */
+  deriveDiversifiedAddress(
+    extendedFullViewingKey: string,
+    startIndex: bigint = 0n
+  ): DiversifiedShieldedAddress {
+    const { network, key } = ExtendedFullViewingKey.decode(extendedFullViewingKey);
+    if (network !== this.network) {
+      throw new Error(`Extended full viewing key is for ${network}, expected ${this.network}`);
+    }
+
+    const { index, diversifier, pkd } = key.findAddress(startIndex);
+    return {
+      index,
+      diversifier,
+      address: bech32Encode(this.networkVersions.saplingHRP, concatBytes(diversifier, pkd))
+    };
+  }
+
+  /**
+   * Check whether a Sapling address belongs to an incoming viewing key
+   *
+   * Holds for every diversified address of the key: pk_d = [ivk] g_d.
+   */
+  isOwnShieldedAddress(ivk: Uint8Array, address: string): boolean {
+    try {
+      const { hrp, data } = bech32Decode(address);
+      if (hrp !== this.networkVersions.saplingHRP || data.length !== 43) {
+        return false;
+      }
+      const pkd = saplingPaymentKey(ivk, data.slice(0, 11));
+      return pkd !== null && bytesEqual(pkd, data.slice(11));
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Derive master seed from Miden account key using HKDF-SHA256
    * 
@@ -213,6 +609,15 @@ export class ZcashKeyDerivation {
     };
   }
 
+  /**
+   * Derive the BIP44 account key m/44'/133'/account'
+   */
+  private deriveBIP44AccountKey(masterKey: BIP32Key, accountIndex: number): BIP32Key {
+    const purposeKey = this.deriveBIP32Child(masterKey, 44 + HARDENED_OFFSET);
+    const coinTypeKey = this.deriveBIP32Child(purposeKey, ZCASH_COIN_TYPE + HARDENED_OFFSET);
+    return this.deriveBIP32Child(coinTypeKey, accountIndex + HARDENED_OFFSET);
+  }
+
   /**
    * Derive child key using BIP32 algorithm
    * 
@@ -267,6 +672,37 @@ export class ZcashKeyDerivation {
     };
   }
 
+  /**
+   * Derive a non-hardened child public key (BIP32 CKDpub)
+   *
+   * I = HMAC-SHA512(Key = cpar, Data = Kpar || ser32(i)), Ki = point(IL) + Kpar
+   */
+  private deriveBIP32PublicChild(
+    parent: { publicKey: Uint8Array; chainCode: Uint8Array },
+    index: number
+  ): { publicKey: Uint8Array; chainCode: Uint8Array } {
+    if (index >= HARDENED_OFFSET) {
+      throw new Error('Cannot derive a hardened child from an extended public key');
+    }
+
+    const I = hmac(sha512, parent.chainCode, concatBytes(
+      parent.publicKey,
+      numberToLEBytes(index, 4).reverse() // Big-endian for BIP32
+    ));
+    const tweak = BigInt('0x' + bytesToHex(I.slice(0, 32)));
+    if (tweak === 0n || tweak >= secp256k1.CURVE.n) {
+      throw new Error('Invalid derived key: IL is not a valid scalar');
+    }
+
+    const child = secp256k1.ProjectivePoint.BASE.multiply(tweak)
+      .add(secp256k1.ProjectivePoint.fromHex(parent.publicKey));
+    if (child.equals(secp256k1.ProjectivePoint.ZERO)) {
+      throw new Error('Invalid derived key: point at infinity');
+    }
+
+    return { publicKey: child.toRawBytes(true), chainCode: I.slice(32, 64) };
+  }
+
   /**
    * Add two private keys modulo curve order
    */
@@ -311,46 +747,6 @@ export class ZcashKeyDerivation {
     return result;
   }
 
-  /**
-   * Derive Sapling spending key
-   * 
-   * Uses HKDF to derive a 32-byte spending key from the account key.
-   * The spending key is used to:
-   * - Generate nullifiers for spent notes
-   * - Create spend authorization signatures
-   */
-  private deriveSpendingKey(
-    accountKey: Uint8Array,
-    diversifierIndex: number
-  ): Uint8Array {
-    const salt = new TextEncoder().encode('zcash-sapling-spending');
-    const info = concatBytes(
-      new TextEncoder().encode('spending-key-'),
-      numberToLEBytes(diversifierIndex, 4)
-    );
-
-    return hkdf(sha256, accountKey, salt, info, 32);
-  }
-
-  /**
-   * Derive incoming viewing key (ivk) from spending key
-   * 
-   * The ivk is a scalar used to:
-   * - Derive pk_d (payment key) via pk_d = [ivk] * DiversifyHash(d)
-   * - Decrypt notes via ECDH: shared_secret = [ivk] * epk
-   * 
-   * Note: This is a simplified derivation. In full Zcash spec, ivk is derived
-   * from (ask, nsk) components of the spending key, but for our use case,
-   * we derive it directly from the spending key using HKDF.
-   */
-  private deriveViewingKey(spendingKey: Uint8Array): Uint8Array {
-    const salt = new TextEncoder().encode('zcash-sapling-ivk');
-    const info = new TextEncoder().encode('incoming-viewing-key-v1');
-
-    // Derive 32-byte ivk scalar
-    return hkdf(sha256, spendingKey, salt, info, 32);
-  }
-
   /**
    * Generate transparent (t-address) from public key
    * 
@@ -14,11 +14,17 @@ export interface EncryptedKeys {
   spendingKey: string;      // AES-256-GCM encrypted
   viewingKey: string;        // AES-256-GCM encrypted
   transparentKey: string;    // AES-256-GCM encrypted
+  outgoingViewingKey?: string;  // AES-256-GCM encrypted (Sapling ovk)
+  transparentAccountKey?: string;  // AES-256-GCM encrypted (BIP44 account key)
+  orchardSpendingKey?: string;  // AES-256-GCM encrypted
+  extendedSpendingKey?: string;  // AES-256-GCM encrypted (ZIP-32 Bech32)
+  extendedFullViewingKey?: string;  // AES-256-GCM encrypted (ZIP-32 Bech32)
   iv: string;                // Initialization vector
   salt: string;              // Key derivation salt
   tag: string;               // Authentication tag
   tAddress?: string;         // Transparent address (derived, stored for convenience)
   zAddress?: string;         // Shielded address (derived, stored for convenience)
+  unifiedAddress?: string;   // Unified address (derived, stored for convenience)
 }
 
 /**
@@ -319,11 +325,33 @@ export class ZcashKeyManager {
     keys: ZcashKeys,
     password: string
   ): Promise<void> {
+    const encryptOptional = async (key: Uint8Array | string | undefined) => {
+      if (key === undefined) {
+        return undefined;
+      }
+      const bytes = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+      return JSON.stringify(await this.encryption.encryptKey(bytes, password));
+    };
+
     // Encrypt each key
-    const [spendingKey, viewingKey, transparentKey] = await Promise.all([
+    const [
+      spendingKey,
+      viewingKey,
+      transparentKey,
+      outgoingViewingKey,
+      transparentAccountKey,
+      orchardSpendingKey,
+      extendedSpendingKey,
+      extendedFullViewingKey
+    ] = await Promise.all([
       this.encryption.encryptKey(keys.spendingKey, password),
       this.encryption.encryptKey(keys.viewingKey, password),
-      this.encryption.encryptKey(keys.transparentPrivateKey, password)
+      this.encryption.encryptKey(keys.transparentPrivateKey, password),
+      encryptOptional(keys.outgoingViewingKey),
+      encryptOptional(keys.transparentAccountKey),
+      encryptOptional(keys.orchardSpendingKey),
+      encryptOptional(keys.extendedSpendingKey),
+      encryptOptional(keys.extendedFullViewingKey)
     ]);
 
     // Store encrypted keys with addresses for quick retrieval
@@ -331,11 +359,17 @@ export class ZcashKeyManager {
       spendingKey: JSON.stringify(spendingKey),
       viewingKey: JSON.stringify(viewingKey),
       transparentKey: JSON.stringify(transparentKey),
+      outgoingViewingKey,
+      transparentAccountKey,
+      orchardSpendingKey,
+      extendedSpendingKey,
+      extendedFullViewingKey,
       iv: spendingKey.iv, // Using first IV as reference
       salt: spendingKey.salt,
       tag: spendingKey.tag,
       tAddress: keys.tAddress, // Store addresses for quick access
-      zAddress: keys.zAddress
+      zAddress: keys.zAddress,
+      unifiedAddress: keys.unifiedAddress
     };
 
     await this.storage.storeEncrypted(accountId, encryptedKeys);
@@ -353,20 +387,51 @@ export class ZcashKeyManager {
       return null;
     }
 
+    const decryptOptional = (key: string | undefined) =>
+      key ? this.encryption.decryptKey(JSON.parse(key), password) : undefined;
+    const decodeText = (bytes: Uint8Array | undefined) => {
+      if (!bytes) {
+        return undefined;
+      }
+      const text = new TextDecoder().decode(bytes);
+      bytes.fill(0);
+      return text;
+    };
+
     // Decrypt each key
-    const [spendingKey, viewingKey, transparentKey] = await Promise.all([
+    const [
+      spendingKey,
+      viewingKey,
+      transparentKey,
+      outgoingViewingKey,
+      transparentAccountKey,
+      orchardSpendingKey,
+      extendedSpendingKey,
+      extendedFullViewingKey
+    ] = await Promise.all([
       this.encryption.decryptKey(JSON.parse(encrypted.spendingKey), password),
       this.encryption.decryptKey(JSON.parse(encrypted.viewingKey), password),
-      this.encryption.decryptKey(JSON.parse(encrypted.transparentKey), password)
+      this.encryption.decryptKey(JSON.parse(encrypted.transparentKey), password),
+      decryptOptional(encrypted.outgoingViewingKey),
+      decryptOptional(encrypted.transparentAccountKey),
+      decryptOptional(encrypted.orchardSpendingKey),
+      decryptOptional(encrypted.extendedSpendingKey),
+      decryptOptional(encrypted.extendedFullViewingKey)
     ]);
 
     // Return keys with addresses (stored during encryption)
     return {
       spendingKey,
       viewingKey,
+      outgoingViewingKey,
+      extendedSpendingKey: decodeText(extendedSpendingKey),
+      extendedFullViewingKey: decodeText(extendedFullViewingKey),
       transparentPrivateKey: transparentKey,
+      transparentAccountKey,
       tAddress: encrypted.tAddress || '',
-      zAddress: encrypted.zAddress || ''
+      zAddress: encrypted.zAddress || '',
+      unifiedAddress: encrypted.unifiedAddress,
+      orchardSpendingKey
     };
   }
 
@@ -0,0 +1,262 @@
+/**
+ * Key Vault
+ * Keeps derived Zcash keys encrypted at rest and unlocks them per session
+ *
+ * Keys are derived once, then stored encrypted with a password (PBKDF2 and
+ * AES-256-GCM via ZcashKeyManager). Unlocking decrypts them into memory for
+ * a bounded session: the vault locks itself after a period without use and
+ * at the end of the session, whichever comes first. Locking zeroes the
+ * decrypted keys.
+ */
+
+import type { ZcashKeys } from '../types/index';
+import { secureZero } from '../utils/bytes';
+import { ZcashKeyManager, IndexedDBKeyStorage, MemoryKeyStorage } from './keyStorage';
+import type { KeyStorage } from './keyStorage';
+
+/**
+ * Key vault options
+ */
+export interface KeyVaultOptions {
+  /** Where the encrypted keys are kept (default: IndexedDB in browsers, memory otherwise) */
+  storage?: KeyStorage;
+
+  /** Lock after this many milliseconds without use (default: 5 minutes) */
+  idleTimeoutMs?: number;
+
+  /** Lock this many milliseconds after unlocking, even if in use (default: 30 minutes) */
+  maxSessionMs?: number;
+}
+
+/**
+ * Why a session ended
+ */
+export type KeyVaultLockReason = 'manual' | 'idle' | 'session';
+
+/**
+ * Key vault lifecycle event
+ */
+export type KeyVaultEvent =
+  | { type: 'unlocked'; accountId: string; expiresAt: number }
+  | { type: 'locked'; accountId: string; reason: KeyVaultLockReason };
+
+/**
+ * Unlocked keys of an account
+ */
+interface KeySession {
+  keys: ZcashKeys;
+  idleMs: number;
+  expiresAt: number;
+  idleTimer: ReturnType<typeof setTimeout>;
+  sessionTimer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_SESSION_MS = 30 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Zero every key of a ZcashKeys object
+ */
+export function wipeZcashKeys(keys: ZcashKeys): void {
+  secureZero(keys.spendingKey);
+  secureZero(keys.viewingKey);
+  secureZero(keys.transparentPrivateKey);
+  if (keys.transparentAccountKey) {
+    secureZero(keys.transparentAccountKey);
+  }
+  if (keys.outgoingViewingKey) {
+    secureZero(keys.outgoingViewingKey);
+  }
+  if (keys.orchardSpendingKey) {
+    secureZero(keys.orchardSpendingKey);
+  }
+}
+
+/**
+ * Copy a ZcashKeys object, so the copy can be wiped independently
+ */
+function cloneZcashKeys(keys: ZcashKeys): ZcashKeys {
+  return {
+    ...keys,
+    spendingKey: keys.spendingKey.slice(),
+    viewingKey: keys.viewingKey.slice(),
+    transparentPrivateKey: keys.transparentPrivateKey.slice(),
+    transparentAccountKey: keys.transparentAccountKey?.slice(),
+    outgoingViewingKey: keys.outgoingViewingKey?.slice(),
+    orchardSpendingKey: keys.orchardSpendingKey?.slice()
+  };
+}
+
+/**
+ * Key Vault
+ */
+export class KeyVault {
+  private keyManager: ZcashKeyManager;
+  private storage: KeyStorage;
+  private idleTimeoutMs: number;
+  private maxSessionMs: number;
+  private sessions: Map<string, KeySession> = new Map();
+  private listeners: Set<(event: KeyVaultEvent) => void> = new Set();
+
+  constructor(options: KeyVaultOptions = {}) {
+    this.storage = options.storage ??
+      (typeof indexedDB !== 'undefined' ? new IndexedDBKeyStorage() : new MemoryKeyStorage());
+    this.keyManager = new ZcashKeyManager(this.storage);
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.maxSessionMs = options.maxSessionMs ?? DEFAULT_MAX_SESSION_MS;
+  }
+
+  /**
+   * Check whether keys are stored for an account
+   */
+  async hasKeys(accountId: string): Promise<boolean> {
+    return (await this.storage.retrieveEncrypted(accountId)) !== null;
+  }
+
+  /**
+   * Encrypt and store the keys of an account, replacing stored keys
+   *
+   * The vault stays locked; the caller may wipe its keys afterwards.
+   */
+  async store(accountId: string, keys: ZcashKeys, password: string): Promise<void> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Key vault password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    this.lock(accountId);
+    await this.keyManager.storeKeys(accountId, keys, password);
+  }
+
+  /**
+   * Decrypt the keys of an account for a session
+   *
+   * @param sessionMs - Session length, capped at the vault's maximum
+   * @returns Time the session ends (ms since epoch)
+   */
+  async unlock(accountId: string, password: string, sessionMs?: number): Promise<number> {
+    if (sessionMs !== undefined && !(sessionMs > 0)) {
+      throw new Error(`Invalid session length: ${sessionMs}`);
+    }
+
+    let keys: ZcashKeys | null;
+    try {
+      keys = await this.keyManager.retrieveKeys(accountId, password);
+    } catch (error) {
+      throw new Error('Failed to unlock key vault: wrong password or corrupted keys');
+    }
+    if (!keys) {
+      throw new Error(`No keys stored for account: ${accountId}`);
+    }
+
+    this.lock(accountId);
+    const duration = Math.min(sessionMs ?? this.maxSessionMs, this.maxSessionMs);
+    const idleMs = Math.min(this.idleTimeoutMs, duration);
+    const expiresAt = Date.now() + duration;
+    this.sessions.set(accountId, {
+      keys,
+      idleMs,
+      expiresAt,
+      idleTimer: setTimeout(() => this.end(accountId, 'idle'), idleMs),
+      sessionTimer: setTimeout(() => this.end(accountId, 'session'), duration)
+    });
+
+    this.emit({ type: 'unlocked', accountId, expiresAt });
+    return expiresAt;
+  }
+
+  /**
+   * Check whether an account's keys are unlocked
+   */
+  isUnlocked(accountId: string): boolean {
+    return this.sessions.has(accountId);
+  }
+
+  /**
+   * Get the time an account's session ends, if unlocked
+   */
+  getSessionExpiry(accountId: string): number | undefined {
+    return this.sessions.get(accountId)?.expiresAt;
+  }
+
+  /**
+   * Get a copy of an account's unlocked keys
+   *
+   * Counts as use, so it postpones the idle lock. Wipe the copy with
+   * wipeZcashKeys when done.
+   */
+  getKeys(accountId: string): ZcashKeys {
+    const session = this.sessions.get(accountId);
+    if (!session) {
+      throw new Error(`Key vault is locked for account: ${accountId}`);
+    }
+
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => this.end(accountId, 'idle'), session.idleMs);
+    return cloneZcashKeys(session.keys);
+  }
+
+  /**
+   * Lock an account, or every account, zeroing the decrypted keys
+   */
+  lock(accountId?: string): void {
+    const accountIds = accountId !== undefined ? [accountId] : [...this.sessions.keys()];
+    for (const id of accountIds) {
+      this.end(id, 'manual');
+    }
+  }
+
+  /**
+   * Lock an account and delete its stored keys
+   */
+  async remove(accountId: string): Promise<void> {
+    this.lock(accountId);
+    await this.storage.clearKeys(accountId);
+  }
+
+  /**
+   * Listen for unlock and lock events
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: KeyVaultEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Lock every account and stop notifying listeners
+   */
+  dispose(): void {
+    this.lock();
+    this.listeners.clear();
+  }
+
+  /**
+   * End a session, zeroing its keys
+   */
+  private end(accountId: string, reason: KeyVaultLockReason): void {
+    const session = this.sessions.get(accountId);
+    if (!session) {
+      return;
+    }
+    clearTimeout(session.idleTimer);
+    clearTimeout(session.sessionTimer);
+    wipeZcashKeys(session.keys);
+    this.sessions.delete(accountId);
+
+    this.emit({ type: 'locked', accountId, reason });
+  }
+
+  /**
+   * Notify listeners of an event
+   */
+  private emit(event: KeyVaultEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not stop the others
+      }
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Viewing Keys
+ * Decodes the keys that watch-only accounts are imported from
+ *
+ * - Sapling incoming viewing key (ivk, 32 bytes hex): finds incoming
+ *   notes. It holds no diversifier key, so one of the account's addresses
+ *   must be given with it.
+ * - ZIP-32 Sapling extended full viewing key (zxviews / zxviewtestsapling):
+ *   finds incoming notes, sees them spent with its nk, recovers sent notes
+ *   with its ovk, builds PCZTs spending them with its ak, and derives the
+ *   default address.
+ * - BIP32 account extended public key (xpub / tpub at m/44'/133'/account'):
+ *   derives the transparent addresses of both BIP44 chains.
+ *
+ * None of them can spend.
+ */
+
+import type { Network } from '../types/index';
+import { hexToBytes } from '../utils/bytes';
+import { ExtendedFullViewingKey } from '../shielded/zip32';
+import { ZcashKeyDerivation } from './keyDerivation';
+
+/**
+ * Kind of key a watch-only account is imported from
+ */
+export type ViewingKeyKind = 'ivk' | 'fvk' | 'xpub';
+
+/**
+ * Key material of a watch-only account
+ */
+export interface WatchOnlyKeys {
+  kind: ViewingKeyKind;
+
+  /** Sapling incoming viewing key (ivk and fvk imports) */
+  viewingKey?: Uint8Array;
+
+  /** Sapling outgoing viewing key (fvk imports) */
+  outgoingViewingKey?: Uint8Array;
+
+  /** Sapling nullifier deriving key nk (fvk imports) */
+  nullifierKey?: Uint8Array;
+
+  /** Sapling spend validating key ak (fvk imports) */
+  spendValidatingKey?: Uint8Array;
+
+  /** Sapling address the account's notes are attributed to */
+  zAddress?: string;
+
+  /** Account extended public key (xpub imports) */
+  extendedPublicKey?: string;
+
+  /** Default transparent address, external index 0 (xpub imports) */
+  tAddress?: string;
+}
+
+/**
+ * Tell which kind of viewing key a string holds
+ */
+export function detectViewingKeyKind(encoded: string): ViewingKeyKind {
+  const key = encoded.trim();
+  if (/^[xt]pub/.test(key)) {
+    return 'xpub';
+  }
+  if (key.startsWith('zxview')) {
+    return 'fvk';
+  }
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(key)) {
+    return 'ivk';
+  }
+  throw new Error(
+    'Unrecognized viewing key: expected a hex incoming viewing key, ' +
+    'an extended full viewing key (zxviews...) or an extended public key (xpub...)'
+  );
+}
+
+/**
+ * Decode a viewing key for a network
+ *
+ * @param encoded - Hex ivk, Bech32 extended full viewing key, or xpub
+ * @param network - Network the account is on
+ * @param zAddress - Sapling address of the account; required for an ivk,
+ *                   optional for a full viewing key (default address otherwise)
+ */
+export function decodeViewingKey(encoded: string, network: Network, zAddress?: string): WatchOnlyKeys {
+  const key = encoded.trim();
+  const keyDerivation = new ZcashKeyDerivation(network);
+  const kind = detectViewingKeyKind(key);
+
+  if (kind === 'xpub') {
+    keyDerivation.decodeExtendedPublicKey(key);
+    const [defaultKey] = keyDerivation.deriveTransparentKeysFromXpub(key, 'external', 0, 1);
+    return { kind, extendedPublicKey: key, tAddress: defaultKey.address };
+  }
+
+  if (kind === 'fvk') {
+    const { network: keyNetwork, key: fvk } = ExtendedFullViewingKey.decode(key);
+    if (keyNetwork !== network) {
+      throw new Error(`Extended full viewing key is for ${keyNetwork}, expected ${network}`);
+    }
+    const viewingKey = fvk.incomingViewingKey();
+    return {
+      kind,
+      viewingKey,
+      outgoingViewingKey: fvk.ovk,
+      nullifierKey: fvk.nk,
+      spendValidatingKey: fvk.ak,
+      zAddress: zAddress
+        ? checkOwnAddress(keyDerivation, viewingKey, zAddress)
+        : keyDerivation.deriveDiversifiedAddress(key).address
+    };
+  }
+
+  const viewingKey = hexToBytes(key);
+  // ivk is a Jubjub scalar below 2^251
+  if ((viewingKey[31] & 0xf8) !== 0 || viewingKey.every(byte => byte === 0)) {
+    throw new Error('Invalid incoming viewing key');
+  }
+  if (!zAddress) {
+    throw new Error('An incoming viewing key needs one of the account\'s shielded addresses');
+  }
+  return { kind, viewingKey, zAddress: checkOwnAddress(keyDerivation, viewingKey, zAddress) };
+}
+
+/**
+ * Check that a Sapling address belongs to an incoming viewing key
+ */
+function checkOwnAddress(keyDerivation: ZcashKeyDerivation, ivk: Uint8Array, zAddress: string): string {
+  const address = zAddress.trim();
+  if (!keyDerivation.isOwnShieldedAddress(ivk, address)) {
+    throw new Error('Shielded address does not belong to the viewing key');
+  }
+  return address;
+}
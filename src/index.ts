@@ -16,6 +16,7 @@ export * from './utils/index';
 
 // Cryptographic operations
 export { ZcashKeyDerivation } from './crypto/keyDerivation';
+export type { TransparentChain, TransparentAddressKey } from './crypto/keyDerivation';
 export { 
   ZcashKeyManager, 
   KeyEncryption, 
@@ -26,6 +27,10 @@ export type {
   EncryptedKeys,
   EncryptedKey 
 } from './crypto/keyStorage';
+export { KeyVault, wipeZcashKeys } from './crypto/keyVault';
+export type { KeyVaultOptions, KeyVaultEvent, KeyVaultLockReason } from './crypto/keyVault';
+export { decodeViewingKey, detectViewingKeyKind } from './crypto/viewingKeys';
+export type { ViewingKeyKind, WatchOnlyKeys } from './crypto/viewingKeys';
 
 // Address utilities
 export * from './address/index';
@@ -48,6 +53,35 @@ export type {
   UTXOSelectionStrategy,
   UTXOSelectionResult 
 } from './state/utxo';
+export { TransparentAccount } from './state/transparentAccount';
+export type {
+  TransparentAccountConfig,
+  TransparentKeyDeriver,
+  TransparentUTXOFetcher,
+  TransparentChainState,
+  TransparentDiscoveryResult
+} from './state/transparentAccount';
+export {
+  TransactionHistory,
+  MemoryHistoryStorage,
+  IndexedDBHistoryStorage,
+  FileHistoryStorage,
+  createHistoryStorage
+} from './state/history';
+export type {
+  HistoryEntry,
+  HistoryQuery,
+  HistoryPage,
+  HistoryPool,
+  HistoryDirection,
+  HistoryStatus,
+  HistoryStorage,
+  SentTransactionRecord
+} from './state/history';
+export { PersistedStore } from './state/persistedStore';
+export type { StateStorage, PersistedStoreOptions } from './state/persistedStore';
+export { WatchOnlyAccountStore } from './state/watchOnly';
+export type { WatchOnlyAccount } from './state/watchOnly';
 
 // Transaction handling
 export { TransactionSerializer } from './transactions/serialization';
@@ -55,6 +89,35 @@ export { TransactionValidator } from './transactions/validation';
 export { ZcashTransactionBuilder } from './transactions/builder';
 export { ZcashSigner } from './transactions/signing';
 export type { TransactionBuilderConfig } from './transactions/builder';
+export {
+  NETWORK_UPGRADES,
+  getConsensusBranchId,
+  getActiveNetworkUpgrade,
+  getTransactionVersion,
+  isUpgradeActive
+} from './transactions/consensus';
+export type {
+  NetworkUpgrade,
+  NetworkUpgradeName,
+  TransactionVersionInfo
+} from './transactions/consensus';
+export { computeTxId, computeTxIdDigest } from './transactions/zip244';
+export type { TxDigestParts } from './transactions/zip244';
+export {
+  computeSignatureHash,
+  SIGHASH_ALL,
+  SIGHASH_NONE,
+  SIGHASH_SINGLE,
+  SIGHASH_ANYONECANPAY
+} from './transactions/sighash';
+export type { SighashTransaction, SignableTransparentInput } from './transactions/sighash';
+export {
+  computeConventionalFee,
+  computeLogicalActions,
+  MARGINAL_FEE,
+  GRACE_ACTIONS
+} from './transactions/fees';
+export type { FeeActionCounts } from './transactions/fees';
 
 // Shielded transactions (Sapling)
 export * from './shielded/index';
@@ -64,4 +127,4 @@ export * from './miden/index';
 
 // Main provider (high-level API)
 export { ZcashProvider } from './provider/ZcashProvider';
-export type { SyncResult, TxHash } from './provider/ZcashProvider';
+export type { SyncResult, TxHash, PaymentRequestOptions, MessageOptions } from './provider/ZcashProvider';
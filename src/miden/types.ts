@@ -64,8 +64,11 @@ export interface WalletBalance {
  */
 export interface WalletAccountState {
   accountId: string;
-  midenAccount: MidenAccount;
+  /** Absent for watch-only accounts */
+  midenAccount?: MidenAccount;
   zcashAddress: string;
+  /** Imported from a viewing key; shows funds but cannot spend */
+  watchOnly?: boolean;
   balance: WalletBalance;
   transactions: WalletTransaction[];
   lastSync: number;
@@ -11,6 +11,7 @@ import {
   TransactionTracker,
   NoteCache
 } from '../shielded';
+import type { WatchOnlyAccount } from '../state/watchOnly';
 import type { MidenAccount, WalletAccountState, WalletBalance, WalletTransaction, ShieldedTxParams } from './types';
 
 /**
@@ -40,9 +41,9 @@ export class MidenZcashWallet {
     this.config = config;
     this.rpcClient = new ZcashRpcClient(config.rpcUrl);
     const noteCache = new NoteCache();
-    this.builder = new ShieldedTransactionBuilder(noteCache);
+    this.builder = new ShieldedTransactionBuilder(noteCache, config.network);
     this.prover = new ZcashProver();
-    this.signer = new ShieldedSigner(this.prover);
+    this.signer = new ShieldedSigner(this.prover, config.network);
   }
 
   /**
@@ -77,6 +78,36 @@ export class MidenZcashWallet {
     return accountState;
   }
 
+  /**
+   * Register a watch-only account imported from a viewing key
+   *
+   * It is listed and synced like other accounts, but cannot spend.
+   */
+  registerWatchOnlyAccount(account: WatchOnlyAccount): WalletAccountState {
+    const zcashAddress = account.zAddress ?? account.tAddress;
+    if (!zcashAddress) {
+      throw new Error('Watch-only account has no address');
+    }
+
+    const accountState: WalletAccountState = {
+      accountId: account.id,
+      zcashAddress,
+      watchOnly: true,
+      balance: {
+        verified: 0n,
+        unverified: 0n,
+        total: 0n
+      },
+      transactions: [],
+      lastSync: 0,
+      syncInProgress: false
+    };
+
+    this.accounts.set(account.id, accountState);
+    this.notifyListeners();
+    return accountState;
+  }
+
   /**
    * Get all registered accounts
    */
@@ -153,6 +184,9 @@ export class MidenZcashWallet {
     if (!account) {
       throw new Error('Account not registered');
     }
+    if (account.watchOnly) {
+      throw new Error('Account is watch-only and cannot spend');
+    }
 
     if (account.balance.verified < amount) {
       throw new Error('Insufficient balance');
@@ -231,6 +265,9 @@ export class MidenZcashWallet {
     if (!account) {
       throw new Error('Account not registered');
     }
+    if (account.watchOnly) {
+      throw new Error('Account is watch-only and cannot spend');
+    }
 
     try {
       // Shielding transaction (t-to-z) requires transparent inputs from blockchain
@@ -298,6 +335,7 @@ export class MidenZcashWallet {
       accounts: Array.from(this.accounts.entries()).map(([id, account]) => ({
         accountId: id,
         zcashAddress: account.zcashAddress,
+        watchOnly: account.watchOnly ?? false,
         balance: account.balance,
         transactionCount: account.transactions.length,
         lastSync: account.lastSync
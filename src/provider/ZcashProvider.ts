@@ -8,32 +8,148 @@
 import type {
   Network,
   AddressType,
+  AddressInfo,
   ZcashAddresses,
   ZcashKeys,
   Balance,
   TransactionParams,
   SignedTransaction,
   Transaction,
+  TransparentInput,
   TransparentOutput,
+  UTXO,
   ZcashProviderConfig as ProviderConfig
 } from '../types/index';
 import { ZcashKeyDerivation } from '../crypto/keyDerivation';
+import type { WatchOnlyKeys } from '../crypto/viewingKeys';
 // import { ZcashKeyManager } from '../crypto/keyStorage'; // Reserved for future password-based storage
-import { ZcashRPCClient } from '../rpc/client';
+import { ZcashRPCClient, ZcashRPCError } from '../rpc/client';
 import { ZcashTransactionBuilder } from '../transactions/builder';
 import { ZcashSigner } from '../transactions/signing';
 import { TransactionSerializer } from '../transactions/serialization';
 import { TransactionValidator } from '../transactions/validation';
+import { computeConventionalFee, getTransparentOutputsSize } from '../transactions/fees';
+import type { FeeActionCounts } from '../transactions/fees';
+import { computeSignatureHash } from '../transactions/sighash';
+import { getTransactionVersion, NU5_TX_VERSION } from '../transactions/consensus';
 import { TransactionSerializer as ShieldedTransactionSerializer } from '../shielded/transactionSerializer';
 import { UTXOCache } from '../state/utxo';
+import type { UTXOEntry } from '../state/utxo';
+import { TransparentAccount } from '../state/transparentAccount';
+import type { TransparentDiscoveryResult } from '../state/transparentAccount';
+import { TransactionHistory, createHistoryStorage } from '../state/history';
+import type { HistoryPool, HistoryQuery, HistoryPage, SentTransactionRecord } from '../state/history';
 import { NoteCache, NoteSelector } from '../shielded/noteCache';
 import { ShieldedTransactionBuilder } from '../shielded/transactionBuilder';
+import type { UnsignedShieldedTransaction } from '../shielded/transactionBuilder';
 import { ShieldedSigner } from '../shielded/signer';
+import { createPczt as toPczt, extractPczt } from '../shielded/pczt';
+import type { Pczt } from '../shielded/pczt';
+import type {
+  SaplingFullViewingKey,
+  SaplingNote,
+  SaplingSpendingKey,
+  ScannedNote,
+  ShieldedOutputParams,
+  OrchardNote,
+  OrchardOutputParams
+} from '../shielded/types';
+import { memoToText } from '../shielded/memo';
+import { MemoInbox, formatMessageMemo, MESSAGE_NOTE_VALUE } from '../shielded/memoInbox';
+import type { Conversation } from '../shielded/memoInbox';
 import { ZcashProver } from '../shielded/prover';
 import { getGroth16Integration } from '../shielded/groth16Integration';
 import { NoteScanner, ShieldedStateSynchronizer } from '../shielded/noteScanner';
+import { LightwalletdClient } from '../shielded/lightwalletdClient';
+import { saplingNullifierKey, saplingSpendValidatingKey } from '../shielded/zip32';
+import { OrchardExtendedSpendingKey, OrchardFullViewingKey } from '../shielded/orchardKeys';
+import { OrchardNoteCache } from '../shielded/orchardNoteCache';
+import { OrchardNoteScanner } from '../shielded/orchardNoteScanner';
+import { OrchardBundleBuilder } from '../shielded/orchardBuilder';
+import { OrchardWasmBackend } from '../shielded/halo2Prover';
+import type { OrchardPrimitives, Halo2Prover } from '../shielded/halo2Prover';
+import { TransactionTracker } from '../shielded/transactionTracker';
+import type {
+  TrackerEvent,
+  TrackerRpcClient,
+  TrackerTransactionInfo,
+  TransactionReservations
+} from '../shielded/transactionTracker';
+import { RPC_NO_SUCH_TRANSACTION } from '../shielded/rpcClient';
 import { validateAddress, isAddressForNetwork } from '../address/validation';
-import { bytesToHex, hexToBytes } from '../utils/bytes';
+import {
+  decodeUnifiedAddress,
+  encodeReceiverAddress,
+  encodeUnifiedAddress,
+  isUnifiedAddress,
+  selectReceiver
+} from '../address/unified';
+import type { UnifiedReceiverType } from '../address/unified';
+import { parsePaymentRequest } from '../address/zip321';
+import {
+  createP2SHAddress,
+  createP2PKHScript,
+  createP2SHScript,
+  decodeMultisigRedeemScript
+} from '../address/script';
+import { extractPubKeyHash } from '../address/validation';
+import type { PaymentRequest } from '../address/zip321';
+import { bytesToHex, hexToBytes, bytesEqual } from '../utils/bytes';
+
+/**
+ * Unified Address receivers the provider can build outputs for from
+ * transparent funds and Sapling notes
+ */
+const SUPPORTED_RECEIVERS: readonly UnifiedReceiverType[] = ['sapling', 'p2pkh', 'p2sh'];
+
+/**
+ * Unified Address receivers the provider can build outputs for from Orchard
+ * notes (an Orchard bundle without a Sapling bundle next to it)
+ */
+const ORCHARD_SOURCE_RECEIVERS: readonly UnifiedReceiverType[] = ['orchard', 'p2pkh', 'p2sh'];
+
+/**
+ * Orchard primitives together with the Halo2 prover
+ */
+type OrchardBackend = OrchardPrimitives & Halo2Prover;
+
+/**
+ * Recipient outputs of a transaction, split by pool
+ */
+interface RecipientOutputs {
+  transparent: TransparentOutput[];
+  shielded: ShieldedOutputParams[];
+}
+
+/**
+ * Transaction parameters apart from the recipient, which is given as outputs
+ */
+type SenderParams = Omit<TransactionParams, 'to'>;
+
+/**
+ * Options for paying a payment request
+ */
+export interface PaymentRequestOptions {
+  /** Fee in zatoshi (defaults to the ZIP-317 conventional fee) */
+  fee?: number;
+
+  /** Change address */
+  changeAddress?: string;
+
+  /** Expiry height */
+  expiryHeight?: number;
+}
+
+/**
+ * Options for sending a memo message
+ */
+export interface MessageOptions {
+  /** Fee in zatoshi (defaults to the ZIP-317 conventional fee) */
+  fee?: number;
+
+  /** Add our address as reply-to address (defaults to true) */
+  includeReplyTo?: boolean;
+}
 
 /**
  * Sync result for address synchronization
@@ -79,6 +195,7 @@ export class ZcashProvider {
   // private keyManager: ZcashKeyManager; // Reserved for future key storage with password
   private rpcClient: ZcashRPCClient;
   private rpcConnected: boolean = false;
+  private lightwalletd: LightwalletdClient | null = null;
   private txBuilder: ZcashTransactionBuilder;
   private shieldedTxBuilder: ShieldedTransactionBuilder;
   private signer: ZcashSigner;
@@ -92,8 +209,14 @@ export class ZcashProvider {
   private utxoCache: UTXOCache;
   private noteCache: NoteCache;
   private noteSelector: NoteSelector;
-  private noteScanner: NoteScanner | null = null;
-  private stateSynchronizer: ShieldedStateSynchronizer | null = null;
+  private memoInbox: MemoInbox;
+  private orchardNoteCache: OrchardNoteCache;
+
+  // Orchard primitives and prover; Orchard is unavailable until one is loaded or set
+  private orchardBackend: OrchardBackend | null = null;
+
+  // Note scanning per shielded address, each with its own viewing key (address -> synchronizer)
+  private shieldedSynchronizers: Map<string, ShieldedStateSynchronizer> = new Map();
   
   // Address cache (midenAccountId -> ZcashAddresses)
   private addressCache: Map<string, ZcashAddresses> = new Map();
@@ -101,6 +224,18 @@ export class ZcashProvider {
   // Viewing key cache (address -> viewingKey)
   // Viewing keys are safe to cache - they're meant to be stored for note scanning
   private viewingKeyCache: Map<string, Uint8Array> = new Map();
+
+  // Outgoing viewing key cache (address -> ovk), for recovering sent notes
+  private outgoingViewingKeyCache: Map<string, Uint8Array> = new Map();
+
+  // Nullifier deriving key cache (address -> nk), for seeing scanned notes spent
+  private nullifierKeyCache: Map<string, Uint8Array> = new Map();
+
+  // Spend validating key cache (address -> ak), for building PCZTs without spending keys
+  private spendValidatingKeyCache: Map<string, Uint8Array> = new Map();
+
+  // Orchard full viewing key cache (Orchard address -> fvk), for scanning Orchard actions
+  private orchardViewingKeyCache: Map<string, OrchardFullViewingKey> = new Map();
   
   // Reverse mapping (address -> midenAccountId)
   private addressToAccountId: Map<string, string> = new Map();
@@ -109,6 +244,29 @@ export class ZcashProvider {
   private balanceCache: Map<string, { balance: Balance; timestamp: number }> = new Map();
   private balanceCacheTTL = 600000; // 10 minutes
 
+  // Wallet birthday heights (address -> first block that can hold our notes)
+  private birthdayHeights: Map<string, number> = new Map();
+
+  // BIP44 transparent accounts (midenAccountId -> external and change chains)
+  private transparentAccounts: Map<string, TransparentAccount> = new Map();
+
+  // Accounts imported from viewing keys, which cannot spend
+  private watchOnlyAccounts: Set<string> = new Set();
+
+  // Redeem scripts of tracked P2SH multisig addresses (address -> hex)
+  private multisigRedeemScripts: Map<string, string> = new Map();
+
+  // Transaction history, and details of signed transactions until broadcast (txHash -> record)
+  private history: TransactionHistory;
+  private unbroadcastSends: Map<string, Omit<SentTransactionRecord, 'txid'>> = new Map();
+
+  // Times of blocks holding transparent outputs, for dating them in the history (height -> seconds)
+  private blockTimes: Map<number, number> = new Map();
+  private blockTimeLookups: Set<number> = new Set();
+
+  // Broadcast transactions followed until mined or expired, across reloads
+  private tracker: TransactionTracker;
+
   constructor(config: ProviderConfig) {
     this.config = { ...DEFAULT_CONFIG, ...config } as ProviderConfig;
     this.network = config.network;
@@ -129,6 +287,11 @@ export class ZcashProvider {
       backendProxyUrl: (config as any).backendProxyUrl ?? '/api/zcash/rpc'
     });
 
+    // Lightwalletd serves compact blocks and broadcasts without a trusted full node
+    if (config.lightwalletdUrl) {
+      this.lightwalletd = new LightwalletdClient(config.lightwalletdUrl, { timeout: 30000 });
+    }
+
     // Connection manager can be initialized for failover support in the future
 
     // Initialize transaction builders
@@ -139,11 +302,16 @@ export class ZcashProvider {
 
     this.noteCache = new NoteCache();
     this.noteSelector = new NoteSelector(this.noteCache);
-    this.shieldedTxBuilder = new ShieldedTransactionBuilder(this.noteCache);
+    // Notes are rescanned on startup, so read markers are persisted apart from them
+    this.memoInbox = new MemoInbox(this.noteCache, {
+      storage: createHistoryStorage(config.memoPath, 'miden-zcash-memos')
+    });
+    this.shieldedTxBuilder = new ShieldedTransactionBuilder(this.noteCache, this.network);
+    this.orchardNoteCache = new OrchardNoteCache();
 
     // Initialize signers
-    this.signer = new ZcashSigner();
-    this.shieldedSigner = new ShieldedSigner();
+    this.signer = new ZcashSigner(this.network);
+    this.shieldedSigner = new ShieldedSigner(undefined, this.network);
 
     // Initialize serialization and validation
     this.serializer = new TransactionSerializer();
@@ -159,6 +327,15 @@ export class ZcashProvider {
 
     // Initialize state management
     this.utxoCache = new UTXOCache();
+    this.history = new TransactionHistory(createHistoryStorage(config.historyPath));
+    this.tracker = new TransactionTracker(this.createTrackerRpcClient(), {
+      storage: createHistoryStorage(config.trackerPath, 'miden-zcash-tracker')
+    });
+    this.tracker.subscribe((event) => this.handleTrackerEvent(event));
+    this.utxoCache.onUpdate((address) => {
+      this.applyReservations(address);
+      this.recordTransparentHistory(address);
+    });
   }
 
   /**
@@ -193,6 +370,34 @@ export class ZcashProvider {
       }
     }
 
+    // Load the Orchard backend if configured
+    if (this.config.orchardWasmPath !== undefined && !this.orchardBackend) {
+      try {
+        this.orchardBackend = await OrchardWasmBackend.load(this.config.orchardWasmPath || undefined);
+      } catch (error) {
+        // Orchard WASM unavailable - Orchard notes are neither scanned nor spent
+      }
+    }
+
+    try {
+      await this.history.initialize();
+    } catch (error) {
+      // Persisted history unavailable - history starts from this session
+    }
+
+    try {
+      await this.tracker.initialize();
+      this.applyReservations();
+    } catch (error) {
+      // Persisted tracker unavailable - only new broadcasts are tracked
+    }
+
+    try {
+      await this.memoInbox.initialize();
+    } catch (error) {
+      // Persisted read markers unavailable - earlier messages show as unread
+    }
+
     // Test RPC connection (non-blocking)
     // Don't fail initialization if RPC is unavailable
     try {
@@ -210,16 +415,32 @@ export class ZcashProvider {
     }
   }
 
+  /**
+   * Set the Orchard primitives and Halo2 prover
+   *
+   * Accounts loaded with getAddresses() afterwards get an Orchard address
+   * that can be synced and spent from. Use this instead of the
+   * orchardWasmPath option to supply another backend. Orchard notes are
+   * scanned alongside Sapling notes, so the backend must be set before
+   * any shielded address syncs.
+   */
+  setOrchardBackend(backend: OrchardBackend): void {
+    if (this.shieldedSynchronizers.size > 0) {
+      throw new Error('Set the Orchard backend before syncing shielded addresses');
+    }
+    this.orchardBackend = backend;
+  }
+
   /**
    * Get Zcash addresses for a Miden account
    * 
    * @param midenAccountId - The Miden account identifier
-   * @param midenPrivateKey - The Miden account private key
+   * @param accountKey - The Miden account private key, or keys unlocked from the key vault
    * @returns Promise resolving to Zcash addresses
    */
   async getAddresses(
     midenAccountId: string,
-    midenPrivateKey: Uint8Array
+    accountKey: Uint8Array | ZcashKeys
   ): Promise<ZcashAddresses> {
     // Check cache first
     if (this.addressCache.has(midenAccountId)) {
@@ -227,26 +448,45 @@ export class ZcashProvider {
     }
 
     // Derive keys
-    const keys = this.keyDerivation.deriveKeys(
-      midenAccountId,
-      midenPrivateKey,
-      0
-    );
+    const keys = this.resolveKeys(midenAccountId, accountKey);
 
     const addresses: ZcashAddresses = {
       tAddress: keys.tAddress,
-      zAddress: keys.zAddress
+      zAddress: keys.zAddress,
+      unifiedAddress: keys.unifiedAddress
     };
 
+    // The Orchard address is a Unified Address with the Orchard receiver alone
+    if (this.orchardBackend && keys.orchardSpendingKey) {
+      const fvk = this.orchardSpendingKey(keys).toFullViewingKey(this.orchardBackend);
+      const { diversifier, pkd } = fvk.defaultAddress(this.orchardBackend);
+      addresses.orchardAddress = encodeUnifiedAddress({
+        network: this.network,
+        orchard: new Uint8Array([...diversifier, ...pkd])
+      });
+      this.orchardViewingKeyCache.set(addresses.orchardAddress, fvk);
+      this.addressToAccountId.set(addresses.orchardAddress, midenAccountId);
+    }
+
     // Cache addresses
     this.addressCache.set(midenAccountId, addresses);
     
     // Cache viewing key for note scanning (viewing keys are safe to cache)
-    this.viewingKeyCache.set(keys.zAddress, keys.viewingKey);
+    // Copied, as the caller may wipe the keys it passed in
+    this.viewingKeyCache.set(keys.zAddress, keys.viewingKey.slice());
+    this.outgoingViewingKeyCache.set(keys.zAddress, (keys.outgoingViewingKey ?? keys.viewingKey).slice(0, 32));
+    // spendingKey is ask || nsk
+    if (keys.spendingKey.length === 64) {
+      this.spendValidatingKeyCache.set(keys.zAddress, saplingSpendValidatingKey(keys.spendingKey.slice(0, 32)));
+      this.nullifierKeyCache.set(keys.zAddress, saplingNullifierKey(keys.spendingKey.slice(32, 64)));
+    }
     
     // Create reverse mapping (address -> midenAccountId)
     this.addressToAccountId.set(keys.tAddress, midenAccountId);
     this.addressToAccountId.set(keys.zAddress, midenAccountId);
+    if (keys.unifiedAddress) {
+      this.addressToAccountId.set(keys.unifiedAddress, midenAccountId);
+    }
 
 
     return addresses;
@@ -385,6 +625,18 @@ export class ZcashProvider {
       }
     }
     
+    // Orchard notes are only known from scanning
+    if (type === 'orchard') {
+      const { total, spendable } = this.orchardNoteCache.getBalance(finalAddress);
+      return {
+        confirmed: spendable,
+        unconfirmed: total - spendable,
+        total,
+        pending: 0,
+        unit: 'zatoshi'
+      };
+    }
+
     // For shielded addresses: Use note cache first, then RPC as fallback
     if (type === 'shielded') {
       // First, try to get balance from note cache (from discovered notes)
@@ -483,17 +735,181 @@ export class ZcashProvider {
    * 
    * @param params - Transaction parameters
    * @param midenAccountId - Miden account ID
-   * @param midenPrivateKey - Miden account private key
+   * @param accountKey - Miden account private key, or keys unlocked from the key vault
    * @returns Promise resolving to signed transaction
    */
   async buildAndSignTransaction(
     params: TransactionParams,
     midenAccountId: string,
-    midenPrivateKey: Uint8Array
+    accountKey: Uint8Array | ZcashKeys
   ): Promise<SignedTransaction> {
+    const sanitizedParams = this.sanitizeTransactionParams(params);
+    const toAddress = sanitizedParams.to.address;
+    const toType = sanitizedParams.to.type;
+
+    if (this.multisigRedeemScripts.has(sanitizedParams.from.address)) {
+      throw new Error('Multisig addresses need signatures from several key holders: use createPczt');
+    }
+
+    const keys = this.resolveKeys(midenAccountId, accountKey);
+
+    // Determine transaction type
+    const fromType = sanitizedParams.from.type;
+
+    // Log to diagnose unit mismatch issue
+    console.log(`[ZcashProvider] buildAndSignTransaction: sanitizedParams.amount=${sanitizedParams.amount}, type=${typeof sanitizedParams.amount}`);
+
+    // Orchard notes pay Orchard and transparent receivers
+    const supported = fromType === 'orchard'
+      ? toType === 'orchard' || toType === 'transparent'
+      : (fromType === 'transparent' || fromType === 'shielded') && (toType === 'transparent' || toType === 'shielded');
+    if (!supported) {
+      throw new Error(`Unsupported transaction type: ${fromType} to ${toType}`);
+    }
+
+    return this.buildForOutputs(sanitizedParams, keys, this.recipientOutputs(sanitizedParams));
+  }
+
+  /**
+   * Outputs paying the recipient of transaction parameters
+   */
+  private recipientOutputs(params: TransactionParams): RecipientOutputs {
+    return params.to.type === 'transparent'
+      ? { transparent: [{ address: params.to.address, value: params.amount, scriptPubKey: '' }], shielded: [] }
+      : { transparent: [], shielded: [{ address: params.to.address, value: params.amount, memo: params.memo }] };
+  }
+
+  /**
+   * Build an unsigned transaction as a PCZT, without any keys
+   *
+   * Lets a watch-only account build a transaction for a key holder to prove
+   * and sign, e.g. on an air-gapped device. Sapling spends are built with
+   * the account's full viewing key, so accounts imported from an ivk alone
+   * can only create PCZTs for transparent sources.
+   *
+   * @param params - Transaction parameters
+   * @returns Promise resolving to a PCZT ready for proving and signing
+   */
+  async createPczt(params: TransactionParams): Promise<Pczt> {
+    const sanitizedParams = this.sanitizeTransactionParams(params);
+    const { from, to, amount, fee } = sanitizedParams;
+
+    if ((from.type !== 'transparent' && from.type !== 'shielded') ||
+        (to.type !== 'transparent' && to.type !== 'shielded')) {
+      throw new Error(`Unsupported transaction type: ${from.type} to ${to.type}`);
+    }
+
+    if (from.type === 'shielded') {
+      const fvk = this.saplingFullViewingKey(from.address);
+      if (!fvk) {
+        throw new Error(`No full viewing key for ${from.address}: Sapling spends are built with the account's full viewing key`);
+      }
+      const tx = await this.buildUnsignedSaplingSpend(sanitizedParams, fvk, this.recipientOutputs(sanitizedParams));
+      return toPczt(tx, this.network);
+    }
+
+    const account = this.transparentAccountFor(from.address);
+    const changeAddress = sanitizedParams.changeAddress
+      || account?.getNextChangeAddress()
+      || from.address;
+    const sources = account ? account.getAddresses() : from.address;
+
+    let tx: Transaction | UnsignedShieldedTransaction;
+    if (to.type === 'transparent') {
+      const inputs = await this.txBuilder.selectUTXOs(sources, amount, fee, this.utxoCache);
+      tx = await this.txBuilder.buildTransparentTransaction(
+        inputs,
+        [{ address: to.address, value: amount, scriptPubKey: '' }],
+        fee,
+        changeAddress
+      );
+    } else {
+      const transparentInputs = await this.txBuilder.selectUTXOs(
+        sources,
+        amount,
+        fee,
+        this.utxoCache,
+        { transparentOutputs: 1, saplingOutputs: 1 }
+      );
+      const currentHeight = await this.rpcClient.getBlockCount();
+      tx = this.shieldedTxBuilder.buildShieldingTransaction({
+        transparentInputs,
+        shieldedOutput: { address: to.address, value: amount, memo: sanitizedParams.memo },
+        changeAddress,
+        fee,
+        expiryHeight: sanitizedParams.expiryHeight,
+        targetHeight: currentHeight + 1
+      });
+    }
+
+    if (account && tx.transparentOutputs.some(output => output.address === changeAddress)) {
+      account.markUsed(changeAddress);
+    }
+
+    // Cosigners need the redeem script to sign P2SH inputs
+    tx.transparentInputs = tx.transparentInputs.map(input => {
+      const redeemScript = this.multisigRedeemScripts.get(input.address ?? from.address);
+      return redeemScript ? { ...input, redeemScript } : input;
+    });
+
+    return toPczt(tx, this.network);
+  }
+
+  /**
+   * Track a P2SH multisig address of the wallet
+   *
+   * PCZTs spending from the address carry its redeem script, so each
+   * cosigner can add a partial signature with signPczt.
+   *
+   * @param redeemScript - Multisig redeem script, hex or bytes
+   * @returns The P2SH address of the redeem script
+   */
+  addMultisigAddress(redeemScript: Uint8Array | string): string {
+    const script = typeof redeemScript === 'string' ? hexToBytes(redeemScript) : redeemScript;
+
+    // Throws for anything other than an m-of-n redeem script
+    decodeMultisigRedeemScript(script);
+
+    const address = createP2SHAddress(script, this.network);
+    this.multisigRedeemScripts.set(address, bytesToHex(script));
+    return address;
+  }
+
+  /**
+   * Extract a proven and fully signed PCZT into a transaction to broadcast
+   *
+   * @param pczt - PCZT combined from the signatures of every key holder
+   * @returns Promise resolving to signed transaction
+   */
+  async finalizePczt(pczt: Pczt): Promise<SignedTransaction> {
+    if (pczt.network !== this.network) {
+      throw new Error(`PCZT is for ${pczt.network} but wallet is configured for ${this.network}`);
+    }
+
+    const signedTx = await extractPczt(pczt);
+
+    const validation = this.validator.validateTransaction(signedTx.tx);
+    if (!validation.valid) {
+      throw new Error(`Transaction validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    return signedTx;
+  }
+
+  /**
+   * Trim and validate the addresses of transaction parameters
+   *
+   * Unified Address recipients are replaced by their best receiver the
+   * source pool can pay.
+   */
+  private sanitizeTransactionParams(params: TransactionParams): TransactionParams {
     // Input sanitization: trim whitespace from addresses
     const fromAddress = params.from.address.trim();
-    const toAddress = params.to.address.trim();
+
+    // Unified Address recipients are paid through their best supported receiver
+    const recipient = this.resolveUnifiedRecipient(params.to.address.trim(), this.receiversFrom(params.from.type));
+    const toAddress = recipient.address;
+    const toType = recipient.type ?? params.to.type;
     
     // Validate from address
     const fromValidation = validateAddress(fromAddress);
@@ -525,6 +941,8 @@ export class ZcashProvider {
     if (fromValidation.type !== params.from.type) {
       if (params.from.type === 'shielded' && fromValidation.type === 'orchard') {
         // OK: orchard is a shielded address type
+      } else if (params.from.type === 'orchard' && fromValidation.type === 'unified') {
+        // OK: Orchard addresses are Unified Addresses with an Orchard receiver
       } else {
         throw new Error(
           `From address type mismatch: expected ${params.from.type}, got ${fromValidation.type}`
@@ -532,49 +950,125 @@ export class ZcashProvider {
       }
     }
     
-    if (toValidation.type !== params.to.type) {
+    if (toValidation.type !== toType) {
       // Allow orchard addresses for shielded type (orchard is a shielded address type)
-      if (params.to.type === 'shielded' && toValidation.type === 'orchard') {
+      if (toType === 'shielded' && toValidation.type === 'orchard') {
         // OK: orchard is a shielded address type
+      } else if (toType === 'orchard' && toValidation.type === 'unified') {
+        // OK: Orchard receivers are paid through a Unified Address
       } else {
         throw new Error(
-          `To address type mismatch: expected ${params.to.type}, got ${toValidation.type}`
+          `To address type mismatch: expected ${toType}, got ${toValidation.type}`
         );
       }
     }
     
     // Use sanitized addresses
-    const sanitizedParams: TransactionParams = {
+    return {
       ...params,
       from: { ...params.from, address: fromAddress },
-      to: { ...params.to, address: toAddress }
+      to: { ...params.to, address: toAddress, type: toType }
     };
+  }
 
-    const keys = this.keyDerivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
+  /**
+   * Build and sign one transaction paying every output of a payment request
+   *
+   * @param from - Address to pay from
+   * @param request - Parsed payment request or a ZIP-321 zcash: URI
+   * @param midenAccountId - Miden account ID
+   * @param accountKey - Miden account private key, or keys unlocked from the key vault
+   * @param options - Fee, change address and expiry height
+   * @returns Promise resolving to signed transaction
+   */
+  async buildAndSignPaymentRequest(
+    from: AddressInfo,
+    request: PaymentRequest | string,
+    midenAccountId: string,
+    accountKey: Uint8Array | ZcashKeys,
+    options: PaymentRequestOptions = {}
+  ): Promise<SignedTransaction> {
+    const { payments } = typeof request === 'string' ? parsePaymentRequest(request) : request;
+    const fromAddress = from.address.trim();
 
-    // Determine transaction type
-    const fromType = sanitizedParams.from.type;
-    const toType = sanitizedParams.to.type;
+    const fromValidation = validateAddress(fromAddress);
+    if (!fromValidation.valid) {
+      throw new Error(`Invalid from address: ${fromValidation.error || 'format not recognized'}`);
+    }
+    if (!isAddressForNetwork(fromAddress, this.network)) {
+      throw new Error(
+        `From address is for ${fromValidation.network} but wallet is configured for ${this.network}`
+      );
+    }
+    if (from.type !== 'transparent' && from.type !== 'shielded' && from.type !== 'orchard') {
+      throw new Error(`Unsupported source address type: ${from.type}`);
+    }
 
-    // Log to diagnose unit mismatch issue
-    console.log(`[ZcashProvider] buildAndSignTransaction: sanitizedParams.amount=${sanitizedParams.amount}, type=${typeof sanitizedParams.amount}`);
+    const outputs: RecipientOutputs = { transparent: [], shielded: [] };
+    payments.forEach((payment, index) => {
+      if (payment.amount === undefined || payment.amount <= 0) {
+        throw new Error(`Payment ${index} has no amount`);
+      }
+
+      const recipient = this.resolveUnifiedRecipient(payment.address.trim(), this.receiversFrom(from.type));
+      const validation = validateAddress(recipient.address);
+      if (!validation.valid) {
+        throw new Error(`Invalid address in payment ${index}: ${validation.error || 'format not recognized'}`);
+      }
+      if (!isAddressForNetwork(recipient.address, this.network)) {
+        throw new Error(
+          `Payment ${index} address is for ${validation.network} but wallet is configured for ${this.network}`
+        );
+      }
+
+      if ((recipient.type ?? validation.type) === 'transparent') {
+        if (payment.memo) {
+          throw new Error(`Payment ${index} has a memo but pays a transparent receiver`);
+        }
+        outputs.transparent.push({ address: recipient.address, value: payment.amount, scriptPubKey: '' });
+      } else {
+        outputs.shielded.push({ address: recipient.address, value: payment.amount, memo: payment.memo });
+      }
+    });
 
+    const params: SenderParams = {
+      from: { ...from, address: fromAddress },
+      amount: payments.reduce((sum, payment) => sum + (payment.amount ?? 0), 0),
+      fee: options.fee,
+      changeAddress: options.changeAddress,
+      expiryHeight: options.expiryHeight
+    };
+
+    const keys = this.resolveKeys(midenAccountId, accountKey);
+    return this.buildForOutputs(params, keys, outputs);
+  }
+
+  /**
+   * Build, sign and validate a transaction from the sender's pool to the
+   * given recipient outputs
+   */
+  private async buildForOutputs(
+    params: SenderParams,
+    keys: ZcashKeys,
+    outputs: RecipientOutputs
+  ): Promise<SignedTransaction> {
     let signedTx: SignedTransaction;
 
-    if (fromType === 'transparent' && toType === 'transparent') {
+    if (params.from.type === 'orchard') {
+      // Orchard spend (to Orchard and transparent receivers)
+      signedTx = await this.buildOrchardTransaction(params, keys, outputs);
+    } else if (params.from.type === 'transparent' && outputs.shielded.length === 0) {
       // Transparent transaction (t-to-t)
-      signedTx = await this.buildTransparentTransaction(sanitizedParams, keys);
-    } else if (fromType === 'transparent' && toType === 'shielded') {
+      signedTx = await this.buildTransparentTransaction(params, keys, outputs);
+    } else if (params.from.type === 'transparent') {
       // Shielding transaction (t-to-z)
-      signedTx = await this.buildShieldingTransaction(sanitizedParams, keys);
-    } else if (fromType === 'shielded' && toType === 'transparent') {
+      signedTx = await this.buildShieldingTransaction(params, keys, outputs);
+    } else if (outputs.transparent.length > 0) {
       // Deshielding transaction (z-to-t)
-      signedTx = await this.buildDeshieldingTransaction(sanitizedParams, keys);
-    } else if (fromType === 'shielded' && toType === 'shielded') {
-      // Shielded transaction (z-to-z)
-      signedTx = await this.buildShieldedTransaction(sanitizedParams, keys);
+      signedTx = await this.buildDeshieldingTransaction(params, keys, outputs);
     } else {
-      throw new Error(`Unsupported transaction type: ${fromType} to ${toType}`);
+      // Shielded transaction (z-to-z)
+      signedTx = await this.buildShieldedTransaction(params, keys, outputs);
     }
 
     // Validate transaction
@@ -583,6 +1077,11 @@ export class ZcashProvider {
       throw new Error(`Transaction validation failed: ${validation.errors.join(', ')}`);
     }
 
+    const midenAccountId = this.addressToAccountId.get(params.from.address);
+    if (midenAccountId) {
+      this.rememberSend(signedTx, midenAccountId, outputs);
+    }
+
     return signedTx;
   }
 
@@ -601,16 +1100,18 @@ export class ZcashProvider {
    * @param account - DerivedZcashAccount with shielded address and keys
    * @param recipient - Recipient Zcash address (transparent or shielded)
    * @param amount - Amount in zatoshi
-   * @param fee - Transaction fee in zatoshi
+   * @param fee - Transaction fee in zatoshi (defaults to the ZIP-317 conventional fee)
    * @returns Transaction ID (32-byte hash as hex string)
    */
   async sendShieldedTransaction(
     account: any, // DerivedZcashAccount type from midenKeyBridge
     recipient: string,
     amount: bigint,
-    fee: bigint
+    fee?: bigint
   ): Promise<string> {
-    if (!this.rpcConnected) {
+    this.assertCanSpend(account.midenAccountId ?? this.addressToAccountId.get(account.zAddress));
+
+    if (!this.rpcConnected && !this.lightwalletd) {
       throw new Error('RPC not connected. Call initialize() first or check RPC connection.');
     }
 
@@ -627,12 +1128,8 @@ export class ZcashProvider {
       );
     }
 
-    // Runtime check: RPC support for shielded operations
-    if (this.config.lightwalletdUrl) {
-      // Using lightwalletd for shielded operations
-    } else {
-      // Using standard RPC - may not support all shielded operations
-    }
+    // Unified Address recipients are paid through their best supported receiver
+    recipient = this.resolveUnifiedRecipient(recipient).address;
 
     // Validate addresses
     const senderValidation = validateAddress(account.zAddress);
@@ -656,7 +1153,12 @@ export class ZcashProvider {
     }
 
     // Step 1: Select notes from shielded pool
-    const noteSelection = this.noteSelector.selectNotes(account.zAddress, Number(amount));
+    const noteSelection = this.selectNotesWithFee(
+      account.zAddress,
+      Number(amount),
+      fee !== undefined ? Number(fee) : undefined,
+      { saplingOutputs: 1 }
+    );
 
     if (!noteSelection || noteSelection.notes.length === 0) {
       const balance = this.noteCache.getBalance(account.zAddress);
@@ -680,7 +1182,7 @@ export class ZcashProvider {
         );
       } else {
         throw new Error(
-          `Insufficient shielded funds. Need ${amount} zatoshi (${Number(amount) / 100000000} ZEC), ` +
+          `Insufficient shielded funds. Need ${amount} zatoshi (${Number(amount) / 100000000} ZEC) plus fee, ` +
           `available: ${balance.total} zatoshi (${spendableNotes.length} spendable notes)`
         );
       }
@@ -690,20 +1192,21 @@ export class ZcashProvider {
     const anchor = await this.getCommitmentTreeAnchor() || new Uint8Array(32);
 
     // Step 2: Build shielded transaction
-    const expiryHeight = (await this.rpcClient.getBlockCount()) + 20; // Expire in 20 blocks
+    const currentHeight = await this.getChainHeight();
+    const expiryHeight = currentHeight + 20; // Expire in 20 blocks
 
     const unsignedTx = this.shieldedTxBuilder.buildShieldedTransaction({
       spendingKey: {
         ask: account.spendingKey.slice(0, 32),
         nsk: account.spendingKey.slice(32, 64),
-        ovk: account.viewingKey.slice(0, 32)
+        ovk: account.outgoingViewingKey ?? account.viewingKey.slice(0, 32)
       },
       spends: noteSelection.notes.map(note => ({
         note,
         spendingKey: {
           ask: account.spendingKey.slice(0, 32),
           nsk: account.spendingKey.slice(32, 64),
-          ovk: account.viewingKey.slice(0, 32)
+          ovk: account.outgoingViewingKey ?? account.viewingKey.slice(0, 32)
         },
         witness: note.witness!,
         anchor
@@ -714,8 +1217,9 @@ export class ZcashProvider {
         memo: ''
       }],
       anchor,
-      fee: Number(fee),
-      expiryHeight
+      fee: noteSelection.fee,
+      expiryHeight,
+      targetHeight: currentHeight + 1
     });
 
     // Step 3: Generate proofs and sign (via Groth16Integration with Prize-WASM fallback)
@@ -735,120 +1239,282 @@ export class ZcashProvider {
     // The signedTx.rawTx is already hex-encoded
     const serializedTxHex = signedTx.rawTx;
 
-    // Step 5: Broadcast via RPC
+    // Step 5: Broadcast via lightwalletd when configured, otherwise RPC
     let txHash: string;
     try {
-      const broadcastResult = await this.rpcClient.sendRawTransaction(serializedTxHex);
-      txHash = broadcastResult;
+      txHash = this.lightwalletd
+        ? await this.lightwalletd.sendTransaction(serializedTxHex)
+        : await this.rpcClient.sendRawTransaction(serializedTxHex);
     } catch (error) {
       throw new Error(
         `Failed to broadcast transaction: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Check RPC connection and ensure transaction is valid.`
+        `Check ${this.lightwalletd ? 'lightwalletd' : 'RPC'} connection and ensure transaction is valid.`
       );
     }
 
-    // Step 6: Track confirmations (optional, return immediately)
+    // Step 6: Track until mined, releasing the notes if it expires
+    this.trackBroadcast(txHash, serializedTxHex, expiryHeight, {
+      utxos: [],
+      nullifiers: signedTx.nullifiers.map(nullifier => bytesToHex(nullifier))
+    });
+
+    const midenAccountId = account.midenAccountId ?? this.addressToAccountId.get(account.zAddress);
+    if (midenAccountId) {
+      const toOthers = !this.isAccountAddress(midenAccountId, recipient);
+      this.history.recordSent({
+        accountId: midenAccountId,
+        txid: txHash,
+        pools: recipientValidation.type === 'transparent' ? ['sapling', 'transparent'] : ['sapling'],
+        amount: toOthers ? Number(amount) : 0,
+        fee: noteSelection.fee,
+        recipients: toOthers ? [recipient] : []
+      });
+    }
 
     return txHash;
   }
 
+  /**
+   * Resolve a Unified Address to the receiver this provider pays
+   *
+   * The first of the given receivers in ZIP-316 preference order is chosen.
+   * An Orchard receiver has no address of its own, so it is returned as a
+   * Unified Address holding it alone. Other addresses are returned unchanged
+   * with no type override.
+   *
+   * @param receivers - Receivers the source pool can pay
+   */
+  private resolveUnifiedRecipient(
+    address: string,
+    receivers: readonly UnifiedReceiverType[] = SUPPORTED_RECEIVERS
+  ): { address: string; type?: AddressType } {
+    if (!isUnifiedAddress(address)) {
+      return { address };
+    }
+
+    const unified = decodeUnifiedAddress(address);
+    if (unified.network !== this.network) {
+      throw new Error(`To address is for ${unified.network} but wallet is configured for ${this.network}`);
+    }
+
+    const receiver = selectReceiver(unified, receivers);
+    if (receiver.type === 'orchard') {
+      return {
+        address: encodeUnifiedAddress({ network: unified.network, orchard: receiver.data }),
+        type: 'orchard'
+      };
+    }
+    return {
+      address: encodeReceiverAddress(unified.network, receiver),
+      type: receiver.type === 'sapling' ? 'shielded' : 'transparent'
+    };
+  }
+
+  /**
+   * Unified Address receivers a source pool can pay
+   */
+  private receiversFrom(type: AddressType): readonly UnifiedReceiverType[] {
+    return type === 'orchard' ? ORCHARD_SOURCE_RECEIVERS : SUPPORTED_RECEIVERS;
+  }
+
   /**
    * Build transparent transaction
    */
   private async buildTransparentTransaction(
-    params: TransactionParams,
-    keys: ZcashKeys
+    params: SenderParams,
+    keys: ZcashKeys,
+    outputs: RecipientOutputs
   ): Promise<SignedTransaction> {
     // Log to diagnose unit mismatch issue
     console.log(`[ZcashProvider] buildTransparentTransaction: params.amount=${params.amount}, type=${typeof params.amount}, fee=${params.fee}`);
 
+    // Discovered accounts spend from all their addresses and send change
+    // to a fresh internal address
+    const account = this.transparentAccountFor(params.from.address);
+    const changeAddress = params.changeAddress
+      || account?.getNextChangeAddress()
+      || params.from.address;
+
     // Use transaction builder's UTXO selection
     const inputs = await this.txBuilder.selectUTXOs(
-      params.from.address,
+      account ? account.getAddresses() : params.from.address,
       params.amount,
       params.fee,
-      this.utxoCache // Pass UTXO cache for fallback when RPC doesn't support listunspent
+      this.utxoCache, // Pass UTXO cache for fallback when RPC doesn't support listunspent
+      { transparentOutputs: outputs.transparent.length + 1 }
     );
 
-    // Build outputs
-    const outputs: TransparentOutput[] = [
-      {
-        address: params.to.address,
-        value: params.amount,
-        scriptPubKey: '' // Will be generated from address
-      }
-    ];
-
     // Build transaction (builder will calculate fee and change)
     const tx = await this.txBuilder.buildTransparentTransaction(
       inputs,
-      outputs,
-      params.fee
+      outputs.transparent,
+      params.fee,
+      changeAddress
     );
 
     // Sign transaction
-    const signed = this.signer.signTransparentTransaction(
-      tx,
-      keys.transparentPrivateKey,
-      inputs
-    );
+    const signingKeys = this.transparentSigningKeys(inputs, keys, account);
+    let signed: SignedTransaction;
+    try {
+      signed = this.signer.signTransparentTransaction(tx, signingKeys, inputs);
+    } finally {
+      this.wipeTransparentSigningKeys(signingKeys, keys);
+    }
+
+    if (account && tx.transparentOutputs.some(output => output.address === changeAddress)) {
+      account.markUsed(changeAddress);
+    }
 
     return signed;
   }
 
+  /**
+   * Signing key for each transparent input
+   *
+   * Inputs of a discovered account are signed with the key of the address
+   * they spend from, derived here from the account key; anything else with
+   * the account's default key.
+   */
+  private transparentSigningKeys(
+    inputs: TransparentInput[],
+    keys: ZcashKeys,
+    account: TransparentAccount | undefined
+  ): Uint8Array[] {
+    return inputs.map(input => {
+      const path = input.address ? account?.getKeyPath(input.address) : undefined;
+      if (!path || (path.chain === 'external' && path.index === 0)) {
+        return keys.transparentPrivateKey;
+      }
+      if (!keys.transparentAccountKey) {
+        throw new Error(`No transparent account key to sign for ${input.address}`);
+      }
+      return this.keyDerivation.deriveTransparentKeysFromAccountKey(
+        keys.transparentAccountKey, path.chain, path.index, 1
+      )[0].privateKey!;
+    });
+  }
+
+  /**
+   * Zero the keys transparentSigningKeys derived, leaving the caller's keys
+   */
+  private wipeTransparentSigningKeys(signingKeys: Uint8Array[], keys: ZcashKeys): void {
+    for (const key of signingKeys) {
+      if (key !== keys.transparentPrivateKey) {
+        key.fill(0);
+      }
+    }
+  }
+
   /**
    * Build shielding transaction (t-to-z)
    */
   private async buildShieldingTransaction(
-    params: TransactionParams,
-    keys: ZcashKeys
+    params: SenderParams,
+    keys: ZcashKeys,
+    outputs: RecipientOutputs
   ): Promise<SignedTransaction> {
     // Log to diagnose unit mismatch issue
     console.log(`[ZcashProvider] buildShieldingTransaction: params.amount=${params.amount}, type=${typeof params.amount}, fee=${params.fee}`);
 
-    // Get UTXOs using transaction builder (with UTXO cache fallback)
+    const account = this.transparentAccountFor(params.from.address);
+    const changeAddress = params.changeAddress
+      || account?.getNextChangeAddress()
+      || params.from.address;
+
+    // Get UTXOs using transaction builder (with UTXO cache fallback),
+    // covering the fee for the change output and the recipient outputs
     const transparentInputs = await this.txBuilder.selectUTXOs(
-      params.from.address,
+      account ? account.getAddresses() : params.from.address,
       params.amount,
       params.fee,
-      this.utxoCache // Pass UTXO cache for fallback when RPC doesn't support listunspent
+      this.utxoCache, // Pass UTXO cache for fallback when RPC doesn't support listunspent
+      { transparentOutputs: outputs.transparent.length + 1, saplingOutputs: outputs.shielded.length }
     );
 
-    // Build shielding transaction
-    const unsignedTx = this.shieldedTxBuilder.buildShieldingTransaction({
+    return this.signShieldingTransaction(
       transparentInputs,
-      shieldedOutput: {
-        address: params.to.address,
-        value: params.amount,
-        memo: params.memo
-      },
-      changeAddress: params.changeAddress || params.from.address,
-      fee: params.fee,
-      expiryHeight: params.expiryHeight
+      outputs,
+      changeAddress,
+      params.fee,
+      params.expiryHeight,
+      keys,
+      account
+    );
+  }
+
+  /**
+   * Build, prove and sign a shielding transaction from selected inputs
+   *
+   * @param changeAddress - Transparent change address; without one the inputs
+   *                        must cover the outputs and fee exactly
+   */
+  private async signShieldingTransaction(
+    transparentInputs: TransparentInput[],
+    outputs: RecipientOutputs,
+    changeAddress: string | undefined,
+    fee: number | undefined,
+    expiryHeight: number | undefined,
+    keys: ZcashKeys,
+    account: TransparentAccount | undefined
+  ): Promise<SignedTransaction> {
+    // Build shielding transaction
+    const currentHeight = await this.rpcClient.getBlockCount();
+    const unsignedTx = this.shieldedTxBuilder.buildShieldingTransaction({
+      transparentInputs,
+      shieldedOutput: outputs.shielded[0],
+      additionalOutputs: outputs.shielded.slice(1),
+      transparentOutputs: outputs.transparent,
+      changeAddress,
+      fee,
+      expiryHeight,
+      targetHeight: currentHeight + 1
     });
 
+    // Sign shielded components first: the transparent signature hash
+    // commits to the proven Sapling bundle
+    const signedShielded = await this.shieldedSigner.signShieldedTransaction(unsignedTx);
+
     // Sign transparent inputs
-    const signedTransparent = this.signer.signTransparentTransaction(
-      {
-        version: unsignedTx.version,
-        versionGroupId: unsignedTx.versionGroupId,
-        lockTime: unsignedTx.lockTime,
-        expiryHeight: unsignedTx.expiryHeight,
-        transparentInputs: unsignedTx.transparentInputs,
-        transparentOutputs: unsignedTx.transparentOutputs,
-        valueBalance: Number(unsignedTx.shieldedBundle.valueBalance)
-      },
-      keys.transparentPrivateKey,
-      unsignedTx.transparentInputs
-    );
+    const signingKeys = this.transparentSigningKeys(unsignedTx.transparentInputs, keys, account);
+    let signedTransparent: SignedTransaction;
+    try {
+      signedTransparent = this.signer.signTransparentTransaction(
+        {
+          version: unsignedTx.version,
+          versionGroupId: unsignedTx.versionGroupId,
+          consensusBranchId: signedShielded.tx.consensusBranchId,
+          lockTime: unsignedTx.lockTime,
+          expiryHeight: unsignedTx.expiryHeight,
+          transparentInputs: unsignedTx.transparentInputs,
+          transparentOutputs: unsignedTx.transparentOutputs,
+          valueBalance: Number(unsignedTx.shieldedBundle.valueBalance)
+        },
+        signingKeys,
+        unsignedTx.transparentInputs,
+        signedShielded.shieldedBundle
+      );
+    } finally {
+      this.wipeTransparentSigningKeys(signingKeys, keys);
+    }
 
-    // Sign shielded components
-    const signedShielded = await this.shieldedSigner.signShieldedTransaction(unsignedTx);
+    if (account && changeAddress && unsignedTx.transparentOutputs.some(output => output.address === changeAddress)) {
+      account.markUsed(changeAddress);
+    }
 
     // Combine into final transaction
+    const combinedTx = {
+      ...unsignedTx,
+      consensusBranchId: signedShielded.tx.consensusBranchId,
+      transparentInputs: signedTransparent.tx.transparentInputs,
+      shieldedBundle: signedShielded.shieldedBundle
+    };
+    const rawTx = bytesToHex(ShieldedTransactionSerializer.serializeTransaction(combinedTx));
+    const txHash = ShieldedTransactionSerializer.computeTxId(combinedTx);
+
     const finalTx: Transaction = {
       version: unsignedTx.version,
       versionGroupId: unsignedTx.versionGroupId,
+      consensusBranchId: signedShielded.tx.consensusBranchId,
       lockTime: unsignedTx.lockTime,
       expiryHeight: unsignedTx.expiryHeight,
       transparentInputs: signedTransparent.tx.transparentInputs,
@@ -861,8 +1527,8 @@ export class ZcashProvider {
 
     return {
       tx: finalTx,
-      txHash: signedShielded.txHash,
-      rawTx: signedShielded.rawTx,
+      txHash,
+      rawTx,
       proof: {
         proof: new Uint8Array(0),
         publicInputs: []
@@ -874,13 +1540,70 @@ export class ZcashProvider {
    * Build deshielding transaction (z-to-t)
    */
   private async buildDeshieldingTransaction(
-    params: TransactionParams,
-    keys: ZcashKeys
+    params: SenderParams,
+    keys: ZcashKeys,
+    outputs: RecipientOutputs
   ): Promise<SignedTransaction> {
+    const unsignedTx = await this.buildUnsignedSaplingSpend(params, this.saplingSpendingKey(keys), outputs);
+    return this.signSaplingSpend(unsignedTx);
+  }
+
+  /**
+   * Build shielded transaction (z-to-z)
+   */
+  private async buildShieldedTransaction(
+    params: SenderParams,
+    keys: ZcashKeys,
+    outputs: RecipientOutputs
+  ): Promise<SignedTransaction> {
+    const unsignedTx = await this.buildUnsignedSaplingSpend(params, this.saplingSpendingKey(keys), outputs);
+    return this.signSaplingSpend(unsignedTx);
+  }
+
+  /**
+   * Sapling spending key of derived keys (spendingKey is ask || nsk)
+   */
+  private saplingSpendingKey(keys: ZcashKeys): SaplingSpendingKey {
+    return {
+      ask: keys.spendingKey.slice(0, 32),
+      nsk: keys.spendingKey.slice(32, 64),
+      ovk: keys.outgoingViewingKey ?? keys.viewingKey.slice(0, 32)
+    };
+  }
+
+  /**
+   * Sapling full viewing key of a shielded address, if one is known
+   */
+  private saplingFullViewingKey(address: string): SaplingFullViewingKey | null {
+    const ak = this.spendValidatingKeyCache.get(address);
+    const nk = this.nullifierKeyCache.get(address);
+    const ovk = this.outgoingViewingKeyCache.get(address);
+    return ak && nk && ovk ? { ak, nk, ovk } : null;
+  }
+
+  /**
+   * Build an unsigned transaction spending Sapling notes (z-to-t or z-to-z)
+   *
+   * @param key - Spending key, or the full viewing key when building a PCZT
+   */
+  private async buildUnsignedSaplingSpend(
+    params: SenderParams,
+    key: SaplingSpendingKey | SaplingFullViewingKey,
+    outputs: RecipientOutputs
+  ): Promise<UnsignedShieldedTransaction> {
+    const deshielding = outputs.transparent.length > 0;
+
     // Get notes from cache
-    const noteSelection = this.noteSelector.selectNotes(
+    const noteSelection = this.selectNotesWithFee(
       params.from.address,
-      params.amount
+      params.amount,
+      params.fee,
+      deshielding
+        ? {
+            transparentOutputs: outputs.transparent.length,
+            saplingOutputs: outputs.shielded.length + (params.changeAddress ? 1 : 0)
+          }
+        : { saplingOutputs: outputs.shielded.length }
     );
 
     if (!noteSelection) {
@@ -895,55 +1618,64 @@ export class ZcashProvider {
       } else {
         const balance = this.noteCache.getBalance(params.from.address);
         throw new Error(
-          `Insufficient shielded funds. Need ${params.amount} zatoshi, ` +
+          `Insufficient shielded funds. Need ${params.amount} zatoshi plus fee, ` +
           `available: ${balance.total} zatoshi (${spendableNotes.length} spendable notes)`
         );
       }
     }
 
     // Get current anchor from commitment tree state
-    await this.rpcClient.getBlockCount(); // Update block height for validation
+    const currentHeight = await this.rpcClient.getBlockCount();
     const anchor = await this.getCommitmentTreeAnchor() || new Uint8Array(32);
 
-    // Build deshielding transaction
-    const unsignedTx = this.shieldedTxBuilder.buildDeshieldingTransaction({
-      spendingKey: {
-        ask: keys.spendingKey.slice(0, 32),
-        nsk: keys.spendingKey.slice(32, 64),
-        ovk: keys.viewingKey.slice(0, 32)
-      },
-      spends: noteSelection.notes.map(note => ({
-        note,
-        spendingKey: {
-          ask: keys.spendingKey.slice(0, 32),
-          nsk: keys.spendingKey.slice(32, 64),
-          ovk: keys.viewingKey.slice(0, 32)
-        },
-        witness: note.witness!,
-        anchor
-      })),
+    const spends = noteSelection.notes.map(note => ({
+      note,
+      spendingKey: key,
+      witness: note.witness!,
+      anchor
+    }));
+
+    if (deshielding) {
+      return this.shieldedTxBuilder.buildDeshieldingTransaction({
+        spendingKey: key,
+        spends,
+        anchor,
+        transparentOutput: outputs.transparent[0],
+        additionalOutputs: outputs.transparent.slice(1),
+        shieldedOutputs: outputs.shielded,
+        shieldedChange: params.changeAddress ? {
+          address: params.changeAddress,
+          value: 0, // Will be calculated
+          memo: params.memo
+        } : undefined,
+        fee: noteSelection.fee,
+        expiryHeight: params.expiryHeight,
+        targetHeight: currentHeight + 1
+      });
+    }
+
+    return this.shieldedTxBuilder.buildShieldedTransaction({
+      spendingKey: key,
+      spends,
+      outputs: outputs.shielded,
       anchor,
-      transparentOutput: {
-        address: params.to.address,
-        value: params.amount,
-        scriptPubKey: ''
-      },
-      shieldedChange: params.changeAddress ? {
-        address: params.changeAddress,
-        value: 0, // Will be calculated
-        memo: params.memo
-      } : undefined,
-      fee: params.fee,
-      expiryHeight: params.expiryHeight
+      fee: noteSelection.fee,
+      expiryHeight: params.expiryHeight,
+      targetHeight: currentHeight + 1
     });
+  }
 
-    // Sign shielded transaction
+  /**
+   * Prove and sign a transaction built with the spending key
+   */
+  private async signSaplingSpend(unsignedTx: UnsignedShieldedTransaction): Promise<SignedTransaction> {
     const signed = await this.shieldedSigner.signShieldedTransaction(unsignedTx);
 
     return {
       tx: {
         ...signed.tx,
-        transparentOutputs: signed.tx.transparentOutputs || []
+        transparentOutputs: signed.tx.transparentOutputs || [],
+        saplingBundle: signed.shieldedBundle
       },
       txHash: signed.txHash,
       rawTx: signed.rawTx,
@@ -955,82 +1687,159 @@ export class ZcashProvider {
   }
 
   /**
-   * Build shielded transaction (z-to-z)
+   * Build, prove and sign a transaction spending Orchard notes
+   *
+   * Pays Orchard and transparent receivers from a v5 transaction with an
+   * Orchard bundle alone; change returns to the account's Orchard address.
    */
-  private async buildShieldedTransaction(
-    params: TransactionParams,
-    keys: ZcashKeys
+  private async buildOrchardTransaction(
+    params: SenderParams,
+    keys: ZcashKeys,
+    outputs: RecipientOutputs
   ): Promise<SignedTransaction> {
-    // Get notes from cache
-    const noteSelection = this.noteSelector.selectNotes(
+    const backend = this.orchardBackend;
+    if (!backend || !keys.orchardSpendingKey) {
+      throw new Error('Orchard spends need the Orchard backend: set orchardWasmPath or call setOrchardBackend()');
+    }
+
+    const orchardOutputs: OrchardOutputParams[] = outputs.shielded.map(output => ({
+      recipient: this.orchardReceiver(output.address),
+      value: output.value,
+      memo: output.memo
+    }));
+    const transparentOutputs = outputs.transparent.map(output => ({
+      ...output,
+      scriptPubKey: output.scriptPubKey || this.transparentOutputScript(output.address)
+    }));
+
+    const selection = this.selectOrchardNotes(
       params.from.address,
-      params.amount
+      params.amount,
+      params.fee,
+      transparentOutputs,
+      orchardOutputs.length
     );
-
-    if (!noteSelection) {
-      const allNotes = this.noteCache.getNotesForAddress(params.from.address);
-      const spendableNotes = this.noteCache.getSpendableNotes(params.from.address);
-      
-      if (allNotes.length === 0) {
-        throw new Error(
-          `No shielded notes found. Please sync your shielded address first using syncAddress(address, 'shielded'). ` +
-          `This scans the blockchain to discover your notes.`
-        );
-      } else {
-        const balance = this.noteCache.getBalance(params.from.address);
+    if (!selection) {
+      if (this.orchardNoteCache.getNotesForAddress(params.from.address).length === 0) {
         throw new Error(
-          `Insufficient shielded funds. Need ${params.amount} zatoshi, ` +
-          `available: ${balance.total} zatoshi (${spendableNotes.length} spendable notes)`
+          `No Orchard notes found. Please sync your Orchard address first using syncAddress(address, 'orchard').`
         );
       }
+      const { spendable } = this.orchardNoteCache.getBalance(params.from.address);
+      throw new Error(
+        `Insufficient Orchard funds. Need ${params.amount} zatoshi plus fee, available: ${spendable} zatoshi`
+      );
     }
 
-    // Get current anchor from commitment tree state
-    await this.rpcClient.getBlockCount(); // Update block height for validation
-    const anchor = await this.getCommitmentTreeAnchor() || new Uint8Array(32);
+    const change = selection.totalValue - params.amount - selection.fee;
+    if (change > 0) {
+      orchardOutputs.push({
+        recipient: this.orchardReceiver(params.changeAddress || params.from.address),
+        value: change
+      });
+    }
 
-    // Build shielded transaction
-    const unsignedTx = this.shieldedTxBuilder.buildShieldedTransaction({
-      spendingKey: {
-        ask: keys.spendingKey.slice(0, 32),
-        nsk: keys.spendingKey.slice(32, 64),
-        ovk: keys.viewingKey.slice(0, 32)
-      },
-      spends: noteSelection.notes.map(note => ({
-        note,
-        spendingKey: {
-          ask: keys.spendingKey.slice(0, 32),
-          nsk: keys.spendingKey.slice(32, 64),
-          ovk: keys.viewingKey.slice(0, 32)
-        },
-        witness: note.witness!,
-        anchor
-      })),
-      outputs: [{
-        address: params.to.address,
-        value: params.amount,
-        memo: params.memo
-      }],
-      anchor,
-      fee: params.fee,
-      expiryHeight: params.expiryHeight
+    // Every witness must lead to the same tree root
+    const anchor = selection.notes[0].witness!.anchor;
+    if (!anchor || selection.notes.some(note => !note.witness!.anchor || !bytesEqual(note.witness!.anchor, anchor))) {
+      throw new Error(`Orchard witnesses are out of date: sync ${params.from.address.slice(0, 20)}... again`);
+    }
+
+    const currentHeight = await this.getChainHeight();
+    const { version, versionGroupId, consensusBranchId } = getTransactionVersion(this.network, currentHeight + 1);
+    if (version < NU5_TX_VERSION) {
+      throw new Error(`Orchard is not active at height ${currentHeight + 1}`);
+    }
+
+    const builder = new OrchardBundleBuilder(backend, backend);
+    const unauthorized = await builder.build({
+      spendingKey: this.orchardSpendingKey(keys),
+      spends: selection.notes,
+      outputs: orchardOutputs,
+      anchor
     });
 
-    // Sign shielded transaction
-    const signed = await this.shieldedSigner.signShieldedTransaction(unsignedTx);
+    const tx: Transaction = {
+      version,
+      versionGroupId,
+      consensusBranchId,
+      lockTime: 0,
+      expiryHeight: params.expiryHeight ?? currentHeight + 20,
+      transparentInputs: [],
+      transparentOutputs,
+      orchardBundle: unauthorized.bundle
+    };
+    tx.orchardBundle = builder.authorize(unauthorized, computeSignatureHash({ ...tx, versionGroupId, consensusBranchId }));
 
-    return {
-      tx: {
-        ...signed.tx,
-        transparentOutputs: signed.tx.transparentOutputs || []
-      },
-      txHash: signed.txHash,
-      rawTx: signed.rawTx,
-      proof: {
-        proof: new Uint8Array(0),
-        publicInputs: []
+    return this.signer.finalizeTransaction(tx);
+  }
+
+  /**
+   * Select Orchard notes covering an amount plus the ZIP-317 fee
+   *
+   * Largest notes are taken first; the fee counts the actions of the bundle
+   * with a change output. An explicit fee is used as given.
+   */
+  private selectOrchardNotes(
+    address: string,
+    amount: number,
+    fee: number | undefined,
+    transparentOutputs: TransparentOutput[],
+    orchardOutputs: number
+  ): { notes: OrchardNote[]; totalValue: number; fee: number } | null {
+    const candidates = this.orchardNoteCache.getSpendableNotes(address).sort((a, b) => b.value - a.value);
+    const notes: OrchardNote[] = [];
+    let totalValue = 0;
+
+    for (const note of candidates) {
+      notes.push(note);
+      totalValue += note.value;
+
+      const required = fee ?? computeConventionalFee({
+        transparentOutputBytes: getTransparentOutputsSize(transparentOutputs),
+        orchardActions: OrchardBundleBuilder.actionCount(notes.length, orchardOutputs + 1)
+      });
+      if (totalValue >= amount + required) {
+        return { notes, totalValue, fee: required };
       }
-    };
+    }
+    return null;
+  }
+
+  /**
+   * Orchard receiver of a Unified Address (diversifier || pk_d)
+   */
+  private orchardReceiver(address: string): Uint8Array {
+    const receiver = isUnifiedAddress(address) ? decodeUnifiedAddress(address).orchard : undefined;
+    if (!receiver) {
+      throw new Error(`Orchard notes can only pay Orchard and transparent receivers: ${address.slice(0, 20)}...`);
+    }
+    return receiver;
+  }
+
+  /**
+   * scriptPubKey paying a transparent address, hex
+   */
+  private transparentOutputScript(address: string): string {
+    const hash = extractPubKeyHash(address);
+    if (!hash) {
+      throw new Error(`Invalid transparent address: ${address}`);
+    }
+    // t2/t3 addresses are P2SH, t1/tm addresses P2PKH
+    return bytesToHex(/^t[23]/.test(address) ? createP2SHScript(hash) : createP2PKHScript(hash));
+  }
+
+  /**
+   * Orchard spending key of derived keys
+   *
+   * Only sk is used for spending, so the derived key stands in as a
+   * master key.
+   */
+  private orchardSpendingKey(keys: ZcashKeys): OrchardExtendedSpendingKey {
+    if (!keys.orchardSpendingKey) {
+      throw new Error('Keys have no Orchard spending key');
+    }
+    return new OrchardExtendedSpendingKey(0, 0, new Uint8Array(32), keys.orchardSpendingKey);
   }
 
   /**
@@ -1049,6 +1858,22 @@ export class ZcashProvider {
     // Invalidate balance cache for involved addresses
     this.invalidateBalanceCache(tx.tx);
 
+    const sent = this.unbroadcastSends.get(tx.txHash);
+    if (sent) {
+      this.unbroadcastSends.delete(tx.txHash);
+      this.history.recordSent({ ...sent, txid: txHash });
+    }
+
+    this.trackBroadcast(txHash, rawTx, tx.tx.expiryHeight, {
+      utxos: tx.tx.transparentInputs.flatMap(input =>
+        input.address ? [{ address: input.address, txid: input.txHash, vout: input.index }] : []
+      ),
+      nullifiers: [
+        ...(tx.tx.saplingBundle?.spends ?? []),
+        ...(tx.tx.orchardBundle?.actions ?? [])
+      ].map(spend => bytesToHex(spend.nullifier))
+    });
+
     return {
       hash: txHash,
       confirmations: 0
@@ -1087,8 +1912,15 @@ export class ZcashProvider {
     }
     
     const finalAddress = sanitized;
+
+    // Orchard notes are scanned alongside the account's Sapling notes
+    if (type === 'orchard') {
+      return this.syncOrchardAddress(finalAddress);
+    }
     
-    if (!this.rpcConnected) {
+    // Shielded sync can run from lightwalletd alone
+    const canSync = this.rpcConnected || (type === 'shielded' && this.lightwalletd !== null);
+    if (!canSync) {
       // Return cached or zero balance if RPC is not available
       const balance = await this.getBalance(finalAddress, type);
       return {
@@ -1101,7 +1933,11 @@ export class ZcashProvider {
     }
 
     // Full sync for all address types
-    const blockCount = await this.rpcClient.getBlockCount();
+    const blockCount = await this.getChainHeight();
+
+    // Rebroadcast or expire the transactions still waiting to be mined
+    await this.tracker.pollAllTransactions();
+    this.tracker.cleanupOldTransactions();
 
     if (type === 'transparent') {
       // Sync transparent address - try to get UTXOs
@@ -1218,7 +2054,7 @@ export class ZcashProvider {
       };
     } else if (type === 'shielded') {
       // Sync shielded address - scan for notes from blockchain
-      if (!this.rpcConnected) {
+      if (!this.rpcConnected && !this.lightwalletd) {
         // If RPC not connected, return cached notes only
         const balance = await this.getBalance(finalAddress, 'shielded');
         const cachedNotes = this.noteCache.getNotesForAddress(finalAddress);
@@ -1255,36 +2091,49 @@ export class ZcashProvider {
         }
       }
 
-      // Initialize note scanner and synchronizer if not already done
-      if (!this.noteScanner) {
-        this.noteScanner = new NoteScanner(
+      // Each address scans with its own viewing key
+      let stateSynchronizer = this.shieldedSynchronizers.get(finalAddress);
+      if (!stateSynchronizer) {
+        const outgoingViewingKey = this.outgoingViewingKeyCache.get(finalAddress);
+        const noteScanner = new NoteScanner(
           { ivk: viewingKey },
           this.noteCache,
           {
             batchSize: 100,
-            scanOutgoing: true
+            // Watch-only accounts imported from an ivk have no ovk
+            scanOutgoing: outgoingViewingKey !== undefined,
+            ovk: outgoingViewingKey,
+            // Watch-only accounts imported from an ivk cannot see their notes spent
+            nk: this.nullifierKeyCache.get(finalAddress),
+            // Notes sent to any of the account's diversified addresses count toward it
+            accountAddress: finalAddress
           }
         );
-      }
 
-      if (!this.stateSynchronizer) {
-        this.stateSynchronizer = new ShieldedStateSynchronizer(
-          this.noteScanner,
-          this.noteCache
-        );
+        stateSynchronizer = new ShieldedStateSynchronizer(noteScanner, this.noteCache);
+        this.attachOrchardScanner(finalAddress, stateSynchronizer);
         // ZcashRPCClient implements RPCClientInterface methods needed for note scanning
-        this.stateSynchronizer.setRpcClient(this.rpcClient as any);
+        stateSynchronizer.setRpcClient(this.rpcClient as any);
+        if (this.lightwalletd) {
+          stateSynchronizer.setLightwalletdClient(this.lightwalletd);
+        }
+        this.shieldedSynchronizers.set(finalAddress, stateSynchronizer);
       }
 
+      // A wallet with a birthday starts from the tree state below it
+      stateSynchronizer.setBirthdayHeight(this.birthdayHeights.get(finalAddress) ?? 0);
+
       // Perform full note sync
       const lastSyncedHeight = this.noteCache.getSyncedHeight(finalAddress);
-      const syncResult = await this.stateSynchronizer.sync(
+      const syncResult = await stateSynchronizer.sync(
         finalAddress,
         undefined, // Use RPC client
         lastSyncedHeight > 0 ? lastSyncedHeight + 1 : undefined,
         blockCount
       );
 
+      this.recordShieldedHistory(finalAddress);
+
       // Update balance after sync
       const balance = await this.getBalance(finalAddress, 'shielded');
 
@@ -1300,6 +2149,798 @@ export class ZcashProvider {
     }
   }
 
+  /**
+   * Sync the Orchard address of an account
+   *
+   * Orchard actions are scanned by the synchronizer of the account's
+   * Sapling address, so this syncs that address.
+   */
+  private async syncOrchardAddress(address: string): Promise<SyncResult> {
+    const midenAccountId = this.addressToAccountId.get(address);
+    const zAddress = midenAccountId ? this.addressCache.get(midenAccountId)?.zAddress : undefined;
+    if (!zAddress || !this.orchardViewingKeyCache.has(address)) {
+      throw new Error(
+        `Address ${address.slice(0, 20)}... not found in cache.\n\n` +
+        `Please set the Orchard backend and call getAddresses() first to register the Orchard address.`
+      );
+    }
+
+    const notesBefore = this.orchardNoteCache.getNotesForAddress(address).length;
+    const { blockHeight } = await this.syncAddress(zAddress, 'shielded');
+
+    return {
+      address,
+      newTransactions: this.orchardNoteCache.getNotesForAddress(address).length - notesBefore,
+      updatedBalance: await this.getBalance(address, 'orchard'),
+      lastSynced: Date.now(),
+      blockHeight
+    };
+  }
+
+  /**
+   * Scan the Orchard actions of blocks with the synchronizer of a Sapling address
+   *
+   * Only accounts that got an Orchard address from getAddresses() are scanned.
+   */
+  private attachOrchardScanner(zAddress: string, synchronizer: ShieldedStateSynchronizer): void {
+    const midenAccountId = this.addressToAccountId.get(zAddress);
+    const orchardAddress = midenAccountId ? this.addressCache.get(midenAccountId)?.orchardAddress : undefined;
+    const fvk = orchardAddress ? this.orchardViewingKeyCache.get(orchardAddress) : undefined;
+    if (!this.orchardBackend || !orchardAddress || !fvk) {
+      return;
+    }
+
+    const scanner = new OrchardNoteScanner(fvk, this.orchardBackend, this.orchardNoteCache, this.network, orchardAddress);
+    synchronizer.setOrchardScanner(scanner, this.orchardNoteCache, this.orchardBackend);
+  }
+
+  /**
+   * Discover the used transparent addresses of an account
+   *
+   * Scans the BIP44 external and change chains up to the gap limit, fills
+   * the UTXO cache for every address found, and makes later transparent
+   * sends spend from all of them.
+   *
+   * @param midenAccountId - Miden account ID
+   * @param accountKey - Miden account private key, or keys unlocked from the key vault
+   * @param gapLimit - Consecutive unused addresses that end the scan (default: 20)
+   */
+  async discoverTransparentAddresses(
+    midenAccountId: string,
+    accountKey: Uint8Array | ZcashKeys,
+    gapLimit?: number
+  ): Promise<TransparentDiscoveryResult> {
+    if (!this.rpcConnected) {
+      throw new Error('RPC not connected. Call initialize() first or check RPC connection.');
+    }
+
+    const account = this.getTransparentAccount(midenAccountId, accountKey, gapLimit);
+    const result = await account.discover(await this.rpcClient.getBlockCount());
+    this.registerTransparentAddresses(midenAccountId, account);
+    return result;
+  }
+
+  /**
+   * Get a fresh receiving t-address for an account
+   *
+   * Each call returns the next unused address on the BIP44 external chain,
+   * within the gap limit so discovery still finds it.
+   *
+   * @param accountKey - Miden account private key, or keys unlocked from the key vault
+   */
+  getNextTransparentAddress(midenAccountId: string, accountKey: Uint8Array | ZcashKeys): string {
+    const account = this.getTransparentAccount(midenAccountId, accountKey);
+    const address = account.getNextReceiveAddress();
+    this.registerTransparentAddresses(midenAccountId, account);
+    return address;
+  }
+
+  /**
+   * Register an account imported from viewing keys
+   *
+   * Its shielded address syncs with the incoming viewing key (sees its
+   * notes spent when a nullifier deriving key is given, and recovers sent
+   * notes when an outgoing viewing key is given); an xpub makes its
+   * transparent addresses discoverable with discoverWatchOnlyAddresses().
+   * Balances and history work as for derived accounts, but every attempt
+   * to spend from the account is rejected.
+   *
+   * @param options.birthdayHeight - First block that can contain the account's notes
+   * @param options.gapLimit - Consecutive unused transparent addresses that end discovery
+   */
+  registerWatchOnlyAccount(
+    accountId: string,
+    keys: WatchOnlyKeys,
+    options: { birthdayHeight?: number; gapLimit?: number } = {}
+  ): void {
+    if (this.addressCache.has(accountId) ||
+        (this.transparentAccounts.has(accountId) && !this.watchOnlyAccounts.has(accountId))) {
+      throw new Error(`Account ${accountId} has spending keys and cannot be registered as watch-only`);
+    }
+    this.watchOnlyAccounts.add(accountId);
+
+    if (keys.viewingKey && keys.zAddress) {
+      this.viewingKeyCache.set(keys.zAddress, keys.viewingKey.slice());
+      if (keys.outgoingViewingKey) {
+        this.outgoingViewingKeyCache.set(keys.zAddress, keys.outgoingViewingKey.slice());
+      }
+      if (keys.nullifierKey) {
+        this.nullifierKeyCache.set(keys.zAddress, keys.nullifierKey.slice());
+      }
+      if (keys.spendValidatingKey) {
+        this.spendValidatingKeyCache.set(keys.zAddress, keys.spendValidatingKey.slice());
+      }
+      this.addressToAccountId.set(keys.zAddress, accountId);
+      if (options.birthdayHeight !== undefined) {
+        this.setBirthdayHeight(keys.zAddress, options.birthdayHeight);
+      }
+    }
+
+    if (keys.extendedPublicKey) {
+      const xpub = keys.extendedPublicKey;
+      const account = new TransparentAccount(
+        accountId,
+        (chain, startIndex, count) => this.keyDerivation.deriveTransparentKeysFromXpub(xpub, chain, startIndex, count),
+        (addresses) => this.fetchTransparentUTXOs(addresses),
+        this.utxoCache,
+        options.gapLimit !== undefined ? { gapLimit: options.gapLimit } : undefined
+      );
+      this.transparentAccounts.set(accountId, account);
+      this.registerTransparentAddresses(accountId, account);
+    }
+  }
+
+  /**
+   * Forget a watch-only account and its cached sync state
+   */
+  unregisterWatchOnlyAccount(accountId: string): void {
+    if (!this.watchOnlyAccounts.delete(accountId)) {
+      return;
+    }
+    for (const [address, id] of Array.from(this.addressToAccountId)) {
+      if (id === accountId) {
+        this.addressToAccountId.delete(address);
+        this.viewingKeyCache.delete(address);
+        this.outgoingViewingKeyCache.delete(address);
+        this.nullifierKeyCache.delete(address);
+        this.spendValidatingKeyCache.delete(address);
+        this.shieldedSynchronizers.delete(address);
+        this.birthdayHeights.delete(address);
+        this.balanceCache.delete(address);
+      }
+    }
+    this.transparentAccounts.delete(accountId);
+    this.utxoCache.setAccountAddresses(accountId, []);
+  }
+
+  /**
+   * Check whether an account was imported from viewing keys
+   */
+  isWatchOnlyAccount(accountId: string): boolean {
+    return this.watchOnlyAccounts.has(accountId);
+  }
+
+  /**
+   * Discover the used transparent addresses of a watch-only account
+   *
+   * Scans the BIP44 chains derived from the account's xpub up to the gap
+   * limit and fills the UTXO cache for every address found.
+   */
+  async discoverWatchOnlyAddresses(accountId: string): Promise<TransparentDiscoveryResult> {
+    if (!this.rpcConnected) {
+      throw new Error('RPC not connected. Call initialize() first or check RPC connection.');
+    }
+
+    const account = this.watchOnlyAccounts.has(accountId) ? this.transparentAccounts.get(accountId) : undefined;
+    if (!account) {
+      throw new Error(`Watch-only account ${accountId} has no extended public key`);
+    }
+    const result = await account.discover(await this.rpcClient.getBlockCount());
+    this.registerTransparentAddresses(accountId, account);
+    return result;
+  }
+
+  /**
+   * Get the transparent balance across all discovered addresses of an account
+   */
+  getTransparentAccountBalance(midenAccountId: string): Balance {
+    const { confirmed, unconfirmed, total } = this.utxoCache.getAccountBalance(midenAccountId);
+    return { confirmed, unconfirmed, total, pending: 0, unit: 'zatoshi' };
+  }
+
+  /**
+   * Get the cached UTXOs of an account
+   *
+   * Covers every discovered t-address of the account, or only its default
+   * t-address before discovery.
+   */
+  getTransparentUTXOs(midenAccountId: string): UTXOEntry[] {
+    if (this.utxoCache.getAccountAddresses(midenAccountId).length > 0) {
+      return this.utxoCache.getAccountUTXOs(midenAccountId);
+    }
+    const tAddress = this.addressCache.get(midenAccountId)?.tAddress;
+    return tAddress ? this.utxoCache.getUTXOs(tAddress) : [];
+  }
+
+  /**
+   * Listen for changes to the cached UTXOs of any known account
+   *
+   * @returns Function that removes the listener
+   */
+  onTransparentUTXOsChanged(listener: (midenAccountId: string) => void): () => void {
+    return this.utxoCache.onUpdate((address) => {
+      const midenAccountId = this.addressToAccountId.get(address);
+      if (midenAccountId) {
+        listener(midenAccountId);
+      }
+    });
+  }
+
+  /**
+   * Lock UTXOs spent by a broadcast transaction so they are not selected again
+   */
+  lockTransparentUTXOs(utxos: UTXOEntry[], txid: string): void {
+    const byAddress = new Map<string, UTXOEntry[]>();
+    for (const utxo of utxos) {
+      byAddress.set(utxo.address, [...(byAddress.get(utxo.address) ?? []), utxo]);
+    }
+    for (const [address, addressUtxos] of byAddress) {
+      this.utxoCache.lockUTXOs(address, addressUtxos, txid);
+    }
+  }
+
+  /**
+   * Build and sign a transaction shielding exactly the given UTXOs
+   *
+   * Everything but the fee goes to one Sapling output; there is no change.
+   *
+   * @param utxos - UTXOs of the account to spend
+   * @param toAddress - Sapling address to shield to
+   * @param midenAccountId - Miden account ID
+   * @param accountKey - Miden account private key, or keys unlocked from the key vault
+   * @param options - Fee (defaults to the ZIP-317 conventional fee), memo and expiry height
+   */
+  async buildAndSignShieldingTransaction(
+    utxos: UTXOEntry[],
+    toAddress: string,
+    midenAccountId: string,
+    accountKey: Uint8Array | ZcashKeys,
+    options: { fee?: number; memo?: string; expiryHeight?: number } = {}
+  ): Promise<SignedTransaction> {
+    if (utxos.length === 0) {
+      throw new Error('No UTXOs to shield');
+    }
+    const validation = validateAddress(toAddress);
+    if (!validation.valid || validation.type !== 'shielded') {
+      throw new Error(`Invalid shielding address: ${validation.error || 'not a Sapling address'}`);
+    }
+    if (!isAddressForNetwork(toAddress, this.network)) {
+      throw new Error(`Shielding address is for ${validation.network} but wallet is configured for ${this.network}`);
+    }
+
+    const fee = options.fee ?? computeConventionalFee({ transparentInputs: utxos.length, saplingOutputs: 1 });
+    const total = utxos.reduce((sum, utxo) => sum + utxo.amount, 0);
+    if (total <= fee) {
+      throw new Error(`UTXOs worth ${total} zatoshi do not cover the ${fee} zatoshi fee`);
+    }
+
+    const inputs: TransparentInput[] = utxos.map(utxo => ({
+      txHash: utxo.txid,
+      index: utxo.vout,
+      scriptPubKey: utxo.scriptPubKey,
+      value: utxo.amount,
+      sequence: 0xFFFFFFFF,
+      address: utxo.address
+    }));
+
+    const keys = this.resolveKeys(midenAccountId, accountKey);
+    const signedTx = await this.signShieldingTransaction(
+      inputs,
+      { transparent: [], shielded: [{ address: toAddress, value: total - fee, memo: options.memo }] },
+      undefined,
+      fee,
+      options.expiryHeight,
+      keys,
+      this.transparentAccounts.get(midenAccountId)
+    );
+
+    const txValidation = this.validator.validateTransaction(signedTx.tx);
+    if (!txValidation.valid) {
+      throw new Error(`Transaction validation failed: ${txValidation.errors.join(', ')}`);
+    }
+    this.rememberSend(signedTx, midenAccountId, {
+      transparent: [],
+      shielded: [{ address: toAddress, value: total - fee, memo: options.memo }]
+    });
+    return signedTx;
+  }
+
+  /**
+   * Get or create the transparent account of a Miden account
+   *
+   * The account derives its addresses from the BIP44 account xpub, so no
+   * private key is kept; signing derives the keys it needs per transaction.
+   */
+  private getTransparentAccount(
+    midenAccountId: string,
+    accountKey: Uint8Array | ZcashKeys,
+    gapLimit?: number
+  ): TransparentAccount {
+    this.assertCanSpend(midenAccountId);
+    let account = this.transparentAccounts.get(midenAccountId);
+    if (!account) {
+      const xpub = this.transparentAccountXpub(midenAccountId, accountKey);
+      account = new TransparentAccount(
+        midenAccountId,
+        (chain, startIndex, count) => this.keyDerivation.deriveTransparentKeysFromXpub(xpub, chain, startIndex, count),
+        (addresses) => this.fetchTransparentUTXOs(addresses),
+        this.utxoCache,
+        gapLimit !== undefined ? { gapLimit } : undefined
+      );
+      this.transparentAccounts.set(midenAccountId, account);
+    }
+    return account;
+  }
+
+  /**
+   * BIP44 account xpub of a Miden account, from its private key or its
+   * unlocked vault keys
+   */
+  private transparentAccountXpub(midenAccountId: string, accountKey: Uint8Array | ZcashKeys): string {
+    if (accountKey instanceof Uint8Array) {
+      return this.keyDerivation.deriveTransparentAccountXpub(midenAccountId, accountKey, 0);
+    }
+    if (!accountKey.transparentAccountKey) {
+      throw new Error(`Keys of account ${midenAccountId} have no transparent account key`);
+    }
+    return this.keyDerivation.transparentAccountXpub(accountKey.transparentAccountKey);
+  }
+
+  /**
+   * Map every derived t-address of an account back to the Miden account
+   */
+  private registerTransparentAddresses(midenAccountId: string, account: TransparentAccount): void {
+    for (const address of account.getAddresses()) {
+      this.addressToAccountId.set(address, midenAccountId);
+    }
+  }
+
+  /**
+   * Transparent account that a from address belongs to, if discovered
+   */
+  private transparentAccountFor(address: string): TransparentAccount | undefined {
+    const midenAccountId = this.addressToAccountId.get(address);
+    const account = midenAccountId ? this.transparentAccounts.get(midenAccountId) : undefined;
+    return account?.isOwnAddress(address) ? account : undefined;
+  }
+
+  /**
+   * Fetch UTXOs for a batch of addresses
+   *
+   * Prefers the address index (getaddressutxos), which needs no imported
+   * addresses, and falls back to the node wallet (listunspent).
+   */
+  private async fetchTransparentUTXOs(addresses: string[]): Promise<UTXO[]> {
+    try {
+      return await this.rpcClient.getAddressUtxos(addresses);
+    } catch (error: any) {
+      const errorMsg = error?.message || String(error || '');
+      if (!errorMsg.includes('not found') && !errorMsg.includes('Method not found')) {
+        throw error;
+      }
+    }
+    return this.rpcClient.listUnspent(1, 9999999, addresses);
+  }
+
+  /**
+   * Get shielded notes sent from this wallet, newest first
+   *
+   * Sent notes are recovered with the outgoing viewing key while syncing,
+   * and carry the recipient address, value and memo.
+   */
+  getSentNotes(): ScannedNote[] {
+    return this.noteCache.getSentNotes();
+  }
+
+  /**
+   * Get shielded notes received at an address, newest first
+   *
+   * Notes decrypted from full ciphertexts carry their 512-byte memo field.
+   */
+  getReceivedNotes(address: string): SaplingNote[] {
+    return this.noteCache.getNotesForAddress(address)
+      .sort((a, b) => (b.blockHeight ?? 0) - (a.blockHeight ?? 0));
+  }
+
+  /**
+   * Get the memo conversations of a shielded address, most recently active first
+   *
+   * Text memos of received and sent notes are threaded by their reply-to
+   * address; reply to a conversation with buildAndSignMessage.
+   */
+  getConversations(address?: string): Conversation[] {
+    return this.memoInbox.getConversations(address);
+  }
+
+  /**
+   * Mark memo messages, or a whole conversation, as read
+   */
+  markMessagesRead(ids: string[] | Conversation): void {
+    this.memoInbox.markRead(ids);
+  }
+
+  /**
+   * Build and sign a memo message: a minimum-value shielded note whose
+   * memo carries the text and, by default, our address to reply to
+   *
+   * @param from - Shielded address sending the message
+   * @param to - Recipient address, e.g. the counterparty of a conversation
+   * @param text - Message text
+   * @param midenAccountId - Miden account ID
+   * @param accountKey - Miden account private key, or keys unlocked from the key vault
+   * @param options - Fee and whether to add the reply-to address
+   * @returns Promise resolving to signed transaction
+   */
+  async buildAndSignMessage(
+    from: string,
+    to: string,
+    text: string,
+    midenAccountId: string,
+    accountKey: Uint8Array | ZcashKeys,
+    options: MessageOptions = {}
+  ): Promise<SignedTransaction> {
+    const recipient = this.resolveUnifiedRecipient(to.trim());
+    if ((recipient.type ?? validateAddress(recipient.address).type) === 'transparent') {
+      throw new Error('Messages can only be sent to shielded addresses');
+    }
+    const memo = formatMessageMemo(text, options.includeReplyTo === false ? undefined : from.trim());
+
+    return this.buildAndSignTransaction(
+      {
+        from: { address: from, type: 'shielded' },
+        to: { address: recipient.address, type: 'shielded' },
+        amount: MESSAGE_NOTE_VALUE,
+        fee: options.fee,
+        memo
+      },
+      midenAccountId,
+      accountKey
+    );
+  }
+
+  /**
+   * Query the transaction history, newest first
+   *
+   * Covers transactions broadcast by this provider and everything seen
+   * while syncing: received notes and UTXOs, spent notes, and notes sent
+   * to others (recovered with the outgoing viewing key).
+   */
+  getTransactionHistory(query: HistoryQuery = {}): HistoryPage {
+    return this.history.query(query);
+  }
+
+  /**
+   * Zcash keys of an account: derived from its Miden private key, or as
+   * given when already derived
+   */
+  private resolveKeys(midenAccountId: string, accountKey: Uint8Array | ZcashKeys): ZcashKeys {
+    this.assertCanSpend(midenAccountId);
+    return accountKey instanceof Uint8Array
+      ? this.keyDerivation.deriveKeys(midenAccountId, accountKey, 0)
+      : accountKey;
+  }
+
+  /**
+   * Reject spending from a watch-only account
+   */
+  private assertCanSpend(accountId: string | undefined): void {
+    if (accountId !== undefined && this.watchOnlyAccounts.has(accountId)) {
+      throw new Error(`Account ${accountId} is watch-only and cannot spend`);
+    }
+  }
+
+  /**
+   * Track a broadcast transaction and hold back the funds it spends
+   */
+  private trackBroadcast(
+    txid: string,
+    rawTx: string,
+    expiryHeight: number,
+    reservations: TransactionReservations
+  ): void {
+    this.tracker.trackTransaction(txid, { rawTx, expiryHeight, reservations });
+    this.applyReservations();
+  }
+
+  /**
+   * Hold back the funds of pending tracked transactions from coin selection
+   *
+   * UTXO locks and note reservations live in memory, so they are restored
+   * from the tracker after a reload and whenever UTXOs are re-synced.
+   *
+   * @param address - Only lock the UTXOs of this address
+   */
+  private applyReservations(address?: string): void {
+    for (const { txid, reservations } of this.tracker.getActiveReservations()) {
+      if (!address) {
+        this.noteCache.reserveNotes(reservations.nullifiers, txid);
+        this.orchardNoteCache.reserveNotes(reservations.nullifiers, txid);
+      }
+
+      const unlocked = reservations.utxos
+        .filter(utxo => !address || utxo.address === address)
+        .flatMap(utxo => this.utxoCache.getUTXOs(utxo.address).filter(entry =>
+          !entry.locked && entry.txid === utxo.txid && entry.vout === utxo.vout
+        ));
+      if (unlocked.length > 0) {
+        this.lockTransparentUTXOs(unlocked, txid);
+      }
+    }
+  }
+
+  /**
+   * Follow tracked transactions into the history, and release the funds
+   * of expired ones
+   */
+  private handleTrackerEvent(event: TrackerEvent): void {
+    const { txid } = event.tracked;
+    if (event.type === 'confirmed') {
+      this.history.updateStatus(txid, 'confirmed', event.tracked.blockHeight, event.tracked.blockTime);
+      return;
+    }
+    if (event.type !== 'expired') {
+      return;
+    }
+
+    this.noteCache.releaseNotes(txid);
+    this.orchardNoteCache.releaseNotes(txid);
+    for (const nullifier of event.released?.nullifiers ?? []) {
+      const note = this.noteCache.getNoteByNullifier(hexToBytes(nullifier));
+      if (note) {
+        this.balanceCache.delete(note.address);
+      }
+    }
+    for (const address of new Set(event.released?.utxos.map(utxo => utxo.address))) {
+      this.utxoCache.unlockUTXOs(address, txid);
+      this.balanceCache.delete(address);
+    }
+    this.history.updateStatus(txid, 'expired');
+  }
+
+  /**
+   * RPC access for the tracker, looking up and broadcasting transactions
+   * through lightwalletd when configured
+   */
+  private createTrackerRpcClient(): TrackerRpcClient {
+    return {
+      getTransaction: async (txid) => {
+        if (!this.lightwalletd) {
+          return this.rpcClient.getTransaction(txid);
+        }
+        const info = await this.getLightwalletdTransactionInfo(this.lightwalletd, txid);
+        if (!info) {
+          throw new Error(`Transaction ${txid} not found by lightwalletd`);
+        }
+        return info;
+      },
+      getMempoolTransaction: (txid) => this.lightwalletd
+        ? this.getLightwalletdTransactionInfo(this.lightwalletd, txid)
+        : this.rpcClient.getRawTransaction(txid, true).catch(error => {
+            // Only a node that answered can say the transaction is missing
+            if (error instanceof ZcashRPCError && error.code === RPC_NO_SUCH_TRANSACTION) {
+              return null;
+            }
+            throw error;
+          }),
+      getBlock: (hash) => this.rpcClient.getBlock(hash, 1),
+      getBlockchainInfo: async () => ({ blocks: await this.getChainHeight() }),
+      sendRawTransaction: (hexTx) => this.lightwalletd
+        ? this.lightwalletd.sendTransaction(hexTx)
+        : this.rpcClient.sendRawTransaction(hexTx),
+      verifyTransactionInBlock: async (txid, blockHash) => {
+        const block = await this.rpcClient.getBlock(blockHash, 1);
+        return Array.isArray(block?.tx) && block.tx.includes(txid);
+      }
+    };
+  }
+
+  /**
+   * Confirmations of a transaction from its lightwalletd height, or null
+   * when lightwalletd does not know it
+   */
+  private async getLightwalletdTransactionInfo(
+    lightwalletd: LightwalletdClient,
+    txid: string
+  ): Promise<TrackerTransactionInfo | null> {
+    const tx = await lightwalletd.getTransaction(txid);
+    if (!tx) {
+      return null;
+    }
+    const tip = (await lightwalletd.getLatestBlock()).height;
+    // Height 0 is the mempool; a height past the tip is a block off the main chain
+    if (tx.height === 0 || tx.height > tip) {
+      return { confirmations: 0 };
+    }
+    return { confirmations: tip - tx.height + 1, height: tx.height };
+  }
+
+  /**
+   * Remember what a signed transaction pays, for the history once broadcast
+   */
+  private rememberSend(signedTx: SignedTransaction, midenAccountId: string, outputs: RecipientOutputs): void {
+    const { tx } = signedTx;
+    const recipients = [...outputs.transparent, ...outputs.shielded]
+      .filter(output => !this.isAccountAddress(midenAccountId, output.address));
+
+    const pools: HistoryPool[] = [];
+    if (tx.transparentInputs.length > 0 || tx.transparentOutputs.length > 0) {
+      pools.push('transparent');
+    }
+    if (tx.saplingBundle || tx.valueBalance !== undefined || (outputs.shielded.length > 0 && !tx.orchardBundle)) {
+      pools.push('sapling');
+    }
+    if (tx.orchardBundle) {
+      pools.push('orchard');
+    }
+
+    // Whatever the transparent side and the shielded value balances do not pay out is the fee
+    const fee = tx.transparentInputs.reduce((sum, input) => sum + input.value, 0) -
+      tx.transparentOutputs.reduce((sum, output) => sum + output.value, 0) +
+      (tx.valueBalance ?? 0) +
+      Number(tx.orchardBundle?.valueBalance ?? 0n);
+
+    this.unbroadcastSends.set(signedTx.txHash, {
+      accountId: midenAccountId,
+      pools,
+      amount: recipients.reduce((sum, output) => sum + output.value, 0),
+      fee,
+      recipients: recipients.map(output => output.address),
+      memos: outputs.shielded.flatMap(output => {
+        const memo = typeof output.memo === 'string' ? output.memo : memoToText(output.memo);
+        return memo ? [memo] : [];
+      }),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Check whether an address belongs to an account
+   */
+  private isAccountAddress(midenAccountId: string, address: string): boolean {
+    return this.addressToAccountId.get(address) === midenAccountId ||
+      this.transparentAccounts.get(midenAccountId)?.isOwnAddress(address) === true;
+  }
+
+  /**
+   * Add the cached UTXOs of an address to the history
+   *
+   * Locked UTXOs are spends of the transaction that locked them. UTXO
+   * queries carry no block times, so a mined UTXO is recorded once the
+   * time of its block has been looked up.
+   */
+  private recordTransparentHistory(address: string): void {
+    const midenAccountId = this.addressToAccountId.get(address);
+    if (!midenAccountId) {
+      return;
+    }
+    const undated: number[] = [];
+    for (const utxo of this.utxoCache.getUTXOs(address)) {
+      const outpoint = `${utxo.txid}:${utxo.vout}`;
+      const blockHeight = utxo.confirmations > 0 ? utxo.blockHeight : undefined;
+      const blockTime = blockHeight !== undefined ? this.blockTimes.get(blockHeight) : undefined;
+      if (blockHeight !== undefined && blockTime === undefined) {
+        undated.push(blockHeight);
+      } else {
+        this.history.recordReceived(
+          midenAccountId,
+          utxo.txid,
+          'transparent',
+          outpoint,
+          utxo.amount,
+          blockHeight,
+          undefined,
+          blockTime
+        );
+      }
+      if (utxo.lockedBy) {
+        this.history.recordSpent(midenAccountId, utxo.lockedBy, 'transparent', outpoint, utxo.amount);
+      }
+    }
+
+    if (undated.length > 0) {
+      void this.lookupBlockTimes(undated).then(found => {
+        if (found) {
+          this.recordTransparentHistory(address);
+        }
+      });
+    }
+  }
+
+  /**
+   * Look up the times of blocks, through lightwalletd when configured
+   *
+   * A failed lookup is retried with the next UTXO update of the address.
+   *
+   * @returns Whether a block time was found
+   */
+  private async lookupBlockTimes(heights: number[]): Promise<boolean> {
+    let found = false;
+    for (const height of new Set(heights)) {
+      if (this.blockTimes.has(height) || this.blockTimeLookups.has(height)) {
+        continue;
+      }
+      this.blockTimeLookups.add(height);
+      try {
+        const time = this.lightwalletd
+          ? (await this.lightwalletd.getBlockRange(height, height))[0]?.time
+          : (await this.rpcClient.getBlock(await this.rpcClient.getBlockHash(height), 1))?.time;
+        if (typeof time === 'number') {
+          this.blockTimes.set(height, time);
+          found = true;
+        }
+      } catch (error) {
+        console.warn(`[ZcashProvider] Failed to look up the time of block ${height}: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        this.blockTimeLookups.delete(height);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Add the scanned notes of a shielded address to the history
+   */
+  private recordShieldedHistory(address: string): void {
+    const midenAccountId = this.addressToAccountId.get(address);
+    if (!midenAccountId) {
+      return;
+    }
+
+    for (const note of this.noteCache.getNotesForAddress(address)) {
+      if (!note.txid) {
+        continue;
+      }
+      this.history.recordReceived(
+        midenAccountId,
+        note.txid,
+        'sapling',
+        `sapling:${bytesToHex(note.cmu)}`,
+        note.value,
+        note.blockHeight,
+        memoToText(note.memo),
+        note.blockTime
+      );
+      if (note.spent && note.spentTxid) {
+        this.history.recordSpent(
+          midenAccountId,
+          note.spentTxid,
+          'sapling',
+          `sapling-nf:${bytesToHex(note.nullifier)}`,
+          note.value,
+          this.noteCache.getSpentHeight(note.nullifier),
+          this.noteCache.getSpentTime(note.nullifier)
+        );
+      }
+    }
+
+    for (const { note } of this.noteCache.getSentNotes(address)) {
+      if (!note.txid) {
+        continue;
+      }
+      this.history.recordSentOutput(
+        midenAccountId,
+        note.txid,
+        'sapling',
+        `sapling:${bytesToHex(note.cmu)}`,
+        note.address,
+        note.value,
+        note.blockHeight,
+        memoToText(note.memo),
+        note.blockTime
+      );
+    }
+  }
+
   /**
    * Get transaction by hash
    */
@@ -1394,6 +3035,41 @@ export class ZcashProvider {
     return this.config.rpcEndpoint;
   }
 
+  /**
+   * Select notes covering an amount plus the ZIP-317 fee
+   *
+   * The conventional fee grows with the number of spends, so selection is
+   * repeated until the selected notes also cover the fee for their count.
+   * An explicit fee is used as given.
+   */
+  private selectNotesWithFee(
+    address: string,
+    amount: number,
+    fee: number | undefined,
+    actions: FeeActionCounts
+  ): { notes: SaplingNote[]; totalValue: number; fee: number } | null {
+    let required = fee ?? computeConventionalFee({ ...actions, saplingSpends: 1 });
+
+    for (;;) {
+      const selection = this.noteSelector.selectNotes(address, amount + required);
+      if (!selection) {
+        return null;
+      }
+      if (fee !== undefined) {
+        return { ...selection, fee };
+      }
+
+      const selectedFee = computeConventionalFee({
+        ...actions,
+        saplingSpends: selection.notes.length
+      });
+      if (selectedFee <= required) {
+        return { ...selection, fee: selectedFee };
+      }
+      required = selectedFee;
+    }
+  }
+
   /**
    * Invalidate balance cache for addresses in transaction
    */
@@ -1414,7 +3090,11 @@ export class ZcashProvider {
     this.addressCache.clear();
     this.balanceCache.clear();
     this.utxoCache.clear();
+    // Read markers are not cached chain data; keep them for the rescanned notes
+    const readMemos = this.noteCache.getReadMemos();
     this.noteCache.clear();
+    this.noteCache.markMemosRead(readMemos);
+    this.applyReservations();
   }
 
   /**
@@ -1430,6 +3110,36 @@ export class ZcashProvider {
     }
   }
 
+  /**
+   * Set the birthday height of a shielded address
+   *
+   * Sync of an address that has not synced yet starts from the commitment
+   * tree state just below this height instead of from genesis.
+   */
+  setBirthdayHeight(address: string, height: number): void {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error(`Invalid birthday height: ${height}`);
+    }
+    this.birthdayHeights.set(address.trim(), height);
+  }
+
+  /**
+   * Get the birthday height of a shielded address, if known
+   */
+  getBirthdayHeight(address: string): number | undefined {
+    return this.birthdayHeights.get(address.trim());
+  }
+
+  /**
+   * Get the chain tip height from lightwalletd when configured, otherwise RPC
+   */
+  private async getChainHeight(): Promise<number> {
+    if (this.lightwalletd) {
+      return (await this.lightwalletd.getLatestBlock()).height;
+    }
+    return this.rpcClient.getBlockCount();
+  }
+
   /**
    * Get network
    */
@@ -1533,24 +3243,48 @@ export class ZcashProvider {
    * @param address - Shielded address (z-address)
    * @param viewingKey - Incoming viewing key (ivk) to cache
    * @param midenAccountId - Miden account ID for reverse mapping
+   * @param outgoingViewingKey - Outgoing viewing key (ovk) for recovering sent notes
    */
-  cacheViewingKey(address: string, viewingKey: Uint8Array, midenAccountId: string): void {
+  cacheViewingKey(
+    address: string,
+    viewingKey: Uint8Array,
+    midenAccountId: string,
+    outgoingViewingKey?: Uint8Array
+  ): void {
     if (!address || !viewingKey || viewingKey.length === 0) {
       console.warn('[ZcashProvider] cacheViewingKey: Invalid parameters');
       return;
     }
     
     this.viewingKeyCache.set(address, viewingKey);
+    this.outgoingViewingKeyCache.set(address, outgoingViewingKey ?? viewingKey.slice(0, 32));
     this.addressToAccountId.set(address, midenAccountId);
     console.log(`[ZcashProvider] cacheViewingKey: Cached viewing key for ${address.substring(0, 20)}...`);
   }
 
   /**
    * Shutdown and cleanup
+   *
+   * @throws If the history, tracker or read markers could not be written
    */
   async shutdown(): Promise<void> {
     await this.prover.dispose();
+    for (const account of this.transparentAccounts.values()) {
+      account.wipe();
+    }
+    this.transparentAccounts.clear();
+    this.unbroadcastSends.clear();
+    // Every store gets written before a failed write is reported
+    const flushed = await Promise.allSettled([
+      this.history.flush(),
+      this.tracker.flush(),
+      this.memoInbox.flush()
+    ]);
     this.clearCache();
+    const failed = flushed.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
   }
 }
 
@@ -6,7 +6,9 @@
 export { ZcashProvider } from './ZcashProvider';
 export type {
   SyncResult,
-  TxHash
+  TxHash,
+  PaymentRequestOptions,
+  MessageOptions
 } from './ZcashProvider';
 
 
@@ -577,6 +577,29 @@ export class ZcashRPCClient {
     return converted;
   }
 
+  /**
+   * Get UTXOs of addresses from the address index (getaddressutxos)
+   *
+   * Needs a node with -insightexplorer or -lightwalletd, but no imported
+   * addresses. Amounts are returned in zatoshi.
+   *
+   * @param currentHeight - Chain height for confirmation counts (fetched if omitted)
+   */
+  async getAddressUtxos(addresses: string[], currentHeight?: number): Promise<UTXO[]> {
+    const result = await this.sendRequest('getaddressutxos', [{ addresses }]);
+    const height = currentHeight ?? await this.getBlockCount();
+
+    return result.map((utxo: any) => ({
+      txid: utxo.txid,
+      vout: utxo.outputIndex,
+      address: utxo.address,
+      scriptPubKey: utxo.script,
+      amount: utxo.satoshis,
+      confirmations: height - utxo.height + 1,
+      spendable: true
+    }));
+  }
+
   /**
    * Get received by address
    */
@@ -627,11 +650,27 @@ export class ZcashRPCClient {
     root: Uint8Array;
     height: number;
     size?: number;
+    hash?: string;
+    /** Serialized Sapling commitment tree (hex), when the node returns it */
+    finalState?: string;
+    /** Serialized Orchard commitment tree (hex), when the node returns it */
+    orchardFinalState?: string;
   } | null> {
     try {
       // Try Lightwalletd z_gettreestate first
       try {
-        const result = await this.sendRequest('z_gettreestate', blockHeight ? [blockHeight] : []);
+        const result = await this.sendRequest('z_gettreestate', blockHeight ? [String(blockHeight)] : []);
+        // zcashd reports the Sapling tree under sapling.commitments
+        const commitments = result?.sapling?.commitments;
+        if (commitments && (commitments.finalRoot || commitments.finalState)) {
+          return {
+            root: commitments.finalRoot ? hexToBytes(commitments.finalRoot) : new Uint8Array(32),
+            height: result.height ?? blockHeight ?? 0,
+            hash: result.hash,
+            finalState: commitments.finalState,
+            orchardFinalState: result?.orchard?.commitments?.finalState
+          };
+        }
         if (result && result.trees && result.trees.sapling) {
           const rootHex = result.trees.sapling.root;
           return {
@@ -0,0 +1,677 @@
+/**
+ * Commitment Tree
+ * Frontier-based Sapling note commitment tree that only keeps what the
+ * wallet needs
+ *
+ * Instead of every leaf, the tree stores:
+ * - the frontier: the left ("ommer") subtree roots on the path to the next
+ *   free position, which is enough to append and compute the root
+ * - marked leaves: our own notes, each with the siblings of its auth path
+ *   that are complete so far
+ * - checkpoints: frontier snapshots at recent block heights, for rollback
+ *
+ * Memory and serialized size grow with the number of marked notes and
+ * checkpoints, not with the number of commitments on chain. Nodes are
+ * combined with MerkleCRH^Sapling by default, so roots are valid Sapling
+ * anchors; Orchard trees pass a hasher for MerkleCRH^Orchard instead.
+ */
+
+import type { MerkleWitness } from './types.js';
+import { saplingMerkleHash, saplingEmptyRoots } from './saplingMerkleHash.js';
+import { hexToBytes } from '../utils/bytes';
+
+/**
+ * Default number of checkpoints kept for rollback
+ */
+export const MAX_CHECKPOINTS = 100;
+
+/** Version 1 trees hashed nodes with BLAKE2s and are not valid Sapling trees */
+const FORMAT_VERSION = 2;
+const NODE_SIZE = 32;
+
+/**
+ * Node hash of a commitment tree
+ */
+export interface TreeHasher {
+  /** Hash two nodes at a level (the height of the children) together */
+  hash(level: number, left: Uint8Array, right: Uint8Array): Uint8Array;
+
+  /** Roots of empty subtrees, from the empty leaf up to the given depth */
+  emptyRoots(depth: number): Uint8Array[];
+}
+
+/**
+ * MerkleCRH^Sapling
+ */
+export const SAPLING_TREE_HASHER: TreeHasher = {
+  hash: saplingMerkleHash,
+  emptyRoots: saplingEmptyRoots
+};
+
+/**
+ * Auth path siblings of a marked leaf
+ * Left siblings are known when the leaf is appended; right siblings are
+ * filled in as the subtrees next to the leaf are completed.
+ */
+interface MarkedLeaf {
+  leaf: Uint8Array;
+  siblings: (Uint8Array | null)[];
+}
+
+/**
+ * Frontier snapshot taken at a block height
+ */
+interface TreeCheckpoint {
+  id: number;
+  size: number;
+  ommers: (Uint8Array | null)[];
+}
+
+/**
+ * Frontier-plus-marked-leaves Merkle tree
+ */
+export class CommitmentTree {
+  private depth: number;
+  private maxCheckpoints: number;
+  private hasher: TreeHasher;
+  private treeSize: number = 0;
+  private ommers: (Uint8Array | null)[];
+  private marked: Map<number, MarkedLeaf> = new Map();
+  private checkpoints: TreeCheckpoint[] = [];
+  private emptyNodes: Uint8Array[];
+  private cachedRoot: Uint8Array | null = null;
+
+  constructor(
+    depth: number = 32,
+    maxCheckpoints: number = MAX_CHECKPOINTS,
+    hasher: TreeHasher = SAPLING_TREE_HASHER
+  ) {
+    if (depth < 1 || depth > 32) {
+      throw new Error(`Unsupported commitment tree depth: ${depth}`);
+    }
+    this.depth = depth;
+    this.maxCheckpoints = maxCheckpoints;
+    this.hasher = hasher;
+    this.ommers = new Array(depth).fill(null);
+    this.emptyNodes = hasher.emptyRoots(depth);
+  }
+
+  /**
+   * Append a leaf to the tree
+   *
+   * @param leaf - Note commitment
+   * @param mark - Keep a witness for this leaf (set for our own notes)
+   * @returns Position of the leaf
+   */
+  append(leaf: Uint8Array, mark: boolean = false): number {
+    const position = this.treeSize;
+    if (position >= 2 ** this.depth) {
+      throw new Error('Commitment tree is full');
+    }
+
+    if (mark) {
+      // Left siblings are the current ommers; right siblings are still empty
+      const siblings: (Uint8Array | null)[] = new Array(this.depth).fill(null);
+      for (let level = 0; level < this.depth; level++) {
+        if ((position >>> level) & 1) {
+          siblings[level] = this.ommers[level];
+        }
+      }
+      this.marked.set(position, { leaf, siblings });
+    }
+
+    // Carry the completed subtree up until it becomes a left child
+    let node = leaf;
+    for (let level = 0; level < this.depth; level++) {
+      const index = Math.floor(position / 2 ** level);
+      this.fillSibling(level, index, node);
+      if (index % 2 === 0) {
+        this.ommers[level] = node;
+        break;
+      }
+      node = this.hashPair(level, this.ommers[level]!, node);
+    }
+
+    this.treeSize++;
+    this.cachedRoot = null;
+    return position;
+  }
+
+  /**
+   * Stop keeping a witness for a leaf (for example once its note is spent)
+   */
+  unmark(position: number): boolean {
+    return this.marked.delete(position);
+  }
+
+  /**
+   * Check whether a witness is kept for a leaf
+   */
+  isMarked(position: number): boolean {
+    return this.marked.has(position);
+  }
+
+  /**
+   * Get the positions of all marked leaves
+   */
+  getMarkedPositions(): number[] {
+    return [...this.marked.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * Get root of the tree
+   */
+  root(): Uint8Array {
+    if (this.cachedRoot === null) {
+      this.cachedRoot = this.partialRoots()[this.depth];
+    }
+    return this.cachedRoot;
+  }
+
+  /**
+   * Get witness for a marked leaf against the current root
+   *
+   * @returns null if the leaf is not marked
+   */
+  witness(position: number): MerkleWitness | null {
+    const marked = this.marked.get(position);
+    if (!marked) {
+      return null;
+    }
+
+    const partial = this.partialRoots();
+    const authPath: Uint8Array[] = [];
+    for (let level = 0; level < this.depth; level++) {
+      const known = marked.siblings[level];
+      if (known) {
+        authPath.push(known);
+        continue;
+      }
+      // An incomplete right sibling is either the subtree that holds the
+      // next free position, or still entirely empty
+      const siblingIndex = Math.floor(position / 2 ** level) + 1;
+      const frontierIndex = Math.floor(this.treeSize / 2 ** level);
+      authPath.push(siblingIndex === frontierIndex ? partial[level] : this.emptyNodes[level]);
+    }
+
+    return {
+      authPath,
+      position: BigInt(position),
+      anchor: partial[this.depth]
+    };
+  }
+
+  /**
+   * Verify a merkle witness
+   * Computes the root from the leaf and auth path, compares to anchor
+   */
+  verifyWitness(leaf: Uint8Array, witness: MerkleWitness): boolean {
+    let computed = leaf;
+    for (let level = 0; level < witness.authPath.length; level++) {
+      const isRight = (witness.position >> BigInt(level)) & 1n;
+      computed = isRight
+        ? this.hashPair(level, witness.authPath[level], computed)
+        : this.hashPair(level, computed, witness.authPath[level]);
+    }
+    return witness.anchor !== undefined && this.bytesEqual(computed, witness.anchor);
+  }
+
+  /**
+   * Record a checkpoint for the current state
+   * Only the newest checkpoints are kept.
+   *
+   * @param id - Checkpoint identifier, normally the block height
+   */
+  checkpoint(id: number): void {
+    const last = this.checkpoints[this.checkpoints.length - 1];
+    if (last && id <= last.id) {
+      throw new Error(`Checkpoint ${id} is not after the latest checkpoint ${last.id}`);
+    }
+    this.checkpoints.push({ id, size: this.treeSize, ommers: [...this.ommers] });
+    if (this.checkpoints.length > this.maxCheckpoints) {
+      this.checkpoints.splice(0, this.checkpoints.length - this.maxCheckpoints);
+    }
+  }
+
+  /**
+   * Roll the tree back to a checkpoint
+   * Leaves appended after the checkpoint are removed, along with their marks
+   * and any later checkpoints.
+   */
+  rewind(id: number): void {
+    const index = this.checkpoints.findIndex(checkpoint => checkpoint.id === id);
+    if (index === -1) {
+      throw new Error(`No commitment tree checkpoint at ${id}`);
+    }
+
+    const checkpoint = this.checkpoints[index];
+    this.checkpoints.length = index + 1;
+    this.treeSize = checkpoint.size;
+    this.ommers = [...checkpoint.ommers];
+    this.cachedRoot = null;
+
+    for (const [position, marked] of this.marked) {
+      if (position >= checkpoint.size) {
+        this.marked.delete(position);
+        continue;
+      }
+      // Forget right siblings that were only completed after the checkpoint
+      for (let level = 0; level < this.depth; level++) {
+        const nodeIndex = Math.floor(position / 2 ** level);
+        if (nodeIndex % 2 === 0 && (nodeIndex + 2) * 2 ** level > checkpoint.size) {
+          marked.siblings[level] = null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get checkpoint identifiers, oldest first
+   */
+  getCheckpoints(): number[] {
+    return this.checkpoints.map(checkpoint => checkpoint.id);
+  }
+
+  /**
+   * Get tree size
+   */
+  size(): number {
+    return this.treeSize;
+  }
+
+  /**
+   * Get tree depth
+   */
+  getDepth(): number {
+    return this.depth;
+  }
+
+  /**
+   * Serialize the tree
+   *
+   * Layout (little-endian): version u8, depth u8, size u64, ommers;
+   * marked count u32, then per leaf position u64, leaf, sibling bitmap,
+   * siblings; checkpoint count u32, then per checkpoint id u32, size u64,
+   * changed-ommer bitmap, ommers. Ommers are only written for the levels set
+   * in the size, and checkpoint ommers only where they differ from the
+   * previous checkpoint.
+   */
+  serialize(): Uint8Array {
+    const writer = new ByteWriter();
+    writer.u8(FORMAT_VERSION);
+    writer.u8(this.depth);
+    writer.u64(this.treeSize);
+    this.writeOmmers(writer, this.treeSize, this.ommers);
+
+    writer.u32(this.marked.size);
+    for (const position of this.getMarkedPositions()) {
+      const marked = this.marked.get(position)!;
+      writer.u64(position);
+      writer.bytes(marked.leaf);
+      writer.u32(marked.siblings.reduce((bits, sibling, level) => (sibling ? bits | (1 << level) : bits), 0) >>> 0);
+      for (const sibling of marked.siblings) {
+        if (sibling) {
+          writer.bytes(sibling);
+        }
+      }
+    }
+
+    writer.u32(this.checkpoints.length);
+    let previous: (Uint8Array | null)[] = new Array(this.depth).fill(null);
+    for (const checkpoint of this.checkpoints) {
+      writer.u32(checkpoint.id);
+      writer.u64(checkpoint.size);
+      const changed = this.usedLevels(checkpoint.size).filter(level => {
+        const before = previous[level];
+        return !before || !this.bytesEqual(before, checkpoint.ommers[level]!);
+      });
+      writer.u32(changed.reduce((bits, level) => bits | (1 << level), 0) >>> 0);
+      for (const level of changed) {
+        writer.bytes(checkpoint.ommers[level]!);
+      }
+      previous = checkpoint.ommers;
+    }
+
+    return writer.finish();
+  }
+
+  /**
+   * Restore a tree from serialize() output
+   *
+   * @param hasher - Node hash the tree was built with
+   */
+  static deserialize(
+    data: Uint8Array,
+    maxCheckpoints: number = MAX_CHECKPOINTS,
+    hasher: TreeHasher = SAPLING_TREE_HASHER
+  ): CommitmentTree {
+    const reader = new ByteReader(data);
+    const version = reader.u8();
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported commitment tree format version: ${version}`);
+    }
+
+    const tree = new CommitmentTree(reader.u8(), maxCheckpoints, hasher);
+    tree.treeSize = reader.u64();
+    tree.ommers = tree.readOmmers(reader, tree.treeSize);
+
+    const markedCount = reader.u32();
+    for (let i = 0; i < markedCount; i++) {
+      const position = reader.u64();
+      const leaf = reader.bytes(NODE_SIZE);
+      const bitmap = reader.u32();
+      const siblings: (Uint8Array | null)[] = [];
+      for (let level = 0; level < tree.depth; level++) {
+        siblings.push((bitmap >>> level) & 1 ? reader.bytes(NODE_SIZE) : null);
+      }
+      tree.marked.set(position, { leaf, siblings });
+    }
+
+    const checkpointCount = reader.u32();
+    let previous: (Uint8Array | null)[] = new Array(tree.depth).fill(null);
+    for (let i = 0; i < checkpointCount; i++) {
+      const id = reader.u32();
+      const size = reader.u64();
+      const changed = reader.u32();
+      const ommers: (Uint8Array | null)[] = new Array(tree.depth).fill(null);
+      for (const level of tree.usedLevels(size)) {
+        const ommer = (changed >>> level) & 1 ? reader.bytes(NODE_SIZE) : previous[level];
+        if (!ommer) {
+          throw new Error(`Checkpoint ${id} is missing the ommer at level ${level}`);
+        }
+        ommers[level] = ommer;
+      }
+      tree.checkpoints.push({ id, size, ommers });
+      previous = ommers;
+    }
+
+    if (!reader.done()) {
+      throw new Error('Unexpected trailing data in serialized commitment tree');
+    }
+    return tree;
+  }
+
+  /**
+   * Start a tree from a commitment tree snapshot
+   *
+   * Takes the serialized tree returned by z_gettreestate (finalState) or
+   * lightwalletd GetTreeState (saplingTree or orchardTree): optional left and right leaves,
+   * then a CompactSize count of optional parent nodes, one per level from 1.
+   * The result has the snapshot's frontier but no leaves to witness, so it is
+   * meant for wallets whose notes all come after the snapshot.
+   */
+  static fromTreeState(
+    state: Uint8Array | string,
+    depth: number = 32,
+    maxCheckpoints: number = MAX_CHECKPOINTS,
+    hasher: TreeHasher = SAPLING_TREE_HASHER
+  ): CommitmentTree {
+    const tree = new CommitmentTree(depth, maxCheckpoints, hasher);
+    if (state.length === 0) {
+      return tree;
+    }
+    const data = typeof state === 'string' ? hexToBytes(state) : state;
+
+    const reader = new ByteReader(data);
+    const left = reader.optional();
+    const right = reader.optional();
+    if (right && !left) {
+      throw new Error('Invalid commitment tree state: right leaf without left leaf');
+    }
+    const parents: (Uint8Array | null)[] = [];
+    const parentCount = reader.compactSize();
+    for (let i = 0; i < parentCount; i++) {
+      parents.push(reader.optional());
+    }
+    if (!reader.done()) {
+      throw new Error('Unexpected trailing data in commitment tree state');
+    }
+    if (parentCount >= depth) {
+      throw new Error(`Commitment tree state is deeper than ${depth} levels`);
+    }
+
+    // The leaf pair is not yet folded into the parents; carry it up like an append would
+    let carry: Uint8Array | null = null;
+    let carryLevel = 0;
+    if (right) {
+      carry = tree.hashPair(0, left!, right);
+      carryLevel = 1;
+    } else if (left) {
+      tree.ommers[0] = left;
+    }
+
+    let size = (left ? 1 : 0) + (right ? 1 : 0);
+    for (let i = 0; i < parents.length; i++) {
+      const level = i + 1;
+      const parent = parents[i];
+      if (parent) {
+        size += 2 ** level;
+      }
+      if (carry && carryLevel === level) {
+        if (parent) {
+          carry = tree.hashPair(level, parent, carry);
+          carryLevel++;
+        } else {
+          tree.ommers[level] = carry;
+          carry = null;
+        }
+      } else if (parent) {
+        tree.ommers[level] = parent;
+      }
+    }
+    if (carry) {
+      if (carryLevel >= depth) {
+        throw new Error(`Commitment tree state is deeper than ${depth} levels`);
+      }
+      tree.ommers[carryLevel] = carry;
+    }
+
+    tree.treeSize = size;
+    return tree;
+  }
+
+  /**
+   * Roots of the subtrees on the path to the next free position
+   * partial[level] is the root at that level of the subtree holding the next
+   * position, with unfilled leaves empty; partial[depth] is the tree root.
+   */
+  private partialRoots(): Uint8Array[] {
+    const partial: Uint8Array[] = [this.emptyNodes[0]];
+    let node = this.emptyNodes[0];
+    for (let level = 0; level < this.depth; level++) {
+      node = Math.floor(this.treeSize / 2 ** level) % 2 === 1
+        ? this.hashPair(level, this.ommers[level]!, node)
+        : this.hashPair(level, node, this.emptyNodes[level]);
+      partial.push(node);
+    }
+    return partial;
+  }
+
+  /**
+   * Fill in a completed right sibling for marked leaves
+   */
+  private fillSibling(level: number, index: number, node: Uint8Array): void {
+    if (index % 2 === 0) {
+      return;
+    }
+    for (const [position, marked] of this.marked) {
+      if (Math.floor(position / 2 ** level) === index - 1) {
+        marked.siblings[level] = node;
+      }
+    }
+  }
+
+  /**
+   * Levels whose ommer is in use for a tree size (the bits set in the size)
+   */
+  private usedLevels(size: number): number[] {
+    const levels: number[] = [];
+    for (let level = 0; level < this.depth; level++) {
+      if (Math.floor(size / 2 ** level) % 2 === 1) {
+        levels.push(level);
+      }
+    }
+    return levels;
+  }
+
+  /**
+   * Write the ommers that are in use for a tree size
+   */
+  private writeOmmers(writer: ByteWriter, size: number, ommers: (Uint8Array | null)[]): void {
+    for (const level of this.usedLevels(size)) {
+      writer.bytes(ommers[level]!);
+    }
+  }
+
+  /**
+   * Read the ommers that are in use for a tree size
+   */
+  private readOmmers(reader: ByteReader, size: number): (Uint8Array | null)[] {
+    const ommers: (Uint8Array | null)[] = new Array(this.depth).fill(null);
+    for (const level of this.usedLevels(size)) {
+      ommers[level] = reader.bytes(NODE_SIZE);
+    }
+    return ommers;
+  }
+
+  /**
+   * Hash two nodes at a level (the height of the children) together
+   */
+  private hashPair(level: number, left: Uint8Array, right: Uint8Array): Uint8Array {
+    return this.hasher.hash(level, left, right);
+  }
+
+  /**
+   * Compare two byte arrays for equality
+   */
+  private bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Growable little-endian byte writer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  u64(value: number): void {
+    this.reserve(8);
+    this.view.setBigUint64(this.offset, BigInt(value), true);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    if (value.length !== NODE_SIZE) {
+      throw new Error(`Invalid tree node length: ${value.length}`);
+    }
+    this.reserve(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  private reserve(length: number): void {
+    if (this.offset + length <= this.buffer.length) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.offset + length));
+    grown.set(this.buffer);
+    this.buffer = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+/**
+ * Little-endian byte reader with bounds checks
+ */
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8(): number {
+    this.require(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  u32(): number {
+    this.require(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): number {
+    this.require(8);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return Number(value);
+  }
+
+  optional(): Uint8Array | null {
+    const present = this.u8();
+    if (present > 1) {
+      throw new Error(`Invalid optional node flag: ${present}`);
+    }
+    return present ? this.bytes(NODE_SIZE) : null;
+  }
+
+  compactSize(): number {
+    const first = this.u8();
+    if (first < 0xfd) {
+      return first;
+    }
+    if (first === 0xfd) {
+      this.require(2);
+      const value = this.view.getUint16(this.offset, true);
+      this.offset += 2;
+      return value;
+    }
+    if (first === 0xfe) {
+      return this.u32();
+    }
+    return this.u64();
+  }
+
+  bytes(length: number): Uint8Array {
+    this.require(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  private require(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Serialized commitment tree is truncated');
+    }
+  }
+}
@@ -86,7 +86,8 @@ export class DelegatedProver {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          spending_key: Array.from(inputs.ask),
+          // Proof generation key only; ask never leaves the signer
+          ak: Array.from(inputs.ak),
           nsk: Array.from(inputs.nsk),
           value: inputs.value.toString(),
           rcv: Array.from(inputs.rcv),
@@ -8,7 +8,8 @@ import { SnarkjsProver } from './snarkjsProver.js';
 import { LibrustzcashProver } from './librustzcashProver.js';
 import { DelegatedProver } from './delegatedProver.js';
 import { computePedersenValueCommitment, computeNoteCommitment } from './noteCommitment.js';
-import { addScalars } from './scalarArithmetic.js';
+import { saplingRandomizedKey } from './zip32.js';
+import { concatBytes } from '../utils/bytes';
 import {
   validateSpendProofInputs,
   validateOutputProofInputs,
@@ -258,7 +259,6 @@ export class Groth16Integration {
     }
 
     const cv = this.computeValueCommitment(inputs.value, inputs.rcv);
-    const rk = this.computeRandomizedKey(inputs.ask, inputs.alpha);
 
     try {
       // Attempt proof generation with available provers in priority order
@@ -294,7 +294,7 @@ export class Groth16Integration {
           if (this.spendProver.hasRealZkey()) {
             // Convert inputs to ProofInput format for SnarkjsProver
             const proofInput = {
-              spendingKey: inputs.ask,
+              proofGenerationKey: concatBytes(inputs.ak, inputs.nsk),
               outputNote: {
                 value: typeof inputs.value === 'bigint' ? Number(inputs.value) : inputs.value,
                 rseed: inputs.rcm
@@ -311,7 +311,7 @@ export class Groth16Integration {
             const proofOutput = await this.spendProver.generateProof(proofInput);
             const proofBytes = SnarkjsProver.serializeProof(proofOutput.proof);
 
-            return { proof: proofBytes, cv, rk };
+            return { proof: proofBytes, cv, rk: saplingRandomizedKey(inputs.ak, inputs.alpha) };
           }
         } catch (snarkjsError) {
           // Continue to error handling below
@@ -381,7 +381,7 @@ export class Groth16Integration {
       if (this.outputProver instanceof SnarkjsProver && this.outputProver.isInitialized() && this.outputProver.hasRealZkey()) {
         // For output proofs, we need to construct the witness differently
         const proofInput = {
-          spendingKey: new Uint8Array(32), // Not used for output
+          proofGenerationKey: new Uint8Array(64), // Not used for output
           outputNote: {
             value: typeof inputs.value === 'bigint' ? Number(inputs.value) : inputs.value,
             rseed: inputs.rcm
@@ -424,15 +424,6 @@ export class Groth16Integration {
     return computePedersenValueCommitment(value, rcv);
   }
 
-  /**
-   * Compute randomized verification key
-   * rk = ask + alpha (mod order)
-   * Uses proper scalar field arithmetic
-   */
-  private computeRandomizedKey(ask: Uint8Array, alpha: Uint8Array): Uint8Array {
-    return addScalars(ask, alpha);
-  }
-
   /**
    * Compute note commitment
    * cm = PedersenHash(rcm || value || diversifier || pk_d)
@@ -0,0 +1,329 @@
+/**
+ * Halo2 Prover and Orchard Primitives
+ *
+ * Orchard relies on Pallas hash-to-curve, Sinsemilla commitments, Poseidon
+ * nullifiers and RedPallas signatures. These, together with the Action
+ * circuit prover, are provided by a pluggable backend; the default backend
+ * wraps the Orchard WASM module loaded by orchardWasmLoader.ts.
+ *
+ * Halo2 needs no trusted setup: the backend generates its proving key from
+ * the circuit description, so there are no parameter files to distribute.
+ */
+
+import { concatBytes, numberToLEBytes, bigintToLEBytes } from '../utils/bytes';
+import { loadOrchardWasm, getOrchardWasmModule, isOrchardWasmLoaded } from './orchardWasmLoader.js';
+import type { OrchardWasmModule } from './orchardWasmLoader.js';
+import type { OrchardNote, MerkleWitness } from './types.js';
+import type { TreeHasher } from './commitmentTree.js';
+
+/**
+ * Depth of the Orchard note commitment tree
+ */
+export const ORCHARD_TREE_DEPTH = 32;
+
+/**
+ * Uncommitted^Orchard, the leaf of empty positions in the commitment tree
+ */
+export const ORCHARD_UNCOMMITTED_LEAF: Uint8Array = bigintToLEBytes(2n, 32);
+
+/**
+ * Orchard primitives that need Pallas hash-to-curve, Sinsemilla or Poseidon
+ *
+ * All points and scalars use their canonical 32-byte encodings.
+ */
+export interface OrchardPrimitives {
+  /** ak = [ask] G_Orchard */
+  deriveSpendValidatingKey(ask: Uint8Array): Uint8Array;
+
+  /** ivk = Commit^ivk_rivk(Extract_P(ak), nk), or null for ⊥ */
+  commitIvk(ak: Uint8Array, nk: Uint8Array, rivk: Uint8Array): Uint8Array | null;
+
+  /** g_d = DiversifyHash(d) */
+  diversifyHash(diversifier: Uint8Array): Uint8Array;
+
+  /** cmx = Extract_P(NoteCommit_rcm(g_d, pk_d, v, rho, psi)) */
+  noteCommitment(note: OrchardNoteParts): Uint8Array;
+
+  /** nf = DeriveNullifier_nk(rho, psi, cm) */
+  nullifier(nk: Uint8Array, note: OrchardNoteParts): Uint8Array;
+
+  /** MerkleCRH^Orchard(layer, left, right), layer being the height of the children */
+  merkleHash(layer: number, left: Uint8Array, right: Uint8Array): Uint8Array;
+
+  /** cv_net = ValueCommit_rcv(v) for a signed value */
+  valueCommitment(value: bigint, rcv: Uint8Array): Uint8Array;
+
+  /** rk = ak + [alpha] G_Orchard */
+  randomizeSpendValidatingKey(ak: Uint8Array, alpha: Uint8Array): Uint8Array;
+
+  /** RedPallas SpendAuthSig over the sighash with rsk = ask + alpha */
+  signSpendAuth(ask: Uint8Array, alpha: Uint8Array, sighash: Uint8Array): Uint8Array;
+
+  /** RedPallas BindingSig over the sighash */
+  signBinding(bsk: Uint8Array, sighash: Uint8Array): Uint8Array;
+}
+
+/**
+ * Fields that determine an Orchard note
+ */
+export interface OrchardNoteParts {
+  recipient: Uint8Array;
+  value: bigint;
+  rho: Uint8Array;
+  rseed: Uint8Array;
+}
+
+/**
+ * Private inputs for one Action circuit
+ */
+export interface OrchardActionWitness {
+  /** Full viewing key of the spent note (ak || nk || rivk) */
+  fvk: Uint8Array;
+
+  /** Spent note (a dummy note for output-only actions) */
+  spend: OrchardNoteParts;
+
+  /** Merkle path of the spent note */
+  witness: MerkleWitness;
+
+  /** Spend authorization randomizer */
+  alpha: Uint8Array;
+
+  /** Created note */
+  output: OrchardNoteParts;
+
+  /** Value commitment randomness */
+  rcv: Uint8Array;
+}
+
+/**
+ * Public inputs for one Action circuit
+ */
+export interface OrchardActionInstance {
+  cv: Uint8Array;
+  nullifier: Uint8Array;
+  rk: Uint8Array;
+  cmx: Uint8Array;
+}
+
+/**
+ * Halo2 prover for the Orchard Action circuit
+ */
+export interface Halo2Prover {
+  /**
+   * Create one aggregated proof for all actions of a bundle
+   */
+  createProof(actions: OrchardActionWitness[], anchor: Uint8Array, flags: number): Promise<Uint8Array>;
+
+  /**
+   * Verify a bundle proof
+   */
+  verifyProof(
+    proof: Uint8Array,
+    instances: OrchardActionInstance[],
+    anchor: Uint8Array,
+    flags: number
+  ): Promise<boolean>;
+}
+
+/**
+ * Commitment tree hasher for Orchard note commitments
+ */
+export function orchardTreeHasher(primitives: OrchardPrimitives): TreeHasher {
+  return {
+    hash: (level, left, right) => primitives.merkleHash(level, left, right),
+    emptyRoots: (depth) => {
+      const roots = [ORCHARD_UNCOMMITTED_LEAF];
+      for (let level = 0; level < depth; level++) {
+        roots.push(primitives.merkleHash(level, roots[level], roots[level]));
+      }
+      return roots;
+    }
+  };
+}
+
+/**
+ * Convert an Orchard note into its primitive parts
+ */
+export function orchardNoteParts(note: OrchardNote): OrchardNoteParts {
+  return {
+    recipient: note.recipient,
+    value: BigInt(note.value),
+    rho: note.rho,
+    rseed: note.rseed
+  };
+}
+
+/**
+ * Orchard backend backed by the Orchard WASM module
+ */
+export class OrchardWasmBackend implements OrchardPrimitives, Halo2Prover {
+  private module: OrchardWasmModule;
+
+  constructor(module: OrchardWasmModule) {
+    this.module = module;
+  }
+
+  /**
+   * Load the WASM module (if needed) and wrap it
+   *
+   * @param baseUrl - Base URL for the Orchard WASM files
+   */
+  static async load(baseUrl?: string): Promise<OrchardWasmBackend> {
+    if (isOrchardWasmLoaded()) {
+      return new OrchardWasmBackend(getOrchardWasmModule());
+    }
+    return new OrchardWasmBackend(await loadOrchardWasm(baseUrl));
+  }
+
+  /**
+   * ak = [ask] G_Orchard
+   */
+  deriveSpendValidatingKey(ask: Uint8Array): Uint8Array {
+    return this.call('orchard_spend_validating_key', ask);
+  }
+
+  /**
+   * ivk = Commit^ivk_rivk(Extract_P(ak), nk)
+   */
+  commitIvk(ak: Uint8Array, nk: Uint8Array, rivk: Uint8Array): Uint8Array | null {
+    const ivk = this.call('orchard_commit_ivk', ak, nk, rivk);
+    return ivk.length === 0 ? null : ivk;
+  }
+
+  /**
+   * g_d = DiversifyHash(d)
+   */
+  diversifyHash(diversifier: Uint8Array): Uint8Array {
+    return this.call('orchard_diversify_hash', diversifier);
+  }
+
+  /**
+   * Extracted note commitment
+   */
+  noteCommitment(note: OrchardNoteParts): Uint8Array {
+    return this.call('orchard_note_commitment', note.recipient, note.value, note.rho, note.rseed);
+  }
+
+  /**
+   * Note nullifier
+   */
+  nullifier(nk: Uint8Array, note: OrchardNoteParts): Uint8Array {
+    return this.call('orchard_nullifier', nk, note.recipient, note.value, note.rho, note.rseed);
+  }
+
+  /**
+   * Commitment tree node hash
+   */
+  merkleHash(layer: number, left: Uint8Array, right: Uint8Array): Uint8Array {
+    return this.call('orchard_merkle_hash', layer, left, right);
+  }
+
+  /**
+   * Value commitment
+   */
+  valueCommitment(value: bigint, rcv: Uint8Array): Uint8Array {
+    return this.call('orchard_value_commitment', value, rcv);
+  }
+
+  /**
+   * Randomized spend validating key
+   */
+  randomizeSpendValidatingKey(ak: Uint8Array, alpha: Uint8Array): Uint8Array {
+    return this.call('orchard_randomize_key', ak, alpha);
+  }
+
+  /**
+   * Spend authorization signature
+   */
+  signSpendAuth(ask: Uint8Array, alpha: Uint8Array, sighash: Uint8Array): Uint8Array {
+    return this.call('orchard_sign_spend_auth', ask, alpha, sighash);
+  }
+
+  /**
+   * Binding signature
+   */
+  signBinding(bsk: Uint8Array, sighash: Uint8Array): Uint8Array {
+    return this.call('orchard_sign_binding', bsk, sighash);
+  }
+
+  /**
+   * Create the bundle proof
+   */
+  async createProof(actions: OrchardActionWitness[], anchor: Uint8Array, flags: number): Promise<Uint8Array> {
+    return this.call('prove_actions', serializeActionWitnesses(actions), anchor, flags);
+  }
+
+  /**
+   * Verify the bundle proof
+   */
+  async verifyProof(
+    proof: Uint8Array,
+    instances: OrchardActionInstance[],
+    anchor: Uint8Array,
+    flags: number
+  ): Promise<boolean> {
+    const verify = this.module.verify_actions;
+    if (typeof verify !== 'function') {
+      throw new Error('Orchard WASM module does not export verify_actions function');
+    }
+    const serialized = concatBytes(...instances.map(i => concatBytes(i.cv, i.nullifier, i.rk, i.cmx)));
+    return verify(proof, serialized, anchor, flags);
+  }
+
+  /**
+   * Invoke a byte-returning WASM export
+   */
+  private call(name: string, ...args: unknown[]): Uint8Array {
+    const fn = this.module[name];
+    if (typeof fn !== 'function') {
+      throw new Error(`Orchard WASM module does not export ${name} function`);
+    }
+
+    let result: unknown;
+    try {
+      result = fn(...args);
+    } catch (error) {
+      throw new Error(`WASM ${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (result instanceof Uint8Array) {
+      return result;
+    }
+    if (result instanceof ArrayBuffer || Array.isArray(result)) {
+      return new Uint8Array(result as ArrayBuffer);
+    }
+    throw new Error(`Unexpected return type from ${name}: ${typeof result}`);
+  }
+}
+
+/**
+ * Serialize action witnesses for prove_actions
+ *
+ * Format: count (u32) then per action
+ * [fvk(96) | spend note | alpha(32) | position(u32) | authPath(32 * 32) | output note | rcv(32)]
+ * where a note is [recipient(43) | value(u64) | rho(32) | rseed(32)]
+ */
+export function serializeActionWitnesses(actions: OrchardActionWitness[]): Uint8Array {
+  const serializeNote = (note: OrchardNoteParts) =>
+    concatBytes(note.recipient, bigintToLEBytes(note.value, 8), note.rho, note.rseed);
+
+  const parts: Uint8Array[] = [numberToLEBytes(actions.length, 4)];
+  for (const action of actions) {
+    if (action.witness.authPath.length !== ORCHARD_TREE_DEPTH) {
+      throw new Error(
+        `Invalid Orchard Merkle path: expected ${ORCHARD_TREE_DEPTH} nodes, got ${action.witness.authPath.length}`
+      );
+    }
+    parts.push(
+      action.fvk,
+      serializeNote(action.spend),
+      action.alpha,
+      numberToLEBytes(Number(action.witness.position), 4),
+      ...action.witness.authPath,
+      serializeNote(action.output),
+      action.rcv
+    );
+  }
+  return concatBytes(...parts);
+}
@@ -8,6 +8,7 @@ export type {
   SaplingNote,
   MerkleWitness,
   SaplingSpendingKey,
+  SaplingProofGenerationKey,
   SaplingFullViewingKey,
   SaplingIncomingViewingKey,
   SaplingPaymentAddress,
@@ -35,6 +36,7 @@ export {
   generateRseed,
   generateRcv,
   deriveRcmFromRseed,
+  deriveEskFromRseed,
   deriveNullifierKey,
   createNote,
   encodeNotePlaintext,
@@ -43,6 +45,25 @@ export {
   markNullifierSpent,
   prfExpand
 } from './noteCommitment.js';
+export {
+  encryptSaplingNote,
+  tryDecryptSaplingOutput,
+  tryRecoverSaplingOutgoing,
+  SAPLING_ENC_CIPHERTEXT_SIZE,
+  SAPLING_OUT_CIPHERTEXT_SIZE
+} from './saplingNoteEncryption.js';
+export type {
+  DecryptedSaplingNote,
+  SaplingEncryptedOutput,
+  SaplingOutputCiphertext,
+  SaplingNoteEncryptionParams
+} from './saplingNoteEncryption.js';
+
+// Memos (ZIP-302)
+export { encodeMemo, decodeMemo, memoToText, MEMO_SIZE } from './memo.js';
+export type { DecodedMemo } from './memo.js';
+export { MemoInbox, parseMessageMemo, formatMessageMemo, MESSAGE_NOTE_VALUE } from './memoInbox.js';
+export type { MemoMessage, Conversation, MemoInboxOptions } from './memoInbox.js';
 
 // Note cache
 export { NoteCache, NoteSelector } from './noteCache.js';
@@ -51,16 +72,39 @@ export { NoteCache, NoteSelector } from './noteCache.js';
 export {
   NoteScanner,
   IncrementalMerkleTree,
-  ShieldedStateSynchronizer
+  ShieldedStateSynchronizer,
+  REORG_WINDOW
 } from './noteScanner.js';
 export type {
   BlockData,
   TransactionData,
   ScannerConfig,
   MerkleWitness as NoteScannerMerkleWitness,
-  RPCClientInterface
+  RPCClientInterface,
+  SyncedBlock,
+  TreeStateSnapshot
 } from './noteScanner.js';
 
+// Scan worker pool
+export { ScanWorkerPool, createScanWorkerHandler } from './scanWorkerPool.js';
+export type {
+  ScanWorkerPoolConfig,
+  ScanWorkerKeys,
+  ScanWorkerLike,
+  ScanWorkerRequest,
+  ScanWorkerResponse,
+  ScanBatchResult
+} from './scanWorkerPool.js';
+
+// Commitment tree
+export { CommitmentTree, MAX_CHECKPOINTS } from './commitmentTree.js';
+export {
+  saplingMerkleHash,
+  saplingEmptyRoots,
+  SAPLING_MERKLE_DEPTH,
+  SAPLING_UNCOMMITTED_LEAF
+} from './saplingMerkleHash.js';
+
 // Merkle Tree Persistence
 export { MerkleTreePersistence } from './merkleTreePersistence.js';
 export type { TreeCheckpoint } from './merkleTreePersistence.js';
@@ -114,13 +158,58 @@ export type { DelegatedProverConfig } from './delegatedProver.js';
 export { ShieldedSigner, ShieldedVerifier } from './signer.js';
 export type { SignedShieldedTransaction } from './signer.js';
 
+// Partially created transactions (offline and multi-party signing)
+export {
+  createPczt,
+  provePczt,
+  signPczt,
+  combinePczts,
+  extractPczt,
+  serializePczt,
+  parsePczt,
+  isProven,
+  PCZT_VERSION
+} from './pczt.js';
+export type {
+  Pczt,
+  PcztTransaction,
+  PcztTransparentInput,
+  PcztSpend,
+  PcztOutput,
+  PcztProofGenerator,
+  PcztSigningKeys
+} from './pczt.js';
+
 // RPC Client
 export { ZcashRpcClient, createTestnetRpcClient, createMainnetRpcClient } from './rpcClient.js';
 export type { BlockHeader, TransactionInfo } from './rpcClient.js';
 
+// Lightwalletd Client (gRPC-web)
+export { LightwalletdClient, compactBlockToBlockData } from './lightwalletdClient.js';
+export type {
+  BlockID,
+  CompactBlock,
+  CompactTx,
+  CompactSaplingSpend,
+  CompactSaplingOutput,
+  CompactOrchardAction,
+  LightwalletdTreeState,
+  LightwalletdTransaction,
+  LightwalletdClientOptions
+} from './lightwalletdClient.js';
+
 // Transaction Tracking
 export { TransactionTracker, BroadcastManager, BroadcastTransactionStatus } from './transactionTracker.js';
-export type { TrackedTransaction, ConfirmationResult } from './transactionTracker.js';
+export type {
+  TrackedTransaction,
+  ConfirmationResult,
+  TransactionReservations,
+  TrackTransactionOptions,
+  TrackerEvent,
+  TrackerRpcClient,
+  TrackerTransactionInfo,
+  TransactionTrackerOptions
+} from './transactionTracker.js';
 
 // Bech32 Address Encoding/Decoding
 export {
@@ -147,6 +236,71 @@ export {
   getNullifierKeyGenerator
 } from './jubjubHelper.js';
 
+// ZIP-32 Sapling Key Hierarchy
+export {
+  ExtendedSpendingKey,
+  ExtendedFullViewingKey,
+  saplingDiversifiedBase,
+  saplingPaymentKey,
+  saplingNullifierKey,
+  saplingSpendValidatingKey,
+  saplingRandomizedKey,
+  saplingProofGenerationKey,
+  ZIP32_HARDENED_OFFSET,
+  ZIP32_PURPOSE,
+  ZIP32_COIN_TYPES,
+  SAPLING_EXTENDED_SPENDING_KEY_HRP,
+  SAPLING_EXTENDED_FULL_VIEWING_KEY_HRP
+} from './zip32.js';
+export type { SaplingDiversifiedAddress } from './zip32.js';
+
+// Orchard
+export type {
+  OrchardNote,
+  ScannedOrchardNote,
+  OrchardOutputParams
+} from './types.js';
+export { OrchardExtendedSpendingKey, OrchardFullViewingKey } from './orchardKeys.js';
+export type { OrchardAddress } from './orchardKeys.js';
+export {
+  encodeOrchardMemo,
+  encryptOrchardNote,
+  tryDecryptOrchardAction,
+  tryRecoverOrchardOutgoing,
+  ORCHARD_NOTE_PLAINTEXT_SIZE,
+  ORCHARD_ENC_CIPHERTEXT_SIZE,
+  ORCHARD_OUT_CIPHERTEXT_SIZE
+} from './orchardNoteEncryption.js';
+export type { DecryptedOrchardNote, OrchardActionCiphertext } from './orchardNoteEncryption.js';
+export { OrchardNoteCache } from './orchardNoteCache.js';
+export { OrchardNoteScanner } from './orchardNoteScanner.js';
+export {
+  OrchardBundleBuilder,
+  ORCHARD_MIN_ACTIONS,
+  ORCHARD_FLAG_SPENDS_ENABLED,
+  ORCHARD_FLAG_OUTPUTS_ENABLED
+} from './orchardBuilder.js';
+export type {
+  OrchardBundleParams,
+  UnauthorizedOrchardBundle,
+  OrchardSigningData
+} from './orchardBuilder.js';
+export { OrchardWasmBackend, ORCHARD_TREE_DEPTH } from './halo2Prover.js';
+export type {
+  OrchardPrimitives,
+  Halo2Prover,
+  OrchardNoteParts,
+  OrchardActionWitness,
+  OrchardActionInstance
+} from './halo2Prover.js';
+export {
+  loadOrchardWasm,
+  isOrchardWasmLoaded,
+  getOrchardWasmModule,
+  resetOrchardWasmLoader
+} from './orchardWasmLoader.js';
+export type { OrchardWasmModule } from './orchardWasmLoader.js';
+
 // Prover Status and Diagnostics
 export {
   validateSpendProofInputs,
@@ -4,6 +4,7 @@
  */
 
 import type { SaplingProof, SpendProofInputs, OutputProofInputs } from './types.js';
+import { concatBytes } from '../utils/bytes';
 
 /**
  * WASM module type (imported from compiled WASM)
@@ -12,7 +13,7 @@ import type { SaplingProof, SpendProofInputs, OutputProofInputs } from './types.
 interface ZcashProverWasm {
   init(): void;
   prove_spend(
-    spending_key: Uint8Array,
+    proof_generation_key: Uint8Array,
     value: bigint,
     rcv: Uint8Array,
     alpha: Uint8Array,
@@ -130,8 +131,9 @@ export class LibrustzcashProver {
 
     try {
       // Call Rust WASM function
+      // Proof generation key: ak || nsk
       const result = this.wasm.prove_spend(
-        inputs.ask,
+        concatBytes(inputs.ak, inputs.nsk),
         inputs.value,
         inputs.rcv,
         inputs.alpha,
@@ -0,0 +1,415 @@
+/**
+ * Lightwalletd Client
+ * Talks to a lightwalletd CompactTxStreamer over gRPC-web, so a browser
+ * wallet can sync from compact blocks without a trusted full node
+ *
+ * gRPC-web framing: each message is sent as [flags (1) | length (u32 BE) | bytes].
+ * Flag 0x00 marks a protobuf message and 0x80 the trailers block, which
+ * carries grpc-status and grpc-message as HTTP/1-style header lines.
+ *
+ * Reference: https://github.com/zcash/lightwalletd/blob/master/walletrpc/service.proto
+ */
+
+import type { BlockData } from './noteScanner.js';
+import { ProtoWriter, ProtoMessage } from './protobuf.js';
+import { bytesToHex, hexToBytes, reverseBytes } from '../utils/bytes';
+
+/**
+ * gRPC service path
+ */
+const SERVICE = 'cash.z.wallet.sdk.rpc.CompactTxStreamer';
+
+/**
+ * gRPC-web frame flags
+ */
+const FRAME_DATA = 0x00;
+const FRAME_TRAILERS = 0x80;
+
+/**
+ * Errors lightwalletd reports for a transaction it cannot find: NotFound,
+ * or the zcashd message older servers pass through
+ */
+const TRANSACTION_NOT_FOUND = /\(gRPC status 5\)|No such mempool or blockchain transaction/;
+
+/**
+ * Block identifier; hash is in internal (little-endian) byte order
+ */
+export interface BlockID {
+  height: number;
+  hash: Uint8Array;
+}
+
+/**
+ * Compact Sapling spend: just the nullifier
+ */
+export interface CompactSaplingSpend {
+  nf: Uint8Array;
+}
+
+/**
+ * Compact Sapling output: commitment, epk and the first 52 ciphertext bytes
+ */
+export interface CompactSaplingOutput {
+  cmu: Uint8Array;
+  ephemeralKey: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+/**
+ * Compact Orchard action
+ */
+export interface CompactOrchardAction {
+  nullifier: Uint8Array;
+  cmx: Uint8Array;
+  ephemeralKey: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+/**
+ * Compact transaction (only shielded components)
+ */
+export interface CompactTx {
+  /** Index within the block */
+  index: number;
+
+  /** Transaction ID in internal byte order */
+  hash: Uint8Array;
+
+  spends: CompactSaplingSpend[];
+  outputs: CompactSaplingOutput[];
+  actions: CompactOrchardAction[];
+}
+
+/**
+ * Compact block
+ */
+export interface CompactBlock {
+  protoVersion: number;
+  height: number;
+  hash: Uint8Array;
+  prevHash: Uint8Array;
+  time: number;
+  vtx: CompactTx[];
+
+  /** Note commitment tree sizes at the end of this block */
+  chainMetadata?: {
+    saplingCommitmentTreeSize: number;
+    orchardCommitmentTreeSize: number;
+  };
+}
+
+/**
+ * Note commitment tree state at a block
+ */
+export interface LightwalletdTreeState {
+  network: string;
+  height: number;
+
+  /** Block hash (display order hex) */
+  hash: string;
+
+  time: number;
+
+  /** Serialized Sapling commitment tree (hex) */
+  saplingTree: string;
+
+  /** Serialized Orchard commitment tree (hex) */
+  orchardTree: string;
+}
+
+/**
+ * Full transaction returned by GetTransaction
+ */
+export interface LightwalletdTransaction {
+  /** Serialized transaction */
+  data: Uint8Array;
+
+  /** Mined height; 0 in the mempool, past the tip when mined off the main chain */
+  height: number;
+}
+
+/**
+ * Client configuration
+ */
+export interface LightwalletdClientOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+
+  /** Extra request headers (e.g. for an authenticating proxy) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Lightwalletd gRPC-web client
+ */
+export class LightwalletdClient {
+  private url: string;
+  private timeout: number;
+  private headers: Record<string, string>;
+
+  constructor(url: string, options: LightwalletdClientOptions = {}) {
+    this.url = url.replace(/\/+$/, '');
+    this.timeout = options.timeout ?? 30000;
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Get the latest block the server knows about
+   */
+  async getLatestBlock(): Promise<BlockID> {
+    const [response] = await this.call('GetLatestBlock', new Uint8Array(0));
+    if (!response) {
+      throw new Error('lightwalletd GetLatestBlock returned no block');
+    }
+    return decodeBlockID(new ProtoMessage(response));
+  }
+
+  /**
+   * Get the compact blocks from startHeight to endHeight inclusive
+   */
+  async getBlockRange(startHeight: number, endHeight: number): Promise<CompactBlock[]> {
+    if (startHeight > endHeight) {
+      throw new Error(`Invalid block range: ${startHeight} > ${endHeight}`);
+    }
+    const range = new ProtoWriter()
+      .message(1, new ProtoWriter().uint(1, startHeight).finish())
+      .message(2, new ProtoWriter().uint(1, endHeight).finish())
+      .finish();
+
+    const responses = await this.call('GetBlockRange', range);
+    return responses.map(bytes => decodeCompactBlock(new ProtoMessage(bytes)));
+  }
+
+  /**
+   * Get the note commitment tree state at a height
+   */
+  async getTreeState(height: number): Promise<LightwalletdTreeState> {
+    const [response] = await this.call('GetTreeState', new ProtoWriter().uint(1, height).finish());
+    if (!response) {
+      throw new Error(`lightwalletd GetTreeState returned no state for height ${height}`);
+    }
+    const message = new ProtoMessage(response);
+    return {
+      network: message.string(1),
+      height: message.uint(2),
+      hash: message.string(3),
+      time: message.uint(4),
+      saplingTree: message.string(5),
+      orchardTree: message.string(6)
+    };
+  }
+
+  /**
+   * Get a transaction from the chain or the mempool
+   *
+   * @param txid - Transaction ID (display order hex)
+   * @returns The transaction, or null when the server does not know it
+   */
+  async getTransaction(txid: string): Promise<LightwalletdTransaction | null> {
+    const filter = new ProtoWriter().bytesField(3, reverseBytes(hexToBytes(txid))).finish();
+    let response: Uint8Array | undefined;
+    try {
+      [response] = await this.call('GetTransaction', filter);
+    } catch (error) {
+      if (error instanceof Error && TRANSACTION_NOT_FOUND.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+    if (!response) {
+      throw new Error(`lightwalletd GetTransaction returned no transaction for ${txid}`);
+    }
+
+    const message = new ProtoMessage(response);
+    return {
+      data: message.bytes(1),
+      height: message.uint(2)
+    };
+  }
+
+  /**
+   * Broadcast a raw transaction
+   *
+   * @param rawTx - Serialized transaction (bytes or hex)
+   * @returns The server's response message (lightwalletd returns the txid)
+   */
+  async sendTransaction(rawTx: Uint8Array | string): Promise<string> {
+    const data = typeof rawTx === 'string' ? hexToBytes(rawTx) : rawTx;
+    const [response] = await this.call('SendTransaction', new ProtoWriter().bytesField(1, data).finish());
+    if (!response) {
+      throw new Error('lightwalletd SendTransaction returned no response');
+    }
+
+    const message = new ProtoMessage(response);
+    const errorCode = message.int32(1);
+    const errorMessage = message.string(2);
+    if (errorCode !== 0) {
+      throw new Error(`Failed to broadcast transaction (error ${errorCode}): ${errorMessage}`);
+    }
+    return errorMessage;
+  }
+
+  /**
+   * Invoke a unary or server-streaming method and collect the response messages
+   */
+  private async call(method: string, request: Uint8Array): Promise<Uint8Array[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    let response: Response;
+    let body: Uint8Array;
+    try {
+      response = await fetch(`${this.url}/${SERVICE}/${method}`, {
+        method: 'POST',
+        headers: {
+          ...this.headers,
+          'Content-Type': 'application/grpc-web+proto',
+          'Accept': 'application/grpc-web+proto',
+          'X-Grpc-Web': '1'
+        },
+        body: encodeFrame(FRAME_DATA, request),
+        signal: controller.signal
+      });
+      body = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`lightwalletd ${method} request timed out`);
+      }
+      throw new Error(
+        `Cannot connect to lightwalletd (${this.url}): ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      throw new Error(`lightwalletd ${method} failed: HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const { messages, trailers } = decodeFrames(body);
+
+    // Trailers-only responses carry the status in the HTTP headers
+    const status = trailers.get('grpc-status') ?? response.headers.get('grpc-status') ?? '0';
+    if (status !== '0') {
+      const rawMessage = trailers.get('grpc-message') ?? response.headers.get('grpc-message') ?? '';
+      throw new Error(`lightwalletd ${method} failed (gRPC status ${status}): ${decodeURIComponent(rawMessage)}`);
+    }
+
+    return messages;
+  }
+}
+
+/**
+ * Convert a compact block into the scanner's block format
+ */
+export function compactBlockToBlockData(block: CompactBlock): BlockData {
+  return {
+    height: block.height,
+    hash: bytesToHex(reverseBytes(block.hash)),
+    prevHash: block.prevHash.length > 0 ? bytesToHex(reverseBytes(block.prevHash)) : undefined,
+    time: block.time,
+    transactions: block.vtx.map(tx => ({
+      txid: bytesToHex(reverseBytes(tx.hash)),
+      outputs: tx.outputs.map(output => ({
+        cmu: output.cmu,
+        ephemeralKey: output.ephemeralKey,
+        ciphertext: output.ciphertext
+      })),
+      nullifiers: tx.spends.map(spend => spend.nf),
+      actions: tx.actions.map(action => ({
+        nullifier: action.nullifier,
+        cmx: action.cmx,
+        ephemeralKey: action.ephemeralKey,
+        ciphertext: action.ciphertext
+      }))
+    }))
+  };
+}
+
+/**
+ * Wrap a message in a gRPC-web frame
+ */
+export function encodeFrame(flags: number, message: Uint8Array): Uint8Array<ArrayBuffer> {
+  const frame = new Uint8Array(5 + message.length);
+  frame[0] = flags;
+  new DataView(frame.buffer).setUint32(1, message.length, false);
+  frame.set(message, 5);
+  return frame;
+}
+
+/**
+ * Split a gRPC-web response body into messages and trailers
+ */
+function decodeFrames(body: Uint8Array): { messages: Uint8Array[]; trailers: Map<string, string> } {
+  const messages: Uint8Array[] = [];
+  const trailers = new Map<string, string>();
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+  let offset = 0;
+  while (offset < body.length) {
+    if (offset + 5 > body.length) {
+      throw new Error('Invalid gRPC-web response: truncated frame header');
+    }
+    const flags = body[offset];
+    const length = view.getUint32(offset + 1, false);
+    const start = offset + 5;
+    if (start + length > body.length) {
+      throw new Error('Invalid gRPC-web response: truncated frame');
+    }
+    const payload = body.slice(start, start + length);
+    offset = start + length;
+
+    if (flags & FRAME_TRAILERS) {
+      for (const line of new TextDecoder().decode(payload).split('\r\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+          trailers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+        }
+      }
+    } else {
+      messages.push(payload);
+    }
+  }
+
+  return { messages, trailers };
+}
+
+function decodeBlockID(message: ProtoMessage): BlockID {
+  return {
+    height: message.uint(1),
+    hash: message.bytes(2)
+  };
+}
+
+function decodeCompactBlock(message: ProtoMessage): CompactBlock {
+  const metadata = message.message(8);
+  return {
+    protoVersion: message.uint(1),
+    height: message.uint(2),
+    hash: message.bytes(3),
+    prevHash: message.bytes(4),
+    time: message.uint(5),
+    vtx: message.messages(7).map(tx => ({
+      index: tx.uint(1),
+      hash: tx.bytes(2),
+      spends: tx.messages(4).map(spend => ({ nf: spend.bytes(1) })),
+      outputs: tx.messages(5).map(output => ({
+        cmu: output.bytes(1),
+        ephemeralKey: output.bytes(2),
+        ciphertext: output.bytes(3)
+      })),
+      actions: tx.messages(6).map(action => ({
+        nullifier: action.bytes(1),
+        cmx: action.bytes(2),
+        ephemeralKey: action.bytes(3),
+        ciphertext: action.bytes(4)
+      }))
+    })),
+    chainMetadata: metadata
+      ? {
+          saplingCommitmentTreeSize: metadata.uint(1),
+          orchardCommitmentTreeSize: metadata.uint(2)
+        }
+      : undefined
+  };
+}
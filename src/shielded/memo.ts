@@ -0,0 +1,91 @@
+/**
+ * Memo Fields (ZIP-302)
+ * Encodes and decodes the 512-byte memo field of shielded notes
+ *
+ *   first byte <= 0xF4   UTF-8 text, zero-padded
+ *   0xF6, then zeros     no memo
+ *   0xFF                 arbitrary data in the remaining 511 bytes
+ *   anything else        reserved; kept as raw bytes
+ *
+ * Reference: https://zips.z.cash/zip-0302
+ */
+
+/**
+ * Memo field size
+ */
+export const MEMO_SIZE = 512;
+
+const MAX_TEXT_LEAD_BYTE = 0xf4;
+const EMPTY_MEMO_LEAD_BYTE = 0xf6;
+const ARBITRARY_MEMO_LEAD_BYTE = 0xff;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Decoded memo field
+ */
+export type DecodedMemo =
+  | { type: 'text'; text: string }
+  | { type: 'empty' }
+  | { type: 'binary'; data: Uint8Array };
+
+/**
+ * Encode a memo field: text or bytes, zero-padded, or 0xF6 for "no memo"
+ */
+export function encodeMemo(memo?: string | Uint8Array): Uint8Array {
+  const field = new Uint8Array(MEMO_SIZE);
+  if (memo === undefined || memo.length === 0) {
+    field[0] = EMPTY_MEMO_LEAD_BYTE;
+    return field;
+  }
+  const bytes = typeof memo === 'string' ? textEncoder.encode(memo) : memo;
+  if (bytes.length > MEMO_SIZE) {
+    throw new Error(`Memo too long: ${bytes.length} bytes (max ${MEMO_SIZE})`);
+  }
+  field.set(bytes);
+  return field;
+}
+
+/**
+ * Decode a 512-byte memo field
+ *
+ * Text memos that are not valid UTF-8 are returned as binary.
+ */
+export function decodeMemo(field: Uint8Array): DecodedMemo {
+  if (field.length !== MEMO_SIZE) {
+    throw new Error(`Invalid memo length: expected ${MEMO_SIZE}, got ${field.length}`);
+  }
+
+  const lead = field[0];
+  if (lead <= MAX_TEXT_LEAD_BYTE) {
+    let end = field.length;
+    while (end > 0 && field[end - 1] === 0) {
+      end--;
+    }
+    try {
+      return { type: 'text', text: textDecoder.decode(field.subarray(0, end)) };
+    } catch {
+      return { type: 'binary', data: field.slice() };
+    }
+  }
+
+  if (lead === EMPTY_MEMO_LEAD_BYTE && field.subarray(1).every(byte => byte === 0)) {
+    return { type: 'empty' };
+  }
+  if (lead === ARBITRARY_MEMO_LEAD_BYTE) {
+    return { type: 'binary', data: field.slice(1) };
+  }
+  return { type: 'binary', data: field.slice() };
+}
+
+/**
+ * Text of a memo field, or undefined for empty and binary memos
+ */
+export function memoToText(field?: Uint8Array): string | undefined {
+  if (!field || field.length !== MEMO_SIZE) {
+    return undefined;
+  }
+  const decoded = decodeMemo(field);
+  return decoded.type === 'text' ? decoded.text : undefined;
+}
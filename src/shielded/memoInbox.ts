@@ -0,0 +1,279 @@
+/**
+ * Memo Inbox
+ * Threads the text memos of scanned notes into conversations
+ *
+ * ZIP-302 leaves the contents of text memos to wallets. Like existing
+ * wallets, a message names the address to answer on in a trailing
+ * reply-to header:
+ *
+ *   <message>
+ *   Reply-To:
+ *   <address>
+ *
+ * Received messages are grouped by their reply-to address and sent
+ * messages by their recipient. Read markers are kept in the note cache,
+ * so they are exported and persisted with the notes; given a storage
+ * backend the inbox also persists them on its own, for wallets that
+ * rescan their notes instead of persisting the cache.
+ */
+
+import { NoteCache } from './noteCache.js';
+import { MEMO_SIZE, memoToText } from './memo.js';
+import type { SaplingNote } from './types.js';
+import { decodeUnifiedAddress, encodeReceiverAddress, isUnifiedAddress } from '../address/unified';
+import { PersistedStore } from '../state/persistedStore';
+import type { StateStorage } from '../state/persistedStore';
+import { bytesToHex } from '../utils/bytes';
+
+/**
+ * Value in zatoshi of the note carrying a message
+ */
+export const MESSAGE_NOTE_VALUE = 1;
+
+const REPLY_TO_HEADER = 'Reply-To:';
+const REPLY_TO_PATTERN = /(?:^|\n)Reply-To:\s*(\S+)\s*$/i;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * A text memo sent or received by the wallet
+ */
+export interface MemoMessage {
+  /** Commitment of the note carrying the memo (hex) */
+  id: string;
+  direction: 'received' | 'sent';
+  /** Our address: the receiving address, or the sender of a sent note when known */
+  account?: string;
+  /** Reply-to address of a received message, or the recipient of a sent one */
+  counterparty?: string;
+  /** Message text, without the reply-to header */
+  text: string;
+  value: number;
+  txid?: string;
+  blockHeight: number;
+  /** Sent messages are always read */
+  read: boolean;
+}
+
+/**
+ * Messages exchanged with one counterparty, oldest first
+ */
+export interface Conversation {
+  /** Counterparty address, or the message id of a message without a reply-to address */
+  id: string;
+  /** Address replies go to; undefined when the sender did not give one */
+  counterparty?: string;
+  messages: MemoMessage[];
+  unread: number;
+  /** Block height of the newest message */
+  lastHeight: number;
+}
+
+/**
+ * Inbox options
+ */
+export interface MemoInboxOptions {
+  /** Backend the read markers are persisted to */
+  storage?: StateStorage;
+}
+
+/**
+ * Serialized read markers
+ */
+interface SerializedReadMarkers {
+  version: 1;
+  /** Commitments (hex) of the notes whose memos have been read */
+  read: string[];
+}
+
+/**
+ * Split a text memo into the message and its reply-to address
+ */
+export function parseMessageMemo(memo: string): { text: string; replyTo?: string } {
+  const match = REPLY_TO_PATTERN.exec(memo);
+  if (!match) {
+    return { text: memo };
+  }
+  return { text: memo.slice(0, match.index), replyTo: match[1] };
+}
+
+/**
+ * Format a message with an optional reply-to header as a text memo
+ */
+export function formatMessageMemo(text: string, replyTo?: string): string {
+  const memo = replyTo ? `${text}\n${REPLY_TO_HEADER}\n${replyTo}` : text;
+  const length = textEncoder.encode(memo).length;
+  if (length > MEMO_SIZE) {
+    throw new Error(
+      `Message too long: ${length} bytes${replyTo ? ' with the reply-to address' : ''} (max ${MEMO_SIZE})`
+    );
+  }
+  return memo;
+}
+
+/**
+ * Memo inbox over a note cache
+ */
+export class MemoInbox {
+  private cache: NoteCache;
+  private store: PersistedStore | null;
+
+  constructor(cache: NoteCache, options: MemoInboxOptions = {}) {
+    this.cache = cache;
+    this.store = options.storage
+      ? new PersistedStore(options.storage, () => {
+          const state: SerializedReadMarkers = { version: 1, read: this.cache.getReadMemos() };
+          return JSON.stringify(state);
+        })
+      : null;
+  }
+
+  /**
+   * Load the persisted read markers into the note cache
+   *
+   * Messages marked read before loading stay read.
+   */
+  async initialize(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      const parsed = JSON.parse(data) as SerializedReadMarkers;
+      if (parsed.version !== 1 || !Array.isArray(parsed.read)) {
+        throw new Error(`Unsupported read marker format: ${parsed.version}`);
+      }
+      this.cache.markMemosRead(parsed.read);
+    } catch (error) {
+      throw new Error(`Memo inbox initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Wait for pending writes to the storage
+   *
+   * @throws If the last write failed after its retries
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
+  }
+
+  /**
+   * Get the text messages of the wallet, newest first
+   *
+   * @param account - Only messages received at or sent from this address
+   */
+  getMessages(account?: string): MemoMessage[] {
+    const messages: MemoMessage[] = [];
+
+    const addresses = account ? [account] : this.cache.getAddresses();
+    for (const address of addresses) {
+      for (const note of this.cache.getNotesForAddress(address)) {
+        const message = this.toMessage(note, 'received', note.blockHeight ?? 0);
+        if (message) {
+          messages.push({ ...message, account: address });
+        }
+      }
+    }
+
+    for (const sent of this.cache.getSentNotes(account)) {
+      const message = this.toMessage(sent.note, 'sent', sent.blockHeight);
+      if (message) {
+        messages.push({ ...message, account: sent.sender });
+      }
+    }
+
+    return messages.sort((a, b) => b.blockHeight - a.blockHeight || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Get the conversations of the wallet, most recently active first
+   *
+   * @param account - Only conversations of this address of ours
+   */
+  getConversations(account?: string): Conversation[] {
+    const conversations = new Map<string, Conversation>();
+
+    for (const message of this.getMessages(account)) {
+      const id = message.counterparty ?? message.id;
+      let conversation = conversations.get(id);
+      if (!conversation) {
+        conversation = { id, counterparty: message.counterparty, messages: [], unread: 0, lastHeight: message.blockHeight };
+        conversations.set(id, conversation);
+      }
+      // Messages arrive newest first
+      conversation.messages.unshift(message);
+      if (!message.read) {
+        conversation.unread++;
+      }
+    }
+
+    return Array.from(conversations.values());
+  }
+
+  /**
+   * Get the number of unread messages
+   */
+  getUnreadCount(account?: string): number {
+    return this.getMessages(account).filter(message => !message.read).length;
+  }
+
+  /**
+   * Mark messages, or every message of a conversation, as read
+   */
+  markRead(ids: string[] | Conversation): void {
+    const messageIds = Array.isArray(ids) ? ids : ids.messages.map(message => message.id);
+    this.cache.markMemosRead(messageIds);
+    this.store?.schedule();
+  }
+
+  /**
+   * Message of a note with a text memo
+   */
+  private toMessage(
+    note: SaplingNote,
+    direction: MemoMessage['direction'],
+    blockHeight: number
+  ): MemoMessage | null {
+    const memo = memoToText(note.memo);
+    if (memo === undefined) {
+      return null;
+    }
+
+    const { text, replyTo } = parseMessageMemo(memo);
+    const id = bytesToHex(note.cmu);
+    return {
+      id,
+      direction,
+      counterparty: direction === 'sent' ? note.address : replyTo && toReceiverAddress(replyTo),
+      text,
+      value: note.value,
+      txid: note.txid,
+      blockHeight,
+      read: direction === 'sent' || this.cache.isMemoRead(id)
+    };
+  }
+}
+
+/**
+ * Sapling receiver of a Unified Address, so a conversation stays in one
+ * thread whether the counterparty names its Unified or Sapling address
+ */
+function toReceiverAddress(address: string): string {
+  if (!isUnifiedAddress(address)) {
+    return address;
+  }
+  try {
+    const unified = decodeUnifiedAddress(address);
+    return unified.sapling
+      ? encodeReceiverAddress(unified.network, { type: 'sapling', data: unified.sapling })
+      : address;
+  } catch {
+    return address;
+  }
+}
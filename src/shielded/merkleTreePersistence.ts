@@ -7,7 +7,9 @@
  * Subsequent syncs: seconds (load from cache, sync delta)
  */
 
-import { IncrementalMerkleTree } from './noteScanner.js';
+import { CommitmentTree, MAX_CHECKPOINTS, SAPLING_TREE_HASHER } from './commitmentTree.js';
+import type { TreeHasher } from './commitmentTree.js';
+import type { SyncedBlock } from './noteScanner.js';
 
 const MERKLE_TREE_DB = 'zcash-merkle-trees';
 const MERKLE_TREE_STORE = 'trees';
@@ -17,14 +19,20 @@ const DB_VERSION = 1;
  * Checkpoint structure for persisted tree state
  */
 export interface TreeCheckpoint {
-  /** All leaves in the tree */
-  leaves: Uint8Array[];
+  /** Serialized CommitmentTree (frontier, marked witnesses and checkpoints) */
+  tree?: Uint8Array;
+  /** Number of leaves in the tree */
+  size?: number;
+  /** All leaves in the tree (records saved before the frontier tree) */
+  leaves?: Uint8Array[];
   /** Block height at which this checkpoint was taken */
   height: number;
   /** Timestamp when checkpoint was saved */
   timestamp: number;
   /** Tree depth */
   depth: number;
+  /** Recent block hashes and tree sizes, for reorg detection after reload */
+  blocks?: SyncedBlock[];
 }
 
 /**
@@ -36,13 +44,15 @@ export class MerkleTreePersistence {
    * Save tree state to IndexedDB
    * 
    * @param treeId - Unique identifier for this tree (e.g., "tree-{address}")
-   * @param tree - The IncrementalMerkleTree to save
+   * @param tree - The CommitmentTree to save
    * @param currentHeight - Current block height
+   * @param blocks - Recent synced blocks, ending at currentHeight
    */
   static async saveTree(
     treeId: string,
-    tree: IncrementalMerkleTree,
-    currentHeight: number
+    tree: CommitmentTree,
+    currentHeight: number,
+    blocks: SyncedBlock[] = []
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(MERKLE_TREE_DB, DB_VERSION);
@@ -60,12 +70,13 @@ export class MerkleTreePersistence {
           const transaction = db.transaction(MERKLE_TREE_STORE, 'readwrite');
           const store = transaction.objectStore(MERKLE_TREE_STORE);
 
-          // Access private leaves via bracket notation (TypeScript workaround)
           const checkpoint: TreeCheckpoint = {
-            leaves: (tree as any)['leaves'] || [],
+            tree: tree.serialize(),
+            size: tree.size(),
             height: currentHeight,
             timestamp: Date.now(),
-            depth: (tree as any)['depth'] || 32
+            depth: tree.getDepth(),
+            blocks
           };
 
           const putRequest = store.put(checkpoint, treeId);
@@ -92,11 +103,13 @@ export class MerkleTreePersistence {
    * Load tree state from IndexedDB
    * 
    * @param treeId - Unique identifier for the tree
-   * @returns Tree and last synced height, or null if not found
+   * @param hasher - Node hash the tree was built with (Sapling by default)
+   * @returns Tree, last synced height and recent blocks, or null if not found
    */
-  static async loadTree(treeId: string): Promise<{
-    tree: IncrementalMerkleTree;
+  static async loadTree(treeId: string, hasher: TreeHasher = SAPLING_TREE_HASHER): Promise<{
+    tree: CommitmentTree;
     height: number;
+    blocks: SyncedBlock[];
   } | null> {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(MERKLE_TREE_DB, DB_VERSION);
@@ -131,18 +144,28 @@ export class MerkleTreePersistence {
               return;
             }
 
-            // Reconstruct the tree from checkpoint
-            const tree = new IncrementalMerkleTree(checkpoint.depth || 32);
-            
-            // Restore leaves by appending each one
-            // This triggers proper tree structure rebuilding
-            for (const leaf of checkpoint.leaves) {
-              tree.append(leaf);
+            let tree: CommitmentTree;
+            if (checkpoint.tree) {
+              try {
+                tree = CommitmentTree.deserialize(checkpoint.tree, MAX_CHECKPOINTS, hasher);
+              } catch {
+                // Trees saved in an older format are rebuilt by a rescan
+                resolve(null);
+                return;
+              }
+            } else {
+              // Older records store every leaf; rebuild the frontier from them.
+              // They carry no witnesses or checkpoints, so rollback needs a rescan.
+              tree = new CommitmentTree(checkpoint.depth || 32, MAX_CHECKPOINTS, hasher);
+              for (const leaf of checkpoint.leaves ?? []) {
+                tree.append(leaf);
+              }
             }
 
             resolve({
               tree,
-              height: checkpoint.height
+              height: checkpoint.height,
+              blocks: checkpoint.blocks ?? []
             });
           };
 
@@ -336,7 +359,7 @@ export class MerkleTreePersistence {
             resolve({
               height: checkpoint.height,
               timestamp: checkpoint.timestamp,
-              leafCount: checkpoint.leaves.length
+              leafCount: checkpoint.size ?? checkpoint.leaves?.length ?? 0
             });
           };
 
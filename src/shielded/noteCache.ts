@@ -20,6 +20,7 @@ interface NoteCacheEntry {
   txIndex: number;
   outputIndex: number;
   isOutgoing: boolean;
+  sender?: string;
   addedAt: number;
 }
 
@@ -39,9 +40,21 @@ export class NoteCache {
   /** Spent nullifiers */
   private spentNullifiers: Set<string> = new Set();
   
+  /** Block height each nullifier was seen spent at, when known (for reorg rollback) */
+  private spentHeights: Map<string, number> = new Map();
+
+  /** Time of the block each nullifier was seen spent in (seconds since epoch), when known */
+  private spentTimes: Map<string, number> = new Map();
+  
+  /** Nullifiers (hex) spent by pending transactions -> spending txid */
+  private reservedNullifiers: Map<string, string> = new Map();
+  
   /** Last synced block height per address */
   private syncedHeights: Map<string, number> = new Map();
   
+  /** Commitments (hex) of notes whose memo has been read */
+  private readMemos: Set<string> = new Set();
+  
   /** Commitment tree state */
   private treeState: CommitmentTreeState | null = null;
 
@@ -62,6 +75,7 @@ export class NoteCache {
       txIndex: scannedNote.txIndex,
       outputIndex: scannedNote.outputIndex,
       isOutgoing: scannedNote.isOutgoing,
+      sender: scannedNote.sender,
       addedAt: Date.now()
     };
 
@@ -112,7 +126,7 @@ export class NoteCache {
   }
 
   /**
-   * Get all notes for an address
+   * Get all received (non-outgoing) notes for an address
    */
   getNotesForAddress(address: string): SaplingNote[] {
     const commitments = this.notesByAddress.get(address);
@@ -123,13 +137,61 @@ export class NoteCache {
     const notes: SaplingNote[] = [];
     for (const commitmentHex of commitments) {
       const entry = this.notesByCommitment.get(commitmentHex);
-      if (entry) {
+      if (entry && !entry.isOutgoing) {
         notes.push(entry.note);
       }
     }
     return notes;
   }
 
+  /**
+   * Get notes we sent (recovered with the ovk), newest first
+   *
+   * A sent note's address is the recipient's, and its memo is the one we attached.
+   *
+   * @param sender - Only notes sent from this address of ours; notes
+   *                 scanned without a known sender match any
+   */
+  getSentNotes(sender?: string): ScannedNote[] {
+    const sent: ScannedNote[] = [];
+    for (const entry of this.notesByCommitment.values()) {
+      if (entry.isOutgoing && (!sender || !entry.sender || entry.sender === sender)) {
+        sent.push({
+          note: entry.note,
+          blockHeight: entry.blockHeight,
+          txIndex: entry.txIndex,
+          outputIndex: entry.outputIndex,
+          isOutgoing: true,
+          sender: entry.sender
+        });
+      }
+    }
+    return sent.sort((a, b) => b.blockHeight - a.blockHeight || b.txIndex - a.txIndex || b.outputIndex - a.outputIndex);
+  }
+
+  /**
+   * Mark the memos of notes as read
+   */
+  markMemosRead(commitments: Array<Uint8Array | string>): void {
+    for (const commitment of commitments) {
+      this.readMemos.add(typeof commitment === 'string' ? commitment : bytesToHex(commitment));
+    }
+  }
+
+  /**
+   * Get the commitments (hex) of the notes whose memos have been read
+   */
+  getReadMemos(): string[] {
+    return Array.from(this.readMemos);
+  }
+
+  /**
+   * Check if the memo of a note has been read
+   */
+  isMemoRead(commitment: Uint8Array | string): boolean {
+    return this.readMemos.has(typeof commitment === 'string' ? commitment : bytesToHex(commitment));
+  }
+
   /**
    * Get spendable notes for an address
    */
@@ -143,9 +205,9 @@ export class NoteCache {
         return false;
       }
 
-      // Check nullifier not in spent set
+      // Check nullifier not in spent set or reserved by a pending transaction
       const nullifierHex = bytesToHex(note.nullifier);
-      if (this.spentNullifiers.has(nullifierHex)) {
+      if (this.spentNullifiers.has(nullifierHex) || this.reservedNullifiers.has(nullifierHex)) {
         return false;
       }
 
@@ -185,15 +247,28 @@ export class NoteCache {
 
   /**
    * Mark a nullifier as spent
+   * 
+   * @param blockHeight - Height of the spending transaction, if mined
+   * @param txid - Spending transaction, if known
+   * @param blockTime - Time of the spending block (seconds since epoch), if known
    */
-  markSpent(nullifier: Uint8Array): void {
+  markSpent(nullifier: Uint8Array, blockHeight?: number, txid?: string, blockTime?: number): void {
     const hex = bytesToHex(nullifier);
     this.spentNullifiers.add(hex);
+    if (blockHeight !== undefined) {
+      this.spentHeights.set(hex, blockHeight);
+    }
+    if (blockTime !== undefined) {
+      this.spentTimes.set(hex, blockTime);
+    }
 
     // Update the note if we have it
     const entry = this.notesByNullifier.get(hex);
     if (entry) {
       entry.note.spent = true;
+      if (txid) {
+        entry.note.spentTxid = txid;
+      }
     }
   }
 
@@ -214,6 +289,49 @@ export class NoteCache {
     return this.spentNullifiers.has(hex);
   }
 
+  /**
+   * Hold notes back from selection while a transaction spending them is pending
+   *
+   * @param nullifiers - Nullifiers as bytes or hex
+   */
+  reserveNotes(nullifiers: Array<Uint8Array | string>, txid: string): void {
+    for (const nullifier of nullifiers) {
+      this.reservedNullifiers.set(typeof nullifier === 'string' ? nullifier : bytesToHex(nullifier), txid);
+    }
+  }
+
+  /**
+   * Make the notes reserved by a transaction spendable again
+   */
+  releaseNotes(txid: string): void {
+    for (const [nullifier, reservedBy] of this.reservedNullifiers) {
+      if (reservedBy === txid) {
+        this.reservedNullifiers.delete(nullifier);
+      }
+    }
+  }
+
+  /**
+   * Get the pending transaction a note is reserved by, if any
+   */
+  getReservation(nullifier: Uint8Array): string | undefined {
+    return this.reservedNullifiers.get(bytesToHex(nullifier));
+  }
+
+  /**
+   * Get the block height a nullifier was seen spent at, if known
+   */
+  getSpentHeight(nullifier: Uint8Array): number | undefined {
+    return this.spentHeights.get(bytesToHex(nullifier));
+  }
+
+  /**
+   * Get the time of the block a nullifier was seen spent in (seconds since epoch), if known
+   */
+  getSpentTime(nullifier: Uint8Array): number | undefined {
+    return this.spentTimes.get(bytesToHex(nullifier));
+  }
+
   /**
    * Update witness for a note
    */
@@ -275,7 +393,7 @@ export class NoteCache {
   }
 
   /**
-   * Remove notes below a certain block height (for reorg handling)
+   * Remove notes and spends above a block height (for reorg handling)
    */
   revertToHeight(height: number): void {
     const toRemove: string[] = [];
@@ -307,6 +425,20 @@ export class NoteCache {
       }
     }
 
+    // Un-spend nullifiers revealed in reverted blocks
+    for (const [nullifierHex, spentHeight] of this.spentHeights) {
+      if (spentHeight > height) {
+        this.spentHeights.delete(nullifierHex);
+        this.spentTimes.delete(nullifierHex);
+        this.spentNullifiers.delete(nullifierHex);
+        const entry = this.notesByNullifier.get(nullifierHex);
+        if (entry) {
+          entry.note.spent = false;
+          entry.note.spentTxid = undefined;
+        }
+      }
+    }
+
     // Update synced heights
     for (const [address, syncedHeight] of this.syncedHeights) {
       if (syncedHeight > height) {
@@ -328,7 +460,11 @@ export class NoteCache {
     this.notesByNullifier.clear();
     this.notesByAddress.clear();
     this.spentNullifiers.clear();
+    this.spentHeights.clear();
+    this.spentTimes.clear();
+    this.reservedNullifiers.clear();
     this.syncedHeights.clear();
+    this.readMemos.clear();
     this.treeState = null;
   }
 
@@ -344,14 +480,18 @@ export class NoteCache {
         blockHeight: entry.blockHeight,
         txIndex: entry.txIndex,
         outputIndex: entry.outputIndex,
-        isOutgoing: entry.isOutgoing
+        isOutgoing: entry.isOutgoing,
+        sender: entry.sender
       });
     }
 
     return {
       notes,
       spentNullifiers: Array.from(this.spentNullifiers),
+      spentHeights: Object.fromEntries(this.spentHeights),
+      spentTimes: Object.fromEntries(this.spentTimes),
       syncedHeights: Object.fromEntries(this.syncedHeights),
+      readMemos: Array.from(this.readMemos),
       treeState: this.treeState ? {
         root: bytesToHex(this.treeState.root),
         size: this.treeState.size,
@@ -373,7 +513,8 @@ export class NoteCache {
         blockHeight: serialized.blockHeight,
         txIndex: serialized.txIndex,
         outputIndex: serialized.outputIndex,
-        isOutgoing: serialized.isOutgoing
+        isOutgoing: serialized.isOutgoing,
+        sender: serialized.sender
       });
     }
 
@@ -381,10 +522,22 @@ export class NoteCache {
       this.spentNullifiers.add(nullifierHex);
     }
 
+    for (const [nullifierHex, height] of Object.entries(state.spentHeights ?? {})) {
+      this.spentHeights.set(nullifierHex, height);
+    }
+
+    for (const [nullifierHex, time] of Object.entries(state.spentTimes ?? {})) {
+      this.spentTimes.set(nullifierHex, time);
+    }
+
     for (const [address, height] of Object.entries(state.syncedHeights)) {
       this.syncedHeights.set(address, height);
     }
 
+    for (const commitmentHex of state.readMemos ?? []) {
+      this.readMemos.add(commitmentHex);
+    }
+
     if (state.treeState) {
       this.treeState = {
         root: hexToBytes(state.treeState.root),
@@ -401,7 +554,10 @@ export class NoteCache {
 interface CacheState {
   notes: SerializedNote[];
   spentNullifiers: string[];
+  spentHeights?: Record<string, number>;
+  spentTimes?: Record<string, number>;
   syncedHeights: Record<string, number>;
+  readMemos?: string[];
   treeState: {
     root: string;
     size: number;
@@ -419,6 +575,7 @@ interface SerializedNote {
   txIndex: number;
   outputIndex: number;
   isOutgoing: boolean;
+  sender?: string;
 }
 
 /**
@@ -436,8 +593,11 @@ interface SerializedNoteData {
   pkD: string;
   position?: number;
   blockHeight?: number;
+  blockTime?: number;
+  txid?: string;
   memo?: string;
   spent: boolean;
+  spentTxid?: string;
 }
 
 /**
@@ -456,8 +616,11 @@ function serializeNote(note: SaplingNote): SerializedNoteData {
     pkD: bytesToHex(note.pkD),
     position: note.position,
     blockHeight: note.blockHeight,
+    blockTime: note.blockTime,
+    txid: note.txid,
     memo: note.memo ? bytesToHex(note.memo) : undefined,
-    spent: note.spent
+    spent: note.spent,
+    spentTxid: note.spentTxid
   };
 }
 
@@ -467,7 +630,7 @@ function serializeNote(note: SaplingNote): SerializedNoteData {
 function deserializeNote(data: SerializedNoteData): SaplingNote {
   return {
     commitment: hexToBytes(data.commitment),
-    nullifier: hexToBytes(data.nullifier),
+    nullifier: data.nullifier ? hexToBytes(data.nullifier) : new Uint8Array(0),
     value: data.value,
     rcm: hexToBytes(data.rcm),
     rseed: hexToBytes(data.rseed),
@@ -477,8 +640,11 @@ function deserializeNote(data: SerializedNoteData): SaplingNote {
     pkD: hexToBytes(data.pkD),
     position: data.position,
     blockHeight: data.blockHeight,
+    blockTime: data.blockTime,
+    txid: data.txid,
     memo: data.memo ? hexToBytes(data.memo) : undefined,
-    spent: data.spent
+    spent: data.spent,
+    spentTxid: data.spentTxid
   };
 }
 
@@ -314,6 +314,21 @@ export class PersistentNoteCache {
     return this.cache.getNotesForAddress(address);
   }
 
+  /**
+   * Get notes we sent (recovered with the ovk)
+   */
+  getSentNotes() {
+    return this.cache.getSentNotes();
+  }
+
+  /**
+   * Mark the memos of notes as read and persist
+   */
+  markMemosRead(commitments: Array<Uint8Array | string>): void {
+    this.cache.markMemosRead(commitments);
+    this.saveToStorage();
+  }
+
   /**
    * Get spendable notes for an address
    */
@@ -331,8 +346,8 @@ export class PersistentNoteCache {
   /**
    * Mark a nullifier as spent and persist
    */
-  markSpent(nullifier: Uint8Array): void {
-    this.cache.markSpent(nullifier);
+  markSpent(nullifier: Uint8Array, blockHeight?: number, txid?: string): void {
+    this.cache.markSpent(nullifier, blockHeight, txid);
     this.saveToStorage();
   }
 
@@ -411,7 +426,7 @@ export class PersistentNoteCache {
   }
 
   /**
-   * Remove notes below a certain block height and persist
+   * Remove notes and spends above a block height and persist
    */
   revertToHeight(height: number): void {
     this.cache.revertToHeight(height);
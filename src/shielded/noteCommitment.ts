@@ -5,10 +5,16 @@
 
 import { blake2s } from '@noble/hashes/blake2s';
 import { blake2b } from '@noble/hashes/blake2b';
-import { concatBytes } from '../utils/bytes';
+import { jubjub } from '@noble/curves/misc';
+import { mod } from '@noble/curves/abstract/modular';
+import { bigintToLEBytes, concatBytes, leBytesToBigint, stringToBytes } from '../utils/bytes';
 import { computePedersenNoteCommitment, computePedersenValueCommitment } from './pedersenHash.js';
+import { bytesToBigInt, bigIntToBytes, reduceModOrder } from './scalarArithmetic.js';
 import { NULLIFIER_KEY_GENERATOR_COORDS, JubjubPoint, FieldElement, bytesToBigIntLE } from './jubjubHelper.js';
+import { findGroupHash, pedersenHashToPoint } from './saplingMerkleHash.js';
+import { saplingDiversifiedBase } from './zip32.js';
 import type {
+  SaplingNote,
   SaplingPaymentAddress,
   NotePlaintext
 } from './types.js';
@@ -19,11 +25,6 @@ const SAPLING_COMMITMENT_PERSONALIZATION = new Uint8Array([
   0x4e, 0x6f, 0x74, 0x65, 0x43, 0x6f, 0x6d, 0x6d  // "NoteComm"
 ]);
 
-const SAPLING_NULLIFIER_PERSONALIZATION = new Uint8Array([
-  0x53, 0x61, 0x70, 0x6c, 0x69, 0x6e, 0x67, 0x5f, // "Sapling_"
-  0x4e, 0x75, 0x6c, 0x6c, 0x69, 0x66, 0x69, 0x65  // "Nullifie"
-]);
-
 const SAPLING_PRF_EXPAND_PERSONALIZATION = new Uint8Array([
   0x53, 0x61, 0x70, 0x6c, 0x69, 0x6e, 0x67, 0x5f, // "Sapling_"
   0x45, 0x78, 0x70, 0x61, 0x6e, 0x64, 0x53, 0x65  // "ExpandSe"
@@ -69,40 +70,108 @@ export function computeNoteCommitment(
 }
 
 /**
- * Compute nullifier for a note
- * 
- * The nullifier is: BLAKE2s-256("Sapling_Nullifie", nk || position || cmu)
- * 
- * In reality, this uses a PRF with the nullifier key, but we use BLAKE2s
- * as a placeholder.
+ * Compute the nullifier of a note (protocol spec 4.16)
+ *
+ * nf = PRF^nf(nk, rho) = BLAKE2s-256("Zcash_nf", repr(nk) || repr(rho)),
+ * where rho = cm + [position] J mixes the note's position in the commitment
+ * tree into its commitment point cm. Only the holder of nk (a full viewing
+ * key) can compute it, so it is derived once the note's position is known.
+ *
+ * @param nk - Nullifier deriving key (encoded Jubjub point)
+ * @param note - Opening of the note commitment
+ * @param position - Position of the note in the commitment tree
  */
 export function computeNullifier(
   nk: Uint8Array,
-  cmu: Uint8Array,
+  note: Pick<SaplingNote, 'diversifier' | 'pkD' | 'value' | 'rcm'>,
   position: bigint
 ): Uint8Array {
   if (nk.length !== 32) {
     throw new Error('nk must be 32 bytes');
   }
-  if (cmu.length !== 32) {
-    throw new Error('cmu must be 32 bytes');
+  if (position < 0n) {
+    throw new Error(`Invalid note position: ${position}`);
   }
 
-  // Encode position as 8 bytes little-endian
-  const positionBytes = new Uint8Array(8);
-  const view = new DataView(positionBytes.buffer);
-  view.setBigUint64(0, position, true);
-
-  // Concatenate inputs
-  const input = concatBytes(nk, positionBytes, cmu);
+  const cm = saplingNoteCommitmentPoint(note.diversifier, note.pkD, BigInt(note.value), note.rcm);
+  const rho = position === 0n ? cm : cm.add(getMixingGenerator().multiplyUnsafe(position));
 
-  // Compute nullifier using BLAKE2s
-  return blake2s(input, {
-    key: SAPLING_NULLIFIER_PERSONALIZATION,
-    dkLen: 32
+  return blake2s(concatBytes(nk, rho.toBytes()), {
+    dkLen: 32,
+    personalization: stringToBytes('Zcash_nf')
   });
 }
 
+/**
+ * NoteCommit^Sapling(g_d, pk_d, v) with trapdoor rcm, as a Jubjub point
+ *
+ * WindowedPedersenCommit_rcm([1]^6 || I2LEBSP_64(v) || repr(g_d) || repr(pk_d))
+ * = PedersenHashToPoint("Zcash_PH", bits) + [rcm] FindGroupHash^J("Zcash_PH", "r")
+ */
+function saplingNoteCommitmentPoint(
+  diversifier: Uint8Array,
+  pkD: Uint8Array,
+  value: bigint,
+  rcm: Uint8Array
+): typeof jubjub.Point.BASE {
+  if (pkD.length !== 32) {
+    throw new Error('pkD must be 32 bytes');
+  }
+  if (rcm.length !== 32) {
+    throw new Error('rcm must be 32 bytes');
+  }
+  const gd = saplingDiversifiedBase(diversifier);
+  if (!gd) {
+    throw new Error('Invalid diversifier: no diversified base');
+  }
+
+  const bits = [
+    ...new Array(6).fill(1),
+    ...bytesToBits(bigintToLEBytes(value, 8)),
+    ...bytesToBits(gd),
+    ...bytesToBits(pkD)
+  ];
+  const trapdoor = mod(leBytesToBigint(rcm), jubjub.CURVE.n);
+  const hash = pedersenHashToPoint(bits);
+  return trapdoor === 0n ? hash : hash.add(getCommitmentRandomnessGenerator().multiply(trapdoor));
+}
+
+let commitmentRandomnessGenerator: typeof jubjub.Point.BASE | null = null;
+let mixingGenerator: typeof jubjub.Point.BASE | null = null;
+
+/**
+ * FindGroupHash^J("Zcash_PH", "r"), the base of note commitment trapdoors
+ */
+function getCommitmentRandomnessGenerator(): typeof jubjub.Point.BASE {
+  if (!commitmentRandomnessGenerator) {
+    commitmentRandomnessGenerator = findGroupHash(stringToBytes('r'), stringToBytes('Zcash_PH'));
+  }
+  return commitmentRandomnessGenerator;
+}
+
+/**
+ * J = FindGroupHash^J("Zcash_J_", ""), the base of the mixing Pedersen hash
+ */
+function getMixingGenerator(): typeof jubjub.Point.BASE {
+  if (!mixingGenerator) {
+    mixingGenerator = findGroupHash(new Uint8Array(0), stringToBytes('Zcash_J_'));
+  }
+  return mixingGenerator;
+}
+
+/**
+ * LEOS2BSP: the bits of a byte string, least significant first within each byte
+ */
+function bytesToBits(bytes: Uint8Array): number[] {
+  const bits: number[] = [];
+  for (const byte of bytes) {
+    for (let i = 0; i < 8; i++) {
+      bits.push((byte >> i) & 1);
+    }
+  }
+  return bits;
+}
+
 /**
  * Derive nullifier key (nk) from nullifier deriving key (nsk)
  * 
@@ -167,6 +236,19 @@ export function deriveRcmFromRseed(rseed: Uint8Array): Uint8Array {
   return expanded.slice(0, 32);
 }
 
+/**
+ * Derive the ephemeral secret key from rseed (ZIP 212)
+ * 
+ * esk = ToScalar(PRF^expand(rseed, 0x05))
+ */
+export function deriveEskFromRseed(rseed: Uint8Array): Uint8Array {
+  if (rseed.length !== 32) {
+    throw new Error('rseed must be 32 bytes');
+  }
+  
+  return bigIntToBytes(reduceModOrder(bytesToBigInt(prfExpand(rseed, 0x05))));
+}
+
 /**
  * Partial note type for creation (without nullifier, position, witness)
  */
@@ -10,14 +10,30 @@ import type {
   SaplingFullViewingKey,
   ScannedNote,
   CompactNote,
+  CompactOrchardNote,
   ScanProgress
 } from './types.js';
-import { computeNoteCommitment, deriveRcmFromRseed } from './noteCommitment.js';
+import { computeNoteCommitment, computeNullifier, deriveRcmFromRseed } from './noteCommitment.js';
 import { NoteCache } from './noteCache.js';
 import { concatBytes, bytesToHex, hexToBytes } from '../utils/bytes';
 import { computeSharedSecret, derivePkd } from './jubjubHelper.js';
 import { MerkleTreePersistence } from './merkleTreePersistence.js';
+import { CommitmentTree } from './commitmentTree.js';
+import type { TreeHasher } from './commitmentTree.js';
+import { orchardTreeHasher, ORCHARD_TREE_DEPTH } from './halo2Prover.js';
+import type { OrchardPrimitives } from './halo2Prover.js';
+import type { OrchardNoteScanner } from './orchardNoteScanner.js';
+import type { OrchardNoteCache } from './orchardNoteCache.js';
 import { encodeZcashAddress } from './bech32.js';
+import {
+  tryDecryptSaplingOutput,
+  tryRecoverSaplingOutgoing,
+  SAPLING_ENC_CIPHERTEXT_SIZE
+} from './saplingNoteEncryption.js';
+import type { DecryptedSaplingNote } from './saplingNoteEncryption.js';
+import { compactBlockToBlockData } from './lightwalletdClient.js';
+import type { LightwalletdClient } from './lightwalletdClient.js';
+import type { ScanWorkerPool } from './scanWorkerPool.js';
 
 // ChaCha20Poly1305 personalization
 const NOTE_ENCRYPTION_PERSONALIZATION = new Uint8Array([
@@ -31,9 +47,32 @@ const NOTE_ENCRYPTION_PERSONALIZATION = new Uint8Array([
 export interface BlockData {
   height: number;
   hash: string;
+  /** Hash of the previous block, when the source provides it */
+  prevHash?: string;
+  /** Block time in seconds since epoch, when the source provides it */
+  time?: number;
   transactions: TransactionData[];
 }
 
+/**
+ * Synced block record kept for reorg detection
+ */
+export interface SyncedBlock {
+  height: number;
+  hash: string;
+  /** Commitment tree size after this block */
+  treeSize: number;
+
+  /** Orchard commitment tree size after this block, when Orchard is scanned */
+  orchardTreeSize?: number;
+}
+
+/**
+ * Number of recent blocks remembered for reorg detection
+ * (zcashd treats 100 confirmations as final)
+ */
+export const REORG_WINDOW = 100;
+
 /**
  * Transaction data for scanning
  */
@@ -41,6 +80,8 @@ export interface TransactionData {
   txid: string;
   outputs: CompactNote[];
   nullifiers: Uint8Array[];
+  /** Orchard actions (v5 transactions) */
+  actions?: CompactOrchardNote[];
 }
 
 /**
@@ -55,6 +96,32 @@ export interface ScannerConfig {
   
   /** Whether to scan for outgoing notes as well */
   scanOutgoing: boolean;
+
+  /**
+   * Outgoing viewing key for recovering sent notes
+   * (defaults to the full viewing key's ovk)
+   */
+  ovk?: Uint8Array;
+
+  /**
+   * Nullifier deriving key for the nullifiers of received notes, which
+   * let the scanner see them spent (defaults to the full viewing key's nk).
+   * Without it, found notes have no nullifier.
+   */
+  nk?: Uint8Array;
+
+  /**
+   * Address that received notes are filed under, whichever diversified
+   * address they were sent to (defaults to that diversified address).
+   * Also recorded as the sender of recovered outgoing notes.
+   */
+  accountAddress?: string;
+
+  /**
+   * Worker pool for trial decryption; blocks are scanned on the
+   * calling thread when omitted
+   */
+  workerPool?: ScanWorkerPool;
 }
 
 const DEFAULT_CONFIG: ScannerConfig = {
@@ -67,6 +134,8 @@ const DEFAULT_CONFIG: ScannerConfig = {
  */
 export class NoteScanner {
   private ivk: SaplingIncomingViewingKey;
+  private ovk: Uint8Array | null;
+  private nk: Uint8Array | null;
   private cache: NoteCache;
   private config: ScannerConfig;
   private aborted: boolean = false;
@@ -86,11 +155,13 @@ export class NoteScanner {
     ivk: SaplingIncomingViewingKey,
     cache: NoteCache,
     config: Partial<ScannerConfig> = {},
-    _fvk?: SaplingFullViewingKey
+    fvk?: SaplingFullViewingKey
   ) {
     this.ivk = ivk;
     this.cache = cache;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.ovk = this.config.ovk ?? fvk?.ovk ?? null;
+    this.nk = this.config.nk ?? fvk?.nk ?? null;
   }
 
   /**
@@ -126,6 +197,10 @@ export class NoteScanner {
     endHeight: number,
     merkleTree?: IncrementalMerkleTree
   ): Promise<ScannedNote[]> {
+    if (this.config.workerPool) {
+      return this.scanBlocksInWorkers(this.config.workerPool, blocks, startHeight, endHeight, merkleTree);
+    }
+
     const foundNotes: ScannedNote[] = [];
     const totalBlocks = endHeight - startHeight + 1;
     let processedBlocks = 0;
@@ -138,25 +213,15 @@ export class NoteScanner {
       // First, add all commitments to Merkle tree (if provided)
       // This ensures we can generate witnesses for our notes
       if (merkleTree) {
-        for (const tx of block.transactions) {
-          for (const output of tx.outputs) {
-            // Add commitment to tree and get position
-            const position = merkleTree.append(output.cmu);
-            // Store position in output for later use
-            (output as any).position = position;
-          }
-        }
+        this.appendCommitments(block, merkleTree);
       }
 
       const blockNotes = await this.scanBlock(block, merkleTree);
       foundNotes.push(...blockNotes);
 
-      // Update spent nullifiers
-      for (const tx of block.transactions) {
-        for (const nullifier of tx.nullifiers) {
-          this.cache.markSpent(nullifier);
-        }
-      }
+      // Notes go in before the block's spends, which may spend them
+      this.addFoundNotes(blockNotes);
+      this.markBlockSpends(block);
 
       processedBlocks++;
 
@@ -172,18 +237,131 @@ export class NoteScanner {
       }
     }
 
-    // Add found notes to cache with witnesses
+    this.attachWitnesses(foundNotes, merkleTree);
+    return foundNotes;
+  }
+
+  /**
+   * Scan a range of blocks with trial decryption spread across a worker pool
+   *
+   * Batches come back in block order, so the tree, spent nullifiers and
+   * progress are updated here just as in a sequential scan. Aborting stops
+   * after the batch in hand.
+   */
+  private async scanBlocksInWorkers(
+    pool: ScanWorkerPool,
+    blocks: BlockData[],
+    startHeight: number,
+    endHeight: number,
+    merkleTree?: IncrementalMerkleTree
+  ): Promise<ScannedNote[]> {
+    await pool.initialize({
+      ivk: this.ivk.ivk,
+      ovk: this.config.scanOutgoing ? this.ovk : null
+    });
+
+    const foundNotes: ScannedNote[] = [];
+    const totalBlocks = endHeight - startHeight + 1;
+    let processedBlocks = 0;
+
+    for await (const batch of pool.scan(blocks, () => this.aborted)) {
+      if (merkleTree) {
+        for (const block of batch.blocks) {
+          this.appendCommitments(block, merkleTree);
+        }
+      }
+
+      // Workers never see tree positions, block times or the account address; fill them in here
+      for (const scannedNote of batch.notes) {
+        const block = batch.blocks.find(b => b.height === scannedNote.blockHeight);
+        scannedNote.note.blockTime = block?.time;
+        if (scannedNote.isOutgoing) {
+          scannedNote.sender = this.config.accountAddress;
+          continue;
+        }
+        scannedNote.note.address = this.receivingAddress(scannedNote.note.diversifier, scannedNote.note.pkD);
+        const output = block?.transactions[scannedNote.txIndex]?.outputs[scannedNote.outputIndex];
+        if (output && (output as any).position !== undefined) {
+          scannedNote.note.position = (output as any).position;
+        }
+      }
+      foundNotes.push(...batch.notes);
+
+      // Notes go in before the batch's spends, which may spend them
+      this.addFoundNotes(batch.notes);
+      for (const block of batch.blocks) {
+        this.markBlockSpends(block);
+      }
+
+      processedBlocks += batch.blocks.length;
+      if (this.config.onProgress) {
+        this.config.onProgress({
+          startHeight,
+          endHeight,
+          currentHeight: batch.blocks[batch.blocks.length - 1].height,
+          notesFound: foundNotes.length,
+          percentComplete: (processedBlocks / totalBlocks) * 100
+        });
+      }
+    }
+
+    this.attachWitnesses(foundNotes, merkleTree);
+    return foundNotes;
+  }
+
+  /**
+   * Append a block's note commitments to the tree, recording each
+   * output's position
+   */
+  private appendCommitments(block: BlockData, merkleTree: IncrementalMerkleTree): void {
+    for (const tx of block.transactions) {
+      for (const output of tx.outputs) {
+        // Store position in output for later use
+        (output as any).position = merkleTree.append(output.cmu);
+      }
+    }
+  }
+
+  /**
+   * Mark the nullifiers revealed in a block as spent
+   */
+  private markBlockSpends(block: BlockData): void {
+    for (const tx of block.transactions) {
+      for (const nullifier of tx.nullifiers) {
+        this.cache.markSpent(nullifier, block.height, tx.txid, block.time);
+      }
+    }
+  }
+
+  /**
+   * Add found notes to the cache, deriving the nullifiers of received
+   * notes whose tree position is known
+   */
+  private addFoundNotes(foundNotes: ScannedNote[]): void {
+    for (const scannedNote of foundNotes) {
+      const { note } = scannedNote;
+      if (!scannedNote.isOutgoing && this.nk && note.position !== undefined) {
+        note.nullifier = computeNullifier(this.nk, note, BigInt(note.position));
+      }
+      this.cache.addNote(scannedNote);
+    }
+  }
+
+  /**
+   * Give found notes their witnesses against the tree as of the end of the scan
+   */
+  private attachWitnesses(foundNotes: ScannedNote[], merkleTree?: IncrementalMerkleTree): void {
+    if (!merkleTree) {
+      return;
+    }
     for (const scannedNote of foundNotes) {
-      if (scannedNote.note.position !== undefined && merkleTree) {
+      if (scannedNote.note.position !== undefined) {
         const witness = merkleTree.witness(scannedNote.note.position);
         if (witness) {
           scannedNote.note.witness = witness;
         }
       }
-      this.cache.addNote(scannedNote);
     }
-
-    return foundNotes;
   }
 
   /**
@@ -204,6 +382,8 @@ export class NoteScanner {
         try {
           const note = await this.tryDecryptNote(output, block.height);
           if (note) {
+            note.txid = tx.txid;
+            note.blockTime = block.time;
             // Get position from output if available (set during tree.append)
             if ((output as any).position !== undefined) {
               note.position = (output as any).position;
@@ -216,12 +396,30 @@ export class NoteScanner {
               outputIndex,
               isOutgoing: false
             });
+            continue;
           }
         } catch (error) {
           // Note not for us or decryption failed
           // Error already logged in tryDecryptNote
           // Continue scanning other notes
         }
+
+        // Not received by us - it may be a note we sent
+        if (this.config.scanOutgoing && this.ovk) {
+          const sent = this.tryRecoverOutgoingNote(output, block.height);
+          if (sent) {
+            sent.txid = tx.txid;
+            sent.blockTime = block.time;
+            notes.push({
+              note: sent,
+              blockHeight: block.height,
+              txIndex,
+              outputIndex,
+              isOutgoing: true,
+              sender: this.config.accountAddress
+            });
+          }
+        }
       }
     }
 
@@ -231,6 +429,10 @@ export class NoteScanner {
   /**
    * Try to decrypt a note with our viewing key
    * 
+   * Full 580-byte ciphertexts (from verbose getblock/getrawtransaction) are
+   * decrypted per ZIP 212 and yield the memo; compact ciphertexts go through
+   * the compact path below.
+   * 
    * Implements Zcash Sapling note decryption per protocol specification:
    * 1. Derive shared secret via ECDH on Jubjub curve
    * 2. Derive decryption key from shared secret
@@ -244,6 +446,10 @@ export class NoteScanner {
   ): Promise<SaplingNote | null> {
     this.decryptionStats.attempts++;
 
+    if (compactNote.encCiphertext?.length === SAPLING_ENC_CIPHERTEXT_SIZE) {
+      return this.tryDecryptFullNote(compactNote, compactNote.encCiphertext, blockHeight);
+    }
+
     try {
       // Validate inputs
       if (!compactNote.cmu || compactNote.cmu.length !== 32) {
@@ -414,15 +620,13 @@ export class NoteScanner {
         throw new Error('Commitment verification failed: decrypted note does not match commitment');
       }
 
-      // Step 8: Encode address using proper Bech32 encoding
-      const network = this.getNetwork();
-      const hrp = network === 'testnet' ? 'ztestsapling' : 'zs';
-      const address = encodeZcashAddress(hrp, notePlaintext.diversifier, pkD);
+      // Step 8: Attribute the note to our account address
+      const address = this.receivingAddress(notePlaintext.diversifier, pkD);
 
       // Construct the note with position for Merkle tree
       const note: SaplingNote = {
         commitment: compactNote.cmu,
-        nullifier: new Uint8Array(32), // Will compute when spending
+        nullifier: new Uint8Array(0), // Derived with nk once the tree position is known
         value: Number(notePlaintext.value),
         rcm,
         rseed: notePlaintext.rseed,
@@ -458,6 +662,114 @@ export class NoteScanner {
     }
   }
 
+  /**
+   * Trial-decrypt a full output ciphertext, including the memo
+   */
+  private tryDecryptFullNote(
+    output: CompactNote,
+    encCiphertext: Uint8Array,
+    blockHeight: number
+  ): SaplingNote | null {
+    const decrypted = tryDecryptSaplingOutput(
+      { cmu: output.cmu, ephemeralKey: output.ephemeralKey, encCiphertext },
+      this.ivk.ivk
+    );
+    if (!decrypted) {
+      // Not addressed to us - the common case when trial-decrypting
+      this.decryptionStats.failures++;
+      const reason = 'Not addressed to this viewing key';
+      this.decryptionStats.failureReasons.set(reason, (this.decryptionStats.failureReasons.get(reason) || 0) + 1);
+      return null;
+    }
+
+    this.decryptionStats.successes++;
+    return this.toNote(
+      decrypted,
+      output.cmu,
+      blockHeight,
+      new Uint8Array(0), // Derived with nk once the tree position is known
+      this.receivingAddress(decrypted.diversifier, decrypted.pkD)
+    );
+  }
+
+  /**
+   * Try to recover a note we sent, using the outgoing viewing key
+   *
+   * Needs the full output description (cv, encCiphertext, outCiphertext);
+   * compact outputs from lightwalletd cannot be recovered.
+   */
+  tryRecoverOutgoingNote(output: CompactNote, blockHeight: number): SaplingNote | null {
+    if (!this.ovk || !output.cv || !output.encCiphertext || !output.outCiphertext) {
+      return null;
+    }
+
+    const recovered = tryRecoverSaplingOutgoing(
+      {
+        cv: output.cv,
+        cmu: output.cmu,
+        ephemeralKey: output.ephemeralKey,
+        encCiphertext: output.encCiphertext,
+        outCiphertext: output.outCiphertext
+      },
+      this.ovk
+    );
+    if (!recovered) {
+      return null;
+    }
+
+    return this.toNote(
+      recovered,
+      output.cmu,
+      blockHeight,
+      new Uint8Array(0), // Only the recipient can derive it
+      this.encodeAddress(recovered.diversifier, recovered.pkD)
+    );
+  }
+
+  /**
+   * Build a cache note from a decrypted output
+   */
+  private toNote(
+    decrypted: DecryptedSaplingNote,
+    cmu: Uint8Array,
+    blockHeight: number,
+    nullifier: Uint8Array,
+    address: string
+  ): SaplingNote {
+    return {
+      commitment: cmu,
+      nullifier,
+      value: Number(decrypted.value),
+      rcm: decrypted.rcm,
+      rseed: decrypted.rseed,
+      cmu,
+      address,
+      diversifier: decrypted.diversifier,
+      pkD: decrypted.pkD,
+      blockHeight,
+      memo: decrypted.memo,
+      spent: false
+    };
+  }
+
+  /**
+   * Address a received note is filed under
+   *
+   * Every diversified address of the ivk receives into the same account, so
+   * notes are attributed to the account address when one is configured.
+   */
+  private receivingAddress(diversifier: Uint8Array, pkD: Uint8Array): string {
+    return this.config.accountAddress ?? this.encodeAddress(diversifier, pkD);
+  }
+
+  /**
+   * Encode a Sapling payment address for the scanner's network
+   */
+  private encodeAddress(diversifier: Uint8Array, pkD: Uint8Array): string {
+    const hrp = this.getNetwork() === 'testnet' ? 'ztestsapling' : 'zs';
+    return encodeZcashAddress(hrp, diversifier, pkD);
+  }
+
   /**
    * Derive shared secret from ivk and ephemeral key
    *
@@ -640,6 +952,9 @@ export interface MerkleWitness {
 /**
  * Incremental Merkle Tree for witnesses
  * Optimized implementation with precomputed empty nodes and caching
+ *
+ * Keeps every leaf in memory, so it is only suited to scanning short block
+ * ranges. Wallet sync uses the frontier-based CommitmentTree.
  */
 export class IncrementalMerkleTree {
   private leaves: Uint8Array[] = [];
@@ -682,6 +997,19 @@ export class IncrementalMerkleTree {
     return position;
   }
 
+  /**
+   * Remove leaves so that the tree has the given size (for reorg rollback)
+   */
+  truncate(size: number): void {
+    if (size < 0 || size > this.leaves.length) {
+      throw new Error(`Cannot truncate tree of size ${this.leaves.length} to ${size}`);
+    }
+    if (size < this.leaves.length) {
+      this.leaves.length = size;
+      this.cachedRoot = null;
+    }
+  }
+
   /**
    * Get root of the tree (with caching for performance)
    */
@@ -847,6 +1175,38 @@ export interface RPCClientInterface {
   getBlockHash(height: number): Promise<string>;
   getBlock(hash: string, verbosity: number): Promise<any>;
   getRawTransaction(txid: string, verbose: boolean): Promise<any>;
+  getTreeState?(height: number): Promise<{
+    height: number;
+    hash?: string;
+    finalState?: string;
+    orchardFinalState?: string;
+  } | null>;
+}
+
+/**
+ * Commitment tree snapshot at a block (from z_gettreestate or GetTreeState)
+ */
+export interface TreeStateSnapshot {
+  height: number;
+
+  /** Block hash (display order hex), used for reorg detection */
+  hash?: string;
+
+  /** Serialized Sapling commitment tree (hex or bytes) */
+  saplingTree: string | Uint8Array;
+
+  /** Serialized Orchard commitment tree (hex or bytes), needed when Orchard is scanned */
+  orchardTree?: string | Uint8Array;
+}
+
+/**
+ * Orchard scanning state kept next to the Sapling tree
+ */
+interface OrchardSyncState {
+  scanner: OrchardNoteScanner;
+  cache: OrchardNoteCache;
+  hasher: TreeHasher;
+  tree: CommitmentTree;
 }
 
 /**
@@ -856,14 +1216,37 @@ export interface RPCClientInterface {
 export class ShieldedStateSynchronizer {
   private scanner: NoteScanner;
   private cache: NoteCache;
-  private tree: IncrementalMerkleTree;
+  private tree: CommitmentTree;
   private rpcClient: RPCClientInterface | null = null;
+  private lightwalletd: LightwalletdClient | null = null;
   private initialized: boolean = false;
+  private recentBlocks: SyncedBlock[] = [];
+  private birthdayHeight: number = 0;
+  private orchard: OrchardSyncState | null = null;
 
   constructor(scanner: NoteScanner, cache: NoteCache) {
     this.scanner = scanner;
     this.cache = cache;
-    this.tree = new IncrementalMerkleTree();
+    this.tree = new CommitmentTree(32, REORG_WINDOW);
+  }
+
+  /**
+   * Also scan Orchard actions, keeping the Orchard commitment tree
+   * alongside the Sapling one
+   *
+   * Must be set before syncing begins, since both trees advance together.
+   */
+  setOrchardScanner(scanner: OrchardNoteScanner, cache: OrchardNoteCache, primitives: OrchardPrimitives): void {
+    if (this.initialized || this.tree.size() > 0) {
+      throw new Error('Cannot add Orchard scanning after syncing has begun; reset the synchronizer first');
+    }
+    const hasher = orchardTreeHasher(primitives);
+    this.orchard = {
+      scanner,
+      cache,
+      hasher,
+      tree: new CommitmentTree(ORCHARD_TREE_DEPTH, REORG_WINDOW, hasher)
+    };
   }
 
   /**
@@ -873,6 +1256,73 @@ export class ShieldedStateSynchronizer {
     this.rpcClient = client;
   }
 
+  /**
+   * Set the lightwalletd client
+   * Compact blocks from lightwalletd take precedence over the RPC client
+   */
+  setLightwalletdClient(client: LightwalletdClient): void {
+    this.lightwalletd = client;
+  }
+
+  /**
+   * Set the wallet birthday: the first block that can contain our notes
+   *
+   * A wallet that has not synced yet starts its tree from the tree state
+   * just below the birthday instead of scanning from genesis.
+   */
+  setBirthdayHeight(height: number): void {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error(`Invalid birthday height: ${height}`);
+    }
+    this.birthdayHeight = height;
+  }
+
+  /**
+   * Get the wallet birthday height (0 if not set)
+   */
+  getBirthdayHeight(): number {
+    return this.birthdayHeight;
+  }
+
+  /**
+   * Start an unsynced wallet from a commitment tree snapshot
+   * Scanning continues from the block after the snapshot.
+   */
+  async initializeFromTreeState(address: string, state: TreeStateSnapshot): Promise<void> {
+    if (this.tree.size() > 0 || this.cache.getSyncedHeight(address) > 0) {
+      throw new Error('Cannot start from a tree state after syncing has begun; reset the synchronizer first');
+    }
+
+    this.tree = CommitmentTree.fromTreeState(state.saplingTree, 32, REORG_WINDOW);
+    this.tree.checkpoint(state.height);
+    if (this.orchard) {
+      if (state.orchardTree === undefined) {
+        throw new Error(`No Orchard commitment tree state at height ${state.height}`);
+      }
+      this.orchard.tree = CommitmentTree.fromTreeState(
+        state.orchardTree, ORCHARD_TREE_DEPTH, REORG_WINDOW, this.orchard.hasher
+      );
+      this.orchard.tree.checkpoint(state.height);
+    }
+    this.recentBlocks = [];
+    this.recordBlock({
+      height: state.height,
+      hash: state.hash ?? '',
+      treeSize: this.tree.size(),
+      orchardTreeSize: this.orchard?.tree.size()
+    });
+    this.initialized = true;
+
+    this.cache.updateSyncedHeight(address, state.height);
+    this.cache.updateTreeState({
+      root: this.tree.root(),
+      size: this.tree.size(),
+      blockHeight: state.height
+    });
+
+    await this.persistTrees(address, state.height);
+  }
+
   /**
    * Initialize the synchronizer
    * Loads persisted tree state if available
@@ -882,42 +1332,57 @@ export class ShieldedStateSynchronizer {
 
     try {
       const saved = await MerkleTreePersistence.loadTree(`tree-${address}`);
-      if (saved) {
+      const orchard = this.orchard;
+      const savedOrchard = orchard
+        ? await MerkleTreePersistence.loadTree(`orchard-tree-${address}`, orchard.hasher)
+        : null;
+      // Without a matching Orchard tree, both trees are rebuilt by a rescan
+      if (saved && (!orchard || savedOrchard)) {
         this.tree = saved.tree;
+        this.recentBlocks = saved.blocks;
+        if (orchard && savedOrchard) {
+          orchard.tree = savedOrchard.tree;
+        }
         // Tree restored from persisted state
       } else {
-        this.tree = new IncrementalMerkleTree(32);
+        this.resetTrees();
         // Created new tree (no persisted state found)
       }
       this.initialized = true;
     } catch (error) {
       // Failed to load persisted tree - create new tree and continue
-      this.tree = new IncrementalMerkleTree(32);
+      this.resetTrees();
       this.initialized = true;
     }
   }
 
   /**
    * Sync from a starting height
-   * Uses RPC client if available, otherwise uses provided fetchBlocks callback
+   * Uses lightwalletd or the RPC client if available, otherwise uses the
+   * provided fetchBlocks callback
+   *
+   * Before scanning, the most recently synced blocks are checked against the
+   * current chain. If the chain has reorganized, notes, spends and tree
+   * commitments above the fork point are rolled back and the replaced blocks
+   * are scanned again.
    */
   async sync(
     address: string,
     fetchBlocks?: (from: number, to: number) => Promise<BlockData[]>,
     startHeight?: number,
     endHeight?: number
-  ): Promise<{ notesFound: number; newBalance: number }> {
+  ): Promise<{ notesFound: number; newBalance: number; rolledBackTo?: number }> {
     // Initialize if not already done
     if (!this.initialized) {
       await this.initialize(address);
     }
 
-    const fromHeight = startHeight ?? this.cache.getSyncedHeight(address) + 1;
-    
     // Get end height from RPC if not provided
     let targetEndHeight = endHeight;
     if (targetEndHeight === undefined) {
-      if (this.rpcClient) {
+      if (this.lightwalletd) {
+        targetEndHeight = (await this.lightwalletd.getLatestBlock()).height;
+      } else if (this.rpcClient) {
         try {
           const info = await this.rpcClient.getBlockchainInfo();
           targetEndHeight = info.blocks;
@@ -929,50 +1394,95 @@ export class ShieldedStateSynchronizer {
       }
     }
 
+    // A new wallet starts from the tree state below its birthday
+    if (
+      startHeight === undefined &&
+      this.birthdayHeight > 0 &&
+      this.cache.getSyncedHeight(address) === 0 &&
+      this.tree.size() === 0
+    ) {
+      if (this.birthdayHeight > targetEndHeight) {
+        return { notesFound: 0, newBalance: this.cache.getBalance(address).total };
+      }
+      await this.initializeFromTreeState(address, await this.fetchTreeState(this.birthdayHeight - 1));
+    }
+
+    // Check that the blocks we synced are still on the chain
+    let rolledBackTo: number | undefined;
+    const forkHeight = await this.findForkHeight(targetEndHeight, fetchBlocks);
+    if (forkHeight !== null) {
+      await this.rollback(address, forkHeight);
+      rolledBackTo = forkHeight;
+    }
+
+    let fromHeight = startHeight ?? this.cache.getSyncedHeight(address) + 1;
+    if (rolledBackTo !== undefined) {
+      fromHeight = Math.min(fromHeight, rolledBackTo + 1);
+    }
+
     if (fromHeight > targetEndHeight) {
-      return { notesFound: 0, newBalance: this.cache.getBalance(address).total };
+      return { notesFound: 0, newBalance: this.cache.getBalance(address).total, rolledBackTo };
+    }
+
+    // Blocks from the start height on are about to be scanned again
+    const lastSynced = this.recentBlocks[this.recentBlocks.length - 1];
+    if (lastSynced && lastSynced.height >= fromHeight) {
+      await this.rollback(address, fromHeight - 1);
     }
 
     // Fetch and scan blocks in batches
     const batchSize = 100;
     let totalNotesFound = 0;
 
-    for (let height = fromHeight; height <= targetEndHeight; height += batchSize) {
+    let height = fromHeight;
+    while (height <= targetEndHeight) {
       const batchEnd = Math.min(height + batchSize - 1, targetEndHeight);
-      
-      // Fetch blocks using RPC or provided callback
-      let blocks: BlockData[];
-      if (this.rpcClient) {
-        blocks = await this.fetchBlocksFromRpc(height, batchEnd);
-      } else if (fetchBlocks) {
-        blocks = await fetchBlocks(height, batchEnd);
-      } else {
-        throw new Error('Either RPC client or fetchBlocks callback must be provided');
-      }
-      
-      // Add all commitments to tree (including those we can't decrypt)
-      for (const block of blocks) {
-        for (const tx of block.transactions) {
-          for (const output of tx.outputs) {
-            this.tree.append(output.cmu);
-          }
+      const blocks = await this.fetchBlockRange(height, batchEnd, fetchBlocks);
+
+      // The chain may have reorganized since the previous batch
+      const last = this.recentBlocks[this.recentBlocks.length - 1];
+      const first = blocks[0];
+      if (last && first && first.height === last.height + 1 && first.prevHash && first.prevHash !== last.hash) {
+        const fork = await this.findForkHeight(targetEndHeight, fetchBlocks);
+        if (fork === null) {
+          throw new Error(`Block ${first.height} does not connect to the synced chain`);
         }
+        await this.rollback(address, fork);
+        rolledBackTo = rolledBackTo === undefined ? fork : Math.min(rolledBackTo, fork);
+        height = fork + 1;
+        continue;
       }
 
       // Scan blocks for our notes
       const notes = await this.scanner.scanBlocks(blocks, height, batchEnd);
       totalNotesFound += notes.length;
+      const ownNotes = new Map(notes
+        .filter(scannedNote => !scannedNote.isOutgoing)
+        .map(scannedNote => [bytesToHex(scannedNote.note.cmu), scannedNote]));
 
-      // Update note positions based on tree
-      for (const scannedNote of notes) {
-        // Position was already set by tree.append during commitment addition
-        // Just update the note in cache with witness
-        if (scannedNote.note.position !== undefined) {
-          const witness = this.tree.witness(scannedNote.note.position);
-          if (witness) {
-            this.cache.updateWitness(scannedNote.note.cmu, witness);
+      // Add all commitments to tree (including those we can't decrypt),
+      // keeping witnesses only for our own notes
+      for (const block of blocks) {
+        block.transactions.forEach((tx, txIndex) => {
+          for (const output of tx.outputs) {
+            const own = ownNotes.get(bytesToHex(output.cmu));
+            const position = this.tree.append(output.cmu, own !== undefined);
+            if (own) {
+              own.note.position = position;
+            }
           }
-        }
+          if (this.orchard && tx.actions) {
+            totalNotesFound += this.appendOrchardActions(this.orchard, tx.actions, block.height, txIndex);
+          }
+        });
+        this.tree.checkpoint(block.height);
+        this.orchard?.tree.checkpoint(block.height);
+        this.recordBlock({
+          height: block.height,
+          hash: block.hash,
+          treeSize: this.tree.size(),
+          orchardTreeSize: this.orchard?.tree.size()
+        });
       }
 
       // Update synced height
@@ -980,31 +1490,206 @@ export class ShieldedStateSynchronizer {
 
       // Persist tree state periodically (every 1000 blocks)
       if ((batchEnd - fromHeight) % 1000 === 0 || batchEnd === targetEndHeight) {
-        try {
-          await MerkleTreePersistence.saveTree(`tree-${address}`, this.tree, batchEnd);
-        } catch (error) {
-        }
+        await this.persistTrees(address, batchEnd);
       }
+
+      height = batchEnd + 1;
     }
 
+    // Bring all witnesses up to the new anchor
+    this.updateWitnesses();
+
     // Update tree state in cache
     this.cache.updateTreeState({
       root: this.tree.root(),
       size: this.tree.size(),
       blockHeight: targetEndHeight
     });
+    this.orchard?.cache.updateTipHeight(targetEndHeight);
 
     // Final persistence
+    await this.persistTrees(address, targetEndHeight);
+
+    return {
+      notesFound: totalNotesFound,
+      newBalance: this.cache.getBalance(address).total,
+      rolledBackTo
+    };
+  }
+
+  /**
+   * Scan a transaction's Orchard actions and append their commitments to
+   * the Orchard tree, keeping witnesses for our own notes
+   *
+   * @returns Number of notes found
+   */
+  private appendOrchardActions(
+    orchard: OrchardSyncState,
+    actions: CompactOrchardNote[],
+    blockHeight: number,
+    txIndex: number
+  ): number {
+    const found = orchard.scanner.scanActions(actions, blockHeight, txIndex, orchard.tree.size());
+    const own = new Set(found.filter(scanned => !scanned.isOutgoing).map(scanned => bytesToHex(scanned.note.cmx)));
+    for (const action of actions) {
+      orchard.tree.append(action.cmx, own.has(bytesToHex(action.cmx)));
+    }
+    return found.length;
+  }
+
+  /**
+   * Save the commitment trees; a failure is non-critical since the trees
+   * are rebuilt by the next sync
+   */
+  private async persistTrees(address: string, height: number): Promise<void> {
     try {
-      await MerkleTreePersistence.saveTree(`tree-${address}`, this.tree, targetEndHeight);
+      await MerkleTreePersistence.saveTree(`tree-${address}`, this.tree, height, this.recentBlocks);
+      if (this.orchard) {
+        await MerkleTreePersistence.saveTree(`orchard-tree-${address}`, this.orchard.tree, height, this.recentBlocks);
+      }
     } catch (error) {
       // Persistence failure is non-critical - tree state will be rebuilt on next sync
     }
+  }
 
-    return {
-      notesFound: totalNotesFound,
-      newBalance: this.cache.getBalance(address).total
-    };
+  /**
+   * Start empty commitment trees
+   */
+  private resetTrees(): void {
+    this.tree = new CommitmentTree(32, REORG_WINDOW);
+    if (this.orchard) {
+      this.orchard.tree = new CommitmentTree(ORCHARD_TREE_DEPTH, REORG_WINDOW, this.orchard.hasher);
+    }
+  }
+
+  /**
+   * Fetch blocks using lightwalletd, RPC or the provided callback
+   */
+  private async fetchBlockRange(
+    startHeight: number,
+    endHeight: number,
+    fetchBlocks?: (from: number, to: number) => Promise<BlockData[]>
+  ): Promise<BlockData[]> {
+    if (this.lightwalletd) {
+      const compactBlocks = await this.lightwalletd.getBlockRange(startHeight, endHeight);
+      return compactBlocks.map(compactBlockToBlockData);
+    }
+    if (this.rpcClient) {
+      return this.fetchBlocksFromRpc(startHeight, endHeight);
+    }
+    if (fetchBlocks) {
+      return fetchBlocks(startHeight, endHeight);
+    }
+    throw new Error('Either RPC client or fetchBlocks callback must be provided');
+  }
+
+  /**
+   * Fetch the commitment tree state at a height from lightwalletd or RPC
+   */
+  private async fetchTreeState(height: number): Promise<TreeStateSnapshot> {
+    if (this.lightwalletd) {
+      const state = await this.lightwalletd.getTreeState(height);
+      return { height: state.height, hash: state.hash, saplingTree: state.saplingTree, orchardTree: state.orchardTree };
+    }
+    if (this.rpcClient?.getTreeState) {
+      const state = await this.rpcClient.getTreeState(height);
+      if (state?.finalState !== undefined) {
+        return {
+          height: state.height,
+          hash: state.hash,
+          saplingTree: state.finalState,
+          orchardTree: state.orchardFinalState
+        };
+      }
+    }
+    throw new Error(`No commitment tree state available at height ${height}; cannot start sync from the birthday`);
+  }
+
+  /**
+   * Get the hash of the block currently on the chain at a height
+   */
+  private async fetchBlockHash(
+    height: number,
+    fetchBlocks?: (from: number, to: number) => Promise<BlockData[]>
+  ): Promise<string | null> {
+    if (this.rpcClient && !this.lightwalletd) {
+      try {
+        return await this.rpcClient.getBlockHash(height);
+      } catch (error) {
+        return null;
+      }
+    }
+    const [block] = await this.fetchBlockRange(height, height, fetchBlocks);
+    return block?.hash ?? null;
+  }
+
+  /**
+   * Find the highest synced block that is still on the chain
+   *
+   * @returns null if the latest synced block is still on the chain,
+   *          otherwise the height to roll back to
+   */
+  private async findForkHeight(
+    tipHeight: number,
+    fetchBlocks?: (from: number, to: number) => Promise<BlockData[]>
+  ): Promise<number | null> {
+    for (let i = this.recentBlocks.length - 1; i >= 0; i--) {
+      const record = this.recentBlocks[i];
+      const hash = record.height <= tipHeight ? await this.fetchBlockHash(record.height, fetchBlocks) : null;
+
+      // Blocks synced without a hash cannot be checked
+      if (!record.hash || hash === record.hash) {
+        return i === this.recentBlocks.length - 1 ? null : record.height;
+      }
+    }
+
+    if (this.recentBlocks.length === 0) {
+      return null;
+    }
+    throw new Error(
+      `Chain reorganization deeper than ${this.recentBlocks.length} blocks; a full rescan is required`
+    );
+  }
+
+  /**
+   * Roll the tree, notes and spends back to a block height
+   */
+  private async rollback(address: string, forkHeight: number): Promise<void> {
+    while (this.recentBlocks.length > 0 && this.recentBlocks[this.recentBlocks.length - 1].height > forkHeight) {
+      this.recentBlocks.pop();
+    }
+    const record = this.recentBlocks[this.recentBlocks.length - 1];
+    if (!record || record.height !== forkHeight) {
+      throw new Error(`No synced block at fork height ${forkHeight}`);
+    }
+
+    try {
+      this.tree.rewind(forkHeight);
+      this.orchard?.tree.rewind(forkHeight);
+    } catch (error) {
+      throw new Error(`Cannot roll back to block ${forkHeight}; a full rescan is required`);
+    }
+    this.cache.revertToHeight(forkHeight);
+    this.orchard?.cache.revertToHeight(forkHeight);
+    this.updateWitnesses();
+
+    this.cache.updateTreeState({
+      root: this.tree.root(),
+      size: this.tree.size(),
+      blockHeight: forkHeight
+    });
+
+    await this.persistTrees(address, forkHeight);
+  }
+
+  /**
+   * Remember a synced block, keeping only the reorg window
+   */
+  private recordBlock(block: SyncedBlock): void {
+    this.recentBlocks.push(block);
+    if (this.recentBlocks.length > REORG_WINDOW) {
+      this.recentBlocks.splice(0, this.recentBlocks.length - REORG_WINDOW);
+    }
   }
 
   /**
@@ -1064,12 +1749,24 @@ export class ShieldedStateSynchronizer {
               }
             }
 
-            // Only add if has outputs or spends
-            if (outputs.length > 0 || nullifiers.length > 0) {
+            // Extract Orchard actions (v5 transactions)
+            const actions: CompactOrchardNote[] = (txData.orchard?.actions ?? []).map((action: any) => ({
+              nullifier: hexToBytes(action.nullifier),
+              cmx: hexToBytes(action.cmx),
+              ephemeralKey: hexToBytes(action.ephemeralKey),
+              ciphertext: hexToBytes(action.encCiphertext.slice(0, 104)),
+              encCiphertext: hexToBytes(action.encCiphertext),
+              outCiphertext: hexToBytes(action.outCiphertext),
+              cv: hexToBytes(action.cv)
+            }));
+
+            // Only add if has outputs, spends or actions
+            if (outputs.length > 0 || nullifiers.length > 0 || actions.length > 0) {
               transactions.push({
                 txid,
                 outputs,
-                nullifiers
+                nullifiers,
+                actions
               });
             }
           } catch (txError) {
@@ -1080,6 +1777,8 @@ export class ShieldedStateSynchronizer {
         blocks.push({
           height,
           hash: blockHash,
+          prevHash: block.previousblockhash,
+          time: block.time,
           transactions
         });
 
@@ -1107,6 +1806,20 @@ export class ShieldedStateSynchronizer {
         }
       }
     }
+
+    if (this.orchard) {
+      const { tree, cache } = this.orchard;
+      for (const address of cache.getAddresses()) {
+        for (const note of cache.getNotesForAddress(address)) {
+          if (note.position !== undefined && !note.spent) {
+            const witness = tree.witness(note.position);
+            if (witness) {
+              cache.updateWitness(note.cmx, witness);
+            }
+          }
+        }
+      }
+    }
   }
 
   /**
@@ -1119,18 +1832,39 @@ export class ShieldedStateSynchronizer {
   /**
    * Get current tree
    */
-  getTree(): IncrementalMerkleTree {
+  getTree(): CommitmentTree {
     return this.tree;
   }
 
+  /**
+   * Get the current Orchard anchor (Orchard tree root)
+   */
+  getOrchardAnchor(): Uint8Array {
+    if (!this.orchard) {
+      throw new Error('Orchard scanning is not enabled');
+    }
+    return this.orchard.tree.root();
+  }
+
+  /**
+   * Get the Orchard tree, or null when Orchard is not scanned
+   */
+  getOrchardTree(): CommitmentTree | null {
+    return this.orchard?.tree ?? null;
+  }
+
   /**
    * Reset the synchronizer (clear tree and start fresh)
    */
   async reset(address: string): Promise<void> {
-    this.tree = new IncrementalMerkleTree(32);
+    this.resetTrees();
+    this.recentBlocks = [];
     this.initialized = false;
     try {
       await MerkleTreePersistence.clearTree(`tree-${address}`);
+      if (this.orchard) {
+        await MerkleTreePersistence.clearTree(`orchard-tree-${address}`);
+      }
     } catch (error) {
     }
   }
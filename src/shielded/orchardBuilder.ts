@@ -0,0 +1,320 @@
+/**
+ * Orchard Bundle Builder
+ * Builds Orchard bundles: pads spends and outputs into actions, encrypts
+ * the new notes, proves all actions with Halo2 and signs the bundle
+ *
+ * Every action spends one note and creates one note. Missing spends are
+ * filled with zero-value dummy notes under a throwaway key, and missing
+ * outputs with zero-value notes to a throwaway address, so that a bundle
+ * always has at least two actions and reveals nothing about how many real
+ * spends and outputs it contains.
+ */
+
+import type {
+  OrchardNote,
+  OrchardOutputParams,
+  OrchardBundle,
+  OrchardActionDescription,
+  MerkleWitness
+} from './types.js';
+import { concatBytes, randomBytes } from '../utils/bytes';
+import { OrchardExtendedSpendingKey, OrchardFullViewingKey } from './orchardKeys.js';
+import { encryptOrchardNote, encodeOrchardMemo } from './orchardNoteEncryption.js';
+import { toPallasScalar, toPallasBase, PALLAS_SCALAR_ORDER } from './pallasHelper.js';
+import { bytesToBigInt, bigIntToBytes } from './scalarArithmetic.js';
+import { ORCHARD_TREE_DEPTH, orchardNoteParts } from './halo2Prover.js';
+import type {
+  OrchardPrimitives,
+  Halo2Prover,
+  OrchardNoteParts,
+  OrchardActionWitness
+} from './halo2Prover.js';
+
+/**
+ * Minimum number of actions in a non-empty bundle
+ */
+export const ORCHARD_MIN_ACTIONS = 2;
+
+/**
+ * flagsOrchard bits
+ */
+export const ORCHARD_FLAG_SPENDS_ENABLED = 0x01;
+export const ORCHARD_FLAG_OUTPUTS_ENABLED = 0x02;
+
+/**
+ * Build parameters for an Orchard bundle
+ */
+export interface OrchardBundleParams {
+  /** Spending key of the spent notes */
+  spendingKey: OrchardExtendedSpendingKey;
+
+  /** Notes to spend; each must carry a witness against the anchor */
+  spends: OrchardNote[];
+
+  /** Orchard outputs */
+  outputs: OrchardOutputParams[];
+
+  /** Anchor (Orchard commitment tree root) */
+  anchor: Uint8Array;
+
+  /** Outgoing viewing key; defaults to the spending key's, null disables recovery */
+  ovk?: Uint8Array | null;
+}
+
+/**
+ * Orchard bundle awaiting its signatures
+ */
+export interface UnauthorizedOrchardBundle {
+  /** Bundle with proof; spendAuthSig and bindingSig are zero-filled */
+  bundle: OrchardBundle;
+
+  /** Data needed for signing */
+  signingData: OrchardSigningData;
+}
+
+/**
+ * Private data for signing an Orchard bundle
+ */
+export interface OrchardSigningData {
+  /** Per-action spend authorizing key and randomizer */
+  actions: Array<{ ask: Uint8Array; alpha: Uint8Array }>;
+
+  /** Binding signature key bsk = sum of rcv */
+  bsk: Uint8Array;
+}
+
+/**
+ * One side of an action before pairing
+ */
+interface PendingSpend {
+  note: OrchardNoteParts;
+  fvk: OrchardFullViewingKey;
+  ask: Uint8Array;
+  witness: MerkleWitness;
+}
+
+interface PendingOutput {
+  recipient: Uint8Array;
+  value: bigint;
+  memo: Uint8Array;
+  ovk: Uint8Array | null;
+}
+
+/**
+ * Orchard Bundle Builder
+ */
+export class OrchardBundleBuilder {
+  private primitives: OrchardPrimitives;
+  private prover: Halo2Prover;
+
+  constructor(primitives: OrchardPrimitives, prover: Halo2Prover) {
+    this.primitives = primitives;
+    this.prover = prover;
+  }
+
+  /**
+   * Number of actions for a bundle with the given spends and outputs
+   */
+  static actionCount(spends: number, outputs: number): number {
+    if (spends === 0 && outputs === 0) {
+      return 0;
+    }
+    return Math.max(spends, outputs, ORCHARD_MIN_ACTIONS);
+  }
+
+  /**
+   * Build and prove a bundle
+   */
+  async build(params: OrchardBundleParams): Promise<UnauthorizedOrchardBundle> {
+    const actionCount = OrchardBundleBuilder.actionCount(params.spends.length, params.outputs.length);
+    if (actionCount === 0) {
+      throw new Error('Orchard bundle needs at least one spend or output');
+    }
+
+    const fvk = params.spendingKey.toFullViewingKey(this.primitives);
+    const ask = params.spendingKey.spendAuthorizingKey(this.primitives);
+    const ovk = params.ovk === undefined ? fvk.outgoingViewingKey() : params.ovk;
+
+    const spends: PendingSpend[] = params.spends.map(note => {
+      if (!note.witness) {
+        throw new Error('Orchard note has no witness');
+      }
+      return { note: orchardNoteParts(note), fvk, ask, witness: note.witness };
+    });
+    const outputs: PendingOutput[] = params.outputs.map(output => {
+      if (output.recipient.length !== 43) {
+        throw new Error(`Invalid Orchard recipient length: expected 43 bytes, got ${output.recipient.length}`);
+      }
+      if (!Number.isSafeInteger(output.value) || output.value < 0) {
+        throw new Error(`Invalid Orchard output value: ${output.value}`);
+      }
+      return {
+        recipient: output.recipient,
+        value: BigInt(output.value),
+        memo: encodeOrchardMemo(output.memo),
+        ovk
+      };
+    });
+
+    while (spends.length < actionCount) {
+      spends.push(this.dummySpend());
+    }
+    while (outputs.length < actionCount) {
+      outputs.push(this.dummyOutput());
+    }
+    this.shuffle(spends);
+    this.shuffle(outputs);
+
+    const actions: OrchardActionDescription[] = [];
+    const witnesses: OrchardActionWitness[] = [];
+    const signingActions: OrchardSigningData['actions'] = [];
+    let bsk = 0n;
+    let valueBalance = 0n;
+
+    for (let i = 0; i < actionCount; i++) {
+      const spend = spends[i];
+      const output = outputs[i];
+
+      const nullifier = this.primitives.nullifier(spend.fvk.nk, spend.note);
+      const alpha = this.randomScalar();
+      const rk = this.primitives.randomizeSpendValidatingKey(spend.fvk.ak, alpha);
+
+      // The new note's rho is the nullifier spent in the same action
+      const note: OrchardNoteParts = {
+        recipient: output.recipient,
+        value: output.value,
+        rho: nullifier,
+        rseed: randomBytes(32)
+      };
+      const cmx = this.primitives.noteCommitment(note);
+
+      const rcv = this.randomScalar();
+      const cv = this.primitives.valueCommitment(spend.note.value - output.value, rcv);
+      bsk = (bsk + bytesToBigInt(rcv)) % PALLAS_SCALAR_ORDER;
+      valueBalance += spend.note.value - output.value;
+
+      const encrypted = encryptOrchardNote(
+        { ...note, memo: output.memo, ovk: output.ovk, cv, cmx },
+        this.primitives
+      );
+
+      actions.push({
+        cv,
+        nullifier,
+        rk,
+        cmx,
+        ...encrypted,
+        spendAuthSig: new Uint8Array(64) // Filled in by authorize
+      });
+      witnesses.push({
+        fvk: spend.fvk.toBytes(),
+        spend: spend.note,
+        witness: spend.witness,
+        alpha,
+        output: note,
+        rcv
+      });
+      signingActions.push({ ask: spend.ask, alpha });
+    }
+
+    const flags = ORCHARD_FLAG_SPENDS_ENABLED | ORCHARD_FLAG_OUTPUTS_ENABLED;
+    const proof = await this.prover.createProof(witnesses, params.anchor, flags);
+
+    return {
+      bundle: {
+        actions,
+        flags,
+        valueBalance,
+        anchor: params.anchor,
+        proof,
+        bindingSig: new Uint8Array(64) // Filled in by authorize
+      },
+      signingData: {
+        actions: signingActions,
+        bsk: bigIntToBytes(bsk, 32)
+      }
+    };
+  }
+
+  /**
+   * Sign the bundle over the transaction sighash
+   */
+  authorize(unauthorized: UnauthorizedOrchardBundle, sighash: Uint8Array): OrchardBundle {
+    const { bundle, signingData } = unauthorized;
+    if (signingData.actions.length !== bundle.actions.length) {
+      throw new Error('Orchard signing data does not match bundle actions');
+    }
+
+    return {
+      ...bundle,
+      actions: bundle.actions.map((action, i) => ({
+        ...action,
+        spendAuthSig: this.primitives.signSpendAuth(
+          signingData.actions[i].ask,
+          signingData.actions[i].alpha,
+          sighash
+        )
+      })),
+      bindingSig: this.primitives.signBinding(signingData.bsk, sighash)
+    };
+  }
+
+  /**
+   * Zero-value note under a throwaway spending key
+   */
+  private dummySpend(): PendingSpend {
+    const sk = new OrchardExtendedSpendingKey(0, 0, randomBytes(32), randomBytes(32));
+    const fvk = sk.toFullViewingKey(this.primitives);
+    const address = fvk.defaultAddress(this.primitives);
+
+    return {
+      note: {
+        recipient: concatBytes(address.diversifier, address.pkd),
+        value: 0n,
+        rho: toPallasBase(randomBytes(64)),
+        rseed: randomBytes(32)
+      },
+      fvk,
+      ask: sk.spendAuthorizingKey(this.primitives),
+      // Dummy spends have value zero, so the circuit does not check the path
+      witness: {
+        authPath: Array.from({ length: ORCHARD_TREE_DEPTH }, () => new Uint8Array(32)),
+        position: 0n
+      }
+    };
+  }
+
+  /**
+   * Zero-value output to a throwaway address
+   */
+  private dummyOutput(): PendingOutput {
+    const fvk = new OrchardExtendedSpendingKey(0, 0, randomBytes(32), randomBytes(32))
+      .toFullViewingKey(this.primitives);
+    const address = fvk.defaultAddress(this.primitives);
+
+    return {
+      recipient: concatBytes(address.diversifier, address.pkd),
+      value: 0n,
+      memo: encodeOrchardMemo(),
+      ovk: null
+    };
+  }
+
+  /**
+   * Uniformly random Pallas scalar
+   */
+  private randomScalar(): Uint8Array {
+    return toPallasScalar(randomBytes(64));
+  }
+
+  /**
+   * Fisher-Yates shuffle, so action order does not reveal which are dummies
+   */
+  private shuffle<T>(items: T[]): void {
+    for (let i = items.length - 1; i > 0; i--) {
+      const bytes = randomBytes(4);
+      const j = (((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0) % (i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Orchard Key Components
+ * Implements ZIP-32 Orchard key derivation and address generation
+ *
+ * Key Derivation Hierarchy:
+ *
+ * Seed
+ *     ↓ BLAKE2b-512("ZcashIP32Orchard")
+ * Master spending key sk, chain code
+ *     ↓ hardened child derivation only
+ * m/32'/coin_type'/account'
+ *     ↓ PRF^expand(sk, [6|7|8])
+ * ask, nk, rivk
+ *     ↓
+ * Full viewing key (ak, nk, rivk)
+ *     ↓
+ * ├─→ dk, ovk = PRF^expand(rivk, [0x82] || ak || nk)
+ * ├─→ Incoming viewing key ivk = Commit^ivk_rivk(ak, nk)
+ * └─→ Diversifiers d_j = FF1-AES256(dk, j) → addresses (d, [ivk] g_d)
+ *
+ * ak, ivk and g_d need Pallas hash-to-curve and Sinsemilla, which come from
+ * the OrchardPrimitives backend (see halo2Prover.ts).
+ *
+ * Reference: https://zips.z.cash/zip-0032#orchard-child-key-derivation
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import { BinaryFF1 } from '@noble/ciphers/ff1.js';
+import type { Network } from '../types/index';
+import { concatBytes, numberToLEBytes } from '../utils/bytes';
+import { prfExpand, ZIP32_HARDENED_OFFSET, ZIP32_PURPOSE, ZIP32_COIN_TYPES } from './zip32.js';
+import { toPallasScalar, toPallasBase, negatePallasScalar, pallasScalarMultiply } from './pallasHelper.js';
+import type { OrchardPrimitives } from './halo2Prover.js';
+
+/**
+ * Orchard raw address: diversifier || pk_d
+ */
+export interface OrchardAddress {
+  /** Diversifier index j */
+  index: bigint;
+
+  /** Diversifier (11 bytes) */
+  diversifier: Uint8Array;
+
+  /** Diversified transmission key (32 bytes) */
+  pkd: Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Largest diversifier index (88 bits)
+ */
+const MAX_DIVERSIFIER_INDEX = (1n << 88n) - 1n;
+
+/**
+ * ZIP-32 Orchard extended spending key
+ */
+export class OrchardExtendedSpendingKey {
+  readonly depth: number;
+  readonly childIndex: number;
+  readonly chainCode: Uint8Array;
+  readonly sk: Uint8Array;
+
+  constructor(depth: number, childIndex: number, chainCode: Uint8Array, sk: Uint8Array) {
+    if (chainCode.length !== 32 || sk.length !== 32) {
+      throw new Error('Orchard chain code and spending key must be 32 bytes');
+    }
+    this.depth = depth;
+    this.childIndex = childIndex;
+    this.chainCode = chainCode;
+    this.sk = sk;
+  }
+
+  /**
+   * Derive the master key from a seed
+   *
+   * @param seed - 32 to 252 bytes of seed material
+   */
+  static fromSeed(seed: Uint8Array): OrchardExtendedSpendingKey {
+    if (seed.length < 32 || seed.length > 252) {
+      throw new Error(`Invalid seed length: expected 32-252 bytes, got ${seed.length}`);
+    }
+    const I = blake2b(seed, {
+      dkLen: 64,
+      personalization: textEncoder.encode('ZcashIP32Orchard')
+    });
+    return new OrchardExtendedSpendingKey(0, 0, I.slice(32), I.slice(0, 32));
+  }
+
+  /**
+   * Derive the account key m/32'/coin_type'/account'
+   */
+  static deriveAccount(seed: Uint8Array, network: Network, account: number): OrchardExtendedSpendingKey {
+    return OrchardExtendedSpendingKey.fromSeed(seed).derivePath([
+      ZIP32_PURPOSE + ZIP32_HARDENED_OFFSET,
+      ZIP32_COIN_TYPES[network] + ZIP32_HARDENED_OFFSET,
+      account + ZIP32_HARDENED_OFFSET
+    ]);
+  }
+
+  /**
+   * Derive a hardened child (Orchard has no non-hardened derivation)
+   */
+  deriveChild(index: number): OrchardExtendedSpendingKey {
+    if (index < ZIP32_HARDENED_OFFSET || index > 0xffffffff) {
+      throw new Error(`Orchard only supports hardened child derivation, got index ${index}`);
+    }
+    const I = prfExpand(this.chainCode, concatBytes(
+      new Uint8Array([0x81]),
+      this.sk,
+      numberToLEBytes(index >>> 0, 4)
+    ));
+    return new OrchardExtendedSpendingKey(this.depth + 1, index, I.slice(32), I.slice(0, 32));
+  }
+
+  /**
+   * Derive along a path of child indices
+   */
+  derivePath(path: number[]): OrchardExtendedSpendingKey {
+    return path.reduce<OrchardExtendedSpendingKey>((key, index) => key.deriveChild(index), this);
+  }
+
+  /**
+   * Spend authorizing key, before the ak sign adjustment
+   *
+   * Throws for the negligible set of spending keys with ask = 0.
+   */
+  private expandedAsk(): Uint8Array {
+    const ask = toPallasScalar(prfExpand(this.sk, new Uint8Array([0x06])));
+    if (ask.every(byte => byte === 0)) {
+      throw new Error('Invalid Orchard spending key: ask is zero');
+    }
+    return ask;
+  }
+
+  /**
+   * Spend authorizing key ask, negated if needed so that ak has ỹ = 0
+   */
+  spendAuthorizingKey(primitives: OrchardPrimitives): Uint8Array {
+    const ask = this.expandedAsk();
+    const ak = primitives.deriveSpendValidatingKey(ask);
+    return (ak[31] & 0x80) ? negatePallasScalar(ask) : ask;
+  }
+
+  /**
+   * Full viewing key (ak, nk, rivk)
+   */
+  toFullViewingKey(primitives: OrchardPrimitives): OrchardFullViewingKey {
+    const ak = primitives.deriveSpendValidatingKey(this.expandedAsk()).slice();
+    // [-ask] G is the negation of [ask] G: same x, opposite ỹ
+    ak[31] &= 0x7f;
+    return new OrchardFullViewingKey(
+      ak,
+      toPallasBase(prfExpand(this.sk, new Uint8Array([0x07]))),
+      toPallasScalar(prfExpand(this.sk, new Uint8Array([0x08])))
+    );
+  }
+}
+
+/**
+ * Orchard full viewing key
+ */
+export class OrchardFullViewingKey {
+  readonly ak: Uint8Array;
+  readonly nk: Uint8Array;
+  readonly rivk: Uint8Array;
+
+  constructor(ak: Uint8Array, nk: Uint8Array, rivk: Uint8Array) {
+    if (ak.length !== 32 || nk.length !== 32 || rivk.length !== 32) {
+      throw new Error('Orchard full viewing key components must be 32 bytes');
+    }
+    this.ak = ak;
+    this.nk = nk;
+    this.rivk = rivk;
+  }
+
+  /**
+   * Decode the 96-byte encoding (ak || nk || rivk), as used in Unified Viewing Keys
+   */
+  static fromBytes(bytes: Uint8Array): OrchardFullViewingKey {
+    if (bytes.length !== 96) {
+      throw new Error(`Invalid Orchard full viewing key length: expected 96 bytes, got ${bytes.length}`);
+    }
+    return new OrchardFullViewingKey(bytes.slice(0, 32), bytes.slice(32, 64), bytes.slice(64, 96));
+  }
+
+  /**
+   * Encode as ak || nk || rivk
+   */
+  toBytes(): Uint8Array {
+    return concatBytes(this.ak, this.nk, this.rivk);
+  }
+
+  /**
+   * Diversifier key and outgoing viewing key
+   */
+  private expandRivk(): { dk: Uint8Array; ovk: Uint8Array } {
+    const R = prfExpand(this.rivk, concatBytes(new Uint8Array([0x82]), this.ak, this.nk));
+    return { dk: R.slice(0, 32), ovk: R.slice(32, 64) };
+  }
+
+  /**
+   * Diversifier key dk
+   */
+  diversifierKey(): Uint8Array {
+    return this.expandRivk().dk;
+  }
+
+  /**
+   * Outgoing viewing key ovk
+   */
+  outgoingViewingKey(): Uint8Array {
+    return this.expandRivk().ovk;
+  }
+
+  /**
+   * Incoming viewing key ivk
+   */
+  incomingViewingKey(primitives: OrchardPrimitives): Uint8Array {
+    const ivk = primitives.commitIvk(this.ak, this.nk, this.rivk);
+    if (!ivk || ivk.every(byte => byte === 0)) {
+      throw new Error('Invalid Orchard full viewing key: ivk is zero or undefined');
+    }
+    return ivk;
+  }
+
+  /**
+   * Encode the incoming viewing key as dk || ivk, as used in Unified Viewing Keys
+   */
+  incomingViewingKeyBytes(primitives: OrchardPrimitives): Uint8Array {
+    return concatBytes(this.diversifierKey(), this.incomingViewingKey(primitives));
+  }
+
+  /**
+   * Diversifier d_j = FF1-AES256_dk(j); every Orchard diversifier is valid
+   */
+  diversifier(index: bigint): Uint8Array {
+    if (index < 0n || index > MAX_DIVERSIFIER_INDEX) {
+      throw new Error(`Invalid diversifier index: ${index}`);
+    }
+    const indexBytes = new Uint8Array(11);
+    for (let i = 0; i < 11; i++) {
+      indexBytes[i] = Number((index >> BigInt(8 * i)) & 0xffn);
+    }
+    return BinaryFF1(this.diversifierKey()).encrypt(indexBytes);
+  }
+
+  /**
+   * Payment address at diversifier index j
+   */
+  address(index: bigint, primitives: OrchardPrimitives): OrchardAddress {
+    const diversifier = this.diversifier(index);
+    const gd = primitives.diversifyHash(diversifier);
+    const pkd = pallasScalarMultiply(this.incomingViewingKey(primitives), gd);
+    return { index, diversifier, pkd };
+  }
+
+  /**
+   * Default payment address (index 0)
+   */
+  defaultAddress(primitives: OrchardPrimitives): OrchardAddress {
+    return this.address(0n, primitives);
+  }
+}
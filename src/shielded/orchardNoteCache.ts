@@ -0,0 +1,297 @@
+/**
+ * Orchard Note Cache
+ * Manages storage and retrieval of scanned Orchard notes
+ */
+
+import type { OrchardNote, ScannedOrchardNote, MerkleWitness } from './types.js';
+import { bytesToHex } from '../utils/bytes';
+
+/**
+ * Cache entry for a note
+ */
+interface OrchardNoteCacheEntry {
+  note: OrchardNote;
+  blockHeight: number;
+  txIndex: number;
+  actionIndex: number;
+  isOutgoing: boolean;
+}
+
+/**
+ * Orchard Note Cache for managing scanned notes
+ */
+export class OrchardNoteCache {
+  /** Notes indexed by extracted commitment cmx (hex) */
+  private notesByCommitment: Map<string, OrchardNoteCacheEntry> = new Map();
+
+  /** Notes indexed by nullifier (hex) */
+  private notesByNullifier: Map<string, OrchardNoteCacheEntry> = new Map();
+
+  /** Notes indexed by owning address */
+  private notesByAddress: Map<string, Set<string>> = new Map();
+
+  /** Spent nullifiers */
+  private spentNullifiers: Set<string> = new Set();
+
+  /** Block height each nullifier was seen spent at, when known */
+  private spentHeights: Map<string, number> = new Map();
+
+  /** Nullifiers held back by pending transactions (nullifier -> txid) */
+  private reservedNullifiers: Map<string, string> = new Map();
+
+  /** Current chain tip, used for confirmation counts */
+  private tipHeight = 0;
+
+  /**
+   * Add a scanned note to the cache
+   */
+  addNote(scannedNote: ScannedOrchardNote): void {
+    const commitmentHex = bytesToHex(scannedNote.note.cmx);
+    if (this.notesByCommitment.has(commitmentHex)) {
+      return;
+    }
+
+    const entry: OrchardNoteCacheEntry = {
+      note: scannedNote.note,
+      blockHeight: scannedNote.blockHeight,
+      txIndex: scannedNote.txIndex,
+      actionIndex: scannedNote.actionIndex,
+      isOutgoing: scannedNote.isOutgoing
+    };
+
+    this.notesByCommitment.set(commitmentHex, entry);
+
+    if (scannedNote.note.nullifier.length > 0) {
+      const nullifierHex = bytesToHex(scannedNote.note.nullifier);
+      this.notesByNullifier.set(nullifierHex, entry);
+      if (this.spentNullifiers.has(nullifierHex)) {
+        entry.note.spent = true;
+      }
+    }
+
+    const address = scannedNote.note.address;
+    if (!this.notesByAddress.has(address)) {
+      this.notesByAddress.set(address, new Set());
+    }
+    this.notesByAddress.get(address)!.add(commitmentHex);
+  }
+
+  /**
+   * Add multiple notes
+   */
+  addNotes(notes: ScannedOrchardNote[]): void {
+    for (const note of notes) {
+      this.addNote(note);
+    }
+  }
+
+  /**
+   * Get note by extracted commitment
+   */
+  getNoteByCommitment(cmx: Uint8Array): OrchardNote | null {
+    return this.notesByCommitment.get(bytesToHex(cmx))?.note || null;
+  }
+
+  /**
+   * Get note by nullifier
+   */
+  getNoteByNullifier(nullifier: Uint8Array): OrchardNote | null {
+    return this.notesByNullifier.get(bytesToHex(nullifier))?.note || null;
+  }
+
+  /**
+   * Get all received (non-outgoing) notes for an address
+   */
+  getNotesForAddress(address: string): OrchardNote[] {
+    const commitments = this.notesByAddress.get(address);
+    if (!commitments) {
+      return [];
+    }
+
+    const notes: OrchardNote[] = [];
+    for (const commitmentHex of commitments) {
+      const entry = this.notesByCommitment.get(commitmentHex);
+      if (entry && !entry.isOutgoing) {
+        notes.push(entry.note);
+      }
+    }
+    return notes;
+  }
+
+  /**
+   * Get spendable notes for an address
+   */
+  getSpendableNotes(address: string, minConfirmations: number = 1): OrchardNote[] {
+    return this.getNotesForAddress(address).filter(note => {
+      const nullifierHex = bytesToHex(note.nullifier);
+      if (note.spent || this.spentNullifiers.has(nullifierHex) || this.reservedNullifiers.has(nullifierHex)) {
+        return false;
+      }
+
+      // Spending needs the nullifier (full viewing key) and a Merkle path
+      if (note.nullifier.length === 0 || !note.witness) {
+        return false;
+      }
+
+      const entry = this.notesByCommitment.get(bytesToHex(note.cmx));
+      if (entry && entry.blockHeight > 0) {
+        const confirmations = this.tipHeight - entry.blockHeight + 1;
+        if (confirmations < minConfirmations) {
+          return false;
+        }
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Get total balance for an address
+   */
+  getBalance(address: string, minConfirmations: number = 1): { total: number; spendable: number } {
+    const total = this.getNotesForAddress(address)
+      .filter(note => !note.spent && !this.spentNullifiers.has(bytesToHex(note.nullifier)))
+      .reduce((sum, note) => sum + note.value, 0);
+
+    const spendable = this.getSpendableNotes(address, minConfirmations)
+      .reduce((sum, note) => sum + note.value, 0);
+
+    return { total, spendable };
+  }
+
+  /**
+   * Mark a nullifier as spent
+   *
+   * @param blockHeight - Height of the spending transaction, if mined
+   */
+  markSpent(nullifier: Uint8Array, blockHeight?: number): void {
+    const hex = bytesToHex(nullifier);
+    this.spentNullifiers.add(hex);
+    if (blockHeight !== undefined) {
+      this.spentHeights.set(hex, blockHeight);
+    }
+
+    const entry = this.notesByNullifier.get(hex);
+    if (entry) {
+      entry.note.spent = true;
+    }
+  }
+
+  /**
+   * Mark multiple nullifiers as spent
+   */
+  markSpentBatch(nullifiers: Uint8Array[]): void {
+    for (const nullifier of nullifiers) {
+      this.markSpent(nullifier);
+    }
+  }
+
+  /**
+   * Check if nullifier is spent
+   */
+  isSpent(nullifier: Uint8Array): boolean {
+    return this.spentNullifiers.has(bytesToHex(nullifier));
+  }
+
+  /**
+   * Update witness for a note
+   */
+  updateWitness(cmx: Uint8Array, witness: MerkleWitness): void {
+    const entry = this.notesByCommitment.get(bytesToHex(cmx));
+    if (entry) {
+      entry.note.witness = witness;
+    }
+  }
+
+  /**
+   * Update the chain tip height
+   */
+  updateTipHeight(height: number): void {
+    this.tipHeight = height;
+  }
+
+  /**
+   * Get all addresses with notes
+   */
+  getAddresses(): string[] {
+    return Array.from(this.notesByAddress.keys());
+  }
+
+  /**
+   * Get note count
+   */
+  getNoteCount(): number {
+    return this.notesByCommitment.size;
+  }
+
+  /**
+   * Remove notes and spends above a block height (for reorg handling)
+   */
+  revertToHeight(height: number): void {
+    for (const [commitmentHex, entry] of this.notesByCommitment) {
+      if (entry.blockHeight <= height) {
+        continue;
+      }
+      this.notesByCommitment.delete(commitmentHex);
+      this.notesByNullifier.delete(bytesToHex(entry.note.nullifier));
+
+      const addressNotes = this.notesByAddress.get(entry.note.address);
+      if (addressNotes) {
+        addressNotes.delete(commitmentHex);
+        if (addressNotes.size === 0) {
+          this.notesByAddress.delete(entry.note.address);
+        }
+      }
+    }
+
+    for (const [nullifierHex, spentHeight] of this.spentHeights) {
+      if (spentHeight > height) {
+        this.spentHeights.delete(nullifierHex);
+        this.spentNullifiers.delete(nullifierHex);
+        const entry = this.notesByNullifier.get(nullifierHex);
+        if (entry) {
+          entry.note.spent = false;
+        }
+      }
+    }
+
+    if (this.tipHeight > height) {
+      this.tipHeight = height;
+    }
+  }
+
+  /**
+   * Hold notes back from selection while a transaction spending them is pending
+   *
+   * @param nullifiers - Nullifiers as bytes or hex
+   */
+  reserveNotes(nullifiers: Array<Uint8Array | string>, txid: string): void {
+    for (const nullifier of nullifiers) {
+      this.reservedNullifiers.set(typeof nullifier === 'string' ? nullifier : bytesToHex(nullifier), txid);
+    }
+  }
+
+  /**
+   * Make the notes reserved by a transaction spendable again
+   */
+  releaseNotes(txid: string): void {
+    for (const [nullifier, reservedBy] of this.reservedNullifiers) {
+      if (reservedBy === txid) {
+        this.reservedNullifiers.delete(nullifier);
+      }
+    }
+  }
+
+  /**
+   * Clear all cached data
+   */
+  clear(): void {
+    this.notesByCommitment.clear();
+    this.notesByNullifier.clear();
+    this.notesByAddress.clear();
+    this.spentNullifiers.clear();
+    this.spentHeights.clear();
+    this.reservedNullifiers.clear();
+    this.tipHeight = 0;
+  }
+}
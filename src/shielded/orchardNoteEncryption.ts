@@ -0,0 +1,371 @@
+/**
+ * Orchard In-band Note Encryption
+ * Encrypts and trial-decrypts Orchard action ciphertexts
+ *
+ * Encryption (sender):
+ *   esk = ToScalar(PRF^expand(rseed, [4] || rho))
+ *   epk = [esk] g_d
+ *   K_enc = KDF^Orchard([esk] pk_d, epk)
+ *   C_enc = ChaCha20-Poly1305(K_enc, plaintext)         (564 + 16 bytes)
+ *   ock = PRF^ock(ovk, cv, cmx, epk)
+ *   C_out = ChaCha20-Poly1305(ock, pk_d || esk)         (64 + 16 bytes)
+ *
+ * Decryption uses [ivk] epk as the shared secret, or recovers esk from
+ * C_out with the sender's ovk. In both cases the note is only accepted if
+ * epk and cmx recompute to the values in the action.
+ *
+ * Reference: https://zips.z.cash/protocol/protocol.pdf#saplingandorchardinband
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import { chacha20, chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { concatBytes, bigintToLEBytes, leBytesToBigint, bytesEqual, randomBytes } from '../utils/bytes';
+import { prfExpand } from './zip32.js';
+import { encodeMemo } from './memo.js';
+import { toPallasScalar, pallasScalarMultiply } from './pallasHelper.js';
+import type { OrchardPrimitives, OrchardNoteParts } from './halo2Prover.js';
+
+/**
+ * Note plaintext sizes
+ */
+export const ORCHARD_NOTE_PLAINTEXT_SIZE = 564;
+export const ORCHARD_COMPACT_NOTE_SIZE = 52;
+export const ORCHARD_ENC_CIPHERTEXT_SIZE = 580;
+export const ORCHARD_OUT_CIPHERTEXT_SIZE = 80;
+export const ORCHARD_MEMO_SIZE = 512;
+
+/**
+ * ZIP-212 note plaintext lead byte
+ */
+const NOTE_PLAINTEXT_LEAD_BYTE = 0x02;
+
+/**
+ * ChaCha20-Poly1305 nonce (keys are single-use)
+ */
+const ZERO_NONCE = new Uint8Array(12);
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Decoded note plaintext
+ */
+export interface OrchardNotePlaintext {
+  diversifier: Uint8Array;
+  value: bigint;
+  rseed: Uint8Array;
+  memo: Uint8Array;
+}
+
+/**
+ * Ciphertext fields of an Orchard action
+ */
+export interface EncryptedOrchardNote {
+  ephemeralKey: Uint8Array;
+  encCiphertext: Uint8Array;
+  outCiphertext: Uint8Array;
+}
+
+/**
+ * Action fields needed for trial decryption
+ */
+export interface OrchardActionCiphertext extends EncryptedOrchardNote {
+  /** Nullifier of the spent note; rho of the created note */
+  nullifier: Uint8Array;
+  cv: Uint8Array;
+  cmx: Uint8Array;
+}
+
+/**
+ * Action fields carried by compact blocks
+ */
+export type CompactOrchardActionCiphertext = Pick<OrchardActionCiphertext, 'nullifier' | 'cmx' | 'ephemeralKey'> & {
+  /** First 52 bytes of the note ciphertext */
+  ciphertext: Uint8Array;
+};
+
+/**
+ * Successfully decrypted note
+ */
+export interface DecryptedOrchardNote extends OrchardNoteParts {
+  memo: Uint8Array;
+}
+
+/**
+ * Parameters for encrypting a new note
+ */
+export interface OrchardNoteEncryptionParams extends OrchardNoteParts {
+  memo: Uint8Array;
+  /** Sender's outgoing viewing key; null makes the note unrecoverable by the sender */
+  ovk: Uint8Array | null;
+  cv: Uint8Array;
+  cmx: Uint8Array;
+}
+
+/**
+ * Encode a memo field: text or bytes, zero-padded, or 0xF6 for "no memo" (ZIP-302)
+ */
+export function encodeOrchardMemo(memo?: string | Uint8Array): Uint8Array {
+  return encodeMemo(memo);
+}
+
+/**
+ * Encode the 564-byte note plaintext
+ */
+export function encodeOrchardNotePlaintext(plaintext: OrchardNotePlaintext): Uint8Array {
+  if (plaintext.diversifier.length !== 11 || plaintext.rseed.length !== 32) {
+    throw new Error('Invalid note plaintext: diversifier must be 11 bytes and rseed 32 bytes');
+  }
+  if (plaintext.memo.length !== ORCHARD_MEMO_SIZE) {
+    throw new Error(`Invalid note plaintext: memo must be ${ORCHARD_MEMO_SIZE} bytes`);
+  }
+  return concatBytes(
+    new Uint8Array([NOTE_PLAINTEXT_LEAD_BYTE]),
+    plaintext.diversifier,
+    bigintToLEBytes(plaintext.value, 8),
+    plaintext.rseed,
+    plaintext.memo
+  );
+}
+
+/**
+ * Parse a 564-byte note plaintext
+ */
+export function parseOrchardNotePlaintext(bytes: Uint8Array): OrchardNotePlaintext {
+  if (bytes.length !== ORCHARD_NOTE_PLAINTEXT_SIZE) {
+    throw new Error(`Invalid note plaintext length: expected ${ORCHARD_NOTE_PLAINTEXT_SIZE}, got ${bytes.length}`);
+  }
+  if (bytes[0] !== NOTE_PLAINTEXT_LEAD_BYTE) {
+    throw new Error(`Unsupported note plaintext lead byte: 0x${bytes[0].toString(16)}`);
+  }
+  return {
+    diversifier: bytes.slice(1, 12),
+    value: leBytesToBigint(bytes.slice(12, 20)),
+    rseed: bytes.slice(20, 52),
+    memo: bytes.slice(52, 564)
+  };
+}
+
+/**
+ * esk = ToScalar^Orchard(PRF^expand(rseed, [4] || rho))
+ */
+export function deriveOrchardEsk(rseed: Uint8Array, rho: Uint8Array): Uint8Array {
+  return toPallasScalar(prfExpand(rseed, concatBytes(new Uint8Array([0x04]), rho)));
+}
+
+/**
+ * KDF^Orchard(sharedSecret, ephemeralKey)
+ */
+function kdfOrchard(sharedSecret: Uint8Array, ephemeralKey: Uint8Array): Uint8Array {
+  return blake2b(concatBytes(sharedSecret, ephemeralKey), {
+    dkLen: 32,
+    personalization: textEncoder.encode('Zcash_OrchardKDF')
+  });
+}
+
+/**
+ * PRF^ock,Orchard(ovk, cv, cmx, epk)
+ */
+function prfOck(ovk: Uint8Array, cv: Uint8Array, cmx: Uint8Array, ephemeralKey: Uint8Array): Uint8Array {
+  return blake2b(concatBytes(ovk, cv, cmx, ephemeralKey), {
+    dkLen: 32,
+    personalization: textEncoder.encode('Zcash_Orchardock')
+  });
+}
+
+/**
+ * ChaCha20-Poly1305 decryption returning null on authentication failure
+ */
+function tryOpen(key: Uint8Array, ciphertext: Uint8Array): Uint8Array | null {
+  try {
+    return chacha20poly1305(key, ZERO_NONCE).decrypt(ciphertext);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt a new note for its recipient (and for the sender via ovk)
+ */
+export function encryptOrchardNote(
+  params: OrchardNoteEncryptionParams,
+  primitives: OrchardPrimitives
+): EncryptedOrchardNote {
+  const diversifier = params.recipient.slice(0, 11);
+  const pkd = params.recipient.slice(11, 43);
+  const esk = deriveOrchardEsk(params.rseed, params.rho);
+  const ephemeralKey = pallasScalarMultiply(esk, primitives.diversifyHash(diversifier));
+
+  const plaintext = encodeOrchardNotePlaintext({
+    diversifier,
+    value: params.value,
+    rseed: params.rseed,
+    memo: params.memo
+  });
+  const encKey = kdfOrchard(pallasScalarMultiply(esk, pkd), ephemeralKey);
+  const encCiphertext = chacha20poly1305(encKey, ZERO_NONCE).encrypt(plaintext);
+
+  // Without an ovk, a random ock makes the outgoing ciphertext undecryptable
+  const ock = params.ovk ? prfOck(params.ovk, params.cv, params.cmx, ephemeralKey) : randomBytes(32);
+  const outCiphertext = chacha20poly1305(ock, ZERO_NONCE).encrypt(concatBytes(pkd, esk));
+
+  return { ephemeralKey, encCiphertext, outCiphertext };
+}
+
+/**
+ * Check a decrypted plaintext against the action and build the note
+ */
+function checkDecryptedNote(
+  plaintext: OrchardNotePlaintext,
+  pkd: Uint8Array,
+  action: Pick<OrchardActionCiphertext, 'nullifier' | 'cmx' | 'ephemeralKey'>,
+  primitives: OrchardPrimitives
+): DecryptedOrchardNote | null {
+  const rho = action.nullifier;
+  const esk = deriveOrchardEsk(plaintext.rseed, rho);
+  const gd = primitives.diversifyHash(plaintext.diversifier);
+  if (!bytesEqual(pallasScalarMultiply(esk, gd), action.ephemeralKey)) {
+    return null;
+  }
+
+  const note: OrchardNoteParts = {
+    recipient: concatBytes(plaintext.diversifier, pkd),
+    value: plaintext.value,
+    rho,
+    rseed: plaintext.rseed
+  };
+  if (!bytesEqual(primitives.noteCommitment(note), action.cmx)) {
+    return null;
+  }
+
+  return { ...note, memo: plaintext.memo };
+}
+
+/**
+ * Trial-decrypt an action with an incoming viewing key
+ *
+ * @returns The note, or null if the action is not addressed to ivk
+ */
+export function tryDecryptOrchardAction(
+  action: OrchardActionCiphertext,
+  ivk: Uint8Array,
+  primitives: OrchardPrimitives
+): DecryptedOrchardNote | null {
+  if (action.encCiphertext.length !== ORCHARD_ENC_CIPHERTEXT_SIZE) {
+    return null;
+  }
+
+  let sharedSecret: Uint8Array;
+  try {
+    sharedSecret = pallasScalarMultiply(ivk, action.ephemeralKey);
+  } catch {
+    return null;
+  }
+
+  const opened = tryOpen(kdfOrchard(sharedSecret, action.ephemeralKey), action.encCiphertext);
+  if (!opened) {
+    return null;
+  }
+
+  let plaintext: OrchardNotePlaintext;
+  try {
+    plaintext = parseOrchardNotePlaintext(opened);
+  } catch {
+    return null;
+  }
+
+  const pkd = pallasScalarMultiply(ivk, primitives.diversifyHash(plaintext.diversifier));
+  return checkDecryptedNote(plaintext, pkd, action, primitives);
+}
+
+/**
+ * Trial-decrypt the compact form of an action with an incoming viewing key
+ *
+ * The compact ciphertext has no authentication tag; the note is accepted
+ * once epk and cmx recompute. The memo is not part of it and is left empty.
+ *
+ * @returns The note, or null if the action is not addressed to ivk
+ */
+export function tryDecryptCompactOrchardAction(
+  action: CompactOrchardActionCiphertext,
+  ivk: Uint8Array,
+  primitives: OrchardPrimitives
+): DecryptedOrchardNote | null {
+  if (action.ciphertext.length !== ORCHARD_COMPACT_NOTE_SIZE) {
+    return null;
+  }
+
+  let sharedSecret: Uint8Array;
+  try {
+    sharedSecret = pallasScalarMultiply(ivk, action.ephemeralKey);
+  } catch {
+    return null;
+  }
+
+  // Block 0 of the keystream is the Poly1305 key, so the plaintext starts at block 1
+  const opened = chacha20(kdfOrchard(sharedSecret, action.ephemeralKey), ZERO_NONCE, action.ciphertext, undefined, 1);
+  if (opened[0] !== NOTE_PLAINTEXT_LEAD_BYTE) {
+    return null;
+  }
+
+  const plaintext: OrchardNotePlaintext = {
+    diversifier: opened.slice(1, 12),
+    value: leBytesToBigint(opened.slice(12, 20)),
+    rseed: opened.slice(20, 52),
+    memo: new Uint8Array(0)
+  };
+
+  let pkd: Uint8Array;
+  try {
+    pkd = pallasScalarMultiply(ivk, primitives.diversifyHash(plaintext.diversifier));
+  } catch {
+    return null;
+  }
+  return checkDecryptedNote(plaintext, pkd, action, primitives);
+}
+
+/**
+ * Recover a note we sent, using the outgoing viewing key
+ *
+ * @returns The note, or null if the action was not sent with ovk
+ */
+export function tryRecoverOrchardOutgoing(
+  action: OrchardActionCiphertext,
+  ovk: Uint8Array,
+  primitives: OrchardPrimitives
+): DecryptedOrchardNote | null {
+  if (action.outCiphertext.length !== ORCHARD_OUT_CIPHERTEXT_SIZE ||
+      action.encCiphertext.length !== ORCHARD_ENC_CIPHERTEXT_SIZE) {
+    return null;
+  }
+
+  const opened = tryOpen(prfOck(ovk, action.cv, action.cmx, action.ephemeralKey), action.outCiphertext);
+  if (!opened) {
+    return null;
+  }
+  const pkd = opened.slice(0, 32);
+  const esk = opened.slice(32, 64);
+
+  let sharedSecret: Uint8Array;
+  try {
+    sharedSecret = pallasScalarMultiply(esk, pkd);
+  } catch {
+    return null;
+  }
+
+  const decrypted = tryOpen(kdfOrchard(sharedSecret, action.ephemeralKey), action.encCiphertext);
+  if (!decrypted) {
+    return null;
+  }
+
+  let plaintext: OrchardNotePlaintext;
+  try {
+    plaintext = parseOrchardNotePlaintext(decrypted);
+  } catch {
+    return null;
+  }
+
+  if (!bytesEqual(deriveOrchardEsk(plaintext.rseed, action.nullifier), esk)) {
+    return null;
+  }
+  return checkDecryptedNote(plaintext, pkd, action, primitives);
+}
@@ -0,0 +1,159 @@
+/**
+ * Orchard Note Scanner
+ * Trial-decrypts Orchard actions for a full viewing key
+ */
+
+import type { Network } from '../types/index';
+import type { OrchardBundle, OrchardNote, ScannedOrchardNote, CompactOrchardNote } from './types.js';
+import { encodeUnifiedAddress } from '../address/unified';
+import { OrchardFullViewingKey } from './orchardKeys.js';
+import { OrchardNoteCache } from './orchardNoteCache.js';
+import {
+  tryDecryptOrchardAction,
+  tryDecryptCompactOrchardAction,
+  tryRecoverOrchardOutgoing,
+  ORCHARD_ENC_CIPHERTEXT_SIZE,
+  ORCHARD_OUT_CIPHERTEXT_SIZE
+} from './orchardNoteEncryption.js';
+import type { DecryptedOrchardNote } from './orchardNoteEncryption.js';
+import type { OrchardPrimitives } from './halo2Prover.js';
+
+/**
+ * Orchard Note Scanner
+ */
+export class OrchardNoteScanner {
+  private fvk: OrchardFullViewingKey;
+  private primitives: OrchardPrimitives;
+  private cache: OrchardNoteCache;
+  private network: Network;
+  private ivk: Uint8Array;
+  private ovk: Uint8Array;
+  private accountAddress?: string;
+
+  /**
+   * @param accountAddress - Address that notes are filed under, whichever
+   *   diversified address they were sent to (defaults to that address)
+   */
+  constructor(
+    fvk: OrchardFullViewingKey,
+    primitives: OrchardPrimitives,
+    cache: OrchardNoteCache,
+    network: Network,
+    accountAddress?: string
+  ) {
+    this.fvk = fvk;
+    this.primitives = primitives;
+    this.cache = cache;
+    this.network = network;
+    this.accountAddress = accountAddress;
+    this.ivk = fvk.incomingViewingKey(primitives);
+    this.ovk = fvk.outgoingViewingKey();
+  }
+
+  /**
+   * Scan a transaction's Orchard bundle, adding found notes to the cache
+   * and marking our revealed nullifiers as spent
+   *
+   * @param startPosition - Tree position of the bundle's first cmx, if known
+   */
+  scanBundle(
+    bundle: OrchardBundle,
+    blockHeight: number,
+    txIndex: number,
+    startPosition?: number
+  ): ScannedOrchardNote[] {
+    return this.scanActions(
+      bundle.actions.map(action => ({ ...action, ciphertext: action.encCiphertext.slice(0, 52) })),
+      blockHeight,
+      txIndex,
+      startPosition
+    );
+  }
+
+  /**
+   * Scan a transaction's Orchard actions, adding found notes to the cache
+   * and marking our revealed nullifiers as spent
+   *
+   * Actions from compact blocks are only trial-decrypted with the ivk, and
+   * their notes have no memo; sent notes are recovered with the ovk when the
+   * full ciphertexts are present.
+   *
+   * @param startPosition - Tree position of the transaction's first cmx, if known
+   */
+  scanActions(
+    actions: CompactOrchardNote[],
+    blockHeight: number,
+    txIndex: number,
+    startPosition?: number
+  ): ScannedOrchardNote[] {
+    const found: ScannedOrchardNote[] = [];
+
+    actions.forEach((action, actionIndex) => {
+      if (this.cache.getNoteByNullifier(action.nullifier)) {
+        this.cache.markSpent(action.nullifier, blockHeight);
+      }
+
+      const position = startPosition !== undefined ? startPosition + actionIndex : undefined;
+      const { encCiphertext, outCiphertext, cv } = action;
+      const full = encCiphertext?.length === ORCHARD_ENC_CIPHERTEXT_SIZE &&
+        outCiphertext?.length === ORCHARD_OUT_CIPHERTEXT_SIZE && cv
+        ? { ...action, encCiphertext, outCiphertext, cv }
+        : null;
+
+      const received = full
+        ? tryDecryptOrchardAction(full, this.ivk, this.primitives)
+        : tryDecryptCompactOrchardAction(action, this.ivk, this.primitives);
+      if (received) {
+        found.push({
+          note: this.toNote(received, action.cmx, true, blockHeight, position),
+          blockHeight,
+          txIndex,
+          actionIndex,
+          isOutgoing: false
+        });
+        return;
+      }
+
+      const sent = full ? tryRecoverOrchardOutgoing(full, this.ovk, this.primitives) : null;
+      if (sent) {
+        found.push({
+          note: this.toNote(sent, action.cmx, false, blockHeight, position),
+          blockHeight,
+          txIndex,
+          actionIndex,
+          isOutgoing: true
+        });
+      }
+    });
+
+    this.cache.addNotes(found);
+    return found;
+  }
+
+  /**
+   * Build a cache note; only our own notes get a nullifier
+   */
+  private toNote(
+    decrypted: DecryptedOrchardNote,
+    cmx: Uint8Array,
+    owned: boolean,
+    blockHeight: number,
+    position?: number
+  ): OrchardNote {
+    return {
+      recipient: decrypted.recipient,
+      value: Number(decrypted.value),
+      rho: decrypted.rho,
+      rseed: decrypted.rseed,
+      cmx,
+      nullifier: owned ? this.primitives.nullifier(this.fvk.nk, decrypted) : new Uint8Array(0),
+      address: owned && this.accountAddress
+        ? this.accountAddress
+        : encodeUnifiedAddress({ network: this.network, orchard: decrypted.recipient }),
+      position,
+      blockHeight,
+      memo: decrypted.memo,
+      spent: false
+    };
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Orchard WASM Loader
+ *
+ * Browser loader for the Orchard Halo2 backend (the `orchard` crate built with
+ * wasm-pack). Halo2 has no trusted setup, so unlike the Sapling prover no
+ * parameter files need to be fetched alongside the module.
+ */
+
+export type OrchardWasmModule = {
+  // Initialization functions (common wasm-pack output)
+  init?: (wasm?: any) => Promise<void>;
+  default?: () => Promise<void> | any;
+
+  // ============================================================
+  // Pallas primitives (GroupHash, Sinsemilla, Poseidon, RedPallas)
+  // ============================================================
+
+  /** ak = [ask] G_Orchard (32-byte point encoding) */
+  orchard_spend_validating_key?: (ask: Uint8Array) => Uint8Array;
+
+  /** ivk = Commit^ivk_rivk(Extract_P(ak), nk); empty array for ⊥ */
+  orchard_commit_ivk?: (ak: Uint8Array, nk: Uint8Array, rivk: Uint8Array) => Uint8Array;
+
+  /** g_d = DiversifyHash(d) */
+  orchard_diversify_hash?: (diversifier: Uint8Array) => Uint8Array;
+
+  /** cmx = Extract_P(NoteCommit(...)) for a note given by its parts */
+  orchard_note_commitment?: (
+    recipient: Uint8Array,
+    value: bigint,
+    rho: Uint8Array,
+    rseed: Uint8Array
+  ) => Uint8Array;
+
+  /** nf = DeriveNullifier_nk(rho, psi, cm) */
+  orchard_nullifier?: (
+    nk: Uint8Array,
+    recipient: Uint8Array,
+    value: bigint,
+    rho: Uint8Array,
+    rseed: Uint8Array
+  ) => Uint8Array;
+
+  /** MerkleCRH^Orchard(layer, left, right) */
+  orchard_merkle_hash?: (layer: number, left: Uint8Array, right: Uint8Array) => Uint8Array;
+
+  /** cv_net = ValueCommit_rcv(v), v signed */
+  orchard_value_commitment?: (value: bigint, rcv: Uint8Array) => Uint8Array;
+
+  /** rk = ak + [alpha] G_Orchard */
+  orchard_randomize_key?: (ak: Uint8Array, alpha: Uint8Array) => Uint8Array;
+
+  /** RedPallas spend authorization signature with rsk = ask + alpha */
+  orchard_sign_spend_auth?: (ask: Uint8Array, alpha: Uint8Array, sighash: Uint8Array) => Uint8Array;
+
+  /** RedPallas binding signature */
+  orchard_sign_binding?: (bsk: Uint8Array, sighash: Uint8Array) => Uint8Array;
+
+  // ============================================================
+  // Halo2 proving (one aggregated proof per bundle)
+  // ============================================================
+
+  /**
+   * Create the Action circuit proof
+   * @param witnesses - serialized action witnesses (see OrchardWasmBackend)
+   * @param anchor - 32 byte Orchard commitment tree root
+   * @param flags - flagsOrchard
+   * @returns Halo2 proof bytes
+   */
+  prove_actions?: (witnesses: Uint8Array, anchor: Uint8Array, flags: number) => Uint8Array;
+
+  /** Verify an Action circuit proof against serialized public instances */
+  verify_actions?: (proof: Uint8Array, instances: Uint8Array, anchor: Uint8Array, flags: number) => boolean;
+
+  memory?: WebAssembly.Memory;
+
+  // Additional exports
+  [key: string]: any;
+};
+
+let _module: OrchardWasmModule | null = null;
+let _ready: Promise<OrchardWasmModule> | null = null;
+
+/**
+ * Load the Orchard WASM module
+ *
+ * @param baseUrl - Base URL for WASM files (default: '/orchard-wasm')
+ * @returns Promise resolving to loaded WASM module
+ */
+export async function loadOrchardWasm(baseUrl: string = '/orchard-wasm'): Promise<OrchardWasmModule> {
+  if (_module) return _module;
+  if (_ready) return _ready;
+
+  _ready = (async () => {
+    // Attempt 1: dynamic import of generated JS wrapper (common wasm-pack output)
+    const possibleWrapperPaths = [
+      `${baseUrl}/orchard_wasm.js`,
+      `${baseUrl}/orchard-wasm.js`,
+      '/rust-wasm/pkg/orchard_wasm.js' // Development path
+    ];
+
+    for (const wrapperPath of possibleWrapperPaths) {
+      try {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        const wrapper = await import(/* webpackIgnore: true */ /* @vite-ignore */ wrapperPath);
+
+        if (typeof wrapper === 'function') {
+          _module = (await wrapper()) as unknown as OrchardWasmModule;
+          return _module!;
+        } else if (wrapper && typeof wrapper.default === 'function') {
+          // wasm-pack --target web: default() instantiates, named exports are the API
+          await wrapper.default();
+          _module = wrapper as unknown as OrchardWasmModule;
+          return _module!;
+        } else {
+          _module = wrapper as unknown as OrchardWasmModule;
+
+          if (_module.init && typeof _module.init === 'function') {
+            await _module.init();
+          }
+
+          return _module!;
+        }
+      } catch (err) {
+        continue;
+      }
+    }
+
+    // Attempt 2: fetch and instantiate raw wasm binary
+    const possibleWasmPaths = [
+      `${baseUrl}/orchard_wasm_bg.wasm`,
+      `${baseUrl}/orchard-wasm_bg.wasm`,
+      '/rust-wasm/pkg/orchard_wasm_bg.wasm' // Development path
+    ];
+
+    for (const wasmPath of possibleWasmPaths) {
+      try {
+        const wasmRes = await fetch(wasmPath);
+        if (!wasmRes.ok) continue;
+
+        const instance = await WebAssembly.instantiate(await wasmRes.arrayBuffer(), { env: {} });
+        _module = instance.instance.exports as unknown as OrchardWasmModule;
+        return _module!;
+      } catch (err) {
+        continue;
+      }
+    }
+
+    throw new Error(
+      `Failed to load Orchard WASM backend. ` +
+      `Tried paths: ${possibleWrapperPaths.join(', ')} and ${possibleWasmPaths.join(', ')}. ` +
+      `Ensure WASM files are built and available.`
+    );
+  })();
+
+  try {
+    return await _ready;
+  } finally {
+    // Clear loading promise on completion (success or failure)
+    _ready = null;
+  }
+}
+
+/**
+ * Check if the Orchard WASM backend is loaded
+ */
+export function isOrchardWasmLoaded(): boolean {
+  return _module !== null;
+}
+
+/**
+ * Get loaded module (throws if not loaded)
+ */
+export function getOrchardWasmModule(): OrchardWasmModule {
+  if (!_module) {
+    throw new Error('Orchard WASM module not loaded. Call loadOrchardWasm() first.');
+  }
+  return _module;
+}
+
+/**
+ * Use an already-instantiated module (e.g. bundled by the host app)
+ */
+export function setOrchardWasmModule(module: OrchardWasmModule): void {
+  _module = module;
+  _ready = null;
+}
+
+/**
+ * Reset loader (for testing)
+ */
+export function resetOrchardWasmLoader(): void {
+  _module = null;
+  _ready = null;
+}
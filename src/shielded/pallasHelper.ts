@@ -0,0 +1,109 @@
+/**
+ * Pallas Elliptic Curve Helper Functions
+ * Implements the Pallas operations needed for Zcash Orchard
+ *
+ * Pallas (y² = x³ + 5) is the Orchard curve, used for:
+ * - Key agreement in note encryption (epk = [esk] g_d, [ivk] epk)
+ * - Diversified transmission keys (pk_d = [ivk] g_d)
+ *
+ * Points use the Orchard encoding repr_P: the x-coordinate in 32 little-endian
+ * bytes with the sign of y (ỹ) in the top bit; the identity encodes as zeros.
+ *
+ * Reference: https://zips.z.cash/protocol/protocol.pdf#pallasandvesta
+ */
+
+import { pallas, pasta_p, pasta_q } from '@noble/curves/misc';
+import { bytesToBigInt, bigIntToBytes } from './scalarArithmetic.js';
+
+/**
+ * Pallas base field modulus q_P
+ */
+export const PALLAS_BASE_ORDER = pasta_p;
+
+/**
+ * Pallas group order r_P (the Orchard scalar field)
+ */
+export const PALLAS_SCALAR_ORDER = pasta_q;
+
+type PallasPoint = InstanceType<typeof pallas.Point>;
+
+/**
+ * ToScalar^Orchard(x) = LEOS2IP(x) mod r_P, as 32 little-endian bytes
+ */
+export function toPallasScalar(bytes: Uint8Array): Uint8Array {
+  return bigIntToBytes(bytesToBigInt(bytes) % PALLAS_SCALAR_ORDER, 32);
+}
+
+/**
+ * ToBase^Orchard(x) = LEOS2IP(x) mod q_P, as 32 little-endian bytes
+ */
+export function toPallasBase(bytes: Uint8Array): Uint8Array {
+  return bigIntToBytes(bytesToBigInt(bytes) % PALLAS_BASE_ORDER, 32);
+}
+
+/**
+ * Negate a Pallas scalar
+ */
+export function negatePallasScalar(scalar: Uint8Array): Uint8Array {
+  const value = bytesToBigInt(scalar) % PALLAS_SCALAR_ORDER;
+  return bigIntToBytes(value === 0n ? 0n : PALLAS_SCALAR_ORDER - value, 32);
+}
+
+/**
+ * Encode a point as repr_P
+ */
+export function encodePallasPoint(point: PallasPoint): Uint8Array {
+  if (point.is0()) {
+    return new Uint8Array(32);
+  }
+  const { x, y } = point.toAffine();
+  const bytes = bigIntToBytes(x, 32);
+  if (y & 1n) {
+    bytes[31] |= 0x80;
+  }
+  return bytes;
+}
+
+/**
+ * Decode repr_P, rejecting non-canonical and off-curve encodings
+ */
+export function decodePallasPoint(bytes: Uint8Array): PallasPoint {
+  if (bytes.length !== 32) {
+    throw new Error(`Invalid Pallas point length: expected 32 bytes, got ${bytes.length}`);
+  }
+
+  const sign = (bytes[31] >> 7) & 1;
+  const xBytes = bytes.slice();
+  xBytes[31] &= 0x7f;
+  const x = bytesToBigInt(xBytes);
+
+  if (x === 0n && sign === 0) {
+    return pallas.Point.ZERO;
+  }
+  if (x >= PALLAS_BASE_ORDER) {
+    throw new Error('Invalid Pallas point: non-canonical x-coordinate');
+  }
+
+  const Fp = pallas.Point.Fp;
+  let y: bigint;
+  try {
+    y = Fp.sqrt(Fp.add(Fp.pow(x, 3n), 5n));
+  } catch {
+    throw new Error('Invalid Pallas point: not on curve');
+  }
+  if ((y & 1n) !== BigInt(sign)) {
+    y = Fp.neg(y);
+  }
+
+  const point = pallas.Point.fromAffine({ x, y });
+  point.assertValidity();
+  return point;
+}
+
+/**
+ * [scalar] point, with both in their 32-byte encodings
+ */
+export function pallasScalarMultiply(scalar: Uint8Array, point: Uint8Array): Uint8Array {
+  const k = bytesToBigInt(scalar) % PALLAS_SCALAR_ORDER;
+  return encodePallasPoint(decodePallasPoint(point).multiplyUnsafe(k));
+}
@@ -0,0 +1,590 @@
+/**
+ * Partially Created Zcash Transactions (PCZT)
+ * Splits building, proving and signing a transaction across parties
+ *
+ * A PCZT is passed between roles until it can be broadcast:
+ * - Creator: turns an unsigned transaction into a PCZT without its keys
+ * - Prover: adds the Sapling proofs (ZcashProver, DelegatedProver, ...)
+ * - Signer: adds the signatures for the keys it holds
+ * - Combiner: merges PCZTs signed by different key holders
+ * - Extractor: adds the binding signature and serializes the transaction
+ *
+ * PCZTs are serialized as JSON, so they can be carried to an air-gapped
+ * signer. They hold the note and value commitment randomness of the
+ * transaction and should only be shared with its participants.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import type {
+  SaplingSpendingKey,
+  SaplingProofGenerationKey,
+  SaplingProof,
+  SpendProofInputs,
+  OutputProofInputs,
+  ShieldedBundle
+} from './types.js';
+import type { UnsignedShieldedTransaction, ShieldedSigningData } from './transactionBuilder.js';
+import type { SignedShieldedTransaction } from './signer.js';
+import type { Network, Transaction, TransparentInput } from '../types/index';
+import { ZcashProver } from './prover.js';
+import { TransactionSerializer } from './transactionSerializer.js';
+import { parseZcashAddress } from './bech32.js';
+import { saplingRandomizedKey, saplingSpendValidatingKey } from './zip32.js';
+import { signSpendAuth } from './redJubjub.js';
+import { addScalars } from './scalarArithmetic.js';
+import { ZcashSigner } from '../transactions/signing';
+import { SAPLING_VERSION_GROUP_ID } from '../transactions/consensus';
+import {
+  computeSignatureHash,
+  resolveConsensusBranchId,
+  SIGHASH_ALL
+} from '../transactions/sighash';
+import type { SighashTransaction } from '../transactions/sighash';
+import {
+  createP2PKHScriptFromPubKey,
+  createMultisigScriptSig,
+  decodeMultisigRedeemScript
+} from '../address/script';
+import type { MultisigSignature } from '../address/script';
+import { bytesToHex, hexToBytes, bytesEqual, concatBytes } from '../utils/bytes';
+
+/**
+ * Current PCZT format version
+ */
+export const PCZT_VERSION = 1;
+
+/**
+ * Transparent input of a PCZT
+ */
+export type PcztTransparentInput = TransparentInput & {
+  /** Cosigner signatures of a P2SH multisig input, until it has enough */
+  partialSignatures?: MultisigSignature[];
+};
+
+/**
+ * Transaction carried by a PCZT, with the proofs and signatures added so far
+ */
+export type PcztTransaction = Omit<UnsignedShieldedTransaction, 'signingData' | 'consensusBranchId' | 'transparentInputs'> & {
+  consensusBranchId: number;
+  transparentInputs: PcztTransparentInput[];
+};
+
+/**
+ * Proving data for a Sapling spend (the spending key is not included)
+ */
+export type PcztSpend = Omit<ShieldedSigningData['spends'][number], 'spendingKey'>;
+
+/**
+ * Proving data for a Sapling output
+ */
+export type PcztOutput = ShieldedSigningData['outputs'][number];
+
+/**
+ * Partially created transaction
+ */
+export interface Pczt {
+  /** Format version */
+  version: typeof PCZT_VERSION;
+
+  network: Network;
+
+  tx: PcztTransaction;
+
+  /** Proving data for each Sapling spend, in bundle order */
+  spends: PcztSpend[];
+
+  /** Proving data for each Sapling output, in bundle order */
+  outputs: PcztOutput[];
+
+  /** Binding signature key, used by the extractor */
+  bsk: Uint8Array;
+}
+
+/**
+ * Proof backend used by the prover role
+ *
+ * ZcashProver and DelegatedProver both qualify.
+ */
+export interface PcztProofGenerator {
+  generateSpendProof(inputs: SpendProofInputs): Promise<SaplingProof>;
+  generateOutputProof(inputs: OutputProofInputs): Promise<SaplingProof>;
+}
+
+/**
+ * Keys held by a signer
+ */
+export interface PcztSigningKeys {
+  /**
+   * Transparent private keys; P2PKH inputs are matched by their scriptPubKey,
+   * P2SH multisig inputs by the keys of their redeem script
+   */
+  transparentKeys?: Uint8Array[];
+
+  /** Sapling spending key; spends are matched by their randomized key */
+  spendingKey?: SaplingSpendingKey;
+}
+
+/**
+ * Serialized PCZT: byte arrays and bigints are tagged so they survive JSON
+ */
+interface TaggedBytes {
+  $bytes: string;
+}
+
+interface TaggedBigint {
+  $bigint: string;
+}
+
+/**
+ * Creator: wrap an unsigned transaction in a PCZT
+ *
+ * Accepts transactions from ShieldedTransactionBuilder and transparent
+ * transactions from ZcashTransactionBuilder. Sapling spends can be built
+ * from the full viewing key alone; spending keys are dropped either way,
+ * so a PCZT can be handed to a prover or stored without exposing them.
+ */
+export function createPczt(tx: UnsignedShieldedTransaction | Transaction, network: Network): Pczt {
+  const consensusBranchId = resolveConsensusBranchId(tx, network);
+  const transparentInputs = tx.transparentInputs.map(input => ({ ...input, scriptSig: undefined, partialSignatures: undefined }));
+  const transparentOutputs = tx.transparentOutputs.map(output => ({ ...output }));
+
+  if (!('signingData' in tx)) {
+    const bundle = tx.saplingBundle;
+    if (bundle && bundle.spends.length + bundle.outputs.length > 0) {
+      throw new Error('Transactions with Sapling parts must come from ShieldedTransactionBuilder');
+    }
+
+    return {
+      version: PCZT_VERSION,
+      network,
+      tx: {
+        version: tx.version,
+        versionGroupId: tx.versionGroupId ?? SAPLING_VERSION_GROUP_ID,
+        consensusBranchId,
+        transparentInputs,
+        transparentOutputs,
+        shieldedBundle: { spends: [], outputs: [], valueBalance: 0n, bindingSig: new Uint8Array(64) },
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight
+      },
+      spends: [],
+      outputs: [],
+      bsk: new Uint8Array(32)
+    };
+  }
+
+  return {
+    version: PCZT_VERSION,
+    network,
+    tx: {
+      version: tx.version,
+      versionGroupId: tx.versionGroupId,
+      consensusBranchId,
+      transparentInputs,
+      transparentOutputs,
+      shieldedBundle: {
+        ...tx.shieldedBundle,
+        spends: tx.shieldedBundle.spends.map(spend => ({ ...spend })),
+        outputs: tx.shieldedBundle.outputs.map(output => ({ ...output }))
+      },
+      lockTime: tx.lockTime,
+      expiryHeight: tx.expiryHeight
+    },
+    spends: tx.signingData.spends.map(({ spendingKey: _spendingKey, ...spend }) => ({ ...spend })),
+    outputs: tx.signingData.outputs.map(output => ({ ...output })),
+    bsk: tx.signingData.bsk
+  };
+}
+
+/**
+ * Prover: add the Sapling proofs
+ *
+ * Proving spends needs the proof generation key (ak, nsk) of the notes,
+ * which cannot authorize a spend: ask stays with the signer. Outputs are
+ * proven without any key.
+ */
+export async function provePczt(
+  pczt: Pczt,
+  prover: PcztProofGenerator,
+  proofGenerationKey?: SaplingProofGenerationKey
+): Promise<Pczt> {
+  const bundle = pczt.tx.shieldedBundle;
+  if (bundle.spends.some(spend => !isEmpty(spend.spendAuthSig)) ||
+      pczt.tx.transparentInputs.some(input => input.scriptSig || input.partialSignatures?.length)) {
+    throw new Error('PCZT is already signed; proofs must be added before signing');
+  }
+  if (pczt.spends.length > 0 && !proofGenerationKey) {
+    throw new Error('Proving Sapling spends needs the proof generation key of the notes');
+  }
+
+  const spends = [];
+  for (let i = 0; i < pczt.spends.length; i++) {
+    const spend = pczt.spends[i];
+    if (!ownsSpend(bundle.spends[i].rk, proofGenerationKey!.ak, spend.alpha)) {
+      throw new Error(`Proof generation key does not match spend ${i}`);
+    }
+
+    const proof = await prover.generateSpendProof({
+      rcv: spend.rcv,
+      alpha: spend.alpha,
+      value: BigInt(spend.note.value),
+      rcm: spend.note.rcm,
+      ak: proofGenerationKey!.ak,
+      nsk: proofGenerationKey!.nsk,
+      anchor: spend.anchor,
+      merklePath: spend.witness.authPath,
+      position: spend.witness.position
+    });
+    // cv and rk were fixed by the creator and are covered by the signatures
+    spends.push({ ...bundle.spends[i], zkproof: proof.proof });
+  }
+
+  const outputs = [];
+  for (let i = 0; i < pczt.outputs.length; i++) {
+    const output = pczt.outputs[i];
+    const { diversifier, pkD } = parseZcashAddress(output.params.address);
+
+    const proof = await prover.generateOutputProof({
+      rcv: output.rcv,
+      value: BigInt(output.params.value),
+      rcm: output.rcm,
+      diversifier,
+      pkD,
+      esk: output.esk
+    });
+    outputs.push({ ...bundle.outputs[i], zkproof: proof.proof });
+  }
+
+  return { ...pczt, tx: { ...pczt.tx, shieldedBundle: { ...bundle, spends, outputs } } };
+}
+
+/**
+ * Signer: add the signatures the given keys can make
+ *
+ * Parts that are already signed are left alone, so several key holders can
+ * sign one PCZT in turn, or sign copies that are merged with combinePczts.
+ *
+ * @throws If none of the keys signs an unsigned part of the transaction
+ */
+export function signPczt(pczt: Pczt, keys: PcztSigningKeys): Pczt {
+  if (!isProven(pczt)) {
+    throw new Error('PCZT must be proven before signing');
+  }
+
+  const bundle = pczt.tx.shieldedBundle;
+  let signedCount = 0;
+
+  // Spend authorization signatures over the shielded signature hash
+  let spends = bundle.spends;
+  if (keys.spendingKey && bundle.spends.length > 0) {
+    const sighash = computeSignatureHash(sighashTransaction(pczt.tx), SIGHASH_ALL);
+    const ak = saplingSpendValidatingKey(keys.spendingKey.ask);
+    spends = bundle.spends.map((spend, i) => {
+      if (!isEmpty(spend.spendAuthSig) || !ownsSpend(spend.rk, ak, pczt.spends[i].alpha)) {
+        return spend;
+      }
+      const sig = signSpendAuth(addScalars(keys.spendingKey!.ask, pczt.spends[i].alpha), sighash);
+      signedCount++;
+      return { ...spend, spendAuthSig: concatBytes(sig.r, sig.s) };
+    });
+  }
+
+  // Transparent inputs; their signature hash commits to the proven bundle
+  let transparentInputs = pczt.tx.transparentInputs;
+  if (keys.transparentKeys && keys.transparentKeys.length > 0) {
+    const keysByScript = new Map(keys.transparentKeys.map(key =>
+      [bytesToHex(createP2PKHScriptFromPubKey(secp256k1.getPublicKey(key, true))), key] as const
+    ));
+    const signer = new ZcashSigner(pczt.network);
+    const tx = transparentTransaction(pczt.tx);
+    const saplingBundle = hasShieldedParts(pczt) ? bundle : null;
+
+    transparentInputs = transparentInputs.map((input, i) => {
+      if (input.scriptSig) {
+        return input;
+      }
+
+      if (input.redeemScript) {
+        const partialSignatures = [...(input.partialSignatures ?? [])];
+        const { publicKeys } = decodeMultisigRedeemScript(hexToBytes(input.redeemScript));
+        for (const key of keys.transparentKeys!) {
+          const publicKey = secp256k1.getPublicKey(key, true);
+          const isCosigner = publicKeys.some(cosigner => bytesEqual(cosigner, publicKey));
+          const hasSigned = partialSignatures.some(entry => bytesEqual(entry.publicKey, publicKey));
+          if (isCosigner && !hasSigned) {
+            partialSignatures.push(signer.signMultisigInput(tx, i, key, input.redeemScript, saplingBundle));
+            signedCount++;
+          }
+        }
+        return finalizeMultisigInput({ ...input, partialSignatures });
+      }
+
+      const key = keysByScript.get(input.scriptPubKey.toLowerCase());
+      if (!key) {
+        return input;
+      }
+      signedCount++;
+      return { ...input, scriptSig: signer.signTransparentInput(tx, i, key, saplingBundle) };
+    });
+  }
+
+  if (signedCount === 0) {
+    throw new Error('None of the keys can sign an unsigned part of this PCZT');
+  }
+
+  return {
+    ...pczt,
+    tx: { ...pczt.tx, transparentInputs, shieldedBundle: { ...bundle, spends } }
+  };
+}
+
+/**
+ * Combiner: merge the proofs and signatures of PCZTs for one transaction
+ */
+export function combinePczts(pczts: Pczt[]): Pczt {
+  if (pczts.length === 0) {
+    throw new Error('No PCZTs to combine');
+  }
+
+  const [first, ...others] = pczts;
+  const digest = transactionDigest(first);
+  let combined = first;
+
+  for (const other of others) {
+    if (other.network !== first.network || !bytesEqual(transactionDigest(other), digest)) {
+      throw new Error('PCZTs are for different transactions');
+    }
+
+    const bundle = combined.tx.shieldedBundle;
+    const otherBundle = other.tx.shieldedBundle;
+
+    const spends = bundle.spends.map((spend, i) => ({
+      ...spend,
+      zkproof: mergeProof(spend.zkproof, otherBundle.spends[i].zkproof),
+      spendAuthSig: isEmpty(spend.spendAuthSig) ? otherBundle.spends[i].spendAuthSig : spend.spendAuthSig
+    }));
+    const outputs = bundle.outputs.map((output, i) => ({
+      ...output,
+      zkproof: mergeProof(output.zkproof, otherBundle.outputs[i].zkproof)
+    }));
+    const transparentInputs = combined.tx.transparentInputs.map((input, i) => {
+      const otherInput = other.tx.transparentInputs[i];
+      if (input.scriptSig || otherInput.scriptSig) {
+        return { ...input, scriptSig: input.scriptSig || otherInput.scriptSig, partialSignatures: undefined };
+      }
+
+      const partialSignatures = [...(input.partialSignatures ?? [])];
+      for (const entry of otherInput.partialSignatures ?? []) {
+        if (!partialSignatures.some(known => bytesEqual(known.publicKey, entry.publicKey))) {
+          partialSignatures.push(entry);
+        }
+      }
+      return input.redeemScript ? finalizeMultisigInput({ ...input, partialSignatures }) : input;
+    });
+
+    combined = {
+      ...combined,
+      tx: { ...combined.tx, transparentInputs, shieldedBundle: { ...bundle, spends, outputs } }
+    };
+  }
+
+  return combined;
+}
+
+/**
+ * Extractor: add the binding signature and serialize the transaction
+ *
+ * @throws If a proof or signature is missing
+ */
+export async function extractPczt(pczt: Pczt): Promise<SignedShieldedTransaction> {
+  const bundle = pczt.tx.shieldedBundle;
+
+  if (!isProven(pczt)) {
+    throw new Error('PCZT is missing Sapling proofs');
+  }
+  if (bundle.spends.some(spend => isEmpty(spend.spendAuthSig))) {
+    throw new Error('PCZT is missing spend authorization signatures');
+  }
+  const unsignedInputs = pczt.tx.transparentInputs
+    .map((input, i) => (input.scriptSig ? -1 : i))
+    .filter(i => i >= 0);
+  if (unsignedInputs.length > 0) {
+    throw new Error(`PCZT is missing signatures for transparent inputs: ${unsignedInputs.join(', ')}`);
+  }
+
+  // Transparent-only transactions have no Sapling bundle to serialize
+  if (!hasShieldedParts(pczt)) {
+    const signed = new ZcashSigner(pczt.network).finalizeTransaction(transparentTransaction(pczt.tx));
+    return { ...signed, shieldedBundle: bundle, nullifiers: [] };
+  }
+
+  const sighash = computeSignatureHash(sighashTransaction(pczt.tx), SIGHASH_ALL);
+  const bindingSig = await new ZcashProver().generateBindingSignature(pczt.bsk, bundle.valueBalance, sighash);
+  const signedBundle: ShieldedBundle = { ...bundle, bindingSig };
+  const signedTx = { ...pczt.tx, shieldedBundle: signedBundle };
+
+  return {
+    tx: { ...transparentTransaction(pczt.tx), saplingBundle: signedBundle },
+    txHash: TransactionSerializer.computeTxId(signedTx),
+    rawTx: bytesToHex(TransactionSerializer.serializeTransaction(signedTx)),
+    shieldedBundle: signedBundle,
+    nullifiers: signedBundle.spends.map(spend => spend.nullifier)
+  };
+}
+
+/**
+ * Serialize a PCZT to JSON
+ */
+export function serializePczt(pczt: Pczt): string {
+  return JSON.stringify(pczt, function (this: Record<string, unknown>, key: string, value: unknown) {
+    // Read the holder's value: a BigInt.prototype.toJSON would already have
+    // turned bigints into strings
+    const raw = this[key];
+    if (raw instanceof Uint8Array) {
+      return { $bytes: bytesToHex(raw) };
+    }
+    if (typeof raw === 'bigint') {
+      return { $bigint: raw.toString() };
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse a PCZT serialized with serializePczt
+ */
+export function parsePczt(data: string): Pczt {
+  let pczt: Pczt;
+  try {
+    pczt = JSON.parse(data, (_key, value) => {
+      if (value && typeof value === 'object' && typeof value.$bytes === 'string') {
+        return hexToBytes((value as TaggedBytes).$bytes);
+      }
+      if (value && typeof value === 'object' && typeof value.$bigint === 'string') {
+        return BigInt((value as TaggedBigint).$bigint);
+      }
+      return value;
+    }) as Pczt;
+  } catch (error) {
+    throw new Error(`Invalid PCZT: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (pczt?.version !== PCZT_VERSION) {
+    throw new Error(`Unsupported PCZT version: ${pczt?.version}`);
+  }
+  if (!pczt.tx || !Array.isArray(pczt.spends) || !Array.isArray(pczt.outputs) ||
+      pczt.spends.length !== pczt.tx.shieldedBundle?.spends.length ||
+      pczt.outputs.length !== pczt.tx.shieldedBundle?.outputs.length) {
+    throw new Error('Invalid PCZT: proving data does not match the Sapling bundle');
+  }
+  return pczt;
+}
+
+/**
+ * Whether every Sapling description carries a proof
+ */
+export function isProven(pczt: Pczt): boolean {
+  const bundle = pczt.tx.shieldedBundle;
+  return bundle.spends.every(spend => !isEmpty(spend.zkproof)) &&
+    bundle.outputs.every(output => !isEmpty(output.zkproof));
+}
+
+/**
+ * Build the scriptSig of a multisig input once it has enough signatures
+ */
+function finalizeMultisigInput(input: PcztTransparentInput): PcztTransparentInput {
+  const redeemScript = hexToBytes(input.redeemScript!);
+  const signatures = input.partialSignatures ?? [];
+  if (signatures.length < decodeMultisigRedeemScript(redeemScript).required) {
+    return input;
+  }
+  return {
+    ...input,
+    scriptSig: bytesToHex(createMultisigScriptSig(redeemScript, signatures)),
+    partialSignatures: undefined
+  };
+}
+
+/**
+ * Whether the transaction has a Sapling bundle
+ */
+function hasShieldedParts(pczt: Pczt): boolean {
+  return pczt.tx.shieldedBundle.spends.length + pczt.tx.shieldedBundle.outputs.length > 0;
+}
+
+/**
+ * Whether a proof or signature is still the all-zero placeholder
+ */
+function isEmpty(bytes: Uint8Array): boolean {
+  return bytes.every(byte => byte === 0);
+}
+
+/**
+ * Whether a spend's randomized key rk = ak + [alpha] G_spend belongs to a key
+ */
+function ownsSpend(rk: Uint8Array, ak: Uint8Array, alpha: Uint8Array): boolean {
+  return bytesEqual(saplingRandomizedKey(ak, alpha), rk);
+}
+
+/**
+ * Take the proof of either PCZT; proofs of both must agree
+ */
+function mergeProof(proof: Uint8Array, other: Uint8Array): Uint8Array {
+  if (isEmpty(proof)) {
+    return other;
+  }
+  if (!isEmpty(other) && !bytesEqual(proof, other)) {
+    throw new Error('PCZTs carry different proofs');
+  }
+  return proof;
+}
+
+/**
+ * Fields committed to by the signature hash
+ */
+function sighashTransaction(tx: PcztTransaction): SighashTransaction {
+  return {
+    version: tx.version,
+    versionGroupId: tx.versionGroupId,
+    consensusBranchId: tx.consensusBranchId,
+    lockTime: tx.lockTime,
+    expiryHeight: tx.expiryHeight,
+    transparentInputs: tx.transparentInputs,
+    transparentOutputs: tx.transparentOutputs,
+    saplingBundle: tx.shieldedBundle
+  };
+}
+
+/**
+ * Transparent view of the transaction, for ZcashSigner
+ */
+function transparentTransaction(tx: PcztTransaction): Transaction {
+  return {
+    version: tx.version,
+    versionGroupId: tx.versionGroupId,
+    consensusBranchId: tx.consensusBranchId,
+    lockTime: tx.lockTime,
+    expiryHeight: tx.expiryHeight,
+    transparentInputs: tx.transparentInputs,
+    transparentOutputs: tx.transparentOutputs,
+    valueBalance: Number(tx.shieldedBundle.valueBalance)
+  };
+}
+
+/**
+ * Digest identifying the transaction regardless of proofs and signatures
+ */
+function transactionDigest(pczt: Pczt): Uint8Array {
+  const bundle = pczt.tx.shieldedBundle;
+  return computeSignatureHash(
+    sighashTransaction({
+      ...pczt.tx,
+      shieldedBundle: {
+        ...bundle,
+        spends: bundle.spends.map(spend => ({ ...spend, zkproof: new Uint8Array(192) })),
+        outputs: bundle.outputs.map(output => ({ ...output, zkproof: new Uint8Array(192) }))
+      }
+    }),
+    SIGHASH_ALL
+  );
+}
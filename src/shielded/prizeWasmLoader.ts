@@ -17,7 +17,7 @@ export type PrizeWasmModule = {
   
   /**
    * Generate Sapling spend proof
-   * @param spending_key - 32 byte spending key (ask)
+   * @param proof_generation_key - 64 byte proof generation key (ak || nsk)
    * @param value - zatoshi value as bigint
    * @param rcv - 32 byte randomness for value commitment
    * @param alpha - 32 byte randomness for randomized key
@@ -27,7 +27,7 @@ export type PrizeWasmModule = {
    * @returns 192 byte Groth16 proof
    */
   prove_spend?: (
-    spending_key: Uint8Array,
+    proof_generation_key: Uint8Array,
     value: bigint,
     rcv: Uint8Array,
     alpha: Uint8Array,
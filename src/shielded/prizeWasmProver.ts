@@ -27,7 +27,7 @@ function assertUint8Array(x: unknown): asserts x is Uint8Array {
  * Spend proof input parameters (deserialized)
  */
 export interface SpendProofParams {
-  spendingKey: Uint8Array;  // 32 bytes - ask
+  proofGenerationKey: Uint8Array;  // 64 bytes - ak || nsk
   value: bigint;            // 8 bytes
   rcv: Uint8Array;          // 32 bytes - randomness for value commitment
   alpha: Uint8Array;        // 32 bytes - randomness for randomized key
@@ -47,7 +47,7 @@ export async function generateSpendProofDirect(params: SpendProofParams): Promis
   const mod = await loadPrizeWasm();
 
   // The actual WASM function signature:
-  // prove_spend(spending_key, value, rcv, alpha, anchor, merkle_path, position)
+  // prove_spend(proof_generation_key, value, rcv, alpha, anchor, merkle_path, position)
   const proveSpend = (mod as any).prove_spend;
   
   if (typeof proveSpend !== 'function') {
@@ -57,7 +57,7 @@ export async function generateSpendProofDirect(params: SpendProofParams): Promis
   try {
     // Call the actual WASM function with individual parameters
     const result = proveSpend(
-      params.spendingKey,
+      params.proofGenerationKey,
       params.value,
       params.rcv,
       params.alpha,
@@ -91,11 +91,10 @@ export async function generateSpendProof(input: Uint8Array): Promise<Uint8Array>
   assertUint8Array(input);
   
   // Deserialize the input buffer
-  // Format: [ask(32) | nsk(32) | value(8) | rcv(32) | alpha(32) | anchor(32) | merkle_path_len(4) | merkle_path(...) | position(8)]
+  // Format: [ak(32) | nsk(32) | value(8) | rcv(32) | alpha(32) | anchor(32) | merkle_path_len(4) | merkle_path(...) | position(8)]
   let offset = 0;
   
-  const spendingKey = input.slice(offset, offset + 32); offset += 32;
-  const _nsk = input.slice(offset, offset + 32); offset += 32; // Not used by prove_spend
+  const proofGenerationKey = input.slice(offset, offset + 64); offset += 64;
   
   const valueView = new DataView(input.buffer, input.byteOffset + offset, 8);
   const value = valueView.getBigUint64(0, true); offset += 8;
@@ -113,7 +112,7 @@ export async function generateSpendProof(input: Uint8Array): Promise<Uint8Array>
   const position = posView.getBigUint64(0, true);
 
   return generateSpendProofDirect({
-    spendingKey,
+    proofGenerationKey,
     value,
     rcv,
     alpha,
@@ -279,8 +278,8 @@ export class PrizeWasmProver {
     }
 
     // Validate inputs before serialization
-    if (!inputs.ask || inputs.ask.length !== 32) {
-      throw new Error('Invalid ask (spending key): must be 32 bytes');
+    if (!inputs.ak || inputs.ak.length !== 32) {
+      throw new Error('Invalid ak (spend validating key): must be 32 bytes');
     }
     if (!inputs.nsk || inputs.nsk.length !== 32) {
       throw new Error('Invalid nsk (nullifier key): must be 32 bytes');
@@ -306,7 +305,7 @@ export class PrizeWasmProver {
 
     try {
       // Serialize inputs to Uint8Array for WASM
-      // Format: [ask(32) | nsk(32) | value(8) | rcv(32) | alpha(32) | anchor(32) | merkle_path_len(4) | merkle_path(...) | position(8)]
+      // Format: [ak(32) | nsk(32) | value(8) | rcv(32) | alpha(32) | anchor(32) | merkle_path_len(4) | merkle_path(...) | position(8)]
       const merklePathBytes = this.serializeMerklePath(inputs.merklePath);
       
       const inputSize = 32 + 32 + 8 + 32 + 32 + 32 + 4 + merklePathBytes.length + 8;
@@ -314,7 +313,7 @@ export class PrizeWasmProver {
       let offset = 0;
       
       // Serialize inputs
-      inputBuffer.set(inputs.ask, offset); offset += 32;
+      inputBuffer.set(inputs.ak, offset); offset += 32;
       inputBuffer.set(inputs.nsk, offset); offset += 32;
       const valueBytes = this.bigintToBytes(inputs.value, 8);
       inputBuffer.set(valueBytes, offset); offset += 8;
@@ -384,25 +383,6 @@ export class PrizeWasmProver {
     return result;
   }
 
-  /**
-   * Compute randomized key (fallback if WASM doesn't provide it)
-   */
-  private computeRandomizedKey(ask: Uint8Array, alpha: Uint8Array): Uint8Array {
-    const wasm = getPrizeWasmModule();
-    const method = (wasm as any).randomize_key || (wasm as any).randomizeKey;
-    
-    if (method && typeof method === 'function') {
-      return method(ask, alpha);
-    }
-    
-    // Fallback: placeholder (should be replaced with real Jubjub operation)
-    const result = new Uint8Array(32);
-    for (let i = 0; i < 32; i++) {
-      result[i] = ask[i] ^ alpha[i];
-    }
-    return result;
-  }
-
   /**
    * Convert bigint to bytes
    */
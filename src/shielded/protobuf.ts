@@ -0,0 +1,250 @@
+/**
+ * Minimal Protocol Buffers Encoding
+ * Just enough of the proto3 wire format for the lightwalletd messages
+ *
+ * Supported wire types: varint (0), 64-bit (1), length-delimited (2) and
+ * 32-bit (5). Integers are returned as JavaScript numbers, which is exact for
+ * every field lightwalletd uses (heights, indices, sizes and times).
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Wire types
+ */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Encoder for a single message
+ *
+ * Scalar fields at their default value (0, empty) are omitted as in proto3;
+ * embedded messages are always written so that their presence is kept.
+ */
+export class ProtoWriter {
+  private bytes: number[] = [];
+
+  /**
+   * Write an unsigned integer field (uint32, uint64, enum, bool)
+   */
+  uint(field: number, value: number | bigint): this {
+    if (value === 0 || value === 0n) {
+      return this;
+    }
+    this.tag(field, WIRE_VARINT);
+    this.varint(BigInt(value));
+    return this;
+  }
+
+  /**
+   * Write a signed 32-bit integer field (int32 uses 10-byte two's complement)
+   */
+  int32(field: number, value: number): this {
+    if (value === 0) {
+      return this;
+    }
+    this.tag(field, WIRE_VARINT);
+    this.varint(BigInt.asUintN(64, BigInt(value)));
+    return this;
+  }
+
+  /**
+   * Write a bytes field
+   */
+  bytesField(field: number, value: Uint8Array): this {
+    if (value.length === 0) {
+      return this;
+    }
+    return this.lengthDelimited(field, value);
+  }
+
+  /**
+   * Write a string field
+   */
+  string(field: number, value: string): this {
+    return this.bytesField(field, textEncoder.encode(value));
+  }
+
+  /**
+   * Write an embedded message field
+   */
+  message(field: number, value: Uint8Array): this {
+    return this.lengthDelimited(field, value);
+  }
+
+  /**
+   * Get the encoded message
+   */
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private lengthDelimited(field: number, value: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(BigInt(value.length));
+    for (const byte of value) {
+      this.bytes.push(byte);
+    }
+    return this;
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.varint(BigInt(field * 8 + wireType));
+  }
+
+  private varint(value: bigint): void {
+    while (value >= 0x80n) {
+      this.bytes.push(Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+    this.bytes.push(Number(value));
+  }
+}
+
+/**
+ * Decoded field value: an integer for varint and fixed fields, bytes for
+ * length-delimited fields
+ */
+type ProtoValue = bigint | Uint8Array;
+
+/**
+ * Decoded message with typed field accessors
+ *
+ * Unknown fields are kept but ignored, so newer servers stay compatible.
+ */
+export class ProtoMessage {
+  private fields: Map<number, ProtoValue[]> = new Map();
+
+  constructor(bytes: Uint8Array) {
+    let offset = 0;
+    while (offset < bytes.length) {
+      const [key, keyEnd] = readVarint(bytes, offset);
+      offset = keyEnd;
+      const field = Number(key >> 3n);
+      const wireType = Number(key & 7n);
+
+      let value: ProtoValue;
+      switch (wireType) {
+        case WIRE_VARINT: {
+          const [number, end] = readVarint(bytes, offset);
+          value = number;
+          offset = end;
+          break;
+        }
+        case WIRE_FIXED64:
+          value = readFixed(bytes, offset, 8);
+          offset += 8;
+          break;
+        case WIRE_LENGTH_DELIMITED: {
+          const [rawLength, start] = readVarint(bytes, offset);
+          const length = Number(rawLength);
+          if (start + length > bytes.length) {
+            throw new Error('Invalid protobuf message: length-delimited field overruns buffer');
+          }
+          value = bytes.slice(start, start + length);
+          offset = start + length;
+          break;
+        }
+        case WIRE_FIXED32:
+          value = readFixed(bytes, offset, 4);
+          offset += 4;
+          break;
+        default:
+          throw new Error(`Invalid protobuf message: unsupported wire type ${wireType}`);
+      }
+
+      if (!this.fields.has(field)) {
+        this.fields.set(field, []);
+      }
+      this.fields.get(field)!.push(value);
+    }
+  }
+
+  /**
+   * Unsigned integer field (0 if absent)
+   */
+  uint(field: number): number {
+    const value = this.last(field);
+    return typeof value === 'bigint' ? Number(value) : 0;
+  }
+
+  /**
+   * Signed 32-bit integer field (0 if absent)
+   */
+  int32(field: number): number {
+    const value = this.last(field);
+    return typeof value === 'bigint' ? Number(BigInt.asIntN(32, value)) : 0;
+  }
+
+  /**
+   * Bytes field (empty if absent)
+   */
+  bytes(field: number): Uint8Array {
+    const value = this.last(field);
+    return value instanceof Uint8Array ? value : new Uint8Array(0);
+  }
+
+  /**
+   * String field (empty if absent)
+   */
+  string(field: number): string {
+    return textDecoder.decode(this.bytes(field));
+  }
+
+  /**
+   * Embedded message field, or null if absent
+   */
+  message(field: number): ProtoMessage | null {
+    const value = this.last(field);
+    return value instanceof Uint8Array ? new ProtoMessage(value) : null;
+  }
+
+  /**
+   * Repeated embedded message field
+   */
+  messages(field: number): ProtoMessage[] {
+    return (this.fields.get(field) ?? [])
+      .filter((value): value is Uint8Array => value instanceof Uint8Array)
+      .map(value => new ProtoMessage(value));
+  }
+
+  private last(field: number): ProtoValue | undefined {
+    const values = this.fields.get(field);
+    return values ? values[values.length - 1] : undefined;
+  }
+}
+
+/**
+ * Read a varint
+ */
+function readVarint(bytes: Uint8Array, offset: number): [bigint, number] {
+  let result = 0n;
+  for (let i = 0; i < 10; i++) {
+    if (offset >= bytes.length) {
+      throw new Error('Invalid protobuf message: truncated varint');
+    }
+    const byte = bytes[offset++];
+    result |= BigInt(byte & 0x7f) << BigInt(7 * i);
+    if ((byte & 0x80) === 0) {
+      return [result, offset];
+    }
+  }
+  throw new Error('Invalid protobuf message: varint too long');
+}
+
+/**
+ * Read a little-endian fixed-width integer
+ */
+function readFixed(bytes: Uint8Array, offset: number, length: number): bigint {
+  if (offset + length > bytes.length) {
+    throw new Error('Invalid protobuf message: truncated fixed-width field');
+  }
+  let result = 0n;
+  for (let i = length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[offset + i]);
+  }
+  return result;
+}
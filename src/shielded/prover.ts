@@ -14,6 +14,7 @@ import { concatBytes, bytesToHex } from '../utils/bytes';
 import { getGroth16Integration } from './groth16Integration.js';
 import { signBinding, signSpendAuth } from './redJubjub.js';
 import { parseZcashAddress } from './bech32.js';
+import { saplingSpendValidatingKey } from './zip32.js';
 
 /**
  * Prover configuration
@@ -169,13 +170,17 @@ export class ZcashProver {
     const spendProofs: SaplingProof[] = [];
     for (const spend of tx.signingData.spends) {
       this.reportProgress('proving', (currentProof / totalProofs) * 100, currentProof, totalProofs);
+      if (!spend.spendingKey) {
+        throw new Error('Transaction was built from a full viewing key: prove it as a PCZT');
+      }
       
+      // The circuit takes the proof generation key (ak, nsk), never ask
       const proof = await this.generateSpendProof({
         rcv: spend.rcv,
         alpha: spend.alpha,
         value: BigInt(spend.note.value),
         rcm: spend.note.rcm,
-        ask: spend.spendingKey.ask,
+        ak: saplingSpendValidatingKey(spend.spendingKey.ask),
         nsk: spend.spendingKey.nsk,
         anchor: spend.anchor,
         merklePath: spend.witness.authPath,
@@ -54,7 +54,7 @@ export function validateSpendProofInputs(inputs: {
   alpha?: Uint8Array;
   value?: bigint | number;
   rcm?: Uint8Array;
-  ask?: Uint8Array;
+  ak?: Uint8Array;
   nsk?: Uint8Array;
   anchor?: Uint8Array;
   merklePath?: Uint8Array[];
@@ -80,8 +80,8 @@ export function validateSpendProofInputs(inputs: {
   if (!inputs.rcm || inputs.rcm.length !== 32) {
     errors.push('rcm must be 32 bytes');
   }
-  if (!inputs.ask || inputs.ask.length !== 32) {
-    errors.push('ask (spending key) must be 32 bytes');
+  if (!inputs.ak || inputs.ak.length !== 32) {
+    errors.push('ak (spend validating key) must be 32 bytes');
   }
   if (!inputs.nsk || inputs.nsk.length !== 32) {
     errors.push('nsk (nullifier key) must be 32 bytes');
@@ -96,8 +96,8 @@ export function validateSpendProofInputs(inputs: {
   }
 
   // Check for all-zero values which may indicate uninitialized data
-  if (inputs.ask && inputs.ask.every(b => b === 0)) {
-    warnings.push('ask is all zeros - this may be uninitialized');
+  if (inputs.ak && inputs.ak.every(b => b === 0)) {
+    warnings.push('ak is all zeros - this may be uninitialized');
   }
   if (inputs.nsk && inputs.nsk.every(b => b === 0)) {
     warnings.push('nsk is all zeros - this may be uninitialized');
@@ -3,6 +3,12 @@
  * Supports testnet and mainnet broadcasting and transaction verification
  */
 
+/**
+ * zcashd error code for a transaction in neither the mempool nor the chain
+ * (RPC_INVALID_ADDRESS_OR_KEY)
+ */
+export const RPC_NO_SUCH_TRANSACTION = -5;
+
 /**
  * JSON-RPC 2.0 request format
  */
@@ -199,12 +205,18 @@ export class ZcashRpcClient {
 
   /**
    * Get transaction from mempool without requiring it to be in a block
+   *
+   * @returns null when the node does not know the transaction; other
+   *          failures are thrown
    */
   async getMempoolTransaction(txid: string): Promise<TransactionInfo | null> {
     try {
       return await this.sendRequest('getrawtransaction', [txid, true]);
-    } catch {
-      return null;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes(`RPC Error (${RPC_NO_SUCH_TRANSACTION})`)) {
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -0,0 +1,142 @@
+/**
+ * Sapling Merkle Hash
+ * MerkleCRH^Sapling, the Bowe-Hopwood Pedersen hash that combines nodes of
+ * the Sapling note commitment tree (protocol spec 5.4.1.3 and 5.4.1.7)
+ *
+ * MerkleCRH(layer, left, right) = PedersenHash("Zcash_PH", l || left || right)
+ *
+ * where l is the 6-bit height of the children above the leaves and left and
+ * right are the low 255 bits of the child nodes. A node is the little-endian
+ * u-coordinate of the resulting Jubjub point. Empty leaves are the field
+ * element 1 (Uncommitted^Sapling).
+ */
+
+import { jubjub, jubjub_groupHash } from '@noble/curves/misc';
+import { mod } from '@noble/curves/abstract/modular';
+import { bigintToLEBytes, concatBytes, leBytesToBigint, numberToLEBytes, stringToBytes } from '../utils/bytes';
+
+type JubjubPoint = typeof jubjub.Point.BASE;
+
+/**
+ * Depth of the Sapling note commitment tree
+ */
+export const SAPLING_MERKLE_DEPTH = 32;
+
+/**
+ * Uncommitted^Sapling: the value of an empty leaf
+ */
+export const SAPLING_UNCOMMITTED_LEAF: Uint8Array = bigintToLEBytes(1n, 32);
+
+const PEDERSEN_PERSONALIZATION = stringToBytes('Zcash_PH');
+const CHUNKS_PER_SEGMENT = 63;
+const NODE_BITS = 255;
+const LAYER_BITS = 6;
+
+/** Generators I_1, I_2, ... of the Pedersen hash segments, found on first use */
+const segmentGenerators: JubjubPoint[] = [];
+
+/** Empty subtree roots computed so far, by height */
+const emptyRoots: Uint8Array[] = [SAPLING_UNCOMMITTED_LEAF];
+
+/**
+ * Combine two nodes of the Sapling note commitment tree
+ *
+ * @param layer - Height of the children above the leaves (0 for two leaves)
+ */
+export function saplingMerkleHash(layer: number, left: Uint8Array, right: Uint8Array): Uint8Array {
+  if (layer < 0 || layer >= SAPLING_MERKLE_DEPTH) {
+    throw new Error(`Invalid Sapling Merkle layer: ${layer}`);
+  }
+  const bits = [...integerBits(layer, LAYER_BITS), ...nodeBits(left), ...nodeBits(right)];
+  return bigintToLEBytes(pedersenHashToPoint(bits).toAffine().x, 32);
+}
+
+/**
+ * Roots of empty Sapling subtrees, from the empty leaf (index 0) to the
+ * empty tree of the given depth
+ */
+export function saplingEmptyRoots(depth: number = SAPLING_MERKLE_DEPTH): Uint8Array[] {
+  for (let layer = emptyRoots.length - 1; layer < depth; layer++) {
+    emptyRoots.push(saplingMerkleHash(layer, emptyRoots[layer], emptyRoots[layer]));
+  }
+  return emptyRoots.slice(0, depth + 1);
+}
+
+/**
+ * PedersenHashToPoint("Zcash_PH", bits)
+ *
+ * The bits are padded to a multiple of 3 and split into segments of 63
+ * 3-bit chunks. Segment j contributes [<M_j>] I_j, where each chunk
+ * (s0, s1, s2) encodes (1 - 2*s2) * (1 + s0 + 2*s1) at weight 2^(4i).
+ */
+export function pedersenHashToPoint(bits: number[]): JubjubPoint {
+  const padded = bits.concat(new Array((3 - bits.length % 3) % 3).fill(0));
+  const chunks = padded.length / 3;
+
+  let result = jubjub.Point.ZERO;
+  for (let segment = 0; segment * CHUNKS_PER_SEGMENT < chunks; segment++) {
+    let scalar = 0n;
+    const end = Math.min(chunks, (segment + 1) * CHUNKS_PER_SEGMENT);
+    for (let chunk = segment * CHUNKS_PER_SEGMENT; chunk < end; chunk++) {
+      const [s0, s1, s2] = padded.slice(chunk * 3, chunk * 3 + 3);
+      const magnitude = BigInt(1 + s0 + 2 * s1) << BigInt(4 * (chunk % CHUNKS_PER_SEGMENT));
+      scalar += s2 ? -magnitude : magnitude;
+    }
+    scalar = mod(scalar, jubjub.CURVE.n);
+    if (scalar !== 0n) {
+      result = result.add(segmentGenerator(segment).multiply(scalar));
+    }
+  }
+  return result;
+}
+
+/**
+ * I_{segment+1} = FindGroupHash^J("Zcash_PH", LE32(segment))
+ */
+function segmentGenerator(segment: number): JubjubPoint {
+  while (segmentGenerators.length <= segment) {
+    const message = numberToLEBytes(segmentGenerators.length, 4);
+    const generator = findGroupHash(message, PEDERSEN_PERSONALIZATION);
+    // Every tree node multiplies the same few generators, so cache their multiples
+    generator.precompute(8);
+    segmentGenerators.push(generator);
+  }
+  return segmentGenerators[segment];
+}
+
+/**
+ * First valid GroupHash^J(personalization, message || i) for i = 0..255
+ */
+export function findGroupHash(message: Uint8Array, personalization: Uint8Array): JubjubPoint {
+  for (let i = 0; i < 256; i++) {
+    try {
+      return jubjub_groupHash(concatBytes(message, new Uint8Array([i])), personalization);
+    } catch {
+      // Not a point of prime order; try the next index
+    }
+  }
+  throw new Error('FindGroupHash found no valid point');
+}
+
+/**
+ * Low 255 bits of a node, least significant first
+ */
+function nodeBits(node: Uint8Array): number[] {
+  if (node.length !== 32) {
+    throw new Error(`Sapling Merkle nodes are 32 bytes, got ${node.length}`);
+  }
+  return integerBits(leBytesToBigint(node), NODE_BITS);
+}
+
+/**
+ * Little-endian bit sequence of an integer
+ */
+function integerBits(value: number | bigint, length: number): number[] {
+  const bits: number[] = [];
+  let remaining = BigInt(value);
+  for (let i = 0; i < length; i++) {
+    bits.push(Number(remaining & 1n));
+    remaining >>= 1n;
+  }
+  return bits;
+}
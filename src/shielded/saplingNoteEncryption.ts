@@ -0,0 +1,277 @@
+/**
+ * Sapling In-band Note Encryption
+ * Encrypts and trial-decrypts Sapling output ciphertexts
+ *
+ * Encryption (sender):
+ *   esk = ToScalar(PRF^expand(rseed, [5]))              (ZIP 212)
+ *   epk = [esk] g_d
+ *   K_enc = KDF^Sapling([esk] pk_d, epk)
+ *   C_enc = ChaCha20-Poly1305(K_enc, plaintext)         (564 + 16 bytes)
+ *   ock = PRF^ock(ovk, cv, cmu, epk)
+ *   C_out = ChaCha20-Poly1305(ock, pk_d || esk)         (64 + 16 bytes)
+ *
+ * The recipient opens C_enc with [ivk] epk; the sender recovers pk_d and
+ * esk from C_out and opens C_enc with [esk] pk_d. In both cases the note
+ * is only accepted if cmu (and, for ZIP 212 plaintexts, epk) recompute to
+ * the values in the output description.
+ *
+ * Reference: https://zips.z.cash/protocol/protocol.pdf#saplingandorchardinband
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { concatBytes, bytesEqual, randomBytes } from '../utils/bytes';
+import { computeSharedSecret, deriveEphemeralPublicKey, derivePkd } from './jubjubHelper.js';
+import {
+  computeNoteCommitment,
+  deriveRcmFromRseed,
+  deriveEskFromRseed,
+  encodeNotePlaintext,
+  decodeNotePlaintext
+} from './noteCommitment.js';
+import type { NotePlaintext } from './types.js';
+
+/**
+ * Ciphertext sizes
+ */
+export const SAPLING_ENC_CIPHERTEXT_SIZE = 580;
+export const SAPLING_OUT_CIPHERTEXT_SIZE = 80;
+
+/**
+ * Note plaintext lead bytes: rcm is rseed itself before ZIP 212,
+ * and rcm and esk are derived from rseed after it
+ */
+const LEAD_BYTE_PRE_ZIP212 = 0x01;
+const LEAD_BYTE_ZIP212 = 0x02;
+
+/**
+ * ChaCha20-Poly1305 nonce (keys are single-use)
+ */
+const ZERO_NONCE = new Uint8Array(12);
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Output description fields needed for trial decryption
+ */
+export interface SaplingEncryptedOutput {
+  cmu: Uint8Array;
+  ephemeralKey: Uint8Array;
+  encCiphertext: Uint8Array;
+}
+
+/**
+ * Output description fields needed for outgoing recovery
+ */
+export interface SaplingOutputCiphertext extends SaplingEncryptedOutput {
+  cv: Uint8Array;
+  outCiphertext: Uint8Array;
+}
+
+/**
+ * Parameters for encrypting a new note
+ */
+export interface SaplingNoteEncryptionParams {
+  diversifier: Uint8Array;
+  pkD: Uint8Array;
+  value: number;
+  rseed: Uint8Array;
+  memo: Uint8Array;
+  esk: Uint8Array;
+  /** epk = [esk] g_d */
+  ephemeralKey: Uint8Array;
+  /** Sender's outgoing viewing key; null makes the note unrecoverable by the sender */
+  ovk: Uint8Array | null;
+  cv: Uint8Array;
+  cmu: Uint8Array;
+}
+
+/**
+ * Note recovered from an output description
+ */
+export interface DecryptedSaplingNote {
+  diversifier: Uint8Array;
+  pkD: Uint8Array;
+  value: bigint;
+  rseed: Uint8Array;
+  rcm: Uint8Array;
+  memo: Uint8Array;
+}
+
+/**
+ * KDF^Sapling(sharedSecret, ephemeralKey)
+ */
+function kdfSapling(sharedSecret: Uint8Array, ephemeralKey: Uint8Array): Uint8Array {
+  return blake2b(concatBytes(sharedSecret, ephemeralKey), {
+    dkLen: 32,
+    personalization: textEncoder.encode('Zcash_SaplingKDF')
+  });
+}
+
+/**
+ * PRF^ock,Sapling(ovk, cv, cmu, epk)
+ */
+function prfOck(ovk: Uint8Array, cv: Uint8Array, cmu: Uint8Array, ephemeralKey: Uint8Array): Uint8Array {
+  return blake2b(concatBytes(ovk, cv, cmu, ephemeralKey), {
+    dkLen: 32,
+    personalization: textEncoder.encode('Zcash_Derive_ock')
+  });
+}
+
+/**
+ * ChaCha20-Poly1305 decryption returning null on authentication failure
+ */
+function tryOpen(key: Uint8Array, ciphertext: Uint8Array): Uint8Array | null {
+  try {
+    return chacha20poly1305(key, ZERO_NONCE).decrypt(ciphertext);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt a new note for its recipient (and for the sender via ovk)
+ */
+export function encryptSaplingNote(
+  params: SaplingNoteEncryptionParams
+): { encCiphertext: Uint8Array; outCiphertext: Uint8Array } {
+  const plaintext = encodeNotePlaintext({
+    diversifier: params.diversifier,
+    value: params.value,
+    rseed: params.rseed,
+    memo: params.memo
+  });
+  const encKey = kdfSapling(computeSharedSecret(params.esk, params.pkD), params.ephemeralKey);
+  const encCiphertext = chacha20poly1305(encKey, ZERO_NONCE).encrypt(plaintext);
+
+  // Without an ovk, a random ock makes the outgoing ciphertext undecryptable
+  const ock = params.ovk
+    ? prfOck(params.ovk, params.cv, params.cmu, params.ephemeralKey)
+    : randomBytes(32);
+  const outCiphertext = chacha20poly1305(ock, ZERO_NONCE).encrypt(concatBytes(params.pkD, params.esk));
+
+  return { encCiphertext, outCiphertext };
+}
+
+/**
+ * Check a decrypted plaintext against the output and build the note
+ *
+ * @param esk - Ephemeral secret key recovered from C_out, when recovering a sent note
+ */
+function checkDecryptedNote(
+  plaintext: NotePlaintext,
+  pkD: Uint8Array,
+  output: SaplingEncryptedOutput,
+  esk?: Uint8Array
+): DecryptedSaplingNote | null {
+  let rcm: Uint8Array;
+  let expectedEsk: Uint8Array | undefined;
+  if (plaintext.leadByte === LEAD_BYTE_ZIP212) {
+    rcm = deriveRcmFromRseed(plaintext.rseed);
+    expectedEsk = deriveEskFromRseed(plaintext.rseed);
+    if (esk && !bytesEqual(esk, expectedEsk)) {
+      return null;
+    }
+  } else if (plaintext.leadByte === LEAD_BYTE_PRE_ZIP212) {
+    rcm = plaintext.rseed;
+    expectedEsk = esk;
+  } else {
+    return null;
+  }
+
+  if (expectedEsk) {
+    try {
+      if (!bytesEqual(deriveEphemeralPublicKey(plaintext.diversifier, expectedEsk), output.ephemeralKey)) {
+        return null;
+      }
+    } catch {
+      // Diversifier has no valid g_d
+      return null;
+    }
+  }
+
+  if (!bytesEqual(computeNoteCommitment(plaintext.diversifier, pkD, plaintext.value, rcm), output.cmu)) {
+    return null;
+  }
+
+  return {
+    diversifier: plaintext.diversifier,
+    pkD,
+    value: plaintext.value,
+    rseed: plaintext.rseed,
+    rcm,
+    memo: plaintext.memo
+  };
+}
+
+/**
+ * Trial-decrypt a full output ciphertext with an incoming viewing key
+ *
+ * @returns The note, or null if the output is not addressed to ivk
+ */
+export function tryDecryptSaplingOutput(
+  output: SaplingEncryptedOutput,
+  ivk: Uint8Array
+): DecryptedSaplingNote | null {
+  if (output.encCiphertext.length !== SAPLING_ENC_CIPHERTEXT_SIZE) {
+    return null;
+  }
+
+  let sharedSecret: Uint8Array;
+  try {
+    sharedSecret = computeSharedSecret(ivk, output.ephemeralKey);
+  } catch {
+    return null;
+  }
+
+  const opened = tryOpen(kdfSapling(sharedSecret, output.ephemeralKey), output.encCiphertext);
+  if (!opened) {
+    return null;
+  }
+
+  const plaintext = decodeNotePlaintext(opened);
+  let pkD: Uint8Array;
+  try {
+    pkD = derivePkd(ivk, plaintext.diversifier);
+  } catch {
+    return null;
+  }
+  return checkDecryptedNote(plaintext, pkD, output);
+}
+
+/**
+ * Recover a note we sent, using the outgoing viewing key
+ *
+ * @returns The note, or null if the output was not sent with ovk
+ */
+export function tryRecoverSaplingOutgoing(
+  output: SaplingOutputCiphertext,
+  ovk: Uint8Array
+): DecryptedSaplingNote | null {
+  if (output.outCiphertext.length !== SAPLING_OUT_CIPHERTEXT_SIZE ||
+      output.encCiphertext.length !== SAPLING_ENC_CIPHERTEXT_SIZE ||
+      output.cv.length !== 32) {
+    return null;
+  }
+
+  const opened = tryOpen(prfOck(ovk, output.cv, output.cmu, output.ephemeralKey), output.outCiphertext);
+  if (!opened) {
+    return null;
+  }
+  const pkD = opened.slice(0, 32);
+  const esk = opened.slice(32, 64);
+
+  let sharedSecret: Uint8Array;
+  try {
+    sharedSecret = computeSharedSecret(esk, pkD);
+  } catch {
+    return null;
+  }
+
+  const decrypted = tryOpen(kdfSapling(sharedSecret, output.ephemeralKey), output.encCiphertext);
+  if (!decrypted) {
+    return null;
+  }
+
+  return checkDecryptedNote(decodeNotePlaintext(decrypted), pkD, output, esk);
+}
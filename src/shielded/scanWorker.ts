@@ -0,0 +1,28 @@
+/**
+ * Scan Worker Entry Point
+ * Runs note trial decryption for ScanWorkerPool, as a Web Worker in the
+ * browser or a worker_threads worker in Node.js
+ */
+
+import { createScanWorkerHandler } from './scanWorkerPool.js';
+import type { ScanWorkerRequest } from './scanWorkerPool.js';
+
+declare global {
+  /** Defined only inside Web Workers; the DOM lib does not declare it */
+  // eslint-disable-next-line no-var
+  var WorkerGlobalScope: (abstract new () => object) | undefined;
+}
+
+const handle = createScanWorkerHandler();
+
+if (typeof WorkerGlobalScope !== 'undefined') {
+  self.onmessage = async (event: MessageEvent<ScanWorkerRequest>) => {
+    self.postMessage(await handle(event.data));
+  };
+} else {
+  import(/* webpackIgnore: true */ 'worker_threads').then(({ parentPort }) => {
+    parentPort?.on('message', async (request: ScanWorkerRequest) => {
+      parentPort.postMessage(await handle(request));
+    });
+  });
+}
@@ -0,0 +1,396 @@
+/**
+ * Scan Worker Pool
+ * Spreads note trial decryption across Web Workers (browser) or
+ * worker_threads (Node.js)
+ *
+ * Blocks are split into fixed-size batches that idle workers pick up in
+ * chain order. Results are yielded in that same order whatever order the
+ * workers finish in, so callers can update the commitment tree and the
+ * note cache exactly as a sequential scan would.
+ *
+ * Viewing keys are handed to each worker once, by message (never through
+ * the worker URL or workerData), and wiped from the workers when the pool
+ * is terminated.
+ */
+
+import { NoteScanner } from './noteScanner.js';
+import type { BlockData } from './noteScanner.js';
+import { NoteCache } from './noteCache.js';
+import type { ScannedNote } from './types.js';
+import { bytesEqual } from '../utils/bytes';
+
+/**
+ * Keys a worker scans with
+ */
+export interface ScanWorkerKeys {
+  ivk: Uint8Array;
+  /** Outgoing viewing key; null skips recovery of sent notes */
+  ovk: Uint8Array | null;
+}
+
+/**
+ * Message sent to a scan worker
+ */
+export type ScanWorkerRequest =
+  | { type: 'init'; id: number; ivk: Uint8Array; ovk: Uint8Array | null }
+  | { type: 'scan'; id: number; blocks: BlockData[] }
+  | { type: 'dispose'; id: number };
+
+/**
+ * Message sent back by a scan worker
+ */
+export interface ScanWorkerResponse {
+  id: number;
+  notes?: ScannedNote[];
+  error?: string;
+}
+
+/**
+ * Minimal worker interface shared by Web Workers and worker_threads
+ */
+export interface ScanWorkerLike {
+  postMessage(request: ScanWorkerRequest): void;
+  onResponse(listener: (response: ScanWorkerResponse) => void): void;
+  onError(listener: (error: Error) => void): void;
+  terminate(): void;
+}
+
+/**
+ * Worker pool configuration
+ */
+export interface ScanWorkerPoolConfig {
+  /** Number of workers (defaults to one less than the number of cores) */
+  size?: number;
+
+  /** Blocks handed to a worker at a time */
+  blocksPerTask: number;
+
+  /** URL of the worker script (defaults to the bundled scanWorker.js) */
+  workerUrl?: string | URL;
+
+  /** Custom worker factory, e.g. for bundlers that need their own worker syntax */
+  createWorker?: () => ScanWorkerLike | Promise<ScanWorkerLike>;
+}
+
+/**
+ * Batch of scanned blocks, in chain order
+ */
+export interface ScanBatchResult {
+  blocks: BlockData[];
+  notes: ScannedNote[];
+}
+
+const DEFAULT_CONFIG: ScanWorkerPoolConfig = {
+  blocksPerTask: 50
+};
+
+/**
+ * One less than the number of cores, leaving the main thread free
+ */
+async function defaultPoolSize(): Promise<number> {
+  let cores: number | undefined = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  if (typeof cores !== 'number' && typeof process !== 'undefined' && process.versions?.node) {
+    const os = await import(/* webpackIgnore: true */ 'os');
+    cores = typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+  }
+  return typeof cores === 'number' && cores > 1 ? cores - 1 : 1;
+}
+
+/**
+ * Create a worker running scanWorker.js in the current environment
+ */
+async function createDefaultWorker(workerUrl?: string | URL): Promise<ScanWorkerLike> {
+  if (typeof Worker !== 'undefined') {
+    // Kept inline so bundlers recognize the worker and emit scanWorker.js
+    const worker = workerUrl
+      ? new Worker(workerUrl, { type: 'module' })
+      : new Worker(new URL('./scanWorker.js', import.meta.url), { type: 'module' });
+    return {
+      postMessage: (request) => worker.postMessage(request),
+      onResponse: (listener) => {
+        worker.onmessage = (event: MessageEvent<ScanWorkerResponse>) => listener(event.data);
+      },
+      onError: (listener) => {
+        worker.onerror = (event) => listener(new Error(event.message || 'Scan worker failed'));
+      },
+      terminate: () => worker.terminate()
+    };
+  }
+
+  const { Worker: NodeWorker } = await import(/* webpackIgnore: true */ 'worker_threads');
+  const worker = new NodeWorker(workerUrl ?? new URL('./scanWorker.js', import.meta.url));
+  return {
+    postMessage: (request) => worker.postMessage(request),
+    onResponse: (listener) => {
+      worker.on('message', listener);
+    },
+    onError: (listener) => {
+      worker.on('error', listener);
+    },
+    terminate: () => {
+      void worker.terminate();
+    }
+  };
+}
+
+/**
+ * Create the request handler that runs inside a scan worker
+ *
+ * Each worker holds its own scanner; notes are returned to the pool rather
+ * than cached, and tree positions are assigned on the main thread.
+ */
+export function createScanWorkerHandler(): (request: ScanWorkerRequest) => Promise<ScanWorkerResponse> {
+  let keys: ScanWorkerKeys | null = null;
+  let scanner: NoteScanner | null = null;
+
+  return async (request) => {
+    try {
+      switch (request.type) {
+        case 'init':
+          keys = { ivk: request.ivk, ovk: request.ovk };
+          scanner = new NoteScanner(
+            { ivk: keys.ivk },
+            new NoteCache(),
+            { scanOutgoing: !!keys.ovk, ovk: keys.ovk ?? undefined }
+          );
+          return { id: request.id };
+
+        case 'scan': {
+          if (!scanner) {
+            throw new Error('Scan worker not initialized');
+          }
+          const notes: ScannedNote[] = [];
+          for (const block of request.blocks) {
+            notes.push(...await scanner.scanBlock(block));
+          }
+          return { id: request.id, notes };
+        }
+
+        case 'dispose':
+          keys?.ivk.fill(0);
+          keys?.ovk?.fill(0);
+          keys = null;
+          scanner = null;
+          return { id: request.id };
+      }
+    } catch (error) {
+      return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+}
+
+/**
+ * Pool of scan workers
+ */
+export class ScanWorkerPool {
+  private config: ScanWorkerPoolConfig;
+  private workers: ScanWorkerLike[] = [];
+  private keys: ScanWorkerKeys | null = null;
+  private pendingRequests: Map<number, {
+    worker: ScanWorkerLike;
+    resolve: (response: ScanWorkerResponse) => void;
+    reject: (error: Error) => void;
+  }> = new Map();
+  private requestId = 0;
+
+  constructor(config: Partial<ScanWorkerPoolConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (this.config.size !== undefined && this.config.size < 1) {
+      throw new Error(`Invalid worker pool size: ${this.config.size}`);
+    }
+    if (this.config.blocksPerTask < 1) {
+      throw new Error(`Invalid blocks per task: ${this.config.blocksPerTask}`);
+    }
+  }
+
+  /**
+   * Start the workers and share the viewing keys with them
+   *
+   * Calling again with the same keys is a no-op; other keys replace the
+   * previous ones in every worker.
+   */
+  async initialize(keys: ScanWorkerKeys): Promise<void> {
+    if (this.keys && bytesEqual(this.keys.ivk, keys.ivk) && this.sameOvk(keys.ovk)) {
+      return;
+    }
+
+    if (this.config.size === undefined) {
+      this.config.size = await defaultPoolSize();
+    }
+    while (this.workers.length < this.config.size) {
+      this.workers.push(await this.startWorker());
+    }
+
+    // Each worker gets its own copy, so wiping one does not affect the caller
+    await Promise.all(this.workers.map(worker => this.request(worker, {
+      type: 'init',
+      id: 0,
+      ivk: keys.ivk.slice(),
+      ovk: keys.ovk ? keys.ovk.slice() : null
+    })));
+    this.keys = { ivk: keys.ivk.slice(), ovk: keys.ovk ? keys.ovk.slice() : null };
+  }
+
+  /**
+   * Check whether the pool has been initialized
+   */
+  isInitialized(): boolean {
+    return this.keys !== null;
+  }
+
+  /**
+   * Number of workers in the pool, or undefined while a default size has
+   * not been worked out by initialize()
+   */
+  getSize(): number | undefined {
+    return this.config.size;
+  }
+
+  /**
+   * Trial-decrypt blocks across the workers
+   *
+   * Yields one result per batch, in block order. Once isAborted returns
+   * true no further batches are handed out and iteration stops.
+   *
+   * @param blocks - Blocks to scan, in chain order
+   * @param isAborted - Polled before each batch is dispatched or yielded
+   */
+  async *scan(blocks: BlockData[], isAborted: () => boolean = () => false): AsyncGenerator<ScanBatchResult> {
+    if (!this.keys) {
+      throw new Error('Worker pool not initialized');
+    }
+
+    const tasks: BlockData[][] = [];
+    for (let i = 0; i < blocks.length; i += this.config.blocksPerTask) {
+      tasks.push(blocks.slice(i, i + this.config.blocksPerTask));
+    }
+
+    // One slot per batch; null marks a batch skipped after an abort
+    const results = tasks.map(() => {
+      let resolve!: (notes: ScannedNote[] | null) => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<ScannedNote[] | null>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      promise.catch(() => {
+        // Surfaced when the batch is yielded
+      });
+      return { promise, resolve, reject };
+    });
+
+    let next = 0;
+    let stopped = false;
+    const drain = async (worker: ScanWorkerLike) => {
+      while (next < tasks.length) {
+        if (stopped || isAborted()) {
+          for (; next < tasks.length; next++) {
+            results[next].resolve(null);
+          }
+          return;
+        }
+        const index = next++;
+        try {
+          const response = await this.request(worker, { type: 'scan', id: 0, blocks: tasks[index] });
+          results[index].resolve(response.notes ?? []);
+        } catch (error) {
+          results[index].reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    };
+    void Promise.all(this.workers.map(drain));
+
+    try {
+      for (let i = 0; i < tasks.length; i++) {
+        if (isAborted()) {
+          return;
+        }
+        const notes = await results[i].promise;
+        if (!notes || isAborted()) {
+          return;
+        }
+        yield { blocks: tasks[i], notes };
+      }
+    } finally {
+      // Stop handing out batches if the caller stops early or a batch failed
+      stopped = true;
+    }
+  }
+
+  /**
+   * Wipe the keys from every worker and stop them
+   */
+  async terminate(): Promise<void> {
+    if (this.keys) {
+      await Promise.all(this.workers.map(worker =>
+        this.request(worker, { type: 'dispose', id: 0 }).catch(() => undefined)
+      ));
+      this.keys.ivk.fill(0);
+      this.keys.ovk?.fill(0);
+      this.keys = null;
+    }
+
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+
+    for (const [, request] of this.pendingRequests) {
+      request.reject(new Error('Worker terminated'));
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * Create a worker and route its messages to pending requests
+   */
+  private async startWorker(): Promise<ScanWorkerLike> {
+    const worker = this.config.createWorker
+      ? await this.config.createWorker()
+      : await createDefaultWorker(this.config.workerUrl);
+
+    worker.onResponse((response) => {
+      const request = this.pendingRequests.get(response.id);
+      if (!request) {
+        return;
+      }
+      this.pendingRequests.delete(response.id);
+      if (response.error) {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve(response);
+      }
+    });
+
+    // A crashed worker fails everything it was working on
+    worker.onError((error) => {
+      for (const [id, request] of this.pendingRequests) {
+        if (request.worker === worker) {
+          this.pendingRequests.delete(id);
+          request.reject(error);
+        }
+      }
+    });
+
+    return worker;
+  }
+
+  /**
+   * Send a request to a worker and wait for its response
+   */
+  private request(worker: ScanWorkerLike, request: ScanWorkerRequest): Promise<ScanWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      const id = ++this.requestId;
+      this.pendingRequests.set(id, { worker, resolve, reject });
+      worker.postMessage({ ...request, id });
+    });
+  }
+
+  /**
+   * Compare an ovk with the one the workers hold
+   */
+  private sameOvk(ovk: Uint8Array | null): boolean {
+    const current = this.keys?.ovk ?? null;
+    return current && ovk ? bytesEqual(current, ovk) : current === ovk;
+  }
+}
@@ -12,10 +12,15 @@ import type {
   UnsignedShieldedTransaction,
   ShieldedSigningData
 } from './transactionBuilder.js';
-import type { SignedTransaction } from '../types/index';
+import type { Network, SignedTransaction } from '../types/index';
 import { ZcashProver } from './prover.js';
-import { blake2s } from '@noble/hashes/blake2s';
+import { TransactionSerializer } from './transactionSerializer.js';
 import { concatBytes, bytesToHex } from '../utils/bytes';
+import {
+  computeSignatureHash,
+  resolveConsensusBranchId,
+  SIGHASH_ALL
+} from '../transactions/sighash';
 import { signSpendAuth } from './redJubjub.js';
 import { addScalars } from './scalarArithmetic.js';
 
@@ -35,9 +40,15 @@ export interface SignedShieldedTransaction extends SignedTransaction {
  */
 export class ShieldedSigner {
   private prover: ZcashProver;
+  private network: Network;
 
-  constructor(prover?: ZcashProver) {
+  /**
+   * @param network - Network used to infer the consensus branch ID for
+   *   transactions that do not carry one
+   */
+  constructor(prover?: ZcashProver, network: Network = 'testnet') {
     this.prover = prover || new ZcashProver();
+    this.network = network;
   }
 
   /**
@@ -49,38 +60,54 @@ export class ShieldedSigner {
     // Generate proofs
     const proofs = await this.prover.generateProofs(tx);
 
-    // Apply proofs to spend descriptions
-    const signedSpends = this.applySpendProofs(
-      tx.shieldedBundle.spends,
-      proofs.spendProofs,
-      tx.signingData
-    );
+    // Apply proofs before hashing: the signature hash commits to cv and rk
+    // (and, for v4, to the proofs themselves)
+    const provenBundle: ShieldedBundle = {
+      spends: this.applySpendProofs(tx.shieldedBundle.spends, proofs.spendProofs),
+      outputs: tx.shieldedBundle.outputs.map((output: ShieldedOutputDescription, i: number) => ({
+        ...output,
+        zkproof: proofs.outputProofs[i].proof
+      })),
+      valueBalance: tx.shieldedBundle.valueBalance,
+      bindingSig: new Uint8Array(64)
+    };
 
-    // Apply proofs to output descriptions
-    const signedOutputs = tx.shieldedBundle.outputs.map((output: ShieldedOutputDescription, i: number) => ({
-      ...output,
-      zkproof: proofs.outputProofs[i].proof
-    }));
+    const provenTx: UnsignedShieldedTransaction = {
+      ...tx,
+      consensusBranchId: resolveConsensusBranchId(tx, this.network),
+      shieldedBundle: provenBundle
+    };
+    const sighash = this.computeSpendSighash(provenTx);
+
+    // Spend authorization and binding signatures over the same sighash
+    const signedSpends = this.signSpends(provenBundle.spends, tx.signingData, sighash);
+    const bindingSig = await this.prover.generateBindingSignature(
+      tx.signingData.bsk,
+      tx.signingData.valueBalance,
+      sighash
+    );
 
     // Create signed bundle
     const signedBundle: ShieldedBundle = {
       spends: signedSpends,
-      outputs: signedOutputs,
+      outputs: provenBundle.outputs,
       valueBalance: tx.shieldedBundle.valueBalance,
-      bindingSig: proofs.bindingSig
+      bindingSig
     };
 
     // Extract nullifiers
     const nullifiers = signedSpends.map(spend => spend.nullifier);
 
-    // Serialize transaction
-    const rawTx = this.serializeTransaction(tx, signedBundle);
-    const txHash = this.computeTxHash(rawTx);
+    // Serialize transaction (v4 or v5 layout depending on tx.version)
+    const signedTx: UnsignedShieldedTransaction = { ...provenTx, shieldedBundle: signedBundle };
+    const rawTx = bytesToHex(TransactionSerializer.serializeTransaction(signedTx));
+    const txHash = TransactionSerializer.computeTxId(signedTx);
 
     return {
       tx: {
         version: tx.version,
         versionGroupId: tx.versionGroupId,
+        consensusBranchId: provenTx.consensusBranchId,
         transparentInputs: tx.transparentInputs,
         transparentOutputs: tx.transparentOutputs,
         lockTime: tx.lockTime,
@@ -95,30 +122,47 @@ export class ShieldedSigner {
   }
 
   /**
-   * Apply proofs and generate spend auth signatures
+   * Apply proofs to spend descriptions
    */
   private applySpendProofs(
     spends: ShieldedSpendDescription[],
-    proofs: { proof: Uint8Array; cv: Uint8Array; rk?: Uint8Array }[],
-    signingData: ShieldedSigningData
+    proofs: { proof: Uint8Array; cv: Uint8Array; rk?: Uint8Array }[]
   ): ShieldedSpendDescription[] {
     return spends.map((spend, i) => {
       const proof = proofs[i];
+      return {
+        ...spend,
+        cv: proof.cv,
+        rk: proof.rk || spend.rk,
+        zkproof: proof.proof
+      };
+    });
+  }
+
+  /**
+   * Generate spend auth signatures
+   */
+  private signSpends(
+    spends: ShieldedSpendDescription[],
+    signingData: ShieldedSigningData,
+    sighash: Uint8Array
+  ): ShieldedSpendDescription[] {
+    return spends.map((spend, i) => {
       const spendData = signingData.spends[i];
+      if (!spendData.spendingKey) {
+        throw new Error('Transaction was built from a full viewing key: sign it as a PCZT');
+      }
 
       // Generate spend authorization signature
       const spendAuthSig = this.generateSpendAuthSignature(
         spendData.spendingKey.ask,
         spendData.alpha,
         spend.rk,
-        this.computeSpendSighash(spend, signingData.valueBalance)
+        sighash
       );
 
       return {
         ...spend,
-        cv: proof.cv,
-        rk: proof.rk || spend.rk,
-        zkproof: proof.proof,
         spendAuthSig
       };
     });
@@ -146,140 +190,23 @@ export class ShieldedSigner {
   }
 
   /**
-   * Compute sighash for spend authorization
+   * Compute sighash for spend authorization and binding signatures
+   * ZIP-243 for v4 transactions, ZIP-244 for v5 (no transparent input selected)
    */
-  private computeSpendSighash(
-    spend: ShieldedSpendDescription,
-    valueBalance: bigint
-  ): Uint8Array {
-    // Placeholder sighash
-    // Real implementation follows Zcash's signature hash algorithm
-    const input = concatBytes(
-      spend.cv,
-      spend.anchor,
-      spend.nullifier,
-      spend.rk,
-      this.bigintToBytes(valueBalance, 8)
+  private computeSpendSighash(tx: UnsignedShieldedTransaction): Uint8Array {
+    return computeSignatureHash(
+      {
+        version: tx.version,
+        versionGroupId: tx.versionGroupId,
+        consensusBranchId: tx.consensusBranchId!,
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight,
+        transparentInputs: tx.transparentInputs ?? [],
+        transparentOutputs: tx.transparentOutputs ?? [],
+        saplingBundle: tx.shieldedBundle
+      },
+      SIGHASH_ALL
     );
-    return blake2s(input, { dkLen: 32 });
-  }
-
-  /**
-   * Serialize full transaction
-   */
-  private serializeTransaction(
-    tx: UnsignedShieldedTransaction,
-    bundle: ShieldedBundle
-  ): string {
-    // Placeholder serialization
-    // Real implementation follows Zcash transaction format
-    
-    const parts: Uint8Array[] = [];
-    
-    // Version
-    parts.push(this.uint32ToBytes(tx.version));
-    
-    // Version group ID
-    parts.push(this.uint32ToBytes(tx.versionGroupId));
-    
-    // Transparent inputs count and inputs
-    parts.push(this.compactSize(tx.transparentInputs.length));
-    // ... serialize transparent inputs
-    
-    // Transparent outputs count and outputs
-    parts.push(this.compactSize(tx.transparentOutputs.length));
-    // ... serialize transparent outputs
-    
-    // Lock time
-    parts.push(this.uint32ToBytes(tx.lockTime));
-    
-    // Expiry height
-    parts.push(this.uint32ToBytes(tx.expiryHeight));
-    
-    // Value balance
-    parts.push(this.bigintToBytes(bundle.valueBalance, 8));
-    
-    // Shielded spends
-    parts.push(this.compactSize(bundle.spends.length));
-    for (const spend of bundle.spends) {
-      parts.push(spend.cv);
-      parts.push(spend.anchor);
-      parts.push(spend.nullifier);
-      parts.push(spend.rk);
-      parts.push(spend.zkproof);
-      parts.push(spend.spendAuthSig);
-    }
-    
-    // Shielded outputs
-    parts.push(this.compactSize(bundle.outputs.length));
-    for (const output of bundle.outputs) {
-      parts.push(output.cv);
-      parts.push(output.cmu);
-      parts.push(output.ephemeralKey);
-      parts.push(output.encCiphertext);
-      parts.push(output.outCiphertext);
-      parts.push(output.zkproof);
-    }
-    
-    // Binding signature
-    parts.push(bundle.bindingSig);
-    
-    // Concatenate all parts
-    const serialized = concatBytes(...parts);
-    return bytesToHex(serialized);
-  }
-
-  /**
-   * Compute transaction hash
-   */
-  private computeTxHash(rawTx: string): string {
-    const bytes = this.hexToBytes(rawTx);
-    const hash = blake2s(bytes, { dkLen: 32 });
-    // Reverse for display (little-endian)
-    return bytesToHex(new Uint8Array(hash).reverse());
-  }
-
-  // Helper methods
-
-  private uint32ToBytes(value: number): Uint8Array {
-    const bytes = new Uint8Array(4);
-    const view = new DataView(bytes.buffer);
-    view.setUint32(0, value, true);
-    return bytes;
-  }
-
-  private bigintToBytes(value: bigint, length: number): Uint8Array {
-    const bytes = new Uint8Array(length);
-    let v = value >= 0n ? value : -value;
-    for (let i = 0; i < length; i++) {
-      bytes[i] = Number(v & 0xFFn);
-      v >>= 8n;
-    }
-    return bytes;
-  }
-
-  private compactSize(value: number): Uint8Array {
-    if (value < 0xFD) {
-      return new Uint8Array([value]);
-    } else if (value <= 0xFFFF) {
-      const bytes = new Uint8Array(3);
-      bytes[0] = 0xFD;
-      new DataView(bytes.buffer).setUint16(1, value, true);
-      return bytes;
-    } else {
-      const bytes = new Uint8Array(5);
-      bytes[0] = 0xFE;
-      new DataView(bytes.buffer).setUint32(1, value, true);
-      return bytes;
-    }
-  }
-
-  private hexToBytes(hex: string): Uint8Array {
-    const bytes = new Uint8Array(hex.length / 2);
-    for (let i = 0; i < hex.length; i += 2) {
-      bytes[i / 2] = parseInt(hex.substr(i, 2), 16);
-    }
-    return bytes;
   }
 }
 
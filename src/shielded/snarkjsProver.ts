@@ -11,7 +11,7 @@ import type { SaplingNote } from './types.js';
  * Input parameters for proof generation
  */
 export interface ProofInput {
-  spendingKey: Uint8Array;
+  proofGenerationKey: Uint8Array;
   outputNote: Pick<SaplingNote, 'value' | 'rseed'> & { value: number | bigint };
   merkleRoot: Uint8Array;
   nullifier: Uint8Array;
@@ -114,7 +114,7 @@ export class SnarkjsProver {
    * Generate witness for the Zcash Sapling spend circuit
    *
    * Witness includes:
-   * - Spending key (a_sk)
+   * - Proof generation key (ak, nsk)
    * - Randomness (ar, kr)
    * - Merkle proof
    * - Nullifier
@@ -122,8 +122,9 @@ export class SnarkjsProver {
    */
   private async generateWitness(input: ProofInput): Promise<any> {
     return {
-      // Spending key derivation
-      ask: Array.from(input.spendingKey),
+      // Proof generation key
+      ak: Array.from(input.proofGenerationKey.slice(0, 32)),
+      nsk: Array.from(input.proofGenerationKey.slice(32, 64)),
 
       // Randomness for commitment hiding
       ar: Array.from(input.ar),
@@ -345,7 +346,7 @@ export class SnarkjsProver {
  */
 export async function createZcashProof(
   prover: SnarkjsProver,
-  spendingKey: Uint8Array,
+  proofGenerationKey: Uint8Array,
   outputNote: Pick<SaplingNote, 'value' | 'rseed'>,
   merkleRoot: Uint8Array,
   nullifier: Uint8Array,
@@ -356,7 +357,7 @@ export async function createZcashProof(
   kr: Uint8Array
 ): Promise<Uint8Array> {
   const proofOutput = await prover.generateProof({
-    spendingKey,
+    proofGenerationKey,
     outputNote,
     merkleRoot,
     nullifier,
@@ -6,6 +6,7 @@
 import type {
   SaplingNote,
   SaplingSpendingKey,
+  SaplingFullViewingKey,
   ShieldedOutputParams,
   ShieldedBundle,
   ShieldedSpendDescription,
@@ -13,7 +14,7 @@ import type {
   NoteSpendParams,
   MerkleWitness
 } from './types.js';
-import type { TransparentInput, TransparentOutput } from '../types/index';
+import type { TransparentInput, TransparentOutput, Network } from '../types/index';
 import {
   computeNoteCommitment,
   computeNullifier,
@@ -21,34 +22,34 @@ import {
   generateRcv,
   generateRseed,
   deriveRcmFromRseed,
-  encodeNotePlaintext
+  deriveEskFromRseed
 } from './noteCommitment.js';
 import { NoteCache } from './noteCache.js';
-import { concatBytes } from '../utils/bytes';
-import { blake2s } from '@noble/hashes/blake2s';
+import { encryptSaplingNote } from './saplingNoteEncryption.js';
+import { encodeMemo } from './memo.js';
 import { addScalars, negateScalar } from './scalarArithmetic.js';
 import { parseZcashAddress } from './bech32.js';
+import { saplingNullifierKey, saplingRandomizedKey, saplingSpendValidatingKey } from './zip32.js';
 import {
-  deriveNullifierKeyFromNsk,
-  computeRandomizedVerificationKey,
-  deriveEphemeralPublicKey as jubjubDeriveEpk
+  deriveEphemeralPublicKey as jubjubDeriveEpk,
+  derivePkd
 } from './jubjubHelper.js';
-// @ts-ignore - Noble ciphers uses .js exports
-import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { encodeReceiverAddress } from '../address/unified';
+import { concatBytes, randomBytes } from '../utils/bytes';
 
-// Transaction version for Sapling
-const SAPLING_TX_VERSION = 4;
-const SAPLING_VERSION_GROUP_ID = 0x892F2085;
-
-// Default fee in zatoshi
-const DEFAULT_SHIELDED_FEE = 10000;
+import {
+  SAPLING_TX_VERSION,
+  SAPLING_VERSION_GROUP_ID,
+  getTransactionVersion
+} from '../transactions/consensus';
+import { computeConventionalFee, getPaddedSaplingOutputs } from '../transactions/fees';
 
 /**
  * Build parameters for shielded transaction
  */
 export interface ShieldedTransactionParams {
-  /** Spending key for signing */
-  spendingKey: SaplingSpendingKey;
+  /** Spending key for signing, or the full viewing key when building for a PCZT */
+  spendingKey: SaplingSpendingKey | SaplingFullViewingKey;
   
   /** Notes to spend */
   spends: NoteSpendParams[];
@@ -59,11 +60,14 @@ export interface ShieldedTransactionParams {
   /** Anchor (commitment tree root) */
   anchor: Uint8Array;
   
-  /** Fee in zatoshi */
+  /** Fee in zatoshi (defaults to the ZIP-317 conventional fee) */
   fee?: number;
   
   /** Expiry height (0 = no expiry) */
   expiryHeight?: number;
+  
+  /** Height the transaction targets (selects v4/v5 and the branch ID) */
+  targetHeight?: number;
 }
 
 /**
@@ -76,22 +80,31 @@ export interface ShieldingTransactionParams {
   /** Shielded output */
   shieldedOutput: ShieldedOutputParams;
   
+  /** Further shielded recipient outputs (multi-recipient payments) */
+  additionalOutputs?: ShieldedOutputParams[];
+  
+  /** Transparent recipient outputs paid alongside the shielded outputs */
+  transparentOutputs?: TransparentOutput[];
+  
   /** Change address (transparent) */
   changeAddress?: string;
   
-  /** Fee in zatoshi */
+  /** Fee in zatoshi (defaults to the ZIP-317 conventional fee) */
   fee?: number;
   
   /** Expiry height */
   expiryHeight?: number;
+  
+  /** Height the transaction targets (selects v4/v5 and the branch ID) */
+  targetHeight?: number;
 }
 
 /**
  * Build parameters for deshielding transaction (z-to-t)
  */
 export interface DeshieldingTransactionParams {
-  /** Spending key */
-  spendingKey: SaplingSpendingKey;
+  /** Spending key, or the full viewing key when building for a PCZT */
+  spendingKey: SaplingSpendingKey | SaplingFullViewingKey;
   
   /** Notes to spend */
   spends: NoteSpendParams[];
@@ -102,14 +115,23 @@ export interface DeshieldingTransactionParams {
   /** Transparent output */
   transparentOutput: TransparentOutput;
   
+  /** Further transparent recipient outputs (multi-recipient payments) */
+  additionalOutputs?: TransparentOutput[];
+  
+  /** Shielded recipient outputs paid alongside the transparent outputs */
+  shieldedOutputs?: ShieldedOutputParams[];
+  
   /** Shielded change output (optional) */
   shieldedChange?: ShieldedOutputParams;
   
-  /** Fee in zatoshi */
+  /** Fee in zatoshi (defaults to the ZIP-317 conventional fee) */
   fee?: number;
   
   /** Expiry height */
   expiryHeight?: number;
+  
+  /** Height the transaction targets (selects v4/v5 and the branch ID) */
+  targetHeight?: number;
 }
 
 /**
@@ -122,6 +144,9 @@ export interface UnsignedShieldedTransaction {
   /** Version group ID */
   versionGroupId: number;
   
+  /** Consensus branch ID (required for v5) */
+  consensusBranchId?: number;
+  
   /** Transparent inputs */
   transparentInputs: TransparentInput[];
   
@@ -165,8 +190,8 @@ interface SpendSigningData {
   /** Note being spent */
   note: SaplingNote;
   
-  /** Spending key */
-  spendingKey: SaplingSpendingKey;
+  /** Spending key (absent when built from a full viewing key) */
+  spendingKey?: SaplingSpendingKey;
   
   /** Randomness for value commitment */
   rcv: Uint8Array;
@@ -205,8 +230,27 @@ interface OutputSigningData {
  * Shielded Transaction Builder
  */
 export class ShieldedTransactionBuilder {
-  constructor(_noteCache: NoteCache) {
+  private network?: Network;
+
+  constructor(_noteCache: NoteCache, network?: Network) {
     // Note cache used for note selection if needed
+    this.network = network;
+  }
+
+  /**
+   * Select the transaction version for the target height
+   * Falls back to v4 when the network or target height is unknown
+   */
+  private selectTxVersion(
+    targetHeight?: number
+  ): Pick<UnsignedShieldedTransaction, 'version' | 'versionGroupId' | 'consensusBranchId'> {
+    if (this.network && targetHeight !== undefined) {
+      return getTransactionVersion(this.network, targetHeight);
+    }
+    return {
+      version: SAPLING_TX_VERSION,
+      versionGroupId: SAPLING_VERSION_GROUP_ID
+    };
   }
 
   /**
@@ -215,7 +259,7 @@ export class ShieldedTransactionBuilder {
   buildShieldedTransaction(
     params: ShieldedTransactionParams
   ): UnsignedShieldedTransaction {
-    const fee = params.fee ?? DEFAULT_SHIELDED_FEE;
+    const fee = params.fee ?? this.estimateFee(params.spends.length, params.outputs.length);
     const expiryHeight = params.expiryHeight ?? 0;
 
     // Calculate value balance
@@ -238,9 +282,9 @@ export class ShieldedTransactionBuilder {
     const { spendDescriptions, spendSigningData, totalRcvSpend } = 
       this.buildSpendDescriptions(params.spends, params.spendingKey, params.anchor);
 
-    // Build output descriptions
+    // Build output descriptions, padded to the outputs charged by the fee
     const { outputDescriptions, outputSigningData, totalRcvOutput } = 
-      this.buildOutputDescriptions(params.outputs);
+      this.buildOutputDescriptions(this.padOutputs(params.spends.length, params.outputs));
 
     // Calculate binding signature key
     const bsk = this.computeBindingSignatureKey(totalRcvSpend, totalRcvOutput);
@@ -254,8 +298,7 @@ export class ShieldedTransactionBuilder {
     };
 
     return {
-      version: SAPLING_TX_VERSION,
-      versionGroupId: SAPLING_VERSION_GROUP_ID,
+      ...this.selectTxVersion(params.targetHeight),
       transparentInputs: [],
       transparentOutputs: [],
       shieldedBundle,
@@ -276,7 +319,16 @@ export class ShieldedTransactionBuilder {
   buildShieldingTransaction(
     params: ShieldingTransactionParams
   ): UnsignedShieldedTransaction {
-    const fee = params.fee ?? DEFAULT_SHIELDED_FEE;
+    const shieldedOutputs = [params.shieldedOutput, ...(params.additionalOutputs ?? [])];
+    const recipientOutputs = params.transparentOutputs ?? [];
+
+    // A transparent change output is counted whenever a change address is given
+    const fee = params.fee ?? this.estimateFee(
+      0,
+      shieldedOutputs.length,
+      params.transparentInputs.length,
+      recipientOutputs.length + (params.changeAddress ? 1 : 0)
+    );
     const expiryHeight = params.expiryHeight ?? 0;
 
     // Calculate totals
@@ -284,16 +336,23 @@ export class ShieldedTransactionBuilder {
       (sum, i) => sum + BigInt(i.value),
       0n
     );
-    const shieldedOutputValue = BigInt(params.shieldedOutput.value);
+    const shieldedOutputValue = shieldedOutputs.reduce(
+      (sum, o) => sum + BigInt(o.value),
+      0n
+    );
+    const transparentOutputValue = recipientOutputs.reduce(
+      (sum, o) => sum + BigInt(o.value),
+      0n
+    );
     
     // Calculate change
-    const change = transparentInputValue - shieldedOutputValue - BigInt(fee);
+    const change = transparentInputValue - shieldedOutputValue - transparentOutputValue - BigInt(fee);
     if (change < 0n) {
       throw new Error('Insufficient transparent funds');
     }
 
-    // Build transparent outputs (change if any)
-    const transparentOutputs: TransparentOutput[] = [];
+    // Build transparent outputs (recipients, then change if any)
+    const transparentOutputs: TransparentOutput[] = [...recipientOutputs];
     if (change > 0n && params.changeAddress) {
       transparentOutputs.push({
         address: params.changeAddress,
@@ -302,9 +361,9 @@ export class ShieldedTransactionBuilder {
       });
     }
 
-    // Build shielded output
+    // Build shielded outputs, padded to the outputs charged by the fee
     const { outputDescriptions, outputSigningData, totalRcvOutput } = 
-      this.buildOutputDescriptions([params.shieldedOutput]);
+      this.buildOutputDescriptions(this.padOutputs(0, shieldedOutputs));
 
     // Value balance is negative (value flowing into shielded pool)
     const valueBalance = -shieldedOutputValue;
@@ -320,8 +379,7 @@ export class ShieldedTransactionBuilder {
     };
 
     return {
-      version: SAPLING_TX_VERSION,
-      versionGroupId: SAPLING_VERSION_GROUP_ID,
+      ...this.selectTxVersion(params.targetHeight),
       transparentInputs: params.transparentInputs,
       transparentOutputs,
       shieldedBundle,
@@ -342,7 +400,15 @@ export class ShieldedTransactionBuilder {
   buildDeshieldingTransaction(
     params: DeshieldingTransactionParams
   ): UnsignedShieldedTransaction {
-    const fee = params.fee ?? DEFAULT_SHIELDED_FEE;
+    const transparentOutputs = [params.transparentOutput, ...(params.additionalOutputs ?? [])];
+    const recipientOutputs = params.shieldedOutputs ?? [];
+
+    const fee = params.fee ?? this.estimateFee(
+      params.spends.length,
+      recipientOutputs.length + (params.shieldedChange ? 1 : 0),
+      0,
+      transparentOutputs.length
+    );
     const expiryHeight = params.expiryHeight ?? 0;
 
     // Calculate totals
@@ -350,10 +416,17 @@ export class ShieldedTransactionBuilder {
       (sum, s) => sum + BigInt(s.note.value),
       0n
     );
-    const transparentOutputValue = BigInt(params.transparentOutput.value);
+    const transparentOutputValue = transparentOutputs.reduce(
+      (sum, o) => sum + BigInt(o.value),
+      0n
+    );
+    const shieldedOutputValue = recipientOutputs.reduce(
+      (sum, o) => sum + BigInt(o.value),
+      0n
+    );
     
     // Calculate shielded change
-    const shieldedChange = shieldedInputValue - transparentOutputValue - BigInt(fee);
+    const shieldedChange = shieldedInputValue - transparentOutputValue - shieldedOutputValue - BigInt(fee);
     if (shieldedChange < 0n) {
       throw new Error('Insufficient shielded funds');
     }
@@ -362,17 +435,22 @@ export class ShieldedTransactionBuilder {
     const { spendDescriptions, spendSigningData, totalRcvSpend } = 
       this.buildSpendDescriptions(params.spends, params.spendingKey, params.anchor);
 
-    // Build shielded change output if needed
+    // Build shielded recipient outputs and change output if needed
+    let shieldedOutputs: ShieldedOutputParams[] = [...recipientOutputs];
+    if (shieldedChange > 0n && params.shieldedChange) {
+      shieldedOutputs.push({
+        ...params.shieldedChange,
+        value: Number(shieldedChange)
+      });
+    }
+    shieldedOutputs = this.padOutputs(params.spends.length, shieldedOutputs);
+
     let outputDescriptions: ShieldedOutputDescription[] = [];
     let outputSigningData: OutputSigningData[] = [];
     let totalRcvOutput: Uint8Array = new Uint8Array(32);
 
-    if (shieldedChange > 0n && params.shieldedChange) {
-      const changeOutput: ShieldedOutputParams = {
-        ...params.shieldedChange,
-        value: Number(shieldedChange)
-      };
-      const result = this.buildOutputDescriptions([changeOutput]);
+    if (shieldedOutputs.length > 0) {
+      const result = this.buildOutputDescriptions(shieldedOutputs);
       outputDescriptions = result.outputDescriptions;
       outputSigningData = result.outputSigningData;
       totalRcvOutput = new Uint8Array(result.totalRcvOutput);
@@ -392,10 +470,9 @@ export class ShieldedTransactionBuilder {
     };
 
     return {
-      version: SAPLING_TX_VERSION,
-      versionGroupId: SAPLING_VERSION_GROUP_ID,
+      ...this.selectTxVersion(params.targetHeight),
       transparentInputs: [],
-      transparentOutputs: [params.transparentOutput],
+      transparentOutputs,
       shieldedBundle,
       lockTime: 0,
       expiryHeight,
@@ -408,12 +485,47 @@ export class ShieldedTransactionBuilder {
     };
   }
 
+  /**
+   * Pad the outputs of a non-empty bundle with dummy outputs
+   *
+   * The fee rule charges a Sapling bundle for at least MIN_SAPLING_OUTPUTS
+   * outputs. Building them also hides whether the transaction has change.
+   */
+  private padOutputs(numSpends: number, outputs: ShieldedOutputParams[]): ShieldedOutputParams[] {
+    const padded = [...outputs];
+    while (padded.length < getPaddedSaplingOutputs(numSpends, outputs.length)) {
+      padded.push(this.dummyOutput());
+    }
+    return padded;
+  }
+
+  /**
+   * Zero-value output to a throwaway address
+   *
+   * Without an ovk the sender cannot recover it, so it never shows up in
+   * the wallet history.
+   */
+  private dummyOutput(): ShieldedOutputParams {
+    const diversifier = randomBytes(11);
+    const ivk = randomBytes(32);
+    // ivk is a 251-bit scalar
+    ivk[31] &= 0x07;
+
+    return {
+      address: encodeReceiverAddress(this.network ?? 'mainnet', {
+        type: 'sapling',
+        data: concatBytes(diversifier, derivePkd(ivk, diversifier))
+      }),
+      value: 0
+    };
+  }
+
   /**
    * Build spend descriptions
    */
   private buildSpendDescriptions(
     spends: NoteSpendParams[],
-    spendingKey: SaplingSpendingKey,
+    spendingKey: SaplingSpendingKey | SaplingFullViewingKey,
     anchor: Uint8Array
   ): {
     spendDescriptions: ShieldedSpendDescription[];
@@ -424,6 +536,11 @@ export class ShieldedTransactionBuilder {
     const spendSigningData: SpendSigningData[] = [];
     let totalRcv = new Uint8Array(32);
 
+    // The descriptions only need ak and nk; ask is left to the signer
+    const { ak, nk } = 'ask' in spendingKey
+      ? { ak: saplingSpendValidatingKey(spendingKey.ask), nk: this.deriveNullifierKey(spendingKey.nsk) }
+      : spendingKey;
+
     for (const spend of spends) {
       // Generate randomness
       const rcv = generateRcv();
@@ -432,20 +549,11 @@ export class ShieldedTransactionBuilder {
       // Compute value commitment
       const cv = computeValueCommitment(BigInt(spend.note.value), rcv);
 
-      // Compute note commitment (cmu) if not present
-      const cmu = spend.note.cmu || computeNoteCommitment(
-        spend.note.diversifier,
-        spend.note.pkD,
-        BigInt(spend.note.value),
-        spend.note.rcm
-      );
-      
       // Compute nullifier
-      const nk = this.deriveNullifierKey(spendingKey.nsk);
-      const nullifier = computeNullifier(nk, cmu, BigInt(spend.witness.position || 0));
+      const nullifier = computeNullifier(nk, spend.note, BigInt(spend.witness.position || 0));
 
       // Compute randomized verification key (rk)
-      const rk = this.randomizeVerificationKey(spendingKey.ask, alpha);
+      const rk = this.randomizeVerificationKey(ak, alpha);
 
       // Create spend description
       const description: ShieldedSpendDescription = {
@@ -462,7 +570,7 @@ export class ShieldedTransactionBuilder {
       // Store signing data
       spendSigningData.push({
         note: spend.note,
-        spendingKey,
+        spendingKey: 'ask' in spendingKey ? spendingKey : undefined,
         rcv,
         alpha,
         witness: spend.witness,
@@ -495,7 +603,7 @@ export class ShieldedTransactionBuilder {
       const rcv = generateRcv();
       const rseed = generateRseed();
       const rcm = deriveRcmFromRseed(rseed);
-      const esk = this.generateEphemeralSecretKey();
+      const esk = deriveEskFromRseed(rseed);
 
       // Compute value commitment
       const cv = computeValueCommitment(BigInt(output.value), rcv);
@@ -515,7 +623,10 @@ export class ShieldedTransactionBuilder {
         rseed,
         esk,
         diversifier,
-        pkD
+        pkD,
+        ephemeralKey,
+        cv,
+        cmu
       );
 
       // Create output description
@@ -566,32 +677,20 @@ export class ShieldedTransactionBuilder {
     return alpha;
   }
 
-  /**
-   * Generate ephemeral secret key
-   */
-  private generateEphemeralSecretKey(): Uint8Array {
-    const esk = new Uint8Array(32);
-    crypto.getRandomValues(esk);
-    return esk;
-  }
-
   /**
    * Derive nullifier key from nsk
-   * nk = [nsk] * G_nk (Jubjub scalar multiplication)
+   * nk = [nsk] * H (Jubjub scalar multiplication)
    */
   private deriveNullifierKey(nsk: Uint8Array): Uint8Array {
-    return deriveNullifierKeyFromNsk(nsk);
+    return saplingNullifierKey(nsk);
   }
 
   /**
    * Randomize verification key
-   * rk = [ask + alpha] * G_spend (Jubjub scalar multiplication)
+   * rk = ak + [alpha] * G_spend, which equals [ask + alpha] * G_spend
    */
-  private randomizeVerificationKey(ask: Uint8Array, alpha: Uint8Array): Uint8Array {
-    // First add the scalars: (ask + alpha) mod order
-    const combinedScalar = addScalars(ask, alpha);
-    // Then multiply by spending key generator
-    return computeRandomizedVerificationKey(combinedScalar);
+  private randomizeVerificationKey(ak: Uint8Array, alpha: Uint8Array): Uint8Array {
+    return saplingRandomizedKey(ak, alpha);
   }
 
   /**
@@ -632,91 +731,34 @@ export class ShieldedTransactionBuilder {
 
   /**
    * Encrypt note for transmission using ChaCha20Poly1305
-   * ZIP 216: Sapling Payment Addresses and Change
+   * The outgoing ciphertext lets the sender recover the note with ovk
    */
   private encryptNote(
     output: ShieldedOutputParams,
     rseed: Uint8Array,
     esk: Uint8Array,
     diversifier: Uint8Array,
-    pkD: Uint8Array
+    pkD: Uint8Array,
+    ephemeralKey: Uint8Array,
+    cv: Uint8Array,
+    cmu: Uint8Array
   ): { encCiphertext: Uint8Array; outCiphertext: Uint8Array } {
+    // ZIP-302 memo field; throws for memos over 512 bytes
+    const memo = encodeMemo(output.memo);
+
     try {
-      const memo = output.memo
-        ? (typeof output.memo === 'string'
-            ? new TextEncoder().encode(output.memo)
-            : output.memo)
-        : new Uint8Array(512);
-
-      // Encode note plaintext (564 bytes before memo)
-      // Format: [1: lead_byte][11: diversifier][8: value][32: rseed][512: memo] = 564 bytes
-      const plaintext = encodeNotePlaintext({
+      return encryptSaplingNote({
         diversifier,
+        pkD,
         value: output.value,
         rseed,
-        memo
+        memo,
+        esk,
+        ephemeralKey,
+        ovk: output.ovk ?? null,
+        cv,
+        cmu
       });
-
-      // === Encrypted Note Ciphertext (encCiphertext) ===
-      // ZIP 216 encryption using ChaCha20Poly1305
-      // Key derivation: PRF^enc(esk || pk_d) for the encryption key
-      // Nonce: derived deterministically from rseed to allow matching on decryption
-
-      // Derive encryption key from ephemeral secret key and public key
-      // Using BLAKE2s as KDF matching Zcash spec
-      const encKeyMaterial = blake2s(concatBytes(esk, pkD), { dkLen: 32 });
-
-      // Generate nonce (12 bytes) deterministically from rseed
-      // Matching with decryption side for reproducibility
-      const encNonce = blake2s(concatBytes(new Uint8Array([0]), rseed), { dkLen: 12 });
-
-      // Encrypt plaintext with ChaCha20Poly1305
-      // Output: [ciphertext (564 bytes)] || [auth_tag (16 bytes)] = 580 bytes total
-      const cipher = chacha20poly1305(encKeyMaterial, encNonce);
-      const encCiphertext = cipher.encrypt(plaintext);
-
-      // === Outgoing Ciphertext (outCiphertext) ===
-      // For sender to later decrypt and track their own outgoing notes
-      // This allows the sender to recover sent notes from the blockchain
-      // Encrypted with outgoing viewing key (ovk) material
-
-      const outCiphertext = new Uint8Array(80);
-
-      if (output.ovk) {
-        // Derive outgoing viewing key material
-        // ZIP 216: out_key = PRF^out(ovk || esk)
-        const outKeyMaterial = blake2s(concatBytes(output.ovk, esk), { dkLen: 32 });
-
-        // Different nonce from encryption ciphertext (prevents key reuse)
-        const outNonce = blake2s(concatBytes(new Uint8Array([1]), rseed), { dkLen: 12 });
-
-        // For outgoing ciphertext, we encrypt just the first 64 bytes of plaintext
-        // This contains: [1 byte: lead] [11 bytes: diversifier] [8 bytes: value] [32 bytes: rseed] [12 bytes: of memo]
-        // This is sufficient to recover the note on sender's side
-        const recipientPlaintext = plaintext.slice(0, 64);
-
-        // Encrypt with ChaCha20Poly1305 using outgoing key
-        const outCipher = chacha20poly1305(outKeyMaterial, outNonce);
-        const encryptedOut = outCipher.encrypt(recipientPlaintext);
-
-        // Validate output size: should be exactly 80 bytes (64 encrypted + 16 tag)
-        if (encryptedOut.length !== 80) {
-          throw new Error(
-            `Outgoing ciphertext has incorrect size: expected 80 bytes, got ${encryptedOut.length}`
-          );
-        }
-
-        // Take all 80 bytes: [64 encrypted + 16 tag]
-        outCiphertext.set(encryptedOut);
-      } else {
-        // If no outgoing viewing key, fill with random bytes
-        // Sender won't be able to track outgoing transactions
-        for (let i = 0; i < 80; i++) {
-          outCiphertext[i] = Math.floor(Math.random() * 256);
-        }
-      }
-
-      return { encCiphertext, outCiphertext };
     } catch (error) {
       // If encryption fails, fall back to empty ciphertexts
       // Transaction will fail during validation on network
@@ -729,7 +771,8 @@ export class ShieldedTransactionBuilder {
   }
 
   /**
-   * Estimate fee for shielded transaction
+   * Estimate fee for shielded transaction (ZIP-317 conventional fee,
+   * including Sapling output padding)
    */
   estimateFee(
     numSpends: number,
@@ -737,22 +780,12 @@ export class ShieldedTransactionBuilder {
     numTransparentInputs: number = 0,
     numTransparentOutputs: number = 0
   ): number {
-    // Base fee
-    let fee = 1000;
-
-    // Shielded spend cost
-    fee += numSpends * 5000;
-
-    // Shielded output cost
-    fee += numOutputs * 5000;
-
-    // Transparent input cost
-    fee += numTransparentInputs * 150;
-
-    // Transparent output cost
-    fee += numTransparentOutputs * 34;
-
-    return fee;
+    return computeConventionalFee({
+      transparentInputs: numTransparentInputs,
+      transparentOutputs: numTransparentOutputs,
+      saplingSpends: numSpends,
+      saplingOutputs: numOutputs
+    });
   }
 }
 
@@ -10,9 +10,12 @@ import type {
 } from './transactionBuilder.js';
 import type { ShieldedBundle, ShieldedSpendDescription, ShieldedOutputDescription } from './types.js';
 import type { TransparentInput, TransparentOutput } from '../types/index';
-import { concatBytes } from '../utils/bytes';
+import { concatBytes, reverseBytes } from '../utils/bytes';
 import { bytesToHex } from '../utils/bytes';
+import { doubleSha256 } from '../utils/hash';
 import { blake2b } from '@noble/hashes/blake2b';
+import { NU5_TX_VERSION, OVERWINTERED_FLAG } from '../transactions/consensus';
+import { computeTxId as computeZip244TxId } from '../transactions/zip244';
 
 /**
  * Serialization format for shielded transactions
@@ -23,7 +26,11 @@ export class TransactionSerializer {
    * Serialize a complete unsigned shielded transaction
    * Returns a buffer suitable for hashing or transmission
    */
-  static serializeTransaction(tx: UnsignedShieldedTransaction): Uint8Array {
+  static serializeTransaction(tx: Omit<UnsignedShieldedTransaction, 'signingData'>): Uint8Array {
+    if (tx.version >= NU5_TX_VERSION) {
+      return this.serializeTransactionV5(tx);
+    }
+
     const parts: Uint8Array[] = [];
 
     // Transaction header (4 + 4 = 8 bytes)
@@ -76,6 +83,131 @@ export class TransactionSerializer {
     return concatBytes(...parts);
   }
 
+  /**
+   * Serialize a v5 transaction (ZIP-225)
+   *
+   * Header fields come first and are followed by the transparent, Sapling
+   * and Orchard bundles. Sapling proofs and signatures are stored apart
+   * from the descriptions so the txid (ZIP-244) commits only to effecting data.
+   */
+  private static serializeTransactionV5(tx: Omit<UnsignedShieldedTransaction, 'signingData'>): Uint8Array {
+    if (tx.consensusBranchId === undefined) {
+      throw new Error(
+        'v5 transactions require a consensusBranchId. ' +
+        'Use getTransactionVersion() to select it for the target height.'
+      );
+    }
+
+    const parts: Uint8Array[] = [];
+
+    // Header fields (20 bytes)
+    parts.push(this.serializeU32((tx.version | OVERWINTERED_FLAG) >>> 0));
+    parts.push(this.serializeU32(tx.versionGroupId));
+    parts.push(this.serializeU32(tx.consensusBranchId));
+    parts.push(this.serializeU32(tx.lockTime));
+    parts.push(this.serializeU32(tx.expiryHeight));
+
+    // Transparent bundle
+    parts.push(this.serializeCompactSize(tx.transparentInputs?.length ?? 0));
+    for (const input of tx.transparentInputs ?? []) {
+      parts.push(this.serializeTransparentInput(input));
+    }
+    parts.push(this.serializeCompactSize(tx.transparentOutputs?.length ?? 0));
+    for (const output of tx.transparentOutputs ?? []) {
+      parts.push(this.serializeTransparentOutput(output));
+    }
+
+    // Sapling bundle
+    parts.push(this.serializeSaplingBundleV5(tx.shieldedBundle));
+
+    // Orchard bundle (nActionsOrchard = 0)
+    parts.push(this.serializeCompactSize(0));
+
+    return concatBytes(...parts);
+  }
+
+  /**
+   * Serialize a Sapling bundle in the v5 layout
+   */
+  private static serializeSaplingBundleV5(bundle: ShieldedBundle): Uint8Array {
+    const parts: Uint8Array[] = [];
+    const { spends, outputs } = bundle;
+
+    // Spend descriptions without anchor, proof and signature
+    parts.push(this.serializeCompactSize(spends.length));
+    for (const spend of spends) {
+      parts.push(spend.cv, spend.nullifier, spend.rk);
+    }
+
+    // Output descriptions without proof
+    parts.push(this.serializeCompactSize(outputs.length));
+    for (const output of outputs) {
+      parts.push(
+        output.cv,
+        output.cmu,
+        output.ephemeralKey,
+        output.encCiphertext,
+        output.outCiphertext
+      );
+    }
+
+    if (spends.length + outputs.length > 0) {
+      parts.push(this.serializeI64(bundle.valueBalance));
+    }
+
+    if (spends.length > 0) {
+      // All v5 spends share a single anchor
+      const anchor = spends[0].anchor;
+      for (const spend of spends) {
+        if (bytesToHex(spend.anchor) !== bytesToHex(anchor)) {
+          throw new Error('All Sapling spends in a v5 transaction must use the same anchor');
+        }
+      }
+      parts.push(anchor);
+    }
+
+    for (const spend of spends) {
+      parts.push(spend.zkproof);
+    }
+    for (const spend of spends) {
+      parts.push(spend.spendAuthSig);
+    }
+    for (const output of outputs) {
+      parts.push(output.zkproof);
+    }
+
+    if (spends.length + outputs.length > 0) {
+      parts.push(bundle.bindingSig);
+    }
+
+    return concatBytes(...parts);
+  }
+
+  /**
+   * Compute the transaction ID
+   * v5 uses the ZIP-244 digest tree, v4 the double SHA-256 of the raw bytes
+   */
+  static computeTxId(tx: Omit<UnsignedShieldedTransaction, 'signingData'>): string {
+    if (tx.version >= NU5_TX_VERSION) {
+      if (tx.consensusBranchId === undefined) {
+        throw new Error('v5 transactions require a consensusBranchId to compute the txid');
+      }
+      return computeZip244TxId({
+        header: (tx.version | OVERWINTERED_FLAG) >>> 0,
+        versionGroupId: tx.versionGroupId,
+        consensusBranchId: tx.consensusBranchId,
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight,
+        transparentInputs: tx.transparentInputs ?? [],
+        transparentOutputs: tx.transparentOutputs ?? [],
+        saplingBundle: tx.shieldedBundle
+      });
+    }
+
+    const raw = this.serializeTransaction(tx);
+    return bytesToHex(reverseBytes(doubleSha256(raw)));
+  }
+
   /**
    * Serialize transaction header (version + versionGroupId)
    */
@@ -93,11 +225,11 @@ export class TransactionSerializer {
   private static serializeTransparentInput(input: TransparentInput): Uint8Array {
     const parts: Uint8Array[] = [];
 
-    // Previous output hash (32 bytes)
+    // Previous output hash (32 bytes, internal byte order)
     const txHash = typeof input.txHash === 'string'
       ? this.hexToBytes(input.txHash)
       : this.hexToBytes(bytesToHex(input.txHash));
-    parts.push(txHash);
+    parts.push(reverseBytes(txHash));
 
     // Previous output index (4 bytes)
     parts.push(this.serializeU32(input.index ?? 0));
@@ -371,6 +503,10 @@ export class TransactionSerializer {
    * Deserialize a transaction from bytes
    */
   static deserializeTransaction(data: Uint8Array): UnsignedShieldedTransaction {
+    if ((this.readU32(data, 0) & ~OVERWINTERED_FLAG) >= NU5_TX_VERSION) {
+      return this.deserializeTransactionV5(data);
+    }
+
     let offset = 0;
 
     // Parse header
@@ -434,6 +570,144 @@ export class TransactionSerializer {
     };
   }
 
+  /**
+   * Deserialize a v5 transaction (ZIP-225)
+   */
+  private static deserializeTransactionV5(data: Uint8Array): UnsignedShieldedTransaction {
+    let offset = 0;
+
+    // Header fields
+    const version = this.readU32(data, offset) & ~OVERWINTERED_FLAG;
+    const versionGroupId = this.readU32(data, offset + 4) >>> 0;
+    const consensusBranchId = this.readU32(data, offset + 8) >>> 0;
+    const lockTime = this.readU32(data, offset + 12) >>> 0;
+    const expiryHeight = this.readU32(data, offset + 16) >>> 0;
+    offset += 20;
+
+    // Transparent bundle
+    const [transparentInputs, inputsLen] = this.readTransparentInputs(data, offset);
+    offset += inputsLen;
+    const [transparentOutputs, outputsLen] = this.readTransparentOutputs(data, offset);
+    offset += outputsLen;
+
+    // Sapling bundle
+    const [shieldedBundle, saplingLen] = this.readSaplingBundleV5(data, offset);
+    offset += saplingLen;
+
+    // Orchard bundle
+    const [nActionsOrchard] = this.readCompactSize(data, offset);
+    if (nActionsOrchard > 0) {
+      throw new Error('Orchard actions are not supported by the shielded TransactionSerializer');
+    }
+
+    return {
+      version,
+      versionGroupId,
+      consensusBranchId,
+      transparentInputs,
+      transparentOutputs,
+      shieldedBundle,
+      lockTime,
+      expiryHeight,
+      signingData: {
+        spends: [],
+        outputs: [],
+        valueBalance: shieldedBundle.valueBalance,
+        bsk: new Uint8Array(32)
+      }
+    };
+  }
+
+  /**
+   * Read a Sapling bundle in the v5 layout
+   */
+  private static readSaplingBundleV5(data: Uint8Array, offset: number): [ShieldedBundle, number] {
+    let pos = offset;
+
+    const [nSpends, spendsSizeLen] = this.readCompactSize(data, pos);
+    pos += spendsSizeLen;
+    const spendFields: { cv: Uint8Array; nullifier: Uint8Array; rk: Uint8Array }[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      spendFields.push({
+        cv: data.slice(pos, pos + 32),
+        nullifier: data.slice(pos + 32, pos + 64),
+        rk: data.slice(pos + 64, pos + 96)
+      });
+      pos += 96;
+    }
+
+    const [nOutputs, outputsSizeLen] = this.readCompactSize(data, pos);
+    pos += outputsSizeLen;
+    const outputFields: Omit<ShieldedOutputDescription, 'zkproof'>[] = [];
+    for (let i = 0; i < nOutputs; i++) {
+      outputFields.push({
+        cv: data.slice(pos, pos + 32),
+        cmu: data.slice(pos + 32, pos + 64),
+        ephemeralKey: data.slice(pos + 64, pos + 96),
+        encCiphertext: data.slice(pos + 96, pos + 676),
+        outCiphertext: data.slice(pos + 676, pos + 756)
+      });
+      pos += 756;
+    }
+
+    let valueBalance = 0n;
+    if (nSpends + nOutputs > 0) {
+      valueBalance = this.readI64(data, pos);
+      pos += 8;
+    }
+
+    let anchor = new Uint8Array(32);
+    if (nSpends > 0) {
+      anchor = data.slice(pos, pos + 32);
+      pos += 32;
+    }
+
+    const spendProofs: Uint8Array[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      spendProofs.push(data.slice(pos, pos + 192));
+      pos += 192;
+    }
+    const spendAuthSigs: Uint8Array[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      spendAuthSigs.push(data.slice(pos, pos + 64));
+      pos += 64;
+    }
+    const outputProofs: Uint8Array[] = [];
+    for (let i = 0; i < nOutputs; i++) {
+      outputProofs.push(data.slice(pos, pos + 192));
+      pos += 192;
+    }
+
+    let bindingSig = new Uint8Array(64);
+    if (nSpends + nOutputs > 0) {
+      bindingSig = data.slice(pos, pos + 64);
+      pos += 64;
+    }
+
+    if (pos > data.length) {
+      throw new Error('Truncated Sapling bundle in v5 transaction');
+    }
+
+    const bundle: ShieldedBundle = {
+      spends: spendFields.map((spend, i) => ({
+        cv: spend.cv,
+        anchor,
+        nullifier: spend.nullifier,
+        rk: spend.rk,
+        zkproof: spendProofs[i],
+        spendAuthSig: spendAuthSigs[i]
+      })),
+      outputs: outputFields.map((output, i) => ({
+        ...output,
+        zkproof: outputProofs[i]
+      })),
+      valueBalance,
+      bindingSig
+    };
+
+    return [bundle, pos - offset];
+  }
+
   /**
    * Read unsigned 32-bit integer
    */
@@ -454,7 +728,7 @@ export class TransactionSerializer {
     for (let i = 7; i >= 0; i--) {
       value = (value << 8n) | BigInt(data[offset + i]);
     }
-    return value;
+    return BigInt.asIntN(64, value);
   }
 
   /**
@@ -511,7 +785,7 @@ export class TransactionSerializer {
       totalLen += 4;
 
       inputs.push({
-        txHash: bytesToHex(prevHash),
+        txHash: bytesToHex(reverseBytes(prevHash)),
         index: prevIndex,
         scriptPubKey: '',
         scriptSig: typeof scriptSig === 'string' ? scriptSig : bytesToHex(scriptSig),
@@ -1,9 +1,19 @@
 /**
  * Transaction Tracking and Confirmation Management
  * Tracks broadcast transactions, their confirmations, and final status
+ *
+ * With a storage backend the tracked transactions survive a reload. A
+ * transaction tracked with its raw hex is rebroadcast when it drops out of
+ * the mempool, and one tracked with an expiry height is marked expired once
+ * the chain passes that height without mining it. Expiry releases the UTXOs
+ * and notes the transaction reserved, so the wallet can spend them again.
  */
 
 import { ZcashRpcClient } from './rpcClient.js';
+import type { TransactionInfo } from './rpcClient.js';
+import { TransactionSerializer } from '../transactions/serialization';
+import { PersistedStore } from '../state/persistedStore';
+import type { StateStorage } from '../state/persistedStore';
 
 /**
  * Broadcast transaction tracking status
@@ -13,7 +23,18 @@ export enum BroadcastTransactionStatus {
   MEMPOOL = 'mempool',
   CONFIRMED = 'confirmed',
   FAILED = 'failed',
-  NOT_FOUND = 'not_found'
+  NOT_FOUND = 'not_found',
+  EXPIRED = 'expired'
+}
+
+/**
+ * Funds a pending transaction spends, held back from coin selection
+ */
+export interface TransactionReservations {
+  /** Transparent outputs spent, with the address holding them */
+  utxos: Array<{ address: string; txid: string; vout: number }>;
+  /** Nullifiers (hex) of the Sapling notes spent */
+  nullifiers: string[];
 }
 
 /**
@@ -29,8 +50,76 @@ export interface TrackedTransaction {
   blockTime?: number;
   error?: string;
   lastCheckedAt: number;
+  /** Raw transaction hex, for rebroadcasting */
+  rawTx?: string;
+  /** Last height the transaction can be mined at; 0 means it never expires */
+  expiryHeight?: number;
+  /** Times the transaction was rebroadcast */
+  rebroadcasts?: number;
+  /** Funds to release if the transaction expires */
+  reservations?: TransactionReservations;
+}
+
+/**
+ * Options for tracking a transaction
+ */
+export interface TrackTransactionOptions {
+  rawTx?: string;
+  expiryHeight?: number;
+  reservations?: TransactionReservations;
+}
+
+/**
+ * Tracker lifecycle event
+ */
+export type TrackerEvent =
+  | { type: 'confirmed'; tracked: TrackedTransaction }
+  | { type: 'rebroadcast'; tracked: TrackedTransaction }
+  | { type: 'expired'; tracked: TrackedTransaction; released?: TransactionReservations };
+
+/**
+ * What the tracker reads of a transaction lookup
+ */
+export type TrackerTransactionInfo = Pick<TransactionInfo, 'confirmations' | 'blockhash' | 'blocktime'> & {
+  /** Height of the block holding the transaction, when the backend reports it */
+  height?: number;
+};
+
+/**
+ * RPC operations the tracker relies on; implemented by ZcashRpcClient
+ *
+ * getMempoolTransaction resolves null when the backend does not know the
+ * transaction and rejects when the lookup itself fails.
+ */
+export interface TrackerRpcClient {
+  getTransaction(txid: string): Promise<TrackerTransactionInfo>;
+  getMempoolTransaction(txid: string): Promise<TrackerTransactionInfo | null>;
+  getBlock(hash: string): Promise<any>;
+  getBlockchainInfo(): Promise<{ blocks: number }>;
+  sendRawTransaction(hexTx: string): Promise<string>;
+  verifyTransactionInBlock(txid: string, blockHash: string): Promise<boolean>;
+}
+
+/**
+ * Tracker options
+ */
+export interface TransactionTrackerOptions {
+  /** Backend the tracked transactions are persisted to */
+  storage?: StateStorage;
+  /** Rebroadcast attempts per transaction before giving up (default 10) */
+  maxRebroadcasts?: number;
 }
 
+/**
+ * Serialized tracker format
+ */
+interface SerializedTracker {
+  version: 1;
+  transactions: TrackedTransaction[];
+}
+
+const DEFAULT_MAX_REBROADCASTS = 10;
+
 /**
  * Transaction confirmation result
  */
@@ -48,18 +137,61 @@ export interface ConfirmationResult {
  * Transaction Tracker for monitoring broadcast transactions
  */
 export class TransactionTracker {
-  private rpcClient: ZcashRpcClient;
+  private rpcClient: TrackerRpcClient;
+  private store: PersistedStore | null;
+  private maxRebroadcasts: number;
   private trackedTxs: Map<string, TrackedTransaction> = new Map();
   private confirmationCallbacks: Map<string, ((result: ConfirmationResult) => void)[]> = new Map();
+  private listeners: Set<(event: TrackerEvent) => void> = new Set();
 
-  constructor(rpcClient: ZcashRpcClient) {
+  constructor(rpcClient: TrackerRpcClient, options: TransactionTrackerOptions = {}) {
     this.rpcClient = rpcClient;
+    this.store = options.storage
+      ? new PersistedStore(options.storage, () => {
+          const state: SerializedTracker = { version: 1, transactions: this.exportState() };
+          return JSON.stringify(state);
+        })
+      : null;
+    this.maxRebroadcasts = options.maxRebroadcasts ?? DEFAULT_MAX_REBROADCASTS;
+  }
+
+  /**
+   * Load the persisted tracked transactions
+   *
+   * Transactions tracked before loading are kept.
+   */
+  async initialize(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      const parsed = JSON.parse(data) as SerializedTracker;
+      if (parsed.version !== 1 || !Array.isArray(parsed.transactions)) {
+        throw new Error(`Unsupported tracker format: ${parsed.version}`);
+      }
+      for (const tx of parsed.transactions) {
+        if (!this.trackedTxs.has(tx.txid)) {
+          this.trackedTxs.set(tx.txid, tx);
+        }
+      }
+    } catch (error) {
+      throw new Error(`Tracker initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
    * Add a transaction to tracking
+   *
+   * Pass the raw hex to have the transaction rebroadcast, and the expiry
+   * height and reservations to have its funds released once it expires.
    */
-  trackTransaction(txid: string): TrackedTransaction {
+  trackTransaction(txid: string, options: TrackTransactionOptions = {}): TrackedTransaction {
     if (this.trackedTxs.has(txid)) {
       return this.trackedTxs.get(txid)!;
     }
@@ -69,10 +201,12 @@ export class TransactionTracker {
       broadcastTime: Date.now(),
       status: BroadcastTransactionStatus.MEMPOOL,
       confirmations: 0,
-      lastCheckedAt: Date.now()
+      lastCheckedAt: Date.now(),
+      ...options
     };
 
     this.trackedTxs.set(txid, tracked);
+    this.store?.schedule();
     return tracked;
   }
 
@@ -82,6 +216,7 @@ export class TransactionTracker {
   untrackTransaction(txid: string): void {
     this.trackedTxs.delete(txid);
     this.confirmationCallbacks.delete(txid);
+    this.store?.schedule();
   }
 
   /**
@@ -100,6 +235,10 @@ export class TransactionTracker {
 
   /**
    * Check confirmation status of a transaction
+   *
+   * A transaction missing from the chain and the mempool is rebroadcast, or
+   * marked expired once the chain has passed its expiry height. When the
+   * lookup itself fails the last known status is kept.
    */
   async checkConfirmation(txid: string): Promise<ConfirmationResult> {
     const tracked = this.trackedTxs.get(txid);
@@ -107,16 +246,27 @@ export class TransactionTracker {
       throw new Error(`Transaction ${txid} is not being tracked`);
     }
 
+    // Expired transactions can no longer be mined
+    if (tracked.status === BroadcastTransactionStatus.EXPIRED) {
+      return this.toResult(tracked);
+    }
+
+    const previousStatus = tracked.status;
     try {
-      // Try to get transaction info
-      const txInfo = await this.rpcClient.getTransaction(txid).catch(() => null);
+      // Try to get transaction info; getrawtransaction also finds mined
+      // transactions on nodes that do not hold them in their wallet
+      let txInfo = await this.rpcClient.getTransaction(txid).catch(() => null);
+      if (!txInfo || txInfo.confirmations === undefined) {
+        txInfo = await this.rpcClient.getMempoolTransaction(txid);
+      }
 
-      if (txInfo && txInfo.confirmations !== undefined) {
+      if (txInfo && (txInfo.confirmations ?? 0) > 0) {
         // Transaction is in a block
-        tracked.status = txInfo.confirmations > 0 ? BroadcastTransactionStatus.CONFIRMED : BroadcastTransactionStatus.MEMPOOL;
-        tracked.confirmations = txInfo.confirmations;
+        tracked.status = BroadcastTransactionStatus.CONFIRMED;
+        tracked.confirmations = txInfo.confirmations!;
         tracked.blockHash = txInfo.blockhash;
         tracked.blockTime = txInfo.blocktime;
+        tracked.blockHeight = txInfo.height ?? tracked.blockHeight;
 
         // Extract block height from blockchain info if needed
         if (!tracked.blockHeight && txInfo.blockhash) {
@@ -127,33 +277,35 @@ export class TransactionTracker {
             // Could not get block height, continue with what we have
           }
         }
+      } else if (txInfo) {
+        tracked.status = BroadcastTransactionStatus.MEMPOOL;
+        tracked.confirmations = 0;
       } else {
-        // Check mempool
-        const mempoolTx = await this.rpcClient.getMempoolTransaction(txid).catch(() => null);
-        if (mempoolTx) {
-          tracked.status = BroadcastTransactionStatus.MEMPOOL;
-          tracked.confirmations = 0;
-        } else {
-          tracked.status = BroadcastTransactionStatus.NOT_FOUND;
-          tracked.confirmations = 0;
-        }
+        tracked.status = BroadcastTransactionStatus.NOT_FOUND;
+        tracked.confirmations = 0;
+      }
+
+      if (txInfo) {
+        tracked.error = undefined;
+      }
+
+      if (tracked.status !== BroadcastTransactionStatus.CONFIRMED) {
+        await this.handleUnmined(tracked);
       }
     } catch (error) {
-      tracked.status = BroadcastTransactionStatus.FAILED;
+      // The backend could not be asked: a transaction it did not report is
+      // not missing, so it is neither rebroadcast nor expired
       tracked.error = error instanceof Error ? error.message : String(error);
     }
 
     tracked.lastCheckedAt = Date.now();
+    this.store?.schedule();
 
-    const result: ConfirmationResult = {
-      txid,
-      confirmed: tracked.confirmations > 0,
-      confirmations: tracked.confirmations,
-      blockHeight: tracked.blockHeight,
-      blockHash: tracked.blockHash,
-      blockTime: tracked.blockTime,
-      finalStatus: tracked.status
-    };
+    if (tracked.status === BroadcastTransactionStatus.CONFIRMED && previousStatus !== BroadcastTransactionStatus.CONFIRMED) {
+      this.emit({ type: 'confirmed', tracked });
+    }
+
+    const result = this.toResult(tracked);
 
     // Call any registered callbacks
     const callbacks = this.confirmationCallbacks.get(txid) ?? [];
@@ -250,7 +402,9 @@ export class TransactionTracker {
     let cleaned = 0;
 
     for (const [txid, tracked] of this.trackedTxs.entries()) {
-      if (tracked.broadcastTime < cutoffTime && tracked.status === BroadcastTransactionStatus.CONFIRMED) {
+      const settled = tracked.status === BroadcastTransactionStatus.CONFIRMED ||
+        tracked.status === BroadcastTransactionStatus.EXPIRED;
+      if (tracked.broadcastTime < cutoffTime && settled) {
         this.untrackTransaction(txid);
         cleaned++;
       }
@@ -268,13 +422,15 @@ export class TransactionTracker {
     confirmed: number;
     failed: number;
     notFound: number;
+    expired: number;
   } {
     const stats = {
       totalTracked: this.trackedTxs.size,
       pending: 0,
       confirmed: 0,
       failed: 0,
-      notFound: 0
+      notFound: 0,
+      expired: 0
     };
 
     for (const tracked of this.trackedTxs.values()) {
@@ -286,6 +442,8 @@ export class TransactionTracker {
         stats.failed++;
       } else if (tracked.status === BroadcastTransactionStatus.NOT_FOUND) {
         stats.notFound++;
+      } else if (tracked.status === BroadcastTransactionStatus.EXPIRED) {
+        stats.expired++;
       }
     }
 
@@ -304,6 +462,7 @@ export class TransactionTracker {
         if (tracked) {
           tracked.blockHash = blockHash;
           tracked.status = BroadcastTransactionStatus.CONFIRMED;
+          this.store?.schedule();
         }
       }
 
@@ -314,6 +473,38 @@ export class TransactionTracker {
     }
   }
 
+  /**
+   * Listen for confirmations, rebroadcasts and expiries
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: TrackerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Get the funds reserved by transactions that may still be mined
+   */
+  getActiveReservations(): Array<{ txid: string; reservations: TransactionReservations }> {
+    return this.getAllTrackedTransactions()
+      .filter(tracked =>
+        tracked.reservations &&
+        tracked.status !== BroadcastTransactionStatus.CONFIRMED &&
+        tracked.status !== BroadcastTransactionStatus.EXPIRED
+      )
+      .map(tracked => ({ txid: tracked.txid, reservations: tracked.reservations! }));
+  }
+
+  /**
+   * Wait for pending writes to reach storage
+   *
+   * @throws If the last write failed after its retries
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
+  }
+
   /**
    * Export tracked transactions state (for persistence)
    */
@@ -328,6 +519,7 @@ export class TransactionTracker {
     for (const tx of transactions) {
       this.trackedTxs.set(tx.txid, tx);
     }
+    this.store?.schedule();
   }
 
   /**
@@ -336,6 +528,76 @@ export class TransactionTracker {
   clear(): void {
     this.trackedTxs.clear();
     this.confirmationCallbacks.clear();
+    this.store?.schedule();
+  }
+
+  /**
+   * Expire a transaction the chain has passed, or rebroadcast one that
+   * dropped out of the mempool
+   */
+  private async handleUnmined(tracked: TrackedTransaction): Promise<void> {
+    if (tracked.expiryHeight) {
+      const info = await this.rpcClient.getBlockchainInfo().catch(() => null);
+      if (info && info.blocks > tracked.expiryHeight) {
+        this.expire(tracked);
+        return;
+      }
+    }
+
+    const rebroadcasts = tracked.rebroadcasts ?? 0;
+    if (tracked.status !== BroadcastTransactionStatus.NOT_FOUND || !tracked.rawTx || rebroadcasts >= this.maxRebroadcasts) {
+      return;
+    }
+
+    tracked.rebroadcasts = rebroadcasts + 1;
+    try {
+      await this.rpcClient.sendRawTransaction(tracked.rawTx);
+      tracked.status = BroadcastTransactionStatus.MEMPOOL;
+      tracked.error = undefined;
+      this.emit({ type: 'rebroadcast', tracked });
+    } catch (error) {
+      // Retried on the next check until the limit or the expiry height
+      tracked.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Mark a transaction expired and release the funds it reserved
+   */
+  private expire(tracked: TrackedTransaction): void {
+    const released = tracked.reservations;
+    tracked.status = BroadcastTransactionStatus.EXPIRED;
+    tracked.confirmations = 0;
+    tracked.reservations = undefined;
+    this.emit({ type: 'expired', tracked, released });
+  }
+
+  /**
+   * Build the confirmation result of a tracked transaction
+   */
+  private toResult(tracked: TrackedTransaction): ConfirmationResult {
+    return {
+      txid: tracked.txid,
+      confirmed: tracked.confirmations > 0,
+      confirmations: tracked.confirmations,
+      blockHeight: tracked.blockHeight,
+      blockHash: tracked.blockHash,
+      blockTime: tracked.blockTime,
+      finalStatus: tracked.status
+    };
+  }
+
+  /**
+   * Notify listeners of an event
+   */
+  private emit(event: TrackerEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not stop the others
+      }
+    }
   }
 }
 
@@ -345,6 +607,7 @@ export class TransactionTracker {
 export class BroadcastManager {
   private rpcClient: ZcashRpcClient;
   private tracker: TransactionTracker;
+  private serializer = new TransactionSerializer();
 
   constructor(rpcClient: ZcashRpcClient) {
     this.rpcClient = rpcClient;
@@ -369,10 +632,13 @@ export class BroadcastManager {
     tracked: boolean;
     trackingId: string;
   }> {
-    // Validate before broadcast
-    const isValid = await this.rpcClient.validateTransaction(hexTx);
-    if (!isValid) {
-      throw new Error('Transaction validation failed - invalid transaction format');
+    // Validate the encoding locally before broadcast
+    try {
+      this.serializer.deserialize(hexTx);
+    } catch (error) {
+      throw new Error(
+        `Transaction validation failed - invalid transaction format: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
 
     // Broadcast
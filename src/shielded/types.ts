@@ -42,12 +42,21 @@ export interface SaplingNote {
   
   /** Block height when note was created */
   blockHeight?: number;
+
+  /** Time of the block that created the note (seconds since epoch), when known */
+  blockTime?: number;
+
+  /** Transaction that created the note, when found by scanning */
+  txid?: string;
   
   /** Optional memo (512 bytes max) */
   memo?: Uint8Array;
   
   /** Whether note has been spent */
   spent: boolean;
+
+  /** Transaction that spent the note, when seen on chain */
+  spentTxid?: string;
 }
 
 /**
@@ -78,6 +87,19 @@ export interface SaplingSpendingKey {
   ovk: Uint8Array;
 }
 
+/**
+ * Sapling proof generation key
+ *
+ * All the spend circuit needs; without ask, its holder cannot authorize spends.
+ */
+export interface SaplingProofGenerationKey {
+  /** Ak - spend validating key (public) */
+  ak: Uint8Array;
+  
+  /** Nsk - nullifier private key */
+  nsk: Uint8Array;
+}
+
 /**
  * Sapling full viewing key
  */
@@ -174,6 +196,133 @@ export interface ShieldedBundle {
   bindingSig: Uint8Array;
 }
 
+/**
+ * Orchard action description (v5 transactions)
+ */
+export interface OrchardActionDescription {
+  /** Value commitment (cv_net) */
+  cv: Uint8Array;
+  
+  /** Nullifier of the spent note */
+  nullifier: Uint8Array;
+  
+  /** Randomized validating key (rk) */
+  rk: Uint8Array;
+  
+  /** Extracted note commitment (cmx) */
+  cmx: Uint8Array;
+  
+  /** Ephemeral public key for note encryption */
+  ephemeralKey: Uint8Array;
+  
+  /** Encrypted note ciphertext (580 bytes) */
+  encCiphertext: Uint8Array;
+  
+  /** Outgoing ciphertext (80 bytes) */
+  outCiphertext: Uint8Array;
+  
+  /** Spend authorization signature */
+  spendAuthSig: Uint8Array;
+}
+
+/**
+ * Orchard transaction components
+ */
+export interface OrchardBundle {
+  /** Orchard actions */
+  actions: OrchardActionDescription[];
+  
+  /** flagsOrchard (bit 0: spends enabled, bit 1: outputs enabled) */
+  flags: number;
+  
+  /** Value balance (net value flowing out of the Orchard pool) */
+  valueBalance: bigint;
+  
+  /** Anchor - root of the Orchard commitment tree */
+  anchor: Uint8Array;
+  
+  /** Aggregated Halo2 proof for all actions */
+  proof: Uint8Array;
+  
+  /** Binding signature */
+  bindingSig: Uint8Array;
+}
+
+/**
+ * Orchard note - represents a shielded value in the Orchard pool
+ */
+export interface OrchardNote {
+  /** Raw recipient address: diversifier (11 bytes) || pk_d (32 bytes) */
+  recipient: Uint8Array;
+  
+  /** Value in zatoshi */
+  value: number;
+  
+  /** rho - nullifier of the note spent in the creating action */
+  rho: Uint8Array;
+  
+  /** Random seed (rcm, psi and esk are derived from it) */
+  rseed: Uint8Array;
+  
+  /** Extracted note commitment (cmx) - leaf in the Orchard tree */
+  cmx: Uint8Array;
+  
+  /** Note nullifier (32 bytes), empty if the full viewing key is unknown */
+  nullifier: Uint8Array;
+  
+  /** Owning wallet address (a Unified Address with an Orchard receiver) */
+  address: string;
+  
+  /** Position in commitment tree */
+  position?: number;
+  
+  /** Witness/authentication path in Merkle tree */
+  witness?: MerkleWitness;
+  
+  /** Block height when note was created */
+  blockHeight?: number;
+  
+  /** Optional memo (512 bytes) */
+  memo?: Uint8Array;
+  
+  /** Whether note has been spent */
+  spent: boolean;
+}
+
+/**
+ * Scanned Orchard note result
+ */
+export interface ScannedOrchardNote {
+  /** Decrypted note */
+  note: OrchardNote;
+  
+  /** Block height */
+  blockHeight: number;
+  
+  /** Transaction index in block */
+  txIndex: number;
+  
+  /** Action index in transaction */
+  actionIndex: number;
+  
+  /** Whether this is an outgoing note (recovered with ovk) */
+  isOutgoing: boolean;
+}
+
+/**
+ * Parameters for an Orchard output
+ */
+export interface OrchardOutputParams {
+  /** Raw recipient address: diversifier (11 bytes) || pk_d (32 bytes) */
+  recipient: Uint8Array;
+  
+  /** Value in zatoshi */
+  value: number;
+  
+  /** Optional memo (up to 512 bytes) */
+  memo?: string | Uint8Array;
+}
+
 /**
  * Parameters for building a shielded output
  */
@@ -198,8 +347,8 @@ export interface NoteSpendParams {
   /** Note to spend */
   note: SaplingNote;
   
-  /** Spending key */
-  spendingKey: SaplingSpendingKey;
+  /** Spending key, or the full viewing key when building for a PCZT */
+  spendingKey: SaplingSpendingKey | SaplingFullViewingKey;
   
   /** Merkle witness for note */
   witness: MerkleWitness;
@@ -224,8 +373,8 @@ export interface SpendProofInputs {
   /** Note randomness (rcm) */
   rcm: Uint8Array;
   
-  /** Spending key ask */
-  ask: Uint8Array;
+  /** Spend validating key ak (with nsk, the proof generation key) */
+  ak: Uint8Array;
   
   /** Nullifier key nsk */
   nsk: Uint8Array;
@@ -321,6 +470,34 @@ export interface CompactNote {
   cv?: Uint8Array;
 }
 
+/**
+ * Orchard action data for scanning
+ * Compact blocks carry only the first 52 bytes of the note ciphertext;
+ * actions taken from full transactions carry the rest as well.
+ */
+export interface CompactOrchardNote {
+  /** Nullifier of the note spent in the action (rho of the created note) */
+  nullifier: Uint8Array;
+
+  /** Extracted note commitment (cmx) - leaf in the Orchard tree */
+  cmx: Uint8Array;
+
+  /** Ephemeral key for key agreement */
+  ephemeralKey: Uint8Array;
+
+  /** First 52 bytes of encrypted ciphertext (compact format) */
+  ciphertext: Uint8Array;
+
+  /** Full encrypted ciphertext (580 bytes) - optional for compact format */
+  encCiphertext?: Uint8Array;
+
+  /** Outgoing ciphertext (80 bytes) - for outgoing viewing key decryption */
+  outCiphertext?: Uint8Array;
+
+  /** Value commitment (cv_net) */
+  cv?: Uint8Array;
+}
+
 /**
  * Scanned note result
  */
@@ -339,6 +516,9 @@ export interface ScannedNote {
   
   /** Whether this is an outgoing note (sent by us) */
   isOutgoing: boolean;
+
+  /** Our address an outgoing note was sent from, when the scanner knows it */
+  sender?: string;
 }
 
 /**
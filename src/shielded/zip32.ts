@@ -0,0 +1,621 @@
+/**
+ * ZIP-32 Sapling Key Hierarchy
+ * Implements shielded hierarchical deterministic wallets for Sapling
+ *
+ * Key Derivation Hierarchy:
+ *
+ * Seed
+ *     ↓ BLAKE2b-512("ZcashIP32Sapling")
+ * Master ExtendedSpendingKey (ask, nsk, ovk, dk, chain code)
+ *     ↓ hardened child derivation
+ * m/32'/coin_type'/account'
+ *     ↓
+ * ExtendedFullViewingKey (ak, nk, ovk, dk)
+ *     ↓
+ * ├─→ Incoming viewing key ivk = CRH^ivk(ak, nk)
+ * └─→ Diversifiers d_j = FF1-AES256(dk, j) → payment addresses (d, [ivk] g_d)
+ *
+ * Extended keys use the standard 169-byte encoding so they can be imported
+ * into zcashd, zallet and mobile wallets.
+ *
+ * Reference: https://zips.z.cash/zip-0032
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import { blake2s } from '@noble/hashes/blake2s';
+import { jubjub, jubjub_groupHash } from '@noble/curves/misc';
+import { BinaryFF1 } from '@noble/ciphers/ff1.js';
+import type { Network } from '../types/index';
+import { concatBytes, numberToLEBytes } from '../utils/bytes';
+import { bech32Encode, bech32Decode } from '../utils/encoding';
+import { bytesToBigInt, bigIntToBytes } from './scalarArithmetic.js';
+import type { SaplingProofGenerationKey, SaplingSpendingKey } from './types.js';
+
+/**
+ * Hardened child index offset
+ */
+export const ZIP32_HARDENED_OFFSET = 0x80000000;
+
+/**
+ * ZIP-32 purpose field
+ */
+export const ZIP32_PURPOSE = 32;
+
+/**
+ * SLIP-44 coin types used in ZIP-32 paths
+ */
+export const ZIP32_COIN_TYPES: Record<Network, number> = {
+  mainnet: 133,
+  testnet: 1
+};
+
+/**
+ * Bech32 human-readable parts for Sapling extended keys
+ */
+export const SAPLING_EXTENDED_SPENDING_KEY_HRP: Record<Network, string> = {
+  mainnet: 'secret-extended-key-main',
+  testnet: 'secret-extended-key-test'
+};
+
+export const SAPLING_EXTENDED_FULL_VIEWING_KEY_HRP: Record<Network, string> = {
+  mainnet: 'zxviews',
+  testnet: 'zxviewtestsapling'
+};
+
+/**
+ * Encoded extended key length: depth(1) + tag(4) + index(4) + chain code(32) + key parts(128)
+ */
+const EXTENDED_KEY_LENGTH = 169;
+
+/**
+ * Number of diversifier indices (2^88)
+ */
+const MAX_DIVERSIFIER_INDEX = 1n << 88n;
+
+/**
+ * Order r_J of the Jubjub prime-order subgroup
+ */
+const JUBJUB_SUBGROUP_ORDER = jubjub.Point.CURVE().n;
+
+const textEncoder = new TextEncoder();
+
+type JubjubPoint = ReturnType<typeof jubjub_groupHash>;
+
+/**
+ * Spend authorization generator G and proof generation key generator H
+ */
+let spendAuthGenerator: JubjubPoint | null = null;
+let proofGenerationGenerator: JubjubPoint | null = null;
+
+/**
+ * FindGroupHash^J(D, ""): the first valid GroupHash(D, [i])
+ */
+function findGroupHash(personalization: string): JubjubPoint {
+  for (let i = 0; i < 256; i++) {
+    try {
+      return jubjub_groupHash(new Uint8Array([i]), textEncoder.encode(personalization));
+    } catch {
+      continue;
+    }
+  }
+  throw new Error(`No group hash found for ${personalization}`);
+}
+
+function getSpendAuthGenerator(): JubjubPoint {
+  if (!spendAuthGenerator) {
+    spendAuthGenerator = findGroupHash('Zcash_G_');
+  }
+  return spendAuthGenerator;
+}
+
+function getProofGenerationGenerator(): JubjubPoint {
+  if (!proofGenerationGenerator) {
+    proofGenerationGenerator = findGroupHash('Zcash_H_');
+  }
+  return proofGenerationGenerator;
+}
+
+/**
+ * PRF^expand(sk, t) = BLAKE2b-512("Zcash_ExpandSeed", sk || t)
+ */
+export function prfExpand(sk: Uint8Array, t: Uint8Array): Uint8Array {
+  return blake2b(concatBytes(sk, t), {
+    dkLen: 64,
+    personalization: textEncoder.encode('Zcash_ExpandSeed')
+  });
+}
+
+/**
+ * ToScalar(x) = LEOS2IP_512(x) mod r_J, as 32 little-endian bytes
+ */
+function toScalar(bytes: Uint8Array): Uint8Array {
+  return bigIntToBytes(bytesToBigInt(bytes) % JUBJUB_SUBGROUP_ORDER, 32);
+}
+
+/**
+ * (a + b) mod r_J for little-endian scalars
+ */
+function addScalars(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return bigIntToBytes((bytesToBigInt(a) + bytesToBigInt(b)) % JUBJUB_SUBGROUP_ORDER, 32);
+}
+
+/**
+ * Multiply a generator by a little-endian scalar and encode the point
+ */
+function scalarMultiply(generator: JubjubPoint, scalar: Uint8Array): Uint8Array {
+  const value = bytesToBigInt(scalar);
+  if (value === 0n) {
+    throw new Error('Invalid Sapling key: zero scalar');
+  }
+  return generator.multiply(value).toBytes();
+}
+
+/**
+ * Check a child index and report whether it is hardened
+ */
+function isHardenedIndex(index: number): boolean {
+  if (!Number.isInteger(index) || index < 0 || index > 0xFFFFFFFF) {
+    throw new Error(`Invalid ZIP-32 child index: ${index}`);
+  }
+  return index >= ZIP32_HARDENED_OFFSET;
+}
+
+/**
+ * Serialize the depth, parent tag, child index and chain code header
+ */
+function encodeExtendedKeyHeader(
+  depth: number,
+  parentFvkTag: Uint8Array,
+  childIndex: number,
+  chainCode: Uint8Array
+): Uint8Array {
+  return concatBytes(
+    new Uint8Array([depth]),
+    parentFvkTag,
+    numberToLEBytes(childIndex >>> 0, 4),
+    chainCode
+  );
+}
+
+/**
+ * Split an encoded extended key into its header fields and key parts
+ */
+function decodeExtendedKeyHeader(bytes: Uint8Array): {
+  depth: number;
+  parentFvkTag: Uint8Array;
+  childIndex: number;
+  chainCode: Uint8Array;
+  parts: Uint8Array[];
+} {
+  if (bytes.length !== EXTENDED_KEY_LENGTH) {
+    throw new Error(
+      `Invalid extended key length: expected ${EXTENDED_KEY_LENGTH} bytes, got ${bytes.length}`
+    );
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    depth: bytes[0],
+    parentFvkTag: bytes.slice(1, 5),
+    childIndex: view.getUint32(5, true),
+    chainCode: bytes.slice(9, 41),
+    parts: [bytes.slice(41, 73), bytes.slice(73, 105), bytes.slice(105, 137), bytes.slice(137, 169)]
+  };
+}
+
+/**
+ * Decode a Bech32 extended key and check its human-readable part
+ */
+function decodeBech32Key(
+  encoded: string,
+  hrps: Record<Network, string>,
+  kind: string
+): { network: Network; bytes: Uint8Array } {
+  const { hrp, data } = bech32Decode(encoded);
+  const network = (Object.keys(hrps) as Network[]).find(n => hrps[n] === hrp);
+  if (!network) {
+    throw new Error(`Invalid ${kind} prefix: ${hrp}`);
+  }
+  return { network, bytes: data };
+}
+
+/**
+ * Sapling payment address derived from an extended full viewing key
+ */
+export interface SaplingDiversifiedAddress {
+  /** Diversifier index j */
+  index: bigint;
+  /** Diversifier d_j (11 bytes) */
+  diversifier: Uint8Array;
+  /** Transmission key pk_d = [ivk] g_d (32 bytes) */
+  pkd: Uint8Array;
+}
+
+/**
+ * Compute the Sapling diversified base g_d = GroupHash("Zcash_gd", d)
+ *
+ * @returns The encoded point, or null if d is not a valid diversifier
+ */
+export function saplingDiversifiedBase(diversifier: Uint8Array): Uint8Array | null {
+  if (diversifier.length !== 11) {
+    throw new Error(`Invalid diversifier length: expected 11 bytes, got ${diversifier.length}`);
+  }
+  try {
+    return jubjub_groupHash(diversifier, textEncoder.encode('Zcash_gd')).toBytes();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the transmission key pk_d = [ivk] g_d of a diversified address
+ *
+ * @returns The encoded point, or null if d is not a valid diversifier
+ */
+export function saplingPaymentKey(ivk: Uint8Array, diversifier: Uint8Array): Uint8Array | null {
+  const gd = saplingDiversifiedBase(diversifier);
+  if (!gd) {
+    return null;
+  }
+  return jubjub.Point.fromBytes(gd).multiply(bytesToBigInt(ivk)).toBytes();
+}
+
+/**
+ * Compute the nullifier deriving key nk = [nsk] H
+ *
+ * nsk is reduced mod r_J, so any 32-byte value is accepted.
+ */
+export function saplingNullifierKey(nsk: Uint8Array): Uint8Array {
+  return scalarMultiply(getProofGenerationGenerator(), addScalars(nsk, new Uint8Array(32)));
+}
+
+/**
+ * Compute the spend validating key ak = [ask] G
+ *
+ * ask is reduced mod r_J, so any 32-byte value is accepted.
+ */
+export function saplingSpendValidatingKey(ask: Uint8Array): Uint8Array {
+  return scalarMultiply(getSpendAuthGenerator(), addScalars(ask, new Uint8Array(32)));
+}
+
+/**
+ * Proof generation key (ak, nsk) of a spending key
+ *
+ * Given to a prover in place of the spending key, which it must not hold.
+ */
+export function saplingProofGenerationKey(spendingKey: Pick<SaplingSpendingKey, 'ask' | 'nsk'>): SaplingProofGenerationKey {
+  return { ak: saplingSpendValidatingKey(spendingKey.ask), nsk: spendingKey.nsk.slice() };
+}
+
+/**
+ * Randomize a spend validating key: rk = ak + [alpha] G
+ *
+ * Equals [ask + alpha] G, the key spend authorization signatures made with
+ * ask + alpha verify under, so rk can be computed without ask.
+ */
+export function saplingRandomizedKey(ak: Uint8Array, alpha: Uint8Array): Uint8Array {
+  const randomizer = bytesToBigInt(alpha) % JUBJUB_SUBGROUP_ORDER;
+  const point = jubjub.Point.fromBytes(ak);
+  return (randomizer === 0n ? point : point.add(getSpendAuthGenerator().multiply(randomizer))).toBytes();
+}
+
+/**
+ * ZIP-32 Sapling extended spending key
+ */
+export class ExtendedSpendingKey {
+  constructor(
+    readonly depth: number,
+    readonly parentFvkTag: Uint8Array,
+    readonly childIndex: number,
+    readonly chainCode: Uint8Array,
+    readonly ask: Uint8Array,
+    readonly nsk: Uint8Array,
+    readonly ovk: Uint8Array,
+    readonly dk: Uint8Array
+  ) {}
+
+  /**
+   * Derive the master extended spending key from a seed
+   *
+   * @param seed - Seed bytes (32 to 252 bytes)
+   */
+  static fromSeed(seed: Uint8Array): ExtendedSpendingKey {
+    if (seed.length < 32 || seed.length > 252) {
+      throw new Error(`Invalid ZIP-32 seed length: ${seed.length} bytes`);
+    }
+
+    const I = blake2b(seed, { dkLen: 64, personalization: textEncoder.encode('ZcashIP32Sapling') });
+    const skM = I.slice(0, 32);
+
+    return new ExtendedSpendingKey(
+      0,
+      new Uint8Array(4),
+      0,
+      I.slice(32, 64),
+      toScalar(prfExpand(skM, new Uint8Array([0x00]))),
+      toScalar(prfExpand(skM, new Uint8Array([0x01]))),
+      prfExpand(skM, new Uint8Array([0x02])).slice(0, 32),
+      prfExpand(skM, new Uint8Array([0x10])).slice(0, 32)
+    );
+  }
+
+  /**
+   * Derive the account key m/32'/coin_type'/account'
+   */
+  static deriveAccount(seed: Uint8Array, network: Network, account: number): ExtendedSpendingKey {
+    if (!Number.isInteger(account) || account < 0 || account >= ZIP32_HARDENED_OFFSET) {
+      throw new Error(`Invalid ZIP-32 account index: ${account}`);
+    }
+    return ExtendedSpendingKey.fromSeed(seed).derivePath([
+      ZIP32_PURPOSE + ZIP32_HARDENED_OFFSET,
+      ZIP32_COIN_TYPES[network] + ZIP32_HARDENED_OFFSET,
+      account + ZIP32_HARDENED_OFFSET
+    ]);
+  }
+
+  /**
+   * Derive a child key (hardened if index >= ZIP32_HARDENED_OFFSET)
+   */
+  deriveChild(index: number): ExtendedSpendingKey {
+    const fvk = this.toExtendedFullViewingKey();
+
+    const keyParts = isHardenedIndex(index)
+      ? concatBytes(new Uint8Array([0x11]), this.ask, this.nsk, this.ovk, this.dk)
+      : concatBytes(new Uint8Array([0x12]), fvk.ak, fvk.nk, fvk.ovk, fvk.dk);
+    const I = prfExpand(this.chainCode, concatBytes(keyParts, numberToLEBytes(index >>> 0, 4)));
+    const IL = I.slice(0, 32);
+
+    return new ExtendedSpendingKey(
+      this.depth + 1,
+      fvk.tag(),
+      index,
+      I.slice(32, 64),
+      addScalars(toScalar(prfExpand(IL, new Uint8Array([0x13]))), this.ask),
+      addScalars(toScalar(prfExpand(IL, new Uint8Array([0x14]))), this.nsk),
+      prfExpand(IL, concatBytes(new Uint8Array([0x15]), this.ovk)).slice(0, 32),
+      prfExpand(IL, concatBytes(new Uint8Array([0x16]), this.dk)).slice(0, 32)
+    );
+  }
+
+  /**
+   * Derive a descendant key along a path of child indices
+   */
+  derivePath(path: number[]): ExtendedSpendingKey {
+    return path.reduce<ExtendedSpendingKey>((key, index) => key.deriveChild(index), this);
+  }
+
+  /**
+   * Derive the extended full viewing key (ak = [ask] G, nk = [nsk] H)
+   */
+  toExtendedFullViewingKey(): ExtendedFullViewingKey {
+    return new ExtendedFullViewingKey(
+      this.depth,
+      this.parentFvkTag,
+      this.childIndex,
+      this.chainCode,
+      scalarMultiply(getSpendAuthGenerator(), this.ask),
+      scalarMultiply(getProofGenerationGenerator(), this.nsk),
+      this.ovk,
+      this.dk
+    );
+  }
+
+  /**
+   * Serialize to the 169-byte ZIP-32 encoding
+   */
+  toBytes(): Uint8Array {
+    return concatBytes(
+      encodeExtendedKeyHeader(this.depth, this.parentFvkTag, this.childIndex, this.chainCode),
+      this.ask,
+      this.nsk,
+      this.ovk,
+      this.dk
+    );
+  }
+
+  /**
+   * Parse the 169-byte ZIP-32 encoding
+   */
+  static fromBytes(bytes: Uint8Array): ExtendedSpendingKey {
+    const { depth, parentFvkTag, childIndex, chainCode, parts } = decodeExtendedKeyHeader(bytes);
+    const [ask, nsk, ovk, dk] = parts;
+    if (bytesToBigInt(ask) >= JUBJUB_SUBGROUP_ORDER || bytesToBigInt(nsk) >= JUBJUB_SUBGROUP_ORDER) {
+      throw new Error('Invalid extended spending key: ask or nsk is not a canonical scalar');
+    }
+    return new ExtendedSpendingKey(depth, parentFvkTag, childIndex, chainCode, ask, nsk, ovk, dk);
+  }
+
+  /**
+   * Bech32 encoding (secret-extended-key-main / secret-extended-key-test)
+   */
+  encode(network: Network): string {
+    return bech32Encode(SAPLING_EXTENDED_SPENDING_KEY_HRP[network], this.toBytes());
+  }
+
+  /**
+   * Decode a Bech32 extended spending key
+   */
+  static decode(encoded: string): { network: Network; key: ExtendedSpendingKey } {
+    const { network, bytes } = decodeBech32Key(
+      encoded,
+      SAPLING_EXTENDED_SPENDING_KEY_HRP,
+      'extended spending key'
+    );
+    return { network, key: ExtendedSpendingKey.fromBytes(bytes) };
+  }
+}
+
+/**
+ * ZIP-32 Sapling extended full viewing key
+ */
+export class ExtendedFullViewingKey {
+  constructor(
+    readonly depth: number,
+    readonly parentFvkTag: Uint8Array,
+    readonly childIndex: number,
+    readonly chainCode: Uint8Array,
+    readonly ak: Uint8Array,
+    readonly nk: Uint8Array,
+    readonly ovk: Uint8Array,
+    readonly dk: Uint8Array
+  ) {}
+
+  /**
+   * Derive a non-hardened child key
+   *
+   * Hardened children can only be derived from the extended spending key.
+   */
+  deriveChild(index: number): ExtendedFullViewingKey {
+    if (isHardenedIndex(index)) {
+      throw new Error('Cannot derive a hardened child from an extended full viewing key');
+    }
+
+    const I = prfExpand(this.chainCode, concatBytes(
+      new Uint8Array([0x12]), this.ak, this.nk, this.ovk, this.dk,
+      numberToLEBytes(index, 4)
+    ));
+    const IL = I.slice(0, 32);
+
+    const ak = jubjub.Point.fromBytes(scalarMultiply(getSpendAuthGenerator(), toScalar(prfExpand(IL, new Uint8Array([0x13])))))
+      .add(jubjub.Point.fromBytes(this.ak));
+    const nk = jubjub.Point.fromBytes(scalarMultiply(getProofGenerationGenerator(), toScalar(prfExpand(IL, new Uint8Array([0x14])))))
+      .add(jubjub.Point.fromBytes(this.nk));
+
+    return new ExtendedFullViewingKey(
+      this.depth + 1,
+      this.tag(),
+      index,
+      I.slice(32, 64),
+      ak.toBytes(),
+      nk.toBytes(),
+      prfExpand(IL, concatBytes(new Uint8Array([0x15]), this.ovk)).slice(0, 32),
+      prfExpand(IL, concatBytes(new Uint8Array([0x16]), this.dk)).slice(0, 32)
+    );
+  }
+
+  /**
+   * Full viewing key fingerprint: BLAKE2b-256("ZcashSaplingFVFP", ak || nk || ovk)
+   */
+  fingerprint(): Uint8Array {
+    return blake2b(concatBytes(this.ak, this.nk, this.ovk), {
+      dkLen: 32,
+      personalization: textEncoder.encode('ZcashSaplingFVFP')
+    });
+  }
+
+  /**
+   * Full viewing key tag (first 4 bytes of the fingerprint)
+   */
+  tag(): Uint8Array {
+    return this.fingerprint().slice(0, 4);
+  }
+
+  /**
+   * Incoming viewing key ivk = BLAKE2s-256("Zcashivk", ak || nk) mod 2^251
+   */
+  incomingViewingKey(): Uint8Array {
+    const ivk = blake2s(concatBytes(this.ak, this.nk), {
+      dkLen: 32,
+      personalization: textEncoder.encode('Zcashivk')
+    });
+    ivk[31] &= 0x07;
+    return ivk;
+  }
+
+  /**
+   * Diversifier d_j = FF1-AES256.Encrypt(dk, "", I2LEBSP_88(j))
+   */
+  diversifier(index: bigint | number): Uint8Array {
+    const j = BigInt(index);
+    if (j < 0n || j >= MAX_DIVERSIFIER_INDEX) {
+      throw new Error(`Invalid diversifier index: ${j}`);
+    }
+    return BinaryFF1(this.dk).encrypt(bigIntToBytes(j, 11));
+  }
+
+  /**
+   * Diversifier index j of a diversifier, j = FF1-AES256.Decrypt(dk, "", d)
+   *
+   * Any 11 bytes decrypt to some index; whether the address is ours is
+   * decided by pk_d, not by this.
+   */
+  diversifierIndex(diversifier: Uint8Array): bigint {
+    if (diversifier.length !== 11) {
+      throw new Error(`Invalid diversifier length: expected 11 bytes, got ${diversifier.length}`);
+    }
+    return bytesToBigInt(BinaryFF1(this.dk).decrypt(diversifier));
+  }
+
+  /**
+   * Find the first valid payment address at or after a diversifier index
+   */
+  findAddress(startIndex: bigint | number = 0n): SaplingDiversifiedAddress {
+    const ivk = this.incomingViewingKey();
+    if (bytesToBigInt(ivk) === 0n) {
+      throw new Error('Invalid full viewing key: ivk is zero');
+    }
+
+    for (let index = BigInt(startIndex); index < MAX_DIVERSIFIER_INDEX; index++) {
+      const diversifier = this.diversifier(index);
+      const pkd = saplingPaymentKey(ivk, diversifier);
+      if (pkd) {
+        return { index, diversifier, pkd };
+      }
+    }
+
+    throw new Error('No valid diversifier found');
+  }
+
+  /**
+   * Default payment address (the first valid diversifier index)
+   */
+  defaultAddress(): SaplingDiversifiedAddress {
+    return this.findAddress(0n);
+  }
+
+  /**
+   * Serialize to the 169-byte ZIP-32 encoding
+   */
+  toBytes(): Uint8Array {
+    return concatBytes(
+      encodeExtendedKeyHeader(this.depth, this.parentFvkTag, this.childIndex, this.chainCode),
+      this.ak,
+      this.nk,
+      this.ovk,
+      this.dk
+    );
+  }
+
+  /**
+   * Parse the 169-byte ZIP-32 encoding
+   */
+  static fromBytes(bytes: Uint8Array): ExtendedFullViewingKey {
+    const { depth, parentFvkTag, childIndex, chainCode, parts } = decodeExtendedKeyHeader(bytes);
+    const [ak, nk, ovk, dk] = parts;
+    try {
+      jubjub.Point.fromBytes(ak);
+      jubjub.Point.fromBytes(nk);
+    } catch {
+      throw new Error('Invalid extended full viewing key: ak or nk is not a Jubjub point');
+    }
+    return new ExtendedFullViewingKey(depth, parentFvkTag, childIndex, chainCode, ak, nk, ovk, dk);
+  }
+
+  /**
+   * Bech32 encoding (zxviews / zxviewtestsapling)
+   */
+  encode(network: Network): string {
+    return bech32Encode(SAPLING_EXTENDED_FULL_VIEWING_KEY_HRP[network], this.toBytes());
+  }
+
+  /**
+   * Decode a Bech32 extended full viewing key
+   */
+  static decode(encoded: string): { network: Network; key: ExtendedFullViewingKey } {
+    const { network, bytes } = decodeBech32Key(
+      encoded,
+      SAPLING_EXTENDED_FULL_VIEWING_KEY_HRP,
+      'extended full viewing key'
+    );
+    return { network, key: ExtendedFullViewingKey.fromBytes(bytes) };
+  }
+}
@@ -0,0 +1,595 @@
+/**
+ * Transaction History
+ * Merges sent transactions, received notes and transparent UTXOs into one
+ * ledger per account
+ *
+ * Each entry is one transaction as seen by one account. Transactions built
+ * by this wallet are recorded when broadcast, with their fee, recipients
+ * and memo; scanning later confirms them. Transactions seen only on chain
+ * are assembled from what the account can observe: the notes and UTXOs it
+ * received, the notes it spent, and the outputs it sent (recovered with the
+ * outgoing viewing key). Every output and input is counted once, so
+ * re-scanning the same blocks leaves the ledger unchanged.
+ *
+ * The ledger is persisted as JSON to IndexedDB in browsers or to a file in
+ * Node.js.
+ */
+
+import { PersistedStore } from './persistedStore';
+import type { StateStorage } from './persistedStore';
+
+/**
+ * Value pool touched by a transaction
+ */
+export type HistoryPool = 'transparent' | 'sapling' | 'orchard';
+
+/**
+ * Direction of a transaction relative to the account
+ *
+ * - incoming: the account only received funds
+ * - outgoing: the account paid someone else
+ * - internal: funds moved between the account's own addresses or pools
+ *   (e.g. shielding); only the fee left the account
+ */
+export type HistoryDirection = 'incoming' | 'outgoing' | 'internal';
+
+/**
+ * Status of a transaction
+ */
+export type HistoryStatus = 'pending' | 'confirmed' | 'failed' | 'expired';
+
+/**
+ * Ledger entry
+ */
+export interface HistoryEntry {
+  txid: string;
+  accountId: string;
+  direction: HistoryDirection;
+  pools: HistoryPool[];
+  /** Change of the account's balance in zatoshi, fee included */
+  netValue: number;
+  /** Fee in zatoshi, known for transactions built by this wallet */
+  fee?: number;
+  /** Text memos of the transaction's shielded outputs */
+  memos: string[];
+  /** Addresses outside the account that were paid */
+  recipients: string[];
+  status: HistoryStatus;
+  blockHeight?: number;
+  /**
+   * Time of the block that mined the transaction; while pending, the
+   * broadcast time or the time it was first seen (ms since epoch)
+   */
+  timestamp: number;
+}
+
+/**
+ * History query; all filters are optional
+ */
+export interface HistoryQuery {
+  accountId?: string;
+  pool?: HistoryPool;
+  direction?: HistoryDirection;
+  status?: HistoryStatus;
+  /** Earliest timestamp, inclusive (ms since epoch) */
+  since?: number;
+  /** Latest timestamp, exclusive (ms since epoch) */
+  until?: number;
+  /** Entries to skip (default: 0) */
+  offset?: number;
+  /** Page size (default: 50) */
+  limit?: number;
+}
+
+/**
+ * Page of history entries, newest first
+ */
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  /** Number of entries matching the filters */
+  total: number;
+  offset: number;
+}
+
+/**
+ * Transaction built and broadcast by this wallet
+ */
+export interface SentTransactionRecord {
+  accountId: string;
+  txid: string;
+  pools: HistoryPool[];
+  /** Value paid to addresses outside the account */
+  amount: number;
+  fee: number;
+  recipients: string[];
+  memos?: string[];
+  timestamp?: number;
+}
+
+/**
+ * Persistence backend; stores the serialized ledger
+ */
+export type HistoryStorage = StateStorage;
+
+/**
+ * Stored ledger record
+ */
+interface LedgerRecord {
+  txid: string;
+  accountId: string;
+  pools: HistoryPool[];
+  /** Set for transactions built by this wallet; their values are authoritative */
+  local: boolean;
+  /** Observed value of outputs paying the account */
+  received: number;
+  /** Observed value of the account's inputs */
+  spent: number;
+  /** Value paid to others (local, or recovered with the ovk) */
+  sentValue: number;
+  fee?: number;
+  /** Outputs and inputs already counted */
+  outputKeys: string[];
+  inputKeys: string[];
+  memos: string[];
+  recipients: string[];
+  status: HistoryStatus;
+  blockHeight?: number;
+  timestamp: number;
+}
+
+/**
+ * Serialized ledger format
+ */
+interface SerializedHistory {
+  version: 1;
+  records: LedgerRecord[];
+}
+
+const DB_NAME = 'miden-zcash-history';
+const STORE_NAME = 'history';
+const LEDGER_KEY = 'ledger';
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * In-memory storage, for tests and environments without persistence
+ */
+export class MemoryHistoryStorage implements HistoryStorage {
+  private data: string | null = null;
+
+  async load(): Promise<string | null> {
+    return this.data;
+  }
+
+  async save(data: string): Promise<void> {
+    this.data = data;
+  }
+}
+
+/**
+ * IndexedDB storage for browsers
+ */
+export class IndexedDBHistoryStorage implements HistoryStorage {
+  private dbName: string;
+
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  private async getDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => reject(new Error(`Failed to open IndexedDB: ${request.error}`));
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+    });
+  }
+
+  async load(): Promise<string | null> {
+    const db = await this.getDB();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(LEDGER_KEY);
+      request.onerror = () => reject(new Error(`Failed to read history: ${request.error}`));
+      request.onsuccess = () => resolve(request.result ?? null);
+    });
+  }
+
+  async save(data: string): Promise<void> {
+    const db = await this.getDB();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(data, LEDGER_KEY);
+      request.onerror = () => reject(new Error(`Failed to write history: ${request.error}`));
+      request.onsuccess = () => resolve();
+    });
+  }
+}
+
+/**
+ * File storage for Node.js
+ *
+ * Writes go to a temporary file that replaces the ledger, so a crash never
+ * leaves a truncated ledger behind.
+ */
+export class FileHistoryStorage implements HistoryStorage {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<string | null> {
+    const fs = await import(/* webpackIgnore: true */ 'fs/promises');
+    try {
+      return await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(data: string): Promise<void> {
+    const fs = await import(/* webpackIgnore: true */ 'fs/promises');
+    const tempPath = `${this.path}.tmp`;
+    await fs.writeFile(tempPath, data, 'utf8');
+    await fs.rename(tempPath, this.path);
+  }
+}
+
+/**
+ * Default storage: IndexedDB in browsers, a file in Node.js when a path is
+ * given, memory otherwise
+ *
+ * @param dbName - IndexedDB database, for data other than the ledger
+ */
+export function createHistoryStorage(path?: string, dbName?: string): HistoryStorage {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBHistoryStorage(dbName);
+  }
+  return path ? new FileHistoryStorage(path) : new MemoryHistoryStorage();
+}
+
+/**
+ * Transaction History
+ */
+export class TransactionHistory {
+  private store: PersistedStore;
+  private records: Map<string, LedgerRecord> = new Map();
+  private initialized: boolean = false;
+
+  constructor(storage: HistoryStorage = new MemoryHistoryStorage()) {
+    this.store = new PersistedStore(storage, () => {
+      const state: SerializedHistory = { version: 1, records: Array.from(this.records.values()) };
+      return JSON.stringify(state);
+    });
+  }
+
+  /**
+   * Load the persisted ledger
+   *
+   * Entries recorded before loading are kept; persisted entries fill in
+   * the rest.
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const data = await this.store.load();
+      if (data) {
+        const state = JSON.parse(data) as SerializedHistory;
+        for (const record of state.records) {
+          const key = recordKey(record.accountId, record.txid);
+          if (!this.records.has(key)) {
+            this.records.set(key, record);
+          }
+        }
+      }
+      this.initialized = true;
+    } catch (error) {
+      throw new Error(`History initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Record a transaction this wallet broadcast
+   */
+  recordSent(sent: SentTransactionRecord): void {
+    const record = this.getOrCreate(sent.accountId, sent.txid);
+    record.local = true;
+    record.sentValue = sent.amount;
+    record.fee = sent.fee;
+    record.recipients = Array.from(new Set(sent.recipients));
+    record.memos = sent.memos ? [...sent.memos] : record.memos;
+    // A transaction already seen in a block keeps its block time
+    if (sent.timestamp !== undefined && record.blockHeight === undefined) {
+      record.timestamp = sent.timestamp;
+    }
+    sent.pools.forEach(pool => addUnique(record.pools, pool));
+    this.store.schedule();
+  }
+
+  /**
+   * Record an output paying the account
+   *
+   * @param outputKey - Unique output ID (outpoint, note commitment)
+   * @param blockHeight - Height of the transaction, if mined
+   * @param memo - Text memo of a shielded output
+   * @param blockTime - Time of the block that mined the transaction (seconds since epoch)
+   */
+  recordReceived(
+    accountId: string,
+    txid: string,
+    pool: HistoryPool,
+    outputKey: string,
+    value: number,
+    blockHeight?: number,
+    memo?: string,
+    blockTime?: number
+  ): void {
+    const record = this.getOrCreate(accountId, txid, blockTime);
+    addUnique(record.pools, pool);
+    if (!record.outputKeys.includes(outputKey)) {
+      record.outputKeys.push(outputKey);
+      record.received += value;
+      if (memo && !record.local) {
+        addUnique(record.memos, memo);
+      }
+    }
+    this.observeHeight(record, blockHeight, blockTime);
+    this.store.schedule();
+  }
+
+  /**
+   * Record an output the account paid to someone else
+   *
+   * Recovered from the outgoing viewing key; ignored for transactions
+   * recorded with recordSent, which already know their recipients.
+   *
+   * @param blockTime - Time of the block that mined the transaction (seconds since epoch)
+   */
+  recordSentOutput(
+    accountId: string,
+    txid: string,
+    pool: HistoryPool,
+    outputKey: string,
+    address: string,
+    value: number,
+    blockHeight?: number,
+    memo?: string,
+    blockTime?: number
+  ): void {
+    const record = this.getOrCreate(accountId, txid, blockTime);
+    addUnique(record.pools, pool);
+    if (!record.outputKeys.includes(outputKey)) {
+      record.outputKeys.push(outputKey);
+      if (!record.local) {
+        record.sentValue += value;
+        addUnique(record.recipients, address);
+        if (memo) {
+          addUnique(record.memos, memo);
+        }
+      }
+    }
+    this.observeHeight(record, blockHeight, blockTime);
+    this.store.schedule();
+  }
+
+  /**
+   * Record one of the account's outputs being spent
+   *
+   * @param inputKey - Unique ID of the spent output (outpoint, nullifier)
+   * @param blockTime - Time of the block that mined the spend (seconds since epoch)
+   */
+  recordSpent(
+    accountId: string,
+    txid: string,
+    pool: HistoryPool,
+    inputKey: string,
+    value: number,
+    blockHeight?: number,
+    blockTime?: number
+  ): void {
+    const record = this.getOrCreate(accountId, txid, blockTime);
+    addUnique(record.pools, pool);
+    if (!record.inputKeys.includes(inputKey)) {
+      record.inputKeys.push(inputKey);
+      record.spent += value;
+    }
+    this.observeHeight(record, blockHeight, blockTime);
+    this.store.schedule();
+  }
+
+  /**
+   * Update the status of a transaction for every account it touches
+   *
+   * @param blockTime - Time of the block that mined the transaction (seconds since epoch)
+   * @returns False if the transaction is not in the ledger
+   */
+  updateStatus(txid: string, status: HistoryStatus, blockHeight?: number, blockTime?: number): boolean {
+    let found = false;
+    for (const record of this.records.values()) {
+      if (record.txid === txid) {
+        record.status = status;
+        if (blockHeight !== undefined) {
+          record.blockHeight = blockHeight;
+        }
+        if (blockTime !== undefined) {
+          record.timestamp = blockTime * 1000;
+        }
+        found = true;
+      }
+    }
+    if (found) {
+      this.store.schedule();
+    }
+    return found;
+  }
+
+  /**
+   * Get the entry of a transaction for an account
+   */
+  get(accountId: string, txid: string): HistoryEntry | undefined {
+    const record = this.records.get(recordKey(accountId, txid));
+    return record ? toEntry(record) : undefined;
+  }
+
+  /**
+   * Query the ledger, newest first
+   */
+  query(query: HistoryQuery = {}): HistoryPage {
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.max(0, query.limit ?? DEFAULT_PAGE_SIZE);
+
+    const matching = Array.from(this.records.values(), toEntry)
+      .filter(entry =>
+        (query.accountId === undefined || entry.accountId === query.accountId) &&
+        (query.pool === undefined || entry.pools.includes(query.pool)) &&
+        (query.direction === undefined || entry.direction === query.direction) &&
+        (query.status === undefined || entry.status === query.status) &&
+        (query.since === undefined || entry.timestamp >= query.since) &&
+        (query.until === undefined || entry.timestamp < query.until)
+      )
+      .sort((a, b) => b.timestamp - a.timestamp || (b.blockHeight ?? Infinity) - (a.blockHeight ?? Infinity));
+
+    return {
+      entries: matching.slice(offset, offset + limit),
+      total: matching.length,
+      offset
+    };
+  }
+
+  /**
+   * Remove every entry of an account, or the whole ledger
+   */
+  clear(accountId?: string): void {
+    if (accountId === undefined) {
+      this.records.clear();
+    } else {
+      for (const [key, record] of this.records) {
+        if (record.accountId === accountId) {
+          this.records.delete(key);
+        }
+      }
+    }
+    this.store.schedule();
+  }
+
+  /**
+   * Wait until every change has been written to storage
+   *
+   * @throws If the last write failed after its retries
+   */
+  async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Get or create the record of a transaction for an account
+   *
+   * A new record is dated by its block time, and by the current time only
+   * while it is pending.
+   *
+   * @param blockTime - Time of the block that mined the transaction (seconds since epoch)
+   */
+  private getOrCreate(accountId: string, txid: string, blockTime?: number): LedgerRecord {
+    const key = recordKey(accountId, txid);
+    let record = this.records.get(key);
+    if (!record) {
+      record = {
+        txid,
+        accountId,
+        pools: [],
+        local: false,
+        received: 0,
+        spent: 0,
+        sentValue: 0,
+        outputKeys: [],
+        inputKeys: [],
+        memos: [],
+        recipients: [],
+        status: 'pending',
+        timestamp: blockTime !== undefined ? blockTime * 1000 : Date.now()
+      };
+      this.records.set(key, record);
+    }
+    return record;
+  }
+
+  /**
+   * A transaction seen in a block is confirmed, and dated by the block
+   */
+  private observeHeight(record: LedgerRecord, blockHeight?: number, blockTime?: number): void {
+    if (blockHeight !== undefined && blockHeight > 0) {
+      record.blockHeight = blockHeight;
+      record.status = 'confirmed';
+      if (blockTime !== undefined) {
+        record.timestamp = blockTime * 1000;
+      }
+    }
+  }
+}
+
+/**
+ * Ledger key of a transaction for an account
+ */
+function recordKey(accountId: string, txid: string): string {
+  return `${accountId}:${txid}`;
+}
+
+/**
+ * Append a value unless already present
+ */
+function addUnique<T>(list: T[], value: T): void {
+  if (!list.includes(value)) {
+    list.push(value);
+  }
+}
+
+/**
+ * Derive the public entry of a record
+ */
+function toEntry(record: LedgerRecord): HistoryEntry {
+  let netValue: number;
+  let direction: HistoryDirection;
+
+  if (record.local) {
+    netValue = -(record.sentValue + (record.fee ?? 0));
+    direction = record.sentValue > 0 ? 'outgoing' : 'internal';
+  } else {
+    netValue = record.received - record.spent;
+    if (record.spent === 0 && record.sentValue === 0) {
+      direction = 'incoming';
+    } else if (record.sentValue > 0 || record.received === 0) {
+      direction = 'outgoing';
+    } else {
+      direction = 'internal';
+    }
+  }
+
+  return {
+    txid: record.txid,
+    accountId: record.accountId,
+    direction,
+    pools: [...record.pools],
+    netValue,
+    fee: record.fee,
+    memos: [...record.memos],
+    recipients: [...record.recipients],
+    status: record.status,
+    blockHeight: record.blockHeight,
+    timestamp: record.timestamp
+  };
+}
@@ -3,4 +3,7 @@
  */
 
 export * from './utxo';
-
+export * from './transparentAccount';
+export * from './history';
+export * from './watchOnly';
+export * from './persistedStore';
@@ -0,0 +1,121 @@
+/**
+ * Persisted Store
+ * Serialized writes of a JSON document to a storage backend
+ *
+ * The history ledger, the transaction tracker, the memo read markers and
+ * the watch-only account list each keep their state in memory and write
+ * it out whole after a change. Changes made while a write is queued share
+ * that write, so writes never overlap or land out of order. A failed write
+ * is retried with a growing delay; if every attempt fails, the error is
+ * kept and thrown by flush() until a later write succeeds.
+ */
+
+/**
+ * Persistence backend; stores one serialized document
+ */
+export interface StateStorage {
+  load(): Promise<string | null>;
+  save(data: string): Promise<void>;
+}
+
+/**
+ * Write retry options
+ */
+export interface PersistedStoreOptions {
+  /** Attempts per write before the failure is reported (default 3) */
+  attempts?: number;
+
+  /** Delay before the first retry in milliseconds, doubled after each (default 200) */
+  retryDelayMs?: number;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 200;
+
+/**
+ * Queue of writes of one document to a storage backend
+ */
+export class PersistedStore {
+  private storage: StateStorage;
+  private serialize: () => string;
+  private attempts: number;
+  private retryDelayMs: number;
+  private saving: Promise<void> = Promise.resolve();
+  private saveQueued: boolean = false;
+  private lastError: Error | null = null;
+
+  /**
+   * @param storage - Backend the document is written to
+   * @param serialize - Produces the document from the current state when a write runs
+   */
+  constructor(storage: StateStorage, serialize: () => string, options: PersistedStoreOptions = {}) {
+    if (options.attempts !== undefined && (!Number.isInteger(options.attempts) || options.attempts < 1)) {
+      throw new Error(`Invalid write attempts: ${options.attempts}`);
+    }
+    this.storage = storage;
+    this.serialize = serialize;
+    this.attempts = options.attempts ?? DEFAULT_ATTEMPTS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Load the stored document
+   */
+  load(): Promise<string | null> {
+    return this.storage.load();
+  }
+
+  /**
+   * Queue a write of the current state; changes made meanwhile share the write
+   */
+  schedule(): void {
+    if (this.saveQueued) {
+      return;
+    }
+    this.saveQueued = true;
+    this.saving = this.saving.then(async () => {
+      this.saveQueued = false;
+      await this.write();
+    });
+  }
+
+  /**
+   * Wait until every queued write has run
+   *
+   * @throws The error of the last write if it failed every attempt
+   */
+  async flush(): Promise<void> {
+    await this.saving;
+    if (this.lastError) {
+      throw new Error(`Failed to persist state: ${this.lastError.message}`);
+    }
+  }
+
+  /**
+   * Error of the last write if it failed every attempt, null otherwise
+   */
+  getLastError(): Error | null {
+    return this.lastError;
+  }
+
+  /**
+   * Write the document, retrying failed attempts
+   */
+  private async write(): Promise<void> {
+    let delay = this.retryDelayMs;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.storage.save(this.serialize());
+        this.lastError = null;
+        return;
+      } catch (error) {
+        if (attempt >= this.attempts) {
+          this.lastError = error instanceof Error ? error : new Error(String(error));
+          return;
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+}
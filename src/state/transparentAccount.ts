@@ -0,0 +1,289 @@
+/**
+ * Transparent Account
+ * Tracks the BIP44 external and change chains of a transparent account
+ *
+ * Addresses are discovered with the BIP44 gap limit: a chain is scanned
+ * until `gapLimit` consecutive addresses after the last used one hold no
+ * UTXOs. Payments are received on fresh external addresses and change goes
+ * to fresh internal addresses, so one address never links several payments.
+ *
+ * An address counts as used once it is seen holding UTXOs or is marked used
+ * locally (e.g. as the change address of a built transaction). Addresses
+ * that were funded and later emptied before the first discovery on this
+ * device look unused, as neither listunspent nor getaddressutxos report
+ * spent outputs.
+ */
+
+import type { UTXO } from '../types/index';
+import type { TransparentAddressKey, TransparentChain } from '../crypto/keyDerivation';
+import { UTXOCache } from './utxo';
+
+/**
+ * Transparent account configuration
+ */
+export interface TransparentAccountConfig {
+  /** Consecutive unused addresses that end discovery on a chain */
+  gapLimit: number;
+}
+
+/**
+ * Derives consecutive keys on one chain of the account
+ */
+export type TransparentKeyDeriver = (
+  chain: TransparentChain,
+  startIndex: number,
+  count: number
+) => TransparentAddressKey[];
+
+/**
+ * Fetches the UTXOs of a batch of addresses (listunspent, getaddressutxos)
+ */
+export type TransparentUTXOFetcher = (addresses: string[]) => Promise<UTXO[]>;
+
+/**
+ * Discovery state of one chain
+ */
+export interface TransparentChainState {
+  /** Highest used address index, or -1 if none is used */
+  lastUsedIndex: number;
+  /** Number of addresses derived so far */
+  derivedCount: number;
+}
+
+/**
+ * Result of address discovery
+ */
+export interface TransparentDiscoveryResult {
+  external: TransparentChainState;
+  internal: TransparentChainState;
+  /** UTXOs found across all addresses of the account */
+  utxos: UTXO[];
+}
+
+const DEFAULT_CONFIG: TransparentAccountConfig = {
+  gapLimit: 20
+};
+
+const CHAINS: TransparentChain[] = ['external', 'internal'];
+
+/**
+ * Per-chain bookkeeping
+ */
+interface ChainRecord {
+  keys: TransparentAddressKey[];
+  lastUsedIndex: number;
+  /** Highest index handed out, or -1 */
+  lastIssuedIndex: number;
+}
+
+/**
+ * Transparent Account
+ *
+ * Keeps the derived keys of both chains, registers their addresses with the
+ * UTXO cache so balances aggregate across the account, and hands out fresh
+ * receiving and change addresses.
+ */
+export class TransparentAccount {
+  private readonly accountId: string;
+  private readonly deriveKeys: TransparentKeyDeriver;
+  private readonly fetchUTXOs: TransparentUTXOFetcher;
+  private readonly utxoCache: UTXOCache;
+  private readonly config: TransparentAccountConfig;
+  private chains: Record<TransparentChain, ChainRecord>;
+  private keysByAddress: Map<string, TransparentAddressKey> = new Map();
+
+  constructor(
+    accountId: string,
+    deriveKeys: TransparentKeyDeriver,
+    fetchUTXOs: TransparentUTXOFetcher,
+    utxoCache: UTXOCache,
+    config?: Partial<TransparentAccountConfig>
+  ) {
+    this.accountId = accountId;
+    this.deriveKeys = deriveKeys;
+    this.fetchUTXOs = fetchUTXOs;
+    this.utxoCache = utxoCache;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (!Number.isInteger(this.config.gapLimit) || this.config.gapLimit < 1) {
+      throw new Error(`Invalid gap limit: ${this.config.gapLimit}`);
+    }
+
+    this.chains = {
+      external: { keys: [], lastUsedIndex: -1, lastIssuedIndex: -1 },
+      internal: { keys: [], lastUsedIndex: -1, lastIssuedIndex: -1 }
+    };
+
+    // The default t-address (external index 0) is always part of the account
+    this.ensureDerived('external', 1);
+    this.registerAddresses();
+  }
+
+  /**
+   * Scan both chains for used addresses and refresh the UTXO cache
+   *
+   * @param currentHeight - Chain height, for UTXO confirmation heights
+   */
+  async discover(currentHeight: number): Promise<TransparentDiscoveryResult> {
+    const utxos: UTXO[] = [];
+
+    for (const chain of CHAINS) {
+      const record = this.chains[chain];
+      let scanned = 0;
+
+      // Each batch reaches gapLimit past the last used index; stop once a
+      // whole gap has been scanned without finding a newer used address
+      while (scanned <= record.lastUsedIndex + this.config.gapLimit) {
+        const end = record.lastUsedIndex + this.config.gapLimit;
+        this.ensureDerived(chain, end + 1);
+        const batch = record.keys.slice(scanned, end + 1);
+
+        const found = await this.fetchUTXOs(batch.map(key => key.address));
+        const byAddress = new Map<string, UTXO[]>();
+        for (const utxo of found) {
+          const list = byAddress.get(utxo.address) ?? [];
+          list.push(utxo);
+          byAddress.set(utxo.address, list);
+        }
+
+        for (const key of batch) {
+          const addressUtxos = byAddress.get(key.address) ?? [];
+          this.utxoCache.updateUTXOs(key.address, addressUtxos, currentHeight);
+          if (addressUtxos.length > 0) {
+            record.lastUsedIndex = Math.max(record.lastUsedIndex, key.index);
+            utxos.push(...addressUtxos);
+          }
+        }
+        scanned = end + 1;
+      }
+    }
+
+    this.registerAddresses();
+
+    return {
+      external: this.getChainState('external'),
+      internal: this.getChainState('internal'),
+      utxos
+    };
+  }
+
+  /**
+   * Hand out a fresh receiving address
+   */
+  getNextReceiveAddress(): string {
+    return this.issueAddress('external');
+  }
+
+  /**
+   * Hand out a fresh change address
+   */
+  getNextChangeAddress(): string {
+    return this.issueAddress('internal');
+  }
+
+  /**
+   * Mark an address as used, e.g. once a transaction paying it is built
+   */
+  markUsed(address: string): void {
+    const key = this.keysByAddress.get(address);
+    if (!key) {
+      return;
+    }
+    const record = this.chains[key.chain];
+    record.lastUsedIndex = Math.max(record.lastUsedIndex, key.index);
+  }
+
+  /**
+   * All derived addresses of the account, external chain first
+   */
+  getAddresses(): string[] {
+    return CHAINS.flatMap(chain => this.chains[chain].keys.map(key => key.address));
+  }
+
+  /**
+   * Check whether an address was derived for this account
+   */
+  isOwnAddress(address: string): boolean {
+    return this.keysByAddress.has(address);
+  }
+
+  /**
+   * Chain and index of a derived address
+   */
+  getKeyPath(address: string): { chain: TransparentChain; index: number } | undefined {
+    const key = this.keysByAddress.get(address);
+    return key ? { chain: key.chain, index: key.index } : undefined;
+  }
+
+  /**
+   * Private key of a derived address
+   */
+  getPrivateKey(address: string): Uint8Array | undefined {
+    return this.keysByAddress.get(address)?.privateKey;
+  }
+
+  /**
+   * Discovery state of a chain
+   */
+  getChainState(chain: TransparentChain): TransparentChainState {
+    const record = this.chains[chain];
+    return { lastUsedIndex: record.lastUsedIndex, derivedCount: record.keys.length };
+  }
+
+  /**
+   * Balance across all addresses of the account
+   */
+  getBalance(): { confirmed: number; unconfirmed: number; total: number } {
+    return this.utxoCache.getAccountBalance(this.accountId);
+  }
+
+  /**
+   * Wipe the derived private keys
+   */
+  wipe(): void {
+    for (const key of this.keysByAddress.values()) {
+      key.privateKey?.fill(0);
+    }
+  }
+
+  /**
+   * Return the next unissued, unused address of a chain
+   *
+   * Indices stay within the gap limit past the last used address so the
+   * account remains discoverable; once the gap is exhausted, the first
+   * unused address is handed out again.
+   */
+  private issueAddress(chain: TransparentChain): string {
+    const record = this.chains[chain];
+    let index = Math.max(record.lastUsedIndex, record.lastIssuedIndex) + 1;
+    if (index > record.lastUsedIndex + this.config.gapLimit) {
+      index = record.lastUsedIndex + 1;
+    }
+    record.lastIssuedIndex = index;
+
+    this.ensureDerived(chain, index + 1);
+    this.registerAddresses();
+    return record.keys[index].address;
+  }
+
+  /**
+   * Derive keys until a chain holds at least count of them
+   */
+  private ensureDerived(chain: TransparentChain, count: number): void {
+    const record = this.chains[chain];
+    if (record.keys.length >= count) {
+      return;
+    }
+    const keys = this.deriveKeys(chain, record.keys.length, count - record.keys.length);
+    for (const key of keys) {
+      record.keys.push(key);
+      this.keysByAddress.set(key.address, key);
+    }
+  }
+
+  /**
+   * Register every derived address with the UTXO cache
+   */
+  private registerAddresses(): void {
+    this.utxoCache.setAccountAddresses(this.accountId, this.getAddresses());
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import type { UTXO } from '../types/index';
+import { computeConventionalFee } from '../transactions/fees';
 
 /**
  * UTXO with additional metadata
@@ -79,6 +80,8 @@ function utxoKey(txid: string, vout: number): string {
  */
 export class UTXOCache {
   private cache: Map<string, AddressUTXOSet> = new Map();
+  private accountAddresses: Map<string, string[]> = new Map();
+  private listeners: Set<(address: string) => void> = new Set();
   private config: UTXOCacheConfig;
 
   constructor(config?: Partial<UTXOCacheConfig>) {
@@ -186,6 +189,7 @@ export class UTXOCache {
     set.lastUpdated = Date.now();
     set.totalConfirmed = totalConfirmed;
     set.totalUnconfirmed = totalUnconfirmed;
+    this.notify(address);
   }
 
   /**
@@ -221,6 +225,7 @@ export class UTXOCache {
     }
 
     set.lastUpdated = Date.now();
+    this.notify(address);
   }
 
   /**
@@ -228,6 +233,7 @@ export class UTXOCache {
    */
   clearAddress(address: string): void {
     this.cache.delete(address);
+    this.notify(address);
   }
 
   /**
@@ -254,6 +260,7 @@ export class UTXOCache {
       set.totalUnconfirmed -= entry.amount;
     }
 
+    this.notify(address);
     return true;
   }
 
@@ -287,6 +294,7 @@ export class UTXOCache {
       entry.lockedBy = txid;
     }
 
+    this.notify(address);
     return true;
   }
 
@@ -305,6 +313,7 @@ export class UTXOCache {
         entry.lockedBy = undefined;
       }
     }
+    this.notify(address);
   }
 
   /**
@@ -323,6 +332,51 @@ export class UTXOCache {
     };
   }
 
+  /**
+   * Set the transparent addresses that make up an account
+   *
+   * Replaces any addresses registered for the account before.
+   */
+  setAccountAddresses(accountId: string, addresses: string[]): void {
+    this.accountAddresses.set(accountId, Array.from(new Set(addresses)));
+  }
+
+  /**
+   * Get the transparent addresses registered for an account
+   */
+  getAccountAddresses(accountId: string): string[] {
+    return [...(this.accountAddresses.get(accountId) ?? [])];
+  }
+
+  /**
+   * Get UTXOs across all addresses of an account
+   */
+  getAccountUTXOs(accountId: string): UTXOEntry[] {
+    return this.getAccountAddresses(accountId).flatMap(address => this.getUTXOs(address));
+  }
+
+  /**
+   * Get spendable UTXOs across all addresses of an account
+   */
+  getAccountSpendableUTXOs(accountId: string, currentHeight: number): UTXOEntry[] {
+    return this.getAccountAddresses(accountId)
+      .flatMap(address => this.getSpendableUTXOs(address, currentHeight));
+  }
+
+  /**
+   * Get balance across all addresses of an account
+   */
+  getAccountBalance(accountId: string): { confirmed: number; unconfirmed: number; total: number } {
+    let confirmed = 0;
+    let unconfirmed = 0;
+    for (const address of this.getAccountAddresses(accountId)) {
+      const balance = this.getBalance(address);
+      confirmed += balance.confirmed;
+      unconfirmed += balance.unconfirmed;
+    }
+    return { confirmed, unconfirmed, total: confirmed + unconfirmed };
+  }
+
   /**
    * Check if cache is valid (not expired)
    */
@@ -348,6 +402,29 @@ export class UTXOCache {
     this.cache.clear();
   }
 
+  /**
+   * Listen for changes to the UTXOs of any address
+   *
+   * @returns Function that removes the listener
+   */
+  onUpdate(listener: (address: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Notify listeners that the UTXOs of an address changed
+   */
+  private notify(address: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(address);
+      } catch {
+        // A failing listener must not break cache updates
+      }
+    }
+  }
+
   /**
    * Evict oldest UTXOs from set
    */
@@ -376,12 +453,11 @@ export class UTXOSelector {
   }
 
   /**
-   * Select UTXOs to cover an amount
+   * Select UTXOs to cover an amount plus the ZIP-317 fee
    */
   select(
     address: string,
     amount: number,
-    feeRate: number,
     currentHeight: number,
     strategy: UTXOSelectionStrategy = 'largest-first'
   ): UTXOSelectionResult {
@@ -394,20 +470,15 @@ export class UTXOSelector {
     // Sort by strategy
     const sorted = this.sortByStrategy(spendable, strategy);
 
-    // Estimate fee for transaction
-    const baseFee = this.estimateBaseFee(feeRate);
-    const feePerInput = this.estimateFeePerInput(feeRate);
-    const feePerOutput = this.estimateFeePerOutput(feeRate);
-
     // Select UTXOs
     const selected: UTXOEntry[] = [];
     let total = 0;
-    let estimatedFee = baseFee + feePerOutput * 2; // 2 outputs (recipient + change)
+    let estimatedFee = this.estimateFee(1, 2); // 2 outputs (recipient + change)
 
     for (const utxo of sorted) {
       selected.push(utxo);
       total += utxo.amount;
-      estimatedFee += feePerInput;
+      estimatedFee = this.estimateFee(selected.length, 2);
 
       // Check if we have enough
       if (total >= amount + estimatedFee) {
@@ -438,7 +509,6 @@ export class UTXOSelector {
   selectExact(
     address: string,
     amount: number,
-    feeRate: number,
     currentHeight: number,
     tolerance: number = 1000 // Allow up to 1000 zatoshi overpayment as fee
   ): UTXOSelectionResult | null {
@@ -447,16 +517,13 @@ export class UTXOSelector {
     // Try to find combination that matches exactly
     // This is a simplified version - full implementation would use
     // branch and bound algorithm
-    const baseFee = this.estimateBaseFee(feeRate);
-    const feePerInput = this.estimateFeePerInput(feeRate);
-    const feePerOutput = this.estimateFeePerOutput(feeRate);
 
     // Sort by amount
     const sorted = [...spendable].sort((a, b) => b.amount - a.amount);
 
     // Try combinations (simplified greedy approach)
     for (let numInputs = 1; numInputs <= Math.min(sorted.length, 10); numInputs++) {
-      const fee = baseFee + feePerOutput + (numInputs * feePerInput);
+      const fee = this.estimateFee(numInputs, 1);
       const target = amount + fee;
 
       // Try to find combination summing to target
@@ -540,27 +607,13 @@ export class UTXOSelector {
   }
 
   /**
-   * Estimate base fee (version, locktime, etc.)
-   */
-  private estimateBaseFee(feeRate: number): number {
-    const baseSize = 10; // bytes
-    return baseSize * feeRate;
-  }
-
-  /**
-   * Estimate fee per input
+   * Estimate the ZIP-317 fee for a P2PKH transaction
    */
-  private estimateFeePerInput(feeRate: number): number {
-    const inputSize = 148; // P2PKH input size
-    return inputSize * feeRate;
-  }
-
-  /**
-   * Estimate fee per output
-   */
-  private estimateFeePerOutput(feeRate: number): number {
-    const outputSize = 34; // P2PKH output size
-    return outputSize * feeRate;
+  private estimateFee(numInputs: number, numOutputs: number): number {
+    return computeConventionalFee({
+      transparentInputs: numInputs,
+      transparentOutputs: numOutputs
+    });
   }
 }
 
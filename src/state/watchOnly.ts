@@ -0,0 +1,159 @@
+/**
+ * Watch-Only Accounts
+ * Keeps the list of accounts imported from viewing keys
+ *
+ * A watch-only account is created from a Sapling incoming or full viewing
+ * key, or a transparent account xpub. It syncs and shows balances and
+ * history like a derived account, but holds no spending key. The list is
+ * persisted as JSON to IndexedDB in browsers or to a file in Node.js; the
+ * key material is decoded again from the stored viewing key on load.
+ */
+
+import type { ViewingKeyKind } from '../crypto/viewingKeys';
+import { MemoryHistoryStorage } from './history';
+import { PersistedStore } from './persistedStore';
+import type { StateStorage } from './persistedStore';
+
+/**
+ * Account imported from a viewing key
+ */
+export interface WatchOnlyAccount {
+  id: string;
+
+  /** Display name, e.g. "Cold storage" */
+  label?: string;
+
+  kind: ViewingKeyKind;
+
+  /** The viewing key as imported */
+  viewingKey: string;
+
+  /** Sapling address notes are attributed to (ivk and fvk imports) */
+  zAddress?: string;
+
+  /** Default transparent address (xpub imports) */
+  tAddress?: string;
+
+  /** First block that can contain the account's funds, if known */
+  birthdayHeight?: number;
+
+  /** When the account was imported (ms since epoch) */
+  importedAt: number;
+}
+
+/**
+ * Serialized account list
+ */
+interface SerializedWatchOnlyAccounts {
+  version: 1;
+  accounts: WatchOnlyAccount[];
+}
+
+/**
+ * Watch-Only Account Store
+ */
+export class WatchOnlyAccountStore {
+  private store: PersistedStore;
+  private accounts: Map<string, WatchOnlyAccount> = new Map();
+  private initialized: boolean = false;
+
+  constructor(storage: StateStorage = new MemoryHistoryStorage()) {
+    this.store = new PersistedStore(storage, () => {
+      const state: SerializedWatchOnlyAccounts = { version: 1, accounts: Array.from(this.accounts.values()) };
+      return JSON.stringify(state);
+    });
+  }
+
+  /**
+   * Load the persisted account list
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const data = await this.store.load();
+      if (data) {
+        const state = JSON.parse(data) as SerializedWatchOnlyAccounts;
+        for (const account of state.accounts) {
+          if (!this.accounts.has(account.id)) {
+            this.accounts.set(account.id, account);
+          }
+        }
+      }
+      this.initialized = true;
+    } catch (error) {
+      throw new Error(`Watch-only accounts initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Add an account
+   */
+  add(account: WatchOnlyAccount): void {
+    if (this.accounts.has(account.id)) {
+      throw new Error(`Watch-only account already exists: ${account.id}`);
+    }
+    this.accounts.set(account.id, { ...account });
+    this.store.schedule();
+  }
+
+  /**
+   * Change the label or birthday height of an account
+   */
+  update(id: string, changes: Partial<Pick<WatchOnlyAccount, 'label' | 'birthdayHeight'>>): WatchOnlyAccount {
+    const account = this.accounts.get(id);
+    if (!account) {
+      throw new Error(`Watch-only account not found: ${id}`);
+    }
+    Object.assign(account, changes);
+    this.store.schedule();
+    return { ...account };
+  }
+
+  /**
+   * Remove an account
+   *
+   * @returns Whether the account existed
+   */
+  remove(id: string): boolean {
+    const removed = this.accounts.delete(id);
+    if (removed) {
+      this.store.schedule();
+    }
+    return removed;
+  }
+
+  /**
+   * Get an account
+   */
+  get(id: string): WatchOnlyAccount | undefined {
+    const account = this.accounts.get(id);
+    return account ? { ...account } : undefined;
+  }
+
+  /**
+   * Check whether an account is watch-only
+   */
+  has(id: string): boolean {
+    return this.accounts.has(id);
+  }
+
+  /**
+   * All accounts, oldest import first
+   */
+  list(): WatchOnlyAccount[] {
+    return Array.from(this.accounts.values(), account => ({ ...account }))
+      .sort((a, b) => a.importedAt - b.importedAt);
+  }
+
+  /**
+   * Wait until pending changes are written
+   *
+   * @throws If the last write failed after its retries
+   */
+  async flush(): Promise<void> {
+    await this.store.flush();
+  }
+}
@@ -10,6 +10,9 @@ import type {
   Network
 } from '../types/index';
 import { ZcashRPCClient } from '../rpc/client';
+import { getTransactionVersion } from './consensus';
+import { computeConventionalFee, getTransparentOutputsSize } from './fees';
+import type { FeeActionCounts } from './fees';
 
 /**
  * Transaction builder configuration
@@ -17,8 +20,6 @@ import { ZcashRPCClient } from '../rpc/client';
 export interface TransactionBuilderConfig {
   network: Network;
   rpcClient: ZcashRPCClient;
-  feeRate?: number; // zatoshi per byte
-  minimumFee?: number; // minimum fee in zatoshi
 }
 
 /**
@@ -26,44 +27,54 @@ export interface TransactionBuilderConfig {
  */
 export class ZcashTransactionBuilder {
   private config: Required<TransactionBuilderConfig>;
-  private readonly BASE_TRANSACTION_SIZE = 10;
-  private readonly INPUT_SIZE = 148; // Approximate
-  private readonly OUTPUT_SIZE = 34; // Approximate
 
   constructor(config: TransactionBuilderConfig) {
     this.config = {
       network: config.network,
-      rpcClient: config.rpcClient,
-      feeRate: config.feeRate || 1000, // Default 1000 zatoshi per byte
-      minimumFee: config.minimumFee || 1000
+      rpcClient: config.rpcClient
     };
   }
 
   /**
    * Build transparent transaction (t-to-t)
+   *
+   * @param changeAddress - Address for the change output; without one, any
+   *                        value above outputs and fee is left to the fee
    */
   async buildTransparentTransaction(
     inputs: TransparentInput[],
     outputs: TransparentOutput[],
-    fee?: number
+    fee?: number,
+    changeAddress?: string
   ): Promise<Transaction> {
-    // Calculate fee if not provided
-    const calculatedFee = fee || await this.estimateFee(inputs, outputs);
+    // Calculate the ZIP-317 fee if not provided, counting the change output
+    const feeOutputs = changeAddress
+      ? [...outputs, { address: changeAddress, value: 0, scriptPubKey: '' }]
+      : outputs;
+    const calculatedFee = fee || await this.estimateFee(inputs, feeOutputs);
 
     // Adjust outputs to account for fee
     const adjustedOutputs = this.adjustOutputsForFee(outputs, calculatedFee, inputs, outputs);
+    const change = changeAddress
+      ? this.calculateChange(inputs, adjustedOutputs, calculatedFee, changeAddress)
+      : null;
 
     // Get current block height for expiry
     const currentHeight = await this.config.rpcClient.getBlockCount();
     const expiryHeight = currentHeight + 20; // Expire in 20 blocks
 
+    // v5 after NU5 activation, v4 before (branch ID from the next block's upgrade)
+    const { version, versionGroupId, consensusBranchId } =
+      getTransactionVersion(this.config.network, currentHeight + 1);
+
     return {
-      version: 4,
-      versionGroupId: 0x892F2085, // Zcash v4 version group ID
+      version,
+      versionGroupId,
+      consensusBranchId,
       lockTime: 0,
       expiryHeight,
       transparentInputs: inputs,
-      transparentOutputs: adjustedOutputs,
+      transparentOutputs: change ? [...adjustedOutputs, change] : adjustedOutputs,
       valueBalance: 0
     };
   }
@@ -71,22 +82,37 @@ export class ZcashTransactionBuilder {
   /**
    * Select UTXOs for transaction
    * 
+   * @param address - Address to spend from, or all addresses of an account; each
+   *                  selected input records the address it spends from
+   * @param fee - Fixed fee; when omitted the ZIP-317 fee is recomputed as inputs are selected
    * @param utxoCache - Optional UTXO cache to use instead of RPC
+   * @param feeActions - Non-input components of the transaction, for the ZIP-317 fee
+   *                     (default: two transparent outputs, recipient + change)
    */
   async selectUTXOs(
-    address: string,
+    address: string | string[],
     amount: number,
     fee?: number,
-    utxoCache?: { getUTXOs: (address: string) => Array<{ txid: string; vout: number; amount: number; scriptPubKey: string; confirmations: number }> }
+    utxoCache?: { getUTXOs: (address: string) => Array<{ txid: string; vout: number; address?: string; amount: number; scriptPubKey: string; confirmations: number }> },
+    feeActions: FeeActionCounts = { transparentOutputs: 2 }
   ): Promise<TransparentInput[]> {
     // Log to diagnose unit mismatch issue
     console.log(`[TransactionBuilder] selectUTXOs called with: amount=${amount}, amount type=${typeof amount}, fee=${fee}`);
 
-    let utxos: Array<{ txid: string; vout: number; amount: number; scriptPubKey: string; confirmations: number }> = [];
+    const addresses = Array.isArray(address) ? address : [address];
+    if (addresses.length === 0) {
+      throw new Error('No addresses to select UTXOs from');
+    }
+    // First address, for log and error messages
+    const primaryAddress = addresses[0];
+
+    let utxos: Array<{ txid: string; vout: number; address?: string; amount: number; scriptPubKey: string; confirmations: number }> = [];
 
     // Try UTXO cache first if available
     if (utxoCache) {
-      const cachedUtxos = utxoCache.getUTXOs(address);
+      const cachedUtxos = addresses.flatMap(addr =>
+        utxoCache.getUTXOs(addr).map(utxo => ({ ...utxo, address: addr }))
+      );
       if (cachedUtxos.length > 0) {
         utxos = cachedUtxos.map(utxo => {
           // Check if amount is in ZEC format (less than 1 and looks like decimal) and convert
@@ -100,13 +126,14 @@ export class ZcashTransactionBuilder {
           return {
             txid: utxo.txid,
             vout: utxo.vout,
+            address: utxo.address,
             amount: amount,
             scriptPubKey: utxo.scriptPubKey,
             confirmations: utxo.confirmations || 0
           };
         });
         const totalCached = utxos.reduce((sum, u) => sum + u.amount, 0);
-        console.log(`[TransactionBuilder] Found ${utxos.length} UTXO(s) in cache for ${address.substring(0, 20)}..., total: ${totalCached} zatoshi (${(totalCached / 100000000).toFixed(8)} ZEC)`);
+        console.log(`[TransactionBuilder] Found ${utxos.length} UTXO(s) in cache for ${primaryAddress.substring(0, 20)}..., total: ${totalCached} zatoshi (${(totalCached / 100000000).toFixed(8)} ZEC)`);
       }
     }
     
@@ -117,18 +144,20 @@ export class ZcashTransactionBuilder {
     if (utxos.length === 0 || hasInvalidAmounts) {
       if (hasInvalidAmounts) {
         console.warn(`[TransactionBuilder] Cached UTXOs have ZEC amounts (detected amounts < 1), clearing cache and fetching fresh from RPC`);
-        // Clear cache for this address if it has invalid amounts
+        // Clear cache for these addresses if they have invalid amounts
         if (utxoCache && typeof (utxoCache as any).clearAddress === 'function') {
-          (utxoCache as any).clearAddress(address);
-          console.log(`[TransactionBuilder] Cleared cache for ${address.substring(0, 20)}...`);
+          for (const addr of addresses) {
+            (utxoCache as any).clearAddress(addr);
+          }
+          console.log(`[TransactionBuilder] Cleared cache for ${primaryAddress.substring(0, 20)}...`);
         }
         utxos = [];
       }
       
-      console.log(`[TransactionBuilder] No UTXOs in cache or invalid amounts, fetching from RPC for ${address.substring(0, 20)}...`);
+      console.log(`[TransactionBuilder] No UTXOs in cache or invalid amounts, fetching from RPC for ${primaryAddress.substring(0, 20)}...`);
       try {
-        utxos = await this.config.rpcClient.listUnspent(1, 9999999, [address]);
-        console.log(`[TransactionBuilder] RPC returned ${utxos.length} UTXO(s) for ${address.substring(0, 20)}...`);
+        utxos = await this.config.rpcClient.listUnspent(1, 9999999, addresses);
+        console.log(`[TransactionBuilder] RPC returned ${utxos.length} UTXO(s) for ${primaryAddress.substring(0, 20)}...`);
         
         if (utxos.length > 0) {
           // Verify amounts are in zatoshi (should be converted by listUnspent)
@@ -164,8 +193,13 @@ export class ZcashTransactionBuilder {
         if (utxos.length > 0 && utxoCache && typeof (utxoCache as any).updateUTXOs === 'function') {
           try {
             const blockCount = await this.config.rpcClient.getBlockCount();
-            (utxoCache as any).updateUTXOs(address, utxos, blockCount);
-            console.log(`[TransactionBuilder] Updated UTXO cache with ${utxos.length} UTXO(s) for ${address.substring(0, 20)}...`);
+            for (const addr of addresses) {
+              const addressUtxos = addresses.length === 1
+                ? utxos
+                : utxos.filter(utxo => utxo.address === addr);
+              (utxoCache as any).updateUTXOs(addr, addressUtxos, blockCount);
+            }
+            console.log(`[TransactionBuilder] Updated UTXO cache with ${utxos.length} UTXO(s) for ${primaryAddress.substring(0, 20)}...`);
           } catch (cacheError) {
             console.warn('[TransactionBuilder] Failed to update UTXO cache:', cacheError);
             // Continue anyway - we have UTXOs from RPC
@@ -185,7 +219,7 @@ export class ZcashTransactionBuilder {
             `3. For testing: Manually add UTXOs to cache using developer console\n\n` +
             `Development workaround:\n` +
             `Open browser console and run:\n` +
-            `  window.__zcashProvider?.utxoCache?.addUTXO('${address}', {txid: '...', vout: 0, amount: ..., scriptPubKey: '...', confirmations: 6}, ${await this.config.rpcClient.getBlockCount()})`
+            `  window.__zcashProvider?.utxoCache?.addUTXO('${primaryAddress}', {txid: '...', vout: 0, amount: ..., scriptPubKey: '...', confirmations: 6}, ${await this.config.rpcClient.getBlockCount()})`
           );
         }
         throw error;
@@ -193,7 +227,7 @@ export class ZcashTransactionBuilder {
     }
 
     if (utxos.length === 0) {
-      let errorMessage = `No UTXOs available for address ${address.slice(0, 20)}...\n\n`;
+      let errorMessage = `No UTXOs available for address ${primaryAddress.slice(0, 20)}...\n\n`;
       errorMessage += `To send transparent transactions, you need UTXOs.\n\n`;
       errorMessage += `Possible causes:\n`;
       errorMessage += `1. The address has not received any funds\n`;
@@ -201,7 +235,7 @@ export class ZcashTransactionBuilder {
       errorMessage += `3. The transaction is still confirming\n\n`;
       errorMessage += `Solutions:\n`;
       errorMessage += `1. Click "Sync Transparent Address" in the wallet UI\n`;
-      errorMessage += `2. Import the address into your local node: importaddress "${address}"\n`;
+      errorMessage += `2. Import the address into your local node: importaddress "${primaryAddress}"\n`;
       errorMessage += `3. Wait for transactions to confirm (6+ confirmations recommended)\n\n`;
       errorMessage += `Note: For local zcashd nodes, addresses must be imported before listunspent can find UTXOs.`;
       
@@ -214,7 +248,8 @@ export class ZcashTransactionBuilder {
     // Select sufficient UTXOs
     const selected: TransparentInput[] = [];
     let total = 0;
-    const estimatedFee = fee || this.config.minimumFee;
+    // ZIP-317 fee for a single input, raised as inputs are added
+    let estimatedFee = fee || computeConventionalFee({ ...feeActions, transparentInputs: 1 });
 
     console.log(`[TransactionBuilder] Selecting UTXOs: ${utxos.length} available, need ${amount} zatoshi + ${estimatedFee} zatoshi fee = ${amount + estimatedFee} zatoshi`);
     
@@ -242,10 +277,17 @@ export class ZcashTransactionBuilder {
         index: utxo.vout,
         scriptPubKey: utxo.scriptPubKey,
         value: utxo.amount,
-        sequence: 0xFFFFFFFF // Default sequence
+        sequence: 0xFFFFFFFF, // Default sequence
+        address: utxo.address ?? primaryAddress
       });
 
       total += utxo.amount;
+      if (!fee) {
+        estimatedFee = computeConventionalFee({
+          ...feeActions,
+          transparentInputs: selected.length
+        });
+      }
       console.log(`[TransactionBuilder] Selected UTXO: ${utxo.txid.substring(0, 16)}... vout ${utxo.vout}, amount: ${utxo.amount} zatoshi (${(utxo.amount / 100000000).toFixed(8)} ZEC), running total: ${total} zatoshi`);
 
       if (total >= amount + estimatedFee) {
@@ -329,46 +371,16 @@ export class ZcashTransactionBuilder {
   }
 
   /**
-   * Estimate transaction fee
+   * Estimate transaction fee (ZIP-317 conventional fee)
    */
   async estimateFee(
     inputs: TransparentInput[],
     outputs: TransparentOutput[]
   ): Promise<number> {
-    // Estimate transaction size
-    const estimatedSize = this.estimateTransactionSize(inputs, outputs);
-
-    // Calculate fee
-    const fee = estimatedSize * this.config.feeRate;
-
-    // Apply minimum fee
-    return Math.max(fee, this.config.minimumFee);
-  }
-
-  /**
-   * Estimate transaction size
-   */
-  private estimateTransactionSize(
-    inputs: TransparentInput[],
-    outputs: TransparentOutput[]
-  ): number {
-    let size = this.BASE_TRANSACTION_SIZE;
-
-    // Version group ID (if v4+)
-    size += 4;
-
-    // Inputs
-    size += this.compactSizeSize(inputs.length);
-    size += inputs.length * this.INPUT_SIZE;
-
-    // Outputs
-    size += this.compactSizeSize(outputs.length);
-    size += outputs.length * this.OUTPUT_SIZE;
-
-    // Lock time and expiry
-    size += 4 + 4;
-
-    return size;
+    return computeConventionalFee({
+      transparentInputs: inputs.length,
+      transparentOutputBytes: getTransparentOutputsSize(outputs)
+    });
   }
 
   /**
@@ -401,16 +413,6 @@ export class ZcashTransactionBuilder {
 
     return outputs;
   }
-
-  /**
-   * Calculate compact size encoding length
-   */
-  private compactSizeSize(value: number): number {
-    if (value < 0xFD) return 1;
-    if (value <= 0xFFFF) return 3;
-    if (value <= 0xFFFFFFFF) return 5;
-    return 9;
-  }
 }
 
 
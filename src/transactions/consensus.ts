@@ -0,0 +1,173 @@
+/**
+ * Consensus Parameters
+ * Network upgrade activation heights, consensus branch IDs and
+ * transaction version selection (ZIP-200, ZIP-225, ZIP-252)
+ */
+
+import type { Network } from '../types/index';
+
+/**
+ * fOverwintered flag set in the header field of v3+ transactions
+ */
+export const OVERWINTERED_FLAG = 0x80000000;
+
+/**
+ * Sapling (v4) transaction version and version group ID
+ */
+export const SAPLING_TX_VERSION = 4;
+export const SAPLING_VERSION_GROUP_ID = 0x892F2085;
+
+/**
+ * NU5 (v5) transaction version and version group ID (ZIP-225)
+ */
+export const NU5_TX_VERSION = 5;
+export const NU5_VERSION_GROUP_ID = 0x26A7270A;
+
+/**
+ * Network upgrade names
+ */
+export type NetworkUpgradeName =
+  | 'overwinter'
+  | 'sapling'
+  | 'blossom'
+  | 'heartwood'
+  | 'canopy'
+  | 'nu5'
+  | 'nu6'
+  | 'nu6.1';
+
+/**
+ * Network upgrade definition
+ */
+export interface NetworkUpgrade {
+  name: NetworkUpgradeName;
+  /** First block height at which the upgrade is active */
+  activationHeight: number;
+  /** Consensus branch ID committed to by transactions after activation */
+  branchId: number;
+}
+
+/**
+ * Transaction format selected for a block height
+ */
+export interface TransactionVersionInfo {
+  version: number;
+  versionGroupId: number;
+  consensusBranchId: number;
+}
+
+/**
+ * Network upgrades per network, ordered by activation height
+ */
+export const NETWORK_UPGRADES: Record<Network, readonly NetworkUpgrade[]> = {
+  mainnet: [
+    { name: 'overwinter', activationHeight: 347500, branchId: 0x5BA81B19 },
+    { name: 'sapling', activationHeight: 419200, branchId: 0x76B809BB },
+    { name: 'blossom', activationHeight: 653600, branchId: 0x2BB40E60 },
+    { name: 'heartwood', activationHeight: 903000, branchId: 0xF5B9230B },
+    { name: 'canopy', activationHeight: 1046400, branchId: 0xE9FF75A6 },
+    { name: 'nu5', activationHeight: 1687104, branchId: 0xC2D6D0B4 },
+    { name: 'nu6', activationHeight: 2726400, branchId: 0xC8E71055 },
+    { name: 'nu6.1', activationHeight: 3146400, branchId: 0x4DEC4DF0 }
+  ],
+  testnet: [
+    { name: 'overwinter', activationHeight: 207500, branchId: 0x5BA81B19 },
+    { name: 'sapling', activationHeight: 280000, branchId: 0x76B809BB },
+    { name: 'blossom', activationHeight: 584000, branchId: 0x2BB40E60 },
+    { name: 'heartwood', activationHeight: 903800, branchId: 0xF5B9230B },
+    { name: 'canopy', activationHeight: 1028500, branchId: 0xE9FF75A6 },
+    { name: 'nu5', activationHeight: 1842420, branchId: 0xC2D6D0B4 },
+    { name: 'nu6', activationHeight: 2976000, branchId: 0xC8E71055 },
+    { name: 'nu6.1', activationHeight: 3536500, branchId: 0x4DEC4DF0 }
+  ]
+};
+
+/**
+ * Get the network upgrade active at a block height
+ * Returns null before Overwinter activation (Sprout rules)
+ */
+export function getActiveNetworkUpgrade(
+  network: Network,
+  height: number
+): NetworkUpgrade | null {
+  const upgrades = NETWORK_UPGRADES[network];
+  if (!upgrades) {
+    throw new Error(`Unknown network: ${network}`);
+  }
+
+  let active: NetworkUpgrade | null = null;
+  for (const upgrade of upgrades) {
+    if (height >= upgrade.activationHeight) {
+      active = upgrade;
+    }
+  }
+  return active;
+}
+
+/**
+ * Get the consensus branch ID for a block height
+ */
+export function getConsensusBranchId(network: Network, height: number): number {
+  const upgrade = getActiveNetworkUpgrade(network, height);
+  if (!upgrade || height < getActivationHeight(network, 'sapling')) {
+    throw new Error(
+      `Height ${height} is before Sapling activation on ${network}; ` +
+      'pre-Sapling transactions are not supported'
+    );
+  }
+  return upgrade.branchId;
+}
+
+/**
+ * Get the activation height of a named network upgrade
+ */
+export function getActivationHeight(network: Network, name: NetworkUpgradeName): number {
+  const upgrade = NETWORK_UPGRADES[network]?.find(u => u.name === name);
+  if (!upgrade) {
+    throw new Error(`Unknown network upgrade ${name} on ${network}`);
+  }
+  return upgrade.activationHeight;
+}
+
+/**
+ * Check whether a network upgrade is active at a block height
+ */
+export function isUpgradeActive(
+  network: Network,
+  name: NetworkUpgradeName,
+  height: number
+): boolean {
+  return height >= getActivationHeight(network, name);
+}
+
+/**
+ * Select the transaction format for a transaction mined at `height`
+ * (normally the chain tip + 1). v5 is used from NU5 onwards, v4 before.
+ */
+export function getTransactionVersion(network: Network, height: number): TransactionVersionInfo {
+  const consensusBranchId = getConsensusBranchId(network, height);
+
+  if (isUpgradeActive(network, 'nu5', height)) {
+    return {
+      version: NU5_TX_VERSION,
+      versionGroupId: NU5_VERSION_GROUP_ID,
+      consensusBranchId
+    };
+  }
+
+  return {
+    version: SAPLING_TX_VERSION,
+    versionGroupId: SAPLING_VERSION_GROUP_ID,
+    consensusBranchId
+  };
+}
+
+/**
+ * Find the network upgrade for a consensus branch ID
+ */
+export function getNetworkUpgradeByBranchId(
+  network: Network,
+  branchId: number
+): NetworkUpgrade | null {
+  return NETWORK_UPGRADES[network]?.find(u => u.branchId === (branchId >>> 0)) ?? null;
+}
@@ -0,0 +1,112 @@
+/**
+ * ZIP-317 Conventional Fees
+ * Computes the conventional transaction fee from the number of logical actions
+ *
+ * fee = MARGINAL_FEE * max(GRACE_ACTIONS, logical_actions)
+ *
+ * logical_actions = max(ceil(tx_in_total_size / 150), ceil(tx_out_total_size / 34))
+ *                 + max(nSpendsSapling, nOutputsSapling)
+ *                 + nActionsOrchard
+ */
+
+import type { TransparentOutput } from '../types/index';
+
+/**
+ * Fee per logical action, in zatoshi
+ */
+export const MARGINAL_FEE = 5000;
+
+/**
+ * Number of logical actions covered by the minimum fee
+ */
+export const GRACE_ACTIONS = 2;
+
+/**
+ * Serialized size of a standard P2PKH input and output, in bytes
+ */
+export const P2PKH_STANDARD_INPUT_SIZE = 150;
+export const P2PKH_STANDARD_OUTPUT_SIZE = 34;
+
+/**
+ * Minimum number of outputs in a non-empty Sapling bundle (builder padding)
+ */
+export const MIN_SAPLING_OUTPUTS = 2;
+
+/**
+ * Transaction components counted by the fee rule
+ */
+export interface FeeActionCounts {
+  /** Number of transparent inputs (standard P2PKH size assumed) */
+  transparentInputs?: number;
+  /** Number of transparent outputs (standard P2PKH size assumed) */
+  transparentOutputs?: number;
+  /** Total transparent input size in bytes, overrides transparentInputs */
+  transparentInputBytes?: number;
+  /** Total transparent output size in bytes, overrides transparentOutputs */
+  transparentOutputBytes?: number;
+  /** Number of Sapling spends */
+  saplingSpends?: number;
+  /** Number of Sapling outputs before padding */
+  saplingOutputs?: number;
+  /** Number of Orchard actions */
+  orchardActions?: number;
+}
+
+/**
+ * Number of Sapling outputs after padding
+ *
+ * A bundle with any spends or outputs is padded with dummy outputs to
+ * MIN_SAPLING_OUTPUTS, and the padded outputs are charged as actions.
+ */
+export function getPaddedSaplingOutputs(spends: number, outputs: number): number {
+  if (spends === 0 && outputs === 0) {
+    return 0;
+  }
+  return Math.max(outputs, MIN_SAPLING_OUTPUTS);
+}
+
+/**
+ * Count the logical actions of a transaction
+ */
+export function computeLogicalActions(counts: FeeActionCounts): number {
+  const inputBytes = counts.transparentInputBytes ??
+    (counts.transparentInputs ?? 0) * P2PKH_STANDARD_INPUT_SIZE;
+  const outputBytes = counts.transparentOutputBytes ??
+    (counts.transparentOutputs ?? 0) * P2PKH_STANDARD_OUTPUT_SIZE;
+
+  const transparentActions = Math.max(
+    Math.ceil(inputBytes / P2PKH_STANDARD_INPUT_SIZE),
+    Math.ceil(outputBytes / P2PKH_STANDARD_OUTPUT_SIZE)
+  );
+
+  const spends = counts.saplingSpends ?? 0;
+  const saplingActions = Math.max(
+    spends,
+    getPaddedSaplingOutputs(spends, counts.saplingOutputs ?? 0)
+  );
+
+  return transparentActions + saplingActions + (counts.orchardActions ?? 0);
+}
+
+/**
+ * Compute the ZIP-317 conventional fee in zatoshi
+ */
+export function computeConventionalFee(counts: FeeActionCounts): number {
+  return MARGINAL_FEE * Math.max(GRACE_ACTIONS, computeLogicalActions(counts));
+}
+
+/**
+ * Serialized size of transparent outputs
+ *
+ * Outputs whose script is not known yet are counted as standard P2PKH.
+ */
+export function getTransparentOutputsSize(outputs: TransparentOutput[]): number {
+  return outputs.reduce((size, output) => {
+    const scriptLength = Math.floor((output.scriptPubKey || '').length / 2);
+    if (scriptLength === 0) {
+      return size + P2PKH_STANDARD_OUTPUT_SIZE;
+    }
+    // value (8) + compact size length + script
+    return size + 8 + (scriptLength < 0xfd ? 1 : 3) + scriptLength;
+  }, 0);
+}
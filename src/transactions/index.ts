@@ -6,4 +6,8 @@ export * from './serialization';
 export * from './validation';
 export * from './builder';
 export * from './signing';
+export * from './consensus';
+export * from './zip244';
+export * from './sighash';
+export * from './fees';
 
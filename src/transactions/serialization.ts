@@ -1,9 +1,39 @@
 /**
  * Transaction Serialization
  * Handles serialization and deserialization of Zcash transactions
+ *
+ * Supports the consensus encodings of v4 (Sapling) and v5 (NU5, ZIP-225)
+ * transactions, including Sapling, Sprout JoinSplit (v4) and Orchard (v5)
+ * bundles, so raw transactions from getrawtransaction can be inspected
+ * without the node's decoderawtransaction.
  */
 
-import type { Transaction, TransparentInput, TransparentOutput } from '../types/index';
+import type { Transaction, TransparentInput, TransparentOutput, JoinSplit } from '../types/index';
+import type {
+  ShieldedBundle,
+  ShieldedSpendDescription,
+  ShieldedOutputDescription,
+  OrchardBundle,
+  OrchardActionDescription
+} from '../shielded/types';
+import {
+  NU5_TX_VERSION,
+  OVERWINTERED_FLAG,
+  SAPLING_TX_VERSION,
+  SAPLING_VERSION_GROUP_ID
+} from './consensus';
+
+/**
+ * Encoded sizes of shielded components
+ */
+const SAPLING_SPEND_SIZE_V4 = 384; // cv + anchor + nullifier + rk + zkproof + spendAuthSig
+const SAPLING_OUTPUT_SIZE_V4 = 948; // cv + cmu + epk + encCiphertext + outCiphertext + zkproof
+const SAPLING_SPEND_SIZE_V5 = 96; // cv + nullifier + rk
+const SAPLING_OUTPUT_SIZE_V5 = 756; // cv + cmu + epk + encCiphertext + outCiphertext
+const JOINSPLIT_SIZE_GROTH16 = 1698;
+const ORCHARD_ACTION_SIZE = 820; // cv + nullifier + rk + cmx + epk + encCiphertext + outCiphertext
+const GROTH16_PROOF_SIZE = 192;
+const SIGNATURE_SIZE = 64;
 
 /**
  * Transaction Serializer
@@ -13,20 +43,27 @@ export class TransactionSerializer {
    * Serialize transaction to hex string
    */
   serialize(tx: Transaction): string {
+    if (tx.version >= NU5_TX_VERSION) {
+      return this.serializeV5(tx);
+    }
+    if (tx.version !== SAPLING_TX_VERSION) {
+      throw new Error(
+        `Unsupported transaction version ${tx.version}: only v4 (Sapling) and v5 (NU5) ` +
+        'transactions can be serialized'
+      );
+    }
+    this.assertBundledShieldedData(tx);
+
     const size = this.calculateSize(tx);
     const buffer = new ArrayBuffer(size);
     const view = new DataView(buffer);
     let offset = 0;
 
-    // Write version (4 bytes, little-endian)
-    view.setUint32(offset, tx.version, true);
+    // Header with the fOverwintered flag, and version group ID
+    view.setUint32(offset, (tx.version | OVERWINTERED_FLAG) >>> 0, true);
+    offset += 4;
+    view.setUint32(offset, (tx.versionGroupId ?? SAPLING_VERSION_GROUP_ID) >>> 0, true);
     offset += 4;
-
-    // Write version group ID (if v4+)
-    if (tx.version >= 4 && tx.versionGroupId !== undefined) {
-      view.setUint32(offset, tx.versionGroupId, true);
-      offset += 4;
-    }
 
     // Serialize transparent inputs
     offset = this.serializeTransparentInputs(view, offset, tx.transparentInputs);
@@ -34,25 +71,39 @@ export class TransactionSerializer {
     // Serialize transparent outputs
     offset = this.serializeTransparentOutputs(view, offset, tx.transparentOutputs);
 
-    // Serialize shielded components (if any)
-    if (tx.shieldedInputs || tx.shieldedOutputs) {
-      offset = this.serializeShieldedComponents(view, offset, tx);
-    }
-
     // Write lock time and expiry
     view.setUint32(offset, tx.lockTime, true);
     offset += 4;
     view.setUint32(offset, tx.expiryHeight, true);
     offset += 4;
 
+    // Sapling value balance, spends and outputs
+    const spends = tx.saplingBundle?.spends ?? [];
+    const outputs = tx.saplingBundle?.outputs ?? [];
+    view.setBigInt64(offset, tx.saplingBundle?.valueBalance ?? 0n, true);
+    offset += 8;
+
+    offset = this.writeCompactSize(view, offset, spends.length);
+    for (const spend of spends) {
+      offset = this.writeBytes(view, offset, spend.cv, spend.anchor, spend.nullifier, spend.rk,
+        spend.zkproof, spend.spendAuthSig);
+    }
+
+    offset = this.writeCompactSize(view, offset, outputs.length);
+    for (const output of outputs) {
+      offset = this.writeBytes(view, offset, output.cv, output.cmu, output.ephemeralKey,
+        output.encCiphertext, output.outCiphertext, output.zkproof);
+    }
+
+    // Sprout JoinSplits
+    offset = this.serializeJoinSplits(view, offset, tx);
+
     // Write binding signature (if shielded)
-    if (tx.bindingSig) {
-      const sigBytes = this.hexToBytes(tx.bindingSig);
-      new Uint8Array(buffer, offset, 64).set(sigBytes);
-      offset += 64;
+    if (spends.length + outputs.length > 0) {
+      offset = this.writeBytes(view, offset, tx.saplingBundle!.bindingSig);
     }
 
-    return this.bytesToHex(new Uint8Array(buffer));
+    return this.bytesToHex(new Uint8Array(buffer, 0, offset));
   }
 
   /**
@@ -61,15 +112,51 @@ export class TransactionSerializer {
   deserialize(hex: string): Transaction {
     const bytes = this.hexToBytes(hex);
     const view = new DataView(bytes.buffer);
-    let offset = 0;
 
-    const version = view.getUint32(offset, true);
-    offset += 4;
+    if (bytes.length < 4) {
+      throw new Error('Truncated transaction: missing header');
+    }
 
-    let versionGroupId = 0;
-    if (version >= 4) {
-      versionGroupId = view.getUint32(offset, true);
-      offset += 4;
+    const header = view.getUint32(0, true);
+    const version = header & ~OVERWINTERED_FLAG;
+
+    if ((header & OVERWINTERED_FLAG) === 0) {
+      throw new Error(
+        `Unsupported transaction version ${version}: pre-Overwinter transactions ` +
+        '(without the fOverwintered flag) are not supported'
+      );
+    }
+
+    if (version === NU5_TX_VERSION) {
+      return this.deserializeV5(view, bytes.length);
+    }
+    if (version === SAPLING_TX_VERSION) {
+      return this.deserializeV4(view, bytes.length);
+    }
+
+    throw new Error(
+      `Unsupported transaction version ${version}: only v4 (Sapling) and v5 (NU5) ` +
+      'transactions can be parsed'
+    );
+  }
+
+  /**
+   * Deserialize a v4 transaction (Sapling)
+   *
+   * Layout: header, nVersionGroupId, transparent inputs and outputs,
+   * lock_time, nExpiryHeight, valueBalanceSapling, Sapling spends and
+   * outputs, Sprout JoinSplits, bindingSigSapling.
+   */
+  private deserializeV4(view: DataView, length: number): Transaction {
+    let offset = 4;
+
+    const versionGroupId = this.readUint32(view, offset);
+    offset += 4;
+    if (versionGroupId !== SAPLING_VERSION_GROUP_ID) {
+      throw new Error(
+        `Invalid v4 version group ID 0x${versionGroupId.toString(16)}, ` +
+        `expected 0x${SAPLING_VERSION_GROUP_ID.toString(16)}`
+      );
     }
 
     // Deserialize transparent inputs
@@ -80,48 +167,474 @@ export class TransactionSerializer {
     const { outputs, newOffset: offset2 } = this.deserializeTransparentOutputs(view, offset);
     offset = offset2;
 
-    // Deserialize shielded components (if any)
-    let shieldedInputs;
-    let shieldedOutputs;
-    let bindingSig: string | undefined;
-    let valueBalance = 0;
-
-    if (version >= 2) {
-      // Check if shielded components exist (simplified check)
-      const hasShielded = offset < bytes.length - 8; // At least lockTime + expiryHeight
-      if (hasShielded) {
-        // Simplified - full implementation would properly detect shielded components
-        // For now, skipping shielded deserialization
-      }
-    }
-
     // Read lock time and expiry
-    const lockTime = view.getUint32(offset, true);
+    const lockTime = this.readUint32(view, offset);
     offset += 4;
-    const expiryHeight = view.getUint32(offset, true);
+    const expiryHeight = this.readUint32(view, offset);
     offset += 4;
 
-    // Read binding signature if present
-    if (offset + 64 <= bytes.length) {
-      const sigBytes = new Uint8Array(bytes.buffer, offset, 64);
-      bindingSig = this.bytesToHex(sigBytes);
-      offset += 64;
+    // Sapling value balance
+    const valueBalance = this.readInt64(view, offset);
+    offset += 8;
+
+    // Sapling spends
+    const { value: nSpends, newOffset: offset3 } = this.readCompactSize(view, offset);
+    offset = offset3;
+    const spends: ShieldedSpendDescription[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      const data = this.readBytes(view, offset, SAPLING_SPEND_SIZE_V4);
+      spends.push({
+        cv: data.slice(0, 32),
+        anchor: data.slice(32, 64),
+        nullifier: data.slice(64, 96),
+        rk: data.slice(96, 128),
+        zkproof: data.slice(128, 320),
+        spendAuthSig: data.slice(320, 384)
+      });
+      offset += SAPLING_SPEND_SIZE_V4;
+    }
+
+    // Sapling outputs
+    const { value: nOutputs, newOffset: offset4 } = this.readCompactSize(view, offset);
+    offset = offset4;
+    const saplingOutputs: ShieldedOutputDescription[] = [];
+    for (let i = 0; i < nOutputs; i++) {
+      const data = this.readBytes(view, offset, SAPLING_OUTPUT_SIZE_V4);
+      saplingOutputs.push({
+        cv: data.slice(0, 32),
+        cmu: data.slice(32, 64),
+        ephemeralKey: data.slice(64, 96),
+        encCiphertext: data.slice(96, 676),
+        outCiphertext: data.slice(676, 756),
+        zkproof: data.slice(756, 948)
+      });
+      offset += SAPLING_OUTPUT_SIZE_V4;
+    }
+
+    // Sprout JoinSplits
+    const { joinsplits, joinSplitPubKey, joinSplitSig, newOffset: offset5 } =
+      this.deserializeJoinSplits(view, offset);
+    offset = offset5;
+
+    // Binding signature is present only with Sapling spends or outputs
+    let saplingBundle: ShieldedBundle | undefined;
+    if (nSpends + nOutputs > 0) {
+      const bindingSig = this.readBytes(view, offset, SIGNATURE_SIZE);
+      offset += SIGNATURE_SIZE;
+      saplingBundle = { spends, outputs: saplingOutputs, valueBalance, bindingSig };
+    } else if (valueBalance !== 0n) {
+      throw new Error('Non-zero Sapling value balance without spends or outputs');
+    }
+
+    this.assertFullyConsumed(offset, length, 'v4');
+
+    return {
+      version: SAPLING_TX_VERSION,
+      versionGroupId,
+      lockTime,
+      expiryHeight,
+      transparentInputs: inputs,
+      transparentOutputs: outputs,
+      joinsplits: joinsplits.length > 0 ? joinsplits : undefined,
+      joinSplitPubKey,
+      joinSplitSig,
+      bindingSig: saplingBundle ? this.bytesToHex(saplingBundle.bindingSig) : undefined,
+      valueBalance: Number(valueBalance),
+      saplingBundle
+    };
+  }
+
+  /**
+   * Serialize a v5 transaction (ZIP-225)
+   *
+   * Layout: header, nVersionGroupId, nConsensusBranchId, lock_time,
+   * nExpiryHeight, transparent bundle, Sapling bundle, Orchard bundle.
+   */
+  private serializeV5(tx: Transaction): string {
+    if (tx.versionGroupId === undefined || tx.consensusBranchId === undefined) {
+      throw new Error(
+        'v5 transactions require versionGroupId and consensusBranchId. ' +
+        'Use getTransactionVersion() to select them for the target height.'
+      );
     }
+    this.assertBundledShieldedData(tx);
+    if ((tx.joinsplits?.length || 0) > 0) {
+      throw new Error('v5 transactions cannot contain Sprout JoinSplits');
+    }
+
+    const size = this.calculateSize(tx);
+    const buffer = new ArrayBuffer(size);
+    const view = new DataView(buffer);
+    let offset = 0;
+
+    // Header fields (20 bytes)
+    view.setUint32(offset, (tx.version | OVERWINTERED_FLAG) >>> 0, true);
+    offset += 4;
+    view.setUint32(offset, tx.versionGroupId >>> 0, true);
+    offset += 4;
+    view.setUint32(offset, tx.consensusBranchId >>> 0, true);
+    offset += 4;
+    view.setUint32(offset, tx.lockTime, true);
+    offset += 4;
+    view.setUint32(offset, tx.expiryHeight, true);
+    offset += 4;
+
+    // Transparent bundle
+    offset = this.serializeTransparentInputs(view, offset, tx.transparentInputs);
+    offset = this.serializeTransparentOutputs(view, offset, tx.transparentOutputs);
+
+    // Sapling bundle
+    offset = this.serializeSaplingBundleV5(view, offset, tx.saplingBundle);
+
+    // Orchard bundle
+    offset = this.serializeOrchardBundle(view, offset, tx.orchardBundle);
+
+    return this.bytesToHex(new Uint8Array(buffer, 0, offset));
+  }
+
+  /**
+   * Deserialize a v5 transaction (ZIP-225)
+   */
+  private deserializeV5(view: DataView, length: number): Transaction {
+    let offset = 0;
+
+    const header = this.readUint32(view, offset);
+    offset += 4;
+    const versionGroupId = this.readUint32(view, offset);
+    offset += 4;
+    const consensusBranchId = this.readUint32(view, offset);
+    offset += 4;
+    const lockTime = this.readUint32(view, offset);
+    offset += 4;
+    const expiryHeight = this.readUint32(view, offset);
+    offset += 4;
+
+    const { inputs, newOffset: offset1 } = this.deserializeTransparentInputs(view, offset);
+    offset = offset1;
+
+    const { outputs, newOffset: offset2 } = this.deserializeTransparentOutputs(view, offset);
+    offset = offset2;
+
+    const { bundle: saplingBundle, newOffset: offset3 } = this.deserializeSaplingBundleV5(view, offset);
+    offset = offset3;
+
+    const { bundle: orchardBundle, newOffset: offset4 } = this.deserializeOrchardBundle(view, offset);
+    offset = offset4;
+
+    this.assertFullyConsumed(offset, length, 'v5');
 
     return {
-      version,
-      versionGroupId: version >= 4 ? versionGroupId : undefined,
+      version: header & ~OVERWINTERED_FLAG,
+      versionGroupId,
+      consensusBranchId,
       lockTime,
       expiryHeight,
       transparentInputs: inputs,
       transparentOutputs: outputs,
-      shieldedInputs,
-      shieldedOutputs,
-      bindingSig,
-      valueBalance
+      bindingSig: saplingBundle ? this.bytesToHex(saplingBundle.bindingSig) : undefined,
+      valueBalance: Number(saplingBundle?.valueBalance ?? 0n),
+      saplingBundle,
+      orchardBundle
+    };
+  }
+
+  /**
+   * Serialize a Sapling bundle in the v5 layout
+   *
+   * Descriptions are followed by the value balance, the shared anchor and
+   * then the proofs and signatures.
+   */
+  private serializeSaplingBundleV5(
+    view: DataView,
+    offset: number,
+    bundle: ShieldedBundle | undefined
+  ): number {
+    const spends = bundle?.spends ?? [];
+    const outputs = bundle?.outputs ?? [];
+
+    offset = this.writeCompactSize(view, offset, spends.length);
+    for (const spend of spends) {
+      offset = this.writeBytes(view, offset, spend.cv, spend.nullifier, spend.rk);
+    }
+
+    offset = this.writeCompactSize(view, offset, outputs.length);
+    for (const output of outputs) {
+      offset = this.writeBytes(view, offset, output.cv, output.cmu, output.ephemeralKey,
+        output.encCiphertext, output.outCiphertext);
+    }
+
+    if (spends.length + outputs.length === 0) {
+      return offset;
+    }
+
+    view.setBigInt64(offset, bundle!.valueBalance, true);
+    offset += 8;
+
+    if (spends.length > 0) {
+      const anchor = spends[0].anchor;
+      for (const spend of spends) {
+        if (this.bytesToHex(spend.anchor) !== this.bytesToHex(anchor)) {
+          throw new Error('All Sapling spends in a v5 transaction must use the same anchor');
+        }
+      }
+      offset = this.writeBytes(view, offset, anchor);
+    }
+
+    for (const spend of spends) {
+      offset = this.writeBytes(view, offset, spend.zkproof);
+    }
+    for (const spend of spends) {
+      offset = this.writeBytes(view, offset, spend.spendAuthSig);
+    }
+    for (const output of outputs) {
+      offset = this.writeBytes(view, offset, output.zkproof);
+    }
+
+    return this.writeBytes(view, offset, bundle!.bindingSig);
+  }
+
+  /**
+   * Deserialize a Sapling bundle in the v5 layout
+   */
+  private deserializeSaplingBundleV5(
+    view: DataView,
+    offset: number
+  ): { bundle: ShieldedBundle | undefined; newOffset: number } {
+    const { value: nSpends, newOffset: offset1 } = this.readCompactSize(view, offset);
+    offset = offset1;
+    const spendFields: Uint8Array[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      spendFields.push(this.readBytes(view, offset, SAPLING_SPEND_SIZE_V5));
+      offset += SAPLING_SPEND_SIZE_V5;
+    }
+
+    const { value: nOutputs, newOffset: offset2 } = this.readCompactSize(view, offset);
+    offset = offset2;
+    const outputFields: Uint8Array[] = [];
+    for (let i = 0; i < nOutputs; i++) {
+      outputFields.push(this.readBytes(view, offset, SAPLING_OUTPUT_SIZE_V5));
+      offset += SAPLING_OUTPUT_SIZE_V5;
+    }
+
+    if (nSpends + nOutputs === 0) {
+      return { bundle: undefined, newOffset: offset };
+    }
+
+    const valueBalance = this.readInt64(view, offset);
+    offset += 8;
+
+    let anchor: Uint8Array = new Uint8Array(32);
+    if (nSpends > 0) {
+      anchor = this.readBytes(view, offset, 32);
+      offset += 32;
+    }
+
+    const spendProofs: Uint8Array[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      spendProofs.push(this.readBytes(view, offset, GROTH16_PROOF_SIZE));
+      offset += GROTH16_PROOF_SIZE;
+    }
+    const spendAuthSigs: Uint8Array[] = [];
+    for (let i = 0; i < nSpends; i++) {
+      spendAuthSigs.push(this.readBytes(view, offset, SIGNATURE_SIZE));
+      offset += SIGNATURE_SIZE;
+    }
+    const outputProofs: Uint8Array[] = [];
+    for (let i = 0; i < nOutputs; i++) {
+      outputProofs.push(this.readBytes(view, offset, GROTH16_PROOF_SIZE));
+      offset += GROTH16_PROOF_SIZE;
+    }
+
+    const bindingSig = this.readBytes(view, offset, SIGNATURE_SIZE);
+    offset += SIGNATURE_SIZE;
+
+    return {
+      bundle: {
+        spends: spendFields.map((data, i) => ({
+          cv: data.slice(0, 32),
+          anchor: anchor.slice(),
+          nullifier: data.slice(32, 64),
+          rk: data.slice(64, 96),
+          zkproof: spendProofs[i],
+          spendAuthSig: spendAuthSigs[i]
+        })),
+        outputs: outputFields.map((data, i) => ({
+          cv: data.slice(0, 32),
+          cmu: data.slice(32, 64),
+          ephemeralKey: data.slice(64, 96),
+          encCiphertext: data.slice(96, 676),
+          outCiphertext: data.slice(676, 756),
+          zkproof: outputProofs[i]
+        })),
+        valueBalance,
+        bindingSig
+      },
+      newOffset: offset
+    };
+  }
+
+  /**
+   * Serialize an Orchard bundle (v5)
+   */
+  private serializeOrchardBundle(
+    view: DataView,
+    offset: number,
+    bundle: OrchardBundle | undefined
+  ): number {
+    const actions = bundle?.actions ?? [];
+
+    offset = this.writeCompactSize(view, offset, actions.length);
+    if (actions.length === 0) {
+      return offset;
+    }
+
+    for (const action of actions) {
+      offset = this.writeBytes(view, offset, action.cv, action.nullifier, action.rk, action.cmx,
+        action.ephemeralKey, action.encCiphertext, action.outCiphertext);
+    }
+
+    view.setUint8(offset, bundle!.flags);
+    offset += 1;
+    view.setBigInt64(offset, bundle!.valueBalance, true);
+    offset += 8;
+    offset = this.writeBytes(view, offset, bundle!.anchor);
+
+    offset = this.writeCompactSize(view, offset, bundle!.proof.length);
+    offset = this.writeBytes(view, offset, bundle!.proof);
+
+    for (const action of actions) {
+      offset = this.writeBytes(view, offset, action.spendAuthSig);
+    }
+
+    return this.writeBytes(view, offset, bundle!.bindingSig);
+  }
+
+  /**
+   * Deserialize an Orchard bundle (v5)
+   */
+  private deserializeOrchardBundle(
+    view: DataView,
+    offset: number
+  ): { bundle: OrchardBundle | undefined; newOffset: number } {
+    const { value: nActions, newOffset: offset1 } = this.readCompactSize(view, offset);
+    offset = offset1;
+
+    if (nActions === 0) {
+      return { bundle: undefined, newOffset: offset };
+    }
+
+    const actionFields: Uint8Array[] = [];
+    for (let i = 0; i < nActions; i++) {
+      actionFields.push(this.readBytes(view, offset, ORCHARD_ACTION_SIZE));
+      offset += ORCHARD_ACTION_SIZE;
+    }
+
+    const flags = this.readBytes(view, offset, 1)[0];
+    offset += 1;
+    const valueBalance = this.readInt64(view, offset);
+    offset += 8;
+    const anchor = this.readBytes(view, offset, 32);
+    offset += 32;
+
+    const { value: proofLength, newOffset: offset2 } = this.readCompactSize(view, offset);
+    offset = offset2;
+    const proof = this.readBytes(view, offset, proofLength);
+    offset += proofLength;
+
+    const spendAuthSigs: Uint8Array[] = [];
+    for (let i = 0; i < nActions; i++) {
+      spendAuthSigs.push(this.readBytes(view, offset, SIGNATURE_SIZE));
+      offset += SIGNATURE_SIZE;
+    }
+
+    const bindingSig = this.readBytes(view, offset, SIGNATURE_SIZE);
+    offset += SIGNATURE_SIZE;
+
+    const actions: OrchardActionDescription[] = actionFields.map((data, i) => ({
+      cv: data.slice(0, 32),
+      nullifier: data.slice(32, 64),
+      rk: data.slice(64, 96),
+      cmx: data.slice(96, 128),
+      ephemeralKey: data.slice(128, 160),
+      encCiphertext: data.slice(160, 740),
+      outCiphertext: data.slice(740, 820),
+      spendAuthSig: spendAuthSigs[i]
+    }));
+
+    return {
+      bundle: { actions, flags, valueBalance, anchor, proof, bindingSig },
+      newOffset: offset
     };
   }
 
+  /**
+   * Serialize Sprout JoinSplits (v4, Groth16 proofs)
+   */
+  private serializeJoinSplits(view: DataView, offset: number, tx: Transaction): number {
+    const joinsplits = tx.joinsplits ?? [];
+    offset = this.writeCompactSize(view, offset, joinsplits.length);
+    if (joinsplits.length === 0) {
+      return offset;
+    }
+
+    if (!tx.joinSplitPubKey || !tx.joinSplitSig) {
+      throw new Error('Transactions with JoinSplits require joinSplitPubKey and joinSplitSig');
+    }
+
+    for (const js of joinsplits) {
+      view.setBigUint64(offset, BigInt(js.vpubOld), true);
+      offset += 8;
+      view.setBigUint64(offset, BigInt(js.vpubNew), true);
+      offset += 8;
+      offset = this.writeBytes(view, offset, js.anchor, ...js.nullifiers, ...js.commitments,
+        js.ephemeralKey, js.randomSeed, ...js.macs, js.zkproof, ...js.ciphertexts);
+    }
+
+    return this.writeBytes(view, offset, this.hexToBytes(tx.joinSplitPubKey),
+      this.hexToBytes(tx.joinSplitSig));
+  }
+
+  /**
+   * Deserialize Sprout JoinSplits (v4, Groth16 proofs)
+   */
+  private deserializeJoinSplits(
+    view: DataView,
+    offset: number
+  ): { joinsplits: JoinSplit[]; joinSplitPubKey?: string; joinSplitSig?: string; newOffset: number } {
+    const { value: count, newOffset } = this.readCompactSize(view, offset);
+    offset = newOffset;
+
+    const joinsplits: JoinSplit[] = [];
+    for (let i = 0; i < count; i++) {
+      const data = this.readBytes(view, offset, JOINSPLIT_SIZE_GROTH16);
+      const fields = new DataView(data.buffer);
+      joinsplits.push({
+        vpubOld: fields.getBigUint64(0, true),
+        vpubNew: fields.getBigUint64(8, true),
+        anchor: data.slice(16, 48),
+        nullifiers: [data.slice(48, 80), data.slice(80, 112)],
+        commitments: [data.slice(112, 144), data.slice(144, 176)],
+        ephemeralKey: data.slice(176, 208),
+        randomSeed: data.slice(208, 240),
+        macs: [data.slice(240, 272), data.slice(272, 304)],
+        zkproof: data.slice(304, 496),
+        ciphertexts: [data.slice(496, 1097), data.slice(1097, 1698)]
+      });
+      offset += JOINSPLIT_SIZE_GROTH16;
+    }
+
+    if (count === 0) {
+      return { joinsplits, newOffset: offset };
+    }
+
+    const joinSplitPubKey = this.bytesToHex(this.readBytes(view, offset, 32));
+    offset += 32;
+    const joinSplitSig = this.bytesToHex(this.readBytes(view, offset, SIGNATURE_SIZE));
+    offset += SIGNATURE_SIZE;
+
+    return { joinsplits, joinSplitPubKey, joinSplitSig, newOffset: offset };
+  }
+
   /**
    * Serialize transparent inputs
    */
@@ -185,49 +698,6 @@ export class TransactionSerializer {
     return offset;
   }
 
-  /**
-   * Serialize shielded components
-   */
-  private serializeShieldedComponents(
-    view: DataView,
-    offset: number,
-    tx: Transaction
-  ): number {
-    if (!tx.shieldedInputs && !tx.shieldedOutputs) {
-      return offset;
-    }
-
-    // Write shielded input count
-    const inputCount = tx.shieldedInputs?.length || 0;
-    offset = this.writeCompactSize(view, offset, inputCount);
-
-    // Serialize shielded inputs (simplified - full implementation needed)
-    if (tx.shieldedInputs) {
-      for (let i = 0; i < tx.shieldedInputs.length; i++) {
-        // Placeholder sizes - full implementation would serialize all fields
-        offset += 32 + 32 + 192 + 32 + 32; // nullifier + rk + proof + cv + anchor
-      }
-    }
-
-    // Write shielded output count
-    const outputCount = tx.shieldedOutputs?.length || 0;
-    offset = this.writeCompactSize(view, offset, outputCount);
-
-    // Serialize shielded outputs (simplified - full implementation needed)
-    if (tx.shieldedOutputs) {
-      for (let i = 0; i < tx.shieldedOutputs.length; i++) {
-        // Placeholder sizes - full implementation would serialize all fields
-        offset += 32 + 32 + 32 + 580 + 80 + 192; // cv + cmu + ephemeralKey + encCiphertext + outCiphertext + proof
-      }
-    }
-
-    // Write value balance (8 bytes)
-    view.setBigUint64(offset, BigInt(tx.valueBalance || 0), true);
-    offset += 8;
-
-    return offset;
-  }
-
   /**
    * Deserialize transparent inputs
    */
@@ -240,21 +710,21 @@ export class TransactionSerializer {
 
     const inputs: TransparentInput[] = [];
     for (let i = 0; i < count; i++) {
-      const hashBytes = new Uint8Array(view.buffer, offset, 32);
+      const hashBytes = this.readBytes(view, offset, 32);
       const txHash = this.bytesToHex(hashBytes.reverse());
       offset += 32;
 
-      const index = view.getUint32(offset, true);
+      const index = this.readUint32(view, offset);
       offset += 4;
 
       const { value: scriptLen, newOffset: offset1 } = this.readCompactSize(view, offset);
       offset = offset1;
 
-      const scriptBytes = new Uint8Array(view.buffer, offset, scriptLen);
+      const scriptBytes = this.readBytes(view, offset, scriptLen);
       const scriptSig = this.bytesToHex(scriptBytes);
       offset += scriptLen;
 
-      const sequence = view.getUint32(offset, true);
+      const sequence = this.readUint32(view, offset);
       offset += 4;
 
       inputs.push({
@@ -282,13 +752,13 @@ export class TransactionSerializer {
 
     const outputs: TransparentOutput[] = [];
     for (let i = 0; i < count; i++) {
-      const value = Number(view.getBigUint64(offset, true));
+      const value = Number(this.readInt64(view, offset));
       offset += 8;
 
       const { value: scriptLen, newOffset: offset1 } = this.readCompactSize(view, offset);
       offset = offset1;
 
-      const scriptBytes = new Uint8Array(view.buffer, offset, scriptLen);
+      const scriptBytes = this.readBytes(view, offset, scriptLen);
       const scriptPubKey = this.bytesToHex(scriptBytes);
       offset += scriptLen;
 
@@ -306,10 +776,10 @@ export class TransactionSerializer {
    * Calculate transaction size for buffer allocation
    */
   private calculateSize(tx: Transaction): number {
-    let size = 4; // version
+    let size = 4 + 4; // header + versionGroupId
 
-    if (tx.version >= 4) {
-      size += 4; // versionGroupId
+    if (tx.version >= NU5_TX_VERSION) {
+      size += 4; // consensusBranchId
     }
 
     // Transparent inputs size
@@ -329,21 +799,116 @@ export class TransactionSerializer {
       size += this.compactSizeSize(scriptLen) + scriptLen; // script length + script
     }
 
-    // Shielded components size
-    if (tx.shieldedInputs || tx.shieldedOutputs) {
-      size += this.compactSizeSize(tx.shieldedInputs?.length || 0);
-      size += (tx.shieldedInputs?.length || 0) * (32 + 32 + 192 + 32 + 32); // inputs
-      size += this.compactSizeSize(tx.shieldedOutputs?.length || 0);
-      size += (tx.shieldedOutputs?.length || 0) * (32 + 32 + 32 + 580 + 80 + 192); // outputs
+    size += 4 + 4; // lockTime + expiryHeight
+
+    // Sapling components
+    const nSpends = tx.saplingBundle?.spends.length ?? 0;
+    const nOutputs = tx.saplingBundle?.outputs.length ?? 0;
+    size += this.compactSizeSize(nSpends) + this.compactSizeSize(nOutputs);
+
+    if (tx.version >= NU5_TX_VERSION) {
+      size += nSpends * (SAPLING_SPEND_SIZE_V5 + GROTH16_PROOF_SIZE + SIGNATURE_SIZE);
+      size += nOutputs * (SAPLING_OUTPUT_SIZE_V5 + GROTH16_PROOF_SIZE);
+      if (nSpends + nOutputs > 0) {
+        size += 8 + SIGNATURE_SIZE; // valueBalance + bindingSig
+      }
+      if (nSpends > 0) {
+        size += 32; // shared anchor
+      }
+
+      // Orchard components
+      const nActions = tx.orchardBundle?.actions.length ?? 0;
+      size += this.compactSizeSize(nActions);
+      if (nActions > 0) {
+        const proofLength = tx.orchardBundle!.proof.length;
+        size += nActions * (ORCHARD_ACTION_SIZE + SIGNATURE_SIZE);
+        size += 1 + 8 + 32; // flags + valueBalance + anchor
+        size += this.compactSizeSize(proofLength) + proofLength;
+        size += SIGNATURE_SIZE; // bindingSig
+      }
+    } else {
       size += 8; // valueBalance
-      size += 64; // bindingSig
-    }
+      size += nSpends * SAPLING_SPEND_SIZE_V4 + nOutputs * SAPLING_OUTPUT_SIZE_V4;
+      if (nSpends + nOutputs > 0) {
+        size += SIGNATURE_SIZE; // bindingSig
+      }
 
-    size += 4 + 4; // lockTime + expiryHeight
+      // Sprout JoinSplits
+      const nJoinSplits = tx.joinsplits?.length ?? 0;
+      size += this.compactSizeSize(nJoinSplits) + nJoinSplits * JOINSPLIT_SIZE_GROTH16;
+      if (nJoinSplits > 0) {
+        size += 32 + SIGNATURE_SIZE; // joinSplitPubKey + joinSplitSig
+      }
+    }
 
     return size;
   }
 
+  /**
+   * Reject shielded data that is not carried as a full bundle
+   *
+   * shieldedInputs and shieldedOutputs describe notes, not encoded
+   * descriptions, and cannot be serialized.
+   */
+  private assertBundledShieldedData(tx: Transaction): void {
+    const hasNoteData = (tx.shieldedInputs?.length || 0) > 0 || (tx.shieldedOutputs?.length || 0) > 0;
+    if (hasNoteData && !tx.saplingBundle) {
+      throw new Error(
+        'Shielded transactions must carry a saplingBundle to be serialized here; ' +
+        'build them with the shielded TransactionSerializer'
+      );
+    }
+  }
+
+  /**
+   * Ensure a parsed transaction has no trailing data
+   */
+  private assertFullyConsumed(offset: number, length: number, format: string): void {
+    if (offset !== length) {
+      throw new Error(`Unexpected ${length - offset} trailing bytes in ${format} transaction`);
+    }
+  }
+
+  /**
+   * Write byte arrays at an offset
+   */
+  private writeBytes(view: DataView, offset: number, ...chunks: Uint8Array[]): number {
+    for (const chunk of chunks) {
+      new Uint8Array(view.buffer, offset, chunk.length).set(chunk);
+      offset += chunk.length;
+    }
+    return offset;
+  }
+
+  /**
+   * Read a copy of `length` bytes at an offset
+   */
+  private readBytes(view: DataView, offset: number, length: number): Uint8Array {
+    if (offset + length > view.byteLength) {
+      throw new Error(
+        `Truncated transaction: need ${length} bytes at offset ${offset}, ` +
+        `have ${Math.max(0, view.byteLength - offset)}`
+      );
+    }
+    return new Uint8Array(view.buffer, view.byteOffset + offset, length).slice();
+  }
+
+  /**
+   * Read an unsigned 32-bit little-endian integer
+   */
+  private readUint32(view: DataView, offset: number): number {
+    this.readBytes(view, offset, 4);
+    return view.getUint32(offset, true);
+  }
+
+  /**
+   * Read a signed 64-bit little-endian integer
+   */
+  private readInt64(view: DataView, offset: number): bigint {
+    this.readBytes(view, offset, 8);
+    return view.getBigInt64(offset, true);
+  }
+
   /**
    * Write compact size encoding
    */
@@ -370,16 +935,17 @@ export class TransactionSerializer {
    * Read compact size encoding
    */
   private readCompactSize(view: DataView, offset: number): { value: number; newOffset: number } {
-    const first = view.getUint8(offset);
+    const first = this.readBytes(view, offset, 1)[0];
 
     if (first < 0xFD) {
       return { value: first, newOffset: offset + 1 };
     } else if (first === 0xFD) {
+      this.readBytes(view, offset + 1, 2);
       return { value: view.getUint16(offset + 1, true), newOffset: offset + 3 };
     } else if (first === 0xFE) {
-      return { value: view.getUint32(offset + 1, true), newOffset: offset + 5 };
+      return { value: this.readUint32(view, offset + 1), newOffset: offset + 5 };
     } else {
-      return { value: Number(view.getBigUint64(offset + 1, true)), newOffset: offset + 9 };
+      return { value: Number(this.readInt64(view, offset + 1)), newOffset: offset + 9 };
     }
   }
 
@@ -413,5 +979,3 @@ export class TransactionSerializer {
       .join('');
   }
 }
-
-
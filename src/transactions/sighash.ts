@@ -0,0 +1,368 @@
+/**
+ * Signature Hashing
+ * Implements ZIP-243 (v4 Sapling) and ZIP-244 (v5 NU5) signature digests
+ * for transparent inputs and shielded spend/binding signatures
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import type { Network, TransparentInput, TransparentOutput, JoinSplit } from '../types/index';
+import type { ShieldedBundle, OrchardBundle } from '../shielded/types.js';
+import {
+  concatBytes,
+  numberToLEBytes,
+  bigintToLEBytes,
+  stringToBytes,
+  hexToBytes
+} from '../utils/bytes';
+import {
+  NU5_TX_VERSION,
+  OVERWINTERED_FLAG,
+  getConsensusBranchId
+} from './consensus';
+import {
+  blake2bPersonal,
+  encodeOutpoint,
+  encodeTxOut,
+  encodeScript,
+  computeTxDigests,
+  combineTxDigests,
+  computePrevoutsDigest,
+  computeSequenceDigest,
+  computeOutputsDigest
+} from './zip244';
+
+/**
+ * Signature hash types
+ */
+export const SIGHASH_ALL = 0x01;
+export const SIGHASH_NONE = 0x02;
+export const SIGHASH_SINGLE = 0x03;
+export const SIGHASH_ANYONECANPAY = 0x80;
+
+/**
+ * Blocks between the target height and the default expiry height
+ */
+export const DEFAULT_TX_EXPIRY_DELTA = 20;
+
+/**
+ * Transaction fields committed to by the signature hash
+ */
+export interface SighashTransaction {
+  version: number;
+  versionGroupId: number;
+  consensusBranchId: number;
+  lockTime: number;
+  expiryHeight: number;
+  transparentInputs: TransparentInput[];
+  transparentOutputs: TransparentOutput[];
+  saplingBundle?: ShieldedBundle | null;
+  /** Orchard bundle (v5 only) */
+  orchardBundle?: OrchardBundle | null;
+  /** Sprout JoinSplits (v4 only) */
+  joinsplits?: JoinSplit[];
+  /** JoinSplit signing key (hex), required with joinsplits */
+  joinSplitPubKey?: string;
+}
+
+/**
+ * Transparent input being signed
+ */
+export interface SignableTransparentInput {
+  /** Index of the input in the transaction */
+  index: number;
+  /** Script code (the scriptPubKey for P2PKH, the redeem script for P2SH), hex */
+  scriptCode: string;
+  /** Value of the output being spent, in zatoshi */
+  value: number;
+}
+
+/**
+ * Compute the signature hash for a transaction
+ *
+ * Pass `input` to sign a transparent input. Omit it for the shielded
+ * signature hash shared by spend authorization and binding signatures.
+ */
+export function computeSignatureHash(
+  tx: SighashTransaction,
+  hashType: number = SIGHASH_ALL,
+  input?: SignableTransparentInput
+): Uint8Array {
+  validateHashType(hashType);
+
+  if (input && (input.index < 0 || input.index >= tx.transparentInputs.length)) {
+    throw new Error(
+      `Input index ${input.index} out of range (${tx.transparentInputs.length} inputs)`
+    );
+  }
+
+  if (tx.version >= NU5_TX_VERSION) {
+    return computeZip244SignatureHash(tx, hashType, input);
+  }
+  return computeZip243SignatureHash(tx, hashType, input);
+}
+
+/**
+ * ZIP-243 signature hash (v4 transactions)
+ */
+export function computeZip243SignatureHash(
+  tx: SighashTransaction,
+  hashType: number,
+  input?: SignableTransparentInput
+): Uint8Array {
+  const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+  const baseType = hashType & 0x1f;
+  const zero: Uint8Array = new Uint8Array(32);
+
+  const hashPrevouts = !anyoneCanPay
+    ? blake2bPersonal('ZcashPrevoutHash', concatBytes(...tx.transparentInputs.map(encodeOutpoint)))
+    : zero;
+
+  const hashSequence = !anyoneCanPay && baseType !== SIGHASH_SINGLE && baseType !== SIGHASH_NONE
+    ? blake2bPersonal(
+        'ZcashSequencHash',
+        concatBytes(...tx.transparentInputs.map(i => numberToLEBytes(i.sequence >>> 0, 4)))
+      )
+    : zero;
+
+  let hashOutputs: Uint8Array = zero;
+  if (baseType !== SIGHASH_SINGLE && baseType !== SIGHASH_NONE) {
+    hashOutputs = blake2bPersonal(
+      'ZcashOutputsHash',
+      concatBytes(...tx.transparentOutputs.map(encodeTxOut))
+    );
+  } else if (baseType === SIGHASH_SINGLE && input && input.index < tx.transparentOutputs.length) {
+    hashOutputs = blake2bPersonal('ZcashOutputsHash', encodeTxOut(tx.transparentOutputs[input.index]));
+  }
+
+  const joinsplits = tx.joinsplits ?? [];
+  if (joinsplits.length > 0 && !tx.joinSplitPubKey) {
+    throw new Error('Transactions with JoinSplits require joinSplitPubKey');
+  }
+
+  const hashJoinSplits = joinsplits.length > 0
+    ? blake2bPersonal('ZcashJSplitsHash', concatBytes(
+        ...joinsplits.map(encodeJoinSplit),
+        hexToBytes(tx.joinSplitPubKey!)
+      ))
+    : zero;
+
+  const spends = tx.saplingBundle?.spends ?? [];
+  const outputs = tx.saplingBundle?.outputs ?? [];
+
+  const hashShieldedSpends = spends.length > 0
+    ? blake2bPersonal('ZcashSSpendsHash', concatBytes(...spends.map(spend => concatBytes(
+        spend.cv,
+        spend.anchor,
+        spend.nullifier,
+        spend.rk,
+        spend.zkproof
+      ))))
+    : zero;
+
+  const hashShieldedOutputs = outputs.length > 0
+    ? blake2bPersonal('ZcashSOutputHash', concatBytes(...outputs.map(output => concatBytes(
+        output.cv,
+        output.cmu,
+        output.ephemeralKey,
+        output.encCiphertext,
+        output.outCiphertext,
+        output.zkproof
+      ))))
+    : zero;
+
+  const parts: Uint8Array[] = [
+    u32((tx.version | OVERWINTERED_FLAG) >>> 0),
+    u32(tx.versionGroupId),
+    hashPrevouts,
+    hashSequence,
+    hashOutputs,
+    hashJoinSplits,
+    hashShieldedSpends,
+    hashShieldedOutputs,
+    u32(tx.lockTime),
+    u32(tx.expiryHeight),
+    bigintToLEBytes(BigInt.asUintN(64, tx.saplingBundle?.valueBalance ?? 0n), 8),
+    u32(hashType)
+  ];
+
+  if (input) {
+    const txIn = tx.transparentInputs[input.index];
+    parts.push(
+      encodeOutpoint(txIn),
+      encodeScript(input.scriptCode),
+      bigintToLEBytes(BigInt(input.value), 8),
+      u32(txIn.sequence)
+    );
+  }
+
+  return blake2b(concatBytes(...parts), {
+    dkLen: 32,
+    personalization: branchPersonalization('ZcashSigHash', tx.consensusBranchId)
+  });
+}
+
+/**
+ * Encode a Sprout JoinSplit description with its Groth16 proof
+ */
+function encodeJoinSplit(js: JoinSplit): Uint8Array {
+  return concatBytes(
+    bigintToLEBytes(js.vpubOld, 8),
+    bigintToLEBytes(js.vpubNew, 8),
+    js.anchor,
+    ...js.nullifiers,
+    ...js.commitments,
+    js.ephemeralKey,
+    js.randomSeed,
+    ...js.macs,
+    js.zkproof,
+    ...js.ciphertexts
+  );
+}
+
+/**
+ * ZIP-244 signature hash (v5 transactions)
+ */
+export function computeZip244SignatureHash(
+  tx: SighashTransaction,
+  hashType: number,
+  input?: SignableTransparentInput
+): Uint8Array {
+  const digests = computeTxDigests({
+    header: (tx.version | OVERWINTERED_FLAG) >>> 0,
+    versionGroupId: tx.versionGroupId,
+    consensusBranchId: tx.consensusBranchId,
+    lockTime: tx.lockTime,
+    expiryHeight: tx.expiryHeight,
+    transparentInputs: tx.transparentInputs,
+    transparentOutputs: tx.transparentOutputs,
+    saplingBundle: tx.saplingBundle,
+    orchardBundle: tx.orchardBundle
+  });
+
+  // S.2: with no transparent inputs the txid transparent digest is reused
+  if (tx.transparentInputs.length > 0) {
+    digests.transparentDigest = computeTransparentSigDigest(tx, hashType, input);
+  }
+
+  return combineTxDigests(digests, tx.consensusBranchId);
+}
+
+/**
+ * transparent_sig_digest (ZIP-244 S.2)
+ */
+function computeTransparentSigDigest(
+  tx: SighashTransaction,
+  hashType: number,
+  input?: SignableTransparentInput
+): Uint8Array {
+  const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+  const baseType = hashType & 0x1f;
+  const empty = new Uint8Array(0);
+
+  const prevoutsDigest = anyoneCanPay
+    ? blake2bPersonal('ZTxIdPrevoutHash', empty)
+    : computePrevoutsDigest(tx.transparentInputs);
+
+  const amountsDigest = blake2bPersonal(
+    'ZTxTrAmountsHash',
+    anyoneCanPay
+      ? empty
+      : concatBytes(...tx.transparentInputs.map(i => bigintToLEBytes(BigInt(i.value), 8)))
+  );
+
+  const scriptPubKeysDigest = blake2bPersonal(
+    'ZTxTrScriptsHash',
+    anyoneCanPay
+      ? empty
+      : concatBytes(...tx.transparentInputs.map(i => encodeScript(i.scriptPubKey)))
+  );
+
+  const sequenceDigest = anyoneCanPay
+    ? blake2bPersonal('ZTxIdSequencHash', empty)
+    : computeSequenceDigest(tx.transparentInputs);
+
+  let outputsDigest: Uint8Array;
+  if (baseType !== SIGHASH_SINGLE && baseType !== SIGHASH_NONE) {
+    outputsDigest = computeOutputsDigest(tx.transparentOutputs);
+  } else if (baseType === SIGHASH_SINGLE && input && input.index < tx.transparentOutputs.length) {
+    outputsDigest = blake2bPersonal('ZTxIdOutputsHash', encodeTxOut(tx.transparentOutputs[input.index]));
+  } else {
+    outputsDigest = blake2bPersonal('ZTxIdOutputsHash', empty);
+  }
+
+  let txInDigest: Uint8Array;
+  if (input) {
+    const txIn = tx.transparentInputs[input.index];
+    txInDigest = blake2bPersonal('Zcash___TxInHash', concatBytes(
+      encodeOutpoint(txIn),
+      bigintToLEBytes(BigInt(input.value), 8),
+      encodeScript(input.scriptCode),
+      u32(txIn.sequence)
+    ));
+  } else {
+    txInDigest = blake2bPersonal('Zcash___TxInHash', empty);
+  }
+
+  return blake2bPersonal('ZTxIdTranspaHash', concatBytes(
+    new Uint8Array([hashType]),
+    prevoutsDigest,
+    amountsDigest,
+    scriptPubKeysDigest,
+    sequenceDigest,
+    outputsDigest,
+    txInDigest
+  ));
+}
+
+/**
+ * Resolve the consensus branch ID for signing
+ *
+ * Uses the branch ID carried by the transaction. Older callers that only
+ * set an expiry height get the branch ID active at expiry minus the
+ * default expiry delta.
+ */
+export function resolveConsensusBranchId(
+  tx: { consensusBranchId?: number; expiryHeight: number },
+  network: Network
+): number {
+  if (tx.consensusBranchId !== undefined) {
+    return tx.consensusBranchId >>> 0;
+  }
+
+  if (tx.expiryHeight > DEFAULT_TX_EXPIRY_DELTA) {
+    return getConsensusBranchId(network, tx.expiryHeight - DEFAULT_TX_EXPIRY_DELTA);
+  }
+
+  throw new Error(
+    'Cannot determine the consensus branch ID: the transaction has neither ' +
+    'consensusBranchId nor an expiry height. Build it with a target height.'
+  );
+}
+
+/**
+ * Check that a hash type is one of the defined combinations
+ */
+function validateHashType(hashType: number): void {
+  const baseType = hashType & ~SIGHASH_ANYONECANPAY;
+  if (
+    hashType < 0 ||
+    hashType > 0xff ||
+    (baseType !== SIGHASH_ALL && baseType !== SIGHASH_NONE && baseType !== SIGHASH_SINGLE)
+  ) {
+    throw new Error(`Invalid signature hash type: 0x${hashType.toString(16)}`);
+  }
+}
+
+/**
+ * 16-byte personalization: 12-byte prefix || consensus branch ID (LE)
+ */
+function branchPersonalization(prefix: string, consensusBranchId: number): Uint8Array {
+  return concatBytes(stringToBytes(prefix), u32(consensusBranchId));
+}
+
+/**
+ * Encode an unsigned 32-bit little-endian integer
+ */
+function u32(value: number): Uint8Array {
+  return numberToLEBytes(value >>> 0, 4);
+}
@@ -6,53 +6,188 @@
 import { secp256k1 } from '@noble/curves/secp256k1';
 import { sha256 } from '@noble/hashes/sha256';
 import type {
+  Network,
   Transaction,
   TransparentInput,
   SignedTransaction
 } from '../types/index';
+import type { ShieldedBundle } from '../shielded/types.js';
+import { createP2SHScriptFromRedeemScript, decodeMultisigRedeemScript } from '../address/script';
+import type { MultisigSignature } from '../address/script';
+import { concatBytes } from '../utils/bytes';
 import { TransactionSerializer } from './serialization';
+import { NU5_TX_VERSION, SAPLING_VERSION_GROUP_ID, OVERWINTERED_FLAG } from './consensus';
+import { computeTxId } from './zip244';
+import {
+  computeSignatureHash,
+  resolveConsensusBranchId,
+  SIGHASH_ALL
+} from './sighash';
 
 /**
  * Transaction Signer
  */
 export class ZcashSigner {
   private serializer: TransactionSerializer;
+  private network: Network;
 
-  constructor() {
+  /**
+   * @param network - Network used to infer the consensus branch ID for
+   *   transactions that do not carry one
+   */
+  constructor(network: Network = 'testnet') {
     this.serializer = new TransactionSerializer();
+    this.network = network;
   }
 
   /**
    * Sign transparent transaction
+   *
+   * @param privateKey - Key for every input, or one key per input when the
+   *   inputs spend from several addresses
+   * @param saplingBundle - Sapling bundle of a mixed transaction; the
+   *   signature hash commits to it, so sign after proofs are generated
+   * @param hashType - Signature hash type (defaults to SIGHASH_ALL)
    */
   signTransparentTransaction(
     tx: Transaction,
-    privateKey: Uint8Array,
-    inputs: TransparentInput[]
+    privateKey: Uint8Array | Uint8Array[],
+    inputs: TransparentInput[],
+    saplingBundle?: ShieldedBundle | null,
+    hashType: number = SIGHASH_ALL
   ): SignedTransaction {
+    const inputKeys = Array.isArray(privateKey) ? privateKey : inputs.map(() => privateKey);
+    if (inputKeys.length !== inputs.length) {
+      throw new Error(`Expected ${inputs.length} signing keys, got ${inputKeys.length}`);
+    }
+
     // Create a copy of the transaction for signing
-    const txCopy = { ...tx };
+    const txCopy: Transaction = {
+      ...tx,
+      consensusBranchId: resolveConsensusBranchId(tx, this.network),
+      transparentInputs: [...tx.transparentInputs]
+    };
 
-    // Sign each input
+    // Sign each input (scriptSigs are not part of the signature hash)
+    const scriptSigs: string[] = [];
     for (let i = 0; i < inputs.length; i++) {
       const input = inputs[i];
-      const signature = this.signInput(txCopy, i, privateKey, input.scriptPubKey);
-      
-      // Add signature to input
+      const signature = this.signInput(
+        txCopy,
+        i,
+        inputKeys[i],
+        input.scriptPubKey,
+        input.value,
+        saplingBundle,
+        hashType
+      );
+      scriptSigs.push(this.createScriptSig(signature, inputKeys[i], hashType));
+    }
+
+    // Add signatures to inputs
+    for (let i = 0; i < scriptSigs.length; i++) {
       txCopy.transparentInputs[i] = {
         ...txCopy.transparentInputs[i],
-        scriptSig: this.createScriptSig(signature, privateKey)
+        scriptSig: scriptSigs[i]
       };
     }
 
+    return this.finalizeTransaction(txCopy);
+  }
+
+  /**
+   * Sign one transparent input and return its scriptSig
+   *
+   * Lets several key holders each sign the inputs they own. The transaction
+   * must carry its consensus branch ID.
+   *
+   * @param saplingBundle - Sapling bundle of a mixed transaction, with proofs
+   */
+  signTransparentInput(
+    tx: Transaction,
+    inputIndex: number,
+    privateKey: Uint8Array,
+    saplingBundle?: ShieldedBundle | null,
+    hashType: number = SIGHASH_ALL
+  ): string {
+    const input = tx.transparentInputs[inputIndex];
+    if (!input) {
+      throw new Error(`Input index ${inputIndex} out of range (${tx.transparentInputs.length} inputs)`);
+    }
+
+    const signature = this.signInput(
+      tx,
+      inputIndex,
+      privateKey,
+      input.scriptPubKey,
+      input.value,
+      saplingBundle,
+      hashType
+    );
+    return this.createScriptSig(signature, privateKey, hashType);
+  }
+
+  /**
+   * Sign a P2SH multisig input with one of its keys
+   *
+   * Each cosigner signs in turn; createMultisigScriptSig builds the scriptSig
+   * once enough signatures are collected.
+   *
+   * @param redeemScript - Multisig redeem script of the input, hex or bytes
+   * @returns The key's signature for createMultisigScriptSig
+   */
+  signMultisigInput(
+    tx: Transaction,
+    inputIndex: number,
+    privateKey: Uint8Array,
+    redeemScript: Uint8Array | string,
+    saplingBundle?: ShieldedBundle | null,
+    hashType: number = SIGHASH_ALL
+  ): MultisigSignature {
+    const input = tx.transparentInputs[inputIndex];
+    if (!input) {
+      throw new Error(`Input index ${inputIndex} out of range (${tx.transparentInputs.length} inputs)`);
+    }
+
+    const script = typeof redeemScript === 'string' ? this.hexToBytes(redeemScript) : redeemScript;
+    if (this.bytesToHex(createP2SHScriptFromRedeemScript(script)) !== input.scriptPubKey.toLowerCase()) {
+      throw new Error(`Redeem script does not match the scriptPubKey of input ${inputIndex}`);
+    }
+
+    const publicKey = secp256k1.getPublicKey(privateKey, true);
+    const { publicKeys } = decodeMultisigRedeemScript(script);
+    if (!publicKeys.some(key => this.bytesToHex(key) === this.bytesToHex(publicKey))) {
+      throw new Error('Key is not part of the multisig redeem script');
+    }
+
+    // The redeem script is the script code of a P2SH input
+    const signature = this.signInput(
+      tx,
+      inputIndex,
+      privateKey,
+      this.bytesToHex(script),
+      input.value,
+      saplingBundle,
+      hashType
+    );
+
+    return { publicKey, signature: concatBytes(signature, new Uint8Array([hashType])) };
+  }
+
+  /**
+   * Serialize a transparent transaction whose inputs are all signed
+   */
+  finalizeTransaction(tx: Transaction): SignedTransaction {
     // Serialize transaction
-    const rawTx = this.serializer.serialize(txCopy);
+    const rawTx = this.serializer.serialize(tx);
 
     // Calculate transaction hash
-    const txHash = this.calculateTxHash(rawTx);
+    const txHash = tx.version >= NU5_TX_VERSION
+      ? this.calculateTxIdV5(tx)
+      : this.calculateTxHash(rawTx);
 
     return {
-      tx: txCopy,
+      tx,
       txHash,
       rawTx
     };
@@ -65,10 +200,13 @@ export class ZcashSigner {
     tx: Transaction,
     inputIndex: number,
     privateKey: Uint8Array,
-    scriptPubKey: string
+    scriptPubKey: string,
+    value: number,
+    saplingBundle: ShieldedBundle | null | undefined,
+    hashType: number
   ): Uint8Array {
     // Create signature hash
-    const hash = this.createSignatureHash(tx, inputIndex, scriptPubKey);
+    const hash = this.createSignatureHash(tx, inputIndex, scriptPubKey, value, saplingBundle, hashType);
 
     // Sign with ECDSA using @noble/curves
     const signature = secp256k1.sign(hash, privateKey);
@@ -79,37 +217,41 @@ export class ZcashSigner {
 
   /**
    * Create signature hash for input
-   * This implements Zcash's signature hash algorithm
+   * ZIP-243 for v4 transactions, ZIP-244 for v5
    */
   private createSignatureHash(
     tx: Transaction,
     inputIndex: number,
-    scriptPubKey: string
+    scriptPubKey: string,
+    value: number,
+    saplingBundle: ShieldedBundle | null | undefined,
+    hashType: number
   ): Uint8Array {
-    // Zcash uses a modified version of Bitcoin's signature hash
-    // For now, using a simplified version
-    // Full implementation would follow Zcash's exact specification
-
-    // Serialize transaction with this input's script replaced
-    const txCopy = { ...tx };
-    
-    // Replace all scripts with scriptPubKey for this input, empty for others
-    txCopy.transparentInputs = txCopy.transparentInputs.map((input, i) => ({
-      ...input,
-      scriptSig: i === inputIndex ? scriptPubKey : ''
-    }));
-
-    // Serialize
-    const serialized = this.serializer.serialize(txCopy);
-
-    // Hash
-    return sha256(sha256(this.hexToBytes(serialized)));
+    return computeSignatureHash(
+      {
+        version: tx.version,
+        versionGroupId: tx.versionGroupId ?? SAPLING_VERSION_GROUP_ID,
+        consensusBranchId: tx.consensusBranchId!,
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight,
+        transparentInputs: tx.transparentInputs,
+        transparentOutputs: tx.transparentOutputs,
+        saplingBundle,
+        orchardBundle: tx.orchardBundle
+      },
+      hashType,
+      { index: inputIndex, scriptCode: scriptPubKey, value }
+    );
   }
 
   /**
    * Create script signature (scriptSig)
    */
-  private createScriptSig(signature: Uint8Array, privateKey: Uint8Array): string {
+  private createScriptSig(
+    signature: Uint8Array,
+    privateKey: Uint8Array,
+    hashType: number = SIGHASH_ALL
+  ): string {
     // Get public key from private key
     const publicKey = secp256k1.getPublicKey(privateKey);
 
@@ -117,8 +259,8 @@ export class ZcashSigner {
     const signatureHex = this.bytesToHex(signature);
     const publicKeyHex = this.bytesToHex(publicKey);
 
-    // Push signature (with SIGHASH_ALL)
-    const sigWithHash = signatureHex + '01'; // 01 = SIGHASH_ALL
+    // Push signature with the hash type byte
+    const sigWithHash = signatureHex + hashType.toString(16).padStart(2, '0');
 
     // Push public key
     // Script format: [signature length][signature][publicKey length][publicKey]
@@ -137,6 +279,26 @@ export class ZcashSigner {
     return this.bytesToHex(new Uint8Array(hash).reverse()); // Reverse for little-endian
   }
 
+  /**
+   * Calculate v5 transaction ID (ZIP-244)
+   */
+  private calculateTxIdV5(tx: Transaction): string {
+    if (tx.versionGroupId === undefined || tx.consensusBranchId === undefined) {
+      throw new Error('v5 transactions require versionGroupId and consensusBranchId');
+    }
+    return computeTxId({
+      header: (tx.version | OVERWINTERED_FLAG) >>> 0,
+      versionGroupId: tx.versionGroupId,
+      consensusBranchId: tx.consensusBranchId,
+      lockTime: tx.lockTime,
+      expiryHeight: tx.expiryHeight,
+      transparentInputs: tx.transparentInputs,
+      transparentOutputs: tx.transparentOutputs,
+      saplingBundle: tx.saplingBundle,
+      orchardBundle: tx.orchardBundle
+    });
+  }
+
   /**
    * Convert hex string to bytes
    */
@@ -4,13 +4,13 @@
  */
 
 import type { Transaction, ValidationResult, TransparentInput, TransparentOutput } from '../types/index';
+import { computeConventionalFee, getTransparentOutputsSize } from './fees';
 
 /**
  * Transaction constants
  */
 const MIN_VERSION = 1;
 const MAX_VERSION = 5;
-const MINIMUM_FEE = 1000; // zatoshi
 const MAX_TRANSACTION_SIZE = 2000000; // bytes
 
 /**
@@ -42,8 +42,10 @@ export class TransactionValidator {
       errors.push(`Transaction expired: expiry height ${tx.expiryHeight} < current height ${this.currentBlockHeight}`);
     }
 
-    // 3. Validate inputs
-    if (tx.transparentInputs.length === 0 && (!tx.shieldedInputs || tx.shieldedInputs.length === 0)) {
+    // 3. Validate inputs (Orchard actions each spend a note)
+    const orchardActions = tx.orchardBundle?.actions.length ?? 0;
+    if (tx.transparentInputs.length === 0 && (!tx.shieldedInputs || tx.shieldedInputs.length === 0) &&
+        orchardActions === 0) {
       errors.push('Transaction must have at least one input');
     }
 
@@ -53,8 +55,9 @@ export class TransactionValidator {
       errors.push(...inputErrors);
     }
 
-    // 4. Validate outputs
-    if (tx.transparentOutputs.length === 0 && (!tx.shieldedOutputs || tx.shieldedOutputs.length === 0)) {
+    // 4. Validate outputs (Orchard actions each create a note)
+    if (tx.transparentOutputs.length === 0 && (!tx.shieldedOutputs || tx.shieldedOutputs.length === 0) &&
+        orchardActions === 0) {
       errors.push('Transaction must have at least one output');
     }
 
@@ -157,7 +160,7 @@ export class TransactionValidator {
   }
 
   /**
-   * Validate balance (inputs >= outputs + fee)
+   * Validate balance (inputs >= outputs + ZIP-317 conventional fee)
    */
   private validateBalance(tx: Transaction): ValidationResult {
     const errors: string[] = [];
@@ -168,12 +171,19 @@ export class TransactionValidator {
     // Sum transparent outputs
     const outputTotal = tx.transparentOutputs.reduce((sum, output) => sum + output.value, 0);
 
-    // Calculate fee
-    const fee = inputTotal - outputTotal;
-
-    // Check fee is sufficient
-    if (fee < MINIMUM_FEE) {
-      errors.push(`Fee too low: ${fee} zatoshi < ${MINIMUM_FEE} zatoshi`);
+    // Calculate fee (value leaving the shielded pools counts towards it)
+    const fee = inputTotal - outputTotal + (tx.valueBalance ?? 0) + Number(tx.orchardBundle?.valueBalance ?? 0n);
+
+    // Check fee meets the conventional fee, so the transaction is relayed
+    const conventionalFee = computeConventionalFee({
+      transparentInputs: tx.transparentInputs.length,
+      transparentOutputBytes: getTransparentOutputsSize(tx.transparentOutputs),
+      saplingSpends: tx.shieldedInputs?.length ?? 0,
+      saplingOutputs: tx.shieldedOutputs?.length ?? 0,
+      orchardActions: tx.orchardBundle?.actions.length ?? 0
+    });
+    if (fee < conventionalFee) {
+      errors.push(`Fee too low: ${fee} zatoshi < ${conventionalFee} zatoshi (ZIP-317)`);
     }
 
     // Check balance is positive
@@ -290,6 +300,16 @@ export class TransactionValidator {
       size += 64; // bindingSig
     }
 
+    // Orchard bundle (v5)
+    if (tx.orchardBundle) {
+      const { actions, proof } = tx.orchardBundle;
+      size += this.compactSizeSize(actions.length);
+      size += actions.length * (32 + 32 + 32 + 32 + 32 + 580 + 80 + 64); // actions with spendAuthSig
+      size += 1 + 8 + 32; // flags + valueBalance + anchor
+      size += this.compactSizeSize(proof.length) + proof.length;
+      size += 64; // bindingSig
+    }
+
     size += 4 + 4; // lockTime + expiryHeight
 
     return size;
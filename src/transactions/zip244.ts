@@ -0,0 +1,317 @@
+/**
+ * ZIP-244 Transaction Identifier Digests
+ * Computes the v5 transaction ID as a tree of personalized BLAKE2b-256 digests
+ *
+ * txid_digest
+ * ├── header_digest
+ * ├── transparent_digest (prevouts, sequence, outputs)
+ * ├── sapling_digest (spends, outputs, valueBalance)
+ * └── orchard_digest (actions, flags, valueBalance, anchor)
+ */
+
+import { blake2b } from '@noble/hashes/blake2b';
+import type { TransparentInput, TransparentOutput } from '../types/index';
+import type { ShieldedBundle, OrchardBundle } from '../shielded/types.js';
+import {
+  concatBytes,
+  bytesToHex,
+  hexToBytes,
+  reverseBytes,
+  numberToLEBytes,
+  bigintToLEBytes,
+  stringToBytes
+} from '../utils/bytes';
+
+/**
+ * Fields committed to by the ZIP-244 transaction ID
+ */
+export interface TxDigestParts {
+  /** Raw header field (version with fOverwintered flag) */
+  header: number;
+  versionGroupId: number;
+  consensusBranchId: number;
+  lockTime: number;
+  expiryHeight: number;
+  transparentInputs: TransparentInput[];
+  transparentOutputs: TransparentOutput[];
+  saplingBundle?: ShieldedBundle | null;
+  orchardBundle?: OrchardBundle | null;
+}
+
+/**
+ * Digests of the individual transaction components
+ */
+export interface TxDigests {
+  headerDigest: Uint8Array;
+  transparentDigest: Uint8Array;
+  saplingDigest: Uint8Array;
+  orchardDigest: Uint8Array;
+}
+
+/**
+ * BLAKE2b-256 with a 16-byte ASCII personalization
+ */
+export function blake2bPersonal(personalization: string | Uint8Array, data: Uint8Array): Uint8Array {
+  const personal = typeof personalization === 'string'
+    ? stringToBytes(personalization)
+    : personalization;
+  if (personal.length !== 16) {
+    throw new Error(`BLAKE2b personalization must be 16 bytes, got ${personal.length}`);
+  }
+  return blake2b(data, { dkLen: 32, personalization: personal });
+}
+
+/**
+ * Encode a transparent outpoint: prevout hash (internal byte order) || index
+ */
+export function encodeOutpoint(input: TransparentInput): Uint8Array {
+  const hash = new Uint8Array(32);
+  hash.set(reverseBytes(hexToBytes(input.txHash)).slice(0, 32));
+  return concatBytes(hash, numberToLEBytes(input.index, 4));
+}
+
+/**
+ * Encode a transparent output: value || compactSize(script) || script
+ */
+export function encodeTxOut(output: TransparentOutput): Uint8Array {
+  return concatBytes(
+    bigintToLEBytes(BigInt(output.value), 8),
+    encodeScript(output.scriptPubKey)
+  );
+}
+
+/**
+ * Encode a hex script with its compact size length prefix
+ */
+export function encodeScript(scriptHex: string | undefined): Uint8Array {
+  const script = scriptHex ? hexToBytes(scriptHex) : new Uint8Array(0);
+  return concatBytes(encodeCompactSize(script.length), script);
+}
+
+/**
+ * Encode a compact size integer
+ */
+export function encodeCompactSize(value: number): Uint8Array {
+  if (value < 0xfd) {
+    return new Uint8Array([value]);
+  } else if (value <= 0xffff) {
+    return concatBytes(new Uint8Array([0xfd]), numberToLEBytes(value, 2));
+  } else if (value <= 0xffffffff) {
+    return concatBytes(new Uint8Array([0xfe]), numberToLEBytes(value, 4));
+  }
+  return concatBytes(new Uint8Array([0xff]), bigintToLEBytes(BigInt(value), 8));
+}
+
+/**
+ * header_digest (T.1)
+ */
+export function computeHeaderDigest(parts: TxDigestParts): Uint8Array {
+  return blake2bPersonal('ZTxIdHeadersHash', concatBytes(
+    u32(parts.header),
+    u32(parts.versionGroupId),
+    u32(parts.consensusBranchId),
+    u32(parts.lockTime),
+    u32(parts.expiryHeight)
+  ));
+}
+
+/**
+ * prevouts_digest (T.2a)
+ */
+export function computePrevoutsDigest(inputs: TransparentInput[]): Uint8Array {
+  return blake2bPersonal('ZTxIdPrevoutHash', concatBytes(...inputs.map(encodeOutpoint)));
+}
+
+/**
+ * sequence_digest (T.2b)
+ */
+export function computeSequenceDigest(inputs: TransparentInput[]): Uint8Array {
+  return blake2bPersonal(
+    'ZTxIdSequencHash',
+    concatBytes(...inputs.map(input => u32(input.sequence)))
+  );
+}
+
+/**
+ * outputs_digest (T.2c)
+ */
+export function computeOutputsDigest(outputs: TransparentOutput[]): Uint8Array {
+  return blake2bPersonal('ZTxIdOutputsHash', concatBytes(...outputs.map(encodeTxOut)));
+}
+
+/**
+ * transparent_digest (T.2)
+ */
+export function computeTransparentDigest(
+  inputs: TransparentInput[],
+  outputs: TransparentOutput[]
+): Uint8Array {
+  if (inputs.length === 0 && outputs.length === 0) {
+    return blake2bPersonal('ZTxIdTranspaHash', new Uint8Array(0));
+  }
+
+  return blake2bPersonal('ZTxIdTranspaHash', concatBytes(
+    computePrevoutsDigest(inputs),
+    computeSequenceDigest(inputs),
+    computeOutputsDigest(outputs)
+  ));
+}
+
+/**
+ * sapling_spends_digest (T.3a)
+ */
+export function computeSaplingSpendsDigest(bundle: ShieldedBundle): Uint8Array {
+  if (bundle.spends.length === 0) {
+    return blake2bPersonal('ZTxIdSSpendsHash', new Uint8Array(0));
+  }
+
+  const compact = blake2bPersonal(
+    'ZTxIdSSpendCHash',
+    concatBytes(...bundle.spends.map(spend => spend.nullifier))
+  );
+  const noncompact = blake2bPersonal(
+    'ZTxIdSSpendNHash',
+    concatBytes(...bundle.spends.map(spend => concatBytes(spend.cv, spend.anchor, spend.rk)))
+  );
+
+  return blake2bPersonal('ZTxIdSSpendsHash', concatBytes(compact, noncompact));
+}
+
+/**
+ * sapling_outputs_digest (T.3b)
+ */
+export function computeSaplingOutputsDigest(bundle: ShieldedBundle): Uint8Array {
+  if (bundle.outputs.length === 0) {
+    return blake2bPersonal('ZTxIdSOutputHash', new Uint8Array(0));
+  }
+
+  const compact = blake2bPersonal(
+    'ZTxIdSOutC__Hash',
+    concatBytes(...bundle.outputs.map(output => concatBytes(
+      output.cmu,
+      output.ephemeralKey,
+      output.encCiphertext.slice(0, 52)
+    )))
+  );
+  const memos = blake2bPersonal(
+    'ZTxIdSOutM__Hash',
+    concatBytes(...bundle.outputs.map(output => output.encCiphertext.slice(52, 564)))
+  );
+  const noncompact = blake2bPersonal(
+    'ZTxIdSOutN__Hash',
+    concatBytes(...bundle.outputs.map(output => concatBytes(
+      output.cv,
+      output.encCiphertext.slice(564),
+      output.outCiphertext
+    )))
+  );
+
+  return blake2bPersonal('ZTxIdSOutputHash', concatBytes(compact, memos, noncompact));
+}
+
+/**
+ * sapling_digest (T.3)
+ */
+export function computeSaplingDigest(bundle?: ShieldedBundle | null): Uint8Array {
+  if (!bundle || (bundle.spends.length === 0 && bundle.outputs.length === 0)) {
+    return blake2bPersonal('ZTxIdSaplingHash', new Uint8Array(0));
+  }
+
+  return blake2bPersonal('ZTxIdSaplingHash', concatBytes(
+    computeSaplingSpendsDigest(bundle),
+    computeSaplingOutputsDigest(bundle),
+    bigintToLEBytes(BigInt.asUintN(64, bundle.valueBalance), 8)
+  ));
+}
+
+/**
+ * orchard_digest (T.4)
+ */
+export function computeOrchardDigest(bundle?: OrchardBundle | null): Uint8Array {
+  if (!bundle || bundle.actions.length === 0) {
+    return blake2bPersonal('ZTxIdOrchardHash', new Uint8Array(0));
+  }
+
+  const compact = blake2bPersonal(
+    'ZTxIdOrcActCHash',
+    concatBytes(...bundle.actions.map(action => concatBytes(
+      action.nullifier,
+      action.cmx,
+      action.ephemeralKey,
+      action.encCiphertext.slice(0, 52)
+    )))
+  );
+  const memos = blake2bPersonal(
+    'ZTxIdOrcActMHash',
+    concatBytes(...bundle.actions.map(action => action.encCiphertext.slice(52, 564)))
+  );
+  const noncompact = blake2bPersonal(
+    'ZTxIdOrcActNHash',
+    concatBytes(...bundle.actions.map(action => concatBytes(
+      action.cv,
+      action.rk,
+      action.encCiphertext.slice(564),
+      action.outCiphertext
+    )))
+  );
+
+  return blake2bPersonal('ZTxIdOrchardHash', concatBytes(
+    compact,
+    memos,
+    noncompact,
+    new Uint8Array([bundle.flags]),
+    bigintToLEBytes(BigInt.asUintN(64, bundle.valueBalance), 8),
+    bundle.anchor
+  ));
+}
+
+/**
+ * Compute all component digests
+ */
+export function computeTxDigests(parts: TxDigestParts): TxDigests {
+  return {
+    headerDigest: computeHeaderDigest(parts),
+    transparentDigest: computeTransparentDigest(parts.transparentInputs, parts.transparentOutputs),
+    saplingDigest: computeSaplingDigest(parts.saplingBundle),
+    orchardDigest: computeOrchardDigest(parts.orchardBundle)
+  };
+}
+
+/**
+ * Combine component digests into the txid digest, personalized with
+ * "ZcashTxHash_" || consensusBranchId
+ */
+export function combineTxDigests(digests: TxDigests, consensusBranchId: number): Uint8Array {
+  return blake2bPersonal(
+    concatBytes(stringToBytes('ZcashTxHash_'), u32(consensusBranchId)),
+    concatBytes(
+      digests.headerDigest,
+      digests.transparentDigest,
+      digests.saplingDigest,
+      digests.orchardDigest
+    )
+  );
+}
+
+/**
+ * Compute the raw 32-byte ZIP-244 txid digest
+ */
+export function computeTxIdDigest(parts: TxDigestParts): Uint8Array {
+  return combineTxDigests(computeTxDigests(parts), parts.consensusBranchId);
+}
+
+/**
+ * Compute the v5 transaction ID as displayed by explorers and RPC
+ * (byte-reversed hex of the txid digest)
+ */
+export function computeTxId(parts: TxDigestParts): string {
+  return bytesToHex(reverseBytes(computeTxIdDigest(parts)));
+}
+
+/**
+ * Encode an unsigned 32-bit little-endian integer
+ */
+function u32(value: number): Uint8Array {
+  return numberToLEBytes(value >>> 0, 4);
+}
+
@@ -2,8 +2,10 @@
  * Core type definitions for Zcash-Miden integration
  */
 
+import type { ShieldedBundle, OrchardBundle } from '../shielded/types';
+
 export type Network = 'mainnet' | 'testnet';
-export type AddressType = 'transparent' | 'shielded' | 'orchard';
+export type AddressType = 'transparent' | 'shielded' | 'orchard' | 'unified';
 export type TransactionType = 'transparent' | 'shielded' | 'shielding' | 'deshielding';
 export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'expired';
 
@@ -14,17 +16,23 @@ export interface ZcashAddresses {
   tAddress: string;  // Transparent address
   zAddress: string;  // Shielded address (Sapling)
   orchardAddress?: string;  // Orchard address (if supported)
+  unifiedAddress?: string;  // ZIP-316 Unified Address (transparent + Sapling receivers)
 }
 
 /**
  * Derived Zcash keys from Miden account
  */
 export interface ZcashKeys {
-  spendingKey: Uint8Array;      // For shielded addresses
-  viewingKey: Uint8Array;        // For viewing shielded transactions
+  spendingKey: Uint8Array;      // For shielded addresses (ask || nsk)
+  viewingKey: Uint8Array;        // For viewing shielded transactions (ivk)
+  outgoingViewingKey?: Uint8Array;  // Sapling ovk
+  extendedSpendingKey?: string;     // ZIP-32 Bech32 (secret-extended-key-main/-test)
+  extendedFullViewingKey?: string;  // ZIP-32 Bech32 (zxviews/zxviewtestsapling)
   transparentPrivateKey: Uint8Array;  // For transparent addresses
+  transparentAccountKey?: Uint8Array;  // BIP44 account key m/44'/133'/account' (BIP32-serialized xprv/tprv)
   tAddress: string;
   zAddress: string;
+  unifiedAddress?: string;  // ZIP-316 Unified Address (transparent + Sapling receivers)
   orchardSpendingKey?: Uint8Array;  // For Orchard (if supported)
 }
 
@@ -45,6 +53,7 @@ export interface Balance {
 export interface Transaction {
   version: number;
   versionGroupId?: number;
+  consensusBranchId?: number;  // Required for v5 (ZIP-225)
   lockTime: number;
   expiryHeight: number;
   transparentInputs: TransparentInput[];
@@ -52,8 +61,12 @@ export interface Transaction {
   shieldedInputs?: Note[];
   shieldedOutputs?: ShieldedOutput[] | any[];  // Can be ShieldedOutput[] or ShieldedOutputDescription[]
   joinsplits?: JoinSplit[];
+  joinSplitPubKey?: string;  // Present when joinsplits is non-empty (v4)
+  joinSplitSig?: string;
   bindingSig?: string;
   valueBalance?: number;
+  saplingBundle?: ShieldedBundle;  // Full Sapling bundle (spends, outputs, proofs, signatures)
+  orchardBundle?: OrchardBundle;   // Orchard bundle (v5 only)
 }
 
 export interface TransparentInput {
@@ -63,6 +76,8 @@ export interface TransparentInput {
   scriptSig?: string;
   value: number;  // In zatoshi
   sequence: number;
+  address?: string;  // Address of the spent output, selects the signing key
+  redeemScript?: string;  // Redeem script of a P2SH input, hex
 }
 
 export interface TransparentOutput {
@@ -90,8 +105,17 @@ export interface ShieldedOutput {
 }
 
 export interface JoinSplit {
-  // Legacy Sprout support (if needed)
-  [key: string]: any;
+  // Legacy Sprout JoinSplit description (v4, Groth16 proof)
+  vpubOld: bigint;
+  vpubNew: bigint;
+  anchor: Uint8Array;
+  nullifiers: [Uint8Array, Uint8Array];
+  commitments: [Uint8Array, Uint8Array];
+  ephemeralKey: Uint8Array;
+  randomSeed: Uint8Array;
+  macs: [Uint8Array, Uint8Array];
+  zkproof: Uint8Array;  // 192 bytes
+  ciphertexts: [Uint8Array, Uint8Array];  // 601 bytes each
 }
 
 export interface SignedTransaction {
@@ -125,6 +149,14 @@ export interface ZcashProviderConfig {
   delegatedProverUrl?: string;
   syncInterval: number;  // milliseconds
   cacheSize: number;
+  /** File the transaction history is kept in under Node.js (browsers use IndexedDB) */
+  historyPath?: string;
+  /** File pending transactions are tracked in under Node.js (browsers use IndexedDB) */
+  trackerPath?: string;
+  /** File the read markers of memo messages are kept in under Node.js (browsers use IndexedDB) */
+  memoPath?: string;
+  /** Base URL of the Orchard WASM module; Orchard addresses are scanned and spent from once it loads (empty for the default) */
+  orchardWasmPath?: string;
 }
 
 export interface TransactionParams {
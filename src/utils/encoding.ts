@@ -110,6 +110,12 @@ for (let i = 0; i < BECH32_CHARSET.length; i++) {
   BECH32_CHARSET_MAP.set(BECH32_CHARSET[i], i);
 }
 
+/**
+ * Checksum constants for Bech32 (BIP-173) and Bech32m (BIP-350)
+ */
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
 /**
  * Bech32 polymod calculation
  */
@@ -144,11 +150,11 @@ function bech32HrpExpand(hrp: string): number[] {
 }
 
 /**
- * Calculate Bech32 checksum
+ * Calculate Bech32 or Bech32m checksum
  */
-function bech32CreateChecksum(hrp: string, data: number[]): number[] {
+function bech32CreateChecksum(hrp: string, data: number[], encodingConst: number): number[] {
   const values = bech32HrpExpand(hrp).concat(data).concat([0, 0, 0, 0, 0, 0]);
-  const polymod = bech32Polymod(values) ^ 1;
+  const polymod = bech32Polymod(values) ^ encodingConst;
   const checksum: number[] = [];
   for (let i = 0; i < 6; i++) {
     checksum.push((polymod >> (5 * (5 - i))) & 31);
@@ -157,10 +163,10 @@ function bech32CreateChecksum(hrp: string, data: number[]): number[] {
 }
 
 /**
- * Verify Bech32 checksum
+ * Verify Bech32 or Bech32m checksum
  */
-function bech32VerifyChecksum(hrp: string, data: number[]): boolean {
-  return bech32Polymod(bech32HrpExpand(hrp).concat(data)) === 1;
+function bech32VerifyChecksum(hrp: string, data: number[], encodingConst: number): boolean {
+  return bech32Polymod(bech32HrpExpand(hrp).concat(data)) === encodingConst;
 }
 
 /**
@@ -201,11 +207,25 @@ export function convertBits(
  * Encode to Bech32 string
  */
 export function bech32Encode(hrp: string, data: Uint8Array): string {
+  return encodeWithChecksum(hrp, data, BECH32_CONST);
+}
+
+/**
+ * Encode to Bech32m string (BIP-350, used by ZIP-316 unified encodings)
+ */
+export function bech32mEncode(hrp: string, data: Uint8Array): string {
+  return encodeWithChecksum(hrp, data, BECH32M_CONST);
+}
+
+/**
+ * Encode bytes with the given checksum constant
+ */
+function encodeWithChecksum(hrp: string, data: Uint8Array, encodingConst: number): string {
   // Convert 8-bit to 5-bit groups
   const words = convertBits(data, 8, 5, true);
   
   // Calculate checksum
-  const checksum = bech32CreateChecksum(hrp, words);
+  const checksum = bech32CreateChecksum(hrp, words, encodingConst);
   
   // Build result
   let result = hrp + '1';
@@ -220,8 +240,26 @@ export function bech32Encode(hrp: string, data: Uint8Array): string {
  * Decode Bech32 string
  */
 export function bech32Decode(str: string): { hrp: string; data: Uint8Array } {
+  return decodeWithChecksum(str, BECH32_CONST, 'bech32');
+}
+
+/**
+ * Decode Bech32m string
+ */
+export function bech32mDecode(str: string): { hrp: string; data: Uint8Array } {
+  return decodeWithChecksum(str, BECH32M_CONST, 'bech32m');
+}
+
+/**
+ * Decode a string with the given checksum constant
+ */
+function decodeWithChecksum(
+  str: string,
+  encodingConst: number,
+  name: string
+): { hrp: string; data: Uint8Array } {
   if (!str || typeof str !== 'string' || str.length === 0) {
-    throw new Error('Invalid bech32 string: empty or not a string');
+    throw new Error(`Invalid ${name} string: empty or not a string`);
   }
 
   // Find separator
@@ -230,7 +268,7 @@ export function bech32Decode(str: string): { hrp: string; data: Uint8Array } {
   // pos + 7 > str.length means not enough data after separator (need at least 6 for checksum)
   // Correct check: pos >= 1 && pos + 6 < str.length (pos + 7 <= str.length)
   if (pos < 1 || pos + 7 > str.length) {
-    throw new Error('Invalid bech32 string');
+    throw new Error(`Invalid ${name} string`);
   }
 
   // Split into hrp and data
@@ -242,14 +280,14 @@ export function bech32Decode(str: string): { hrp: string; data: Uint8Array } {
   for (const char of dataStr) {
     const value = BECH32_CHARSET_MAP.get(char);
     if (value === undefined) {
-      throw new Error(`Invalid bech32 character: ${char}`);
+      throw new Error(`Invalid ${name} character: ${char}`);
     }
     data.push(value);
   }
 
   // Verify checksum
-  if (!bech32VerifyChecksum(hrp, data)) {
-    throw new Error('Invalid bech32 checksum');
+  if (!bech32VerifyChecksum(hrp, data, encodingConst)) {
+    throw new Error(`Invalid ${name} checksum`);
   }
 
   // Remove checksum and convert back to 8-bit
@@ -278,3 +316,21 @@ export function base64Decode(str: string): Uint8Array {
   return bytes;
 }
 
+
+/**
+ * Encode bytes to unpadded Base64url (RFC 4648 §5)
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return base64Encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded Base64url to bytes
+ */
+export function base64UrlDecode(str: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(str) || str.length % 4 === 1) {
+    throw new Error('Invalid base64url string');
+  }
+  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  return base64Decode(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
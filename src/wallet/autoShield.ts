@@ -0,0 +1,385 @@
+/**
+ * Auto-Shielding
+ * Moves transparent funds into the shielded pool once they pass a threshold
+ *
+ * The service watches the UTXO cache of every enabled account. When the
+ * confirmed, unlocked transparent value reaches the account's threshold it
+ * schedules a t-to-z transaction sweeping those UTXOs to a Sapling address.
+ * The transaction is only built once a delay has passed, so the wallet UI
+ * can show the pending auto-shield and cancel it.
+ *
+ * Each transaction stays within a limit on ZIP-317 logical actions; larger
+ * UTXO sets are shielded over several transactions, largest UTXOs first.
+ * UTXOs worth no more than the marginal fee they add are left alone.
+ */
+
+import type { ZcashProvider } from '../provider/ZcashProvider';
+import type { UTXOEntry } from '../state/utxo';
+import type { ZcashKeys } from '../types/index';
+import { wipeZcashKeys } from '../crypto/keyVault';
+import { computeConventionalFee, computeLogicalActions, MARGINAL_FEE } from '../transactions/fees';
+
+/**
+ * Auto-shield policy of an account
+ */
+export interface AutoShieldPolicy {
+  /** Sapling address the funds are shielded to */
+  shieldTo: string;
+
+  /** Shield once the eligible transparent value reaches this many zatoshi */
+  thresholdZatoshi: number;
+
+  /** Confirmations a UTXO needs before it is shielded */
+  minConfirmations: number;
+
+  /** Maximum ZIP-317 logical actions per shielding transaction */
+  maxLogicalActions: number;
+
+  /** Time in milliseconds the wallet has to cancel before the transaction is built */
+  delayMs: number;
+
+  /** Memo for the shielded output */
+  memo?: string;
+}
+
+/**
+ * Auto-shield waiting for its delay to pass
+ */
+export interface PendingAutoShield {
+  id: string;
+  accountId: string;
+  shieldTo: string;
+  utxos: UTXOEntry[];
+  /** Value of the UTXOs in zatoshi */
+  amount: number;
+  /** ZIP-317 fee in zatoshi */
+  fee: number;
+  /** Time the transaction will be built (ms since epoch) */
+  executeAt: number;
+}
+
+/**
+ * Auto-shield lifecycle event
+ */
+export type AutoShieldEvent =
+  | { type: 'pending'; shield: PendingAutoShield }
+  | { type: 'cancelled'; shield: PendingAutoShield }
+  | { type: 'broadcast'; shield: PendingAutoShield; txid: string }
+  | { type: 'failed'; shield: PendingAutoShield; error: string };
+
+/**
+ * Provider operations the service relies on
+ */
+export type AutoShieldProvider = Pick<
+  ZcashProvider,
+  | 'getTransparentUTXOs'
+  | 'onTransparentUTXOsChanged'
+  | 'lockTransparentUTXOs'
+  | 'buildAndSignShieldingTransaction'
+  | 'broadcastTransaction'
+  | 'getBlockHeight'
+>;
+
+/**
+ * Defaults: 0.1 ZEC threshold, ZIP-315's 10 confirmations for funds from
+ * others, zcashd's 50 unpaid-action block limit, and 30 seconds to cancel
+ */
+const DEFAULT_POLICY: Omit<AutoShieldPolicy, 'shieldTo'> = {
+  thresholdZatoshi: 10000000,
+  minConfirmations: 10,
+  maxLogicalActions: 50,
+  delayMs: 30000
+};
+
+/**
+ * Outpoint key of a UTXO
+ */
+function outpoint(utxo: { txid: string; vout: number }): string {
+  return `${utxo.txid}:${utxo.vout}`;
+}
+
+/**
+ * Auto-Shield Service
+ *
+ * UTXOs of a cancelled or failed auto-shield are left alone until
+ * auto-shielding is enabled again for the account.
+ */
+export class AutoShieldService {
+  private provider: AutoShieldProvider;
+  private getSigningKey: (accountId: string) => Promise<Uint8Array | ZcashKeys>;
+  private policies: Map<string, AutoShieldPolicy> = new Map();
+  private pending: Map<string, { shield: PendingAutoShield; timer: ReturnType<typeof setTimeout> }> = new Map();
+  private busyAccounts: Set<string> = new Set();
+  private skippedOutpoints: Map<string, Set<string>> = new Map();
+  private listeners: Set<(event: AutoShieldEvent) => void> = new Set();
+  private unsubscribeUTXOs: (() => void) | null = null;
+  private nextId = 0;
+
+  /**
+   * @param provider - Provider holding the UTXO cache
+   * @param getSigningKey - Exports the Miden private key of an account, or
+   *   copies its keys from an unlocked key vault; the returned key is wiped
+   *   after each transaction
+   */
+  constructor(
+    provider: AutoShieldProvider,
+    getSigningKey: (accountId: string) => Promise<Uint8Array | ZcashKeys>
+  ) {
+    this.provider = provider;
+    this.getSigningKey = getSigningKey;
+  }
+
+  /**
+   * Enable auto-shielding for an account, or replace its policy
+   *
+   * @returns The auto-shield scheduled for funds already above the threshold
+   */
+  async enable(
+    accountId: string,
+    policy: Partial<AutoShieldPolicy> & { shieldTo: string }
+  ): Promise<PendingAutoShield | null> {
+    const merged: AutoShieldPolicy = { ...DEFAULT_POLICY, ...policy };
+    if (!(merged.thresholdZatoshi > 0)) {
+      throw new Error(`Invalid auto-shield threshold: ${merged.thresholdZatoshi}`);
+    }
+    if (!Number.isInteger(merged.minConfirmations) || merged.minConfirmations < 1) {
+      throw new Error(`Invalid minimum confirmations: ${merged.minConfirmations}`);
+    }
+    if (this.maxInputs(merged.maxLogicalActions) < 1) {
+      throw new Error(`Logical action limit too low to shield: ${merged.maxLogicalActions}`);
+    }
+
+    this.policies.set(accountId, merged);
+    this.skippedOutpoints.delete(accountId);
+
+    if (!this.unsubscribeUTXOs) {
+      this.unsubscribeUTXOs = this.provider.onTransparentUTXOsChanged((changedAccountId) => {
+        if (this.policies.has(changedAccountId)) {
+          this.check(changedAccountId).catch(() => undefined);
+        }
+      });
+    }
+
+    return this.check(accountId);
+  }
+
+  /**
+   * Disable auto-shielding for an account, cancelling its pending auto-shield
+   */
+  disable(accountId: string): void {
+    this.policies.delete(accountId);
+    for (const { shield } of [...this.pending.values()]) {
+      if (shield.accountId === accountId) {
+        this.cancel(shield.id);
+      }
+    }
+  }
+
+  /**
+   * Get the policy of an account, if auto-shielding is enabled
+   */
+  getPolicy(accountId: string): AutoShieldPolicy | undefined {
+    const policy = this.policies.get(accountId);
+    return policy ? { ...policy } : undefined;
+  }
+
+  /**
+   * Get the auto-shields waiting for their delay to pass
+   */
+  getPending(): PendingAutoShield[] {
+    return Array.from(this.pending.values(), ({ shield }) => shield);
+  }
+
+  /**
+   * Cancel a pending auto-shield
+   *
+   * @returns False if it is unknown or already being built
+   */
+  cancel(id: string): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    this.skip(entry.shield);
+    this.busyAccounts.delete(entry.shield.accountId);
+
+    this.emit({ type: 'cancelled', shield: entry.shield });
+    return true;
+  }
+
+  /**
+   * Listen for auto-shield events
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: AutoShieldEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Schedule an auto-shield for an account if its funds pass the threshold
+   *
+   * Runs on every UTXO cache change of an enabled account; can also be
+   * called directly, e.g. after a sync.
+   *
+   * @returns The scheduled auto-shield, or null if none is due
+   */
+  async check(accountId: string): Promise<PendingAutoShield | null> {
+    const policy = this.policies.get(accountId);
+    if (!policy || this.busyAccounts.has(accountId)) {
+      return null;
+    }
+
+    // The account stays busy until its auto-shield is cancelled or executed
+    this.busyAccounts.add(accountId);
+    let shield: PendingAutoShield | null;
+    try {
+      shield = this.selectUTXOs(accountId, policy, await this.provider.getBlockHeight());
+    } catch (error) {
+      this.busyAccounts.delete(accountId);
+      throw error;
+    }
+    if (!shield || this.policies.get(accountId) !== policy) {
+      this.busyAccounts.delete(accountId);
+      return null;
+    }
+
+    const id = shield.id;
+    const timer = setTimeout(() => {
+      this.execute(id).catch(() => undefined);
+    }, policy.delayMs);
+    this.pending.set(id, { shield, timer });
+    this.emit({ type: 'pending', shield });
+    return shield;
+  }
+
+  /**
+   * Cancel every pending auto-shield and stop watching the UTXO cache
+   */
+  dispose(): void {
+    for (const id of [...this.pending.keys()]) {
+      this.cancel(id);
+    }
+    this.unsubscribeUTXOs?.();
+    this.unsubscribeUTXOs = null;
+    this.policies.clear();
+  }
+
+  /**
+   * Pick the UTXOs to shield, largest first, within the action limit
+   */
+  private selectUTXOs(accountId: string, policy: AutoShieldPolicy, currentHeight: number): PendingAutoShield | null {
+    const skipped = this.skippedOutpoints.get(accountId);
+    const eligible = this.provider.getTransparentUTXOs(accountId)
+      .filter(utxo =>
+        !utxo.locked &&
+        currentHeight - utxo.blockHeight + 1 >= policy.minConfirmations &&
+        utxo.amount > MARGINAL_FEE &&
+        !skipped?.has(outpoint(utxo))
+      )
+      .sort((a, b) => b.amount - a.amount);
+
+    const eligibleTotal = eligible.reduce((sum, utxo) => sum + utxo.amount, 0);
+    if (eligible.length === 0 || eligibleTotal < policy.thresholdZatoshi) {
+      return null;
+    }
+
+    const utxos = eligible.slice(0, this.maxInputs(policy.maxLogicalActions));
+    const amount = utxos.reduce((sum, utxo) => sum + utxo.amount, 0);
+    const fee = computeConventionalFee({ transparentInputs: utxos.length, saplingOutputs: 1 });
+    if (amount <= fee) {
+      return null;
+    }
+
+    return {
+      id: `autoshield-${++this.nextId}`,
+      accountId,
+      shieldTo: policy.shieldTo,
+      utxos,
+      amount,
+      fee,
+      executeAt: Date.now() + policy.delayMs
+    };
+  }
+
+  /**
+   * Most transparent inputs a one-output shielding transaction can have
+   */
+  private maxInputs(maxLogicalActions: number): number {
+    let inputs = 0;
+    while (computeLogicalActions({ transparentInputs: inputs + 1, saplingOutputs: 1 }) <= maxLogicalActions) {
+      inputs++;
+    }
+    return inputs;
+  }
+
+  /**
+   * Build, sign and broadcast a pending auto-shield
+   */
+  private async execute(id: string): Promise<void> {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(id);
+    const { shield } = entry;
+    const policy = this.policies.get(shield.accountId);
+
+    let broadcast = false;
+    let privateKey: Uint8Array | ZcashKeys | null = null;
+    try {
+      privateKey = await this.getSigningKey(shield.accountId);
+      const signedTx = await this.provider.buildAndSignShieldingTransaction(
+        shield.utxos,
+        shield.shieldTo,
+        shield.accountId,
+        privateKey,
+        { fee: shield.fee, memo: policy?.memo }
+      );
+      const { hash } = await this.provider.broadcastTransaction(signedTx);
+      this.provider.lockTransparentUTXOs(shield.utxos, hash);
+      broadcast = true;
+      this.emit({ type: 'broadcast', shield, txid: hash });
+    } catch (error) {
+      this.skip(shield);
+      this.emit({ type: 'failed', shield, error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (privateKey instanceof Uint8Array) {
+        privateKey.fill(0);
+      } else if (privateKey) {
+        wipeZcashKeys(privateKey);
+      }
+      this.busyAccounts.delete(shield.accountId);
+    }
+
+    // UTXOs beyond the action limit go in the next transaction
+    if (broadcast) {
+      await this.check(shield.accountId).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Leave the UTXOs of an auto-shield alone until the account is re-enabled
+   */
+  private skip(shield: PendingAutoShield): void {
+    const skipped = this.skippedOutpoints.get(shield.accountId) ?? new Set<string>();
+    shield.utxos.forEach(utxo => skipped.add(outpoint(utxo)));
+    this.skippedOutpoints.set(shield.accountId, skipped);
+  }
+
+  /**
+   * Notify listeners of an event
+   */
+  private emit(event: AutoShieldEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not stop the others
+      }
+    }
+  }
+}
@@ -6,11 +6,15 @@
 
 // Core integration
 export { ZcashModule, createZcashModule } from './integration';
-export type { ZcashModuleConfig } from './integration';
+export type { ZcashModuleConfig, WatchOnlyImportOptions, WatchOnlySyncResult } from './integration';
 
 // Key bridge
 export { MidenKeyBridge, createMidenKeyBridge } from './midenKeyBridge';
-export type { MidenWalletAPI, DerivedZcashAccount } from './midenKeyBridge';
+export type { MidenWalletAPI, DerivedZcashAccount, IssuedShieldedAddress } from './midenKeyBridge';
+
+// Auto-shielding
+export { AutoShieldService } from './autoShield';
+export type { AutoShieldPolicy, PendingAutoShield, AutoShieldEvent, AutoShieldProvider } from './autoShield';
 
 // SDK bridge (legacy, use ZcashModule instead)
 // Temporarily commented out due to import issues - will fix in next update
@@ -5,10 +5,25 @@
  * Provides a unified interface that bridges Miden accounts and Zcash functionality
  */
 
+import { sha256 } from '@noble/hashes/sha256';
 import { ZcashProvider } from '../provider/ZcashProvider';
-import type { ZcashProviderConfig, TransactionParams, SignedTransaction } from '../types/index';
-import type { MidenWalletAPI, DerivedZcashAccount } from './midenKeyBridge';
+import type { MessageOptions, PaymentRequestOptions, SyncResult } from '../provider/ZcashProvider';
+import type { ZcashProviderConfig, TransactionParams, SignedTransaction, AddressInfo, Balance, ZcashKeys } from '../types/index';
+import type { PaymentRequest } from '../address/zip321';
+import type { TransparentDiscoveryResult } from '../state/transparentAccount';
+import type { HistoryQuery, HistoryPage } from '../state/history';
+import type { Conversation } from '../shielded/memoInbox';
+import { createHistoryStorage } from '../state/history';
+import { WatchOnlyAccountStore } from '../state/watchOnly';
+import type { WatchOnlyAccount } from '../state/watchOnly';
+import { decodeViewingKey } from '../crypto/viewingKeys';
+import { bytesToHex } from '../utils/bytes';
+import { KeyVault, wipeZcashKeys } from '../crypto/keyVault';
+import type { KeyVaultOptions, KeyVaultEvent } from '../crypto/keyVault';
+import type { MidenWalletAPI, DerivedZcashAccount, IssuedShieldedAddress } from './midenKeyBridge';
 import { MidenKeyBridge } from './midenKeyBridge';
+import { AutoShieldService } from './autoShield';
+import type { AutoShieldPolicy, AutoShieldEvent, PendingAutoShield } from './autoShield';
 
 /**
  * Zcash Module Configuration
@@ -37,6 +52,37 @@ export interface ZcashModuleConfig {
   
   /** Sync interval in milliseconds */
   syncInterval?: number;
+
+  /** Key vault storage and auto-lock timeouts */
+  keyVault?: KeyVaultOptions;
+
+  /** File for the watch-only account list in Node.js (browsers use IndexedDB) */
+  watchOnlyPath?: string;
+}
+
+/**
+ * Options for importing a watch-only account
+ */
+export interface WatchOnlyImportOptions {
+  /** Display name, e.g. "Cold storage" */
+  label?: string;
+
+  /** Sapling address of the account; required with an incoming viewing key */
+  zAddress?: string;
+
+  /** First block that can contain the account's funds (default: scan from genesis) */
+  birthdayHeight?: number;
+}
+
+/**
+ * Result of syncing a watch-only account
+ */
+export interface WatchOnlySyncResult {
+  /** Shielded sync, for accounts with a Sapling viewing key */
+  shielded?: SyncResult;
+
+  /** Transparent address discovery, for accounts with an xpub */
+  transparent?: TransparentDiscoveryResult;
 }
 
 /**
@@ -48,6 +94,9 @@ export interface ZcashModuleConfig {
 export class ZcashModule {
   private provider: ZcashProvider;
   private keyBridge: MidenKeyBridge;
+  private autoShield: AutoShieldService;
+  private keyVault: KeyVault;
+  private watchOnly: WatchOnlyAccountStore;
   private config: ZcashModuleConfig;
   private initialized: boolean = false;
 
@@ -72,8 +121,19 @@ export class ZcashModule {
     // Initialize provider
     this.provider = new ZcashProvider(providerConfig);
     
-    // Initialize key bridge
-    this.keyBridge = new MidenKeyBridge(config.midenWallet);
+    // Initialize key bridge (new accounts take the chain tip as their birthday)
+    this.keyBridge = new MidenKeyBridge(config.midenWallet, () => this.provider.getBlockHeight());
+
+    this.keyVault = new KeyVault(config.keyVault);
+
+    this.watchOnly = new WatchOnlyAccountStore(
+      createHistoryStorage(config.watchOnlyPath, 'miden-zcash-watch-only')
+    );
+
+    this.autoShield = new AutoShieldService(
+      this.provider,
+      (midenAccountId) => this.getSigningKey(midenAccountId)
+    );
   }
 
   /**
@@ -87,6 +147,15 @@ export class ZcashModule {
 
     // Initialize provider
     await this.provider.initialize();
+
+    try {
+      await this.watchOnly.initialize();
+      for (const account of this.watchOnly.list()) {
+        this.registerWatchOnlyAccount(account);
+      }
+    } catch (error) {
+      // Persisted watch-only accounts unavailable - only new imports are watched
+    }
     
     this.initialized = true;
   }
@@ -183,12 +252,16 @@ export class ZcashModule {
         });
         throw new Error('Failed to derive valid Zcash addresses. Private key export may not be implemented.');
       }
+
+      if (account.birthdayHeight !== undefined) {
+        this.provider.setBirthdayHeight(account.zAddress, account.birthdayHeight);
+      }
       
       try {
-        const midenPrivateKey = await this.config.midenWallet.exportPrivateKey(midenAccountId);
-        if (midenPrivateKey && midenPrivateKey.length > 0) {
-          await this.provider.getAddresses(midenAccountId, midenPrivateKey);
-          midenPrivateKey.fill(0);
+        const signingKey = await this.getSigningKey(midenAccountId);
+        if (!(signingKey instanceof Uint8Array) || signingKey.length > 0) {
+          await this.provider.getAddresses(midenAccountId, signingKey);
+          this.wipeSigningKey(signingKey);
         }
       } catch (cacheError: any) {
         const errorMsg = cacheError instanceof Error ? cacheError.message : String(cacheError);
@@ -246,15 +319,64 @@ export class ZcashModule {
     midenAccountId: string,
     params: TransactionParams
   ): Promise<SignedTransaction> {
-    // Get Miden private key
-    const midenPrivateKey = await this.config.midenWallet.exportPrivateKey(midenAccountId);
-    
+    // Unlocked vault keys, or the Miden private key
+    const signingKey = await this.getSigningKey(midenAccountId);
+
     // Build and sign using provider
-    return await this.provider.buildAndSignTransaction(
-      params,
-      midenAccountId,
-      midenPrivateKey
-    );
+    try {
+      return await this.provider.buildAndSignTransaction(
+        params,
+        midenAccountId,
+        signingKey
+      );
+    } finally {
+      this.wipeSigningKey(signingKey);
+    }
+  }
+
+  /**
+   * Build and sign one transaction paying a ZIP-321 payment request
+   */
+  async buildAndSignPaymentRequest(
+    midenAccountId: string,
+    from: AddressInfo,
+    request: PaymentRequest | string,
+    options: PaymentRequestOptions = {}
+  ): Promise<SignedTransaction> {
+    // Unlocked vault keys, or the Miden private key
+    const signingKey = await this.getSigningKey(midenAccountId);
+
+    try {
+      return await this.provider.buildAndSignPaymentRequest(
+        from,
+        request,
+        midenAccountId,
+        signingKey,
+        options
+      );
+    } finally {
+      this.wipeSigningKey(signingKey);
+    }
+  }
+
+  /**
+   * Build and sign a memo message to a shielded address
+   */
+  async buildAndSignMessage(
+    midenAccountId: string,
+    from: string,
+    to: string,
+    text: string,
+    options: MessageOptions = {}
+  ): Promise<SignedTransaction> {
+    // Unlocked vault keys, or the Miden private key
+    const signingKey = await this.getSigningKey(midenAccountId);
+
+    try {
+      return await this.provider.buildAndSignMessage(from, to, text, midenAccountId, signingKey, options);
+    } finally {
+      this.wipeSigningKey(signingKey);
+    }
   }
 
   /**
@@ -292,17 +414,21 @@ export class ZcashModule {
         // Check if the address matches
         if (account.zAddress === address) {
           console.log('[ZcashModule] syncAddress: Address matches, caching viewing key...');
+
+          if (account.birthdayHeight !== undefined) {
+            this.provider.setBirthdayHeight(address, account.birthdayHeight);
+          }
           
           // Cache the viewing key in the provider if not already cached
           // The provider's getAddresses() should have cached it, but ensure it's there
           if (account.viewingKey && account.viewingKey.length > 0) {
             try {
-              const midenPrivateKey = await this.config.midenWallet.exportPrivateKey(account.midenAccountId);
-              if (midenPrivateKey && midenPrivateKey.length > 0) {
+              const signingKey = await this.getSigningKey(account.midenAccountId);
+              if (!(signingKey instanceof Uint8Array) || signingKey.length > 0) {
                 console.log('[ZcashModule] syncAddress: Calling provider.getAddresses() to cache viewing key...');
-                await this.provider.getAddresses(account.midenAccountId, midenPrivateKey);
+                await this.provider.getAddresses(account.midenAccountId, signingKey);
                 console.log('[ZcashModule] syncAddress: Viewing key cached successfully');
-                midenPrivateKey.fill(0);
+                this.wipeSigningKey(signingKey);
               } else {
                 console.warn('[ZcashModule] syncAddress: Private key is empty');
               }
@@ -334,6 +460,299 @@ export class ZcashModule {
     return await this.provider.syncAddress(address, type);
   }
 
+  /**
+   * Set the birthday height of a Zcash account
+   *
+   * For restoring an existing wallet: sync starts from this height, so it must
+   * not be later than the account's first transaction. Use 0 to scan the
+   * whole chain. Takes effect for addresses that have not synced yet.
+   */
+  async setBirthdayHeight(midenAccountId: string, height: number): Promise<void> {
+    this.keyBridge.setBirthdayHeight(midenAccountId, height);
+    const account = await this.keyBridge.deriveZcashAccount(midenAccountId);
+    this.provider.setBirthdayHeight(account.zAddress, height);
+  }
+
+  /**
+   * Hand out a fresh diversified shielded address for an account
+   *
+   * Funds sent to it are synced and counted with the account's zAddress.
+   *
+   * @param label - Optional note of who the address is for
+   */
+  async getNextShieldedAddress(midenAccountId: string, label?: string): Promise<IssuedShieldedAddress> {
+    return this.keyBridge.getNextShieldedAddress(midenAccountId, label);
+  }
+
+  /**
+   * Get the diversified shielded addresses handed out for an account
+   */
+  getIssuedShieldedAddresses(midenAccountId: string): IssuedShieldedAddress[] {
+    return this.keyBridge.getIssuedShieldedAddresses(midenAccountId);
+  }
+
+  /**
+   * Discover the used transparent addresses of an account
+   *
+   * Afterwards transparent sends spend from every discovered address and
+   * send change to fresh change addresses.
+   *
+   * @param gapLimit - Consecutive unused addresses that end the scan (default: 20)
+   */
+  async discoverTransparentAddresses(midenAccountId: string, gapLimit?: number): Promise<TransparentDiscoveryResult> {
+    // Unlocked vault keys, or the Miden private key
+    const signingKey = await this.getSigningKey(midenAccountId);
+    try {
+      return await this.provider.discoverTransparentAddresses(midenAccountId, signingKey, gapLimit);
+    } finally {
+      this.wipeSigningKey(signingKey);
+    }
+  }
+
+  /**
+   * Hand out a fresh transparent receiving address for an account
+   */
+  async getNextTransparentAddress(midenAccountId: string): Promise<string> {
+    // Unlocked vault keys, or the Miden private key
+    const signingKey = await this.getSigningKey(midenAccountId);
+    try {
+      return this.provider.getNextTransparentAddress(midenAccountId, signingKey);
+    } finally {
+      this.wipeSigningKey(signingKey);
+    }
+  }
+
+  /**
+   * Get the transparent balance across all discovered addresses of an account
+   */
+  getTransparentAccountBalance(midenAccountId: string): Balance {
+    return this.provider.getTransparentAccountBalance(midenAccountId);
+  }
+
+  /**
+   * Get a page of an account's transaction history, newest first
+   *
+   * @param query - Pool, direction, status and date range filters, and paging
+   */
+  getTransactionHistory(midenAccountId: string, query: Omit<HistoryQuery, 'accountId'> = {}): HistoryPage {
+    return this.provider.getTransactionHistory({ ...query, accountId: midenAccountId });
+  }
+
+  /**
+   * Get the memo conversations of a shielded address, most recently active first
+   */
+  getConversations(address: string): Conversation[] {
+    return this.provider.getConversations(address);
+  }
+
+  /**
+   * Mark memo messages, or a whole conversation, as read
+   */
+  markMessagesRead(ids: string[] | Conversation): void {
+    this.provider.markMessagesRead(ids);
+  }
+
+  /**
+   * Enable auto-shielding of an account's transparent funds
+   *
+   * Shields to the account's zAddress unless the policy names another
+   * Sapling address.
+   *
+   * @returns The auto-shield scheduled for funds already above the threshold
+   */
+  async enableAutoShield(
+    midenAccountId: string,
+    policy: Partial<AutoShieldPolicy> = {}
+  ): Promise<PendingAutoShield | null> {
+    if (this.watchOnly.has(midenAccountId)) {
+      throw new Error(`Account ${midenAccountId} is watch-only and cannot spend`);
+    }
+    const shieldTo = policy.shieldTo ?? (await this.keyBridge.deriveZcashAccount(midenAccountId)).zAddress;
+    return this.autoShield.enable(midenAccountId, { ...policy, shieldTo });
+  }
+
+  /**
+   * Disable auto-shielding for an account, cancelling its pending auto-shield
+   */
+  disableAutoShield(midenAccountId: string): void {
+    this.autoShield.disable(midenAccountId);
+  }
+
+  /**
+   * Get the auto-shields waiting for their delay to pass
+   */
+  getPendingAutoShields(): PendingAutoShield[] {
+    return this.autoShield.getPending();
+  }
+
+  /**
+   * Cancel a pending auto-shield
+   */
+  cancelAutoShield(id: string): boolean {
+    return this.autoShield.cancel(id);
+  }
+
+  /**
+   * Subscribe to auto-shield events
+   */
+  onAutoShieldEvent(callback: (event: AutoShieldEvent) => void): () => void {
+    return this.autoShield.subscribe(callback);
+  }
+
+  /**
+   * Import a watch-only account from a viewing key
+   *
+   * Accepts a hex Sapling incoming viewing key (with one of the account's
+   * addresses), a ZIP-32 extended full viewing key (zxviews...), or a BIP44
+   * account xpub. The account is kept in the account list across reloads,
+   * syncs with syncWatchOnlyAccount(), and shows balances and history, but
+   * cannot spend.
+   */
+  async importWatchOnlyAccount(
+    viewingKey: string,
+    options: WatchOnlyImportOptions = {}
+  ): Promise<WatchOnlyAccount> {
+    const keys = decodeViewingKey(viewingKey, this.provider.getNetwork(), options.zAddress);
+    const normalized = viewingKey.trim();
+    const id = `watch-${bytesToHex(sha256(new TextEncoder().encode(normalized))).slice(0, 16)}`;
+    if (this.watchOnly.has(id)) {
+      throw new Error(`Viewing key is already imported as watch-only account ${id}`);
+    }
+
+    const account: WatchOnlyAccount = {
+      id,
+      label: options.label,
+      kind: keys.kind,
+      viewingKey: normalized,
+      zAddress: keys.zAddress,
+      tAddress: keys.tAddress,
+      birthdayHeight: options.birthdayHeight,
+      importedAt: Date.now()
+    };
+    this.provider.registerWatchOnlyAccount(id, keys, { birthdayHeight: options.birthdayHeight });
+    this.watchOnly.add(account);
+    return account;
+  }
+
+  /**
+   * Get the watch-only accounts, oldest import first
+   */
+  getWatchOnlyAccounts(): WatchOnlyAccount[] {
+    return this.watchOnly.list();
+  }
+
+  /**
+   * Check whether an account is watch-only
+   */
+  isWatchOnlyAccount(accountId: string): boolean {
+    return this.watchOnly.has(accountId);
+  }
+
+  /**
+   * Sync a watch-only account
+   *
+   * Scans for the notes of its shielded address and discovers its
+   * transparent addresses, whichever its viewing key allows.
+   */
+  async syncWatchOnlyAccount(accountId: string): Promise<WatchOnlySyncResult> {
+    const account = this.watchOnly.get(accountId);
+    if (!account) {
+      throw new Error(`Watch-only account not found: ${accountId}`);
+    }
+
+    const result: WatchOnlySyncResult = {};
+    if (account.zAddress) {
+      result.shielded = await this.provider.syncAddress(account.zAddress, 'shielded');
+    }
+    if (account.kind === 'xpub') {
+      result.transparent = await this.provider.discoverWatchOnlyAddresses(accountId);
+    }
+    return result;
+  }
+
+  /**
+   * Remove a watch-only account from the account list
+   */
+  async removeWatchOnlyAccount(accountId: string): Promise<void> {
+    this.provider.unregisterWatchOnlyAccount(accountId);
+    this.watchOnly.remove(accountId);
+    await this.watchOnly.flush();
+  }
+
+  /**
+   * Store an account's Zcash keys encrypted in the key vault
+   *
+   * The keys are derived from the Miden private key once. While the vault
+   * is unlocked, signing and syncing use them instead of exporting the
+   * Miden private key again.
+   *
+   * @param password - At least 8 characters
+   */
+  async setupKeyVault(midenAccountId: string, password: string): Promise<void> {
+    const account = await this.keyBridge.deriveZcashAccount(midenAccountId);
+    await this.keyVault.store(midenAccountId, {
+      spendingKey: account.spendingKey,
+      viewingKey: account.viewingKey,
+      outgoingViewingKey: account.outgoingViewingKey,
+      extendedSpendingKey: account.extendedSpendingKey,
+      extendedFullViewingKey: account.extendedFullViewingKey,
+      transparentPrivateKey: account.transparentPrivateKey,
+      transparentAccountKey: account.transparentAccountKey,
+      tAddress: account.tAddress,
+      zAddress: account.zAddress,
+      unifiedAddress: account.unifiedAddress,
+      orchardSpendingKey: account.orchardSpendingKey
+    }, password);
+  }
+
+  /**
+   * Check whether an account's keys are stored in the key vault
+   */
+  async hasKeyVault(midenAccountId: string): Promise<boolean> {
+    return this.keyVault.hasKeys(midenAccountId);
+  }
+
+  /**
+   * Unlock an account's keys for a session
+   *
+   * The vault locks again after the configured idle timeout or at the end
+   * of the session, whichever comes first.
+   *
+   * @param sessionMs - Session length, capped at the configured maximum
+   * @returns Time the session ends (ms since epoch)
+   */
+  async unlockKeyVault(midenAccountId: string, password: string, sessionMs?: number): Promise<number> {
+    return this.keyVault.unlock(midenAccountId, password, sessionMs);
+  }
+
+  /**
+   * Lock an account's keys, or every account's, zeroing them in memory
+   */
+  lockKeyVault(midenAccountId?: string): void {
+    this.keyVault.lock(midenAccountId);
+  }
+
+  /**
+   * Check whether an account's keys are unlocked
+   */
+  isKeyVaultUnlocked(midenAccountId: string): boolean {
+    return this.keyVault.isUnlocked(midenAccountId);
+  }
+
+  /**
+   * Lock an account and delete its keys from the key vault
+   */
+  async removeKeyVault(midenAccountId: string): Promise<void> {
+    await this.keyVault.remove(midenAccountId);
+  }
+
+  /**
+   * Subscribe to key vault unlock and lock events
+   */
+  onKeyVaultEvent(callback: (event: KeyVaultEvent) => void): () => void {
+    return this.keyVault.subscribe(callback);
+  }
+
   /**
    * Get current block height
    */
@@ -411,7 +830,7 @@ export class ZcashModule {
    *
    * @param recipient - Recipient Zcash address (can be transparent or shielded)
    * @param amount - Amount in zatoshi (1 ZEC = 100,000,000 zatoshi)
-   * @param fee - Optional transaction fee in zatoshi (default: 10,000)
+   * @param fee - Optional transaction fee in zatoshi (default: ZIP-317 conventional fee)
    * @returns Transaction ID (32-byte hash as hex string)
    */
   async sendShieldedTransaction(
@@ -431,7 +850,7 @@ export class ZcashModule {
       account,
       recipient,
       BigInt(amount),
-      BigInt(fee || 10000)
+      fee !== undefined ? BigInt(fee) : undefined
     );
   }
 
@@ -439,9 +858,49 @@ export class ZcashModule {
    * Shutdown and cleanup
    */
   async shutdown(): Promise<void> {
+    this.autoShield.dispose();
+    this.keyVault.dispose();
+    await this.watchOnly.flush();
     await this.provider.shutdown();
   }
 
+  /**
+   * Get the key to sign with: a copy of the unlocked vault keys, or else
+   * the exported Miden private key
+   */
+  private async getSigningKey(midenAccountId: string): Promise<Uint8Array | ZcashKeys> {
+    if (this.watchOnly.has(midenAccountId)) {
+      throw new Error(`Account ${midenAccountId} is watch-only and cannot spend`);
+    }
+    if (this.keyVault.isUnlocked(midenAccountId)) {
+      return this.keyVault.getKeys(midenAccountId);
+    }
+    return this.config.midenWallet.exportPrivateKey(midenAccountId);
+  }
+
+  /**
+   * Register a stored watch-only account with the provider
+   */
+  private registerWatchOnlyAccount(account: WatchOnlyAccount): void {
+    try {
+      const keys = decodeViewingKey(account.viewingKey, this.provider.getNetwork(), account.zAddress);
+      this.provider.registerWatchOnlyAccount(account.id, keys, { birthdayHeight: account.birthdayHeight });
+    } catch (error) {
+      console.warn(`[ZcashModule] Skipping watch-only account ${account.id}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Zero a key returned by getSigningKey
+   */
+  private wipeSigningKey(signingKey: Uint8Array | ZcashKeys): void {
+    if (signingKey instanceof Uint8Array) {
+      signingKey.fill(0);
+    } else {
+      wipeZcashKeys(signingKey);
+    }
+  }
+
   /**
    * Get default proving service URL
    */
@@ -60,9 +60,32 @@ export interface DerivedZcashAccount {
   network: Network;
   tAddress: string;
   zAddress: string;
+  unifiedAddress?: string;
   spendingKey: Uint8Array;
   viewingKey: Uint8Array;
+  outgoingViewingKey?: Uint8Array;
+  extendedSpendingKey?: string;
+  extendedFullViewingKey?: string;
   transparentPrivateKey: Uint8Array;
+  /** BIP44 account key, for signing with further t-addresses */
+  transparentAccountKey?: Uint8Array;
+  orchardSpendingKey?: Uint8Array;
+
+  /** First block height that can contain this account's notes, if known */
+  birthdayHeight?: number;
+}
+
+/**
+ * Diversified shielded address handed out for an account
+ */
+export interface IssuedShieldedAddress {
+  /** ZIP-32 diversifier index */
+  index: bigint;
+  address: string;
+  /** Who the address was given to, if recorded */
+  label?: string;
+  /** When the address was handed out (ms since epoch) */
+  issuedAt: number;
 }
 
 /**
@@ -73,16 +96,25 @@ export class MidenKeyBridge {
   private network: Network;
   private keyDerivation: ZcashKeyDerivation;
   private signer: ZcashSigner;
+  private getChainHeight?: () => Promise<number>;
   
   // Cache for derived accounts (midenAccountId -> DerivedZcashAccount)
   private accountCache: Map<string, DerivedZcashAccount> = new Map();
 
-  constructor(midenWallet: MidenWalletAPI) {
+  // Diversified addresses handed out per account, oldest first (midenAccountId -> addresses)
+  private issuedAddresses: Map<string, IssuedShieldedAddress[]> = new Map();
+
+  /**
+   * @param midenWallet - Miden wallet API
+   * @param getChainHeight - Chain tip source, used to record the birthday of new accounts
+   */
+  constructor(midenWallet: MidenWalletAPI, getChainHeight?: () => Promise<number>) {
     this.midenWallet = midenWallet;
+    this.getChainHeight = getChainHeight;
     const detectedNetwork = midenWallet.getNetwork();
     this.network = detectedNetwork === 'testnet' ? 'testnet' : 'mainnet';
     this.keyDerivation = new ZcashKeyDerivation(this.network);
-    this.signer = new ZcashSigner();
+    this.signer = new ZcashSigner(this.network);
   }
 
   /**
@@ -119,10 +151,12 @@ export class MidenKeyBridge {
     // Check localStorage cache (persists across page refreshes)
     // Only the account ID is cached to avoid storing sensitive keys.
     // If account is cached, keys still need to be derived but password prompt can be skipped.
+    let isNewAccount = false;
     if (typeof window !== 'undefined') {
       try {
         const cacheKey = `zcash_account_setup_${midenAccountId}`;
         const isSetup = localStorage.getItem(cacheKey) === 'true';
+        isNewAccount = !isSetup;
         if (isSetup) {
           // Account was set up before, but we still need to derive keys
           // However, we can skip the password dialog by using a flag
@@ -209,11 +243,32 @@ export class MidenKeyBridge {
       network: this.network,
       tAddress: derivedKeys.tAddress,
       zAddress: derivedKeys.zAddress,
+      unifiedAddress: derivedKeys.unifiedAddress,
       spendingKey: derivedKeys.spendingKey,
       viewingKey: derivedKeys.viewingKey,
-      transparentPrivateKey: derivedKeys.transparentPrivateKey
+      outgoingViewingKey: derivedKeys.outgoingViewingKey,
+      extendedSpendingKey: derivedKeys.extendedSpendingKey,
+      extendedFullViewingKey: derivedKeys.extendedFullViewingKey,
+      transparentPrivateKey: derivedKeys.transparentPrivateKey,
+      transparentAccountKey: derivedKeys.transparentAccountKey,
+      orchardSpendingKey: derivedKeys.orchardSpendingKey,
+      birthdayHeight: this.getBirthdayHeight(midenAccountId)
     };
 
+    // A Zcash account set up for the first time cannot have received notes
+    // before the current tip, so that becomes its birthday
+    if (zcashAccount.birthdayHeight === undefined && isNewAccount && this.getChainHeight) {
+      try {
+        const tipHeight = await this.getChainHeight();
+        if (tipHeight > 0) {
+          this.storeBirthdayHeight(midenAccountId, tipHeight);
+          zcashAccount.birthdayHeight = tipHeight;
+        }
+      } catch (error) {
+        // Without a birthday the account syncs from genesis
+      }
+    }
+
 
     // 5. Cache the derived account (in-memory)
     this.accountCache.set(midenAccountId, zcashAccount);
@@ -232,6 +287,129 @@ export class MidenKeyBridge {
     return zcashAccount;
   }
 
+  /**
+   * Get the recorded birthday height of an account
+   */
+  getBirthdayHeight(midenAccountId: string): number | undefined {
+    if (typeof window === 'undefined') {
+      return undefined;
+    }
+    try {
+      const stored = localStorage.getItem(`zcash_account_birthday_${midenAccountId}`);
+      const height = stored === null ? NaN : Number(stored);
+      return Number.isSafeInteger(height) && height >= 0 ? height : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Set the birthday height of an account (e.g. a user-provided height when restoring)
+   *
+   * Use 0 to scan the whole chain.
+   */
+  setBirthdayHeight(midenAccountId: string, height: number): void {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error(`Invalid birthday height: ${height}`);
+    }
+    this.storeBirthdayHeight(midenAccountId, height);
+    const cached = this.accountCache.get(midenAccountId);
+    if (cached) {
+      cached.birthdayHeight = height;
+    }
+  }
+
+  /**
+   * Persist a birthday height (not sensitive, so localStorage is fine)
+   */
+  private storeBirthdayHeight(midenAccountId: string, height: number): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    try {
+      localStorage.setItem(`zcash_account_birthday_${midenAccountId}`, String(height));
+    } catch (e) {
+      // localStorage write failed; the birthday only lasts for this session
+    }
+  }
+
+  /**
+   * Hand out a fresh diversified shielded address for an account
+   *
+   * Each call returns the next valid ZIP-32 diversifier index after the
+   * last one handed out (the account's zAddress is the first). Notes sent
+   * to any of these addresses are received by the same viewing key.
+   *
+   * @param label - Optional note of who the address is for
+   */
+  async getNextShieldedAddress(midenAccountId: string, label?: string): Promise<IssuedShieldedAddress> {
+    const account = await this.deriveZcashAccount(midenAccountId);
+    if (!account.extendedFullViewingKey) {
+      throw new Error('Account has no extended full viewing key to derive addresses from');
+    }
+
+    const issued = this.getIssuedShieldedAddresses(midenAccountId);
+    const lastIndex = issued.length > 0
+      ? issued[issued.length - 1].index
+      : this.keyDerivation.deriveDiversifiedAddress(account.extendedFullViewingKey).index;
+    const { index, address } = this.keyDerivation.deriveDiversifiedAddress(
+      account.extendedFullViewingKey,
+      lastIndex + 1n
+    );
+
+    const entry: IssuedShieldedAddress = { index, address, label, issuedAt: Date.now() };
+    this.issuedAddresses.set(midenAccountId, [...issued, entry]);
+    this.storeIssuedAddresses(midenAccountId);
+    return entry;
+  }
+
+  /**
+   * Get the diversified shielded addresses handed out for an account, oldest first
+   */
+  getIssuedShieldedAddresses(midenAccountId: string): IssuedShieldedAddress[] {
+    if (!this.issuedAddresses.has(midenAccountId)) {
+      this.issuedAddresses.set(midenAccountId, this.loadIssuedAddresses(midenAccountId));
+    }
+    return [...this.issuedAddresses.get(midenAccountId)!];
+  }
+
+  /**
+   * Load handed-out addresses (addresses and indices only, no key material)
+   */
+  private loadIssuedAddresses(midenAccountId: string): IssuedShieldedAddress[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+    try {
+      const stored = localStorage.getItem(`zcash_account_addresses_${midenAccountId}`);
+      if (!stored) {
+        return [];
+      }
+      return (JSON.parse(stored) as Array<Omit<IssuedShieldedAddress, 'index'> & { index: string }>)
+        .map(entry => ({ ...entry, index: BigInt(entry.index) }));
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /**
+   * Persist handed-out addresses so indices are never reused
+   */
+  private storeIssuedAddresses(midenAccountId: string): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    try {
+      const entries = this.issuedAddresses.get(midenAccountId) || [];
+      localStorage.setItem(
+        `zcash_account_addresses_${midenAccountId}`,
+        JSON.stringify(entries.map(entry => ({ ...entry, index: entry.index.toString() })))
+      );
+    } catch (e) {
+      // localStorage write failed; the addresses are only tracked for this session
+    }
+  }
+
   /**
    * Get all Zcash accounts (derived from all Miden accounts)
    */
@@ -309,12 +487,17 @@ export class MidenKeyBridge {
 
   /**
    * Verify that a Zcash address belongs to this account
+   *
+   * Any diversified shielded address of the account's viewing key counts,
+   * whether or not it was handed out through this bridge.
    */
   verifyAddressOwnership(
     zcashAccount: DerivedZcashAccount,
     address: string
   ): boolean {
-    return address === zcashAccount.tAddress || address === zcashAccount.zAddress;
+    return address === zcashAccount.tAddress ||
+      address === zcashAccount.zAddress ||
+      this.keyDerivation.isOwnShieldedAddress(zcashAccount.viewingKey, address);
   }
 }
 
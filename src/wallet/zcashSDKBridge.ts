@@ -12,8 +12,10 @@
 import type { Network } from '../types/index';
 import { ZcashRPCClient } from '../rpc/client';
 import { ZcashTransactionBuilder } from '../transactions/builder';
+import { computeConventionalFee } from '../transactions/fees';
 // import { ZcashSigner } from '../transactions/signing'; // Reserved for future use
 import { ZcashProver } from '../shielded/prover';
+import type { TransactionHistory } from '../state/history';
 
 /**
  * Configuration for SDK bridge
@@ -21,9 +23,9 @@ import { ZcashProver } from '../shielded/prover';
 export interface ZcashSDKConfig {
   network: Network;
   rpcEndpoint?: string;
-  feeRate?: number;
-  minimumFee?: number;
   useProver?: boolean;
+  /** Ledger the transaction history is read from (e.g. the provider's) */
+  history?: TransactionHistory;
 }
 
 /**
@@ -100,9 +102,7 @@ export class ZcashSDKBridge {
     // Initialize transaction builder
     this.txBuilder = new ZcashTransactionBuilder({
       network: config.network,
-      rpcClient: this.rpcClient,
-      feeRate: config.feeRate || 1000,
-      minimumFee: config.minimumFee || 1000
+      rpcClient: this.rpcClient
     });
 
     // Initialize signer (reserved for future use)
@@ -247,56 +247,61 @@ export class ZcashSDKBridge {
   }
 
   /**
-   * Get transaction history for an address
+   * Get the latest transactions of an account, newest first
+   *
+   * Read from the history ledger given in the config; empty without one.
    */
   async getTransactionHistory(
-    _address: string,
-    _limit: number = 20
+    accountId: string,
+    limit: number = 20
   ): Promise<TransactionInfo[]> {
-    try {
-      // Transaction history fetching not yet implemented
+    if (!this.config.history) {
       return [];
+    }
+
+    try {
+      const { entries } = this.config.history.query({ accountId, limit });
+      const height = entries.some(entry => entry.blockHeight !== undefined)
+        ? await this.rpcClient.getBlockCount()
+        : 0;
+
+      return entries.map(entry => {
+        const fee = entry.fee ?? 0;
+        const shielded = entry.pools.some(pool => pool !== 'transparent');
+        return {
+          txHash: entry.txid,
+          type: shielded ? (entry.pools.includes('transparent') ? 'mixed' : 'shielded') : 'transparent',
+          from: entry.direction === 'incoming' ? '' : accountId,
+          to: entry.direction === 'incoming' ? accountId : entry.recipients.join(', '),
+          amount: BigInt(entry.direction === 'incoming' ? entry.netValue : Math.max(0, -entry.netValue - fee)),
+          fee: BigInt(fee),
+          status: entry.status === 'confirmed' ? 'confirmed' : 'pending',
+          confirmations: entry.blockHeight !== undefined ? Math.max(0, height - entry.blockHeight + 1) : 0,
+          timestamp: entry.timestamp,
+          memo: entry.memos[0]
+        };
+      });
     } catch (error) {
       throw new Error(`Failed to get transaction history: ${error}`);
     }
   }
 
   /**
-   * Estimate transaction fee
+   * Estimate transaction fee (ZIP-317 conventional fee)
+   *
+   * Assumes a single input (UTXO or note) and a change output on the
+   * sending side; the fee rises by 5000 zatoshi per additional action.
    */
   async estimateFee(request: BuildTransactionRequest): Promise<bigint> {
-    try {
-      const isTransparent = request.fromAddress.startsWith('t');
-
-      if (isTransparent) {
-        const estimatedFee = await this.txBuilder.estimateFee(
-          [
-            {
-              txHash: '',
-              index: 0,
-              value: Number(request.amount),
-              scriptPubKey: '',
-              sequence: 0xffffffff
-            }
-          ],
-          [
-            {
-              address: request.toAddress,
-              value: Number(request.amount),
-              scriptPubKey: ''
-            }
-          ]
-        );
-
-        return BigInt(estimatedFee);
-      } else {
-        // Shielded transaction fee is higher
-        return BigInt(10000);
-      }
-    } catch (error) {
-      // Return default fee on error
-      return BigInt(this.config.minimumFee || 1000);
-    }
+    const fromTransparent = request.fromAddress.startsWith('t');
+    const toTransparent = request.toAddress.startsWith('t');
+
+    return BigInt(computeConventionalFee({
+      transparentInputs: fromTransparent ? 1 : 0,
+      transparentOutputs: (toTransparent ? 1 : 0) + (fromTransparent ? 1 : 0),
+      saplingSpends: fromTransparent ? 0 : 1,
+      saplingOutputs: (toTransparent ? 0 : 1) + (fromTransparent ? 0 : 1)
+    }));
   }
 
   /**
@@ -12,6 +12,11 @@ import {
   identifyScriptType,
   isValidScriptPubKey,
   getRequiredSignatures,
+  createMultisigRedeemScript,
+  decodeMultisigRedeemScript,
+  createMultisigScriptSig,
+  createP2SHAddress,
+  createP2SHScriptFromRedeemScript,
   OP
 } from '../../src/address/script';
 import { bytesToHex, hexToBytes } from '../../src/utils/bytes';
@@ -177,5 +182,73 @@ describe('getRequiredSignatures', () => {
     const script = createOpReturnScript(new Uint8Array(1));
     expect(getRequiredSignatures(script)).toBe(0);
   });
+
+  test('returns m for multisig, directly or through the redeem script', () => {
+    const redeemScript = createMultisigRedeemScript(2, [new Uint8Array(33).fill(0x02), new Uint8Array(33).fill(0x03)]);
+    expect(getRequiredSignatures(redeemScript)).toBe(2);
+    expect(getRequiredSignatures(createP2SHScriptFromRedeemScript(redeemScript), bytesToHex(redeemScript))).toBe(2);
+  });
+});
+
+describe('multisig', () => {
+  const keyA = new Uint8Array(33).fill(0x03);
+  const keyB = new Uint8Array(33).fill(0x02);
+  const keyC = new Uint8Array(65).fill(0x04);
+
+  test('creates a sorted m-of-n redeem script', () => {
+    const script = createMultisigRedeemScript(2, [keyA, keyB, keyC]);
+
+    // OP_2 <33> <33> <65> OP_3 OP_CHECKMULTISIG
+    expect(script.length).toBe(1 + 34 + 34 + 66 + 2);
+    expect(script[0]).toBe(OP.OP_2);
+    expect(script[script.length - 2]).toBe(OP.OP_3);
+    expect(script[script.length - 1]).toBe(OP.OP_CHECKMULTISIG);
+    expect(createMultisigRedeemScript(2, [keyC, keyB, keyA])).toEqual(script);
+    expect(decodeScript(script).type).toBe('multisig');
+
+    const decoded = decodeMultisigRedeemScript(script);
+    expect(decoded.required).toBe(2);
+    expect(decoded.publicKeys).toEqual([keyB, keyA, keyC]);
+  });
+
+  test('keeps the given key order when not sorting', () => {
+    const decoded = decodeMultisigRedeemScript(createMultisigRedeemScript(1, [keyA, keyB], false));
+    expect(decoded.publicKeys).toEqual([keyA, keyB]);
+  });
+
+  test('rejects invalid multisig parameters', () => {
+    expect(() => createMultisigRedeemScript(0, [keyA])).toThrow('between 1 and 1');
+    expect(() => createMultisigRedeemScript(3, [keyA, keyB])).toThrow('between 1 and 2');
+    expect(() => createMultisigRedeemScript(1, [])).toThrow('1 to 15 public keys');
+    expect(() => createMultisigRedeemScript(1, [keyA, keyA])).toThrow('distinct');
+    expect(() => createMultisigRedeemScript(1, [new Uint8Array(20)])).toThrow('Invalid public key length');
+    expect(() => decodeMultisigRedeemScript(createP2PKHScript(new Uint8Array(20)))).toThrow('Not a multisig redeem script');
+  });
+
+  test('encodes t3 and t2 addresses', () => {
+    const script = createMultisigRedeemScript(2, [keyA, keyB]);
+    expect(createP2SHAddress(script, 'mainnet')).toMatch(/^t3/);
+    expect(createP2SHAddress(script, 'testnet')).toMatch(/^t2/);
+  });
+
+  test('orders scriptSig signatures by redeem script key', () => {
+    const script = createMultisigRedeemScript(2, [keyA, keyB, keyC]);
+    const sigA = new Uint8Array(71).fill(0xaa);
+    const sigC = new Uint8Array(72).fill(0xcc);
+
+    const scriptSig = createMultisigScriptSig(script, [
+      { publicKey: keyC, signature: sigC },
+      { publicKey: keyA, signature: sigA }
+    ]);
+    // OP_0 <sigA> <sigC> OP_PUSHDATA1 <redeemScript>
+    expect(bytesToHex(scriptSig)).toBe(
+      '00' + '47' + bytesToHex(sigA) + '48' + bytesToHex(sigC) + '4c' + script.length.toString(16) + bytesToHex(script)
+    );
+
+    expect(() => createMultisigScriptSig(script, [{ publicKey: keyA, signature: sigA }])).toThrow('needs 2 signatures, got 1');
+    expect(() => createMultisigScriptSig(script, [
+      { publicKey: new Uint8Array(33).fill(0x05), signature: sigA }
+    ])).toThrow('not part of the redeem script');
+  });
 });
 
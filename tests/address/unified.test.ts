@@ -0,0 +1,172 @@
+/**
+ * Tests for ZIP-316 Unified Addresses and Viewing Keys
+ */
+
+import {
+  f4Jumble,
+  f4JumbleInv,
+  encodeUnifiedAddress,
+  decodeUnifiedAddress,
+  encodeUnifiedViewingKey,
+  decodeUnifiedViewingKey,
+  selectReceiver,
+  encodeReceiverAddress
+} from '../../src/address/unified';
+import { validateAddress, validateShieldedAddress } from '../../src/address/validation';
+import { ZcashKeyDerivation } from '../../src/crypto/keyDerivation';
+import { bech32mDecode, bech32mEncode, bech32Encode } from '../../src/utils/encoding';
+
+const bytes = (length: number, fill: number) => new Uint8Array(length).fill(fill);
+
+describe('f4Jumble', () => {
+  test('round-trips messages of several lengths', () => {
+    for (const length of [48, 83, 128, 200, 1000]) {
+      const message = new Uint8Array(length).map((_, i) => (i * 7) & 0xff);
+      const jumbled = f4Jumble(message);
+
+      expect(jumbled.length).toBe(length);
+      expect(jumbled).not.toEqual(message);
+      expect(f4JumbleInv(jumbled)).toEqual(message);
+    }
+  });
+
+  test('diffuses a single-bit change across the whole output', () => {
+    const message = bytes(100, 0);
+    const flipped = message.slice();
+    flipped[99] ^= 1;
+
+    const a = f4Jumble(message);
+    const b = f4Jumble(flipped);
+    expect(a[0]).not.toBe(b[0]);
+    expect(a.slice(0, 50)).not.toEqual(b.slice(0, 50));
+  });
+
+  test('rejects inputs shorter than 48 bytes', () => {
+    expect(() => f4Jumble(bytes(47, 1))).toThrow(/F4Jumble input length/);
+  });
+});
+
+describe('Unified Address', () => {
+  const sapling = bytes(43, 0x22);
+  const orchard = bytes(43, 0x33);
+  const p2pkh = bytes(20, 0x11);
+
+  test('round-trips transparent, Sapling and Orchard receivers', () => {
+    const encoded = encodeUnifiedAddress({ network: 'mainnet', p2pkh, sapling, orchard });
+    const decoded = decodeUnifiedAddress(encoded);
+
+    expect(encoded.startsWith('u1')).toBe(true);
+    expect(decoded).toEqual({ network: 'mainnet', p2pkh, sapling, orchard });
+  });
+
+  test('uses the testnet HRP', () => {
+    const encoded = encodeUnifiedAddress({ network: 'testnet', sapling });
+
+    expect(encoded.startsWith('utest1')).toBe(true);
+    expect(decodeUnifiedAddress(encoded).network).toBe('testnet');
+  });
+
+  test('preserves unknown receiver types', () => {
+    const unknown = [{ typecode: 0x30, data: bytes(5, 0x44) }];
+    const decoded = decodeUnifiedAddress(encodeUnifiedAddress({ network: 'mainnet', sapling, unknown }));
+
+    expect(decoded.unknown).toEqual(unknown);
+  });
+
+  test('requires a shielded receiver', () => {
+    expect(() => encodeUnifiedAddress({ network: 'mainnet', p2pkh }))
+      .toThrow(/shielded receiver/);
+  });
+
+  test('rejects both P2PKH and P2SH receivers', () => {
+    expect(() => encodeUnifiedAddress({ network: 'mainnet', p2pkh, p2sh: p2pkh, sapling }))
+      .toThrow(/both P2PKH and P2SH/);
+  });
+
+  test('rejects receivers of the wrong length', () => {
+    expect(() => encodeUnifiedAddress({ network: 'mainnet', sapling: bytes(42, 1) }))
+      .toThrow(/Invalid sapling item length/);
+  });
+
+  test('rejects padding for a different HRP', () => {
+    // Re-wrap the jumbled payload of a testnet UA under the mainnet HRP
+    const { data } = bech32mDecode(encodeUnifiedAddress({ network: 'testnet', sapling }));
+
+    expect(() => decodeUnifiedAddress(bech32mEncode('u', data))).toThrow(/padding/);
+  });
+
+  test('rejects Bech32 (non-m) checksums', () => {
+    const { data } = bech32mDecode(encodeUnifiedAddress({ network: 'mainnet', sapling }));
+
+    expect(() => decodeUnifiedAddress(bech32Encode('u', data))).toThrow(/checksum/);
+  });
+});
+
+describe('Unified Viewing Keys', () => {
+  test('round-trips full viewing keys', () => {
+    const key = {
+      network: 'mainnet' as const,
+      kind: 'full' as const,
+      p2pkh: bytes(65, 1),
+      sapling: bytes(128, 2),
+      orchard: bytes(96, 3)
+    };
+    const encoded = encodeUnifiedViewingKey(key);
+
+    expect(encoded.startsWith('uview1')).toBe(true);
+    expect(decodeUnifiedViewingKey(encoded)).toEqual(key);
+  });
+
+  test('round-trips incoming viewing keys', () => {
+    const key = { network: 'testnet' as const, kind: 'incoming' as const, sapling: bytes(64, 4) };
+    const encoded = encodeUnifiedViewingKey(key);
+
+    expect(encoded.startsWith('uivktest1')).toBe(true);
+    expect(decodeUnifiedViewingKey(encoded)).toEqual(key);
+  });
+
+  test('rejects an address where a viewing key is expected', () => {
+    const address = encodeUnifiedAddress({ network: 'mainnet', sapling: bytes(43, 1) });
+
+    expect(() => decodeUnifiedViewingKey(address)).toThrow(/HRP/);
+  });
+});
+
+describe('receiver selection', () => {
+  const address = {
+    network: 'testnet' as const,
+    p2pkh: bytes(20, 0x11),
+    sapling: bytes(43, 0x22),
+    orchard: bytes(43, 0x33)
+  };
+
+  test('prefers Orchard, then Sapling, then transparent', () => {
+    expect(selectReceiver(address, ['orchard', 'sapling', 'p2pkh']).type).toBe('orchard');
+    expect(selectReceiver(address, ['sapling', 'p2pkh']).type).toBe('sapling');
+    expect(selectReceiver(address, ['p2pkh']).type).toBe('p2pkh');
+  });
+
+  test('throws when no receiver is supported', () => {
+    expect(() => selectReceiver({ network: 'testnet', orchard: address.orchard }, ['sapling', 'p2pkh']))
+      .toThrow(/No supported receiver/);
+  });
+
+  test('encodes the selected receiver as a standalone address', () => {
+    const sapling = encodeReceiverAddress('testnet', { type: 'sapling', data: address.sapling });
+    const transparent = encodeReceiverAddress('testnet', { type: 'p2pkh', data: address.p2pkh });
+
+    expect(validateShieldedAddress(sapling)).toEqual({ valid: true, type: 'shielded', network: 'testnet' });
+    expect(validateAddress(transparent)).toEqual({ valid: true, type: 'transparent', network: 'testnet' });
+  });
+});
+
+describe('derived Unified Address', () => {
+  test('contains the account transparent and Sapling receivers', () => {
+    const keys = new ZcashKeyDerivation('testnet').deriveKeys('test-account', bytes(32, 1));
+    const ua = decodeUnifiedAddress(keys.unifiedAddress!);
+
+    expect(validateAddress(keys.unifiedAddress!)).toEqual({ valid: true, type: 'unified', network: 'testnet' });
+    expect(encodeReceiverAddress('testnet', { type: 'sapling', data: ua.sapling! })).toBe(keys.zAddress);
+    expect(encodeReceiverAddress('testnet', { type: 'p2pkh', data: ua.p2pkh! })).toBe(keys.tAddress);
+  });
+});
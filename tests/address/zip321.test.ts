@@ -0,0 +1,170 @@
+/**
+ * Tests for ZIP-321 payment request URIs
+ */
+
+import {
+  parsePaymentRequest,
+  createPaymentRequest,
+  getPaymentRequestTotal,
+  isPaymentRequestUri,
+  parseZecAmount,
+  formatZecAmount
+} from '../../src/address/zip321';
+import { base64UrlEncode, base64UrlDecode } from '../../src/utils/encoding';
+
+// Addresses from the ZIP-321 examples
+const SAPLING = 'ztestsapling10yy2ex5dcqkclhc7z7yrnjq2z6feyjad56ptwlfgmy77dmaqqrl9gyhprdx59qgmsnyfska2kez';
+const TRANSPARENT = 'tmEZhbWHTpdKMw5it8YDspUXSMGQyFwovpU';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('parsePaymentRequest', () => {
+  test('parses a single payment with the address in the path', () => {
+    const request = parsePaymentRequest(
+      `zcash:${SAPLING}?amount=1&memo=VGhpcyBpcyBhIHNpbXBsZSBtZW1vLg&message=Thank%20you%20for%20your%20purchase`
+    );
+
+    expect(request.payments).toEqual([{
+      address: SAPLING,
+      amount: 100000000,
+      memo: text('This is a simple memo.'),
+      message: 'Thank you for your purchase'
+    }]);
+  });
+
+  test('parses a multi-payment request', () => {
+    const request = parsePaymentRequest(
+      `zcash:?address=${TRANSPARENT}&amount=123.456&address.1=${SAPLING}&amount.1=0.789` +
+      '&memo.1=VGhpcyBpcyBhIHVuaWNvZGUgbWVtbyDinKjwn6aE8J-PhvCfjok'
+    );
+
+    expect(request.payments).toHaveLength(2);
+    expect(request.payments[0]).toEqual({ address: TRANSPARENT, amount: 12345600000 });
+    expect(request.payments[1].amount).toBe(78900000);
+    expect(new TextDecoder().decode(request.payments[1].memo)).toBe('This is a unicode memo ✨🦄🏆🎉');
+    expect(getPaymentRequestTotal(request)).toBe(12345600000 + 78900000);
+  });
+
+  test('orders payments by index', () => {
+    const request = parsePaymentRequest(`zcash:?amount.5=2&address.5=${SAPLING}&address=${TRANSPARENT}`);
+
+    expect(request.payments.map(payment => payment.address)).toEqual([TRANSPARENT, SAPLING]);
+  });
+
+  test('keeps unknown optional parameters', () => {
+    const request = parsePaymentRequest(`zcash:${TRANSPARENT}?amount=1&label=Shop%20%231&invoice-id=42`);
+
+    expect(request.payments[0].label).toBe('Shop #1');
+    expect(request.payments[0].otherParams).toEqual({ 'invoice-id': '42' });
+  });
+
+  test('accepts an upper-case scheme', () => {
+    expect(parsePaymentRequest(`ZCASH:${TRANSPARENT}`).payments[0].address).toBe(TRANSPARENT);
+    expect(isPaymentRequestUri(`  zcash:${TRANSPARENT}`)).toBe(true);
+    expect(isPaymentRequestUri(TRANSPARENT)).toBe(false);
+  });
+
+  test('rejects malformed requests', () => {
+    expect(() => parsePaymentRequest(`bitcoin:${TRANSPARENT}`)).toThrow(/must start with "zcash:"/);
+    expect(() => parsePaymentRequest('zcash:')).toThrow(/no payments/);
+    expect(() => parsePaymentRequest(`zcash:?amount=1`)).toThrow(/Payment 0 has no address/);
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?address=${TRANSPARENT}`)).toThrow(/Duplicate parameter "address"/);
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?amount=1&amount=2`)).toThrow(/Duplicate parameter "amount"/);
+    expect(() => parsePaymentRequest(`zcash:?address.01=${TRANSPARENT}`)).toThrow(/Invalid payment request parameter name/);
+    expect(() => parsePaymentRequest(`zcash:?address.10000=${TRANSPARENT}`)).toThrow(/Invalid payment request parameter name/);
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?amount`)).toThrow(/Invalid payment request parameter "amount"/);
+    expect(() => parsePaymentRequest('zcash:notanaddress')).toThrow(/Invalid address in payment 0/);
+  });
+
+  test('rejects unsupported required parameters', () => {
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?req-future=1`))
+      .toThrow(/Unsupported required parameter "req-future"/);
+  });
+
+  test('rejects invalid amounts', () => {
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?amount=1.123456789`)).toThrow(/Invalid ZEC amount/);
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?amount=-1`)).toThrow(/Invalid ZEC amount/);
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?amount=21000000.00000001`)).toThrow(/maximum supply/);
+  });
+
+  test('rejects memos for transparent recipients and oversized memos', () => {
+    expect(() => parsePaymentRequest(`zcash:${TRANSPARENT}?memo=VGVzdA`))
+      .toThrow(/memo but pays a transparent address/);
+
+    const tooLong = base64UrlEncode(new Uint8Array(513).fill(0x61));
+    expect(() => parsePaymentRequest(`zcash:${SAPLING}?memo=${tooLong}`)).toThrow(/513 bytes \(max 512\)/);
+    expect(() => parsePaymentRequest(`zcash:${SAPLING}?memo=VGVzd+A=`)).toThrow(/not base64url/);
+  });
+});
+
+describe('createPaymentRequest', () => {
+  test('puts a single payment address in the path', () => {
+    const uri = createPaymentRequest({
+      payments: [{ address: SAPLING, amount: 100000000, memo: text('This is a simple memo.'), message: 'Thank you for your purchase' }]
+    });
+
+    expect(uri).toBe(
+      `zcash:${SAPLING}?amount=1&memo=VGhpcyBpcyBhIHNpbXBsZSBtZW1vLg&message=Thank%20you%20for%20your%20purchase`
+    );
+  });
+
+  test('emits indexed parameters for several payments', () => {
+    const uri = createPaymentRequest({
+      payments: [
+        { address: TRANSPARENT, amount: 12345600000 },
+        { address: SAPLING, amount: 78900000, label: 'Coffee & cake' }
+      ]
+    });
+
+    expect(uri).toBe(
+      `zcash:?address=${TRANSPARENT}&amount=123.456&address.1=${SAPLING}&amount.1=0.789&label.1=Coffee%20%26%20cake`
+    );
+  });
+
+  test('round-trips through the parser', () => {
+    const request = {
+      payments: [
+        { address: SAPLING, amount: 1, memo: new Uint8Array([0xf6, 0x00, 0xff]), message: 'a=b&c?' },
+        { address: TRANSPARENT },
+        { address: SAPLING, amount: 2100000000000000, otherParams: { 'order-id': 'x/y' } }
+      ]
+    };
+
+    expect(parsePaymentRequest(createPaymentRequest(request))).toEqual(request);
+  });
+
+  test('validates payments', () => {
+    expect(() => createPaymentRequest({ payments: [] })).toThrow(/no payments/);
+    expect(() => createPaymentRequest({ payments: [{ address: TRANSPARENT, memo: text('hi') }] }))
+      .toThrow(/memo but pays a transparent address/);
+    expect(() => createPaymentRequest({ payments: [{ address: SAPLING, amount: 0.5 }] }))
+      .toThrow(/Invalid amount in payment 0/);
+  });
+});
+
+describe('ZEC amounts', () => {
+  test('parses decimal amounts exactly', () => {
+    expect(parseZecAmount('0.00000001')).toBe(1);
+    expect(parseZecAmount('0.1')).toBe(10000000);
+    expect(parseZecAmount('21000000')).toBe(2100000000000000);
+  });
+
+  test('formats without trailing zeros', () => {
+    expect(formatZecAmount(1)).toBe('0.00000001');
+    expect(formatZecAmount(10000000)).toBe('0.1');
+    expect(formatZecAmount(100000000)).toBe('1');
+    expect(formatZecAmount(0)).toBe('0');
+  });
+});
+
+describe('base64url', () => {
+  test('round-trips without padding', () => {
+    for (const length of [0, 1, 2, 3, 4, 5]) {
+      const data = new Uint8Array(length).map((_, i) => 0xf8 + i);
+      const encoded = base64UrlEncode(data);
+
+      expect(encoded).not.toMatch(/[+/=]/);
+      expect(base64UrlDecode(encoded)).toEqual(data);
+    }
+  });
+});
@@ -31,7 +31,8 @@ describe('ZcashKeyDerivation', () => {
       const keys = derivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
 
       expect(keys.spendingKey).toBeInstanceOf(Uint8Array);
-      expect(keys.spendingKey.length).toBe(32);
+      // ZIP-32 expanded spending key: ask || nsk
+      expect(keys.spendingKey.length).toBe(64);
 
       expect(keys.viewingKey).toBeInstanceOf(Uint8Array);
       expect(keys.viewingKey.length).toBe(32);
@@ -123,6 +124,107 @@ describe('ZcashKeyDerivation', () => {
     });
   });
 
+  describe('deriveDiversifiedAddress', () => {
+    const midenAccountId = 'miden-account-12345';
+    const midenPrivateKey = new Uint8Array(32).fill(0x42);
+
+    test('starts at the default address', () => {
+      const keys = derivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
+      const first = derivation.deriveDiversifiedAddress(keys.extendedFullViewingKey!);
+
+      expect(first.address).toBe(keys.zAddress);
+    });
+
+    test('derives further addresses owned by the same viewing key', () => {
+      const keys = derivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
+      const first = derivation.deriveDiversifiedAddress(keys.extendedFullViewingKey!);
+      const second = derivation.deriveDiversifiedAddress(keys.extendedFullViewingKey!, first.index + 1n);
+
+      expect(second.index).toBeGreaterThan(first.index);
+      expect(second.address).not.toBe(keys.zAddress);
+      expect(derivation.validateShieldedAddress(second.address)).toBe(true);
+      expect(derivation.isOwnShieldedAddress(keys.viewingKey, second.address)).toBe(true);
+    });
+
+    test('rejects a viewing key for another network', () => {
+      const mainnetKeys = new ZcashKeyDerivation('mainnet').deriveKeys(midenAccountId, midenPrivateKey, 0);
+
+      expect(() => derivation.deriveDiversifiedAddress(mainnetKeys.extendedFullViewingKey!))
+        .toThrow('Extended full viewing key is for mainnet, expected testnet');
+    });
+  });
+
+  describe('isOwnShieldedAddress', () => {
+    test('rejects addresses of other accounts and malformed input', () => {
+      const keys = derivation.deriveKeys('miden-account-12345', new Uint8Array(32).fill(0x42), 0);
+      const other = derivation.deriveKeys('miden-account-67890', new Uint8Array(32).fill(0x43), 0);
+
+      expect(derivation.isOwnShieldedAddress(keys.viewingKey, keys.zAddress)).toBe(true);
+      expect(derivation.isOwnShieldedAddress(keys.viewingKey, other.zAddress)).toBe(false);
+      expect(derivation.isOwnShieldedAddress(keys.viewingKey, keys.tAddress)).toBe(false);
+      expect(derivation.isOwnShieldedAddress(keys.viewingKey, 'invalid')).toBe(false);
+    });
+  });
+
+  describe('deriveTransparentKeys', () => {
+    const midenAccountId = 'miden-account-12345';
+    const midenPrivateKey = new Uint8Array(32).fill(0x42);
+
+    test('starts the external chain at the default t-address', () => {
+      const keys = derivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
+      const [first] = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'external', 0, 1);
+
+      expect(first.address).toBe(keys.tAddress);
+      expect(first.privateKey).toEqual(keys.transparentPrivateKey);
+    });
+
+    test('derives distinct valid addresses on both chains', () => {
+      const external = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'external', 0, 3);
+      const internal = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'internal', 0, 3);
+      const addresses = [...external, ...internal].map(key => key.address);
+
+      expect(new Set(addresses).size).toBe(6);
+      expect(addresses.every(address => derivation.validateTransparentAddress(address))).toBe(true);
+      expect(internal.map(key => key.index)).toEqual([0, 1, 2]);
+    });
+
+    test('derives the same key whatever the start index', () => {
+      const run = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'internal', 0, 3);
+      const [single] = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'internal', 2, 1);
+
+      expect(single.address).toBe(run[2].address);
+    });
+
+    test('rejects invalid indices', () => {
+      expect(() => derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'external', -1, 1))
+        .toThrow('Invalid address index');
+    });
+
+    test('derives the same keys from the BIP44 account key', () => {
+      const keys = derivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
+      const accountKey = derivation.deriveTransparentAccountKey(midenAccountId, midenPrivateKey, 0);
+      const fromSeed = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, 'internal', 0, 3);
+      const fromAccountKey = derivation.deriveTransparentKeysFromAccountKey(accountKey, 'internal', 0, 3);
+
+      expect(keys.transparentAccountKey).toEqual(accountKey);
+      expect(accountKey).toHaveLength(78);
+      expect(fromAccountKey).toEqual(fromSeed);
+      expect(derivation.transparentAccountXpub(accountKey))
+        .toBe(derivation.deriveTransparentAccountXpub(midenAccountId, midenPrivateKey, 0));
+    });
+
+    test('rejects account keys of another network or depth', () => {
+      const mainnetKey = new ZcashKeyDerivation('mainnet').deriveTransparentAccountKey(midenAccountId, midenPrivateKey, 0);
+      const accountKey = derivation.deriveTransparentAccountKey(midenAccountId, midenPrivateKey, 0);
+      const wrongDepth = accountKey.slice();
+      wrongDepth[4] = 4;
+
+      expect(() => derivation.deriveTransparentKeysFromAccountKey(mainnetKey, 'external', 0, 1))
+        .toThrow('not a tprv for testnet');
+      expect(() => derivation.transparentAccountXpub(wrongDepth)).toThrow('expected an account key');
+    });
+  });
+
   describe('validateTransparentAddress', () => {
     test('returns false for invalid address', () => {
       expect(derivation.validateTransparentAddress('')).toBe(false);
@@ -0,0 +1,126 @@
+/**
+ * Tests for the session-scoped key vault
+ */
+
+import { KeyVault } from '../../src/crypto/keyVault';
+import type { KeyVaultEvent } from '../../src/crypto/keyVault';
+import { MemoryKeyStorage } from '../../src/crypto/keyStorage';
+import type { ZcashKeys } from '../../src/types';
+
+const PASSWORD = 'correct horse battery';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const keys = (): ZcashKeys => ({
+  spendingKey: new Uint8Array(64).fill(1),
+  viewingKey: new Uint8Array(32).fill(2),
+  outgoingViewingKey: new Uint8Array(32).fill(3),
+  transparentPrivateKey: new Uint8Array(32).fill(4),
+  tAddress: 'tmVaultTest',
+  zAddress: 'ztestsapling1vaulttest'
+});
+
+describe('KeyVault', () => {
+  // Encrypting is slow by design, so the keys are stored once
+  const stored = new MemoryKeyStorage();
+  let storage: MemoryKeyStorage;
+  let events: KeyVaultEvent[];
+  let vaults: KeyVault[];
+
+  beforeAll(async () => {
+    await new KeyVault({ storage: stored }).store('account', keys(), PASSWORD);
+  });
+
+  const createVault = (options: { idleTimeoutMs?: number; maxSessionMs?: number } = {}) => {
+    const vault = new KeyVault({ storage, ...options });
+    vault.subscribe(event => events.push(event));
+    vaults.push(vault);
+    return vault;
+  };
+
+  beforeEach(async () => {
+    storage = new MemoryKeyStorage();
+    await storage.storeEncrypted('account', (await stored.retrieveEncrypted('account'))!);
+    events = [];
+    vaults = [];
+  });
+
+  afterEach(() => {
+    vaults.forEach(vault => vault.dispose());
+  });
+
+  test('stores keys encrypted and unlocks them with the password', async () => {
+    const vault = createVault();
+
+    expect(await vault.hasKeys('account')).toBe(true);
+    expect(vault.isUnlocked('account')).toBe(false);
+    expect(JSON.stringify(await storage.retrieveEncrypted('account'))).not.toContain('"spendingKey":"AQEB');
+
+    await vault.unlock('account', PASSWORD);
+
+    expect(vault.getKeys('account')).toEqual(keys());
+    expect(events.map(event => event.type)).toEqual(['unlocked']);
+  });
+
+  test('hands out copies that can be wiped', async () => {
+    const vault = createVault();
+    await vault.unlock('account', PASSWORD);
+
+    vault.getKeys('account').spendingKey.fill(0);
+
+    expect(vault.getKeys('account').spendingKey).toEqual(keys().spendingKey);
+  });
+
+  test('rejects a wrong password, an unknown account and a short password', async () => {
+    const vault = createVault();
+
+    await expect(vault.unlock('account', 'wrong password')).rejects.toThrow('wrong password or corrupted keys');
+    await expect(vault.unlock('other', PASSWORD)).rejects.toThrow('No keys stored for account: other');
+    await expect(vault.store('account', keys(), 'short')).rejects.toThrow('at least 8 characters');
+    expect(() => vault.getKeys('account')).toThrow('Key vault is locked for account: account');
+  });
+
+  test('locks after the idle timeout', async () => {
+    const vault = createVault({ idleTimeoutMs: 50 });
+    await vault.unlock('account', PASSWORD);
+
+    await sleep(150);
+
+    expect(vault.isUnlocked('account')).toBe(false);
+    expect(events[events.length - 1]).toEqual({ type: 'locked', accountId: 'account', reason: 'idle' });
+  });
+
+  test('use postpones the idle lock but not the end of the session', async () => {
+    const vault = createVault({ idleTimeoutMs: 150, maxSessionMs: 400 });
+    await vault.unlock('account', PASSWORD);
+
+    // Used every 60ms: still unlocked well past the idle timeout
+    for (let i = 0; i < 5; i++) {
+      await sleep(60);
+      vault.getKeys('account');
+    }
+    expect(vault.isUnlocked('account')).toBe(true);
+
+    for (let i = 0; i < 4 && vault.isUnlocked('account'); i++) {
+      await sleep(60);
+      if (vault.isUnlocked('account')) {
+        vault.getKeys('account');
+      }
+    }
+
+    expect(vault.isUnlocked('account')).toBe(false);
+    expect(events[events.length - 1]).toEqual({ type: 'locked', accountId: 'account', reason: 'session' });
+  });
+
+  test('lock and remove end the session', async () => {
+    const vault = createVault();
+    await vault.unlock('account', PASSWORD, 60000);
+
+    vault.lock();
+    expect(vault.isUnlocked('account')).toBe(false);
+    expect(events[events.length - 1]).toEqual({ type: 'locked', accountId: 'account', reason: 'manual' });
+
+    await vault.remove('account');
+    expect(await vault.hasKeys('account')).toBe(false);
+  });
+});
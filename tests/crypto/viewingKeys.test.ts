@@ -0,0 +1,90 @@
+/**
+ * Tests for decoding the viewing keys of watch-only accounts
+ */
+
+import { ZcashKeyDerivation } from '../../src/crypto/keyDerivation';
+import { decodeViewingKey, detectViewingKeyKind } from '../../src/crypto/viewingKeys';
+import { saplingNullifierKey } from '../../src/shielded/zip32';
+import { bytesToHex } from '../../src/utils/bytes';
+import type { ZcashKeys } from '../../src/types';
+
+describe('viewing keys', () => {
+  const midenAccountId = 'miden-account-12345';
+  const midenPrivateKey = new Uint8Array(32).fill(0x42);
+  const derivation = new ZcashKeyDerivation('testnet');
+  let keys: ZcashKeys;
+
+  beforeAll(() => {
+    keys = derivation.deriveKeys(midenAccountId, midenPrivateKey, 0);
+  });
+
+  describe('xpub', () => {
+    test('derives the same transparent addresses as the private keys, without them', () => {
+      const xpub = derivation.deriveTransparentAccountXpub(midenAccountId, midenPrivateKey, 0);
+      expect(xpub.startsWith('tpub')).toBe(true);
+
+      for (const chain of ['external', 'internal'] as const) {
+        const watched = derivation.deriveTransparentKeysFromXpub(xpub, chain, 0, 3);
+        const owned = derivation.deriveTransparentKeys(midenAccountId, midenPrivateKey, 0, chain, 0, 3);
+
+        expect(watched.map(key => key.address)).toEqual(owned.map(key => key.address));
+        expect(watched.every(key => key.privateKey === undefined)).toBe(true);
+      }
+
+      expect(decodeViewingKey(xpub, 'testnet')).toEqual({
+        kind: 'xpub',
+        extendedPublicKey: xpub,
+        tAddress: keys.tAddress
+      });
+    });
+
+    test('rejects an xpub for the other network or with a bad checksum', () => {
+      const xpub = derivation.deriveTransparentAccountXpub(midenAccountId, midenPrivateKey, 0);
+      const mainnetXpub = new ZcashKeyDerivation('mainnet').deriveTransparentAccountXpub(midenAccountId, midenPrivateKey, 0);
+      const corrupted = xpub.slice(0, -1) + (xpub.endsWith('1') ? '2' : '1');
+
+      expect(mainnetXpub.startsWith('xpub')).toBe(true);
+      expect(() => decodeViewingKey(mainnetXpub, 'testnet')).toThrow('not a tpub for testnet');
+      expect(() => decodeViewingKey(corrupted, 'testnet')).toThrow('Invalid extended public key');
+    });
+  });
+
+  describe('full viewing key', () => {
+    test('yields the ivk, ovk, nk and default address of the account', () => {
+      const decoded = decodeViewingKey(keys.extendedFullViewingKey!, 'testnet');
+
+      expect(decoded.kind).toBe('fvk');
+      expect(decoded.viewingKey).toEqual(keys.viewingKey);
+      expect(decoded.outgoingViewingKey).toEqual(keys.outgoingViewingKey);
+      expect(decoded.nullifierKey).toEqual(saplingNullifierKey(keys.spendingKey.slice(32, 64)));
+      expect(decoded.zAddress).toBe(keys.zAddress);
+    });
+
+    test('accepts a diversified address of the account and rejects others', () => {
+      const diversified = derivation.deriveDiversifiedAddress(keys.extendedFullViewingKey!, 10n).address;
+      const other = derivation.deriveKeys('other-account', midenPrivateKey, 0).zAddress;
+
+      expect(decodeViewingKey(keys.extendedFullViewingKey!, 'testnet', diversified).zAddress).toBe(diversified);
+      expect(() => decodeViewingKey(keys.extendedFullViewingKey!, 'testnet', other)).toThrow('does not belong');
+      expect(() => decodeViewingKey(keys.extendedFullViewingKey!, 'mainnet')).toThrow('is for testnet');
+    });
+  });
+
+  describe('incoming viewing key', () => {
+    test('needs an address of the account', () => {
+      const ivk = bytesToHex(keys.viewingKey);
+
+      expect(decodeViewingKey(ivk, 'testnet', keys.zAddress)).toEqual({
+        kind: 'ivk',
+        viewingKey: keys.viewingKey,
+        zAddress: keys.zAddress
+      });
+      expect(() => decodeViewingKey(ivk, 'testnet')).toThrow('needs one of the account\'s shielded addresses');
+      expect(() => decodeViewingKey('ff'.repeat(32), 'testnet', keys.zAddress)).toThrow('Invalid incoming viewing key');
+    });
+  });
+
+  test('rejects anything else', () => {
+    expect(() => detectViewingKeyKind('secret-extended-key-test1abc')).toThrow('Unrecognized viewing key');
+  });
+});
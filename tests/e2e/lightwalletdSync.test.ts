@@ -0,0 +1,320 @@
+/**
+ * Lightwalletd gRPC-web End-to-End Tests
+ *
+ * Runs the lightwalletd client against a local mock server and syncs a
+ * ShieldedStateSynchronizer from compact blocks.
+ */
+
+import { MockLightwalletdServer } from './mockLightwalletdServer';
+import {
+  LightwalletdClient,
+  compactBlockToBlockData
+} from '../../src/shielded/lightwalletdClient';
+import type { CompactBlock } from '../../src/shielded/lightwalletdClient';
+import { NoteScanner, ShieldedStateSynchronizer } from '../../src/shielded/noteScanner';
+import { CommitmentTree } from '../../src/shielded/commitmentTree';
+import { NoteCache } from '../../src/shielded/noteCache';
+import type { SaplingNote } from '../../src/shielded/types';
+import { BroadcastTransactionStatus } from '../../src/shielded/transactionTracker';
+import type { TrackerEvent, TransactionTracker } from '../../src/shielded/transactionTracker';
+import { ZcashProvider } from '../../src/provider/ZcashProvider';
+
+const START_HEIGHT = 2000000;
+
+function fill(length: number, value: number): Uint8Array {
+  return new Uint8Array(length).fill(value);
+}
+
+function createBlock(height: number, outputs: number, nullifiers: Uint8Array[] = []): CompactBlock {
+  return {
+    protoVersion: 1,
+    height,
+    hash: fill(32, height % 256),
+    prevHash: fill(32, (height - 1) % 256),
+    time: 1700000000 + height,
+    vtx: outputs > 0 || nullifiers.length > 0
+      ? [{
+          index: 1,
+          hash: fill(32, 0xa0 + (height % 16)),
+          spends: nullifiers.map(nf => ({ nf })),
+          outputs: Array.from({ length: outputs }, (_, i) => ({
+            cmu: fill(32, i + 1),
+            ephemeralKey: fill(32, 0x20 + i),
+            ciphertext: fill(52, 0x30 + i)
+          })),
+          actions: [{
+            nullifier: fill(32, 0x41),
+            cmx: fill(32, 0x42),
+            ephemeralKey: fill(32, 0x43),
+            ciphertext: fill(52, 0x44)
+          }]
+        }]
+      : [],
+    chainMetadata: { saplingCommitmentTreeSize: 1000 + height, orchardCommitmentTreeSize: 7 }
+  };
+}
+
+describe('Lightwalletd gRPC-web client', () => {
+  let server: MockLightwalletdServer;
+  let client: LightwalletdClient;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new MockLightwalletdServer();
+    url = await server.start();
+    client = new LightwalletdClient(url, { timeout: 5000 });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should get the latest block', async () => {
+    server.addBlock(createBlock(START_HEIGHT, 0));
+    server.addBlock(createBlock(START_HEIGHT + 1, 0));
+
+    const latest = await client.getLatestBlock();
+
+    expect(latest.height).toBe(START_HEIGHT + 1);
+    expect(latest.hash).toEqual(fill(32, (START_HEIGHT + 1) % 256));
+  });
+
+  it('should stream a block range with all compact fields', async () => {
+    for (let i = 0; i < 3; i++) {
+      server.addBlock(createBlock(START_HEIGHT + i, i));
+    }
+
+    const blocks = await client.getBlockRange(START_HEIGHT, START_HEIGHT + 2);
+
+    expect(blocks.map(block => block.height)).toEqual([START_HEIGHT, START_HEIGHT + 1, START_HEIGHT + 2]);
+    expect(blocks[0].vtx).toHaveLength(0);
+
+    const tx = blocks[2].vtx[0];
+    expect(tx.index).toBe(1);
+    expect(tx.outputs).toHaveLength(2);
+    expect(tx.outputs[1].cmu).toEqual(fill(32, 2));
+    expect(tx.outputs[1].ciphertext).toHaveLength(52);
+    expect(tx.actions[0].cmx).toEqual(fill(32, 0x42));
+    expect(blocks[2].chainMetadata).toEqual({
+      saplingCommitmentTreeSize: 1000 + START_HEIGHT + 2,
+      orchardCommitmentTreeSize: 7
+    });
+  });
+
+  it('should surface gRPC errors from the trailers', async () => {
+    await expect(client.getBlockRange(START_HEIGHT, START_HEIGHT)).rejects.toThrow(/gRPC status 11.*not found/);
+    await expect(client.getBlockRange(START_HEIGHT + 1, START_HEIGHT)).rejects.toThrow(/Invalid block range/);
+  });
+
+  it('should get the tree state at a height', async () => {
+    server.addTreeState({
+      network: 'main',
+      height: START_HEIGHT,
+      hash: 'ab'.repeat(32),
+      time: 1700000000,
+      saplingTree: '01' + '00'.repeat(32),
+      orchardTree: ''
+    });
+
+    const state = await client.getTreeState(START_HEIGHT);
+
+    expect(state.network).toBe('main');
+    expect(state.height).toBe(START_HEIGHT);
+    expect(state.saplingTree).toBe('01' + '00'.repeat(32));
+    expect(state.orchardTree).toBe('');
+    await expect(client.getTreeState(1)).rejects.toThrow(/no tree state/);
+  });
+
+  it('should broadcast transactions', async () => {
+    const rawTx = fill(100, 0x05);
+
+    const txid = await client.sendTransaction(rawTx);
+
+    expect(txid).toBe('05'.repeat(32));
+    expect(server.sentTransactions).toEqual([rawTx]);
+  });
+
+  it('should report rejected transactions', async () => {
+    server.sendError = { code: -26, message: 'bad-txns-sapling-duplicate-nullifier' };
+
+    await expect(client.sendTransaction('0500')).rejects.toThrow(/error -26.*duplicate-nullifier/);
+  });
+
+  it('should look up transactions in the chain and the mempool', async () => {
+    server.addTransaction('ab'.repeat(32), { data: fill(100, 0x05), height: START_HEIGHT });
+    server.addTransaction('cd'.repeat(32), { data: fill(80, 0x06), height: 0 });
+
+    expect(await client.getTransaction('ab'.repeat(32))).toEqual({ data: fill(100, 0x05), height: START_HEIGHT });
+    expect(await client.getTransaction('cd'.repeat(32))).toEqual({ data: fill(80, 0x06), height: 0 });
+    expect(await client.getTransaction('ef'.repeat(32))).toBeNull();
+  });
+
+  it('should fail cleanly when the server is unreachable', async () => {
+    await server.stop();
+
+    await expect(client.getLatestBlock()).rejects.toThrow(/Cannot connect to lightwalletd/);
+  });
+
+  it('should convert compact blocks for the note scanner', () => {
+    const block = createBlock(START_HEIGHT, 1, [fill(32, 9)]);
+    const data = compactBlockToBlockData(block);
+
+    expect(data.height).toBe(START_HEIGHT);
+    expect(data.time).toBe(1700000000 + START_HEIGHT);
+    expect(data.hash).toBe((START_HEIGHT % 256).toString(16).padStart(2, '0').repeat(32));
+    expect(data.transactions[0].outputs[0].cmu).toEqual(fill(32, 1));
+    expect(data.transactions[0].nullifiers).toEqual([fill(32, 9)]);
+  });
+
+  describe('ShieldedStateSynchronizer', () => {
+    const address = 'zs1lightwalletdsynctest';
+
+    it('should sync compact blocks to the chain tip', async () => {
+      const spentNullifier = fill(32, 0x77);
+      for (let i = 0; i < 150; i++) {
+        server.addBlock(createBlock(START_HEIGHT + i, i % 50 === 0 ? 2 : 0, i === 120 ? [spentNullifier] : []));
+      }
+
+      const cache = new NoteCache();
+      const ownNote: SaplingNote = {
+        commitment: fill(32, 0x61),
+        nullifier: spentNullifier,
+        value: 50000,
+        rcm: fill(32, 0x62),
+        rseed: fill(32, 0x63),
+        cmu: fill(32, 0x64),
+        address,
+        diversifier: fill(11, 0x65),
+        pkD: fill(32, 0x66),
+        spent: false
+      };
+      cache.addNote({ note: ownNote, blockHeight: START_HEIGHT - 10, txIndex: 0, outputIndex: 0, isOutgoing: false });
+
+      const scanner = new NoteScanner({ ivk: fill(32, 0x11) }, cache);
+      const synchronizer = new ShieldedStateSynchronizer(scanner, cache);
+      synchronizer.setLightwalletdClient(client);
+
+      const result = await synchronizer.sync(address, undefined, START_HEIGHT);
+
+      expect(result.notesFound).toBe(0);
+      expect(server.requestedRanges).toEqual([
+        { start: START_HEIGHT, end: START_HEIGHT + 99 },
+        { start: START_HEIGHT + 100, end: START_HEIGHT + 149 }
+      ]);
+      expect(synchronizer.getTree().size()).toBe(6);
+      expect(cache.getSyncedHeight(address)).toBe(START_HEIGHT + 149);
+      expect(cache.isSpent(spentNullifier)).toBe(true);
+      expect(cache.getSpentTime(spentNullifier)).toBe(1700000000 + START_HEIGHT + 120);
+    });
+
+    it('should start a new wallet from the tree state below its birthday', async () => {
+      for (let i = 0; i < 150; i++) {
+        server.addBlock(createBlock(START_HEIGHT + i, i % 10 === 0 ? 1 : 0));
+      }
+      // One earlier commitment: left leaf only, no right leaf, no parents
+      const earlierLeaf = fill(32, 0x5a);
+      server.addTreeState({
+        network: 'main',
+        height: START_HEIGHT + 99,
+        hash: ((START_HEIGHT + 99) % 256).toString(16).padStart(2, '0').repeat(32),
+        time: 1700000000,
+        saplingTree: '01' + '5a'.repeat(32) + '00' + '00',
+        orchardTree: ''
+      });
+
+      const cache = new NoteCache();
+      const synchronizer = new ShieldedStateSynchronizer(new NoteScanner({ ivk: fill(32, 0x11) }, cache), cache);
+      synchronizer.setLightwalletdClient(client);
+      synchronizer.setBirthdayHeight(START_HEIGHT + 100);
+
+      await synchronizer.sync(address, undefined, undefined, START_HEIGHT + 149);
+
+      // The snapshot block is checked against the chain before scanning
+      expect(server.requestedRanges).toEqual([
+        { start: START_HEIGHT + 99, end: START_HEIGHT + 99 },
+        { start: START_HEIGHT + 100, end: START_HEIGHT + 149 }
+      ]);
+      expect(cache.getSyncedHeight(address)).toBe(START_HEIGHT + 149);
+
+      const expected = new CommitmentTree();
+      expected.append(earlierLeaf);
+      for (let i = 100; i < 150; i += 10) {
+        expected.append(fill(32, 1));
+      }
+      expect(synchronizer.getTree().size()).toBe(6);
+      expect(synchronizer.getAnchor()).toEqual(expected.root());
+    });
+
+    it('should not sync before a birthday that is past the tip', async () => {
+      server.addBlock(createBlock(START_HEIGHT, 1));
+
+      const cache = new NoteCache();
+      const synchronizer = new ShieldedStateSynchronizer(new NoteScanner({ ivk: fill(32, 0x11) }, cache), cache);
+      synchronizer.setLightwalletdClient(client);
+      synchronizer.setBirthdayHeight(START_HEIGHT + 10);
+
+      const result = await synchronizer.sync(address, undefined, undefined, START_HEIGHT);
+
+      expect(result.notesFound).toBe(0);
+      expect(server.requestedRanges).toEqual([]);
+      expect(synchronizer.getTree().size()).toBe(0);
+    });
+  });
+
+  describe('ZcashProvider transaction tracking', () => {
+    const MINED = 'ab'.repeat(32);
+    const DROPPED = 'cd'.repeat(32);
+
+    // No RPC node listens on the endpoint
+    function createTracker(): TransactionTracker {
+      const provider = new ZcashProvider({
+        network: 'testnet',
+        rpcEndpoint: 'http://127.0.0.1:1',
+        lightwalletdUrl: url,
+        proofGenerationMode: 'client',
+        syncInterval: 60000,
+        cacheSize: 1000
+      });
+      return (provider as any).tracker;
+    }
+
+    it('should confirm transactions through lightwalletd without an RPC node', async () => {
+      for (let height = START_HEIGHT; height < START_HEIGHT + 5; height++) {
+        server.addBlock(createBlock(height, 0));
+      }
+      server.addTransaction(MINED, { data: fill(100, 0x05), height: START_HEIGHT + 2 });
+      server.addTransaction(DROPPED, { data: fill(100, 0x06), height: 0 });
+
+      const tracker = createTracker();
+      tracker.trackTransaction(MINED, { rawTx: '05', expiryHeight: START_HEIGHT + 40 });
+      tracker.trackTransaction(DROPPED, { rawTx: '06', expiryHeight: START_HEIGHT + 40 });
+
+      expect(await tracker.checkConfirmation(MINED)).toMatchObject({
+        confirmed: true,
+        confirmations: 3,
+        blockHeight: START_HEIGHT + 2
+      });
+      expect((await tracker.checkConfirmation(DROPPED)).finalStatus).toBe(BroadcastTransactionStatus.MEMPOOL);
+      expect(server.sentTransactions).toEqual([]);
+    });
+
+    it('should neither rebroadcast nor expire while lightwalletd is unreachable', async () => {
+      const tracker = createTracker();
+      const events: TrackerEvent[] = [];
+      tracker.subscribe(event => events.push(event));
+      tracker.trackTransaction(DROPPED, {
+        rawTx: '06',
+        expiryHeight: START_HEIGHT - 1,
+        reservations: { utxos: [], nullifiers: ['aa'.repeat(32)] }
+      });
+
+      await server.stop();
+      const result = await tracker.checkConfirmation(DROPPED);
+
+      expect(result.finalStatus).toBe(BroadcastTransactionStatus.MEMPOOL);
+      expect(tracker.getTransactionStatus(DROPPED)!.error).toMatch(/Cannot connect to lightwalletd/);
+      expect(events).toEqual([]);
+      expect(tracker.getActiveReservations()).toHaveLength(1);
+    });
+  });
+});
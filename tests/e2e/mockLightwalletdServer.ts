@@ -0,0 +1,236 @@
+/**
+ * Mock Lightwalletd Server for Testing
+ *
+ * Serves the CompactTxStreamer methods over gRPC-web on a local HTTP port,
+ * so the lightwalletd client can be tested end to end without a real server.
+ */
+
+import { createServer } from 'http';
+import type { Server, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { ProtoWriter, ProtoMessage } from '../../src/shielded/protobuf';
+import { encodeFrame } from '../../src/shielded/lightwalletdClient';
+import type { CompactBlock, LightwalletdTransaction, LightwalletdTreeState } from '../../src/shielded/lightwalletdClient';
+
+const SERVICE_PREFIX = '/cash.z.wallet.sdk.rpc.CompactTxStreamer/';
+
+/**
+ * gRPC status codes used by the mock
+ */
+const GRPC_OK = 0;
+const GRPC_NOT_FOUND = 5;
+const GRPC_OUT_OF_RANGE = 11;
+const GRPC_UNIMPLEMENTED = 12;
+
+/**
+ * Handler result: response messages or a gRPC error
+ */
+type HandlerResult = Uint8Array[] | { status: number; message: string };
+
+/**
+ * Mock Lightwalletd Server
+ */
+export class MockLightwalletdServer {
+  private server: Server | null = null;
+  private blocks: Map<number, CompactBlock> = new Map();
+  private treeStates: Map<number, LightwalletdTreeState> = new Map();
+  private transactions: Map<string, LightwalletdTransaction> = new Map();
+
+  /** Raw transactions received through SendTransaction */
+  readonly sentTransactions: Uint8Array[] = [];
+
+  /** Block ranges requested through GetBlockRange */
+  readonly requestedRanges: Array<{ start: number; end: number }> = [];
+
+  /** Error returned by SendTransaction, if set */
+  sendError: { code: number; message: string } | null = null;
+
+  /**
+   * Start listening on a random local port
+   *
+   * @returns Base URL of the server
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Add a compact block
+   */
+  addBlock(block: CompactBlock): void {
+    this.blocks.set(block.height, block);
+  }
+
+  /**
+   * Add a tree state
+   */
+  addTreeState(state: LightwalletdTreeState): void {
+    this.treeStates.set(state.height, state);
+  }
+
+  /**
+   * Add a transaction served by GetTransaction
+   *
+   * @param txid - Transaction ID (display order hex)
+   */
+  addTransaction(txid: string, transaction: LightwalletdTransaction): void {
+    this.transactions.set(txid, transaction);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = new Uint8Array(Buffer.concat(chunks));
+      const method = (req.url ?? '').startsWith(SERVICE_PREFIX) ? req.url!.slice(SERVICE_PREFIX.length) : '';
+
+      // Request is a single data frame
+      const request = new ProtoMessage(body.length >= 5 ? body.slice(5) : new Uint8Array(0));
+      const result = this.dispatch(method, request);
+
+      res.writeHead(200, { 'Content-Type': 'application/grpc-web+proto' });
+      const frames = Array.isArray(result) ? result.map(message => encodeFrame(0x00, message)) : [];
+      const status = Array.isArray(result) ? GRPC_OK : result.status;
+      const message = Array.isArray(result) ? '' : encodeURIComponent(result.message);
+      frames.push(encodeFrame(0x80, new TextEncoder().encode(`grpc-status:${status}\r\ngrpc-message:${message}\r\n`)));
+      res.end(Buffer.concat(frames));
+    });
+  }
+
+  private dispatch(method: string, request: ProtoMessage): HandlerResult {
+    switch (method) {
+      case 'GetLatestBlock':
+        return this.getLatestBlock();
+      case 'GetBlockRange':
+        return this.getBlockRange(request);
+      case 'GetTreeState':
+        return this.getTreeState(request);
+      case 'GetTransaction':
+        return this.getTransaction(request);
+      case 'SendTransaction':
+        return this.sendTransaction(request);
+      default:
+        return { status: GRPC_UNIMPLEMENTED, message: `unknown method ${method}` };
+    }
+  }
+
+  private getLatestBlock(): HandlerResult {
+    const height = Math.max(0, ...this.blocks.keys());
+    const block = this.blocks.get(height);
+    return [new ProtoWriter().uint(1, height).bytesField(2, block?.hash ?? new Uint8Array(0)).finish()];
+  }
+
+  private getBlockRange(request: ProtoMessage): HandlerResult {
+    const start = request.message(1)?.uint(1) ?? 0;
+    const end = request.message(2)?.uint(1) ?? 0;
+    this.requestedRanges.push({ start, end });
+
+    const messages: Uint8Array[] = [];
+    for (let height = start; height <= end; height++) {
+      const block = this.blocks.get(height);
+      if (!block) {
+        return { status: GRPC_OUT_OF_RANGE, message: `block ${height} not found` };
+      }
+      messages.push(encodeCompactBlock(block));
+    }
+    return messages;
+  }
+
+  private getTreeState(request: ProtoMessage): HandlerResult {
+    const height = request.uint(1);
+    const state = this.treeStates.get(height);
+    if (!state) {
+      return { status: GRPC_OUT_OF_RANGE, message: `no tree state at height ${height}` };
+    }
+    return [
+      new ProtoWriter()
+        .string(1, state.network)
+        .uint(2, state.height)
+        .string(3, state.hash)
+        .uint(4, state.time)
+        .string(5, state.saplingTree)
+        .string(6, state.orchardTree)
+        .finish()
+    ];
+  }
+
+  private getTransaction(request: ProtoMessage): HandlerResult {
+    const txid = Buffer.from(request.bytes(3)).reverse().toString('hex');
+    const transaction = this.transactions.get(txid);
+    if (!transaction) {
+      return { status: GRPC_NOT_FOUND, message: `transaction ${txid} not found` };
+    }
+    return [new ProtoWriter().bytesField(1, transaction.data).uint(2, transaction.height).finish()];
+  }
+
+  private sendTransaction(request: ProtoMessage): HandlerResult {
+    const data = request.bytes(1);
+    if (this.sendError) {
+      return [new ProtoWriter().int32(1, this.sendError.code).string(2, this.sendError.message).finish()];
+    }
+    this.sentTransactions.push(data);
+    const txid = Buffer.from(data.slice(0, 32)).reverse().toString('hex').padStart(64, '0');
+    return [new ProtoWriter().string(2, txid).finish()];
+  }
+}
+
+/**
+ * Encode a compact block (compact_formats.proto)
+ */
+function encodeCompactBlock(block: CompactBlock): Uint8Array {
+  const writer = new ProtoWriter()
+    .uint(1, block.protoVersion)
+    .uint(2, block.height)
+    .bytesField(3, block.hash)
+    .bytesField(4, block.prevHash)
+    .uint(5, block.time);
+
+  for (const tx of block.vtx) {
+    const txWriter = new ProtoWriter().uint(1, tx.index).bytesField(2, tx.hash);
+    for (const spend of tx.spends) {
+      txWriter.message(4, new ProtoWriter().bytesField(1, spend.nf).finish());
+    }
+    for (const output of tx.outputs) {
+      txWriter.message(5, new ProtoWriter()
+        .bytesField(1, output.cmu)
+        .bytesField(2, output.ephemeralKey)
+        .bytesField(3, output.ciphertext)
+        .finish());
+    }
+    for (const action of tx.actions) {
+      txWriter.message(6, new ProtoWriter()
+        .bytesField(1, action.nullifier)
+        .bytesField(2, action.cmx)
+        .bytesField(3, action.ephemeralKey)
+        .bytesField(4, action.ciphertext)
+        .finish());
+    }
+    writer.message(7, txWriter.finish());
+  }
+
+  if (block.chainMetadata) {
+    writer.message(8, new ProtoWriter()
+      .uint(1, block.chainMetadata.saplingCommitmentTreeSize)
+      .uint(2, block.chainMetadata.orchardCommitmentTreeSize)
+      .finish());
+  }
+
+  return writer.finish();
+}
+
+export default MockLightwalletdServer;
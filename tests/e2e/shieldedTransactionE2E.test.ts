@@ -172,7 +172,7 @@ describe('E2E: Shielded Transaction Flow', () => {
         alpha: new Uint8Array(32).fill(0x22),
         value: 100000n,
         rcm: new Uint8Array(32).fill(0x33),
-        ask: new Uint8Array(32).fill(0x44),
+        ak: new Uint8Array(32).fill(0x44),
         nsk: new Uint8Array(32).fill(0x55),
         anchor: new Uint8Array(32).fill(0x66),
         merklePath: [new Uint8Array(32).fill(0x77)],
@@ -190,7 +190,7 @@ describe('E2E: Shielded Transaction Flow', () => {
         alpha: new Uint8Array(32),
         value: -100n, // Negative
         rcm: new Uint8Array(32),
-        ask: new Uint8Array(32),
+        ak: new Uint8Array(32),
         nsk: new Uint8Array(32)
       };
       
@@ -236,7 +236,9 @@ describe('E2E: Shielded Transaction Flow', () => {
       const tx = builder.buildShieldingTransaction(params);
       
       expect(tx.version).toBe(4);
-      expect(tx.shieldedBundle.outputs).toHaveLength(1);
+      // Padded with a dummy output
+      expect(tx.shieldedBundle.outputs).toHaveLength(2);
+      expect(tx.signingData.outputs[1].params.value).toBe(0);
       expect(tx.shieldedBundle.spends).toHaveLength(0);
       expect(tx.shieldedBundle.valueBalance).toBe(-190000n);
     });
@@ -266,9 +268,9 @@ describe('E2E: Shielded Transaction Flow', () => {
       
       expect(tx.version).toBe(4);
       expect(tx.shieldedBundle.spends).toHaveLength(1);
-      expect(tx.shieldedBundle.outputs).toHaveLength(1);
+      expect(tx.shieldedBundle.outputs).toHaveLength(2);
       expect(tx.signingData.spends).toHaveLength(1);
-      expect(tx.signingData.outputs).toHaveLength(1);
+      expect(tx.signingData.outputs).toHaveLength(2);
     });
 
     it('should build a deshielding transaction (z-to-t)', () => {
@@ -298,6 +300,49 @@ describe('E2E: Shielded Transaction Flow', () => {
       expect(tx.shieldedBundle.spends).toHaveLength(1);
       expect(tx.transparentOutputs).toHaveLength(1);
       expect(tx.shieldedBundle.valueBalance).toBe(190000n); // output + fee
+      // No change: both charged outputs are zero-value dummies
+      expect(tx.signingData.outputs.map(output => output.params.value)).toEqual([0, 0]);
+    });
+
+    it('should build a multi-recipient shielding transaction', () => {
+      const tx = builder.buildShieldingTransaction({
+        transparentInputs: [{
+          txid: '0'.repeat(64),
+          vout: 0,
+          value: 300000,
+          scriptPubKey: '',
+          address: 't1testaddress'
+        }],
+        shieldedOutput: { address: generateTestAddress(), value: 100000 },
+        additionalOutputs: [{ address: generateTestAddress(), value: 50000 }],
+        transparentOutputs: [{ address: 't1recipient', value: 40000, scriptPubKey: '' }],
+        changeAddress: 't1changeaddress',
+        fee: 20000
+      });
+
+      expect(tx.shieldedBundle.outputs).toHaveLength(2);
+      expect(tx.shieldedBundle.valueBalance).toBe(-150000n);
+      expect(tx.transparentOutputs.map(output => output.value)).toEqual([40000, 90000]);
+    });
+
+    it('should build a multi-recipient deshielding transaction', () => {
+      const tx = builder.buildDeshieldingTransaction({
+        spendingKey: generateTestSpendingKey(),
+        spends: [{
+          note: generateTestNote(300000),
+          witness: generateTestMerkleWitness()
+        }],
+        anchor: new Uint8Array(32).fill(0xCD),
+        transparentOutput: { address: 't1first', value: 60000, scriptPubKey: '' },
+        additionalOutputs: [{ address: 't1second', value: 40000, scriptPubKey: '' }],
+        shieldedOutputs: [{ address: generateTestAddress(), value: 70000 }],
+        shieldedChange: { address: generateTestAddress(), value: 0 },
+        fee: 20000
+      });
+
+      expect(tx.transparentOutputs).toHaveLength(2);
+      expect(tx.shieldedBundle.outputs).toHaveLength(2); // recipient + change
+      expect(tx.shieldedBundle.valueBalance).toBe(120000n); // transparent outputs + fee
     });
 
     it('should reject insufficient funds', () => {
@@ -328,12 +373,13 @@ describe('E2E: Shielded Transaction Flow', () => {
   describe('Fee Estimation', () => {
     it('should estimate fees correctly', () => {
       const fee1 = builder.estimateFee(1, 1, 0, 0);
-      const fee2 = builder.estimateFee(2, 2, 0, 0);
+      const fee2 = builder.estimateFee(3, 3, 0, 0);
       const fee3 = builder.estimateFee(1, 1, 1, 1);
       
+      // ZIP-317: 5000 zatoshi per logical action, two grace actions
+      expect(fee1).toBe(10000);
       expect(fee2).toBeGreaterThan(fee1);
       expect(fee3).toBeGreaterThan(fee1);
-      expect(fee1).toBeGreaterThan(0);
     });
   });
 
@@ -381,7 +427,7 @@ describe('E2E: Shielded Transaction Flow', () => {
       console.log(`[E2E] Proof generation took ${duration}ms`);
       
       expect(proofs.spendProofs).toHaveLength(1);
-      expect(proofs.outputProofs).toHaveLength(1);
+      expect(proofs.outputProofs).toHaveLength(2);
       expect(proofs.bindingSig.length).toBe(64);
       
       // Check proof sizes (should be 192 bytes for Zcash)
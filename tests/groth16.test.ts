@@ -174,7 +174,7 @@ describe('Groth16Integration', () => {
         alpha: new Uint8Array(32),
         value: 1000n,
         rcm: new Uint8Array(32),
-        ask: new Uint8Array(32),
+        ak: new Uint8Array(32),
         nsk: new Uint8Array(32),
         anchor: new Uint8Array(32),
         merklePath: [],
@@ -199,7 +199,7 @@ describe('Groth16Integration', () => {
         alpha: new Uint8Array(32).fill(2),
         value: 1000n,
         rcm: new Uint8Array(32).fill(3),
-        ask: new Uint8Array(32).fill(4),
+        ak: new Uint8Array(32).fill(4),
         nsk: new Uint8Array(32).fill(5),
         anchor: new Uint8Array(32).fill(6),
         merklePath: [],
@@ -220,7 +220,7 @@ describe('Groth16Integration', () => {
         alpha: new Uint8Array(32).fill(2),
         value: 1000n,
         rcm: new Uint8Array(32).fill(3),
-        ask: new Uint8Array(32).fill(4),
+        ak: new Uint8Array(32).fill(4),
         nsk: new Uint8Array(32).fill(5),
         anchor: new Uint8Array(32).fill(6),
         merklePath: [],
@@ -240,7 +240,7 @@ describe('Groth16Integration', () => {
         alpha: new Uint8Array(32).fill(2),
         value: 1000n,
         rcm: new Uint8Array(32).fill(3),
-        ask: new Uint8Array(32).fill(4),
+        ak: new Uint8Array(32).fill(4),
         nsk: new Uint8Array(32).fill(5),
         anchor: new Uint8Array(32).fill(6),
         merklePath: [],
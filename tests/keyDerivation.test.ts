@@ -5,6 +5,7 @@
 
 import { ZcashKeyDerivation } from '../src/crypto/keyDerivation';
 import type { ZcashKeys, Network } from '../src/types';
+import { bech32Encode } from '../src/utils/encoding';
 
 describe('ZcashKeyDerivation', () => {
   let derivation: ZcashKeyDerivation;
@@ -109,6 +110,29 @@ describe('ZcashKeyDerivation', () => {
     });
   });
 
+  describe('ZIP-32 Sapling keys', () => {
+    it('should export Bech32 extended keys', () => {
+      const keys = derivation.deriveKeys('test-account', new Uint8Array(32).fill(1));
+
+      expect(keys.extendedSpendingKey!.startsWith('secret-extended-key-test1')).toBe(true);
+      expect(keys.extendedFullViewingKey!.startsWith('zxviewtestsapling1')).toBe(true);
+    });
+
+    it('should derive the shielded address from the extended full viewing key', () => {
+      const midenPrivateKey = new Uint8Array(32).fill(1);
+      const keys = derivation.deriveKeys('test-account', midenPrivateKey, 2);
+      const xsk = derivation.deriveExtendedSpendingKey('test-account', midenPrivateKey, 2);
+      const fvk = xsk.toExtendedFullViewingKey();
+      const { diversifier, pkd } = fvk.defaultAddress();
+
+      expect(xsk.encode('testnet')).toBe(keys.extendedSpendingKey);
+      expect(keys.zAddress).toBe(bech32Encode('ztestsapling', new Uint8Array([...diversifier, ...pkd])));
+      expect(keys.viewingKey).toEqual(fvk.incomingViewingKey());
+      expect(keys.spendingKey).toEqual(new Uint8Array([...xsk.ask, ...xsk.nsk]));
+      expect(keys.outgoingViewingKey).toEqual(xsk.ovk);
+    });
+  });
+
   describe('generateTransparentAddress()', () => {
     it('should generate consistent addresses from same public key', () => {
       const publicKey = new Uint8Array(33).fill(1);
@@ -589,7 +589,10 @@ describe('PersistentNoteCache', () => {
       const newCache = new PersistentNoteCache(new NoteCache(), persistentCache['storage']);
       await newCache.initialize();
 
-      const notes = newCache.getNotesForAddress('addr-memo');
+      // Outgoing notes are sent history, not received notes
+      expect(newCache.getNotesForAddress('addr-memo')).toEqual([]);
+
+      const notes = newCache.getSentNotes().map(sent => sent.note);
       expect(notes.length).toBe(1);
       expect(notes[0].memo).toBeDefined();
       expect(notes[0].memo?.length).toBe(512);
@@ -0,0 +1,103 @@
+/**
+ * ZcashProvider memo messages
+ * Read markers survive a restart that rescans the notes
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ZcashProvider } from '../../src/provider/ZcashProvider';
+import { encodeMemo } from '../../src/shielded/memo';
+import { formatMessageMemo } from '../../src/shielded/memoInbox';
+import type { NoteCache } from '../../src/shielded/noteCache';
+import type { ZcashProviderConfig } from '../../src/types';
+import { bytesToHex } from '../../src/utils/bytes';
+
+const OURS = 'zs-ours';
+const ALICE = 'zs-alice';
+
+/**
+ * Scan a received note carrying a message into the provider's note cache
+ */
+function scanMessage(provider: ZcashProvider, fill: number, text: string, blockHeight: number): string {
+  const cmu = new Uint8Array(32).fill(fill);
+  const cache = (provider as any).noteCache as NoteCache;
+  cache.addNote({
+    note: {
+      commitment: cmu,
+      nullifier: cmu.map(byte => byte ^ 0xff),
+      value: 1,
+      rcm: new Uint8Array(32),
+      rseed: new Uint8Array(32),
+      cmu,
+      address: OURS,
+      diversifier: new Uint8Array(11),
+      pkD: new Uint8Array(32),
+      memo: encodeMemo(formatMessageMemo(text, ALICE)),
+      blockHeight,
+      txid: bytesToHex(cmu),
+      spent: false
+    },
+    blockHeight,
+    txIndex: 0,
+    outputIndex: 0,
+    isOutgoing: false
+  });
+  return bytesToHex(cmu);
+}
+
+describe('ZcashProvider memo messages', () => {
+  let dir: string;
+  let config: ZcashProviderConfig;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zcash-memos-'));
+    config = {
+      network: 'testnet',
+      // No node listens here; the provider runs offline
+      rpcEndpoint: 'http://127.0.0.1:1',
+      proofGenerationMode: 'delegated',
+      syncInterval: 60000,
+      cacheSize: 1000,
+      memoPath: join(dir, 'memos.json')
+    };
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should still show a message as read after a reload', async () => {
+    const first = new ZcashProvider(config);
+    await first.initialize();
+    const id = scanMessage(first, 1, 'hi', 100);
+    scanMessage(first, 2, 'are you there?', 101);
+    first.markMessagesRead([id]);
+    await first.shutdown();
+
+    const reloaded = new ZcashProvider(config);
+    await reloaded.initialize();
+    scanMessage(reloaded, 1, 'hi', 100);
+    scanMessage(reloaded, 2, 'are you there?', 101);
+
+    const [conversation] = reloaded.getConversations(OURS);
+    expect(conversation.messages.map(message => [message.text, message.read])).toEqual([
+      ['hi', true],
+      ['are you there?', false]
+    ]);
+    expect(conversation.unread).toBe(1);
+    await reloaded.shutdown();
+  });
+
+  it('should keep read markers when the caches are cleared', async () => {
+    const provider = new ZcashProvider(config);
+    const id = scanMessage(provider, 1, 'hi', 100);
+    provider.markMessagesRead([id]);
+
+    provider.clearCache();
+    scanMessage(provider, 1, 'hi', 100);
+
+    expect(provider.getConversations(OURS)[0].unread).toBe(0);
+    await provider.shutdown();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * ZcashProvider with keys unlocked from the key vault
+ * Everything the Miden private key allows must work from the stored ZcashKeys
+ */
+
+import { ZcashProvider } from '../../src/provider/ZcashProvider';
+import { ZcashKeyDerivation } from '../../src/crypto/keyDerivation';
+import { KeyVault } from '../../src/crypto/keyVault';
+import { MemoryKeyStorage } from '../../src/crypto/keyStorage';
+import type { ZcashKeys, ZcashProviderConfig } from '../../src/types';
+
+const PASSWORD = 'correct horse battery';
+const ACCOUNT_ID = 'miden-account-123';
+const MIDEN_PRIVATE_KEY = new Uint8Array(32).fill(1);
+
+const config: ZcashProviderConfig = {
+  network: 'testnet',
+  rpcEndpoint: 'http://localhost:8232',
+  proofGenerationMode: 'client',
+  syncInterval: 60000,
+  cacheSize: 1000
+};
+
+describe('ZcashProvider with vault keys', () => {
+  const derivation = new ZcashKeyDerivation('testnet');
+  const storage = new MemoryKeyStorage();
+  let vault: KeyVault;
+
+  beforeAll(async () => {
+    await new KeyVault({ storage }).store(
+      ACCOUNT_ID,
+      derivation.deriveKeys(ACCOUNT_ID, MIDEN_PRIVATE_KEY, 0),
+      PASSWORD
+    );
+  });
+
+  beforeEach(async () => {
+    vault = new KeyVault({ storage });
+    await vault.unlock(ACCOUNT_ID, PASSWORD);
+  });
+
+  afterEach(() => {
+    vault.dispose();
+  });
+
+  it('should restore every key derived from the Miden private key', () => {
+    expect(vault.getKeys(ACCOUNT_ID)).toEqual(derivation.deriveKeys(ACCOUNT_ID, MIDEN_PRIVATE_KEY, 0));
+  });
+
+  it('should give the same addresses as the Miden private key', async () => {
+    const provider = new ZcashProvider(config);
+    const addresses = await provider.getAddresses(ACCOUNT_ID, vault.getKeys(ACCOUNT_ID));
+
+    expect(addresses).toEqual(await new ZcashProvider(config).getAddresses(ACCOUNT_ID, MIDEN_PRIVATE_KEY));
+    expect(addresses.unifiedAddress).toMatch(/^utest1/);
+    expect((provider as any).addressToAccountId.get(addresses.unifiedAddress)).toBe(ACCOUNT_ID);
+  });
+
+  it('should hand out the same transparent addresses as the Miden private key', () => {
+    const fromVault = new ZcashProvider(config);
+    const fromMidenKey = new ZcashProvider(config);
+
+    const vaultAddresses = [0, 1, 2].map(() => fromVault.getNextTransparentAddress(ACCOUNT_ID, vault.getKeys(ACCOUNT_ID)));
+    const midenAddresses = [0, 1, 2].map(() => fromMidenKey.getNextTransparentAddress(ACCOUNT_ID, MIDEN_PRIVATE_KEY));
+
+    expect(vaultAddresses).toEqual(midenAddresses);
+    expect(vaultAddresses).toEqual(
+      derivation.deriveTransparentKeys(ACCOUNT_ID, MIDEN_PRIVATE_KEY, 0, 'external', 0, 3).map(key => key.address)
+    );
+  });
+
+  it('should keep handing out addresses after the vault keys are wiped', () => {
+    const provider = new ZcashProvider(config);
+    const keys = vault.getKeys(ACCOUNT_ID);
+    const first = provider.getNextTransparentAddress(ACCOUNT_ID, keys);
+    vault.lock(ACCOUNT_ID);
+    keys.transparentAccountKey!.fill(0);
+
+    const locked: ZcashKeys = { ...keys, transparentAccountKey: undefined };
+    expect(provider.getNextTransparentAddress(ACCOUNT_ID, locked)).toBe(
+      derivation.deriveTransparentKeys(ACCOUNT_ID, MIDEN_PRIVATE_KEY, 0, 'external', 1, 1)[0].address
+    );
+    expect(first).toBe(derivation.deriveKeys(ACCOUNT_ID, MIDEN_PRIVATE_KEY, 0).tAddress);
+  });
+
+  it('should reject keys without a transparent account key', () => {
+    const provider = new ZcashProvider(config);
+    const keys = { ...vault.getKeys(ACCOUNT_ID), transparentAccountKey: undefined };
+
+    expect(() => provider.getNextTransparentAddress(ACCOUNT_ID, keys)).toThrow('have no transparent account key');
+  });
+});
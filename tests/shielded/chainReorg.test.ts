@@ -0,0 +1,221 @@
+/**
+ * Chain Reorganization Tests
+ *
+ * Syncs a ShieldedStateSynchronizer against a fake chain, then replaces the
+ * chain tip and checks that the synchronizer rolls back to the fork point.
+ */
+
+import {
+  NoteScanner,
+  IncrementalMerkleTree,
+  ShieldedStateSynchronizer
+} from '../../src/shielded/noteScanner';
+import type { BlockData } from '../../src/shielded/noteScanner';
+import { NoteCache } from '../../src/shielded/noteCache';
+import type { SaplingNote } from '../../src/shielded/types';
+
+const address = 'zs1chainreorgtest';
+const START = 1000;
+
+function blockHash(height: number, branch: string): string {
+  return `${branch}${height}`.padStart(64, '0');
+}
+
+function createNote(fill: number, blockHeight: number): { note: SaplingNote; blockHeight: number } {
+  return {
+    note: {
+      commitment: new Uint8Array(32).fill(fill),
+      nullifier: new Uint8Array(32).fill(fill + 1),
+      value: 10000,
+      rcm: new Uint8Array(32).fill(3),
+      rseed: new Uint8Array(32).fill(4),
+      cmu: new Uint8Array(32).fill(fill + 2),
+      address,
+      diversifier: new Uint8Array(11).fill(6),
+      pkD: new Uint8Array(32).fill(7),
+      spent: false
+    },
+    blockHeight
+  };
+}
+
+/**
+ * In-memory chain that can be reorganized
+ */
+class FakeChain {
+  readonly blocks: Map<number, BlockData> = new Map();
+
+  /**
+   * Replace the chain from a height on with blocks from another branch
+   */
+  build(from: number, to: number, branch: string, outputs: number, nullifiers: Map<number, Uint8Array> = new Map()): void {
+    for (const height of [...this.blocks.keys()]) {
+      if (height >= from) {
+        this.blocks.delete(height);
+      }
+    }
+    for (let height = from; height <= to; height++) {
+      const prev = this.blocks.get(height - 1);
+      const nullifier = nullifiers.get(height);
+      this.blocks.set(height, {
+        height,
+        hash: blockHash(height, branch),
+        prevHash: prev?.hash,
+        transactions: [{
+          txid: blockHash(height, `tx${branch}`),
+          outputs: Array.from({ length: outputs }, (_, i) => ({
+            cmu: new Uint8Array(32).fill((height + i) % 256),
+            ephemeralKey: new Uint8Array(32).fill(0x20),
+            ciphertext: new Uint8Array(52).fill(0x30)
+          })),
+          nullifiers: nullifier ? [nullifier] : []
+        }]
+      });
+    }
+  }
+
+  fetch = async (from: number, to: number): Promise<BlockData[]> => {
+    const result: BlockData[] = [];
+    for (let height = from; height <= to; height++) {
+      const block = this.blocks.get(height);
+      if (block) {
+        result.push(block);
+      }
+    }
+    return result;
+  };
+}
+
+describe('Chain reorganization handling', () => {
+  let chain: FakeChain;
+  let cache: NoteCache;
+  let synchronizer: ShieldedStateSynchronizer;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    cache = new NoteCache();
+    const scanner = new NoteScanner({ ivk: new Uint8Array(32).fill(0x11) }, cache);
+    synchronizer = new ShieldedStateSynchronizer(scanner, cache);
+  });
+
+  it('should not roll back when the chain extends the synced blocks', async () => {
+    chain.build(START, START + 9, 'a', 1);
+    await synchronizer.sync(address, chain.fetch, START, START + 9);
+
+    chain.build(START + 10, START + 14, 'a', 1);
+    const result = await synchronizer.sync(address, chain.fetch, undefined, START + 14);
+
+    expect(result.rolledBackTo).toBeUndefined();
+    expect(synchronizer.getTree().size()).toBe(15);
+    expect(cache.getSyncedHeight(address)).toBe(START + 14);
+  });
+
+  it('should roll back notes, spends and commitments above the fork', async () => {
+    const oldNote = createNote(0x40, START - 5);
+    cache.addNote({ ...oldNote, txIndex: 0, outputIndex: 0, isOutgoing: false });
+    chain.build(START, START + 9, 'a', 1, new Map([[START + 7, oldNote.note.nullifier]]));
+
+    await synchronizer.sync(address, chain.fetch, START, START + 9);
+    const recentNote = createNote(0x50, START + 8);
+    cache.addNote({ ...recentNote, txIndex: 0, outputIndex: 0, isOutgoing: false });
+
+    expect(cache.isSpent(oldNote.note.nullifier)).toBe(true);
+    expect(synchronizer.getTree().size()).toBe(10);
+
+    // Blocks 1006+ are replaced by a longer branch
+    chain.build(START + 6, START + 10, 'b', 2);
+    const result = await synchronizer.sync(address, chain.fetch, undefined, START + 10);
+
+    expect(result.rolledBackTo).toBe(START + 5);
+    expect(cache.isSpent(oldNote.note.nullifier)).toBe(false);
+    expect(cache.getNoteByCommitment(recentNote.note.cmu)).toBeNull();
+    expect(cache.getNoteByCommitment(oldNote.note.cmu)).not.toBeNull();
+    expect(synchronizer.getTree().size()).toBe(6 + 5 * 2);
+    expect(cache.getSyncedHeight(address)).toBe(START + 10);
+  });
+
+  it('should roll back to a shorter chain', async () => {
+    chain.build(START, START + 9, 'a', 1);
+    await synchronizer.sync(address, chain.fetch, START, START + 9);
+
+    chain.build(START + 6, START + 7, 'b', 3);
+    const result = await synchronizer.sync(address, chain.fetch, undefined, START + 7);
+
+    expect(result.rolledBackTo).toBe(START + 5);
+    expect(synchronizer.getTree().size()).toBe(6 + 2 * 3);
+    expect(cache.getSyncedHeight(address)).toBe(START + 7);
+  });
+
+  it('should match a tree built only from the new branch', async () => {
+    chain.build(START, START + 9, 'a', 1);
+    await synchronizer.sync(address, chain.fetch, START, START + 9);
+
+    chain.build(START + 3, START + 9, 'b', 2);
+    await synchronizer.sync(address, chain.fetch, undefined, START + 9);
+
+    const freshCache = new NoteCache();
+    const fresh = new ShieldedStateSynchronizer(
+      new NoteScanner({ ivk: new Uint8Array(32).fill(0x11) }, freshCache),
+      freshCache
+    );
+    await fresh.sync(address, chain.fetch, START, START + 9);
+
+    expect(synchronizer.getAnchor()).toEqual(fresh.getAnchor());
+  });
+
+  it('should detect a reorg between batches', async () => {
+    chain.build(START, START + 149, 'a', 1);
+
+    let reorged = false;
+    const fetch = async (from: number, to: number): Promise<BlockData[]> => {
+      const blocks = await chain.fetch(from, to);
+      if (!reorged && to === START + 99) {
+        reorged = true;
+        chain.build(START + 95, START + 149, 'b', 1);
+      }
+      return blocks;
+    };
+
+    const result = await synchronizer.sync(address, fetch, START, START + 149);
+
+    expect(result.rolledBackTo).toBe(START + 94);
+    expect(synchronizer.getTree().size()).toBe(150);
+    expect(cache.getSyncedHeight(address)).toBe(START + 149);
+  });
+
+  it('should require a rescan when the reorg is deeper than the remembered blocks', async () => {
+    chain.build(START, START + 9, 'a', 1);
+    await synchronizer.sync(address, chain.fetch, START, START + 9);
+
+    chain.build(START, START + 12, 'b', 1);
+
+    await expect(synchronizer.sync(address, chain.fetch, undefined, START + 12))
+      .rejects.toThrow(/deeper than 10 blocks; a full rescan is required/);
+  });
+});
+
+describe('IncrementalMerkleTree.truncate', () => {
+  it('should restore the root of the shorter tree', () => {
+    const tree = new IncrementalMerkleTree(8);
+    const shorter = new IncrementalMerkleTree(8);
+    for (let i = 0; i < 5; i++) {
+      tree.append(new Uint8Array(32).fill(i + 1));
+      if (i < 3) {
+        shorter.append(new Uint8Array(32).fill(i + 1));
+      }
+    }
+    tree.root();
+
+    tree.truncate(3);
+
+    expect(tree.size()).toBe(3);
+    expect(tree.root()).toEqual(shorter.root());
+  });
+
+  it('should reject sizes larger than the tree', () => {
+    const tree = new IncrementalMerkleTree(8);
+    tree.append(new Uint8Array(32).fill(1));
+
+    expect(() => tree.truncate(2)).toThrow(/Cannot truncate tree of size 1 to 2/);
+  });
+});
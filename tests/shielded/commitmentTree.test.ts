@@ -0,0 +1,301 @@
+/**
+ * Commitment Tree Tests
+ *
+ * Checks the Sapling Merkle hash against known roots, and the frontier tree
+ * against a reference tree built from every leaf.
+ */
+
+import { CommitmentTree } from '../../src/shielded/commitmentTree';
+import {
+  saplingMerkleHash,
+  saplingEmptyRoots,
+  SAPLING_UNCOMMITTED_LEAF
+} from '../../src/shielded/saplingMerkleHash';
+import { bytesToHex, hexToBytes, reverseBytes } from '../../src/utils/bytes';
+
+const DEPTH = 8;
+
+function leaf(i: number): Uint8Array {
+  return new Uint8Array(32).fill(i % 251).map((byte, j) => (j === 0 ? (i >> 8) & 0xff : byte));
+}
+
+const referenceHashes = new Map<string, Uint8Array>();
+
+/**
+ * Memoized Merkle hash: the reference tree is rebuilt from every leaf each time
+ */
+function hashPair(level: number, left: Uint8Array, right: Uint8Array): Uint8Array {
+  const key = `${level}:${bytesToHex(left)}:${bytesToHex(right)}`;
+  let node = referenceHashes.get(key);
+  if (!node) {
+    node = saplingMerkleHash(level, left, right);
+    referenceHashes.set(key, node);
+  }
+  return node;
+}
+
+/**
+ * Full tree levels from all leaves, padded with empty nodes
+ */
+function referenceLevels(leaves: Uint8Array[], depth: number = DEPTH): Uint8Array[][] {
+  let empty: Uint8Array = SAPLING_UNCOMMITTED_LEAF;
+  let level = leaves;
+  const levels: Uint8Array[][] = [level];
+  for (let d = 0; d < depth; d++) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < Math.max(level.length, 1); i += 2) {
+      next.push(hashPair(d, level[i] ?? empty, level[i + 1] ?? empty));
+    }
+    empty = hashPair(d, empty, empty);
+    level = next;
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * Serialized tree in the z_gettreestate / GetTreeState format, built the way
+ * zcashd appends: left and right leaves, then one optional parent per level
+ */
+function treeStateHex(leaves: Uint8Array[]): string {
+  let left: Uint8Array | null = null;
+  let right: Uint8Array | null = null;
+  const parents: (Uint8Array | null)[] = [];
+  for (const value of leaves) {
+    if (!left) {
+      left = value;
+    } else if (!right) {
+      right = value;
+    } else {
+      let combined: Uint8Array | null = hashPair(0, left, right);
+      left = value;
+      right = null;
+      for (let i = 0; i < parents.length && combined; i++) {
+        if (parents[i]) {
+          combined = hashPair(i + 1, parents[i]!, combined);
+          parents[i] = null;
+        } else {
+          parents[i] = combined;
+          combined = null;
+        }
+      }
+      if (combined) {
+        parents.push(combined);
+      }
+    }
+  }
+
+  const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+  const optional = (node: Uint8Array | null) => (node ? '01' + hex(node) : '00');
+  return optional(left) + optional(right) + parents.length.toString(16).padStart(2, '0') + parents.map(optional).join('');
+}
+
+function referenceRoot(leaves: Uint8Array[]): Uint8Array {
+  return referenceLevels(leaves)[DEPTH][0];
+}
+
+function referenceAuthPath(leaves: Uint8Array[], position: number): Uint8Array[] {
+  const levels = referenceLevels(leaves);
+  let empty: Uint8Array = SAPLING_UNCOMMITTED_LEAF;
+  const path: Uint8Array[] = [];
+  for (let d = 0; d < DEPTH; d++) {
+    path.push(levels[d][(position >> d) ^ 1] ?? empty);
+    empty = hashPair(d, empty, empty);
+  }
+  return path;
+}
+
+describe('Sapling Merkle hash', () => {
+  it('should match the Sapling empty subtree roots', () => {
+    const roots = saplingEmptyRoots();
+
+    // librustzcash sapling::tree empty roots
+    expect(roots.slice(0, 4).map(bytesToHex)).toEqual([
+      '0100000000000000000000000000000000000000000000000000000000000000',
+      '817de36ab2d57feb077634bca77819c8e0bd298c04f6fed0e6a83cc1356ca155',
+      'ffe9fc03f18b176c998806439ff0bb8ad193afdb27b2ccbc88856916dd804e34',
+      'd8283386ef2ef07ebdbb4383c12a739a953a4d6e0d6fb1139a4036d693bfbb6c'
+    ]);
+    expect(bytesToHex(roots[32]))
+      .toBe('fbc2f4300c01f0b7820d00e3347c8da4ee614674376cbc45359daa54f9b5493e');
+  });
+
+  it('should rebuild the root a node reports for its tree state', () => {
+    // z_gettreestate at Sapling activation (mainnet height 419200)
+    const tree = CommitmentTree.fromTreeState('000000');
+    const finalRoot = '3e49b5f954aa9d3545bc6c37744661eea48d7c34e3000d82b7f0010c30f4c2fb';
+
+    // The node prints the root in reversed (uint256) byte order
+    expect(tree.root()).toEqual(reverseBytes(hexToBytes(finalRoot)));
+  });
+
+  it('should only hash the low 255 bits of each node', () => {
+    const high = new Uint8Array(32);
+    high[31] = 0x80;
+
+    expect(saplingMerkleHash(3, high, SAPLING_UNCOMMITTED_LEAF))
+      .toEqual(saplingMerkleHash(3, new Uint8Array(32), SAPLING_UNCOMMITTED_LEAF));
+    expect(() => saplingMerkleHash(32, high, high)).toThrow(/Invalid Sapling Merkle layer/);
+  });
+});
+
+describe('CommitmentTree', () => {
+  it('should match the reference root at every size', () => {
+    const tree = new CommitmentTree(DEPTH);
+    const leaves: Uint8Array[] = [];
+
+    expect(tree.root()).toEqual(referenceRoot(leaves));
+    for (let i = 0; i < 40; i++) {
+      leaves.push(leaf(i));
+      expect(tree.append(leaf(i))).toBe(i);
+      expect(tree.root()).toEqual(referenceRoot(leaves));
+    }
+    expect(tree.size()).toBe(40);
+  });
+
+  it('should keep witnesses only for marked leaves', () => {
+    const tree = new CommitmentTree(DEPTH);
+    const leaves: Uint8Array[] = [];
+    const marked = [0, 5, 6, 17, 31];
+
+    for (let i = 0; i < 45; i++) {
+      leaves.push(leaf(i));
+      tree.append(leaf(i), marked.includes(i));
+
+      for (const position of marked.filter(p => p <= i)) {
+        const witness = tree.witness(position)!;
+        expect(witness.authPath).toEqual(referenceAuthPath(leaves, position));
+        expect(witness.anchor).toEqual(tree.root());
+        expect(tree.verifyWitness(leaves[position], witness)).toBe(true);
+      }
+    }
+
+    expect(tree.witness(1)).toBeNull();
+    expect(tree.getMarkedPositions()).toEqual(marked);
+    expect(tree.unmark(5)).toBe(true);
+    expect(tree.witness(5)).toBeNull();
+  });
+
+  it('should rewind to a checkpoint', () => {
+    const tree = new CommitmentTree(DEPTH);
+    const leaves: Uint8Array[] = [];
+    for (let i = 0; i < 11; i++) {
+      leaves.push(leaf(i));
+      tree.append(leaf(i), i === 9);
+    }
+    tree.checkpoint(100);
+    const rootAt100 = tree.root();
+
+    for (let i = 11; i < 20; i++) {
+      tree.append(leaf(i), i === 12);
+    }
+    tree.checkpoint(101);
+    tree.append(leaf(20));
+    tree.checkpoint(102);
+
+    tree.rewind(100);
+
+    expect(tree.size()).toBe(11);
+    expect(tree.root()).toEqual(rootAt100);
+    expect(tree.getCheckpoints()).toEqual([100]);
+    expect(tree.getMarkedPositions()).toEqual([9]);
+    expect(tree.witness(9)!.authPath).toEqual(referenceAuthPath(leaves, 9));
+
+    // A different branch after the fork
+    for (let i = 0; i < 8; i++) {
+      const branchLeaf = leaf(200 + i);
+      leaves.push(branchLeaf);
+      tree.append(branchLeaf);
+    }
+    expect(tree.root()).toEqual(referenceRoot(leaves));
+    expect(tree.witness(9)!.authPath).toEqual(referenceAuthPath(leaves, 9));
+  });
+
+  it('should reject unknown and out-of-order checkpoints', () => {
+    const tree = new CommitmentTree(DEPTH, 3);
+    for (let id = 1; id <= 5; id++) {
+      tree.append(leaf(id));
+      tree.checkpoint(id);
+    }
+
+    expect(tree.getCheckpoints()).toEqual([3, 4, 5]);
+    expect(() => tree.checkpoint(5)).toThrow(/not after the latest checkpoint 5/);
+    expect(() => tree.rewind(2)).toThrow(/No commitment tree checkpoint at 2/);
+  });
+
+  it('should round-trip through serialization', () => {
+    const tree = new CommitmentTree(DEPTH);
+    for (let i = 0; i < 23; i++) {
+      tree.append(leaf(i), i === 3 || i === 20);
+      if (i % 5 === 0) {
+        tree.checkpoint(i);
+      }
+    }
+
+    const restored = CommitmentTree.deserialize(tree.serialize());
+
+    expect(restored.size()).toBe(23);
+    expect(restored.root()).toEqual(tree.root());
+    expect(restored.getCheckpoints()).toEqual(tree.getCheckpoints());
+    expect(restored.witness(3)).toEqual(tree.witness(3));
+    expect(restored.witness(20)).toEqual(tree.witness(20));
+
+    for (let i = 23; i < 30; i++) {
+      tree.append(leaf(i));
+      restored.append(leaf(i));
+    }
+    restored.rewind(15);
+    tree.rewind(15);
+    expect(restored.root()).toEqual(tree.root());
+    expect(restored.witness(3)).toEqual(tree.witness(3));
+  });
+
+  it('should stay small no matter how many leaves are appended', () => {
+    const tree = new CommitmentTree(32);
+    for (let i = 0; i < 5000; i++) {
+      tree.append(leaf(i), i === 1234);
+      if (i % 10 === 9) {
+        tree.checkpoint(i);
+      }
+    }
+
+    expect(tree.serialize().length).toBeLessThan(16 * 1024);
+    expect(tree.verifyWitness(leaf(1234), tree.witness(1234)!)).toBe(true);
+  });
+
+  it('should start from a z_gettreestate frontier', () => {
+    const leaves: Uint8Array[] = [];
+    for (let size = 0; size <= 40; size++) {
+      const tree = CommitmentTree.fromTreeState(treeStateHex(leaves), DEPTH);
+
+      expect(tree.size()).toBe(size);
+      expect(tree.root()).toEqual(referenceRoot(leaves));
+
+      // Appending after the snapshot matches a tree built from every leaf
+      tree.append(leaf(1000), true);
+      const extended = [...leaves, leaf(1000), leaf(1001), leaf(1002)];
+      tree.append(leaf(1001));
+      tree.append(leaf(1002));
+      expect(tree.root()).toEqual(referenceRoot(extended));
+      expect(tree.witness(size)!.authPath).toEqual(referenceAuthPath(extended, size));
+
+      leaves.push(leaf(size));
+    }
+
+    expect(CommitmentTree.fromTreeState('', DEPTH).size()).toBe(0);
+    expect(() => CommitmentTree.fromTreeState('0001' + '00'.repeat(32) + '00', DEPTH)).toThrow(/right leaf without left leaf/);
+    expect(() => CommitmentTree.fromTreeState('000000ff', DEPTH)).toThrow(/trailing data/);
+  });
+
+  it('should reject malformed serialized data', () => {
+    const data = new CommitmentTree(DEPTH).serialize();
+
+    expect(() => CommitmentTree.deserialize(new Uint8Array([9, ...data.slice(1)])))
+      .toThrow(/Unsupported commitment tree format version: 9/);
+    // Version 1 trees hashed their nodes with BLAKE2s
+    expect(() => CommitmentTree.deserialize(new Uint8Array([1, ...data.slice(1)])))
+      .toThrow(/Unsupported commitment tree format version: 1/);
+    expect(() => CommitmentTree.deserialize(data.slice(0, 5))).toThrow(/truncated/);
+    expect(() => CommitmentTree.deserialize(new Uint8Array([...data, 0]))).toThrow(/trailing data/);
+  });
+});
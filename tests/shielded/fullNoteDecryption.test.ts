@@ -0,0 +1,134 @@
+/**
+ * Full Note Decryption Tests
+ * Received notes are decrypted from 580-byte output ciphertexts with their memos
+ */
+
+import { ExtendedSpendingKey } from '../../src/shielded/zip32';
+import { derivePkd } from '../../src/shielded/jubjubHelper';
+import { encodeZcashAddress } from '../../src/shielded/bech32';
+import { ShieldedTransactionBuilder } from '../../src/shielded/transactionBuilder';
+import { NoteCache } from '../../src/shielded/noteCache';
+import { NoteScanner } from '../../src/shielded/noteScanner';
+import type { BlockData } from '../../src/shielded/noteScanner';
+import { tryDecryptSaplingOutput } from '../../src/shielded/saplingNoteEncryption';
+import { decodeMemo, memoToText } from '../../src/shielded/memo';
+import type { ShieldedOutputDescription } from '../../src/shielded/types';
+
+const SEED = new Uint8Array(32).map((_, i) => i);
+
+describe('Full note decryption', () => {
+  const sender = ExtendedSpendingKey.fromSeed(SEED).toExtendedFullViewingKey();
+  const recipient = ExtendedSpendingKey.fromSeed(SEED.map(byte => byte ^ 0xff)).toExtendedFullViewingKey();
+
+  const recipientDiversifier = recipient.defaultAddress().diversifier;
+  const recipientAddress = encodeZcashAddress(
+    'ztestsapling',
+    recipientDiversifier,
+    derivePkd(recipient.incomingViewingKey(), recipientDiversifier)
+  );
+
+  /**
+   * Build an output description with the shielded builder
+   */
+  function buildOutput(memo?: string, address = recipientAddress): ShieldedOutputDescription {
+    const builder = new ShieldedTransactionBuilder(new NoteCache(), 'testnet');
+    const { outputDescriptions } = (builder as any).buildOutputDescriptions([
+      { address, value: 250000, memo, ovk: sender.ovk }
+    ]);
+    return outputDescriptions[0];
+  }
+
+  function blockWith(height: number, outputs: ShieldedOutputDescription[]): BlockData {
+    return {
+      height,
+      hash: '00'.repeat(32),
+      transactions: [{
+        txid: 'cd'.repeat(32),
+        nullifiers: [],
+        outputs: outputs.map(output => ({
+          cmu: output.cmu,
+          ephemeralKey: output.ephemeralKey,
+          ciphertext: output.encCiphertext.slice(0, 52),
+          encCiphertext: output.encCiphertext
+        }))
+      }]
+    };
+  }
+
+  it('should decrypt a note with the recipient ivk', () => {
+    const note = tryDecryptSaplingOutput(buildOutput('invoice #42'), recipient.incomingViewingKey());
+
+    expect(note).not.toBeNull();
+    expect(note!.value).toBe(250000n);
+    expect(encodeZcashAddress('ztestsapling', note!.diversifier, note!.pkD)).toBe(recipientAddress);
+    expect(memoToText(note!.memo)).toBe('invoice #42');
+  });
+
+  it('should decode a missing memo as empty', () => {
+    const note = tryDecryptSaplingOutput(buildOutput(), recipient.incomingViewingKey());
+
+    expect(decodeMemo(note!.memo)).toEqual({ type: 'empty' });
+  });
+
+  it('should not decrypt with another ivk', () => {
+    expect(tryDecryptSaplingOutput(buildOutput('hi'), sender.incomingViewingKey())).toBeNull();
+  });
+
+  it('should reject a tampered commitment or ephemeral key', () => {
+    const output = buildOutput('hi');
+    const ivk = recipient.incomingViewingKey();
+
+    expect(tryDecryptSaplingOutput({ ...output, cmu: new Uint8Array(32).fill(1) }, ivk)).toBeNull();
+    expect(tryDecryptSaplingOutput({ ...output, ephemeralKey: buildOutput('hi').ephemeralKey }, ivk)).toBeNull();
+  });
+
+  it('should reject compact ciphertexts', () => {
+    const output = buildOutput('hi');
+
+    expect(tryDecryptSaplingOutput(
+      { ...output, encCiphertext: output.encCiphertext.slice(0, 52) },
+      recipient.incomingViewingKey()
+    )).toBeNull();
+  });
+
+  it('should store received notes with their memos during scanning', async () => {
+    const block = blockWith(700, [buildOutput('see you friday')]);
+    const cache = new NoteCache();
+    const scanner = new NoteScanner({ ivk: recipient.incomingViewingKey() }, cache);
+
+    const found = await scanner.scanBlocks([block], 700, 700);
+
+    expect(found).toHaveLength(1);
+    expect(found[0].isOutgoing).toBe(false);
+    expect(found[0].note.address).toBe(recipientAddress);
+    expect(memoToText(found[0].note.memo)).toBe('see you friday');
+    expect(cache.getBalance(recipientAddress).total).toBe(250000);
+  });
+
+  it('should attribute notes sent to other diversified addresses to the account', async () => {
+    const diversified = recipient.findAddress(recipient.defaultAddress().index + 1n);
+    const diversifiedAddress = encodeZcashAddress(
+      'ztestsapling',
+      diversified.diversifier,
+      derivePkd(recipient.incomingViewingKey(), diversified.diversifier)
+    );
+    const cache = new NoteCache();
+    const scanner = new NoteScanner(
+      { ivk: recipient.incomingViewingKey() },
+      cache,
+      { accountAddress: recipientAddress }
+    );
+
+    const found = await scanner.scanBlocks(
+      [blockWith(701, [buildOutput('to the default address'), buildOutput('to a fresh address', diversifiedAddress)])],
+      701,
+      701
+    );
+
+    expect(found).toHaveLength(2);
+    expect(found.map(n => n.note.address)).toEqual([recipientAddress, recipientAddress]);
+    expect(found[1].note.diversifier).toEqual(diversified.diversifier);
+    expect(recipient.diversifierIndex(found[1].note.diversifier)).toBe(diversified.index);
+    expect(cache.getBalance(recipientAddress).total).toBe(500000);
+  });
+});
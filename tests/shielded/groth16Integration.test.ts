@@ -58,7 +58,7 @@ describe('Groth16 Integration', () => {
         value: 1000n,
         rcv: new Uint8Array(32).fill(1),
         alpha: new Uint8Array(32).fill(2),
-        ask: new Uint8Array(32).fill(3),
+        ak: new Uint8Array(32).fill(3),
         nsk: new Uint8Array(32).fill(4),
         anchor: new Uint8Array(32).fill(5),
         position: 0n,
@@ -83,7 +83,7 @@ describe('Groth16 Integration', () => {
         value: 1000n,
         rcv: new Uint8Array(32).fill(1),
         alpha: new Uint8Array(32).fill(2),
-        ask: new Uint8Array(32).fill(3),
+        ak: new Uint8Array(32).fill(3),
         nsk: new Uint8Array(32).fill(4),
         anchor: new Uint8Array(32).fill(5),
         position: 0n,
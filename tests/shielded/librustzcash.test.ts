@@ -43,7 +43,7 @@ describe('librustzcash WASM Prover', () => {
             value: 1000n,
             rcv: new Uint8Array(32).fill(1),
             alpha: new Uint8Array(32).fill(2),
-            ask: new Uint8Array(32).fill(3),
+            ak: new Uint8Array(32).fill(3),
             nsk: new Uint8Array(32).fill(4),
             anchor: new Uint8Array(32).fill(5),
             position: 0n,
@@ -97,7 +97,7 @@ describe('librustzcash WASM Prover', () => {
         value: 1000n,
         rcv: new Uint8Array(32),
         alpha: new Uint8Array(32),
-        ask: new Uint8Array(32),
+        ak: new Uint8Array(32),
         nsk: new Uint8Array(32),
         anchor: new Uint8Array(32),
         position: 0n,
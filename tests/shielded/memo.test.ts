@@ -0,0 +1,59 @@
+/**
+ * Memo Field Tests (ZIP-302)
+ */
+
+import { encodeMemo, decodeMemo, memoToText, MEMO_SIZE } from '../../src/shielded/memo';
+
+describe('Memo fields', () => {
+  it('should encode and decode text memos', () => {
+    const field = encodeMemo('Thanks for the coffee ☕');
+
+    expect(field).toHaveLength(MEMO_SIZE);
+    expect(decodeMemo(field)).toEqual({ type: 'text', text: 'Thanks for the coffee ☕' });
+    expect(memoToText(field)).toBe('Thanks for the coffee ☕');
+  });
+
+  it('should encode a missing memo as 0xF6', () => {
+    const field = encodeMemo();
+
+    expect(field[0]).toBe(0xf6);
+    expect(field.subarray(1).every(byte => byte === 0)).toBe(true);
+    expect(decodeMemo(field)).toEqual({ type: 'empty' });
+    expect(memoToText(field)).toBeUndefined();
+  });
+
+  it('should decode arbitrary data after 0xFF', () => {
+    const field = new Uint8Array(MEMO_SIZE);
+    field[0] = 0xff;
+    field[1] = 0xde;
+    field[2] = 0xad;
+
+    const decoded = decodeMemo(field);
+    expect(decoded.type).toBe('binary');
+    expect(decoded.type === 'binary' && decoded.data).toHaveLength(MEMO_SIZE - 1);
+    expect(decoded.type === 'binary' && Array.from(decoded.data.slice(0, 2))).toEqual([0xde, 0xad]);
+  });
+
+  it('should keep reserved and non-zero 0xF6 memos as raw bytes', () => {
+    const reserved = new Uint8Array(MEMO_SIZE);
+    reserved[0] = 0xf5;
+    const notEmpty = encodeMemo();
+    notEmpty[10] = 1;
+
+    expect(decodeMemo(reserved)).toEqual({ type: 'binary', data: reserved });
+    expect(decodeMemo(notEmpty)).toEqual({ type: 'binary', data: notEmpty });
+  });
+
+  it('should return invalid UTF-8 text as binary', () => {
+    const field = encodeMemo(new Uint8Array([0x61, 0xc3, 0x28]));
+
+    expect(decodeMemo(field).type).toBe('binary');
+    expect(memoToText(field)).toBeUndefined();
+  });
+
+  it('should reject memos of the wrong size', () => {
+    expect(() => encodeMemo('x'.repeat(MEMO_SIZE + 1))).toThrow('Memo too long');
+    expect(() => decodeMemo(new Uint8Array(100))).toThrow('Invalid memo length');
+    expect(memoToText(new Uint8Array(100))).toBeUndefined();
+  });
+});
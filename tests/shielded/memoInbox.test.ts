@@ -0,0 +1,149 @@
+/**
+ * Memo Inbox Tests
+ * Text memos of scanned notes are threaded into conversations by reply-to address
+ */
+
+import { NoteCache } from '../../src/shielded/noteCache';
+import { encodeMemo } from '../../src/shielded/memo';
+import { MemoInbox, parseMessageMemo, formatMessageMemo } from '../../src/shielded/memoInbox';
+import type { SaplingNote } from '../../src/shielded/types';
+import { encodeUnifiedAddress, encodeReceiverAddress } from '../../src/address/unified';
+import { bytesToHex } from '../../src/utils/bytes';
+import { MemoryHistoryStorage } from '../../src/state/history';
+
+const OURS = 'zs-ours';
+const ALICE = 'zs-alice';
+const BOB = 'zs-bob';
+
+describe('Memo inbox', () => {
+  let cache: NoteCache;
+  let inbox: MemoInbox;
+  let nextCommitment: number;
+
+  beforeEach(() => {
+    cache = new NoteCache();
+    inbox = new MemoInbox(cache);
+    nextCommitment = 1;
+  });
+
+  /**
+   * Add a note carrying a memo and return its id
+   */
+  function addNote(address: string, memo: string | Uint8Array | undefined, blockHeight: number, isOutgoing = false): string {
+    const cmu = new Uint8Array(32).fill(nextCommitment++);
+    const note: SaplingNote = {
+      commitment: cmu,
+      nullifier: isOutgoing ? new Uint8Array(0) : cmu.map(byte => byte ^ 0xff),
+      value: 1,
+      rcm: new Uint8Array(32),
+      rseed: new Uint8Array(32),
+      cmu,
+      address,
+      diversifier: new Uint8Array(11),
+      pkD: new Uint8Array(32),
+      memo: encodeMemo(memo),
+      blockHeight,
+      txid: bytesToHex(cmu),
+      spent: false
+    };
+    cache.addNote({ note, blockHeight, txIndex: 0, outputIndex: 0, isOutgoing, sender: isOutgoing ? OURS : undefined });
+    return bytesToHex(cmu);
+  }
+
+  it('should parse and format the reply-to header', () => {
+    const memo = formatMessageMemo('lunch at noon?', ALICE);
+
+    expect(memo).toBe(`lunch at noon?\nReply-To:\n${ALICE}`);
+    expect(parseMessageMemo(memo)).toEqual({ text: 'lunch at noon?', replyTo: ALICE });
+    expect(parseMessageMemo('no header')).toEqual({ text: 'no header' });
+    expect(parseMessageMemo(`reply-to: ${BOB}`)).toEqual({ text: '', replyTo: BOB });
+
+    expect(() => formatMessageMemo('x'.repeat(500), ALICE)).toThrow('with the reply-to address (max 512)');
+    expect(formatMessageMemo('x'.repeat(512))).toHaveLength(512);
+  });
+
+  it('should thread received and sent messages by counterparty', () => {
+    addNote(OURS, formatMessageMemo('hi', ALICE), 100);
+    addNote(ALICE, formatMessageMemo('hello Alice', OURS), 101, true);
+    addNote(OURS, formatMessageMemo('ping', BOB), 102);
+    addNote(OURS, formatMessageMemo('how are you?', ALICE), 103);
+
+    const conversations = inbox.getConversations(OURS);
+
+    expect(conversations.map(conversation => conversation.counterparty)).toEqual([ALICE, BOB]);
+    expect(conversations[0].messages.map(message => [message.direction, message.text])).toEqual([
+      ['received', 'hi'],
+      ['sent', 'hello Alice'],
+      ['received', 'how are you?']
+    ]);
+    expect(conversations[0].unread).toBe(2);
+    expect(conversations[0].lastHeight).toBe(103);
+    expect(conversations[1].messages[0].account).toBe(OURS);
+  });
+
+  it('should keep messages without a reply-to address apart and skip non-text memos', () => {
+    const first = addNote(OURS, 'anonymous tip', 100);
+    addNote(OURS, 'another tip', 101);
+    addNote(OURS, undefined, 102);
+    addNote(OURS, new Uint8Array([0xff, 1, 2, 3]), 103);
+
+    const conversations = inbox.getConversations();
+
+    expect(conversations).toHaveLength(2);
+    expect(conversations[1].id).toBe(first);
+    expect(conversations[1].counterparty).toBeUndefined();
+  });
+
+  it('should thread a Unified reply-to address with its Sapling receiver', () => {
+    const sapling = new Uint8Array(43).fill(9);
+    const saplingAddress = encodeReceiverAddress('testnet', { type: 'sapling', data: sapling });
+    const unified = encodeUnifiedAddress({ network: 'testnet', sapling, orchard: new Uint8Array(43).fill(8) });
+
+    addNote(OURS, formatMessageMemo('from my UA', unified), 100);
+    addNote(saplingAddress, 'reply', 101, true);
+
+    const conversations = inbox.getConversations(OURS);
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].counterparty).toBe(saplingAddress);
+    expect(conversations[0].messages).toHaveLength(2);
+  });
+
+  it('should persist read markers to its storage for rescanned notes', async () => {
+    const storage = new MemoryHistoryStorage();
+    inbox = new MemoInbox(cache, { storage });
+    const id = addNote(OURS, formatMessageMemo('hi', ALICE), 100);
+    inbox.markRead([id]);
+    await inbox.flush();
+
+    // A restarted wallet scans the same note into an empty cache
+    cache = new NoteCache();
+    const reloaded = new MemoInbox(cache, { storage });
+    await reloaded.initialize();
+    nextCommitment = 1;
+    addNote(OURS, formatMessageMemo('hi', ALICE), 100);
+    addNote(OURS, formatMessageMemo('ping', BOB), 101);
+
+    expect(reloaded.getConversations().map(conversation => conversation.unread)).toEqual([1, 0]);
+    expect(reloaded.getUnreadCount()).toBe(1);
+
+    await storage.save('{"version":2}');
+    await expect(new MemoInbox(new NoteCache(), { storage }).initialize()).rejects.toThrow('Unsupported read marker format');
+  });
+
+  it('should persist read markers with the note cache', () => {
+    const id = addNote(OURS, formatMessageMemo('hi', ALICE), 100);
+    addNote(OURS, formatMessageMemo('ping', BOB), 101);
+    expect(inbox.getUnreadCount()).toBe(2);
+
+    inbox.markRead([id]);
+    expect(inbox.getUnreadCount()).toBe(1);
+
+    const restored = new NoteCache();
+    restored.import(cache.export());
+    const restoredInbox = new MemoInbox(restored);
+    expect(restoredInbox.getUnreadCount()).toBe(1);
+
+    restoredInbox.markRead(restoredInbox.getConversations()[0]);
+    expect(restoredInbox.getUnreadCount()).toBe(0);
+  });
+});
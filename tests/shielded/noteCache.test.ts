@@ -157,6 +157,23 @@ describe('NoteCache', () => {
       const retrieved = cache.getNoteByNullifier(nullifier);
       expect(retrieved?.spent).toBe(true);
     });
+
+    test('records the spending transaction, its height and its block time', () => {
+      const nullifier = new Uint8Array(32).fill(124);
+      const note = createMockNote({ nullifier, txid: 'created', blockTime: 1_600_000_000 });
+      cache.addNote({ note, blockHeight: 1000, txIndex: 0, outputIndex: 0, isOutgoing: false });
+
+      cache.markSpent(nullifier, 1010, 'spender', 1_600_000_750);
+
+      const restored = new NoteCache();
+      restored.import(cache.export());
+      const retrieved = restored.getNoteByNullifier(nullifier);
+      expect(retrieved?.txid).toBe('created');
+      expect(retrieved?.blockTime).toBe(1_600_000_000);
+      expect(retrieved?.spentTxid).toBe('spender');
+      expect(restored.getSpentHeight(nullifier)).toBe(1010);
+      expect(restored.getSpentTime(nullifier)).toBe(1_600_000_750);
+    });
   });
 
   describe('getSpendableNotes', () => {
@@ -193,6 +210,31 @@ describe('NoteCache', () => {
       expect(spendable.length).toBe(0);
     });
 
+    test('excludes notes reserved by a pending transaction until released', () => {
+      const address = 'zs1testaddr';
+      const nullifier = new Uint8Array(32).fill(1);
+      cache.addNote({
+        note: createMockNote({ address, nullifier, witness: createMockWitness() }),
+        blockHeight: 1000,
+        txIndex: 0,
+        outputIndex: 0,
+        isOutgoing: false
+      });
+      cache.updateTreeState({
+        root: new Uint8Array(32),
+        size: 100,
+        blockHeight: 1100
+      });
+
+      cache.reserveNotes([bytesToHex(nullifier)], 'pending-tx');
+      expect(cache.getSpendableNotes(address)).toHaveLength(0);
+      expect(cache.getReservation(nullifier)).toBe('pending-tx');
+      expect(cache.getBalance(address)).toEqual({ total: 100000, spendable: 0 });
+
+      cache.releaseNotes('pending-tx');
+      expect(cache.getSpendableNotes(address)).toHaveLength(1);
+    });
+
     test('excludes notes without witness', () => {
       const address = 'zs1testaddr';
       const note = createMockNote({ address });
@@ -294,6 +336,39 @@ describe('NoteCache', () => {
 
       expect(cache.getNoteCount()).toBe(1);
     });
+
+    test('un-spends notes spent above height', () => {
+      const note = createMockNote({ nullifier: new Uint8Array(32).fill(9) });
+      cache.addNote({
+        note,
+        blockHeight: 1000,
+        txIndex: 0,
+        outputIndex: 0,
+        isOutgoing: false
+      });
+      cache.markSpent(note.nullifier, 1100);
+
+      cache.revertToHeight(1050);
+
+      expect(cache.isSpent(note.nullifier)).toBe(false);
+      expect(cache.getNoteByCommitment(note.cmu)?.spent).toBe(false);
+    });
+
+    test('keeps spends at or below height', () => {
+      const note = createMockNote({ nullifier: new Uint8Array(32).fill(9) });
+      cache.addNote({
+        note,
+        blockHeight: 1000,
+        txIndex: 0,
+        outputIndex: 0,
+        isOutgoing: false
+      });
+      cache.markSpent(note.nullifier, 1050);
+
+      cache.revertToHeight(1050);
+
+      expect(cache.isSpent(note.nullifier)).toBe(true);
+    });
   });
 
   describe('export/import', () => {
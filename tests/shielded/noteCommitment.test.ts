@@ -79,12 +79,19 @@ describe('Note Commitment', () => {
   });
 
   describe('computeNullifier', () => {
+    // Diversifier with a diversified base; most byte patterns have none
+    const note = {
+      diversifier: new Uint8Array(11).fill(5),
+      pkD: new Uint8Array(32).fill(2),
+      value: 100000,
+      rcm: new Uint8Array(32).fill(3)
+    };
+
     test('produces 32-byte nullifier', () => {
       const nk = new Uint8Array(32).fill(1);
-      const cmu = new Uint8Array(32).fill(2);
       const position = 12345n;
 
-      const nullifier = computeNullifier(nk, cmu, position);
+      const nullifier = computeNullifier(nk, note, position);
 
       expect(nullifier).toBeInstanceOf(Uint8Array);
       expect(nullifier.length).toBe(32);
@@ -92,24 +99,36 @@ describe('Note Commitment', () => {
 
     test('is deterministic', () => {
       const nk = new Uint8Array(32).fill(1);
-      const cmu = new Uint8Array(32).fill(2);
       const position = 12345n;
 
-      const nullifier1 = computeNullifier(nk, cmu, position);
-      const nullifier2 = computeNullifier(nk, cmu, position);
+      const nullifier1 = computeNullifier(nk, note, position);
+      const nullifier2 = computeNullifier(nk, note, position);
 
       expect(bytesToHex(nullifier1)).toBe(bytesToHex(nullifier2));
     });
 
     test('different positions produce different nullifiers', () => {
       const nk = new Uint8Array(32).fill(1);
-      const cmu = new Uint8Array(32).fill(2);
 
-      const nullifier1 = computeNullifier(nk, cmu, 100n);
-      const nullifier2 = computeNullifier(nk, cmu, 200n);
+      const nullifier1 = computeNullifier(nk, note, 100n);
+      const nullifier2 = computeNullifier(nk, note, 200n);
+
+      expect(bytesToHex(nullifier1)).not.toBe(bytesToHex(nullifier2));
+    });
+
+    test('different nullifier keys produce different nullifiers', () => {
+      const nullifier1 = computeNullifier(new Uint8Array(32).fill(1), note, 100n);
+      const nullifier2 = computeNullifier(new Uint8Array(32).fill(4), note, 100n);
 
       expect(bytesToHex(nullifier1)).not.toBe(bytesToHex(nullifier2));
     });
+
+    test('rejects a diversifier without a diversified base', () => {
+      const nk = new Uint8Array(32).fill(1);
+
+      expect(() => computeNullifier(nk, { ...note, diversifier: new Uint8Array(11).fill(1) }, 0n))
+        .toThrow('Invalid diversifier');
+    });
   });
 
   describe('computeValueCommitment', () => {
@@ -0,0 +1,709 @@
+/**
+ * Orchard Tests
+ * Tests key derivation, note encryption, scanning, the note cache, the
+ * bundle builder, and Orchard sync and sends through the provider
+ *
+ * Hash-to-curve, Sinsemilla and RedPallas live in the WASM backend, so these
+ * tests use a stand-in OrchardPrimitives built from plain Pallas arithmetic
+ * and hashes. It keeps the algebraic relations the TypeScript code relies on
+ * (ak = [ask] G, pk_d = [ivk] g_d) without claiming consensus compatibility.
+ */
+
+import { pallas } from '@noble/curves/misc';
+import { blake2b } from '@noble/hashes/blake2b';
+import {
+  OrchardExtendedSpendingKey,
+  OrchardFullViewingKey
+} from '../../src/shielded/orchardKeys';
+import {
+  encryptOrchardNote,
+  tryDecryptOrchardAction,
+  tryDecryptCompactOrchardAction,
+  tryRecoverOrchardOutgoing,
+  encodeOrchardMemo,
+  ORCHARD_ENC_CIPHERTEXT_SIZE,
+  ORCHARD_OUT_CIPHERTEXT_SIZE
+} from '../../src/shielded/orchardNoteEncryption';
+import type { OrchardActionCiphertext } from '../../src/shielded/orchardNoteEncryption';
+import { OrchardNoteCache } from '../../src/shielded/orchardNoteCache';
+import { OrchardNoteScanner } from '../../src/shielded/orchardNoteScanner';
+import { OrchardBundleBuilder } from '../../src/shielded/orchardBuilder';
+import {
+  OrchardWasmBackend,
+  serializeActionWitnesses,
+  ORCHARD_TREE_DEPTH
+} from '../../src/shielded/halo2Prover';
+import type {
+  OrchardPrimitives,
+  OrchardNoteParts,
+  Halo2Prover,
+  OrchardActionWitness
+} from '../../src/shielded/halo2Prover';
+import {
+  encodePallasPoint,
+  decodePallasPoint,
+  toPallasScalar,
+  toPallasBase,
+  pallasScalarMultiply,
+  PALLAS_SCALAR_ORDER
+} from '../../src/shielded/pallasHelper';
+import { bytesToBigInt } from '../../src/shielded/scalarArithmetic';
+import { concatBytes, bigintToLEBytes, bytesToHex } from '../../src/utils/bytes';
+import { decodeUnifiedAddress, encodeUnifiedAddress } from '../../src/address/unified';
+import type { OrchardNote, OrchardBundle, MerkleWitness, CompactOrchardNote } from '../../src/shielded/types';
+import { NoteScanner, ShieldedStateSynchronizer } from '../../src/shielded/noteScanner';
+import type { BlockData } from '../../src/shielded/noteScanner';
+import { NoteCache } from '../../src/shielded/noteCache';
+import { ZcashProvider } from '../../src/provider/ZcashProvider';
+import { ZcashKeyDerivation } from '../../src/crypto/keyDerivation';
+import { computeConventionalFee } from '../../src/transactions/fees';
+
+const SEED = new Uint8Array(32).map((_, i) => i);
+const G = pallas.Point.BASE;
+const V = G.multiply(7n);
+
+const hash = (...parts: Uint8Array[]) => blake2b(concatBytes(...parts), { dkLen: 64 });
+const scalarOf = (bytes: Uint8Array) => bytesToBigInt(bytes) % PALLAS_SCALAR_ORDER;
+const mul = (scalar: bigint) => encodePallasPoint(G.multiply(scalar));
+
+const noteCommitment = (note: OrchardNoteParts) =>
+  toPallasBase(hash(note.recipient, bigintToLEBytes(note.value, 8), note.rho, note.rseed));
+
+const fakePrimitives: OrchardPrimitives = {
+  deriveSpendValidatingKey: ask => mul(scalarOf(ask)),
+  commitIvk: (ak, nk, rivk) => toPallasScalar(hash(ak, nk, rivk)),
+  diversifyHash: d => mul(scalarOf(toPallasScalar(hash(d))) || 1n),
+  noteCommitment,
+  nullifier: (nk, note) => toPallasBase(hash(nk, noteCommitment(note))),
+  valueCommitment: (value, rcv) => {
+    const v = ((value % PALLAS_SCALAR_ORDER) + PALLAS_SCALAR_ORDER) % PALLAS_SCALAR_ORDER;
+    const point = V.multiplyUnsafe(v).add(G.multiply(scalarOf(rcv)));
+    return encodePallasPoint(point);
+  },
+  randomizeSpendValidatingKey: (ak, alpha) =>
+    encodePallasPoint(decodePallasPoint(ak).add(G.multiply(scalarOf(alpha)))),
+  signSpendAuth: (ask, alpha, sighash) => hash(ask, alpha, sighash),
+  signBinding: (bsk, sighash) => hash(bsk, sighash),
+  merkleHash: (layer, left, right) => toPallasBase(hash(new Uint8Array([layer]), left, right))
+};
+
+class FakeHalo2Prover implements Halo2Prover {
+  calls: Array<{ actions: OrchardActionWitness[]; anchor: Uint8Array; flags: number }> = [];
+
+  async createProof(actions: OrchardActionWitness[], anchor: Uint8Array, flags: number): Promise<Uint8Array> {
+    this.calls.push({ actions, anchor, flags });
+    return new Uint8Array(128).fill(0xab);
+  }
+
+  async verifyProof(): Promise<boolean> {
+    return true;
+  }
+}
+
+function createWitness(): MerkleWitness {
+  return {
+    authPath: Array.from({ length: ORCHARD_TREE_DEPTH }, () => new Uint8Array(32)),
+    position: 3n
+  };
+}
+
+function recipientOf(fvk: OrchardFullViewingKey, index: bigint = 0n): Uint8Array {
+  const address = fvk.address(index, fakePrimitives);
+  return concatBytes(address.diversifier, address.pkd);
+}
+
+/**
+ * Actions of a bundle as a compact block carries them
+ */
+function compactActions(bundle: OrchardBundle): CompactOrchardNote[] {
+  return bundle.actions.map(action => ({
+    nullifier: action.nullifier,
+    cmx: action.cmx,
+    ephemeralKey: action.ephemeralKey,
+    ciphertext: action.encCiphertext.slice(0, 52)
+  }));
+}
+
+function createOwnedNote(fvk: OrchardFullViewingKey, value: number): OrchardNote {
+  const parts: OrchardNoteParts = {
+    recipient: recipientOf(fvk),
+    value: BigInt(value),
+    rho: toPallasBase(new Uint8Array(32).fill(9)),
+    rseed: new Uint8Array(32).fill(10)
+  };
+  return {
+    ...parts,
+    value,
+    cmx: fakePrimitives.noteCommitment(parts),
+    nullifier: fakePrimitives.nullifier(fvk.nk, parts),
+    address: 'u1owned',
+    witness: createWitness(),
+    blockHeight: 100,
+    spent: false
+  };
+}
+
+describe('Orchard', () => {
+  const account = OrchardExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 0);
+  const fvk = account.toFullViewingKey(fakePrimitives);
+
+  describe('key derivation', () => {
+    it('should derive a deterministic master key', () => {
+      const a = OrchardExtendedSpendingKey.fromSeed(SEED);
+      const b = OrchardExtendedSpendingKey.fromSeed(SEED);
+
+      expect(a.sk).toEqual(b.sk);
+      expect(a.chainCode).toEqual(b.chainCode);
+      expect(a.sk).not.toEqual(a.chainCode);
+      expect(a.depth).toBe(0);
+    });
+
+    it('should reject invalid seeds', () => {
+      expect(() => OrchardExtendedSpendingKey.fromSeed(new Uint8Array(16))).toThrow(/seed length/);
+    });
+
+    it('should only allow hardened children', () => {
+      const master = OrchardExtendedSpendingKey.fromSeed(SEED);
+
+      expect(() => master.deriveChild(1)).toThrow(/hardened/);
+      expect(master.deriveChild(0x80000001).depth).toBe(1);
+    });
+
+    it('should separate accounts and networks', () => {
+      const other = OrchardExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 1);
+      const testnet = OrchardExtendedSpendingKey.deriveAccount(SEED, 'testnet', 0);
+
+      expect(account.depth).toBe(3);
+      expect(account.sk).not.toEqual(other.sk);
+      expect(account.sk).not.toEqual(testnet.sk);
+    });
+
+    it('should produce an ak with ỹ = 0 that matches ask', () => {
+      const ask = account.spendAuthorizingKey(fakePrimitives);
+
+      expect(fvk.ak[31] & 0x80).toBe(0);
+      expect(fakePrimitives.deriveSpendValidatingKey(ask)).toEqual(fvk.ak);
+    });
+
+    it('should round-trip the full viewing key encoding', () => {
+      const decoded = OrchardFullViewingKey.fromBytes(fvk.toBytes());
+
+      expect(decoded.toBytes()).toEqual(fvk.toBytes());
+      expect(() => OrchardFullViewingKey.fromBytes(new Uint8Array(64))).toThrow(/96 bytes/);
+    });
+
+    it('should derive distinct addresses with pk_d = [ivk] g_d', () => {
+      const ivk = fvk.incomingViewingKey(fakePrimitives);
+      const first = fvk.address(0n, fakePrimitives);
+      const second = fvk.address(1n, fakePrimitives);
+
+      expect(first.diversifier).toHaveLength(11);
+      expect(first.diversifier).not.toEqual(second.diversifier);
+      expect(first.pkd).toEqual(pallasScalarMultiply(ivk, fakePrimitives.diversifyHash(first.diversifier)));
+      expect(fvk.defaultAddress(fakePrimitives)).toEqual(first);
+      expect(fvk.incomingViewingKeyBytes(fakePrimitives)).toHaveLength(64);
+    });
+  });
+
+  describe('note encryption', () => {
+    const recipientFvk = OrchardExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 1)
+      .toFullViewingKey(fakePrimitives);
+
+    function encryptTo(ovk: Uint8Array | null, memo = 'hello orchard'): OrchardActionCiphertext {
+      const nullifier = toPallasBase(new Uint8Array(32).fill(5));
+      const note: OrchardNoteParts = {
+        recipient: recipientOf(recipientFvk, 2n),
+        value: 42000n,
+        rho: nullifier,
+        rseed: new Uint8Array(32).fill(6)
+      };
+      const cmx = fakePrimitives.noteCommitment(note);
+      const cv = fakePrimitives.valueCommitment(-42000n, new Uint8Array(32).fill(1));
+      const encrypted = encryptOrchardNote(
+        { ...note, memo: encodeOrchardMemo(memo), ovk, cv, cmx },
+        fakePrimitives
+      );
+      return { ...encrypted, nullifier, cv, cmx };
+    }
+
+    it('should produce ciphertexts of the consensus sizes', () => {
+      const action = encryptTo(fvk.outgoingViewingKey());
+
+      expect(action.encCiphertext).toHaveLength(ORCHARD_ENC_CIPHERTEXT_SIZE);
+      expect(action.outCiphertext).toHaveLength(ORCHARD_OUT_CIPHERTEXT_SIZE);
+    });
+
+    it('should decrypt with the recipient ivk', () => {
+      const action = encryptTo(fvk.outgoingViewingKey());
+      const note = tryDecryptOrchardAction(action, recipientFvk.incomingViewingKey(fakePrimitives), fakePrimitives);
+
+      expect(note).not.toBeNull();
+      expect(note!.value).toBe(42000n);
+      expect(note!.recipient).toEqual(recipientOf(recipientFvk, 2n));
+      expect(Buffer.from(note!.memo.slice(0, 13)).toString()).toBe('hello orchard');
+    });
+
+    it('should decrypt the compact ciphertext with the recipient ivk', () => {
+      const action = encryptTo(fvk.outgoingViewingKey());
+      const compact = { ...action, ciphertext: action.encCiphertext.slice(0, 52) };
+      const note = tryDecryptCompactOrchardAction(compact, recipientFvk.incomingViewingKey(fakePrimitives), fakePrimitives);
+
+      expect(note).not.toBeNull();
+      expect(note!.value).toBe(42000n);
+      expect(note!.recipient).toEqual(recipientOf(recipientFvk, 2n));
+      expect(note!.memo).toHaveLength(0);
+      expect(tryDecryptCompactOrchardAction(compact, fvk.incomingViewingKey(fakePrimitives), fakePrimitives)).toBeNull();
+    });
+
+    it('should not decrypt with another ivk', () => {
+      const action = encryptTo(fvk.outgoingViewingKey());
+
+      expect(tryDecryptOrchardAction(action, fvk.incomingViewingKey(fakePrimitives), fakePrimitives)).toBeNull();
+    });
+
+    it('should reject a tampered commitment', () => {
+      const action = encryptTo(null);
+      const tampered = { ...action, cmx: new Uint8Array(32).fill(1) };
+
+      expect(tryDecryptOrchardAction(tampered, recipientFvk.incomingViewingKey(fakePrimitives), fakePrimitives))
+        .toBeNull();
+    });
+
+    it('should recover outgoing notes with the sender ovk', () => {
+      const action = encryptTo(fvk.outgoingViewingKey());
+      const note = tryRecoverOrchardOutgoing(action, fvk.outgoingViewingKey(), fakePrimitives);
+
+      expect(note).not.toBeNull();
+      expect(note!.value).toBe(42000n);
+    });
+
+    it('should make notes unrecoverable without an ovk', () => {
+      const action = encryptTo(null);
+
+      expect(tryRecoverOrchardOutgoing(action, fvk.outgoingViewingKey(), fakePrimitives)).toBeNull();
+    });
+
+    it('should encode an empty memo as 0xF6', () => {
+      const memo = encodeOrchardMemo();
+
+      expect(memo[0]).toBe(0xf6);
+      expect(memo.slice(1).every(byte => byte === 0)).toBe(true);
+      expect(() => encodeOrchardMemo(new Uint8Array(513))).toThrow(/Memo too long/);
+    });
+  });
+
+  describe('OrchardNoteCache', () => {
+    let cache: OrchardNoteCache;
+
+    beforeEach(() => {
+      cache = new OrchardNoteCache();
+      cache.updateTipHeight(110);
+    });
+
+    it('should only report notes with a witness as spendable', () => {
+      const note = createOwnedNote(fvk, 5000);
+      cache.addNote({ note: { ...note, witness: undefined }, blockHeight: 100, txIndex: 0, actionIndex: 0, isOutgoing: false });
+
+      expect(cache.getBalance('u1owned')).toEqual({ total: 5000, spendable: 0 });
+
+      cache.updateWitness(note.cmx, createWitness());
+      expect(cache.getBalance('u1owned')).toEqual({ total: 5000, spendable: 5000 });
+    });
+
+    it('should respect confirmations', () => {
+      cache.addNote({ note: createOwnedNote(fvk, 5000), blockHeight: 108, txIndex: 0, actionIndex: 0, isOutgoing: false });
+
+      expect(cache.getSpendableNotes('u1owned', 3)).toHaveLength(1);
+      expect(cache.getSpendableNotes('u1owned', 4)).toHaveLength(0);
+    });
+
+    it('should mark notes spent by nullifier', () => {
+      const note = createOwnedNote(fvk, 5000);
+      cache.addNote({ note, blockHeight: 100, txIndex: 0, actionIndex: 0, isOutgoing: false });
+      cache.markSpent(note.nullifier);
+
+      expect(cache.isSpent(note.nullifier)).toBe(true);
+      expect(cache.getBalance('u1owned').total).toBe(0);
+    });
+
+    it('should revert notes above a height', () => {
+      const note = createOwnedNote(fvk, 5000);
+      cache.addNote({ note, blockHeight: 105, txIndex: 0, actionIndex: 0, isOutgoing: false });
+      cache.revertToHeight(104);
+
+      expect(cache.getNoteCount()).toBe(0);
+      expect(cache.getNoteByNullifier(note.nullifier)).toBeNull();
+      expect(cache.getNotesForAddress('u1owned')).toEqual([]);
+    });
+  });
+
+  describe('OrchardBundleBuilder', () => {
+    it('should pad to the minimum number of actions', () => {
+      expect(OrchardBundleBuilder.actionCount(0, 0)).toBe(0);
+      expect(OrchardBundleBuilder.actionCount(1, 0)).toBe(2);
+      expect(OrchardBundleBuilder.actionCount(1, 1)).toBe(2);
+      expect(OrchardBundleBuilder.actionCount(3, 1)).toBe(3);
+    });
+
+    it('should build, prove and authorize a bundle', async () => {
+      const prover = new FakeHalo2Prover();
+      const builder = new OrchardBundleBuilder(fakePrimitives, prover);
+      const spend = createOwnedNote(fvk, 100000);
+      const anchor = new Uint8Array(32).fill(0x11);
+
+      const unauthorized = await builder.build({
+        spendingKey: account,
+        spends: [spend],
+        outputs: [{ recipient: recipientOf(fvk, 5n), value: 60000, memo: 'change' }],
+        anchor
+      });
+
+      const { bundle } = unauthorized;
+      expect(bundle.actions).toHaveLength(2);
+      expect(bundle.flags).toBe(0x03);
+      expect(bundle.valueBalance).toBe(40000n);
+      expect(bundle.anchor).toEqual(anchor);
+      expect(bundle.proof).toHaveLength(128);
+      expect(prover.calls).toHaveLength(1);
+      expect(prover.calls[0].actions).toHaveLength(2);
+
+      const nullifiers = bundle.actions.map(action => bytesToHex(action.nullifier));
+      expect(nullifiers).toContain(bytesToHex(spend.nullifier));
+
+      const sighash = new Uint8Array(32).fill(0x22);
+      const signed = builder.authorize(unauthorized, sighash);
+      const ask = account.spendAuthorizingKey(fakePrimitives);
+      const spendIndex = nullifiers.indexOf(bytesToHex(spend.nullifier));
+      expect(signed.actions[spendIndex].spendAuthSig)
+        .toEqual(fakePrimitives.signSpendAuth(ask, unauthorized.signingData.actions[spendIndex].alpha, sighash));
+      expect(signed.bindingSig).toEqual(fakePrimitives.signBinding(unauthorized.signingData.bsk, sighash));
+
+      // The value commitments sum to [valueBalance] V + [bsk] G
+      const cvSum = bundle.actions
+        .map(action => decodePallasPoint(action.cv))
+        .reduce((sum, point) => sum.add(point));
+      expect(encodePallasPoint(cvSum))
+        .toEqual(fakePrimitives.valueCommitment(bundle.valueBalance, unauthorized.signingData.bsk));
+    });
+
+    it('should reject spends without a witness', async () => {
+      const builder = new OrchardBundleBuilder(fakePrimitives, new FakeHalo2Prover());
+
+      await expect(builder.build({
+        spendingKey: account,
+        spends: [{ ...createOwnedNote(fvk, 1000), witness: undefined }],
+        outputs: [],
+        anchor: new Uint8Array(32)
+      })).rejects.toThrow(/witness/);
+    });
+
+    it('should produce notes the recipient and sender can scan', async () => {
+      const builder = new OrchardBundleBuilder(fakePrimitives, new FakeHalo2Prover());
+      const spend = createOwnedNote(fvk, 100000);
+      const recipientFvk = OrchardExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 1)
+        .toFullViewingKey(fakePrimitives);
+
+      const { bundle } = await builder.build({
+        spendingKey: account,
+        spends: [spend],
+        outputs: [{ recipient: recipientOf(recipientFvk), value: 90000, memo: 'thanks' }],
+        anchor: new Uint8Array(32)
+      });
+
+      const recipientCache = new OrchardNoteCache();
+      const received = new OrchardNoteScanner(recipientFvk, fakePrimitives, recipientCache, 'mainnet')
+        .scanBundle(bundle, 200, 1, 40);
+      expect(received).toHaveLength(1);
+      expect(received[0].isOutgoing).toBe(false);
+      expect(received[0].note.value).toBe(90000);
+      expect(received[0].note.position).toBe(40 + received[0].actionIndex);
+      expect(decodeUnifiedAddress(received[0].note.address).orchard).toEqual(recipientOf(recipientFvk));
+      expect(recipientCache.getBalance(received[0].note.address).total).toBe(90000);
+
+      const senderCache = new OrchardNoteCache();
+      senderCache.addNote({ note: spend, blockHeight: 100, txIndex: 0, actionIndex: 0, isOutgoing: false });
+      const sent = new OrchardNoteScanner(fvk, fakePrimitives, senderCache, 'mainnet').scanBundle(bundle, 200, 1);
+      expect(sent).toHaveLength(1);
+      expect(sent[0].isOutgoing).toBe(true);
+      expect(sent[0].note.nullifier).toHaveLength(0);
+      expect(senderCache.isSpent(spend.nullifier)).toBe(true);
+    });
+  });
+
+  describe('Orchard sync', () => {
+    const recipientAccount = OrchardExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 1);
+    const recipientFvk = recipientAccount.toFullViewingKey(fakePrimitives);
+    const zAddress = 'zs1orchardsynctest';
+
+    let cache: NoteCache;
+    let orchardCache: OrchardNoteCache;
+    let synchronizer: ShieldedStateSynchronizer;
+    let blocks: BlockData[];
+
+    const fetchBlocks = async (from: number, to: number) =>
+      blocks.filter(block => block.height >= from && block.height <= to);
+
+    function block(height: number, actions: CompactOrchardNote[]): BlockData {
+      return {
+        height,
+        hash: height.toString(16).padStart(64, '0'),
+        transactions: [{ txid: height.toString(16).padStart(64, 'a'), outputs: [], nullifiers: [], actions }]
+      };
+    }
+
+    beforeEach(() => {
+      cache = new NoteCache();
+      orchardCache = new OrchardNoteCache();
+      synchronizer = new ShieldedStateSynchronizer(new NoteScanner({ ivk: new Uint8Array(32).fill(0x11) }, cache), cache);
+      synchronizer.setOrchardScanner(
+        new OrchardNoteScanner(recipientFvk, fakePrimitives, orchardCache, 'mainnet', 'u1recipient'),
+        orchardCache,
+        fakePrimitives
+      );
+    });
+
+    it('should find notes in compact blocks and witness them in the Orchard tree', async () => {
+      const { bundle } = await new OrchardBundleBuilder(fakePrimitives, new FakeHalo2Prover()).build({
+        spendingKey: account,
+        spends: [createOwnedNote(fvk, 100000)],
+        outputs: [{ recipient: recipientOf(recipientFvk), value: 90000 }],
+        anchor: new Uint8Array(32)
+      });
+      blocks = [block(500, []), block(501, compactActions(bundle))];
+
+      await synchronizer.sync(zAddress, fetchBlocks, 500, 501);
+
+      const [note] = orchardCache.getNotesForAddress('u1recipient');
+      expect(note.value).toBe(90000);
+      expect(note.blockHeight).toBe(501);
+      expect(note.nullifier).toHaveLength(32);
+      expect(synchronizer.getOrchardTree()!.size()).toBe(2);
+      expect(synchronizer.getTree().size()).toBe(0);
+      expect(note.witness!.anchor).toEqual(synchronizer.getOrchardAnchor());
+      expect(orchardCache.getBalance('u1recipient')).toEqual({ total: 90000, spendable: 90000 });
+    });
+
+    it('should see its note spent', async () => {
+      const builder = new OrchardBundleBuilder(fakePrimitives, new FakeHalo2Prover());
+      const { bundle } = await builder.build({
+        spendingKey: account,
+        spends: [createOwnedNote(fvk, 100000)],
+        outputs: [{ recipient: recipientOf(recipientFvk), value: 90000 }],
+        anchor: new Uint8Array(32)
+      });
+      blocks = [block(500, compactActions(bundle))];
+      await synchronizer.sync(zAddress, fetchBlocks, 500, 500);
+      const [note] = orchardCache.getNotesForAddress('u1recipient');
+
+      const spend = await builder.build({
+        spendingKey: recipientAccount,
+        spends: [note],
+        outputs: [],
+        anchor: synchronizer.getOrchardAnchor()
+      });
+      blocks.push(block(501, compactActions(spend.bundle)));
+      await synchronizer.sync(zAddress, fetchBlocks, undefined, 501);
+
+      expect(orchardCache.isSpent(note.nullifier)).toBe(true);
+      expect(orchardCache.getBalance('u1recipient').total).toBe(0);
+      expect(synchronizer.getOrchardTree()!.size()).toBe(4);
+    });
+
+    it('should roll the Orchard tree back with the chain', async () => {
+      const { bundle } = await new OrchardBundleBuilder(fakePrimitives, new FakeHalo2Prover()).build({
+        spendingKey: account,
+        spends: [createOwnedNote(fvk, 100000)],
+        outputs: [{ recipient: recipientOf(recipientFvk), value: 90000 }],
+        anchor: new Uint8Array(32)
+      });
+      blocks = [block(500, []), block(501, compactActions(bundle))];
+      await synchronizer.sync(zAddress, fetchBlocks, 500, 501);
+
+      // Block 501 is replaced by one without the payment
+      blocks = [blocks[0], { ...block(501, []), hash: 'ff'.repeat(32) }, { ...block(502, []), prevHash: 'ff'.repeat(32) }];
+      const result = await synchronizer.sync(zAddress, fetchBlocks, undefined, 502);
+
+      expect(result.rolledBackTo).toBe(500);
+      expect(orchardCache.getNotesForAddress('u1recipient')).toEqual([]);
+      expect(synchronizer.getOrchardTree()!.size()).toBe(0);
+    });
+  });
+
+  describe('ZcashProvider', () => {
+    const ACCOUNT_ID = 'miden-account-orchard';
+    const HEIGHT = 3_000_000;
+    const ANCHOR = new Uint8Array(32).fill(0x5a);
+    const keys = new ZcashKeyDerivation('testnet').deriveKeys(ACCOUNT_ID, new Uint8Array(32).fill(7), 0);
+    const recipientFvk = OrchardExtendedSpendingKey.deriveAccount(SEED, 'testnet', 1).toFullViewingKey(fakePrimitives);
+
+    let provider: ZcashProvider;
+    let prover: FakeHalo2Prover;
+    let orchardAddress: string;
+
+    beforeEach(async () => {
+      provider = new ZcashProvider({
+        network: 'testnet',
+        rpcEndpoint: 'http://localhost:8232',
+        proofGenerationMode: 'client',
+        syncInterval: 60000,
+        cacheSize: 1000
+      });
+      prover = new FakeHalo2Prover();
+      provider.setOrchardBackend({
+        ...fakePrimitives,
+        createProof: (actions, anchor, flags) => prover.createProof(actions, anchor, flags),
+        verifyProof: async () => true
+      });
+      orchardAddress = (await provider.getAddresses(ACCOUNT_ID, keys)).orchardAddress!;
+      (provider as any).rpcClient = { getBlockCount: async () => HEIGHT };
+    });
+
+    /**
+     * Scan a payment to the account's Orchard address into the provider
+     */
+    async function fund(value: number): Promise<void> {
+      const { bundle } = await new OrchardBundleBuilder(fakePrimitives, new FakeHalo2Prover()).build({
+        spendingKey: account,
+        spends: [createOwnedNote(fvk, value + 10000)],
+        outputs: [{ recipient: decodeUnifiedAddress(orchardAddress).orchard!, value }],
+        anchor: new Uint8Array(32)
+      });
+      const cache: OrchardNoteCache = (provider as any).orchardNoteCache;
+      const ownFvk: OrchardFullViewingKey = (provider as any).orchardViewingKeyCache.get(orchardAddress);
+      const [found] = new OrchardNoteScanner(ownFvk, fakePrimitives, cache, 'testnet', orchardAddress)
+        .scanBundle(bundle, HEIGHT - 10, 0, 0);
+      cache.updateWitness(found.note.cmx, { ...createWitness(), anchor: ANCHOR });
+      cache.updateTipHeight(HEIGHT);
+    }
+
+    /**
+     * Notes of a bundle a full viewing key can decrypt
+     */
+    function received(bundle: OrchardBundle, receiverFvk: OrchardFullViewingKey): OrchardNote[] {
+      return new OrchardNoteScanner(receiverFvk, fakePrimitives, new OrchardNoteCache(), 'testnet')
+        .scanBundle(bundle, HEIGHT + 1, 0)
+        .filter(scanned => !scanned.isOutgoing)
+        .map(scanned => scanned.note);
+    }
+
+    it('should give accounts an Orchard address', () => {
+      const unified = decodeUnifiedAddress(orchardAddress);
+
+      expect(orchardAddress).toMatch(/^utest1/);
+      expect(unified.orchard).toHaveLength(43);
+      expect(unified.sapling).toBeUndefined();
+      expect((provider as any).addressToAccountId.get(orchardAddress)).toBe(ACCOUNT_ID);
+    });
+
+    it('should report the balance of scanned Orchard notes', async () => {
+      await fund(200000);
+
+      expect(await provider.getBalance(orchardAddress, 'orchard')).toMatchObject({
+        confirmed: 200000,
+        total: 200000
+      });
+    });
+
+    it('should pay a transparent address from Orchard notes', async () => {
+      await fund(200000);
+
+      const signed = await provider.buildAndSignTransaction({
+        from: { address: orchardAddress, type: 'orchard' },
+        to: { address: keys.tAddress, type: 'transparent' },
+        amount: 50000
+      }, ACCOUNT_ID, keys);
+
+      const fee = computeConventionalFee({ transparentOutputs: 1, orchardActions: 2 });
+      const bundle = signed.tx.orchardBundle!;
+      expect(signed.tx.version).toBe(5);
+      expect(signed.tx.transparentOutputs).toEqual([
+        expect.objectContaining({ value: 50000, scriptPubKey: expect.stringMatching(/^76a914[0-9a-f]{40}88ac$/) })
+      ]);
+      expect(bundle.valueBalance).toBe(BigInt(50000 + fee));
+      expect(bundle.anchor).toEqual(ANCHOR);
+      expect(prover.calls).toHaveLength(1);
+      expect(signed.txHash).toMatch(/^[0-9a-f]{64}$/);
+
+      const ownFvk = (provider as any).orchardViewingKeyCache.get(orchardAddress);
+      expect(received(bundle, ownFvk).map(note => note.value)).toEqual([200000 - 50000 - fee]);
+    });
+
+    it('should pay the Orchard receiver of a Unified Address', async () => {
+      await fund(200000);
+      const recipient = encodeUnifiedAddress({
+        network: 'testnet',
+        orchard: recipientOf(recipientFvk),
+        p2pkh: new Uint8Array(20).fill(1)
+      });
+
+      const signed = await provider.buildAndSignTransaction({
+        from: { address: orchardAddress, type: 'orchard' },
+        to: { address: recipient, type: 'unified' },
+        amount: 50000,
+        memo: 'hi'
+      }, ACCOUNT_ID, keys);
+
+      const [note] = received(signed.tx.orchardBundle!, recipientFvk);
+      expect(signed.tx.transparentOutputs).toEqual([]);
+      expect(signed.tx.orchardBundle!.valueBalance).toBe(BigInt(computeConventionalFee({ orchardActions: 2 })));
+      expect(note.value).toBe(50000);
+      expect(Buffer.from(note.memo!.slice(0, 2)).toString()).toBe('hi');
+    });
+
+    it('should not pay Sapling receivers from Orchard notes', async () => {
+      await fund(200000);
+
+      await expect(provider.buildAndSignTransaction({
+        from: { address: orchardAddress, type: 'orchard' },
+        to: { address: keys.zAddress, type: 'shielded' },
+        amount: 50000
+      }, ACCOUNT_ID, keys)).rejects.toThrow('Unsupported transaction type: orchard to shielded');
+    });
+
+    it('should report missing Orchard funds', async () => {
+      await fund(20000);
+
+      await expect(provider.buildAndSignTransaction({
+        from: { address: orchardAddress, type: 'orchard' },
+        to: { address: keys.tAddress, type: 'transparent' },
+        amount: 50000
+      }, ACCOUNT_ID, keys)).rejects.toThrow(/Insufficient Orchard funds/);
+    });
+  });
+
+  describe('OrchardWasmBackend', () => {
+    it('should delegate primitives to the WASM module', () => {
+      const backend = new OrchardWasmBackend({
+        orchard_diversify_hash: (d: Uint8Array) => new Uint8Array(32).fill(d[0]),
+        orchard_commit_ivk: () => new Uint8Array(0)
+      });
+
+      expect(backend.diversifyHash(new Uint8Array(11).fill(3))).toEqual(new Uint8Array(32).fill(3));
+      expect(backend.commitIvk(new Uint8Array(32), new Uint8Array(32), new Uint8Array(32))).toBeNull();
+    });
+
+    it('should report missing exports', () => {
+      const backend = new OrchardWasmBackend({});
+
+      expect(() => backend.deriveSpendValidatingKey(new Uint8Array(32))).toThrow(/does not export/);
+    });
+
+    it('should reject Merkle paths of the wrong depth', () => {
+      const note: OrchardNoteParts = {
+        recipient: new Uint8Array(43),
+        value: 0n,
+        rho: new Uint8Array(32),
+        rseed: new Uint8Array(32)
+      };
+
+      expect(() => serializeActionWitnesses([{
+        fvk: fvk.toBytes(),
+        spend: note,
+        witness: { authPath: [new Uint8Array(32)], position: 0n },
+        alpha: new Uint8Array(32),
+        output: note,
+        rcv: new Uint8Array(32)
+      }])).toThrow(/Merkle path/);
+    });
+  });
+});
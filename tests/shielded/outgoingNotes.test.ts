@@ -0,0 +1,165 @@
+/**
+ * Outgoing Note Recovery Tests
+ * Sent notes are recovered from the output ciphertexts with the sender's ovk
+ */
+
+import { ExtendedSpendingKey } from '../../src/shielded/zip32';
+import { derivePkd } from '../../src/shielded/jubjubHelper';
+import { encodeZcashAddress } from '../../src/shielded/bech32';
+import { ShieldedTransactionBuilder } from '../../src/shielded/transactionBuilder';
+import { NoteCache } from '../../src/shielded/noteCache';
+import { NoteScanner } from '../../src/shielded/noteScanner';
+import type { BlockData } from '../../src/shielded/noteScanner';
+import {
+  tryRecoverSaplingOutgoing,
+  SAPLING_ENC_CIPHERTEXT_SIZE,
+  SAPLING_OUT_CIPHERTEXT_SIZE
+} from '../../src/shielded/saplingNoteEncryption';
+import type { ShieldedOutputDescription } from '../../src/shielded/types';
+
+const SEED = new Uint8Array(32).map((_, i) => i);
+
+describe('Outgoing note recovery', () => {
+  const sender = ExtendedSpendingKey.fromSeed(SEED).toExtendedFullViewingKey();
+  const recipient = ExtendedSpendingKey.fromSeed(SEED.map(byte => byte ^ 0xff)).toExtendedFullViewingKey();
+
+  const recipientDiversifier = recipient.defaultAddress().diversifier;
+  const recipientAddress = encodeZcashAddress(
+    'ztestsapling',
+    recipientDiversifier,
+    derivePkd(recipient.incomingViewingKey(), recipientDiversifier)
+  );
+
+  /**
+   * Build an output description with the shielded builder
+   */
+  function buildOutput(ovk: Uint8Array | undefined, memo = 'thanks for lunch'): ShieldedOutputDescription {
+    const builder = new ShieldedTransactionBuilder(new NoteCache(), 'testnet');
+    const { outputDescriptions } = (builder as any).buildOutputDescriptions([
+      { address: recipientAddress, value: 150000, memo, ovk }
+    ]);
+    return outputDescriptions[0];
+  }
+
+  function blockWith(output: ShieldedOutputDescription): BlockData {
+    return {
+      height: 500,
+      hash: '00'.repeat(32),
+      transactions: [{
+        txid: 'ab'.repeat(32),
+        nullifiers: [],
+        outputs: [{
+          cmu: output.cmu,
+          ephemeralKey: output.ephemeralKey,
+          ciphertext: output.encCiphertext.slice(0, 52),
+          encCiphertext: output.encCiphertext,
+          outCiphertext: output.outCiphertext,
+          cv: output.cv
+        }]
+      }]
+    };
+  }
+
+  it('should build ciphertexts of the consensus sizes', () => {
+    const output = buildOutput(sender.ovk);
+
+    expect(output.encCiphertext).toHaveLength(SAPLING_ENC_CIPHERTEXT_SIZE);
+    expect(output.outCiphertext).toHaveLength(SAPLING_OUT_CIPHERTEXT_SIZE);
+  });
+
+  it('should recover the recipient, value and memo with the sender ovk', () => {
+    const note = tryRecoverSaplingOutgoing(buildOutput(sender.ovk), sender.ovk);
+
+    expect(note).not.toBeNull();
+    expect(note!.value).toBe(150000n);
+    expect(encodeZcashAddress('ztestsapling', note!.diversifier, note!.pkD)).toBe(recipientAddress);
+    expect(new TextDecoder().decode(note!.memo.slice(0, 16))).toBe('thanks for lunch');
+    expect(note!.memo.slice(16).every(byte => byte === 0)).toBe(true);
+  });
+
+  it('should not recover with another ovk', () => {
+    expect(tryRecoverSaplingOutgoing(buildOutput(sender.ovk), recipient.ovk)).toBeNull();
+  });
+
+  it('should make notes unrecoverable without an ovk', () => {
+    expect(tryRecoverSaplingOutgoing(buildOutput(undefined), sender.ovk)).toBeNull();
+  });
+
+  it('should reject a tampered commitment', () => {
+    const output = buildOutput(sender.ovk);
+
+    expect(tryRecoverSaplingOutgoing({ ...output, cmu: new Uint8Array(32).fill(1) }, sender.ovk)).toBeNull();
+  });
+
+  it('should store sent notes as outgoing history during scanning', async () => {
+    const cache = new NoteCache();
+    const scanner = new NoteScanner(
+      { ivk: sender.incomingViewingKey() },
+      cache,
+      { scanOutgoing: true, ovk: sender.ovk }
+    );
+
+    const found = await scanner.scanBlocks([blockWith(buildOutput(sender.ovk))], 500, 500);
+
+    expect(found).toHaveLength(1);
+    expect(found[0].isOutgoing).toBe(true);
+    expect(found[0].note.address).toBe(recipientAddress);
+
+    const sent = cache.getSentNotes();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].note.value).toBe(150000);
+    expect(sent[0].blockHeight).toBe(500);
+
+    // Sent notes are not ours to spend
+    expect(cache.getNotesForAddress(recipientAddress)).toEqual([]);
+    expect(cache.getBalance(recipientAddress)).toEqual({ total: 0, spendable: 0 });
+  });
+
+  it('should attribute sent notes to the scanning account', async () => {
+    const cache = new NoteCache();
+    const scanner = new NoteScanner(
+      { ivk: sender.incomingViewingKey() },
+      cache,
+      { scanOutgoing: true, ovk: sender.ovk, accountAddress: 'zs-sender' }
+    );
+    await scanner.scanBlocks([blockWith(buildOutput(sender.ovk))], 500, 500);
+
+    expect(cache.getSentNotes('zs-sender')).toHaveLength(1);
+    expect(cache.getSentNotes('zs-sender')[0].sender).toBe('zs-sender');
+    expect(cache.getSentNotes('zs-watched')).toEqual([]);
+
+    const restored = new NoteCache();
+    restored.import(cache.export());
+    expect(restored.getSentNotes('zs-watched')).toEqual([]);
+  });
+
+  it('should skip outgoing recovery unless enabled', async () => {
+    const cache = new NoteCache();
+    const scanner = new NoteScanner({ ivk: sender.incomingViewingKey() }, cache, { ovk: sender.ovk });
+
+    const found = await scanner.scanBlocks([blockWith(buildOutput(sender.ovk))], 500, 500);
+
+    expect(found).toEqual([]);
+    expect(cache.getSentNotes()).toEqual([]);
+  });
+
+  it('should keep sent notes across export and import', async () => {
+    const cache = new NoteCache();
+    const scanner = new NoteScanner(
+      { ivk: sender.incomingViewingKey() },
+      cache,
+      { scanOutgoing: true },
+      { ak: sender.ak, nk: sender.nk, ovk: sender.ovk }
+    );
+    await scanner.scanBlocks([blockWith(buildOutput(sender.ovk))], 500, 500);
+
+    const restored = new NoteCache();
+    restored.import(cache.export());
+
+    expect(restored.getSentNotes()).toHaveLength(1);
+    expect(restored.getSentNotes()[0].note.memo).toEqual(cache.getSentNotes()[0].note.memo);
+
+    restored.revertToHeight(499);
+    expect(restored.getSentNotes()).toEqual([]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * PCZT Tests
+ * A transaction is created, proven, signed and extracted by separate roles
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import {
+  ExtendedSpendingKey,
+  saplingNullifierKey,
+  saplingProofGenerationKey,
+  saplingSpendValidatingKey
+} from '../../src/shielded/zip32';
+import { derivePkd } from '../../src/shielded/jubjubHelper';
+import { encodeZcashAddress } from '../../src/shielded/bech32';
+import { ShieldedTransactionBuilder } from '../../src/shielded/transactionBuilder';
+import { NoteCache } from '../../src/shielded/noteCache';
+import {
+  createPczt,
+  provePczt,
+  signPczt,
+  combinePczts,
+  extractPczt,
+  serializePczt,
+  parsePczt,
+  isProven
+} from '../../src/shielded/pczt';
+import type { Pczt, PcztProofGenerator } from '../../src/shielded/pczt';
+import type { SaplingFullViewingKey, SaplingNote, SaplingSpendingKey, SpendProofInputs } from '../../src/shielded/types';
+import type { TransparentInput } from '../../src/types';
+import {
+  createP2PKHScriptFromPubKey,
+  createMultisigRedeemScript,
+  createP2SHScriptFromRedeemScript
+} from '../../src/address/script';
+import { getTransactionVersion } from '../../src/transactions/consensus';
+import { bytesToHex } from '../../src/utils/bytes';
+
+const SEED = new Uint8Array(32).map((_, i) => i);
+const TARGET_HEIGHT = 2000000;
+
+describe('PCZT', () => {
+  const recipient = ExtendedSpendingKey.fromSeed(SEED).toExtendedFullViewingKey();
+  const diversifier = recipient.defaultAddress().diversifier;
+  const pkD = derivePkd(recipient.incomingViewingKey(), diversifier);
+  const recipientAddress = encodeZcashAddress('ztestsapling', diversifier, pkD);
+
+  const aliceKey = new Uint8Array(32).fill(0x11);
+  const bobKey = new Uint8Array(32).fill(0x22);
+
+  // Deterministic stand-in for a proving backend
+  const prover: PcztProofGenerator = {
+    generateSpendProof: async () => ({ proof: new Uint8Array(192).fill(1), cv: new Uint8Array(32) }),
+    generateOutputProof: async () => ({ proof: new Uint8Array(192).fill(2), cv: new Uint8Array(32) })
+  };
+
+  function inputFor(key: Uint8Array, index: number, value: number): TransparentInput {
+    return {
+      txHash: 'ab'.repeat(32),
+      index,
+      scriptPubKey: bytesToHex(createP2PKHScriptFromPubKey(secp256k1.getPublicKey(key, true))),
+      value,
+      sequence: 0xffffffff
+    };
+  }
+
+  /**
+   * Shielding transaction spending one input of each key
+   */
+  function createShielding(keys: Uint8Array[]): Pczt {
+    const builder = new ShieldedTransactionBuilder(new NoteCache(), 'testnet');
+    const tx = builder.buildShieldingTransaction({
+      transparentInputs: keys.map((key, i) => inputFor(key, i, 100000)),
+      shieldedOutput: { address: recipientAddress, value: keys.length * 100000 - 20000 },
+      fee: 20000,
+      targetHeight: TARGET_HEIGHT
+    });
+    return createPczt(tx, 'testnet');
+  }
+
+  const roundTrip = (pczt: Pczt): Pczt => parsePczt(serializePczt(pczt));
+
+  it('should carry a shielding transaction from creator to extractor as JSON', async () => {
+    const created = roundTrip(createShielding([aliceKey]));
+    expect(isProven(created)).toBe(false);
+
+    const proven = roundTrip(await provePczt(created, prover));
+    expect(isProven(proven)).toBe(true);
+    expect(proven.tx.shieldedBundle.valueBalance).toBe(-80000n);
+
+    const signed = roundTrip(signPczt(proven, { transparentKeys: [aliceKey] }));
+    expect(parsePczt(serializePczt(signed))).toEqual(signed);
+
+    const tx = await extractPczt(signed);
+    expect(tx.txHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(tx.rawTx).toMatch(/^[0-9a-f]+$/);
+    expect(tx.tx.transparentInputs[0].scriptSig).toBeTruthy();
+    expect(tx.shieldedBundle.bindingSig.some(byte => byte !== 0)).toBe(true);
+  });
+
+  it('should require proofs before signing and every signature before extraction', async () => {
+    const created = createShielding([aliceKey]);
+
+    expect(() => signPczt(created, { transparentKeys: [aliceKey] })).toThrow('must be proven before signing');
+    await expect(extractPczt(created)).rejects.toThrow('missing Sapling proofs');
+
+    const proven = await provePczt(created, prover);
+    await expect(extractPczt(proven)).rejects.toThrow('missing signatures for transparent inputs: 0');
+
+    const signed = signPczt(proven, { transparentKeys: [aliceKey] });
+    await expect(provePczt(signed, prover)).rejects.toThrow('already signed');
+  });
+
+  it('should combine the signatures of several key holders', async () => {
+    const proven = await provePczt(createShielding([aliceKey, bobKey]), prover);
+
+    const byAlice = signPczt(proven, { transparentKeys: [aliceKey] });
+    const byBob = signPczt(proven, { transparentKeys: [bobKey] });
+    expect(() => signPczt(proven, { transparentKeys: [new Uint8Array(32).fill(0x33)] })).toThrow('None of the keys');
+    await expect(extractPczt(byAlice)).rejects.toThrow('transparent inputs: 1');
+
+    const combined = combinePczts([byAlice, byBob]);
+    expect(combined.tx.transparentInputs.map(input => input.scriptSig)).toEqual([
+      byAlice.tx.transparentInputs[0].scriptSig,
+      byBob.tx.transparentInputs[1].scriptSig
+    ]);
+    await expect(extractPczt(combined)).resolves.toBeDefined();
+
+    const other = await provePczt(createShielding([aliceKey, bobKey]), prover);
+    expect(() => combinePczts([byAlice, other])).toThrow('different transactions');
+  });
+
+  it('should sign a transparent transaction without proving', async () => {
+    const created = createPczt({
+      ...getTransactionVersion('testnet', TARGET_HEIGHT),
+      lockTime: 0,
+      expiryHeight: TARGET_HEIGHT + 20,
+      transparentInputs: [inputFor(aliceKey, 0, 100000)],
+      transparentOutputs: [{ address: 'tmNXuJroqcyb1sxrDErbtoGSV7taBFqhBfA', value: 90000, scriptPubKey: '' }]
+    }, 'testnet');
+    expect(isProven(created)).toBe(true);
+
+    const tx = await extractPczt(signPczt(created, { transparentKeys: [aliceKey] }));
+    expect(tx.txHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(tx.nullifiers).toEqual([]);
+  });
+
+  it('should collect partial signatures of a 2-of-3 multisig input', async () => {
+    const carolKey = new Uint8Array(32).fill(0x33);
+    const redeemScript = createMultisigRedeemScript(
+      2,
+      [aliceKey, bobKey, carolKey].map(key => secp256k1.getPublicKey(key, true))
+    );
+    const created = roundTrip(createPczt({
+      ...getTransactionVersion('testnet', TARGET_HEIGHT),
+      lockTime: 0,
+      expiryHeight: TARGET_HEIGHT + 20,
+      transparentInputs: [{
+        ...inputFor(aliceKey, 0, 100000),
+        scriptPubKey: bytesToHex(createP2SHScriptFromRedeemScript(redeemScript)),
+        redeemScript: bytesToHex(redeemScript)
+      }],
+      transparentOutputs: [{ address: 'tmNXuJroqcyb1sxrDErbtoGSV7taBFqhBfA', value: 90000, scriptPubKey: '' }]
+    }, 'testnet'));
+
+    const byCarol = roundTrip(signPczt(created, { transparentKeys: [carolKey] }));
+    expect(byCarol.tx.transparentInputs[0].partialSignatures).toHaveLength(1);
+    expect(byCarol.tx.transparentInputs[0].scriptSig).toBeUndefined();
+    expect(() => signPczt(byCarol, { transparentKeys: [carolKey] })).toThrow('None of the keys');
+    await expect(extractPczt(byCarol)).rejects.toThrow('transparent inputs: 0');
+
+    const byAlice = signPczt(created, { transparentKeys: [aliceKey] });
+    const combined = combinePczts([byCarol, byAlice]);
+    const input = combined.tx.transparentInputs[0];
+    expect(input.partialSignatures).toBeUndefined();
+
+    // OP_0 <sig> <sig> <redeemScript>
+    expect(input.scriptSig!.startsWith('00')).toBe(true);
+    expect(input.scriptSig!.endsWith(bytesToHex(redeemScript))).toBe(true);
+
+    const tx = await extractPczt(combined);
+    expect(tx.rawTx).toContain(input.scriptSig);
+  });
+
+  describe('Sapling spends', () => {
+    const spendingKey: SaplingSpendingKey = {
+      ask: new Uint8Array(32).fill(7),
+      nsk: new Uint8Array(32).fill(8),
+      ovk: new Uint8Array(32).fill(9)
+    };
+    const note = {
+      value: 300000,
+      diversifier,
+      pkD,
+      rcm: new Uint8Array(32).fill(3),
+      cmu: new Uint8Array(32).fill(4),
+      address: recipientAddress
+    } as SaplingNote;
+
+    function buildSpend(key: SaplingSpendingKey | SaplingFullViewingKey) {
+      const builder = new ShieldedTransactionBuilder(new NoteCache(), 'testnet');
+      return builder.buildShieldedTransaction({
+        spendingKey: key,
+        spends: [{ note, spendingKey: key, witness: { authPath: [], position: 0n }, anchor: new Uint8Array(32).fill(5) }],
+        outputs: [{ address: recipientAddress, value: 150000 }],
+        anchor: new Uint8Array(32).fill(5),
+        fee: 10000,
+        targetHeight: TARGET_HEIGHT
+      });
+    }
+
+    it('should prove and sign Sapling spends without the key in the PCZT', async () => {
+      const tx = buildSpend(spendingKey);
+      const created = roundTrip(createPczt(tx, 'testnet'));
+
+      expect(created.spends[0]).not.toHaveProperty('spendingKey');
+      expect(serializePczt(created)).not.toContain(bytesToHex(spendingKey.ask));
+
+      const otherKey = { ...spendingKey, ask: new Uint8Array(32).fill(6) };
+      await expect(provePczt(created, prover)).rejects.toThrow('needs the proof generation key');
+      await expect(provePczt(created, prover, saplingProofGenerationKey(otherKey))).rejects.toThrow('does not match spend 0');
+
+      const proven = await provePczt(created, prover, saplingProofGenerationKey(spendingKey));
+      expect(() => signPczt(proven, { spendingKey: otherKey })).toThrow('None of the keys');
+
+      const signed = roundTrip(signPczt(proven, { spendingKey }));
+      const extracted = await extractPczt(signed);
+
+      expect(extracted.shieldedBundle.spends[0].spendAuthSig.some(byte => byte !== 0)).toBe(true);
+      expect(extracted.nullifiers).toEqual([tx.shieldedBundle.spends[0].nullifier]);
+    });
+
+    it('should create from the full viewing key and prove without ask', async () => {
+      const fvk: SaplingFullViewingKey = {
+        ak: saplingSpendValidatingKey(spendingKey.ask),
+        nk: saplingNullifierKey(spendingKey.nsk),
+        ovk: spendingKey.ovk!
+      };
+      const tx = buildSpend(fvk);
+      // The same notes spent by the key holder reveal the same nullifiers and rk
+      expect(tx.shieldedBundle.spends[0].nullifier).toEqual(buildSpend(spendingKey).shieldedBundle.spends[0].nullifier);
+      expect(tx.signingData.spends[0].spendingKey).toBeUndefined();
+
+      const created = roundTrip(createPczt(tx, 'testnet'));
+      const seen: SpendProofInputs[] = [];
+      const recording: PcztProofGenerator = {
+        ...prover,
+        generateSpendProof: async inputs => {
+          seen.push(inputs);
+          return prover.generateSpendProof(inputs);
+        }
+      };
+      const proven = await provePczt(created, recording, saplingProofGenerationKey(spendingKey));
+
+      expect(seen).toHaveLength(1);
+      expect(seen[0]).not.toHaveProperty('ask');
+      expect(seen[0].ak).toEqual(fvk.ak);
+      expect(seen[0].nsk).toEqual(spendingKey.nsk);
+
+      const extracted = await extractPczt(roundTrip(signPczt(proven, { spendingKey })));
+      expect(extracted.shieldedBundle.spends[0].spendAuthSig.some(byte => byte !== 0)).toBe(true);
+    });
+  });
+});
@@ -71,7 +71,7 @@ describe('Prize-WASM Prover', () => {
           alpha: new Uint8Array(32).fill(2),
           value: 1000000n, // 0.01 ZEC in zatoshi
           rcm: new Uint8Array(32).fill(3),
-          ask: new Uint8Array(32).fill(4),
+          ak: new Uint8Array(32).fill(4),
           nsk: new Uint8Array(32).fill(5),
           anchor: new Uint8Array(32).fill(6),
           merklePath: [],
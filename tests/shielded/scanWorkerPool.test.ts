@@ -0,0 +1,267 @@
+/**
+ * Scan Worker Pool Tests
+ * Trial decryption spread across workers, run here as in-process workers
+ * around the real worker handler and as worker_threads running the worker
+ * entry point
+ */
+
+import { Worker as NodeWorker } from 'worker_threads';
+import { availableParallelism } from 'os';
+import { ExtendedSpendingKey } from '../../src/shielded/zip32';
+import { derivePkd } from '../../src/shielded/jubjubHelper';
+import { encodeZcashAddress } from '../../src/shielded/bech32';
+import { ShieldedTransactionBuilder } from '../../src/shielded/transactionBuilder';
+import { NoteCache } from '../../src/shielded/noteCache';
+import { NoteScanner, IncrementalMerkleTree } from '../../src/shielded/noteScanner';
+import type { BlockData } from '../../src/shielded/noteScanner';
+import { ScanWorkerPool, createScanWorkerHandler } from '../../src/shielded/scanWorkerPool';
+import type { ScanWorkerLike, ScanWorkerResponse } from '../../src/shielded/scanWorkerPool';
+import { memoToText } from '../../src/shielded/memo';
+import type { ShieldedOutputDescription } from '../../src/shielded/types';
+
+const SEED = new Uint8Array(32).map((_, i) => i);
+
+/**
+ * Worker running the scan handler in this thread; messages are cloned as
+ * they would be between threads
+ */
+function inProcessWorker(delayMs = 0, log: string[] = []): ScanWorkerLike {
+  const handle = createScanWorkerHandler();
+  let listener: ((response: ScanWorkerResponse) => void) | null = null;
+  return {
+    postMessage: (request) => {
+      log.push(request.type);
+      const copy = structuredClone(request);
+      setTimeout(async () => {
+        const response = await handle(copy);
+        listener?.(structuredClone(response));
+      }, delayMs);
+    },
+    onResponse: (l) => {
+      listener = l;
+    },
+    onError: () => {},
+    terminate: () => {
+      listener = null;
+    }
+  };
+}
+
+/**
+ * worker_threads worker running scanWorker.ts, compiled on load by ts-node
+ */
+function threadWorker(): ScanWorkerLike {
+  const worker = new NodeWorker(new URL('../../src/shielded/scanWorker.ts', import.meta.url), {
+    // jest.config.cjs points ts-node at tests/tsconfig.worker.json
+    execArgv: ['--loader', 'ts-node/esm', '--no-warnings']
+  });
+  return {
+    postMessage: (request) => worker.postMessage(request),
+    onResponse: (listener) => {
+      worker.on('message', listener);
+    },
+    onError: (listener) => {
+      worker.on('error', listener);
+    },
+    terminate: () => {
+      void worker.terminate();
+    }
+  };
+}
+
+describe('ScanWorkerPool', () => {
+  const wallet = ExtendedSpendingKey.fromSeed(SEED).toExtendedFullViewingKey();
+  const other = ExtendedSpendingKey.fromSeed(SEED.map(byte => byte ^ 0xff)).toExtendedFullViewingKey();
+  const ivk = wallet.incomingViewingKey();
+
+  const diversifier = wallet.defaultAddress().diversifier;
+  const walletAddress = encodeZcashAddress('ztestsapling', diversifier, derivePkd(ivk, diversifier));
+  const otherDiversifier = other.defaultAddress().diversifier;
+  const otherAddress = encodeZcashAddress(
+    'ztestsapling',
+    otherDiversifier,
+    derivePkd(other.incomingViewingKey(), otherDiversifier)
+  );
+
+  let ours: ShieldedOutputDescription[];
+  let theirs: ShieldedOutputDescription;
+
+  beforeAll(() => {
+    const builder = new ShieldedTransactionBuilder(new NoteCache(), 'testnet');
+    ours = (builder as any).buildOutputDescriptions([
+      { address: walletAddress, value: 1000, memo: 'first' },
+      { address: walletAddress, value: 2000, memo: 'second' },
+      { address: walletAddress, value: 3000, memo: 'third' }
+    ]).outputDescriptions;
+    theirs = (builder as any).buildOutputDescriptions([
+      { address: otherAddress, value: 4000, ovk: wallet.ovk }
+    ]).outputDescriptions[0];
+  });
+
+  /**
+   * Blocks 100-105 with our notes at 101, 103 and 105 and a sent note at 102
+   */
+  function chain(): BlockData[] {
+    const outputsAt: Record<number, ShieldedOutputDescription[]> = {
+      101: [ours[0]],
+      102: [theirs],
+      103: [ours[1]],
+      105: [ours[2]]
+    };
+    return [100, 101, 102, 103, 104, 105].map(height => ({
+      height,
+      hash: height.toString(16).padStart(64, '0'),
+      transactions: [{
+        txid: height.toString(16).padStart(64, 'f'),
+        nullifiers: height === 104 ? [new Uint8Array(32).fill(7)] : [],
+        outputs: (outputsAt[height] || []).map(output => ({
+          cmu: output.cmu,
+          ephemeralKey: output.ephemeralKey,
+          ciphertext: output.encCiphertext.slice(0, 52),
+          encCiphertext: output.encCiphertext,
+          outCiphertext: output.outCiphertext,
+          cv: output.cv
+        }))
+      }]
+    }));
+  }
+
+  it('should yield batches in block order when workers finish out of order', async () => {
+    const delays = [40, 0];
+    const pool = new ScanWorkerPool({
+      size: 2,
+      blocksPerTask: 2,
+      createWorker: () => inProcessWorker(delays.shift())
+    });
+    await pool.initialize({ ivk, ovk: null });
+
+    const heights: number[][] = [];
+    const values: number[] = [];
+    for await (const batch of pool.scan(chain())) {
+      heights.push(batch.blocks.map(block => block.height));
+      values.push(...batch.notes.map(note => note.note.value));
+    }
+    await pool.terminate();
+
+    expect(heights).toEqual([[100, 101], [102, 103], [104, 105]]);
+    expect(values).toEqual([1000, 2000, 3000]);
+  });
+
+  it('should find the same notes as a sequential scan', async () => {
+    const sequentialCache = new NoteCache();
+    const sequentialTree = new IncrementalMerkleTree(32);
+    const sequential = await new NoteScanner({ ivk }, sequentialCache, { scanOutgoing: true, ovk: wallet.ovk })
+      .scanBlocks(chain(), 100, 105, sequentialTree);
+
+    const pool = new ScanWorkerPool({ size: 3, blocksPerTask: 1, createWorker: () => inProcessWorker() });
+    const pooledCache = new NoteCache();
+    const pooledTree = new IncrementalMerkleTree(32);
+    const progress: number[] = [];
+    const pooled = await new NoteScanner({ ivk }, pooledCache, {
+      scanOutgoing: true,
+      ovk: wallet.ovk,
+      workerPool: pool,
+      onProgress: (p) => progress.push(p.currentHeight)
+    }).scanBlocks(chain(), 100, 105, pooledTree);
+    await pool.terminate();
+
+    expect(pooled.map(n => [n.blockHeight, n.isOutgoing, n.note.position]))
+      .toEqual(sequential.map(n => [n.blockHeight, n.isOutgoing, n.note.position]));
+    expect(pooled.map(n => memoToText(n.note.memo))).toEqual(['first', undefined, 'second', 'third']);
+    expect(pooledTree.root()).toEqual(sequentialTree.root());
+    expect(pooledCache.getBalance(walletAddress)).toEqual(sequentialCache.getBalance(walletAddress));
+    expect(pooledCache.getSentNotes()).toHaveLength(1);
+    expect(pooledCache.isSpent(new Uint8Array(32).fill(7))).toBe(true);
+    expect(pooledCache.getNotesForAddress(walletAddress)[0].witness).toBeDefined();
+    expect(progress).toEqual([100, 101, 102, 103, 104, 105]);
+  });
+
+  it('should stop handing out batches once the scan is aborted', async () => {
+    const log: string[] = [];
+    const pool = new ScanWorkerPool({ size: 1, blocksPerTask: 2, createWorker: () => inProcessWorker(0, log) });
+    const scanner = new NoteScanner({ ivk }, new NoteCache(), {
+      workerPool: pool,
+      onProgress: () => scanner.abort()
+    });
+
+    const found = await scanner.scanBlocks(chain(), 100, 105);
+    await pool.terminate();
+
+    expect(found.map(n => n.blockHeight)).toEqual([101]);
+    expect(log.filter(type => type === 'scan').length).toBeLessThan(3);
+  });
+
+  it('should wipe the keys from the workers when terminated', async () => {
+    const handle = createScanWorkerHandler();
+    const key = ivk.slice();
+    await handle({ type: 'init', id: 1, ivk: key, ovk: null });
+
+    await handle({ type: 'dispose', id: 2 });
+
+    expect(key.every(byte => byte === 0)).toBe(true);
+    expect(await handle({ type: 'scan', id: 3, blocks: chain() }))
+      .toEqual({ id: 3, error: 'Scan worker not initialized' });
+  });
+
+  it('should scan in worker threads running the worker entry point', async () => {
+    const pool = new ScanWorkerPool({ size: 1, blocksPerTask: 2, createWorker: threadWorker });
+    await pool.initialize({ ivk, ovk: wallet.ovk });
+
+    const values: number[] = [];
+    const outgoing: boolean[] = [];
+    try {
+      for await (const batch of pool.scan(chain())) {
+        values.push(...batch.notes.map(note => note.note.value));
+        outgoing.push(...batch.notes.map(note => note.isOutgoing));
+      }
+    } finally {
+      await pool.terminate();
+    }
+
+    expect(values).toEqual([1000, 4000, 2000, 3000]);
+    expect(outgoing).toEqual([false, true, false, false]);
+  });
+
+  it('should size the pool from the number of cores', async () => {
+    const pool = new ScanWorkerPool({ createWorker: () => inProcessWorker() });
+    expect(pool.getSize()).toBeUndefined();
+
+    await pool.initialize({ ivk, ovk: null });
+    expect(pool.getSize()).toBe(Math.max(1, availableParallelism() - 1));
+    await pool.terminate();
+  });
+
+  it('should require initialization before scanning', async () => {
+    const pool = new ScanWorkerPool({ size: 1, createWorker: () => inProcessWorker() });
+
+    await expect(pool.scan(chain()).next()).rejects.toThrow('Worker pool not initialized');
+    expect(() => new ScanWorkerPool({ size: 0 })).toThrow('Invalid worker pool size');
+  });
+
+  it('should surface worker failures', async () => {
+    const pool = new ScanWorkerPool({
+      size: 1,
+      createWorker: () => {
+        const worker = inProcessWorker();
+        let fail: ((error: Error) => void) | null = null;
+        return {
+          ...worker,
+          postMessage: (request) => {
+            if (request.type === 'scan') {
+              setTimeout(() => fail?.(new Error('worker crashed')), 0);
+            } else {
+              worker.postMessage(request);
+            }
+          },
+          onError: (listener) => {
+            fail = listener;
+          }
+        };
+      }
+    });
+    await pool.initialize({ ivk, ovk: null });
+
+    await expect(pool.scan(chain()).next()).rejects.toThrow('worker crashed');
+    await pool.terminate();
+  });
+});
@@ -66,7 +66,7 @@ describe('Shielded Transaction Flow', () => {
       expect(tx).toBeDefined();
       expect(tx.shieldedBundle).toBeDefined();
       expect(tx.shieldedBundle.spends.length).toBe(1);
-      expect(tx.shieldedBundle.outputs.length).toBe(1);
+      expect(tx.shieldedBundle.outputs.length).toBe(2);
       expect(tx.shieldedBundle.valueBalance).toBeDefined();
       expect(tx.signingData).toBeDefined();
     });
@@ -168,7 +168,7 @@ describe('Shielded Transaction Flow', () => {
       expect(signedTx.rawTx).toBeDefined();
       expect(signedTx.shieldedBundle).toBeDefined();
       expect(signedTx.shieldedBundle.spends.length).toBe(1);
-      expect(signedTx.shieldedBundle.outputs.length).toBe(1);
+      expect(signedTx.shieldedBundle.outputs.length).toBe(2);
       expect(signedTx.shieldedBundle.bindingSig).toBeDefined();
       expect(signedTx.nullifiers).toBeDefined();
       expect(signedTx.nullifiers.length).toBe(1);
@@ -232,7 +232,7 @@ describe('Shielded Transaction Flow', () => {
 
       // Should have proofs for all spends and outputs
       expect(signedTx.shieldedBundle.spends.length).toBe(2);
-      expect(signedTx.shieldedBundle.outputs.length).toBe(1);
+      expect(signedTx.shieldedBundle.outputs.length).toBe(2);
       
       // Each spend should have a proof
       for (const spend of signedTx.shieldedBundle.spends) {
@@ -281,7 +281,7 @@ describe('Shielded Transaction Flow', () => {
       expect(tx).toBeDefined();
       expect(tx.transparentInputs.length).toBe(1);
       expect(tx.shieldedBundle).toBeDefined();
-      expect(tx.shieldedBundle.outputs.length).toBe(1);
+      expect(tx.shieldedBundle.outputs.length).toBe(2);
       expect(tx.shieldedBundle.spends.length).toBe(0); // No spends in shielding
     });
   });
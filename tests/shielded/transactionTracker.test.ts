@@ -0,0 +1,196 @@
+/**
+ * Tests for durable transaction tracking, rebroadcast and expiry
+ */
+
+import {
+  TransactionTracker,
+  BroadcastTransactionStatus
+} from '../../src/shielded/transactionTracker';
+import type { TrackerEvent, TrackerRpcClient, TransactionReservations } from '../../src/shielded/transactionTracker';
+import type { TransactionInfo } from '../../src/shielded/rpcClient';
+import { MemoryHistoryStorage } from '../../src/state/history';
+
+describe('TransactionTracker', () => {
+  let height: number;
+  let mined: Map<string, number>;
+  let mempool: Set<string>;
+  let broadcasts: string[];
+  let rejectBroadcasts: boolean;
+  let offline: boolean;
+  let events: TrackerEvent[];
+
+  const info = (txid: string, confirmations?: number): TransactionInfo => ({
+    txid,
+    version: 4,
+    size: 100,
+    locktime: 0,
+    confirmations,
+    blockhash: confirmations ? `block-${txid}` : undefined
+  });
+
+  // A node without a wallet: gettransaction fails, getrawtransaction finds everything
+  const rpcClient: TrackerRpcClient = {
+    getTransaction: async () => {
+      throw new Error('Invalid or non-wallet transaction id');
+    },
+    getMempoolTransaction: async (txid) => {
+      if (offline) {
+        throw new Error('connect ECONNREFUSED');
+      }
+      if (mined.has(txid)) {
+        return info(txid, height - mined.get(txid)! + 1);
+      }
+      return mempool.has(txid) ? info(txid) : null;
+    },
+    getBlock: async (hash) => ({ height: mined.get(hash.replace('block-', '')) }),
+    getBlockchainInfo: async () => ({ blocks: height }),
+    sendRawTransaction: async (hexTx) => {
+      if (rejectBroadcasts) {
+        throw new Error('bad-txns-inputs-spent');
+      }
+      broadcasts.push(hexTx);
+      mempool.add(`tx-${hexTx}`);
+      return `tx-${hexTx}`;
+    },
+    verifyTransactionInBlock: async (txid, blockHash) => blockHash === `block-${txid}`
+  };
+
+  const reservations: TransactionReservations = {
+    utxos: [{ address: 't1address', txid: 'funding', vout: 1 }],
+    nullifiers: ['ab'.repeat(32)]
+  };
+
+  const createTracker = (options = {}) => {
+    const tracker = new TransactionTracker(rpcClient, options);
+    tracker.subscribe(event => events.push(event));
+    return tracker;
+  };
+
+  beforeEach(() => {
+    height = 1000;
+    mined = new Map();
+    mempool = new Set();
+    broadcasts = [];
+    rejectBroadcasts = false;
+    offline = false;
+    events = [];
+  });
+
+  test('confirms transactions found through getrawtransaction', async () => {
+    const tracker = createTracker();
+    tracker.trackTransaction('tx-a', { rawTx: 'a', expiryHeight: 1010, reservations });
+    mined.set('tx-a', 999);
+
+    height = 1020;
+    const result = await tracker.checkConfirmation('tx-a');
+
+    expect(result).toMatchObject({ confirmed: true, confirmations: 22, blockHeight: 999 });
+    expect(result.finalStatus).toBe(BroadcastTransactionStatus.CONFIRMED);
+    expect(events.map(event => event.type)).toEqual(['confirmed']);
+    expect(tracker.getActiveReservations()).toEqual([]);
+  });
+
+  test('rebroadcasts transactions that dropped out of the mempool', async () => {
+    const tracker = createTracker();
+    tracker.trackTransaction('tx-a', { rawTx: 'a', expiryHeight: 1010 });
+    mempool.add('tx-a');
+
+    await tracker.pollAllTransactions();
+    expect(broadcasts).toEqual([]);
+
+    mempool.delete('tx-a');
+    await tracker.pollAllTransactions();
+
+    expect(broadcasts).toEqual(['a']);
+    expect(tracker.getTransactionStatus('tx-a')).toMatchObject({
+      status: BroadcastTransactionStatus.MEMPOOL,
+      rebroadcasts: 1
+    });
+    expect(events.map(event => event.type)).toEqual(['rebroadcast']);
+  });
+
+  test('gives up rebroadcasting after the limit', async () => {
+    rejectBroadcasts = true;
+    const tracker = createTracker({ maxRebroadcasts: 2 });
+    tracker.trackTransaction('tx-a', { rawTx: 'a' });
+
+    for (let i = 0; i < 4; i++) {
+      await tracker.checkConfirmation('tx-a');
+    }
+
+    expect(tracker.getTransactionStatus('tx-a')).toMatchObject({
+      status: BroadcastTransactionStatus.NOT_FOUND,
+      rebroadcasts: 2,
+      error: 'bad-txns-inputs-spent'
+    });
+  });
+
+  test('expires once the chain passes the expiry height and releases the reservations once', async () => {
+    rejectBroadcasts = true;
+    const tracker = createTracker();
+    tracker.trackTransaction('tx-a', { rawTx: 'a', expiryHeight: 1010, reservations });
+
+    height = 1010;
+    await tracker.checkConfirmation('tx-a');
+    expect(tracker.getActiveReservations()).toEqual([{ txid: 'tx-a', reservations }]);
+
+    height = 1011;
+    await tracker.pollAllTransactions();
+    await tracker.pollAllTransactions();
+
+    expect(events).toEqual([{ type: 'expired', tracked: expect.objectContaining({ txid: 'tx-a' }), released: reservations }]);
+    expect(tracker.getTransactionStatus('tx-a')!.status).toBe(BroadcastTransactionStatus.EXPIRED);
+    expect(tracker.getActiveReservations()).toEqual([]);
+    expect(tracker.getStatistics().expired).toBe(1);
+  });
+
+  test('keeps the status when the lookup itself fails', async () => {
+    const tracker = createTracker();
+    tracker.trackTransaction('tx-a', { rawTx: 'a', expiryHeight: 1010, reservations });
+    mempool.add('tx-a');
+    await tracker.checkConfirmation('tx-a');
+
+    offline = true;
+    height = 1011;
+    await tracker.pollAllTransactions();
+
+    expect(tracker.getTransactionStatus('tx-a')).toMatchObject({
+      status: BroadcastTransactionStatus.MEMPOOL,
+      error: 'connect ECONNREFUSED'
+    });
+    expect(broadcasts).toEqual([]);
+    expect(events).toEqual([]);
+    expect(tracker.getActiveReservations()).toEqual([{ txid: 'tx-a', reservations }]);
+
+    offline = false;
+    mined.set('tx-a', 1005);
+    const result = await tracker.checkConfirmation('tx-a');
+
+    expect(result.finalStatus).toBe(BroadcastTransactionStatus.CONFIRMED);
+    expect(tracker.getTransactionStatus('tx-a')!.error).toBeUndefined();
+  });
+
+  test('reloads tracked transactions from storage', async () => {
+    const storage = new MemoryHistoryStorage();
+    const first = createTracker({ storage });
+    await first.initialize();
+    first.trackTransaction('tx-a', { rawTx: 'a', expiryHeight: 1010, reservations });
+    await first.flush();
+
+    const second = createTracker({ storage });
+    await second.initialize();
+
+    expect(second.getTransactionStatus('tx-a')).toEqual(first.getTransactionStatus('tx-a'));
+    expect(second.getActiveReservations()).toEqual([{ txid: 'tx-a', reservations }]);
+
+    await second.checkConfirmation('tx-a');
+    expect(broadcasts).toEqual(['a']);
+  });
+
+  test('rejects a corrupt store', async () => {
+    const storage = new MemoryHistoryStorage();
+    await storage.save('{not json');
+
+    await expect(createTracker({ storage }).initialize()).rejects.toThrow('Tracker initialization failed');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * ZIP-32 Sapling Key Hierarchy Tests
+ * Tests extended key derivation, encoding and diversified addresses
+ */
+
+import {
+  ExtendedSpendingKey,
+  ExtendedFullViewingKey,
+  saplingDiversifiedBase,
+  ZIP32_HARDENED_OFFSET
+} from '../../src/shielded/zip32';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+// Seed used by the ZIP-32 test vectors: 0x00, 0x01, ..., 0x1f
+const SEED = new Uint8Array(32).map((_, i) => i);
+
+describe('ZIP-32 Sapling', () => {
+  const master = ExtendedSpendingKey.fromSeed(SEED);
+
+  describe('master key', () => {
+    it('should match the ZIP-32 test vectors', () => {
+      expect(hex(master.chainCode)).toBe('d0947c4b03bf72a37ab44f72276d1cf3fdcd7ebf3e73348b7e550d752018668e');
+      expect(hex(master.ovk)).toBe('395884890323b9d4933c021db89bcf767df21977b2ff0683848321a4df4afb21');
+      expect(hex(master.dk)).toBe('77c17cb75b7796afb39f0f3e91c924607da56fa9a20e283509bc8a3ef996a172');
+      expect(master.depth).toBe(0);
+      expect(master.parentFvkTag).toEqual(new Uint8Array(4));
+    });
+
+    it('should derive the default diversifier from dk', () => {
+      const address = master.toExtendedFullViewingKey().defaultAddress();
+
+      expect(address.index).toBe(0n);
+      expect(hex(address.diversifier)).toBe('d8621b981cf300e9d4cc89');
+    });
+
+    it('should reject short seeds', () => {
+      expect(() => ExtendedSpendingKey.fromSeed(new Uint8Array(16))).toThrow(/seed length/);
+    });
+  });
+
+  describe('child derivation', () => {
+    it('should record depth, index and the parent tag', () => {
+      const child = master.deriveChild(ZIP32_HARDENED_OFFSET + 1);
+
+      expect(child.depth).toBe(1);
+      expect(child.childIndex).toBe(ZIP32_HARDENED_OFFSET + 1);
+      expect(child.parentFvkTag).toEqual(master.toExtendedFullViewingKey().tag());
+    });
+
+    it('should give hardened and non-hardened children different keys', () => {
+      expect(master.deriveChild(1).ask).not.toEqual(master.deriveChild(ZIP32_HARDENED_OFFSET + 1).ask);
+    });
+
+    it('should derive the same non-hardened child from the viewing key', () => {
+      const fromSpendingKey = master.deriveChild(7).toExtendedFullViewingKey();
+      const fromViewingKey = master.toExtendedFullViewingKey().deriveChild(7);
+
+      expect(fromViewingKey.toBytes()).toEqual(fromSpendingKey.toBytes());
+    });
+
+    it('should not derive hardened children from a viewing key', () => {
+      expect(() => master.toExtendedFullViewingKey().deriveChild(ZIP32_HARDENED_OFFSET))
+        .toThrow(/hardened/);
+    });
+
+    it('should use coin type 133 on mainnet and 1 on testnet', () => {
+      const mainnet = ExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 0);
+      const testnet = ExtendedSpendingKey.deriveAccount(SEED, 'testnet', 0);
+
+      expect(mainnet.depth).toBe(3);
+      expect(mainnet.childIndex).toBe(ZIP32_HARDENED_OFFSET);
+      expect(mainnet.toBytes()).toEqual(master.derivePath([
+        ZIP32_HARDENED_OFFSET + 32, ZIP32_HARDENED_OFFSET + 133, ZIP32_HARDENED_OFFSET
+      ]).toBytes());
+      expect(testnet.toBytes()).toEqual(master.derivePath([
+        ZIP32_HARDENED_OFFSET + 32, ZIP32_HARDENED_OFFSET + 1, ZIP32_HARDENED_OFFSET
+      ]).toBytes());
+    });
+  });
+
+  describe('encoding', () => {
+    const account = ExtendedSpendingKey.deriveAccount(SEED, 'mainnet', 0);
+    const fvk = account.toExtendedFullViewingKey();
+
+    it('should use the standard Bech32 prefixes', () => {
+      expect(account.encode('mainnet').startsWith('secret-extended-key-main1')).toBe(true);
+      expect(account.encode('testnet').startsWith('secret-extended-key-test1')).toBe(true);
+      expect(fvk.encode('mainnet').startsWith('zxviews1')).toBe(true);
+      expect(fvk.encode('testnet').startsWith('zxviewtestsapling1')).toBe(true);
+    });
+
+    it('should round-trip extended spending keys', () => {
+      const { network, key } = ExtendedSpendingKey.decode(account.encode('mainnet'));
+
+      expect(network).toBe('mainnet');
+      expect(key.toBytes()).toEqual(account.toBytes());
+      expect(key.toBytes().length).toBe(169);
+    });
+
+    it('should round-trip extended full viewing keys', () => {
+      const { network, key } = ExtendedFullViewingKey.decode(fvk.encode('testnet'));
+
+      expect(network).toBe('testnet');
+      expect(key.toBytes()).toEqual(fvk.toBytes());
+    });
+
+    it('should reject keys with the wrong prefix', () => {
+      expect(() => ExtendedSpendingKey.decode(fvk.encode('mainnet'))).toThrow(/prefix/);
+    });
+  });
+
+  describe('addresses', () => {
+    const fvk = ExtendedSpendingKey.deriveAccount(SEED, 'testnet', 0).toExtendedFullViewingKey();
+
+    it('should derive a 251-bit incoming viewing key', () => {
+      expect(fvk.incomingViewingKey()[31] & 0xf8).toBe(0);
+    });
+
+    it('should only return valid diversifiers', () => {
+      const first = fvk.defaultAddress();
+      const next = fvk.findAddress(first.index + 1n);
+
+      expect(next.index).toBeGreaterThan(first.index);
+      expect(saplingDiversifiedBase(first.diversifier)).not.toBeNull();
+      expect(saplingDiversifiedBase(next.diversifier)).not.toBeNull();
+      expect(next.pkd).not.toEqual(first.pkd);
+    });
+
+    it('should reject out-of-range diversifier indices', () => {
+      expect(() => fvk.diversifier(1n << 88n)).toThrow(/diversifier index/);
+    });
+
+    it('should recover the diversifier index from a diversifier', () => {
+      const address = fvk.findAddress(1000n);
+
+      expect(fvk.diversifierIndex(address.diversifier)).toBe(address.index);
+      expect(fvk.diversifierIndex(fvk.diversifier(123456789n))).toBe(123456789n);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for the transaction history ledger
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransactionHistory, MemoryHistoryStorage, FileHistoryStorage } from '../../src/state/history';
+
+describe('TransactionHistory', () => {
+  let history: TransactionHistory;
+
+  beforeEach(() => {
+    history = new TransactionHistory();
+  });
+
+  describe('merging', () => {
+    test('sums the outputs an incoming transaction pays the account', () => {
+      history.recordReceived('account', 'tx1', 'sapling', 'sapling:a', 100000, 500, 'thanks');
+      history.recordReceived('account', 'tx1', 'transparent', 'tx1:1', 50000, 500);
+
+      expect(history.get('account', 'tx1')).toMatchObject({
+        direction: 'incoming',
+        pools: ['sapling', 'transparent'],
+        netValue: 150000,
+        memos: ['thanks'],
+        status: 'confirmed',
+        blockHeight: 500
+      });
+    });
+
+    test('counts each output and input once', () => {
+      history.recordReceived('account', 'tx1', 'sapling', 'sapling:a', 100000, 500);
+      history.recordReceived('account', 'tx1', 'sapling', 'sapling:a', 100000, 500);
+      history.recordSpent('account', 'tx2', 'sapling', 'nf:a', 100000, 600);
+      history.recordSpent('account', 'tx2', 'sapling', 'nf:a', 100000, 600);
+
+      expect(history.get('account', 'tx1')!.netValue).toBe(100000);
+      expect(history.get('account', 'tx2')!.netValue).toBe(-100000);
+    });
+
+    test('keeps the fee and recipients of sent transactions when they are scanned', () => {
+      history.recordSent({
+        accountId: 'account',
+        txid: 'tx1',
+        pools: ['sapling'],
+        amount: 70000,
+        fee: 10000,
+        recipients: ['zs1recipient'],
+        memos: ['rent']
+      });
+      expect(history.get('account', 'tx1')!.status).toBe('pending');
+
+      history.recordSpent('account', 'tx1', 'sapling', 'nf:a', 100000, 700);
+      history.recordReceived('account', 'tx1', 'sapling', 'sapling:change', 20000, 700);
+      history.recordSentOutput('account', 'tx1', 'sapling', 'sapling:out', 'zs1recipient', 70000, 700, 'rent');
+
+      expect(history.get('account', 'tx1')).toMatchObject({
+        direction: 'outgoing',
+        netValue: -80000,
+        fee: 10000,
+        recipients: ['zs1recipient'],
+        memos: ['rent'],
+        status: 'confirmed'
+      });
+    });
+
+    test('treats self-transfers as internal', () => {
+      history.recordSent({
+        accountId: 'account',
+        txid: 'shield',
+        pools: ['transparent', 'sapling'],
+        amount: 0,
+        fee: 15000,
+        recipients: []
+      });
+      history.recordSpent('account', 'seen', 'sapling', 'nf:a', 100000, 800);
+      history.recordReceived('account', 'seen', 'sapling', 'sapling:b', 90000, 800);
+
+      expect(history.get('account', 'shield')).toMatchObject({ direction: 'internal', netValue: -15000 });
+      expect(history.get('account', 'seen')).toMatchObject({ direction: 'internal', netValue: -10000 });
+    });
+
+    test('keeps one entry per account for transactions between accounts', () => {
+      history.recordSpent('alice', 'tx1', 'sapling', 'nf:a', 100000, 900);
+      history.recordReceived('bob', 'tx1', 'sapling', 'sapling:b', 90000, 900);
+      history.updateStatus('tx1', 'confirmed', 901);
+
+      expect(history.get('alice', 'tx1')!.direction).toBe('outgoing');
+      expect(history.get('bob', 'tx1')!.direction).toBe('incoming');
+      expect(history.get('bob', 'tx1')!.blockHeight).toBe(901);
+      expect(history.updateStatus('missing', 'failed')).toBe(false);
+    });
+  });
+
+  describe('dating', () => {
+    const blockTime = 1_600_000_000;
+
+    test('dates mined transactions by their block', () => {
+      history.recordReceived('account', 'tx1', 'sapling', 'sapling:a', 100000, 500, undefined, blockTime);
+      history.recordSpent('account', 'tx2', 'sapling', 'nf:a', 100000, 600, blockTime + 75);
+      history.recordSentOutput('account', 'tx2', 'sapling', 'sapling:b', 'zs1recipient', 90000, 600, undefined, blockTime + 75);
+
+      expect(history.get('account', 'tx1')!.timestamp).toBe(blockTime * 1000);
+      expect(history.get('account', 'tx2')!.timestamp).toBe((blockTime + 75) * 1000);
+    });
+
+    test('keeps block times when the chain is scanned again', () => {
+      history.recordReceived('account', 'tx1', 'transparent', 'tx1:0', 50000, 500, undefined, blockTime);
+      history.recordReceived('account', 'tx1', 'transparent', 'tx1:0', 50000, 500, undefined, blockTime);
+
+      expect(history.query({ until: (blockTime + 1) * 1000 }).entries.map(entry => entry.txid)).toEqual(['tx1']);
+    });
+
+    test('redates a pending transaction once it is mined', () => {
+      history.recordSent({
+        accountId: 'account',
+        txid: 'tx1',
+        pools: ['sapling'],
+        amount: 70000,
+        fee: 10000,
+        recipients: ['zs1recipient'],
+        timestamp: 1_700_000_000_000
+      });
+      expect(history.get('account', 'tx1')!.timestamp).toBe(1_700_000_000_000);
+
+      history.recordSpent('account', 'tx1', 'sapling', 'nf:a', 100000, 700, blockTime);
+      expect(history.get('account', 'tx1')!.timestamp).toBe(blockTime * 1000);
+
+      history.updateStatus('tx1', 'confirmed', 701, blockTime + 75);
+      expect(history.get('account', 'tx1')).toMatchObject({ blockHeight: 701, timestamp: (blockTime + 75) * 1000 });
+    });
+
+    test('keeps the block time of a mined transaction recorded as sent later', () => {
+      history.recordSpent('account', 'tx1', 'sapling', 'nf:a', 100000, 700, blockTime);
+      history.recordSent({
+        accountId: 'account',
+        txid: 'tx1',
+        pools: ['sapling'],
+        amount: 70000,
+        fee: 10000,
+        recipients: ['zs1recipient'],
+        timestamp: 1_700_000_000_000
+      });
+
+      expect(history.get('account', 'tx1')!.timestamp).toBe(blockTime * 1000);
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(() => {
+      const day = 24 * 60 * 60 * 1000;
+      for (let i = 0; i < 5; i++) {
+        history.recordSent({
+          accountId: i % 2 === 0 ? 'a' : 'b',
+          txid: `tx${i}`,
+          pools: [i < 3 ? 'transparent' : 'sapling'],
+          amount: 1000,
+          fee: 10000,
+          recipients: ['t1recipient'],
+          timestamp: i * day
+        });
+      }
+    });
+
+    test('returns entries newest first with paging', () => {
+      const first = history.query({ limit: 2 });
+      const second = history.query({ limit: 2, offset: 2 });
+
+      expect(first.total).toBe(5);
+      expect(first.entries.map(entry => entry.txid)).toEqual(['tx4', 'tx3']);
+      expect(second.entries.map(entry => entry.txid)).toEqual(['tx2', 'tx1']);
+    });
+
+    test('filters by account, pool and date range', () => {
+      const day = 24 * 60 * 60 * 1000;
+
+      expect(history.query({ accountId: 'a' }).entries.map(entry => entry.txid)).toEqual(['tx4', 'tx2', 'tx0']);
+      expect(history.query({ pool: 'sapling' }).total).toBe(2);
+      expect(history.query({ since: day, until: 3 * day }).entries.map(entry => entry.txid)).toEqual(['tx2', 'tx1']);
+      expect(history.query({ accountId: 'b', pool: 'transparent' }).entries.map(entry => entry.txid)).toEqual(['tx1']);
+    });
+  });
+
+  describe('persistence', () => {
+    test('reloads the ledger from storage', async () => {
+      const storage = new MemoryHistoryStorage();
+      const first = new TransactionHistory(storage);
+      await first.initialize();
+      first.recordReceived('account', 'tx1', 'transparent', 'tx1:0', 50000, 100);
+      await first.flush();
+
+      const second = new TransactionHistory(storage);
+      await second.initialize();
+
+      expect(second.get('account', 'tx1')).toEqual(first.get('account', 'tx1'));
+    });
+
+    test('writes the ledger to a file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'zcash-history-'));
+      try {
+        const path = join(dir, 'history.json');
+        const first = new TransactionHistory(new FileHistoryStorage(path));
+        await first.initialize();
+        first.recordSpent('account', 'tx1', 'sapling', 'nf:a', 30000, 100);
+        await first.flush();
+
+        const second = new TransactionHistory(new FileHistoryStorage(path));
+        await second.initialize();
+
+        expect(second.query().entries).toHaveLength(1);
+        expect(second.get('account', 'tx1')!.netValue).toBe(-30000);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('rejects a corrupt ledger', async () => {
+      const storage = new MemoryHistoryStorage();
+      await storage.save('{not json');
+
+      await expect(new TransactionHistory(storage).initialize()).rejects.toThrow('History initialization failed');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the shared write queue of persisted state
+ */
+
+import { PersistedStore } from '../../src/state/persistedStore';
+import type { StateStorage } from '../../src/state/persistedStore';
+import { TransactionHistory } from '../../src/state/history';
+
+/**
+ * Storage that fails a given number of writes before accepting them
+ */
+class FlakyStorage implements StateStorage {
+  writes: string[] = [];
+  failures = 0;
+
+  async load(): Promise<string | null> {
+    return this.writes[this.writes.length - 1] ?? null;
+  }
+
+  async save(data: string): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('disk full');
+    }
+    this.writes.push(data);
+  }
+}
+
+describe('PersistedStore', () => {
+  let storage: FlakyStorage;
+  let state: number;
+
+  beforeEach(() => {
+    storage = new FlakyStorage();
+    state = 0;
+  });
+
+  const createStore = (attempts = 3) =>
+    new PersistedStore(storage, () => JSON.stringify({ state }), { attempts, retryDelayMs: 1 });
+
+  test('coalesces changes made while a write is queued', async () => {
+    const store = createStore();
+    state = 1;
+    store.schedule();
+    state = 2;
+    store.schedule();
+    await store.flush();
+
+    expect(storage.writes).toEqual(['{"state":2}']);
+  });
+
+  test('retries a failed write', async () => {
+    const store = createStore();
+    storage.failures = 2;
+    state = 1;
+    store.schedule();
+
+    await expect(store.flush()).resolves.toBeUndefined();
+    expect(storage.writes).toEqual(['{"state":1}']);
+  });
+
+  test('reports a write that failed every attempt until a later write succeeds', async () => {
+    const store = createStore(2);
+    storage.failures = 2;
+    store.schedule();
+
+    await expect(store.flush()).rejects.toThrow('Failed to persist state: disk full');
+    expect(store.getLastError()?.message).toBe('disk full');
+
+    state = 3;
+    store.schedule();
+    await store.flush();
+    expect(store.getLastError()).toBeNull();
+    expect(storage.writes).toEqual(['{"state":3}']);
+  });
+
+  test('rejects an invalid number of attempts', () => {
+    expect(() => createStore(0)).toThrow('Invalid write attempts: 0');
+  });
+
+  test('surfaces failed writes through the owning store', async () => {
+    const history = new TransactionHistory(storage);
+    storage.failures = 3;
+    history.recordReceived('account', 'tx1', 'sapling', 'sapling:a', 1000, 500);
+
+    await expect(history.flush()).rejects.toThrow('disk full');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for BIP44 transparent address discovery and rotation
+ */
+
+import { TransparentAccount } from '../../src/state/transparentAccount';
+import { UTXOCache } from '../../src/state/utxo';
+import type { TransparentAddressKey, TransparentChain } from '../../src/crypto/keyDerivation';
+import type { UTXO } from '../../src/types';
+
+describe('TransparentAccount', () => {
+  let cache: UTXOCache;
+  let funded: Map<string, number>;
+  let fetched: string[][];
+
+  const deriveKeys = (chain: TransparentChain, startIndex: number, count: number): TransparentAddressKey[] =>
+    Array.from({ length: count }, (_, i) => ({
+      chain,
+      index: startIndex + i,
+      privateKey: new Uint8Array(32).fill(startIndex + i + 1),
+      publicKey: new Uint8Array(33),
+      address: `${chain}-${startIndex + i}`
+    }));
+
+  const fetchUTXOs = async (addresses: string[]): Promise<UTXO[]> => {
+    fetched.push(addresses);
+    return addresses
+      .filter(address => funded.has(address))
+      .map(address => ({
+        txid: `tx-${address}`,
+        vout: 0,
+        address,
+        scriptPubKey: '76a914abcd1234567890ef88ac',
+        amount: funded.get(address)!,
+        confirmations: 6,
+        spendable: true
+      }));
+  };
+
+  const createAccount = () => new TransparentAccount('account', deriveKeys, fetchUTXOs, cache, { gapLimit: 5 });
+
+  beforeEach(() => {
+    cache = new UTXOCache();
+    funded = new Map();
+    fetched = [];
+  });
+
+  describe('discover', () => {
+    test('follows used addresses until a full gap is unused', async () => {
+      funded.set('external-0', 100000);
+      funded.set('external-3', 200000);
+      funded.set('external-7', 300000);
+      funded.set('internal-2', 50000);
+      const account = createAccount();
+
+      const result = await account.discover(1000);
+
+      expect(result.external).toEqual({ lastUsedIndex: 7, derivedCount: 13 });
+      expect(result.internal).toEqual({ lastUsedIndex: 2, derivedCount: 8 });
+      expect(result.utxos).toHaveLength(4);
+      expect(account.getBalance().total).toBe(650000);
+      expect(cache.getAccountAddresses('account')).toHaveLength(21);
+    });
+
+    test('queries each address once', async () => {
+      funded.set('external-3', 200000);
+      await createAccount().discover(1000);
+
+      const queried = fetched.flat();
+      expect(new Set(queried).size).toBe(queried.length);
+      expect(queried.filter(address => address.startsWith('external'))).toHaveLength(9);
+    });
+
+    test('misses addresses past the gap limit', async () => {
+      funded.set('external-6', 100000);
+      const account = createAccount();
+
+      const result = await account.discover(1000);
+
+      expect(result.external.lastUsedIndex).toBe(-1);
+      expect(account.getBalance().total).toBe(0);
+    });
+
+    test('clears UTXOs of addresses that were spent from', async () => {
+      funded.set('external-0', 100000);
+      const account = createAccount();
+      await account.discover(1000);
+
+      funded.delete('external-0');
+      await account.discover(1001);
+
+      expect(cache.getUTXOs('external-0')).toEqual([]);
+      expect(account.getBalance().total).toBe(0);
+    });
+  });
+
+  describe('address rotation', () => {
+    test('hands out fresh change addresses after the last used one', async () => {
+      funded.set('internal-2', 50000);
+      const account = createAccount();
+      await account.discover(1000);
+
+      expect(account.getNextChangeAddress()).toBe('internal-3');
+      expect(account.getNextChangeAddress()).toBe('internal-4');
+    });
+
+    test('starts receiving addresses after the default address', () => {
+      const account = createAccount();
+      account.markUsed('external-0');
+
+      expect(account.getNextReceiveAddress()).toBe('external-1');
+      expect(account.getAddresses()).toContain('external-1');
+      expect(cache.getAccountAddresses('account')).toContain('external-1');
+    });
+
+    test('reuses the first unused address once the gap is exhausted', () => {
+      const account = createAccount();
+      const issued = Array.from({ length: 6 }, () => account.getNextChangeAddress());
+
+      expect(issued).toEqual(['internal-0', 'internal-1', 'internal-2', 'internal-3', 'internal-4', 'internal-0']);
+    });
+
+    test('moves past addresses marked used', () => {
+      const account = createAccount();
+      const change = account.getNextChangeAddress();
+      account.markUsed(change);
+
+      expect(account.getChainState('internal').lastUsedIndex).toBe(0);
+      expect(account.getNextChangeAddress()).toBe('internal-1');
+    });
+  });
+
+  describe('keys', () => {
+    test('returns the private key of derived addresses only', () => {
+      const account = createAccount();
+      const change = account.getNextChangeAddress();
+
+      expect(account.isOwnAddress(change)).toBe(true);
+      expect(account.getPrivateKey(change)).toEqual(new Uint8Array(32).fill(1));
+      expect(account.getPrivateKey('someone-else')).toBeUndefined();
+    });
+
+    test('wipe zeroes the derived keys', () => {
+      const account = createAccount();
+      account.wipe();
+
+      expect(account.getPrivateKey('external-0')!.every(byte => byte === 0)).toBe(true);
+    });
+  });
+
+  test('rejects an invalid gap limit', () => {
+    expect(() => new TransparentAccount('account', deriveKeys, fetchUTXOs, cache, { gapLimit: 0 }))
+      .toThrow('Invalid gap limit: 0');
+  });
+});
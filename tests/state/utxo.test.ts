@@ -187,6 +187,40 @@ describe('UTXOCache', () => {
       expect(cache.isCacheValid('addr2')).toBe(false);
     });
   });
+
+  describe('account aggregation', () => {
+    test('sums balances across the addresses of an account', () => {
+      cache.updateUTXOs('addr1', [createMockUTXO('tx1', 0, 100000)], 1000);
+      cache.updateUTXOs('addr2', [createMockUTXO('tx2', 0, 200000, 0)], 1000);
+      cache.updateUTXOs('other', [createMockUTXO('tx3', 0, 400000)], 1000);
+      cache.setAccountAddresses('account', ['addr1', 'addr2', 'addr1']);
+
+      expect(cache.getAccountAddresses('account')).toEqual(['addr1', 'addr2']);
+      expect(cache.getAccountBalance('account')).toEqual({ confirmed: 100000, unconfirmed: 200000, total: 300000 });
+      expect(cache.getAccountUTXOs('account').map(utxo => utxo.txid)).toEqual(['tx1', 'tx2']);
+      expect(cache.getAccountSpendableUTXOs('account', 1000).map(utxo => utxo.txid)).toEqual(['tx1']);
+    });
+
+    test('returns nothing for an unknown account', () => {
+      expect(cache.getAccountUTXOs('missing')).toEqual([]);
+      expect(cache.getAccountBalance('missing')).toEqual({ confirmed: 0, unconfirmed: 0, total: 0 });
+    });
+  });
+
+  describe('onUpdate', () => {
+    test('reports changed addresses until unsubscribed', () => {
+      const changed: string[] = [];
+      const unsubscribe = cache.onUpdate(address => changed.push(address));
+
+      cache.updateUTXOs('addr1', [createMockUTXO('tx1', 0, 100000)], 1000);
+      cache.lockUTXOs('addr1', [{ txid: 'tx1', vout: 0 }], 'spend');
+      cache.removeUTXO('addr2', 'missing', 0);
+      unsubscribe();
+      cache.clearAddress('addr1');
+
+      expect(changed).toEqual(['addr1', 'addr1']);
+    });
+  });
 });
 
 describe('UTXOSelector', () => {
@@ -224,7 +258,6 @@ describe('UTXOSelector', () => {
       const result = selector.select(
         't1TestAddress123',
         250000,
-        1,
         1006,
         'largest-first'
       );
@@ -237,13 +270,13 @@ describe('UTXOSelector', () => {
       cache.updateUTXOs('t1TestAddress123', utxos, 1000);
 
       expect(() =>
-        selector.select('t1TestAddress123', 200000, 1, 1006)
+        selector.select('t1TestAddress123', 200000, 1006)
       ).toThrow('Insufficient funds');
     });
 
     test('throws on no UTXOs', () => {
       expect(() =>
-        selector.select('t1TestAddress123', 100000, 1, 1006)
+        selector.select('t1TestAddress123', 100000, 1006)
       ).toThrow('No spendable UTXOs');
     });
 
@@ -258,7 +291,6 @@ describe('UTXOSelector', () => {
       const result = selector.select(
         't1TestAddress123',
         400000,
-        1,
         1006,
         'largest-first'
       );
@@ -274,12 +306,25 @@ describe('UTXOSelector', () => {
       const result = selector.select(
         't1TestAddress123',
         100000,
-        1,
         1006
       );
 
       expect(result.change).toBe(result.total - 100000 - result.fee);
     });
+
+    test('charges the ZIP-317 fee for the selected inputs', () => {
+      const utxos: UTXO[] = [
+        createMockUTXO('tx1', 0, 50000),
+        createMockUTXO('tx2', 0, 50000),
+        createMockUTXO('tx3', 0, 50000)
+      ];
+      cache.updateUTXOs('t1TestAddress123', utxos, 1000);
+
+      const result = selector.select('t1TestAddress123', 120000, 1006);
+
+      expect(result.selected).toHaveLength(3);
+      expect(result.fee).toBe(15000);
+    });
   });
 
   describe('selectExact', () => {
@@ -294,7 +339,6 @@ describe('UTXOSelector', () => {
       const result = selector.selectExact(
         't1TestAddress123',
         100000,
-        1,
         1006,
         10000
       );
@@ -311,7 +355,6 @@ describe('UTXOSelector', () => {
       const result = selector.selectExact(
         't1TestAddress123',
         100000,
-        1,
         1006,
         100 // Very tight tolerance
       );
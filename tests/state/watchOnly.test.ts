@@ -0,0 +1,64 @@
+/**
+ * Tests for the watch-only account list
+ */
+
+import { WatchOnlyAccountStore } from '../../src/state/watchOnly';
+import type { WatchOnlyAccount } from '../../src/state/watchOnly';
+import { MemoryHistoryStorage } from '../../src/state/history';
+
+describe('WatchOnlyAccountStore', () => {
+  const account = (id: string, importedAt: number): WatchOnlyAccount => ({
+    id,
+    label: `Account ${id}`,
+    kind: 'xpub',
+    viewingKey: `tpub-${id}`,
+    tAddress: `tm-${id}`,
+    importedAt
+  });
+
+  test('lists accounts oldest import first and rejects duplicates', () => {
+    const store = new WatchOnlyAccountStore();
+    store.add(account('b', 2));
+    store.add(account('a', 1));
+
+    expect(store.list().map(entry => entry.id)).toEqual(['a', 'b']);
+    expect(() => store.add(account('a', 3))).toThrow('Watch-only account already exists: a');
+  });
+
+  test('updates and removes accounts', () => {
+    const store = new WatchOnlyAccountStore();
+    store.add(account('a', 1));
+
+    expect(store.update('a', { label: 'Treasury', birthdayHeight: 2000000 })).toMatchObject({
+      label: 'Treasury',
+      birthdayHeight: 2000000
+    });
+    expect(() => store.update('missing', { label: 'x' })).toThrow('Watch-only account not found: missing');
+
+    expect(store.remove('a')).toBe(true);
+    expect(store.remove('a')).toBe(false);
+    expect(store.has('a')).toBe(false);
+  });
+
+  test('reloads the account list from storage', async () => {
+    const storage = new MemoryHistoryStorage();
+    const first = new WatchOnlyAccountStore(storage);
+    await first.initialize();
+    first.add(account('a', 1));
+    first.add(account('b', 2));
+    first.remove('b');
+    await first.flush();
+
+    const second = new WatchOnlyAccountStore(storage);
+    await second.initialize();
+
+    expect(second.list()).toEqual([account('a', 1)]);
+  });
+
+  test('rejects a corrupt store', async () => {
+    const storage = new MemoryHistoryStorage();
+    await storage.save('{not json');
+
+    await expect(new WatchOnlyAccountStore(storage).initialize()).rejects.toThrow('Watch-only accounts initialization failed');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Consensus Parameters Tests
+ * Tests branch ID selection and transaction version selection by height
+ */
+
+import {
+  getConsensusBranchId,
+  getActiveNetworkUpgrade,
+  getTransactionVersion,
+  getNetworkUpgradeByBranchId,
+  isUpgradeActive,
+  NU5_VERSION_GROUP_ID,
+  SAPLING_VERSION_GROUP_ID
+} from '../../src/transactions/consensus';
+
+describe('consensus parameters', () => {
+  describe('getConsensusBranchId', () => {
+    it('should return the Canopy branch ID before NU5 on mainnet', () => {
+      expect(getConsensusBranchId('mainnet', 1687103)).toBe(0xE9FF75A6);
+    });
+
+    it('should return the NU5 branch ID at NU5 activation on mainnet', () => {
+      expect(getConsensusBranchId('mainnet', 1687104)).toBe(0xC2D6D0B4);
+    });
+
+    it('should return the NU6 branch ID after NU6 activation on testnet', () => {
+      expect(getConsensusBranchId('testnet', 2976000)).toBe(0xC8E71055);
+    });
+
+    it('should reject heights before Sapling activation', () => {
+      expect(() => getConsensusBranchId('mainnet', 400000)).toThrow(/before Sapling/);
+    });
+  });
+
+  describe('getActiveNetworkUpgrade', () => {
+    it('should return null before Overwinter', () => {
+      expect(getActiveNetworkUpgrade('testnet', 100)).toBeNull();
+    });
+
+    it('should use per-network activation heights', () => {
+      expect(getActiveNetworkUpgrade('mainnet', 1842420)?.name).toBe('nu5');
+      expect(getActiveNetworkUpgrade('testnet', 1842419)?.name).toBe('canopy');
+      expect(getActiveNetworkUpgrade('testnet', 1842420)?.name).toBe('nu5');
+    });
+  });
+
+  describe('getTransactionVersion', () => {
+    it('should select v4 before NU5', () => {
+      const info = getTransactionVersion('testnet', 1000000);
+      expect(info.version).toBe(4);
+      expect(info.versionGroupId).toBe(SAPLING_VERSION_GROUP_ID);
+      expect(info.consensusBranchId).toBe(0xF5B9230B);
+    });
+
+    it('should select v5 from NU5 onwards', () => {
+      const info = getTransactionVersion('mainnet', 2800000);
+      expect(info.version).toBe(5);
+      expect(info.versionGroupId).toBe(NU5_VERSION_GROUP_ID);
+      expect(info.consensusBranchId).toBe(0xC8E71055);
+    });
+  });
+
+  it('should report upgrade activation', () => {
+    expect(isUpgradeActive('mainnet', 'nu5', 1687104)).toBe(true);
+    expect(isUpgradeActive('mainnet', 'nu5', 1687103)).toBe(false);
+  });
+
+  it('should look up upgrades by branch ID', () => {
+    expect(getNetworkUpgradeByBranchId('mainnet', 0xC2D6D0B4)?.name).toBe('nu5');
+    expect(getNetworkUpgradeByBranchId('mainnet', 0x12345678)).toBeNull();
+  });
+});
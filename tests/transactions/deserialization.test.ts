@@ -0,0 +1,233 @@
+/**
+ * Transaction Deserialization Tests
+ * Tests full parsing of v4 and v5 raw transactions, including shielded bundles
+ */
+
+import { TransactionSerializer } from '../../src/transactions/serialization';
+import { TransactionSerializer as ShieldedTransactionSerializer } from '../../src/shielded/transactionSerializer';
+import { NU5_VERSION_GROUP_ID, SAPLING_VERSION_GROUP_ID } from '../../src/transactions/consensus';
+import type { Transaction, JoinSplit } from '../../src/types';
+import type { ShieldedBundle, OrchardBundle } from '../../src/shielded/types';
+
+const NU6_BRANCH_ID = 0xC8E71055;
+
+function bytes(length: number, fill: number): Uint8Array {
+  return new Uint8Array(length).fill(fill);
+}
+
+function createSaplingBundle(): ShieldedBundle {
+  const anchor = bytes(32, 9);
+  return {
+    spends: [1, 2].map(n => ({
+      cv: bytes(32, n),
+      anchor,
+      nullifier: bytes(32, n + 10),
+      rk: bytes(32, n + 20),
+      zkproof: bytes(192, n + 30),
+      spendAuthSig: bytes(64, n + 40)
+    })),
+    outputs: [
+      {
+        cv: bytes(32, 50),
+        cmu: bytes(32, 51),
+        ephemeralKey: bytes(32, 52),
+        encCiphertext: bytes(580, 53),
+        outCiphertext: bytes(80, 54),
+        zkproof: bytes(192, 55)
+      }
+    ],
+    valueBalance: 12345n,
+    bindingSig: bytes(64, 56)
+  };
+}
+
+function createOrchardBundle(): OrchardBundle {
+  return {
+    actions: [1, 2].map(n => ({
+      cv: bytes(32, n + 60),
+      nullifier: bytes(32, n + 62),
+      rk: bytes(32, n + 64),
+      cmx: bytes(32, n + 66),
+      ephemeralKey: bytes(32, n + 68),
+      encCiphertext: bytes(580, n + 70),
+      outCiphertext: bytes(80, n + 72),
+      spendAuthSig: bytes(64, n + 74)
+    })),
+    flags: 0x03,
+    valueBalance: -5000n,
+    anchor: bytes(32, 80),
+    proof: bytes(300, 81),
+    bindingSig: bytes(64, 82)
+  };
+}
+
+function createTx(version: 4 | 5): Transaction {
+  return {
+    version,
+    versionGroupId: version === 5 ? NU5_VERSION_GROUP_ID : SAPLING_VERSION_GROUP_ID,
+    consensusBranchId: version === 5 ? NU6_BRANCH_ID : undefined,
+    lockTime: 0,
+    expiryHeight: 3000020,
+    transparentInputs: [
+      {
+        txHash: 'aa'.repeat(31) + '01',
+        index: 2,
+        scriptPubKey: '',
+        scriptSig: '47' + '30'.repeat(71),
+        value: 0,
+        sequence: 0xFFFFFFFF
+      }
+    ],
+    transparentOutputs: [
+      { address: '', value: 40000, scriptPubKey: '76a914' + '22'.repeat(20) + '88ac' }
+    ],
+    saplingBundle: createSaplingBundle()
+  };
+}
+
+describe('TransactionSerializer deserialization', () => {
+  const serializer = new TransactionSerializer();
+
+  describe('v4', () => {
+    it('should parse Sapling spends, outputs and the binding signature', () => {
+      const tx = createTx(4);
+      const decoded = serializer.deserialize(serializer.serialize(tx));
+
+      expect(decoded.version).toBe(4);
+      expect(decoded.versionGroupId).toBe(SAPLING_VERSION_GROUP_ID);
+      expect(decoded.valueBalance).toBe(12345);
+      expect(decoded.saplingBundle).toEqual(tx.saplingBundle);
+      expect(decoded.bindingSig).toBe('38'.repeat(64));
+      expect(decoded.transparentInputs[0].scriptSig).toBe(tx.transparentInputs[0].scriptSig);
+    });
+
+    it('should use the consensus description sizes', () => {
+      const hex = serializer.serialize(createTx(4));
+
+      // header(8) + vin(1 + 36 + 1 + 72 + 4) + vout(1 + 8 + 1 + 25) + lock/expiry(8)
+      // + valueBalance(8) + spends(1 + 2 * 384) + outputs(1 + 948) + joinsplits(1) + bindingSig(64)
+      expect(hex.length / 2).toBe(8 + 114 + 35 + 8 + 8 + 769 + 949 + 1 + 64);
+      expect(hex.slice(0, 16)).toBe('0400008085202f89');
+    });
+
+    it('should parse Sprout JoinSplits', () => {
+      const joinSplit: JoinSplit = {
+        vpubOld: 70000n,
+        vpubNew: 0n,
+        anchor: bytes(32, 1),
+        nullifiers: [bytes(32, 2), bytes(32, 3)],
+        commitments: [bytes(32, 4), bytes(32, 5)],
+        ephemeralKey: bytes(32, 6),
+        randomSeed: bytes(32, 7),
+        macs: [bytes(32, 8), bytes(32, 9)],
+        zkproof: bytes(192, 10),
+        ciphertexts: [bytes(601, 11), bytes(601, 12)]
+      };
+      const tx: Transaction = {
+        ...createTx(4),
+        saplingBundle: undefined,
+        joinsplits: [joinSplit],
+        joinSplitPubKey: '0d'.repeat(32),
+        joinSplitSig: '0e'.repeat(64)
+      };
+
+      const hex = serializer.serialize(tx);
+      const decoded = serializer.deserialize(hex);
+
+      expect(decoded.joinsplits).toEqual([joinSplit]);
+      expect(decoded.joinSplitPubKey).toBe(tx.joinSplitPubKey);
+      expect(decoded.joinSplitSig).toBe(tx.joinSplitSig);
+      expect(decoded.saplingBundle).toBeUndefined();
+      expect(decoded.bindingSig).toBeUndefined();
+      expect(serializer.serialize(decoded)).toBe(hex);
+    });
+
+    it('should reject an unknown version group ID', () => {
+      const hex = serializer.serialize(createTx(4));
+
+      expect(() => serializer.deserialize(hex.slice(0, 8) + '00000000' + hex.slice(16)))
+        .toThrow(/version group ID/);
+    });
+  });
+
+  describe('v5', () => {
+    it('should parse the Sapling and Orchard bundles', () => {
+      const tx = { ...createTx(5), orchardBundle: createOrchardBundle() };
+      const decoded = serializer.deserialize(serializer.serialize(tx));
+
+      expect(decoded.version).toBe(5);
+      expect(decoded.consensusBranchId).toBe(NU6_BRANCH_ID);
+      expect(decoded.saplingBundle).toEqual(tx.saplingBundle);
+      expect(decoded.orchardBundle).toEqual(tx.orchardBundle);
+      expect(decoded.valueBalance).toBe(12345);
+    });
+
+    it('should match the shielded serializer encoding', () => {
+      const tx = createTx(5);
+      const hex = serializer.serialize(tx);
+      const shielded = ShieldedTransactionSerializer.serializeTransaction({
+        version: 5,
+        versionGroupId: NU5_VERSION_GROUP_ID,
+        consensusBranchId: NU6_BRANCH_ID,
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight,
+        transparentInputs: tx.transparentInputs,
+        transparentOutputs: tx.transparentOutputs,
+        shieldedBundle: tx.saplingBundle!,
+        signingData: { spends: [], outputs: [], valueBalance: 12345n, bsk: new Uint8Array(32) }
+      });
+
+      expect(hex).toBe(Buffer.from(shielded).toString('hex'));
+    });
+
+    it('should omit empty bundles', () => {
+      const tx = { ...createTx(5), saplingBundle: undefined };
+      const decoded = serializer.deserialize(serializer.serialize(tx));
+
+      expect(decoded.saplingBundle).toBeUndefined();
+      expect(decoded.orchardBundle).toBeUndefined();
+      expect(decoded.valueBalance).toBe(0);
+    });
+  });
+
+  describe.each([4, 5] as const)('round trip (v%i)', (version) => {
+    it('should re-serialize to the same bytes', () => {
+      const tx = createTx(version);
+      if (version === 5) {
+        tx.orchardBundle = createOrchardBundle();
+      }
+      const hex = serializer.serialize(tx);
+
+      expect(serializer.serialize(serializer.deserialize(hex))).toBe(hex);
+    });
+
+    it('should reject truncated transactions', () => {
+      const hex = serializer.serialize(createTx(version));
+
+      expect(() => serializer.deserialize(hex.slice(0, hex.length - 2))).toThrow(/Truncated/);
+    });
+
+    it('should reject trailing bytes', () => {
+      const hex = serializer.serialize(createTx(version));
+
+      expect(() => serializer.deserialize(hex + '00')).toThrow(/trailing/);
+    });
+  });
+
+  describe('unsupported formats', () => {
+    it('should reject pre-Overwinter transactions', () => {
+      expect(() => serializer.deserialize('01000000' + '00'.repeat(10))).toThrow(/fOverwintered/);
+    });
+
+    it('should reject other transaction versions', () => {
+      expect(() => serializer.deserialize('03000080' + '00'.repeat(10))).toThrow(/Unsupported transaction version 3/);
+      expect(() => serializer.serialize({ ...createTx(4), version: 3 })).toThrow(/Unsupported/);
+    });
+
+    it('should reject note data without an encoded bundle', () => {
+      const tx: Transaction = { ...createTx(4), saplingBundle: undefined, shieldedOutputs: [{}] };
+
+      expect(() => serializer.serialize(tx)).toThrow(/saplingBundle/);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * ZIP-317 Fee Tests
+ * Tests logical action counting and the conventional fee
+ */
+
+import {
+  computeConventionalFee,
+  computeLogicalActions,
+  getPaddedSaplingOutputs,
+  getTransparentOutputsSize,
+  MARGINAL_FEE
+} from '../../src/transactions/fees';
+import { ZcashTransactionBuilder } from '../../src/transactions/builder';
+import { ShieldedTransactionBuilder } from '../../src/shielded/transactionBuilder';
+import { NoteCache } from '../../src/shielded/noteCache';
+import { TransactionValidator } from '../../src/transactions/validation';
+import type { ZcashRPCClient } from '../../src/rpc/client';
+import type { Transaction } from '../../src/types';
+
+describe('ZIP-317 fees', () => {
+  describe('computeLogicalActions', () => {
+    it('should take the larger of transparent inputs and outputs', () => {
+      expect(computeLogicalActions({ transparentInputs: 3, transparentOutputs: 2 })).toBe(3);
+      expect(computeLogicalActions({ transparentInputs: 1, transparentOutputs: 4 })).toBe(4);
+    });
+
+    it('should count transparent sizes in standard units', () => {
+      expect(computeLogicalActions({ transparentInputBytes: 151 })).toBe(2);
+      expect(computeLogicalActions({ transparentOutputBytes: 32 })).toBe(1);
+    });
+
+    it('should take the larger of Sapling spends and padded outputs', () => {
+      expect(computeLogicalActions({ saplingSpends: 5, saplingOutputs: 1 })).toBe(5);
+      expect(computeLogicalActions({ saplingSpends: 1, saplingOutputs: 0 })).toBe(2);
+    });
+
+    it('should add transparent, Sapling and Orchard actions', () => {
+      expect(computeLogicalActions({
+        transparentInputs: 2,
+        saplingOutputs: 1,
+        orchardActions: 2
+      })).toBe(6);
+    });
+  });
+
+  describe('getPaddedSaplingOutputs', () => {
+    it('should pad non-empty bundles to two outputs', () => {
+      expect(getPaddedSaplingOutputs(0, 0)).toBe(0);
+      expect(getPaddedSaplingOutputs(1, 0)).toBe(2);
+      expect(getPaddedSaplingOutputs(0, 1)).toBe(2);
+      expect(getPaddedSaplingOutputs(0, 3)).toBe(3);
+    });
+  });
+
+  describe('computeConventionalFee', () => {
+    it('should charge the grace actions at minimum', () => {
+      expect(computeConventionalFee({})).toBe(10000);
+      expect(computeConventionalFee({ transparentInputs: 1, transparentOutputs: 1 })).toBe(10000);
+    });
+
+    it('should charge the marginal fee per action beyond the grace actions', () => {
+      expect(computeConventionalFee({ transparentInputs: 5, transparentOutputs: 2 })).toBe(5 * MARGINAL_FEE);
+    });
+
+    it('should charge a one-input shielding transaction three actions', () => {
+      expect(computeConventionalFee({ transparentInputs: 1, saplingOutputs: 1 })).toBe(15000);
+    });
+  });
+
+  describe('getTransparentOutputsSize', () => {
+    it('should size outputs from their scripts', () => {
+      expect(getTransparentOutputsSize([
+        { address: '', value: 1, scriptPubKey: '76a914' + '00'.repeat(20) + '88ac' },
+        { address: '', value: 1, scriptPubKey: 'a914' + '00'.repeat(20) + '87' },
+        { address: '', value: 1, scriptPubKey: '' }
+      ])).toBe(34 + 32 + 34);
+    });
+  });
+
+  describe('builders', () => {
+    it('should use the conventional fee for transparent transactions', async () => {
+      const builder = new ZcashTransactionBuilder({
+        network: 'testnet',
+        rpcClient: {} as ZcashRPCClient
+      });
+      const inputs = Array.from({ length: 3 }, (_, i) => ({
+        txHash: '00'.repeat(32),
+        index: i,
+        scriptPubKey: '',
+        value: 10000,
+        sequence: 0xFFFFFFFF
+      }));
+
+      expect(await builder.estimateFee(inputs, [])).toBe(15000);
+    });
+
+    it('should use the conventional fee for shielded transactions', () => {
+      const builder = new ShieldedTransactionBuilder(new NoteCache());
+
+      expect(builder.estimateFee(1, 1)).toBe(10000);
+      expect(builder.estimateFee(3, 1)).toBe(15000);
+      expect(builder.estimateFee(0, 1, 4, 1)).toBe(30000);
+    });
+  });
+
+  describe('TransactionValidator', () => {
+    const createTx = (fee: number): Transaction => ({
+      version: 4,
+      lockTime: 0,
+      expiryHeight: 0,
+      transparentInputs: Array.from({ length: 3 }, (_, i) => ({
+        txHash: '00'.repeat(32),
+        index: i,
+        scriptPubKey: '76a914' + '00'.repeat(20) + '88ac',
+        value: 100000,
+        sequence: 0xFFFFFFFF
+      })),
+      transparentOutputs: [
+        { address: 't1', value: 300000 - fee, scriptPubKey: '76a914' + '11'.repeat(20) + '88ac' }
+      ],
+      valueBalance: 0
+    });
+
+    it('should reject fees below the conventional fee', () => {
+      const result = new TransactionValidator().validateTransaction(createTx(10000));
+      expect(result.errors.some(e => e.includes('Fee too low'))).toBe(true);
+    });
+
+    it('should accept the conventional fee', () => {
+      const result = new TransactionValidator().validateTransaction(createTx(15000));
+      expect(result.errors.some(e => e.includes('Fee too low'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * v5 Transaction Serialization Tests
+ * Tests ZIP-225 serialization and ZIP-244 transaction IDs
+ */
+
+import { TransactionSerializer } from '../../src/transactions/serialization';
+import { ZcashSigner } from '../../src/transactions/signing';
+import { TransactionSerializer as ShieldedTransactionSerializer } from '../../src/shielded/transactionSerializer';
+import { computeTxId, computeSaplingDigest } from '../../src/transactions/zip244';
+import { NU5_VERSION_GROUP_ID, OVERWINTERED_FLAG } from '../../src/transactions/consensus';
+import type { Transaction } from '../../src/types';
+import type { UnsignedShieldedTransaction } from '../../src/shielded/transactionBuilder';
+
+const NU6_BRANCH_ID = 0xC8E71055;
+
+function createTransparentTx(): Transaction {
+  return {
+    version: 5,
+    versionGroupId: NU5_VERSION_GROUP_ID,
+    consensusBranchId: NU6_BRANCH_ID,
+    lockTime: 0,
+    expiryHeight: 3000020,
+    transparentInputs: [
+      {
+        txHash: 'aa'.repeat(31) + '01',
+        index: 1,
+        scriptPubKey: '76a914' + '11'.repeat(20) + '88ac',
+        scriptSig: '',
+        value: 50000,
+        sequence: 0xFFFFFFFF
+      }
+    ],
+    transparentOutputs: [
+      {
+        address: '',
+        value: 40000,
+        scriptPubKey: '76a914' + '22'.repeat(20) + '88ac'
+      }
+    ],
+    valueBalance: 0
+  };
+}
+
+function createShieldedTx(): UnsignedShieldedTransaction {
+  const anchor = new Uint8Array(32).fill(9);
+  return {
+    version: 5,
+    versionGroupId: NU5_VERSION_GROUP_ID,
+    consensusBranchId: NU6_BRANCH_ID,
+    transparentInputs: [],
+    transparentOutputs: [],
+    shieldedBundle: {
+      spends: [
+        {
+          cv: new Uint8Array(32).fill(1),
+          anchor,
+          nullifier: new Uint8Array(32).fill(2),
+          rk: new Uint8Array(32).fill(3),
+          zkproof: new Uint8Array(192).fill(4),
+          spendAuthSig: new Uint8Array(64).fill(5)
+        }
+      ],
+      outputs: [
+        {
+          cv: new Uint8Array(32).fill(6),
+          cmu: new Uint8Array(32).fill(7),
+          ephemeralKey: new Uint8Array(32).fill(8),
+          encCiphertext: new Uint8Array(580).fill(10),
+          outCiphertext: new Uint8Array(80).fill(11),
+          zkproof: new Uint8Array(192).fill(12)
+        }
+      ],
+      valueBalance: -10000n,
+      bindingSig: new Uint8Array(64).fill(13)
+    },
+    lockTime: 0,
+    expiryHeight: 3000020,
+    signingData: {
+      spends: [],
+      outputs: [],
+      valueBalance: -10000n,
+      bsk: new Uint8Array(32)
+    }
+  };
+}
+
+describe('v5 transaction serialization', () => {
+  describe('transparent TransactionSerializer', () => {
+    const serializer = new TransactionSerializer();
+
+    it('should write the v5 header with the fOverwintered flag', () => {
+      const hex = serializer.serialize(createTransparentTx());
+
+      expect(hex.slice(0, 8)).toBe('05000080');
+      expect(hex.slice(8, 16)).toBe('0a27a726');
+      expect(hex.slice(16, 24)).toBe('5510e7c8');
+    });
+
+    it('should round-trip a transparent v5 transaction', () => {
+      const tx = createTransparentTx();
+      const decoded = serializer.deserialize(serializer.serialize(tx));
+
+      expect(decoded.version).toBe(5);
+      expect(decoded.versionGroupId).toBe(NU5_VERSION_GROUP_ID);
+      expect(decoded.consensusBranchId).toBe(NU6_BRANCH_ID);
+      expect(decoded.expiryHeight).toBe(tx.expiryHeight);
+      expect(decoded.transparentInputs[0].txHash).toBe(tx.transparentInputs[0].txHash);
+      expect(decoded.transparentInputs[0].index).toBe(1);
+      expect(decoded.transparentOutputs[0].value).toBe(40000);
+      expect(decoded.transparentOutputs[0].scriptPubKey).toBe(tx.transparentOutputs[0].scriptPubKey);
+    });
+
+    it('should require a consensus branch ID', () => {
+      const tx = createTransparentTx();
+      delete tx.consensusBranchId;
+
+      expect(() => serializer.serialize(tx)).toThrow(/consensusBranchId/);
+    });
+  });
+
+  describe('shielded TransactionSerializer', () => {
+    it('should round-trip a Sapling v5 transaction', () => {
+      const tx = createShieldedTx();
+      const decoded = ShieldedTransactionSerializer.deserializeTransaction(
+        ShieldedTransactionSerializer.serializeTransaction(tx)
+      );
+
+      expect(decoded.version).toBe(5);
+      expect(decoded.consensusBranchId).toBe(NU6_BRANCH_ID);
+      expect(decoded.shieldedBundle.valueBalance).toBe(-10000n);
+      expect(decoded.shieldedBundle.spends[0]).toEqual(tx.shieldedBundle.spends[0]);
+      expect(decoded.shieldedBundle.outputs[0]).toEqual(tx.shieldedBundle.outputs[0]);
+      expect(decoded.shieldedBundle.bindingSig).toEqual(tx.shieldedBundle.bindingSig);
+    });
+
+    it('should write a single shared anchor', () => {
+      const tx = createShieldedTx();
+      const serialized = ShieldedTransactionSerializer.serializeTransaction(tx);
+
+      // header(20) + vin(1) + vout(1) + spends(1 + 96) + outputs(1 + 948 - 192)
+      // + valueBalance(8) + anchor(32) + proofs/sigs(192 + 64 + 192) + bindingSig(64) + orchard(1)
+      expect(serialized.length).toBe(20 + 2 + 97 + 757 + 8 + 32 + 448 + 64 + 1);
+    });
+
+    it('should reject spends with different anchors', () => {
+      const tx = createShieldedTx();
+      tx.shieldedBundle.spends.push({
+        ...tx.shieldedBundle.spends[0],
+        anchor: new Uint8Array(32).fill(99)
+      });
+
+      expect(() => ShieldedTransactionSerializer.serializeTransaction(tx)).toThrow(/same anchor/);
+    });
+  });
+
+  describe('ZIP-244 txid', () => {
+    it('should not commit to proofs or signatures', () => {
+      const tx = createShieldedTx();
+      const txid = ShieldedTransactionSerializer.computeTxId(tx);
+
+      tx.shieldedBundle.spends[0].spendAuthSig = new Uint8Array(64).fill(0xee);
+      tx.shieldedBundle.outputs[0].zkproof = new Uint8Array(192).fill(0xee);
+      tx.shieldedBundle.bindingSig = new Uint8Array(64).fill(0xee);
+
+      expect(ShieldedTransactionSerializer.computeTxId(tx)).toBe(txid);
+    });
+
+    it('should commit to the consensus branch ID and effecting data', () => {
+      const tx = createShieldedTx();
+      const txid = ShieldedTransactionSerializer.computeTxId(tx);
+
+      expect(ShieldedTransactionSerializer.computeTxId({ ...tx, consensusBranchId: 0xC2D6D0B4 }))
+        .not.toBe(txid);
+      expect(ShieldedTransactionSerializer.computeTxId({ ...tx, expiryHeight: 3000021 }))
+        .not.toBe(txid);
+    });
+
+    it('should give the signed transparent transaction the unsigned txid', () => {
+      const tx = createTransparentTx();
+      const txid = computeTxId({
+        header: (tx.version | OVERWINTERED_FLAG) >>> 0,
+        versionGroupId: tx.versionGroupId!,
+        consensusBranchId: tx.consensusBranchId!,
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight,
+        transparentInputs: tx.transparentInputs,
+        transparentOutputs: tx.transparentOutputs
+      });
+
+      const privateKey = new Uint8Array(32).fill(1);
+      const signed = new ZcashSigner().signTransparentTransaction(
+        tx,
+        privateKey,
+        tx.transparentInputs
+      );
+
+      expect(signed.txHash).toBe(txid);
+      expect(signed.rawTx.slice(0, 8)).toBe('05000080');
+    });
+
+    it('should use the empty Sapling digest for bundles without actions', () => {
+      const empty = computeSaplingDigest(null);
+      expect(computeSaplingDigest({
+        spends: [],
+        outputs: [],
+        valueBalance: 0n,
+        bindingSig: new Uint8Array(64)
+      })).toEqual(empty);
+    });
+  });
+});
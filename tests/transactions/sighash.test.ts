@@ -0,0 +1,380 @@
+/**
+ * Signature Hash Tests
+ * Tests ZIP-243 (v4) and ZIP-244 (v5) signature digests
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { blake2b } from '@noble/hashes/blake2b';
+import {
+  computeSignatureHash,
+  resolveConsensusBranchId,
+  SIGHASH_ALL,
+  SIGHASH_NONE,
+  SIGHASH_SINGLE,
+  SIGHASH_ANYONECANPAY
+} from '../../src/transactions/sighash';
+import type { SighashTransaction } from '../../src/transactions/sighash';
+import { computeTxId, computeTxIdDigest, computeOrchardDigest } from '../../src/transactions/zip244';
+import { TransactionSerializer } from '../../src/transactions/serialization';
+import {
+  SAPLING_VERSION_GROUP_ID,
+  NU5_VERSION_GROUP_ID,
+  OVERWINTERED_FLAG
+} from '../../src/transactions/consensus';
+import type { Transaction } from '../../src/types';
+import type { OrchardBundle } from '../../src/shielded/types';
+import { bytesToHex, hexToBytes, concatBytes } from '../../src/utils/bytes';
+import {
+  ZIP243_BRANCH_ID,
+  ZIP243_VECTOR_1,
+  TESTNET_P2SH_MULTISIG_TX,
+  P2SH_MULTISIG_BRANCH_ID,
+  P2SH_MULTISIG_REDEEM_SCRIPT,
+  P2SH_MULTISIG_INPUT_VALUE,
+  MAINNET_SAPLING_TX_A,
+  MAINNET_SAPLING_TX_B,
+  MAINNET_TRANSPARENT_TX_A,
+  MAINNET_TRANSPARENT_TX_B
+} from './sighashVectors';
+
+const CANOPY_BRANCH_ID = 0xE9FF75A6;
+const NU6_BRANCH_ID = 0xC8E71055;
+
+function toSighashTransaction(tx: Transaction, consensusBranchId: number): SighashTransaction {
+  return {
+    ...tx,
+    versionGroupId: tx.versionGroupId ?? SAPLING_VERSION_GROUP_ID,
+    consensusBranchId: tx.consensusBranchId ?? consensusBranchId
+  };
+}
+
+function txid(tx: Transaction): string {
+  return computeTxId({
+    ...toSighashTransaction(tx, NU6_BRANCH_ID),
+    header: (tx.version | OVERWINTERED_FLAG) >>> 0
+  });
+}
+
+/**
+ * Split a P2PKH scriptSig into the DER signature, hash type and public key
+ */
+function parseP2PKHScriptSig(scriptSig: string) {
+  const script = hexToBytes(scriptSig);
+  const signatureEnd = 1 + script[0];
+  const publicKeyLength = script[signatureEnd];
+  return {
+    signature: script.slice(1, signatureEnd - 1),
+    hashType: script[signatureEnd - 1],
+    publicKey: script.slice(signatureEnd + 1, signatureEnd + 1 + publicKeyLength)
+  };
+}
+
+/**
+ * Collect the data pushed by a script, skipping other opcodes
+ */
+function parseScriptPushes(scriptHex: string): Uint8Array[] {
+  const script = hexToBytes(scriptHex);
+  const pushes: Uint8Array[] = [];
+  for (let offset = 0; offset < script.length;) {
+    const opcode = script[offset++];
+    if (opcode > 0x4d) {
+      continue;
+    }
+    let length = opcode;
+    if (opcode === 0x4c) {
+      length = script[offset++];
+    } else if (opcode === 0x4d) {
+      length = script[offset] | (script[offset + 1] << 8);
+      offset += 2;
+    }
+    pushes.push(script.slice(offset, offset + length));
+    offset += length;
+  }
+  return pushes;
+}
+
+function createTx(version: 4 | 5): SighashTransaction {
+  return {
+    version,
+    versionGroupId: version === 5 ? NU5_VERSION_GROUP_ID : SAPLING_VERSION_GROUP_ID,
+    consensusBranchId: version === 5 ? NU6_BRANCH_ID : CANOPY_BRANCH_ID,
+    lockTime: 0,
+    expiryHeight: 1500020,
+    transparentInputs: [
+      {
+        txHash: '01'.repeat(32),
+        index: 0,
+        scriptPubKey: '76a914' + '11'.repeat(20) + '88ac',
+        scriptSig: '',
+        value: 100000,
+        sequence: 0xFFFFFFFF
+      },
+      {
+        txHash: '02'.repeat(32),
+        index: 3,
+        scriptPubKey: '76a914' + '33'.repeat(20) + '88ac',
+        scriptSig: '',
+        value: 25000,
+        sequence: 0xFFFFFFFE
+      }
+    ],
+    transparentOutputs: [
+      { address: '', value: 90000, scriptPubKey: '76a914' + '22'.repeat(20) + '88ac' },
+      { address: '', value: 30000, scriptPubKey: '76a914' + '44'.repeat(20) + '88ac' }
+    ]
+  };
+}
+
+describe('signature hashing', () => {
+  describe('ZIP-243 (v4)', () => {
+    const deserialize = (hex: string) => toSighashTransaction(
+      new TransactionSerializer().deserialize(hex),
+      ZIP243_BRANCH_ID
+    );
+
+    it('should produce the digests signed by a testnet P2SH multisig input', () => {
+      const tx = toSighashTransaction(
+        new TransactionSerializer().deserialize(TESTNET_P2SH_MULTISIG_TX),
+        P2SH_MULTISIG_BRANCH_ID
+      );
+      const pushes = parseScriptPushes(tx.transparentInputs[0].scriptSig!);
+      expect(bytesToHex(pushes[pushes.length - 1])).toBe(P2SH_MULTISIG_REDEEM_SCRIPT);
+
+      // OP_0, the signatures in key order, then the redeem script as scriptCode
+      const publicKeys = parseScriptPushes(P2SH_MULTISIG_REDEEM_SCRIPT);
+      const signatures = pushes.slice(1, -1);
+      expect(signatures).toHaveLength(2);
+
+      signatures.forEach((pushed, index) => {
+        const sighash = computeSignatureHash(tx, pushed[pushed.length - 1], {
+          index: 0,
+          scriptCode: P2SH_MULTISIG_REDEEM_SCRIPT,
+          value: P2SH_MULTISIG_INPUT_VALUE
+        });
+
+        expect(secp256k1.verify(pushed.slice(0, -1), sighash, publicKeys[index], { lowS: false })).toBe(true);
+      });
+    });
+
+    it('should commit to the JoinSplits and Sapling spends and outputs of test vector 1', () => {
+      const tx = deserialize(ZIP243_VECTOR_1);
+      expect(tx.joinsplits).toHaveLength(2);
+      expect(tx.saplingBundle?.spends).toHaveLength(3);
+      expect(tx.saplingBundle?.outputs).toHaveLength(1);
+
+      const sighash = computeSignatureHash(tx, SIGHASH_ALL);
+      const bundle = tx.saplingBundle!;
+      expect(computeSignatureHash({ ...tx, joinsplits: [] }, SIGHASH_ALL)).not.toEqual(sighash);
+      expect(computeSignatureHash({ ...tx, saplingBundle: { ...bundle, spends: [] } }, SIGHASH_ALL)).not.toEqual(sighash);
+      expect(computeSignatureHash({ ...tx, saplingBundle: { ...bundle, outputs: [] } }, SIGHASH_ALL)).not.toEqual(sighash);
+    });
+
+    it('should commit to the consensus branch ID', () => {
+      const tx = createTx(4);
+      const input = { index: 0, scriptCode: tx.transparentInputs[0].scriptPubKey, value: 100000 };
+
+      expect(computeSignatureHash(tx, SIGHASH_ALL, input))
+        .not.toEqual(computeSignatureHash({ ...tx, consensusBranchId: 0xF5B9230B }, SIGHASH_ALL, input));
+    });
+  });
+
+  describe('ZIP-244 (v5)', () => {
+    const serializer = new TransactionSerializer();
+    const saplingA = serializer.deserialize(MAINNET_SAPLING_TX_A);
+    const saplingB = serializer.deserialize(MAINNET_SAPLING_TX_B);
+    const transparentA = serializer.deserialize(MAINNET_TRANSPARENT_TX_A);
+    const transparentB = serializer.deserialize(MAINNET_TRANSPARENT_TX_B);
+
+    it('should compute the txids referenced by mainnet prevouts', () => {
+      expect(transparentA.transparentInputs.map(i => [i.txHash, i.index])).toEqual([
+        [txid(saplingA), 0]
+      ]);
+      expect(transparentB.transparentInputs.map(i => [i.txHash, i.index])).toEqual([
+        [txid(transparentA), 1],
+        [txid(saplingB), 0]
+      ]);
+    });
+
+    it('should produce the digests signed by mainnet P2PKH inputs', () => {
+      const parents = [saplingA, transparentA, saplingB];
+      const byId = new Map(parents.map(parent => [txid(parent), parent]));
+
+      for (const child of [transparentA, transparentB]) {
+        // Amounts and scripts of the spent outputs, as committed to by ZIP-244
+        const inputs = child.transparentInputs.map(i => {
+          const spent = byId.get(i.txHash)!.transparentOutputs[i.index];
+          return { ...i, value: spent.value, scriptPubKey: spent.scriptPubKey };
+        });
+        const tx = toSighashTransaction({ ...child, transparentInputs: inputs }, NU6_BRANCH_ID);
+
+        inputs.forEach((input, index) => {
+          const { signature, hashType, publicKey } = parseP2PKHScriptSig(input.scriptSig!);
+          const sighash = computeSignatureHash(tx, hashType, {
+            index,
+            scriptCode: input.scriptPubKey,
+            value: input.value
+          });
+
+          expect(secp256k1.verify(signature, sighash, publicKey, { lowS: false })).toBe(true);
+        });
+      }
+    });
+
+    it('should equal the txid digest for transactions without transparent inputs', () => {
+      const tx: SighashTransaction = { ...createTx(5), transparentInputs: [] };
+
+      expect(computeSignatureHash(tx)).toEqual(computeTxIdDigest({
+        header: 0x80000005,
+        versionGroupId: tx.versionGroupId,
+        consensusBranchId: tx.consensusBranchId,
+        lockTime: tx.lockTime,
+        expiryHeight: tx.expiryHeight,
+        transparentInputs: [],
+        transparentOutputs: tx.transparentOutputs
+      }));
+    });
+
+    it('should commit to the Orchard bundle as in T.4', () => {
+      const action = (fill: number) => ({
+        cv: new Uint8Array(32).fill(fill),
+        nullifier: new Uint8Array(32).fill(fill + 1),
+        rk: new Uint8Array(32).fill(fill + 2),
+        cmx: new Uint8Array(32).fill(fill + 3),
+        ephemeralKey: new Uint8Array(32).fill(fill + 4),
+        encCiphertext: new Uint8Array(580).map((_, i) => fill + i),
+        outCiphertext: new Uint8Array(80).fill(fill + 5),
+        spendAuthSig: new Uint8Array(64).fill(fill + 6)
+      });
+      const bundle: OrchardBundle = {
+        actions: [action(0x10), action(0x20)],
+        flags: 0x03,
+        valueBalance: -15000n,
+        anchor: new Uint8Array(32).fill(0x77),
+        proof: new Uint8Array(64).fill(0x88),
+        bindingSig: new Uint8Array(64).fill(0x99)
+      };
+      const hash = (personalization: string, ...parts: Uint8Array[]) => blake2b(concatBytes(...parts), {
+        dkLen: 32,
+        personalization: new TextEncoder().encode(personalization)
+      });
+
+      // Proofs and signatures are left out; valueBalanceOrchard is a signed 64-bit integer
+      const expected = hash(
+        'ZTxIdOrchardHash',
+        hash('ZTxIdOrcActCHash', ...bundle.actions.flatMap(a => [a.nullifier, a.cmx, a.ephemeralKey, a.encCiphertext.slice(0, 52)])),
+        hash('ZTxIdOrcActMHash', ...bundle.actions.map(a => a.encCiphertext.slice(52, 564))),
+        hash('ZTxIdOrcActNHash', ...bundle.actions.flatMap(a => [a.cv, a.rk, a.encCiphertext.slice(564), a.outCiphertext])),
+        new Uint8Array([0x03]),
+        hexToBytes('68c5ffffffffffff'),
+        bundle.anchor
+      );
+      expect(computeOrchardDigest(bundle)).toEqual(expected);
+
+      const tx = createTx(5);
+      const withOrchard = { ...tx, orchardBundle: bundle };
+      expect(computeSignatureHash(withOrchard)).not.toEqual(computeSignatureHash(tx));
+      expect(computeSignatureHash({ ...withOrchard, orchardBundle: { ...bundle, proof: new Uint8Array(64) } }))
+        .toEqual(computeSignatureHash(withOrchard));
+    });
+
+    it('should commit to the amounts of all inputs', () => {
+      const tx = createTx(5);
+      const input = { index: 0, scriptCode: tx.transparentInputs[0].scriptPubKey, value: 100000 };
+      const sighash = computeSignatureHash(tx, SIGHASH_ALL, input);
+
+      tx.transparentInputs[1].value = 1;
+      expect(computeSignatureHash(tx, SIGHASH_ALL, input)).not.toEqual(sighash);
+    });
+
+    it('should differ per input', () => {
+      const tx = createTx(5);
+
+      expect(computeSignatureHash(tx, SIGHASH_ALL, {
+        index: 0, scriptCode: tx.transparentInputs[0].scriptPubKey, value: 100000
+      })).not.toEqual(computeSignatureHash(tx, SIGHASH_ALL, {
+        index: 1, scriptCode: tx.transparentInputs[1].scriptPubKey, value: 25000
+      }));
+    });
+  });
+
+  describe.each([4, 5] as const)('hash types (v%i)', (version) => {
+    const input = () => {
+      const tx = createTx(version);
+      return { tx, input: { index: 0, scriptCode: tx.transparentInputs[0].scriptPubKey, value: 100000 } };
+    };
+
+    it('should produce a distinct digest per hash type', () => {
+      const { tx, input: signable } = input();
+      const types = [
+        SIGHASH_ALL,
+        SIGHASH_NONE,
+        SIGHASH_SINGLE,
+        SIGHASH_ALL | SIGHASH_ANYONECANPAY,
+        SIGHASH_NONE | SIGHASH_ANYONECANPAY,
+        SIGHASH_SINGLE | SIGHASH_ANYONECANPAY
+      ];
+      const digests = new Set(
+        types.map(t => Buffer.from(computeSignatureHash(tx, t, signable)).toString('hex'))
+      );
+
+      expect(digests.size).toBe(types.length);
+    });
+
+    it('should not commit to outputs with SIGHASH_NONE', () => {
+      const { tx, input: signable } = input();
+      const sighash = computeSignatureHash(tx, SIGHASH_NONE, signable);
+
+      tx.transparentOutputs[0].value = 1;
+      expect(computeSignatureHash(tx, SIGHASH_NONE, signable)).toEqual(sighash);
+    });
+
+    it('should only commit to the matching output with SIGHASH_SINGLE', () => {
+      const { tx, input: signable } = input();
+      const sighash = computeSignatureHash(tx, SIGHASH_SINGLE, signable);
+
+      tx.transparentOutputs[1].value = 1;
+      expect(computeSignatureHash(tx, SIGHASH_SINGLE, signable)).toEqual(sighash);
+
+      tx.transparentOutputs[0].value = 1;
+      expect(computeSignatureHash(tx, SIGHASH_SINGLE, signable)).not.toEqual(sighash);
+    });
+
+    it('should not commit to other inputs with SIGHASH_ANYONECANPAY', () => {
+      const { tx, input: signable } = input();
+      const hashType = SIGHASH_ALL | SIGHASH_ANYONECANPAY;
+      const sighash = computeSignatureHash(tx, hashType, signable);
+
+      tx.transparentInputs[1].txHash = '09'.repeat(32);
+      expect(computeSignatureHash(tx, hashType, signable)).toEqual(sighash);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject unknown hash types', () => {
+      expect(() => computeSignatureHash(createTx(5), 0x04)).toThrow(/Invalid signature hash type/);
+    });
+
+    it('should reject out-of-range input indices', () => {
+      expect(() => computeSignatureHash(createTx(4), SIGHASH_ALL, {
+        index: 2, scriptCode: '', value: 0
+      })).toThrow(/out of range/);
+    });
+
+    it('should reject malformed hex in prevout hashes and scripts', () => {
+      const badHash = createTx(5);
+      badHash.transparentInputs[0].txHash = 'zz'.repeat(32);
+      expect(() => computeSignatureHash(badHash)).toThrow(/hexToBytes/);
+
+      const oddScript = createTx(5);
+      oddScript.transparentOutputs[0].scriptPubKey = '76a9140';
+      expect(() => computeSignatureHash(oddScript)).toThrow(/invalid hex string length/);
+    });
+
+    it('should derive the branch ID from the expiry height when missing', () => {
+      expect(resolveConsensusBranchId({ expiryHeight: 1687124 }, 'mainnet')).toBe(0xC2D6D0B4);
+      expect(resolveConsensusBranchId({ consensusBranchId: NU6_BRANCH_ID, expiryHeight: 0 }, 'mainnet'))
+        .toBe(NU6_BRANCH_ID);
+      expect(() => resolveConsensusBranchId({ expiryHeight: 0 }, 'mainnet')).toThrow(/consensus branch ID/);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Signature Hash Test Vectors
+ *
+ * ZIP-243: the raw transactions of the ZIP-243 test vectors
+ * (zcash-hackworks/zcash-test-vectors), and a signed testnet transaction
+ * with a P2SH multisig input whose ECDSA signatures pin its signature hash.
+ *
+ * ZIP-244: signed NU6 mainnet transactions. Each spends outputs of the
+ * one before it, so the prevout hashes pin their txids and the ECDSA
+ * signatures in their scriptSigs pin the signature hashes.
+ */
+
+/** Sapling and Sprout consensus branch ID the ZIP-243 vectors are hashed under */
+export const ZIP243_BRANCH_ID = 0x76B809BB;
+
+/** ZIP-243 test vector 1: no transparent inputs, 2 JoinSplits, 3 spends, 1 output */
+export const ZIP243_VECTOR_1 = [
+  '0400008085202f890002e7719811893e0000095200ac6551ac636565b2835a0805750200025151481cdd86b3cc431844',
+  '2117623ceb0500031b3d1a027c2c40590958b7eb13d742a997738c46a458965baf276ba92f272c721fe01f7e9c8e36d6',
+  'a5e29d4e30a73594bf5098421c69378af1e40f64e125946f62c2fa7b2fecbcb64b6968912a6381ce3dc166d56a1d62f5',
+  'a8d7551db5fd9313e8c7203d996af7d477083756d59af80d06a745f44ab023752cb5b406ed8985e18130ab33362697b0',
+  'e4e4c763ccb8f676495c222f7fba1e31defa3d5a57efc2e1e9b01a035587d5fb1a38e01d94903d3c3e0ad3360c1d3710',
+  'acd20b183e31d49f25c9a138f49b1a537edcf04be34a9851a7af9db6990ed83dd64af3597c04323ea51b0052ad8084a8',
+  'b9da948d320dadd64f5431e61ddf658d24ae67c22c8d1309131fc00fe7f235734276d38d47f1e191e00c7a1d48af0468',
+  '27591e9733a97fa6b679f3dc601d008285edcbdae69ce8fc1be4aac00ff2711ebd931de518856878f73476f21a482ec9',
+  '378365c8f7393c94e2885315eb4671098b79535e790fe53e29fef2b3766697ac32b4f473f468a008e72389fc03880d78',
+  '0cb07fcfaabe3f1a15825b7acb4d6b57a61bc68f242b52e4fbf85cf1a09cc45b6d6bb3a391578f499486a7afd04a0d9c',
+  '74c2995d96b4de37b36046a1ef6d190b916b1111c92887311a20da8aba18d1dbebbc862ded42435e92476930d069896c',
+  'ff30eb414f727b89e001afa2fb8dc3436d75a4a6f26572504b192232ecb9f0c02411e52596bc5e90457e745939ffedbd',
+  '12863ce71a02af117d417adb3d15cc54dcb1fce467500c6b8fb86b12b56da9c382857deecc40a98d5f2935395ee4762d',
+  'd21afdbb5d47fa9a6dd984d567db2857b927b7fae2db587105415d4642789d38f50b8dbcc129cab3d17d19f3355bcf73',
+  'cecb8cb8a5da01307152f13936a270572670dc82d39026c6cb4cd4b0f7f5aa2a4f5a5341ec5dd715406f2fdd2afa733f',
+  '5f641c8c21862a1bafce2609d9eecfa158cfb5cd79f88008e315dc7d8388e76c1782fd2795d18a763624c25fa959cc97',
+  '489ce75745824b77868c53239cfbdf73caec65604037314faaceb56218c6bd30f8374ac13386793f21a9fb80ad03bc0c',
+  'da4a44946c00e1b102c78f11876b7065212183199fb5979ca77d2c24c738fe5145f02602053bb4c2f6556df6ed4b4ddd',
+  '3d9a69f53357d7767f4f5ccbdbc596631277f8fecd08cb056b95e3025b9792fff7f244fc716269b926d62e9596fa825c',
+  '6bf21aff9e68625a192440ea06828123d97884806f15fa08da52754a1095e3ff1abd5ce4fddfccfc3a6128aef784a646',
+  '10a89d1a7099216d0814d3a2d452431c32d411ac1cce82ad0229407bbc48985675e3f874a4533f1d63a84dfa3e0f460f',
+  'e2f57e34fbc75423c3737f5b2a0615f5722db041a3ef66fa483afd3c2e19e59444a64add6df1d963f5dd5b5010d3d025',
+  'f0287c4cf19c75f33d51ddddba5d657b43ee8da645443814cc7329f3e9b4e54c236c29af3923101756d9fa4bd0f7d2dd',
+  'aacb6b0f86a2658e0a07a05ac5b950051cd24c47a88d13d659ba2a46ca1830816d09cd7646f76f716abec5de07fe9b52',
+  '3410806ea6f288f8736c23357c85f45791e1708029d9824d90704607f387a03e49bf9836574431345a7877efaa8a08e7',
+  '3081ef8d62cb780a010fa3207ee2f0408097d563da1b2146819edf88d33e7753664fb71d122a6e36998fbd467f75b780',
+  '149ae8808f4e68f50c0536acddf6f1aeab016b6bc1ec144b4e59aeb77eef49d00e5fbb67101cdd41e6bc9cf641a52fca',
+  '98be915f8440a410d74cb30e15914f01bc6bc2307b488d2556d7b7380ea4ffd712f6b02fe806b94569cd4059f396bf29',
+  'b99d0a40e5e1711ca944f72d436a102fca4b97693da0b086fe9d2e7162470d02e0f05d4bec9512bfb3f38327296efaa7',
+  '4328b118c27402c70c3a90b49ad4bbc68e37c0aa7d9b3fe17799d73b841e751713a02943905aae0803fd69442eb7681e',
+  'c2a05600054e92eed555028f21b6a155268a2dd6640a69301a52a38d4d9f9f957ae35af7167118141ce4c9be0a6a492f',
+  'e79f1581a155fa3a2b9dafd82e650b386ad3a08cb6b83131ac300b0846354a7eef9c410e4b62c47c5426907dfc6685c5',
+  'c99b7141ac626ab4761fd3f41e728e1a28f89db89ffdeca364dd2f0f0739f0534556483199c71f189341ac9b78a26916',
+  '4206a0ea1ce73bfb2a942e7370b247c046f8e75ef8e3f8bd821cf577491864e20e6d08fd2e32b555c92c661f19588b72',
+  'a89599710a88061253ca285b6304b37da2b5294f5cb354a894322848ccbdc7c2545b7da568afac87ffa005c312241c2d',
+  '57f4b45d6419f0d2e2c5af33ae243785b325cdab95404fc7aed70525cddb41872cfcc214b13232edc78609753dbff930',
+  'eb0dc156612b9cb434bc4b693392deb87c530435312edcedc6a961133338d786c4a3e103f60110a16b1337129704bf47',
+  '54ff6ba9fbe65951e610620f71cda8fc877625f2c5bb04cbe1228b1e886f4050afd8fe94e97d2e9e85c6bb748c0042d3',
+  '249abb1342bb0eebf62058bf3de080d94611a3750915b5dc6c0b3899d41222bace760ee9c8818ded599e34c56d7372af',
+  '1eb86852f2a732104bdb750739de6c2c6e0f9eb7cb17f1942bfc9f4fd6ebb6b4cdd4da2bca26fac4578e9f543405acc7',
+  'd86ff59158bd0cba3aef6f4a8472d144d99f8b8d1dedaa9077d4f01d4bb27bbe31d88fbefac3dcd4797563a26b1d61fc',
+  'd9a464ab21ed550fe6fa09695ba0b2f10eea6468cc6e20a66f826e3d14c5006f0563887f5e1289be1b2004caca8d3f34',
+  'd6e84bf59c1e04619a7c23a996941d889e4622a9b9b1d59d5e319094318cd405ba27b7e2c084762d31453ec4549a4d97',
+  '729d033460fcf89d6494f2ffd789e98082ea5ce9534b3acd60fe49e37e4f666931677319ed89f85588741b3128901a93',
+  'bd78e4be0225a9e2692c77c969ed0176bdf9555948cbd5a332d045de6ba6bf4490adfe7444cd467a09075417fc020000',
+  '0000000000000000000000000000062e49f008c51ad4227439c1b4476ccd8e97862dab7be1e8d399c05ef27c6e22ee27',
+  '3e15786e394c8f1be31682a30147963ac8da8d41d804258426a3f70289b8ad19d8de13be4eebe3bd4c8a6f55d6e0c373',
+  'd456851879f5fbc282db9e134806bff71e11bc33ab75dd6ca067fb73a043b646a7cf39cab4928386786d2f24141ee120',
+  'fdc34d6764eafc66880ee0204f53cc1167ed20b43a52dea3ca7cff8ef35cd8e6d7c111a68ef44bcd0c1513ad47ca61c6',
+  '59cc5d325b440f6b9f59aff66879bb6688fd2859362b182f207b3175961f6411a493bffd048e7d0d87d82fe6f990a2b0',
+  'a25f5aa0111a6e68f37bf6f3ac2d26b84686e569d58d99c1383597fad81193c4c1b16e6a90e2d507cdfe6fbdaa86163e',
+  '9cf5de3100fbca7e8da047b090db9f37952fbfee76af61668190bd52ed490e677b515d014384af07219c7c0ee7fc7bfc',
+  '79f325644e4df4c0d7db08e9f0bd024943c705abff8994bfa605cfbc7ed746a7d3f7c37d9e8bdc433b7d79e08a12f738',
+  'a8f0dbddfef2f2657ef3e47d1b0fd11e6a13311fb799c79c641d9da43b33e7ad012e28255398789262275f1175be8462',
+  'c01491c4d842406d0ec4282c9526174a09878fe8fdde33a29604e5e5e7b2a025d6650b97dbb52befb59b1d30a57433b0',
+  'a351474444099daa371046613260cf3354cfcdada663ece824ffd7e44393886a86165ddddf2b4c41773554c869952694',
+  '08b11e6737a4c447586f69173446d8e48bf84cbc000a807899973eb93c5e819aad669413f8387933ad1584aa35e43f4e',
+  'cd1e2d0407c0b1b89920ffdfdb9bea51ac95b557af71b89f903f5d9848f14fcbeb1837570f544d6359eb23faf38a0822',
+  'da36ce426c4a2fbeffeb0a8a2e297a9d19ba15024590e3329d9fa9261f9938a4032dd34606c9cf9f3dd33e576f05cd1d',
+  'd6811c6298757d77d9e810abdb226afcaa4346a6560f8932b3181fd355d5d391976183f8d99388839632d6354f666d09',
+  'd3e5629ea19737388613d38a34fd0f6e50ee5a0cc9677177f50028c141378187bd2819403fc534f80076e9380cb4964d',
+  '3b6b45819d3b8e9caf54f051852d671bf8c1ffde2d1510756418cb4810936aa57e6965d6fb656a760b7f19adf96c1734',
+  '88552193b147ee58858033dac7cd0eb204c06490bbdedf5f7571acb2ebe76acef3f2a01ee987486dfe6c3f0a5e234c12',
+  '7258f97a28fb5d164a8176be946b8097d0e317287f33bf9c16f9a545409ce29b1f4273725fc0df02a04ebae178b3414f',
+  'b0a82d50deb09fcf4e6ee9d180ff4f56ff3bc1d3601fc2dc90d814c3256f4967d3a8d64c83fea339c51f5a8e5801fbb9',
+  '7835581b602465dee04b5922c2761b54245bec0c9eef2db97d22b2b3556cc969fbb13d06509765a52b3fac54b93f421b',
+  'f08e18d52ddd52cc1c8ca8adfaccab7e5cc2f4573fbbf8239bb0b8aedbf8dad16282da5c9125dba1c059d0df8abf6210',
+  '78f02d6c4bc86d40845ac1d59710c45f07d585eb48b32fc0167ba256e73ca3b9311c62d109497957d8dbe10aa3e866b4',
+  '0c0baa2bc492c19ad1e6372d9622bf163fbffeaeee796a3cd9b6fbbfa4d792f34d7fd6e763cd5859dd26833d21d9bc54',
+  '52bd19515dff9f4995b35bc0c1f876e6ad11f2452dc9ae85aec01fc56f8cbfda75a7727b75ebbd6bbffb43b63a3b1b67',
+  '1e40feb0db002974a3c3b1a788567231bf6399ff89236981149d423802d2341a3bedb9ddcbac1fe7b6435e1479c72e70',
+  '89d029e7fbbaf3cf37e9b9a6b776791e4c5e6fda57e8d5f14c8c35a2d270846b9dbe005cda16af4408f3ab06a916eeeb',
+  '9c9594b70424a4c1d171295b6763b22f47f80b53ccbb904bd68fd65fbd3fbdea1035e98c21a7dbc91a9b5bc7690f05ec',
+  '317c97f8764eb48e911d428ec8d861b708e8298acb62155145155ae95f0a1d1501034753146e22d05f586d7f6b4fe12d',
+  'ad9a17f5db70b1db96b8d9a83edadc966c8a5466b61fc998c31f1070d9a5c9a6d268d304fe6b8fd3b4010348611abdcb',
+  'd49fe4f85b623c7828c71382e1034ea67bc8ae97404b0c50b2a04f559e49950afcb0ef462a2ae024b0f0224dfd73684b',
+  '88c7fbe92d02b68f759c4752663cd7b97a14943649305521326bde085630864629291bae25ff8822a14c4b666a9259ad',
+  '0dc42a8290ac7bc7f53a16f379f758e5de750f04fd7cad47701c8597f97888bea6fa0bf2999956fbfd0ee68ec36e4688',
+  '809ae231eb8bc4369f5fe1573f57e099d9c09901bf39caac48dc11956a8ae905ead86954547c448ae43d315e669c4242',
+  'da565938f417bf43ce7b2b30b1cd4018388e1a910f0fc41fb0877a5925e466819d375b0a912d4fe843b76ef6f223f0f7',
+  'c894f38f7ab780dfd75f669c8c06cffa0000000000000000000000000000000043eb47565a50e3b1fa45ad61ce9a1c47',
+  '27b7aaa53562f523e73952bbf33d8a4104078ade3eaaa49699a69fdf1c5ac7732146ee5e1d6b6ca9b9180f964cc9d087',
+  '8ae1373524d7d510e58227df6de9d30d271867640177b0f1856e28d5c8afb095ef6184fed651589022eeaea4c0ce1fa6',
+  'f085092b04979489172b3ef8194a798df5724d6b05f1ae000013a08d612bca8a8c31443c10346dbf61de8475c0bbec51',
+  '04b47556af3d514458e2321d146071789d2335934a680614e83562f82dfd405b54a45eb32c165448d4d5d61ca2859585',
+  '369f53f1a137e9e82b67b8fdaf01bda54a317311896ae10280a032440c420a421e944d1e952b70d5826cd3b08b7db963',
+  '0fe4fd5f22125de840fcc40b98038af11d55be25432597b4b65b9ec1c7a8bbfd052cbf7e1c1785314934b262d5853754',
+  'f1f17771cfb7503072655753fa3f54ecc587e9f83b581916092df26e63e18994cb0db91a0bbdc7b6119b32222adf5e61',
+  'd8d8ae89dae4954b54813bb33f08d562ba513fee1b09c0fcd516055419474dd7fda038a89c84ea7b9468287f0eb0c10c',
+  '4b132520194d3d8d5351fc10d09c15c8cc101aa1663bbf17b84111f38bb439f07353bdea3596d15e713e1e2e7d3f1c38',
+  '3135b47fa7f81f46df7a902a404699ec912f5656c35b85763e4de583aecaa1dfd5d2677d9c8ffee877f63f40a5ca0d67',
+  'f6e554124739f805af876aeede53aa8b0f8e5604a73c30cbd09dad963d6f8a5dcc40def40797342113ba206fae8ebe4f',
+  '3bc3caf69259e462eff9ba8b3f4bfaa1300c26925a8729cd32915bfc966086f0d5560bbe32a598c22adfb48cef72ba5d',
+  '4287c0cefbacfd8ce195b4963c34a94bba7a175dae4bbe3ef4863d53708915090f47a068e227433f9e49d3aa09e356d8',
+  'd66d0c0121e91a3c4aa3f27fa1b63396e2b41db908fdab8b18cc7304e94e970568f9421c0dbbbaf84598d972b0534f48',
+  'a5e52670436aaa776ed2482ad703430201e53443c36dcfd34a0cb6637876105e79bf3bd58ec148cb64970e3223a91f71',
+  'dfcfd5a04b667fbaf3d4b3b908b9828820dfecdd753750b5f9d2216e56c615272f854464c0ca4b1e85aedd038292c4e1',
+  'a57744ebba010b9ebfbb011bd6f0b78805025d27f3c17746bae116c15d9f471f0f6288a150647b2afe9df7cccf01f5cd',
+  'e5f04680bbfed87f6cf429fb27ad6babe791766611cf5bc20e48bef119259b9b8a0e39c3df28cb9582ea338601cdc481',
+  'b32fb82adeebb3dade25d1a3df20c37e712506b5d996c49a9f0f30ddcb91fe9004e1e83294a6c9203d94e8dc2cbb449d',
+  'e4155032604e47997016b304fd437d8235045e255a19b743a0a9f2e336b44cae307bb3987bd3e4e777fbb34c0ab8cc3d',
+  '67466c0a88dd4ccad18a07a8d1068df5b629e5718d0f6df5c957cf71bb00a5178f175caca944e635c5159f738e2402a2',
+  'd21aa081e10e456afb00b9f62416c8b9c0f7228f510729e0be3f305313d77f7379dc2af24869c6c74ee4471498861d19',
+  '2f0ff0f508285dab6b6a36ccf7d12256cc76b95503720ac672d08268d2cf7773b6ba2a5f664847bf707f2fc10c98f2f0',
+  '06ec22ccb5a8c8b7c40c7c2d49a6639b9f2ce33c25c04bc461e744dfa536b00d94baddf4f4d14044c695a33881477df1',
+  '24f0fcf206a9fb2e65e304cdbf0c4d2390170c130ab849c2f22b5cdd3921640c8cf1976ae1010b0dfd9cb2543e45f997',
+  '49cc4d61f2e8aabfe98bd905fa39951b33ea769c45ab9531c57209862ad12fd76ba4807e65417b6cd12fa8ec916f013e',
+  'bb8706a96effeda06c4be24b04846392e9d1e6930eae01fa21fbd700583fb598b92c8f4eb8a61aa6235db60f2841cf3a',
+  '1c6ab54c67066844711d091eb931a1bd6281aedf2a0e8fab18817202a9be06402ed9cc720c16bfe881e4df4255e87afb',
+  '7fc62f38116bbe03cd8a3cb11a27d568414782f47b1a44c97c680467694bc9709d32916c97e8006cbb07ba0e4180a373',
+  '8038c374c4cce8f32959afb25f303f5815c4533124acf9d18940e77522ac5dc4b9570aae8f47b7f57fd8767bea1a24ae',
+  '7bed65b4afdc8f1278c30e2db98fd172730ac6bbed4f1127cd32b04a95b205526cfcb4c4e1cc955175b3e8de1f5d81b1',
+  '8669692350aaa1a1d797617582e54d7a5b57a683b32fb1098062dad7b0c2eb518f6862e83db25e3dbaf7aed504de932a',
+  'cb99d735992ce62bae9ef893ff6acc0ffcf8e3483e146b9d49dd8c7835f43a37dca0787e3ec9f6605223d5ba7ae0ab90',
+  '25b73bc03f7fac36c009a56d4d95d1e81d3b3ebca7e54cc1a12d127b57c8138976e791013b015f06a624f521b6ee04ec',
+  '980893c7e5e01a336203594094f82833d7445fe2d09130f63511da54832de9136b39f4599f5aa5dfbb45da60cdceab7e',
+  'efde89be63f3f7c0d2324847cce1405def7c469b0e272494e5df54f568656cb9c8818d92b72b8bc34db7bb3112487e74',
+  '6eefe4e808bbb287d99bf07d00dabededc5e5f074ffeae0cba7da3a516c173be1c513323e119f635e8209a074b216b70',
+  '23fadc2d25949c90037e71e3e550726d210a2c688342e52440635e9cc14afe10102621a9c9accb782e9e4a5fa87f0a95',
+  '6f5b'
+].join('');
+
+/**
+ * Sapling-era testnet transaction with one P2SH 2-of-3 multisig input,
+ * signed by the first two keys of P2SH_MULTISIG_REDEEM_SCRIPT
+ * (bitgo-utxo-lib transaction_builder fixtures)
+ */
+export const TESTNET_P2SH_MULTISIG_TX = [
+  '0400008085202f8901869b6639512245299696c97bcb579016eaeed39f65fec25471eb5eed86967d1d01000000fdfd00',
+  '00483045022100bf54319205fe0e4bf96458b51bd59e20bcb391049339c1c1085d383ca6e4e38702202a98c2c79f5887',
+  'e11b792415ad9747a4dadd5ac7c2b32d4c5c75377e07e327950147304402204f1c773728af94371e3aa2cd5b0d66d717',
+  '801b21e867fb70678a19d91079aeb502204c77183f51b370ad212471d28696054f1bf93503df16cd4fe8409e41c6f46c',
+  '68014c695221021dbb31392fa4857601d5ce2225429923688fede8c2d69e547542cbd88240903a2103c8249e0c474d95',
+  'e09bb04254d342ef1177f8ca92d2a57356a16df25a4635a5382102fae89068c5c63426f83f0bd5492c4fd757e1f4b575',
+  'b5d6d05592e8ba519bfd6e53aeffffffff0118beeb0b000000001976a91467d674a78a010c82c168718ba42a6bbb1e12',
+  '4af088ac00000000e36a04000000000000000000000000'
+].join('');
+
+/** Blossom consensus branch ID TESTNET_P2SH_MULTISIG_TX is signed under */
+export const P2SH_MULTISIG_BRANCH_ID = 0x2BB40E60;
+
+/** Redeem script of the input of TESTNET_P2SH_MULTISIG_TX */
+export const P2SH_MULTISIG_REDEEM_SCRIPT = '5221021dbb31392fa4857601d5ce2225429923688fede8c2d69e547542cbd88240903a2103c8249e0c474d95e09bb04254d342ef1177f8ca92d2a57356a16df25a4635a5382102fae89068c5c63426f83f0bd5492c4fd757e1f4b575b5d6d05592e8ba519bfd6e53ae';
+
+/** Amount of the output spent by TESTNET_P2SH_MULTISIG_TX */
+export const P2SH_MULTISIG_INPUT_VALUE = 200000000;
+
+/** Sapling spend to a P2PKH output, spent by MAINNET_TRANSPARENT_TX_A */
+export const MAINNET_SAPLING_TX_A = [
+  '050000800a27a7265510e7c80000000094e02c00000120d61300000000001976a914040ac822bd91e60f709174ac94be',
+  'e1fb1aaadf2a88ac012b88b763bbed1f015f89aca3786acd2702a5ec69482404fc90cb4e6f597827a1884a2be02987a6',
+  '9f1461b3d479661407c8f31f5f26140c964c7e28315e429115c534b33f896e0320f630a4c4418b25db0c2ce8412a386f',
+  '29be29a138d496a26002d50845284903cd9e2f3da8b5d716217e82aa6021acf7e402a5918dd39602710cbfd33cf9757e',
+  '6da7374d12598bdfee4a821f915254a1fed7189a0acecf52aa4087d61a8797497ba66dffeec0d3451b01c16b4dcbcc27',
+  'f6896cdf59f07d4d535fb3b9f3b7a013d2b69aee28b9d4bdee0eaab836b776e6419324d5690dc1050b0b10063bead8c3',
+  '7ea1ebf03e390be41f313d370e709953f91cfa0923a220f031b58e536e503cc161a046d7eefe1194f7fe3d879417b3ad',
+  '8ed4e04620ecf771cf503939eb441fd2586d2711a1d1228292e66bc09986d06e332b697153228efa383094ecb27eca52',
+  '88771f6a721185ec59bfeb7695b66692de9207a638386304b2fef517c1002158b7a340230d79be282d56764e78c77a4c',
+  '09bb70874e0888a9c4b54df76e92621ec8ce3981e3413e0ce4576caa99a2fbeee2cbaa9d4448fa22c27fa588455bdb6e',
+  'a9cf2515c8edb475a6da460a5e0072150f5d71568bf875a6cc0be52944aaa360dd425722ef70ff6e785263b45d0ce605',
+  '3ea2a48360ad66432b84550e1634d6eb40a99e8c44e229d9de18306325d64f1595c928df3bece71461c281ed948fb54a',
+  'd4c059cd78e0bd50f39a38cbeeb68977582b90ec18cc799ae9c63fbb028d884d4c32067cd6e73809b42b473c1c5031de',
+  '16e524fe242c2840d8cb2d554544525e4d2e48655ed17c5d8f98a5f0b30d72a4be22fe250ea5d4b28e51421ecfa3d6c1',
+  '46edafdc90c6950f8f86c1c5db73b53e8323a1c59347de9f6a420aab8a1ea3245f0eac5c420e8d2333c25846289515cc',
+  'fe15288670d870c2de8ff6dc737b5bb15b6d8c59366d59a15b3361475f7de91fabf0972e323356ecd6ee3bbe8129eac8',
+  'c8a55dbd4945ad6c02b774dd986503ea7dbd1ef4d0fe00e88efbf09cc2ce2754963e085076cbda51a43fe04ffbc5a57e',
+  '7862ccbfa5b7ebf4f999c2450108589143fbcd257fade54537bd6b808f0f59a020033cc09166790f7eae8eb2c236bbcf',
+  'a0515846939b10f8d675a0c39d5dadf8f8df6039d7c56965255de8b22f43bf40749c65ff1c6b9c939d394e165be066bc',
+  '1edf06b465f42ffaabddc059f238e02879ade2a08041314665b38ab2e13bef91cb7052c730740ca3fdb5082ca9316fd7',
+  'fbe4ce63ad66fc32bdfe7106bb34f6cf09d89739dff6205051189a6d1bd7aa4f7518e2cf1872272f9a90baa053c93262',
+  '2ebd195de4ce00c7c3fdbdde46c11fd616fee703cf770caa03e9f6ffa1f32b77e21fffee6fa03badeb99dadaafdfd20a',
+  'd05a98c04020e8a852c105a2b82a543e8e1e3b24646e196fbf1d75fe4bd77a82990a4cf54935d02b33b2853504567b9f',
+  '8b3c2d056c489d991b16543cfbaf6e69a42cc356b799705085b7b58347272a5ff0c454dc5ba733dc6127d573844e4f74',
+  '61f57de2ec04eb97bd94dc29f9bd700cd4f7e0f0c5144e1e24c83528735e17ce585d4ca2ca7318d44f5fe00b069cc278',
+  '06c557c5dba69f3e8ab910ba3509f25ec05af5a0f0e7e86eaec4ec1264124c02d7c35bb90ef500cc813d1f1f37ead8eb',
+  'a59e3c7c346042e4bf29055a823c820bb47000d8e0aa07707f33f0ba4254538532066f0e59ac60a64547acf69ba15b4c',
+  'd61bc6b7e7d4fa111fcbe7eed9cd125f57358c74d1a0db663487ea4f88ae079460c09199e93315defab6ace9df089954',
+  'beb09dde24549b5ec3e6e0c6d95580ea1a25516016f87b52ecb902c9bc87f9386e668867f920a6c0da05ff9da0718fb6',
+  'dff84d3f381f1c40da6e1bc75b6045a54296b759f99071e145d99b9772616280d04c278bff7c3688070fc7ac4ff6e0bd',
+  'b3294224af07e1efe10cf57f6898a39b63ddd9792c4effd933414a1cbc23b20ccf1f3624a187b4faab8687ad58b18a4d',
+  'c5753343ddff7477370f8e766d74e7c5db381910c768270cb62096b110dd9268ad97149fc13c5513024dfafb4093fd6d',
+  '31c942d9bfb0630f98957d9782dac478f39c6d74affcdf031a56e63e090437d1670afc2a1e75cbd359667fd002f83c70',
+  'aa35685314e8c9a8e00d3e653a9d90ccff47b02cd6621ee5ddd94e3e3a822c52bbbfce64b8a55bfe6d3da9bfb1b1f894',
+  '8c3a7fdfee92bf369b43bb432954273d98f251d344aa710d812c8b84b8ab4f694080b810140000000000ec191fd9bc3a',
+  '13624b396dcdef5d13559ced5bcc2058b98f55b2250b9b98b6588ac98d92427f8008c4b292c3b75d1c36a92f1fa92d5c',
+  '3581993230b572fa0324334ce2b7379cbc0dd5bc13e66cb27bc1a87c4cabe06c49c246a1bacb9745f3cf64f626cf9d7d',
+  '0483a8049efa634490ca4c93d7fd5f7d2fbfbdcc61adef53e7ee09652156e3d9a5564d3db8ac040346fe5b133fe6839a',
+  '67ac05876dbf3c14152da4efff436c1b593208f30a3d61c232bbae6caf5a916f8a3b402bb60d2f07a38976445eef9c9c',
+  'f097b7bb08c81d1a84dcdbffd0af6fb144ef1da6320d97e4370eac28e8936922d9f3a485c557b4b7a3a7704d81984e2b',
+  '341dfaa63f0176c5ab26d9c78d8004a1ee7b22b536f34a2df393d6b1ca3884c64f1a3faa131686104d09a9fba81b3f62',
+  '70c485ef960fed6e94f95c130f3e82407700b37f195436bf54b2f7fa679420d98c7ce817432617bc2c0fa3cd3699a93b',
+  '282e565bdbaeb0c79f686efe2ffa7210e55c0197441b2316f744dfd63715090558fa80c68f453a1d54f314dd356cc57c',
+  '8978c625695cccca179f03105571a2011068727b471d019824edbc6f15edfb241adc0e4ce0dfd2bae8188a295745ae69',
+  '027f0781127116d6ed72afcc49584d26cb063d6cee4adf4900e82d2173202cd905a9db2ea254e7126a5786ea4eede15b',
+  'b2b57f0b218faba033aeb9e6ae9a57c3ce635638f7d40364624a516c5dca0b8df23f1564eba8fd9cae02920a6a7e20a9',
+  '04efcb5f049545c95625289f8c3f1d3772ba556272d7eec84592d1838cbba94b44ef68a74a11da7cc92c0cf2230a01bd',
+  '6c7724ee6bf9893af8b75574e785614c0d0ed207dbf9f6b469ac449de4c4bbb2c48036a86580c4fa36ccb51d617dba9b',
+  'f9281eddf1ec1c417e5ba2282cae6f071052ed783de396ba2d4c2cf3699c46aad4b4d678e4a314553c6ef5488e3905fc',
+  '621c3c5281194a4a941a922b6a4cf323db5cd9a5ae1cf1582c808d0165b9cc46af1a13c7eb30737a74464daf551415cf',
+  'd91b33ae98e350e56a0700'
+].join('');
+
+/** Sapling spends to a P2PKH output, spent by MAINNET_TRANSPARENT_TX_B */
+export const MAINNET_SAPLING_TX_B = [
+  '050000800a27a7265510e7c800000000d87c2d00000140951600000000001976a9142767cba450ee8c78f42c151c2b0a',
+  '89673686fb0988ac038b8d5de736a24745b0854cbe0e191a5f39bdae2bc9ae3c43be411f2b549d20738f8c66cac5f347',
+  '0abeac19d39940f7edeed994add401a209a6c816a2bf259de7fbafb44e3ba4b1aa861a188d273d0fef368b9a2ef9f7f7',
+  'b0d880abec65a727236471cef68f92c7761bd75fdb6c584193760a16dab8cd2f510753c651b7a8e89ca7f67e513641b7',
+  'ec3dd9a72785719c7c306e703f2589e8562c659d5d34b170839658294c84eb1a2efd77923a790e68b6268948cb603f85',
+  '1afe60d3b96f738224eb9a9088dac9a59155320936e61a0143e22822b6afd53c20f029994d0784d747f8374eeda6f60d',
+  '31ab1a7462c9d3b92578b01a8e79994103026687713680bb972337d979d4318e5bc2f6d7035e7635b4d5526e1b04ba40',
+  '89cc330c7348732e9d0210a595cb47f9aac32e7047109c56a8d49c601d79ec4a6776e8f5f6a3021ce86c55888f46bee4',
+  'da6970177672bffc486e4543fe5306104029cd26649e1d60581930885b3146de5204a21819f6665c26e449e23cca619f',
+  'e58097df1bbc8197842f2aba5bef1fd1d65acec1f26eb8e8b7658b87232aaad3eca72ec2f066ac647401614d4844c089',
+  '2e4cc012f8b0e2983c39672c80ecee532afd277b2cce50da918b54a8d4dc0746b9ecf756987aa75914cd9ddf00c890fa',
+  '02afd62d229f3e039fffbb52693df89de9431975551afd5fd5c9b80a76f769357a7a5c271ec15a2a4dd6ce6de3608139',
+  'd332db94fb4c71ac13c2226cc81d2271598110aabfb28b884cedb27253aa0df15014a3dc3fbfc859b56ae0657dea3d4d',
+  'f68cd5ec183422974c4df25290ef7618b9c6b8e97e6dc7017d1d2db464187f7dd4069c27c3b58b2bc60da03eebb01518',
+  '0bf94ee13aaf2c5dee3aae42e6184ede66141eb0cc26fa8f96fb8ea6f825dc582d072a1534364eea3f9df423a55795b3',
+  'bd5814d48eca709f8b87c1660ade69b2d4a6ff1dbda23da6c8a0d7f892a0663f3ccd63d0063ac80a8d2652c4c422c817',
+  'e39578570e4aee360a2429bc5476bb23896f652283553b315e28c4c5c94195b823c9c7b24becfe21af74295bfe633bd6',
+  '46c743d1b0d5868e3a71b833316bac88f3656dd2ecafb066158a05ab008dbf923e33786be07446b41613253f75f31f1a',
+  '4b2cb684be69b69ac20046522b60d0193490a849c1ae4faf89740b6c331b09eb8f2c27cce750ef507114e6df584fefd7',
+  'e2d4df1affe7d3480559b5149114803b8d99570833bdaa80845332cf9a7c17d6d86c32f4af265a1c58251b47ba822527',
+  'cb89ab456112ca484acd3213d895f23214e5e870b0d3d15632a613812fb755adf420eade22f4b852a752f4619e078e05',
+  'fe69ca0d99a4d96a6285ac2079a57c9d40b91b09f832bb47cf7f027a8720214b40cff41f6d3671ccfe63b6f312ee6709',
+  'b3657cdbdfc99bd276033dd22d255971f256750ce2661f93596373a5664f2a4657b50cb544aac8d36bb9d9d17ddbec22',
+  '4bd72791daed879010322da1614878dacca61370576f0d5a12566f23db80a96342d24ad5ec914387ec50c31d15b64c9a',
+  '125261dc0e498caebe4187a2c51e70e63c0f4f431f336592b0a17bc64e455fc6ae20147ee34d1d13fd6b11bc52c78def',
+  '9e7d58ec2967539f8bdf223a56b6fa2c1595f207945e7dda0612b94a5f2dda4d797e000effdb5f2e712c714b290de19d',
+  'a38e36a5b044ff66bf7b95a26e6f12b85f111ba48a3f2114867049700bab9921df438a261d9e67e850c96b4aab9c273f',
+  '9f64a00df0266e6de34ff06d542a8d7525345fd88d13bd02c472e97f4ce21eab32112e26c462c4f8856e1e84d126faf8',
+  '1963bd1796dbbed3fb37237143b9b38f3e2b4e398b29c386c1a5e3ece72b3302c0429fb583512da35e7d18bb0fe4a8d3',
+  '7c16c41e62c377112f0c05eebd8d2702b29c10c4695ed28dd517d8a9866991d3265e3b77340ff103c468048484e636dc',
+  '92d1228aa1e99c91030e2a8a7727fff53fc9bb67055f8c3b188bb3d945006d401645cec07c2e646f6ceeb05640e3bc05',
+  'b83aa7f2f6de1680aec5e72c2d782163fd016f778f154226cf309c90ba2529f4111bfa360eae8d3d75319fc5e69dbfca',
+  '29700ac39fb1ffc56ae22c2d0e1a9df3b9376c01944728377cec74286ab0b3c94795ed2eb65d117521c9d0928949c0cc',
+  '4c782059b257bd547756077d76362754206d884a27122f477888cf950981a19673931c633fb1d13e52e104d93002b408',
+  '979bb5f58dc29bc36394ab96874f12d8d4eccb36fd2cb20151604d106af87613e5ca9ecf46825ba88ac548ad0bd68494',
+  'c912a022a38e6a903fe2db62e4f1f798b343b4b5f2843f0ca683c91b04f421050e6a9479f5280ed98766451873575be5',
+  '96e25d437ab7dbc347cc015da1c88b7336a1d7956e5d4632496143c14eabe023f26f6c6ee3e71bb929f9d217a26d692c',
+  'c4f5a18c400d2de6ce7208190d50be41f5478d076ff42bfb0e4e7e8021f1618f8700966e1e73041683980bd46768647d',
+  '5ca2a3c706cb470f77fcd1547f8d7e25234b77332220d523813900d562f7f5dbcbb460e31600000000003355b4c7f891',
+  'cc2ff3f6ea75caf6885eba72c75e94fee5a076afe0394ea1966d90015aa410991258ac7786d256ee0fa76584aa57fd45',
+  'ba1055f8a4e19cfbbfbfa4070f3b7c5bb68a2437b1310e18218e854cabc7bac92d97a974a471e0de550d167e82e23633',
+  '14bb68c1a3a4e2877aa7c236817954ec51ed196a2bb97ebf16d70101d0e56f49206f01c407eb55674a6eab5a0731aec1',
+  '69f3f641d515576ec525200b04c93281e4966d0d82122e70ccc18d84fad25fc5d5318a5ed8e71c738df0074db07753ed',
+  '20281a268d4557b5890c02b1f4f050e5dc099258810f3d17c690a47425f08f56a1c59f7556781094d156a88469432a88',
+  '93044e956501a07da27bdf5b3941a67e557067f046d351a78670b666c952e9fd09cfc4712aad3de487814f1ab9dd7164',
+  '9b8a45184f97929965ec359147ae763815eb7c43675d68b274e107730156a0268673a6fa58d07abe6fae9d34ba0ffa31',
+  'd0bb78dd8844b58a96d743e5448e26d4fcbcba6b6a332774d6c78b1bb0721087ebcc2423940cda12a955187f68048f5e',
+  '362542b2f6129fbe892afed1de8f6ff02642cf8f9547629a847cb45ff0353dc8e608140d1554ea05694d88f76f4f8dab',
+  '1765f31681b2887f8b2582c1cea613813870cb75ca7dbdd3647ca9fa6990597debf2934f62490bb2440ff0b7d72af821',
+  '55927e11e94e22ff836678cc8eb651db28d390c3832b3f176f471916b51ef0b05ea45635170281fb839dc80dbd0d3280',
+  '166881782c0dc31a173bae8d74bc8aad1b02918c49233c810ace95cadf7d5cf1dcf89ceed4732a1a8a6011a67ecb10ad',
+  'bb2fc42f317fc7c663f5b828c69037a3efd80e4278b16fbf696584e251a39335a55f8ddbb66d1eebbd3e52378192e0f3',
+  '342c5ea29e613db467714bf3b00eaafbac5762e9a96b44294e7052fc1245f6e4fd17ebbb7c4d07c38102349d8f45bfc3',
+  '851c28f528ba5dad01cf8bd413e8b15bec20106289f55b1b7fa6aa950373da9a291d94823258ca8561b4559883c6bc16',
+  'd804f284b72cb7542102d329eae6cad25195ad2aa39ec1f59954a667ccf5d7a2213a6115eef6000159bbb7a0c239a40b',
+  '78caacba4256a60689ec474fc59c4ef8d4220f9df62bb4c78a0b8c12fef8b77902b03c60e3625f97b8eeedac8baea41a',
+  '18ca9738f341bffd55a2574169302d3e647bfa0a404437d6339ba65a9f892892d94500d3d2c0e27de824941e7ead0d8d',
+  '08c5430b2384bb07f3f795c83b16ca28012002588b7c8de5a8c808b716cf3e672ff08d47a872eca41f81565c24835a58',
+  '57ed54e4e97c290dcefa3f21702bbe9300db0e86661462a055e59624f15ad9046f6f456372e16a9dc811724b71a9b6c5',
+  'e6c5b79ff2cc5f6567a49e71542609c4b9202e465941abe935f485ed8e54cf70d047f5373e3b91d5163c290d99dec3c6',
+  '0b0512e318da5c47fedeb7cd12a61b8dc2523d1057f77f70f0fb95779c2ba1a84df1c8403782807b1b477419f2f8b2e7',
+  'ee510b055ce616639d66fa401ee9c23f9a8ab2a394cc24f25e8806dca5bf31e35ebc00b8a28c2c1e56e1623357e2cdce',
+  '2f2af08c768a3f78f5d23bd3e43163e6174edbbdfbe5a7cf4433b8b319877916e31fba0855aa6a41410d27a7af9d009d',
+  '3f80ae6d685801e71c64aff4792ff9eab3c77e4772883c139a955b9ea810ae2be12380cd3aa9473c6e2b6f95ef225018',
+  '9320089c1d2fb696154c09017d9377bd1030ad44f0ab46256da4bffb13552f37a924928a23257829dd0300'
+].join('');
+
+/** One P2PKH input spending output 0 of MAINNET_SAPLING_TX_A */
+export const MAINNET_TRANSPARENT_TX_A = [
+  '050000800a27a7265510e7c8000000000000000001e1360c957489515ddfb5c564962e2c8cb2dc3c651c4a219e25e0b5',
+  'e569f49d33000000006b4830450221008844cfb8d9983226f74cdd20cb63ee282360374def5de88d093df7f340775d65',
+  '022072673cea8cd2092484c11c6e8c35ab765a9501024a96265bdd3b80d0c46f9190012102495e50ff5127b9b74083ba',
+  'd438208c7a39ddd83301cd04e40bff5556d3351ab30000000002a0860100000000001976a914a96e684ec46cd8a2f98d',
+  '6ef4b847c0ee88395e9388accedb0e00000000001976a9142495eecd3d7ea979d2066da533f45956a3a6b5c888ac0000',
+  '00'
+].join('');
+
+/** Two P2PKH inputs spending output 1 of MAINNET_TRANSPARENT_TX_A and output 0 of MAINNET_SAPLING_TX_B */
+export const MAINNET_TRANSPARENT_TX_B = [
+  '050000800a27a7265510e7c8000000000000000002a9a27d42321c7ace2884a65a343abb9755f3eba881e53834bdb4a3',
+  'fed4432a13010000006b483045022100a75b5a5a700c148f2eeb7e900304f88b81a54b34a2f9aba4b37fd2ba016e9b6f',
+  '02203bfeb391bccef75620ff3f98b25b6503aba1b397108ab11691e0d268f577760e012103a374dc40ad9e6aeca5f10a',
+  'a1fec30c00335016ee628679b49965360a79cdc9bc0000000035f812ce32a94bbd7679a7f4a71c08b9fb263462352157',
+  'a5c87fa569ad1d7814000000006b483045022100886a6c227090e2bd3a2b511909213209117d1d3386773dc27dd68ec4',
+  '1dd8fbb5022019ccb19c48e705bb0887da8a7f3b32d0e08e239d6aeb363284a841fe0fa2adc9012102c81f0705e847a0',
+  'e765dd1b829d110aa3b21a4dc77f9e4626f03b40b8547c8fb1000000000280841e00000000001976a914a96e684ec46c',
+  'd8a2f98d6ef4b847c0ee88395e9388ac28360100000000001976a9141ed023c5e3414784b975c5ee2ec5378ed7c4fcd4',
+  '88ac000000'
+].join('');
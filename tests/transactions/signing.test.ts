@@ -6,6 +6,8 @@
 import { ZcashSigner } from '../../src/transactions/signing';
 import type { Transaction, TransparentInput } from '../../src/types';
 
+const P2PKH_SCRIPT = '76a914' + '00'.repeat(20) + '88ac';
+
 describe('ZcashSigner', () => {
   let signer: ZcashSigner;
 
@@ -28,7 +30,7 @@ describe('ZcashSigner', () => {
           {
             txHash: 'abc123',
             index: 0,
-            scriptPubKey: '76a914...',
+            scriptPubKey: P2PKH_SCRIPT,
             value: 50000000,
             sequence: 0xFFFFFFFF
           }
@@ -47,7 +49,7 @@ describe('ZcashSigner', () => {
         {
           txHash: 'abc123',
           index: 0,
-          scriptPubKey: '76a914...',
+          scriptPubKey: P2PKH_SCRIPT,
           value: 50000000,
           sequence: 0xFFFFFFFF
         }
@@ -74,7 +76,7 @@ describe('ZcashSigner', () => {
           {
             txHash: 'abc123',
             index: 0,
-            scriptPubKey: '76a914...',
+            scriptPubKey: P2PKH_SCRIPT,
             value: 50000000,
             sequence: 0xFFFFFFFF
           }
@@ -104,7 +106,7 @@ describe('ZcashSigner', () => {
         {
           txHash: 'abc123',
           index: 0,
-          scriptPubKey: '76a914...',
+          scriptPubKey: P2PKH_SCRIPT,
           value: 50000000,
           sequence: 0xFFFFFFFF
         }
@@ -115,6 +117,34 @@ describe('ZcashSigner', () => {
 
       expect(signed1.txHash).not.toBe(signed2.txHash);
     });
+
+    it('should sign each input with its own key', () => {
+      const keys = [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)];
+      const inputs: TransparentInput[] = [0, 1].map(index => ({
+        txHash: 'abc123',
+        index,
+        scriptPubKey: P2PKH_SCRIPT,
+        value: 50000000,
+        sequence: 0xFFFFFFFF
+      }));
+      const tx: Transaction = {
+        version: 4,
+        versionGroupId: 0x892F2085,
+        lockTime: 0,
+        expiryHeight: 1000020,
+        transparentInputs: inputs,
+        transparentOutputs: [{ address: 'tmRecipient', value: 10000000, scriptPubKey: '' }],
+        valueBalance: 0
+      };
+
+      const signed = signer.signTransparentTransaction(tx, keys, inputs);
+      const [first, second] = signed.tx.transparentInputs.map(input => input.scriptSig!);
+
+      // scriptSig ends with the 33-byte compressed public key of the signing key
+      expect(first.slice(-66)).not.toBe(second.slice(-66));
+      expect(() => signer.signTransparentTransaction(tx, [keys[0]], inputs))
+        .toThrow('Expected 2 signing keys, got 1');
+    });
   });
 });
 
@@ -0,0 +1,161 @@
+/**
+ * Tests for auto-shielding of transparent funds
+ */
+
+import { AutoShieldService } from '../../src/wallet/autoShield';
+import type { AutoShieldEvent, AutoShieldProvider } from '../../src/wallet/autoShield';
+import { UTXOCache } from '../../src/state/utxo';
+import type { UTXOEntry } from '../../src/state/utxo';
+import type { SignedTransaction, UTXO } from '../../src/types';
+
+const ADDRESS = 't1AutoShieldTest';
+const SHIELD_TO = 'zs1autoshieldtarget';
+
+describe('AutoShieldService', () => {
+  let cache: UTXOCache;
+  let height: number;
+  let built: Array<{ utxos: UTXOEntry[]; toAddress: string; fee?: number; memo?: string }>;
+  let failBuild: boolean;
+  let exportedKeys: Uint8Array[];
+  let events: AutoShieldEvent[];
+  let service: AutoShieldService;
+
+  const provider: AutoShieldProvider = {
+    getTransparentUTXOs: () => cache.getUTXOs(ADDRESS),
+    onTransparentUTXOsChanged: (listener) => cache.onUpdate(() => listener('account')),
+    lockTransparentUTXOs: (utxos, txid) => {
+      cache.lockUTXOs(ADDRESS, utxos, txid);
+    },
+    buildAndSignShieldingTransaction: async (utxos, toAddress, _accountId, _key, options = {}) => {
+      if (failBuild) {
+        throw new Error('Proving failed');
+      }
+      built.push({ utxos, toAddress, fee: options.fee, memo: options.memo });
+      return { txHash: `tx${built.length}`, rawTx: '00' } as unknown as SignedTransaction;
+    },
+    broadcastTransaction: async (tx) => ({ hash: tx.txHash, confirmations: 0 }),
+    getBlockHeight: async () => height
+  };
+
+  const utxo = (txid: string, amount: number, confirmations: number = 20): UTXO => ({
+    txid,
+    vout: 0,
+    address: ADDRESS,
+    scriptPubKey: '76a914abcd1234567890ef88ac',
+    amount,
+    confirmations,
+    spendable: true
+  });
+
+  const nextEvent = (type: AutoShieldEvent['type']): Promise<AutoShieldEvent> =>
+    new Promise(resolve => {
+      const unsubscribe = service.subscribe(event => {
+        if (event.type === type) {
+          unsubscribe();
+          resolve(event);
+        }
+      });
+    });
+
+  beforeEach(() => {
+    cache = new UTXOCache();
+    height = 1000;
+    built = [];
+    failBuild = false;
+    exportedKeys = [];
+    events = [];
+    service = new AutoShieldService(provider, async () => {
+      const key = new Uint8Array(32).fill(7);
+      exportedKeys.push(key);
+      return key;
+    });
+    service.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  test('waits for the balance to pass the threshold', async () => {
+    cache.updateUTXOs(ADDRESS, [utxo('a', 400000)], height);
+    expect(await service.enable('account', { shieldTo: SHIELD_TO, thresholdZatoshi: 1000000, delayMs: 60000 }))
+      .toBeNull();
+
+    const pending = nextEvent('pending');
+    cache.addUTXO(ADDRESS, utxo('b', 700000), height);
+    const event = await pending;
+
+    expect(event.type === 'pending' && event.shield.amount).toBe(1100000);
+    expect(service.getPending()).toHaveLength(1);
+  });
+
+  test('skips unconfirmed UTXOs and UTXOs not worth their fee', async () => {
+    cache.updateUTXOs(ADDRESS, [utxo('a', 900000), utxo('b', 200000, 3), utxo('c', 5000)], height);
+
+    const shield = await service.enable('account', { shieldTo: SHIELD_TO, thresholdZatoshi: 500000, delayMs: 60000 });
+
+    expect(shield!.utxos.map(entry => entry.txid)).toEqual(['a']);
+    expect(shield!.fee).toBe(15000);
+  });
+
+  test('shields the largest UTXOs first within the action limit', async () => {
+    cache.updateUTXOs(ADDRESS, [utxo('a', 100000), utxo('b', 300000), utxo('c', 200000), utxo('d', 400000)], height);
+
+    const shield = await service.enable('account', {
+      shieldTo: SHIELD_TO,
+      thresholdZatoshi: 500000,
+      maxLogicalActions: 5,
+      delayMs: 60000
+    });
+
+    expect(shield!.utxos.map(entry => entry.txid)).toEqual(['d', 'b', 'c']);
+    expect(shield!.fee).toBe(25000);
+  });
+
+  test('broadcasts after the delay, locks the UTXOs and wipes the key', async () => {
+    cache.updateUTXOs(ADDRESS, [utxo('a', 900000)], height);
+    const broadcast = nextEvent('broadcast');
+
+    await service.enable('account', { shieldTo: SHIELD_TO, thresholdZatoshi: 500000, delayMs: 0, memo: 'auto' });
+    const event = await broadcast;
+
+    expect(event.type === 'broadcast' && event.txid).toBe('tx1');
+    expect(built).toEqual([{ utxos: [expect.objectContaining({ txid: 'a' })], toAddress: SHIELD_TO, fee: 15000, memo: 'auto' }]);
+    expect(cache.getUTXOs(ADDRESS)[0].lockedBy).toBe('tx1');
+    expect(exportedKeys[0].every(byte => byte === 0)).toBe(true);
+    expect(service.getPending()).toEqual([]);
+  });
+
+  test('cancelled auto-shields are not rescheduled', async () => {
+    cache.updateUTXOs(ADDRESS, [utxo('a', 900000)], height);
+    const shield = await service.enable('account', { shieldTo: SHIELD_TO, thresholdZatoshi: 500000, delayMs: 60000 });
+
+    expect(service.cancel(shield!.id)).toBe(true);
+    expect(service.cancel(shield!.id)).toBe(false);
+    cache.addUTXO(ADDRESS, utxo('b', 100000), height);
+    expect(await service.check('account')).toBeNull();
+
+    expect(events.map(event => event.type)).toEqual(['pending', 'cancelled']);
+    expect(built).toEqual([]);
+  });
+
+  test('reports failures and leaves the UTXOs alone', async () => {
+    failBuild = true;
+    cache.updateUTXOs(ADDRESS, [utxo('a', 900000)], height);
+    const failed = nextEvent('failed');
+
+    await service.enable('account', { shieldTo: SHIELD_TO, thresholdZatoshi: 500000, delayMs: 0 });
+    const event = await failed;
+
+    expect(event.type === 'failed' && event.error).toBe('Proving failed');
+    expect(await service.check('account')).toBeNull();
+    expect(cache.getUTXOs(ADDRESS)[0].locked).toBe(false);
+  });
+
+  test('rejects invalid policies', async () => {
+    await expect(service.enable('account', { shieldTo: SHIELD_TO, thresholdZatoshi: 0 }))
+      .rejects.toThrow('Invalid auto-shield threshold: 0');
+    await expect(service.enable('account', { shieldTo: SHIELD_TO, maxLogicalActions: 2 }))
+      .rejects.toThrow('Logical action limit too low to shield: 2');
+  });
+});
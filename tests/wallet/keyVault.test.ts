@@ -0,0 +1,36 @@
+/**
+ * Tests for the key vault of the Zcash module
+ */
+
+import { ZcashModule } from '../../src/wallet/integration';
+import type { MidenWalletAPI } from '../../src/wallet/midenKeyBridge';
+import { ZcashKeyDerivation } from '../../src/crypto/keyDerivation';
+
+const PASSWORD = 'correct horse battery';
+const ACCOUNT_ID = 'miden-account-123';
+const MIDEN_PRIVATE_KEY = new Uint8Array(32).fill(1);
+
+describe('ZcashModule key vault', () => {
+  const midenWallet: MidenWalletAPI = {
+    getActiveAccount: async () => ({ id: ACCOUNT_ID, name: 'Main', publicKey: new Uint8Array(32) }),
+    getAccounts: async () => [{ id: ACCOUNT_ID, name: 'Main' }],
+    exportPrivateKey: async () => MIDEN_PRIVATE_KEY.slice(),
+    onAccountChange: () => () => {},
+    getNetwork: () => 'testnet'
+  };
+
+  it('should store every key and register the unified address from an unlocked vault', async () => {
+    const module = new ZcashModule({ midenWallet, rpcEndpoint: 'http://localhost:8232' });
+    await module.setupKeyVault(ACCOUNT_ID, PASSWORD);
+    await module.unlockKeyVault(ACCOUNT_ID, PASSWORD);
+
+    const keys = (module as any).keyVault.getKeys(ACCOUNT_ID);
+    expect(keys).toEqual(new ZcashKeyDerivation('testnet').deriveKeys(ACCOUNT_ID, MIDEN_PRIVATE_KEY, 0));
+
+    await module.getAddresses(ACCOUNT_ID);
+    const provider = (module as any).provider;
+    expect(provider.addressToAccountId.get(keys.unifiedAddress)).toBe(ACCOUNT_ID);
+
+    await module.shutdown();
+  }, 60000); // Key derivation and password hashing for every stored key
+});